@@ -49,8 +49,16 @@ export const getPayPalClientForRegion = async (
     throw new Error(`PayPal credentials not configured for region: ${region}`);
   }
   
-  let environment: paypal.core.LiveEnvironment | paypal.core.SandboxEnvironment;
-  if (config.environment === 'production') {
+  let environment: paypal.core.PayPalEnvironment;
+  if (process.env.PAYPAL_API_BASE_URL) {
+    // Point the SDK at a PayPal-compatible mock server (local development and tests)
+    environment = new paypal.core.PayPalEnvironment(
+      config.clientId,
+      config.clientSecret,
+      process.env.PAYPAL_API_BASE_URL,
+      process.env.PAYPAL_API_BASE_URL
+    );
+  } else if (config.environment === 'production') {
     environment = new paypal.core.LiveEnvironment(
       config.clientId,
       config.clientSecret
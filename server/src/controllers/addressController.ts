@@ -0,0 +1,119 @@
+/**
+ * Address Controller
+ * Handles the customer address book endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { AddressService } from '../services/AddressService';
+import { successResponse } from '../utils/response';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+import { AddressType } from '../types/address';
+
+export class AddressController {
+  private addressService: AddressService;
+
+  constructor(pool: Pool) {
+    this.addressService = new AddressService(pool);
+  }
+
+  /**
+   * List saved addresses
+   * GET /api/auth/addresses
+   */
+  listAddresses = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = this.requireUserId(req);
+      const addresses = await this.addressService.listAddresses(userId, req.query.type as AddressType | undefined);
+      res.json(successResponse(addresses));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get a saved address
+   * GET /api/auth/addresses/:id
+   */
+  getAddress = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = this.requireUserId(req);
+      const address = await this.addressService.getAddress(userId, this.parseId(req.params.id));
+      res.json(successResponse(address));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Save a new address
+   * POST /api/auth/addresses
+   */
+  createAddress = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = this.requireUserId(req);
+      const address = await this.addressService.createAddress(userId, req.body);
+      res.status(201).json(successResponse(address, 'Address saved'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a saved address
+   * PUT /api/auth/addresses/:id
+   */
+  updateAddress = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = this.requireUserId(req);
+      const address = await this.addressService.updateAddress(userId, this.parseId(req.params.id), req.body);
+      res.json(successResponse(address, 'Address updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Make an address the default for its type
+   * POST /api/auth/addresses/:id/default
+   */
+  setDefaultAddress = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = this.requireUserId(req);
+      const address = await this.addressService.setDefaultAddress(userId, this.parseId(req.params.id));
+      res.json(successResponse(address, 'Default address updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a saved address
+   * DELETE /api/auth/addresses/:id
+   */
+  deleteAddress = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = this.requireUserId(req);
+      await this.addressService.deleteAddress(userId, this.parseId(req.params.id));
+      res.json(successResponse(null, 'Address deleted'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private requireUserId(req: Request): number {
+    const userId = req.session?.userId;
+    if (!userId) {
+      throw new AuthenticationError('Authentication required');
+    }
+    return userId;
+  }
+
+  private parseId(value: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new ValidationError('Invalid address ID');
+    }
+    return id;
+  }
+}
@@ -6,16 +6,19 @@
 import { Request, Response, NextFunction } from 'express';
 import { Pool } from 'pg';
 import { VariationStockService } from '../../services/VariationStockService';
+import { InventoryService } from '../../services/InventoryService';
 import { successResponse } from '../../utils/response';
 import { ValidationError } from '../../utils/errors';
 
 export class VariationStockController {
   private variationStockService: VariationStockService;
+  private inventoryService: InventoryService;
   private pool: Pool;
 
   constructor(pool: Pool) {
     this.pool = pool;
     this.variationStockService = new VariationStockService(pool);
+    this.inventoryService = new InventoryService(pool);
   }
 
   /**
@@ -82,7 +85,9 @@ export class VariationStockController {
   };
 
   /**
-   * Update stock for variation options
+   * Update stock for variation options. With a warehouseId the quantity and
+   * threshold are set at that location; otherwise at the region's default warehouse
+   * and the threshold is the option-wide one.
    * PUT /api/admin/variations/:variationId/stock
    */
   updateVariationStock = async (req: Request, res: Response, next: NextFunction) => {
@@ -90,7 +95,7 @@ export class VariationStockController {
     
     try {
       const variationId = parseInt(req.params.variationId);
-      const { options } = req.body;
+      const { options, reason, note, warehouseId } = req.body;
 
       if (!options || !Array.isArray(options) || options.length === 0) {
         throw new ValidationError('Options array is required and cannot be empty');
@@ -110,12 +115,42 @@ export class VariationStockController {
           ? null 
           : Number(option.low_stock_threshold);
 
-        await client.query(
-          `UPDATE variation_options 
-           SET stock_quantity = $1, low_stock_threshold = $2
-           WHERE id = $3 AND variation_id = $4`,
-          [stockQty, threshold, option.optionId, variationId]
+        const updated = warehouseId
+          ? await client.query('SELECT id FROM variation_options WHERE id = $1 AND variation_id = $2', [option.optionId, variationId])
+          : await client.query(
+            `UPDATE variation_options 
+             SET low_stock_threshold = $1
+             WHERE id = $2 AND variation_id = $3`,
+            [threshold, option.optionId, variationId]
+          );
+
+        if (updated.rowCount === 0) {
+          continue;
+        }
+
+        // A physical count or a manual correction; either way the ledger records the difference
+        await this.inventoryService.setOptionStock(
+          option.optionId,
+          stockQty,
+          {
+            reason: reason || 'manual_adjustment',
+            note: note || null,
+            actorType: 'admin',
+            actorId: req.session.userId,
+            sourceType: 'variation_stock_edit',
+            sourceId: variationId,
+            warehouseId: warehouseId || null
+          },
+          client
         );
+
+        if (warehouseId) {
+          await client.query(
+            `UPDATE warehouse_stock SET low_stock_threshold = $1, updated_at = CURRENT_TIMESTAMP
+             WHERE warehouse_id = $2 AND variation_option_id = $3`,
+            [threshold, warehouseId, option.optionId]
+          );
+        }
       }
 
       await client.query('COMMIT');
@@ -136,9 +171,17 @@ export class VariationStockController {
    */
   adjustVariationStock = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { optionId, adjustment, reason } = req.body;
-
-      await this.variationStockService.adjustStock(optionId, adjustment, reason);
+      const { optionId, adjustment, reason, note, warehouseId } = req.body;
+
+      await this.variationStockService.adjustStock(optionId, adjustment, {
+        reason,
+        note,
+        actorType: 'admin',
+        actorId: req.session.userId,
+        sourceType: 'variation_stock_edit',
+        sourceId: req.params.variationId,
+        warehouseId: warehouseId || null
+      });
 
       res.json(successResponse({ 
         message: `Stock adjusted by ${adjustment > 0 ? '+' : ''}${adjustment}` 
@@ -0,0 +1,59 @@
+/**
+ * Admin Audit Controller
+ * Handles the admin activity audit log and its CSV export
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { AuditLogService } from '../services/AuditLogService';
+import { successResponse } from '../utils/response';
+
+export class AdminAuditController {
+  private auditLogService: AuditLogService;
+
+  constructor(pool: Pool) {
+    this.auditLogService = new AuditLogService(pool);
+  }
+
+  /**
+   * List audit log entries
+   * GET /api/admin/audit-log?resourceType=coupon&from=2025-01-01
+   */
+  listLogs = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await this.auditLogService.getLogs(req.query as any);
+      res.json(successResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Export audit log entries matching the filters as CSV
+   * GET /api/admin/audit-log/export
+   */
+  exportLogs = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const csv = await this.auditLogService.exportCsv(req.query as any);
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().split('T')[0]}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Entity types and users that appear in the log, for the filter menus
+   * GET /api/admin/audit-log/filters
+   */
+  getFilterOptions = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const options = await this.auditLogService.getFilterOptions();
+      res.json(successResponse(options));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -43,7 +43,8 @@ export class AdminCSVController {
       const options: ImportOptions = {
         mode: mode as any,
         dryRun,
-        importAsGroups
+        importAsGroups,
+        importedBy: req.session.userId
       };
 
       const result = await this.importService.importProducts(csvContent, options);
@@ -6,13 +6,16 @@
 import { Request, Response } from 'express';
 import { Pool } from 'pg';
 import { EmailService } from '../services/EmailService';
+import { EmailQueueService } from '../services/EmailQueueService';
 import { NotFoundError, ValidationError } from '../utils/errors';
 
 export class AdminEmailController {
   private emailService: EmailService;
+  private emailQueueService: EmailQueueService;
 
   constructor(private pool: Pool) {
     this.emailService = new EmailService(pool);
+    this.emailQueueService = new EmailQueueService(pool, this.emailService);
     // Initialize email service to ensure transporter is set up
     this.emailService.initialize().catch(err => {
       console.error('Failed to initialize email service in AdminEmailController:', err);
@@ -295,5 +298,62 @@ export class AdminEmailController {
       res.status(500).json({ error: 'Failed to fetch email stats' });
     }
   }
-}
 
+  /**
+   * Get email queue rows and counts
+   * GET /api/admin/email-queue
+   */
+  async getEmailQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const { status = 'dead', limit = 50, offset = 0 } = req.query;
+      const allowedStatuses = ['pending', 'processing', 'sent', 'failed', 'dead'];
+
+      if (!allowedStatuses.includes(status as string)) {
+        res.status(400).json({ error: `Status must be one of: ${allowedStatuses.join(', ')}` });
+        return;
+      }
+
+      const [items, stats] = await Promise.all([
+        this.emailQueueService.listQueue(
+          status as any,
+          parseInt(limit as string),
+          parseInt(offset as string)
+        ),
+        this.emailQueueService.getStats()
+      ]);
+
+      res.json({ items, stats });
+    } catch (error: any) {
+      console.error('Error fetching email queue:', error);
+      res.status(500).json({ error: 'Failed to fetch email queue' });
+    }
+  }
+
+  /**
+   * Requeue a dead-lettered email
+   * POST /api/admin/email-queue/:id/requeue
+   */
+  async requeueEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        res.status(400).json({ error: 'Invalid queue item ID' });
+        return;
+      }
+
+      const item = await this.emailQueueService.requeue(id);
+      res.json(item);
+    } catch (error: any) {
+      if (error instanceof NotFoundError) {
+        res.status(404).json({ error: 'Queued email not found' });
+        return;
+      }
+      if (error instanceof ValidationError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Error requeueing email:', error);
+      res.status(500).json({ error: 'Failed to requeue email' });
+    }
+  }
+}
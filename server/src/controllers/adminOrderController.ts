@@ -7,23 +7,35 @@ import { Request, Response, NextFunction } from 'express';
 import { Pool } from 'pg';
 import { OrderService } from '../services/OrderService';
 import { EmailService } from '../services/EmailService';
-import { OrderStatus } from '../types/cart';
+import { OrderStatusService, getAllowedTransitions, runAfterCommit } from '../services/OrderStatusService';
+import { InventoryService } from '../services/InventoryService';
+import { WarehouseService } from '../services/WarehouseService';
+import { BackorderService } from '../services/BackorderService';
+import { AfterCommitTask, OrderStatus } from '../types/cart';
 import { successResponse, paginatedResponse } from '../utils/response';
 import { formatCurrency } from '../utils/currency';
 
 export class AdminOrderController {
   private orderService: OrderService;
   private emailService: EmailService;
+  private orderStatusService: OrderStatusService;
+  private inventoryService: InventoryService;
+  private warehouseService: WarehouseService;
+  private backorderService: BackorderService;
 
   constructor(pool: Pool) {
     this.orderService = new OrderService(pool);
     this.emailService = new EmailService(pool);
     this.emailService.initialize();
+    this.orderStatusService = new OrderStatusService(pool, this.emailService);
+    this.inventoryService = new InventoryService(pool);
+    this.warehouseService = new WarehouseService(pool);
+    this.backorderService = new BackorderService(pool, this.emailService);
   }
 
   /**
    * Get all orders (admin)
-   * GET /api/admin/orders
+   * GET /api/admin/orders?backorder=blocked lists orders still waiting on backordered units
    */
   listOrders = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -33,6 +45,7 @@ export class AdminOrderController {
       const search = req.query.search as string;
       const region = req.query.region as string;
       const couponId = req.query.coupon_id as string;
+      const backorder = req.query.backorder as string;
 
       const offset = (page - 1) * limit;
 
@@ -44,7 +57,10 @@ export class AdminOrderController {
                u.last_name as user_last_name,
                cu.coupon_id,
                c.code as coupon_code,
-               cu.discount_amount as coupon_discount
+               cu.discount_amount as coupon_discount,
+               (SELECT COALESCE(SUM(ba.quantity - ba.quantity_allocated), 0)::int
+                FROM backorder_allocations ba
+                WHERE ba.order_id = o.id AND ba.status = 'waiting') as backordered_units
         FROM orders o
         LEFT JOIN users u ON u.id = o.user_id
         LEFT JOIN order_items oi ON oi.order_id = o.id
@@ -86,6 +102,10 @@ export class AdminOrderController {
         }
       }
 
+      if (backorder === 'blocked') {
+        sql += ` AND EXISTS (SELECT 1 FROM backorder_allocations ba2 WHERE ba2.order_id = o.id AND ba2.status = 'waiting')`;
+      }
+
       sql += ` GROUP BY o.id, u.email, u.first_name, u.last_name, cu.coupon_id, c.code, cu.discount_amount`;
       sql += ` ORDER BY o.created_at DESC`;
       sql += ` LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}`;
@@ -134,6 +154,10 @@ export class AdminOrderController {
         }
       }
 
+      if (backorder === 'blocked') {
+        countSql += ` AND EXISTS (SELECT 1 FROM backorder_allocations ba2 WHERE ba2.order_id = o.id AND ba2.status = 'waiting')`;
+      }
+
       const [ordersResult, countResult] = await Promise.all([
         this.orderService['pool'].query(sql, params),
         this.orderService['pool'].query(countSql, countParams)
@@ -183,11 +207,16 @@ export class AdminOrderController {
 
       // Get order items
       const itemsSql = 'SELECT * FROM order_items WHERE order_id = $1';
-      const itemsResult = await this.orderService['pool'].query(itemsSql, [orderId]);
+      const [itemsResult, backorders] = await Promise.all([
+        this.orderService['pool'].query(itemsSql, [orderId]),
+        this.backorderService.getOrderBackorders(orderId)
+      ]);
 
       res.json(successResponse({
         ...order,
-        items: itemsResult.rows
+        items: itemsResult.rows,
+        backorders,
+        allowed_transitions: getAllowedTransitions(order.status)
       }));
     } catch (error) {
       next(error);
@@ -201,71 +230,100 @@ export class AdminOrderController {
   updateStatus = async (req: Request, res: Response, next: NextFunction) => {
     try {
       const orderId = parseInt(req.params.id);
-      const { status, trackingNumber, carrier, notes } = req.body;
-
-      // Get previous order state BEFORE update to check if note is new
-      const previousOrderResult = await this.orderService['pool'].query(
-        'SELECT notes FROM orders WHERE id = $1',
-        [orderId]
-      );
-      
-      if (previousOrderResult.rows.length === 0) {
-        return res.status(404).json({
-          success: false,
-          error: { code: 'ORDER_NOT_FOUND', message: 'Order not found' }
-        });
-      }
+      const { status, reason, trackingNumber, carrier, notes } = req.body;
+      const pool = this.orderService['pool'];
+      const client = await pool.connect();
+      const afterCommit: AfterCommitTask[] = [];
+      let order: any;
+      let hasNewNote = false;
 
-      const previousNotes = previousOrderResult.rows[0]?.notes || '';
-      const hasNewNote = notes && notes.trim() && notes !== previousNotes && notes.trim().length > 0;
+      // Field edits and the status change succeed or fail together
+      try {
+        await client.query('BEGIN');
 
-      let sql = 'UPDATE orders SET status = $1, updated_at = CURRENT_TIMESTAMP';
-      const params: any[] = [status];
-      let paramCount = 1;
+        // Get previous order state BEFORE update to check if note is new
+        const previousOrderResult = await client.query(
+          'SELECT status, notes FROM orders WHERE id = $1 FOR UPDATE',
+          [orderId]
+        );
+        
+        if (previousOrderResult.rows.length === 0) {
+          await client.query('ROLLBACK');
+          return res.status(404).json({
+            success: false,
+            error: { code: 'ORDER_NOT_FOUND', message: 'Order not found' }
+          });
+        }
 
-      if (trackingNumber) {
-        paramCount++;
-        sql += `, tracking_number = $${paramCount}`;
-        params.push(trackingNumber);
-      }
+        const previousNotes = previousOrderResult.rows[0]?.notes || '';
+        hasNewNote = !!(notes && notes.trim() && notes !== previousNotes && notes.trim().length > 0);
 
-      if (notes) {
-        paramCount++;
-        sql += `, notes = $${paramCount}`;
-        params.push(notes);
-      }
+        const updates: string[] = [];
+        const params: any[] = [];
 
-      sql += ` WHERE id = $${paramCount + 1} RETURNING *`;
-      params.push(orderId);
+        if (trackingNumber) {
+          params.push(trackingNumber);
+          updates.push(`tracking_number = $${params.length}`);
+        }
 
-      const result = await this.orderService['pool'].query(sql, params);
+        if (carrier) {
+          params.push(carrier);
+          updates.push(`carrier = $${params.length}`);
+        }
 
-      if (result.rows.length === 0) {
-        return res.status(404).json({
-          success: false,
-          error: { code: 'ORDER_NOT_FOUND', message: 'Order not found' }
-        });
-      }
+        if (notes) {
+          params.push(notes);
+          updates.push(`notes = $${params.length}`);
+        }
 
-      const order = result.rows[0];
+        if (updates.length > 0) {
+          params.push(orderId);
+          await client.query(
+            `UPDATE orders SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = $${params.length}`,
+            params
+          );
+        }
 
-      // Get customer name from billing address (handle JSONB parsing)
-      let customerName = order.customer_email;
-      try {
-        const billingAddress = typeof order.billing_address === 'string' 
-          ? JSON.parse(order.billing_address) 
-          : order.billing_address;
-        if (billingAddress?.firstName && billingAddress?.lastName) {
-          customerName = `${billingAddress.firstName} ${billingAddress.lastName}`;
+        // Status changes go through the order state machine, which records the transition and queues its email
+        if (status && status !== previousOrderResult.rows[0].status) {
+          await this.orderStatusService.transition(orderId, status as OrderStatus, {
+            actorType: 'admin',
+            actorId: req.session.userId,
+            reason: reason || null,
+            afterCommit
+          }, client);
         }
+
+        const result = await client.query('SELECT * FROM orders WHERE id = $1', [orderId]);
+        order = result.rows[0];
+
+        await client.query('COMMIT');
       } catch (error) {
-        // If parsing fails, use email as fallback
-        console.warn('Could not parse billing address for customer name:', error);
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
       }
 
-          // Trigger admin note event if a new note was added
+      await runAfterCommit(afterCommit);
+
+      // Trigger admin note event if a new note was added
       if (hasNewNote) {
         try {
+          // Get customer name from billing address (handle JSONB parsing)
+          let customerName = order.customer_email;
+          try {
+            const billingAddress = typeof order.billing_address === 'string' 
+              ? JSON.parse(order.billing_address) 
+              : order.billing_address;
+            if (billingAddress?.firstName && billingAddress?.lastName) {
+              customerName = `${billingAddress.firstName} ${billingAddress.lastName}`;
+            }
+          } catch (error) {
+            // If parsing fails, use email as fallback
+            console.warn('Could not parse billing address for customer name:', error);
+          }
+
           const totalAmount = typeof order.total_amount === 'string' ? parseFloat(order.total_amount) : Number(order.total_amount) || 0;
           // Get region from order (default to 'us' for backward compatibility)
           const orderRegion = (order.region || 'us') as 'us' | 'eu';
@@ -292,55 +350,9 @@ export class AdminOrderController {
         }
       }
 
-      // Trigger appropriate event based on status change - automatically sends emails for all templates registered for the event
-      try {
-        let triggerEvent: string | null = null;
-        
-        if (status === 'processing') {
-          triggerEvent = 'order.processing';
-        } else if (status === 'completed' || status === 'delivered') {
-          triggerEvent = 'order.completed';
-        } else if (status === 'cancelled') {
-          triggerEvent = 'order.cancelled';
-        } else if (status === 'on_hold') {
-          triggerEvent = 'order.on_hold';
-        } else if (status === 'refunded') {
-          triggerEvent = 'order.refunded';
-        }
-
-        if (triggerEvent) {
-          // Convert string amounts to numbers (PostgreSQL returns numeric types as strings)
-          const totalAmount = typeof order.total_amount === 'string' ? parseFloat(order.total_amount) : Number(order.total_amount) || 0;
-          // Get region from order (default to 'us' for backward compatibility)
-          const orderRegion = (order.region || 'us') as 'us' | 'eu';
-
-          await this.emailService.triggerEvent(
-            triggerEvent,
-            {
-              order_number: order.order_number,
-              customer_name: customerName,
-              customer_email: order.customer_email,
-              order_total: formatCurrency(totalAmount, orderRegion, 'total'),
-              order_date: new Date(order.created_at).toLocaleDateString(),
-              tracking_number: trackingNumber || '',
-              carrier: carrier || '',
-              cancellation_reason: (status === 'cancelled' && notes) ? notes : ''
-            },
-            {
-              customerEmail: order.customer_email,
-              customerName: customerName,
-              adminEmail: 'info@simfab.com'
-            },
-            orderRegion
-          );
-
-        }
-      } catch (emailError) {
-        console.error(`Failed to trigger ${status} event emails:`, emailError);
-      }
-
       res.json(successResponse({
-        order: result.rows[0],
+        order,
+        allowed_transitions: getAllowedTransitions(order.status),
         message: 'Order status updated'
       }));
     } catch (error) {
@@ -348,6 +360,21 @@ export class AdminOrderController {
     }
   };
 
+  /**
+   * Get order status history (admin)
+   * GET /api/admin/orders/:id/history
+   */
+  getStatusHistory = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orderId = parseInt(req.params.id);
+      const history = await this.orderStatusService.getHistory(orderId);
+
+      res.json(successResponse(history));
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * Get dashboard statistics
    * GET /api/admin/dashboard/stats
@@ -1028,59 +1055,25 @@ export class AdminOrderController {
    */
   getProductStockTurnover = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const pool = this.orderService['pool'];
       const { period = '90d' } = req.query;
 
       // Calculate date range based on period
-      let dateCondition = '';
+      let days = 90;
 
       switch (period) {
         case '30d':
-          dateCondition = "o.created_at >= CURRENT_DATE - INTERVAL '30 days'";
-          break;
-        case '90d':
-          dateCondition = "o.created_at >= CURRENT_DATE - INTERVAL '90 days'";
+          days = 30;
           break;
         case '1y':
-          dateCondition = "o.created_at >= CURRENT_DATE - INTERVAL '1 year'";
+          days = 365;
           break;
-        default:
-          dateCondition = "o.created_at >= CURRENT_DATE - INTERVAL '90 days'";
       }
 
-      const sql = `
-        SELECT
-          p.id,
-          p.name as product_name,
-          p.sku,
-          p.stock as current_stock,
-          COALESCE(SUM(oi.quantity), 0)::int as sold_in_period,
-          CASE
-            WHEN p.stock > 0 THEN
-              ROUND((COALESCE(SUM(oi.quantity), 0) / p.stock) * 100) / 100
-            ELSE 0
-          END as turnover_ratio,
-          CASE
-            WHEN COALESCE(SUM(oi.quantity), 0) > 0 THEN
-              ROUND(p.stock / (COALESCE(SUM(oi.quantity), 0) / GREATEST(EXTRACT(EPOCH FROM (CURRENT_DATE - MIN(o.created_at))) / 86400 / 30, 1)))
-            ELSE 999
-          END as months_of_stock,
-          p.low_stock_amount,
-          CASE WHEN p.stock <= COALESCE(p.low_stock_amount, 10) THEN true ELSE false END as is_low_stock
-        FROM products p
-        LEFT JOIN order_items oi ON oi.product_id = p.id
-        LEFT JOIN orders o ON o.id = oi.order_id AND o.payment_status = 'paid' AND ${dateCondition}
-        WHERE p.status = 'active'
-        GROUP BY p.id, p.name, p.sku, p.stock, p.low_stock_amount
-        ORDER BY turnover_ratio DESC, sold_in_period DESC
-        LIMIT 50
-      `;
-
-      const result = await pool.query(sql);
+      const products = await this.inventoryService.getStockTurnover(days, 50);
 
       res.json(successResponse({
         period,
-        products: result.rows
+        products
       }));
     } catch (error) {
       next(error);
@@ -1605,21 +1598,21 @@ export class AdminOrderController {
       const result = await pool.query(inventorySql);
       const inventoryData = result.rows[0];
 
-      // Get stock movement data for the period
+      // Get stock movement data for the period from the inventory ledger
       const movementSql = `
         WITH stock_movements AS (
           SELECT
             p.id,
             p.name,
             p.stock as current_stock,
-            COALESCE(SUM(oi.quantity), 0)::int as sold_in_period,
+            COALESCE(-SUM(m.delta) FILTER (WHERE m.reason = 'sale'), 0)::int as sold_in_period,
+            COUNT(m.id)::int as movement_count,
             p.low_stock_amount,
             CASE WHEN p.stock <= COALESCE(p.low_stock_amount, 10) THEN true ELSE false END as is_low_stock,
             CASE WHEN p.stock = 0 THEN true ELSE false END as is_out_of_stock
           FROM products p
-          LEFT JOIN order_items oi ON oi.product_id = p.id
-          LEFT JOIN orders o ON o.id = oi.order_id AND o.payment_status = 'paid'
-            AND o.created_at >= CURRENT_DATE - INTERVAL '${period === '7d' ? '7 days' :
+          LEFT JOIN inventory_movements m ON m.product_id = p.id
+            AND m.created_at >= CURRENT_DATE - INTERVAL '${period === '7d' ? '7 days' :
                                                    period === '30d' ? '30 days' :
                                                    period === '90d' ? '90 days' : '30 days'}'
           WHERE p.status = 'active'
@@ -1629,6 +1622,7 @@ export class AdminOrderController {
           COUNT(*)::int as total_products_analyzed,
           COUNT(*) FILTER (WHERE is_low_stock)::int as low_stock_count,
           COUNT(*) FILTER (WHERE is_out_of_stock)::int as out_of_stock_count,
+          COUNT(*) FILTER (WHERE movement_count > 0)::int as products_with_movement,
           SUM(sold_in_period)::int as total_sold_in_period,
           AVG(sold_in_period)::float as avg_sold_per_product,
           SUM(current_stock)::int as total_current_stock,
@@ -1643,6 +1637,8 @@ export class AdminOrderController {
       const stockTurnoverRate = movementData.total_current_stock > 0 ?
         (movementData.total_sold_in_period / movementData.total_current_stock) : 0;
 
+      const warehouses = await this.warehouseService.getWarehouses(false);
+
       const inventoryAnalytics = {
         period,
         overview: {
@@ -1664,15 +1660,25 @@ export class AdminOrderController {
         sales_velocity: {
           total_sold_in_period: movementData.total_sold_in_period,
           avg_sold_per_product: movementData.avg_sold_per_product,
-          products_with_movement: movementData.total_products_analyzed - movementData.out_of_stock_count,
-          products_without_movement: movementData.out_of_stock_count
+          products_with_movement: movementData.products_with_movement,
+          products_without_movement: movementData.total_products_analyzed - movementData.products_with_movement
         },
         recommendations: {
           needs_restock: movementData.low_stock_count,
           needs_attention: movementData.out_of_stock_count,
           optimal_stock_level: Math.round(movementData.avg_sold_per_product * 30), // 30 days coverage
           estimated_monthly_sales: Math.round(movementData.total_sold_in_period * (30 / parseInt(String(period).replace('d', ''))))
-        }
+        },
+        by_location: warehouses.map(warehouse => ({
+          warehouse_id: warehouse.id,
+          code: warehouse.code,
+          name: warehouse.name,
+          region: warehouse.region,
+          sku_count: warehouse.sku_count,
+          units_on_hand: warehouse.units_on_hand,
+          units_reserved: warehouse.units_reserved,
+          low_stock_count: warehouse.low_stock_count
+        }))
       };
 
       res.json(successResponse(inventoryAnalytics));
@@ -1682,59 +1688,42 @@ export class AdminOrderController {
   };
 
   /**
-   * Get inventory stock movements and trends
+   * Get inventory stock movements and trends from the inventory ledger
    * GET /api/admin/analytics/inventory/stock-movements?period=90d&limit=20
    */
   getInventoryStockMovements = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const pool = this.orderService['pool'];
       const { period = '90d', limit = '20' } = req.query;
+      const days = period === '7d' ? 7 : period === '30d' ? 30 : 90;
+      const rowLimit = Math.min(parseInt(limit as string) || 20, 100);
 
-      const movementsSql = `
-        SELECT
-          p.id,
-          p.name as product_name,
-          p.sku,
-          p.stock as current_stock,
-          p.low_stock_amount,
-          COALESCE(SUM(oi.quantity), 0)::int as sold_in_period,
-          CASE
-            WHEN p.stock > 0 THEN
-              ROUND((COALESCE(SUM(oi.quantity), 0) / p.stock) * 100) / 100
-            ELSE 0
-          END as turnover_rate,
-          CASE
-            WHEN COALESCE(SUM(oi.quantity), 0) > 0 THEN
-              ROUND(p.stock / (COALESCE(SUM(oi.quantity), 0) / GREATEST(EXTRACT(EPOCH FROM (CURRENT_DATE - MIN(o.created_at))) / 86400 / 30, 1)))
-            ELSE 999
-          END as months_of_stock,
-          CASE WHEN p.stock <= COALESCE(p.low_stock_amount, 10) THEN 'low_stock'
-               WHEN p.stock = 0 THEN 'out_of_stock'
-               ELSE 'healthy' END as stock_status,
-          MAX(o.created_at) as last_sale_date,
-          COUNT(DISTINCT o.id) as total_orders
-        FROM products p
-        LEFT JOIN order_items oi ON oi.product_id = p.id
-        LEFT JOIN orders o ON o.id = oi.order_id AND o.payment_status = 'paid'
-          AND o.created_at >= CURRENT_DATE - INTERVAL '${period === '7d' ? '7 days' :
-                                                   period === '30d' ? '30 days' :
-                                                   period === '90d' ? '90 days' : '90 days'}'
-        WHERE p.status = 'active'
-        GROUP BY p.id, p.name, p.sku, p.stock, p.low_stock_amount
-        ORDER BY
-          CASE WHEN p.stock <= COALESCE(p.low_stock_amount, 10) THEN 1
-               WHEN p.stock = 0 THEN 2
-               ELSE 3 END,
-          sold_in_period DESC
-        LIMIT ${parseInt(limit as string) || 20}
-      `;
+      const since = new Date();
+      since.setDate(since.getDate() - days);
 
-      const result = await pool.query(movementsSql);
+      const summary = await this.inventoryService.getMovementSummary(since, rowLimit);
+      const movements = summary.map(row => {
+        const currentStock = row.current_stock === null ? null : Number(row.current_stock);
+        return {
+          ...row,
+          current_stock: currentStock,
+          sold_in_period: row.units_sold,
+          turnover_rate: currentStock && currentStock > 0
+            ? Math.round((row.units_sold / currentStock) * 100) / 100
+            : 0,
+          stock_status: currentStock === null ? 'unmanaged'
+            : currentStock <= 0 ? 'out_of_stock'
+            : currentStock <= (row.low_stock_threshold ?? 10) ? 'low_stock'
+            : 'healthy'
+        };
+      });
+
+      const recent = await this.inventoryService.getMovements({ limit: rowLimit });
 
       res.json(successResponse({
         period,
-        limit: parseInt(limit as string) || 20,
-        movements: result.rows
+        limit: rowLimit,
+        movements,
+        recent: recent.movements
       }));
     } catch (error) {
       next(error);
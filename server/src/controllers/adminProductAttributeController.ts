@@ -0,0 +1,80 @@
+/**
+ * Admin Product Attribute Controller
+ * Handles the definitions of the typed product attributes used as catalog filters
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { ProductAttributeService } from '../services/ProductAttributeService';
+import { successResponse } from '../utils/response';
+import { ValidationError } from '../utils/errors';
+
+export class AdminProductAttributeController {
+  private attributeService: ProductAttributeService;
+
+  constructor(pool: Pool) {
+    this.attributeService = new ProductAttributeService(pool);
+  }
+
+  /**
+   * List attribute definitions
+   * GET /api/admin/product-attributes?category=sim-racing
+   */
+  listAttributes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const attributes = await this.attributeService.listAttributes({
+        category: req.query.category as string | undefined
+      });
+      res.json(successResponse(attributes));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create an attribute definition
+   * POST /api/admin/product-attributes
+   */
+  createAttribute = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const attribute = await this.attributeService.createAttribute(req.body);
+      res.status(201).json(successResponse(attribute, 'Attribute created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update an attribute definition
+   * PUT /api/admin/product-attributes/:id
+   */
+  updateAttribute = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const attribute = await this.attributeService.updateAttribute(this.parseId(req.params.id), req.body);
+      res.json(successResponse(attribute, 'Attribute updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete an attribute definition and its values on every product
+   * DELETE /api/admin/product-attributes/:id
+   */
+  deleteAttribute = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await this.attributeService.deleteAttribute(this.parseId(req.params.id));
+      res.json(successResponse(null, 'Attribute deleted'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private parseId(value: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new ValidationError('Invalid attribute ID');
+    }
+    return id;
+  }
+}
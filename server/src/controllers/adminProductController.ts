@@ -10,6 +10,10 @@ import { ProductVariationService } from '../services/ProductVariationService';
 import { ProductImageService } from '../services/ProductImageService';
 import { FileUploadService } from '../services/FileUploadService';
 import { ImageMigrationService } from '../services/ImageMigrationService';
+import { PackingService } from '../services/PackingService';
+import { InventoryService } from '../services/InventoryService';
+import { RecommendationService } from '../services/RecommendationService';
+import { ProductAttributeService } from '../services/ProductAttributeService';
 import {
   CreateProductDto,
   UpdateProductDto,
@@ -24,6 +28,10 @@ export class AdminProductController {
   private imageService: ProductImageService;
   private fileUploadService: FileUploadService;
   private imageMigrationService: ImageMigrationService;
+  private packingService: PackingService;
+  private inventoryService: InventoryService;
+  private recommendationService: RecommendationService;
+  private attributeService: ProductAttributeService;
   private pool: Pool;
 
   constructor(pool: Pool) {
@@ -33,6 +41,10 @@ export class AdminProductController {
     this.imageService = new ProductImageService(pool);
     this.fileUploadService = new FileUploadService();
     this.imageMigrationService = new ImageMigrationService(pool);
+    this.packingService = new PackingService(pool);
+    this.inventoryService = new InventoryService(pool);
+    this.recommendationService = new RecommendationService(pool);
+    this.attributeService = new ProductAttributeService(pool);
   }
 
   // ============================================================================
@@ -89,7 +101,10 @@ export class AdminProductController {
   createProduct = async (req: Request, res: Response, next: NextFunction) => {
     try {
       const productData: CreateProductDto = req.body;
-      const product = await this.productService.createProduct(productData);
+      const product = await this.productService.createProduct(productData, {
+        actorType: 'admin',
+        actorId: req.session.userId
+      });
 
       res.status(201).json(successResponse(product, 'Product created successfully'));
     } catch (error) {
@@ -125,6 +140,9 @@ export class AdminProductController {
         sku,
         stock_quantity_us,
         stock_quantity_eu
+      }, {
+        actorType: 'admin',
+        actorId: req.session.userId
       });
 
       res.status(201).json(successResponse(products, 'Product group created successfully (US & EU)'));
@@ -145,7 +163,10 @@ export class AdminProductController {
       // Log the request for debugging
       console.log('📝 Updating product:', productId, 'with data:', JSON.stringify(updateData, null, 2));
       
-      const product = await this.productService.updateProduct(productId, updateData);
+      const product = await this.productService.updateProduct(productId, updateData, {
+        actorType: 'admin',
+        actorId: req.session.userId
+      });
 
       console.log('✅ Product updated successfully:', product.id);
       res.json(successResponse(product, 'Product updated successfully'));
@@ -278,6 +299,171 @@ export class AdminProductController {
     }
   };
 
+  // ============================================================================
+  // INVENTORY LEDGER
+  // ============================================================================
+
+  /**
+   * Stock movement history for a product or one of its variation options
+   * GET /api/admin/products/:id/inventory-movements
+   */
+  getInventoryMovements = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const { optionId, reason, page, limit } = req.query as any;
+
+      const result = await this.inventoryService.getMovements({
+        productId,
+        variationOptionId: optionId,
+        reason,
+        page,
+        limit
+      });
+
+      res.json(successResponse(result, 'Inventory movements retrieved'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ============================================================================
+  // SHIPPING BOXES
+  // ============================================================================
+
+  /**
+   * Get the boxes a product ships in
+   * GET /api/admin/products/:id/shipping-boxes
+   */
+  getShippingBoxes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const boxes = await this.packingService.getProductBoxes(productId);
+
+      res.json(successResponse(boxes, 'Shipping boxes retrieved'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replace the boxes a product ships in
+   * PUT /api/admin/products/:id/shipping-boxes
+   */
+  updateShippingBoxes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const boxes = await this.packingService.replaceProductBoxes(productId, req.body.boxes);
+
+      res.json(successResponse(boxes, 'Shipping boxes updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ============================================================================
+  // ATTRIBUTES
+  // ============================================================================
+
+  /**
+   * Attribute values of a product
+   * GET /api/admin/products/:id/attributes
+   */
+  getProductAttributes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const attributes = await this.attributeService.getProductAttributes(productId);
+
+      res.json(successResponse(attributes, 'Attributes retrieved'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replace the attribute values of a product and its other-region listing
+   * PUT /api/admin/products/:id/attributes
+   */
+  updateProductAttributes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const attributes = await this.attributeService.setProductAttributes(productId, req.body.attributes, {
+        includeGroup: true
+      });
+
+      res.json(successResponse(attributes, 'Attributes saved'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ============================================================================
+  // RECOMMENDATIONS
+  // ============================================================================
+
+  /**
+   * Computed and curated recommendations of a product
+   * GET /api/admin/products/:id/recommendations
+   */
+  getRecommendations = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const relationships = await this.recommendationService.listRelationships(productId);
+
+      res.json(successResponse(relationships, 'Recommendations retrieved'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Pin or exclude a recommended product
+   * POST /api/admin/products/:id/recommendations
+   */
+  saveRecommendation = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const relationship = await this.recommendationService.upsertRelationship(
+        productId,
+        req.body,
+        req.session.userId
+      );
+
+      res.json(successResponse(relationship, relationship.is_excluded ? 'Recommendation excluded' : 'Recommendation saved'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Remove a recommendation
+   * DELETE /api/admin/products/:id/recommendations/:relationshipId
+   */
+  deleteRecommendation = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const relationshipId = parseInt(req.params.relationshipId);
+      await this.recommendationService.deleteRelationship(productId, relationshipId);
+
+      res.json(successResponse(null, 'Recommendation removed'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Rebuild computed recommendations from orders and product views
+   * POST /api/admin/products/recommendations/recompute
+   */
+  recomputeRecommendations = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await this.recommendationService.recomputeRelationships();
+
+      res.json(successResponse(result, 'Recommendations rebuilt'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
   // ============================================================================
   // IMAGES
   // ============================================================================
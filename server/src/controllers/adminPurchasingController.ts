@@ -0,0 +1,177 @@
+/**
+ * Admin Purchasing Controller
+ * Handles suppliers, purchase orders, receiving and landed-cost margin reporting
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { PurchaseOrderService } from '../services/PurchaseOrderService';
+import { successResponse } from '../utils/response';
+import { ValidationError } from '../utils/errors';
+
+export class AdminPurchasingController {
+  private purchaseOrderService: PurchaseOrderService;
+
+  constructor(pool: Pool) {
+    this.purchaseOrderService = new PurchaseOrderService(pool);
+  }
+
+  /**
+   * List suppliers
+   * GET /api/admin/purchasing/suppliers
+   */
+  listSuppliers = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const suppliers = await this.purchaseOrderService.getSuppliers();
+      res.json(successResponse(suppliers));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a supplier
+   * POST /api/admin/purchasing/suppliers
+   */
+  createSupplier = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const supplier = await this.purchaseOrderService.createSupplier(req.body);
+      res.status(201).json(successResponse(supplier, 'Supplier created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a supplier
+   * PUT /api/admin/purchasing/suppliers/:id
+   */
+  updateSupplier = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const supplier = await this.purchaseOrderService.updateSupplier(this.parseId(req.params.id, 'supplier'), req.body);
+      res.json(successResponse(supplier, 'Supplier updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * List purchase orders
+   * GET /api/admin/purchasing/orders
+   */
+  listPurchaseOrders = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await this.purchaseOrderService.getPurchaseOrders(req.query as any);
+      res.json(successResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get a purchase order with its lines
+   * GET /api/admin/purchasing/orders/:id
+   */
+  getPurchaseOrder = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const order = await this.purchaseOrderService.getPurchaseOrderById(this.parseId(req.params.id, 'purchase order'));
+      res.json(successResponse(order));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a draft purchase order
+   * POST /api/admin/purchasing/orders
+   */
+  createPurchaseOrder = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const order = await this.purchaseOrderService.createPurchaseOrder(req.body, req.session.userId);
+      res.status(201).json(successResponse(order, 'Purchase order created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a purchase order
+   * PUT /api/admin/purchasing/orders/:id
+   */
+  updatePurchaseOrder = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const order = await this.purchaseOrderService.updatePurchaseOrder(
+        this.parseId(req.params.id, 'purchase order'),
+        req.body
+      );
+      res.json(successResponse(order, 'Purchase order updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Place a draft purchase order with the supplier
+   * POST /api/admin/purchasing/orders/:id/place
+   */
+  placePurchaseOrder = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const order = await this.purchaseOrderService.markOrdered(this.parseId(req.params.id, 'purchase order'));
+      res.json(successResponse(order, 'Purchase order placed'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Receive stock against a purchase order
+   * POST /api/admin/purchasing/orders/:id/receive
+   */
+  receivePurchaseOrder = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const order = await this.purchaseOrderService.receivePurchaseOrder(
+        this.parseId(req.params.id, 'purchase order'),
+        req.body,
+        req.session.userId
+      );
+      res.json(successResponse(order, 'Stock received'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Cancel a purchase order
+   * POST /api/admin/purchasing/orders/:id/cancel
+   */
+  cancelPurchaseOrder = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const order = await this.purchaseOrderService.cancelPurchaseOrder(this.parseId(req.params.id, 'purchase order'));
+      res.json(successResponse(order, 'Purchase order cancelled'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Revenue against landed cost per product
+   * GET /api/admin/purchasing/reports/margins?period=30d
+   */
+  getMarginReport = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const period = String(req.query.period);
+      const rows = await this.purchaseOrderService.getMarginReport(parseInt(period.replace('d', ''), 10));
+      res.json(successResponse({ period, products: rows }));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private parseId(value: string, resource: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new ValidationError(`Invalid ${resource} ID`);
+    }
+    return id;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Admin Search Controller
+ * Handles storefront search configuration (synonyms, redirects) and the search report
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { SearchSynonymService } from '../services/SearchSynonymService';
+import { SearchRedirectService } from '../services/SearchRedirectService';
+import { SearchAnalyticsService } from '../services/SearchAnalyticsService';
+import { successResponse } from '../utils/response';
+import { ValidationError } from '../utils/errors';
+
+export class AdminSearchController {
+  private synonymService: SearchSynonymService;
+  private redirectService: SearchRedirectService;
+  private analyticsService: SearchAnalyticsService;
+
+  constructor(pool: Pool) {
+    this.synonymService = new SearchSynonymService(pool);
+    this.redirectService = new SearchRedirectService(pool);
+    this.analyticsService = new SearchAnalyticsService(pool);
+  }
+
+  /**
+   * Search report: top, zero-result, low click-through and converting queries
+   * GET /api/admin/search/report?days=30&region=us
+   */
+  getReport = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await this.analyticsService.getReport({
+        days: req.query.days ? parseInt(req.query.days as string) : undefined,
+        region: req.query.region as 'us' | 'eu' | undefined
+      });
+      res.json(successResponse(report));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * List search synonyms
+   * GET /api/admin/search/synonyms
+   */
+  listSynonyms = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const synonyms = await this.synonymService.listSynonyms();
+      res.json(successResponse(synonyms));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a search synonym
+   * POST /api/admin/search/synonyms
+   */
+  createSynonym = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const synonym = await this.synonymService.createSynonym(req.body, req.session.userId);
+      res.status(201).json(successResponse(synonym, 'Synonym created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a search synonym
+   * PUT /api/admin/search/synonyms/:id
+   */
+  updateSynonym = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const synonym = await this.synonymService.updateSynonym(this.parseId(req.params.id, 'synonym'), req.body);
+      res.json(successResponse(synonym, 'Synonym updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a search synonym
+   * DELETE /api/admin/search/synonyms/:id
+   */
+  deleteSynonym = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await this.synonymService.deleteSynonym(this.parseId(req.params.id, 'synonym'));
+      res.json(successResponse(null, 'Synonym deleted'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * List search redirects
+   * GET /api/admin/search/redirects
+   */
+  listRedirects = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const redirects = await this.redirectService.listRedirects();
+      res.json(successResponse(redirects));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a search redirect
+   * POST /api/admin/search/redirects
+   */
+  createRedirect = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const redirect = await this.redirectService.createRedirect(req.body, req.session.userId);
+      res.status(201).json(successResponse(redirect, 'Redirect created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a search redirect
+   * PUT /api/admin/search/redirects/:id
+   */
+  updateRedirect = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const redirect = await this.redirectService.updateRedirect(this.parseId(req.params.id, 'redirect'), req.body);
+      res.json(successResponse(redirect, 'Redirect updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a search redirect
+   * DELETE /api/admin/search/redirects/:id
+   */
+  deleteRedirect = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await this.redirectService.deleteRedirect(this.parseId(req.params.id, 'redirect'));
+      res.json(successResponse(null, 'Redirect deleted'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private parseId(value: string, resource: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new ValidationError(`Invalid ${resource} ID`);
+    }
+    return id;
+  }
+}
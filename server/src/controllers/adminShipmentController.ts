@@ -0,0 +1,95 @@
+/**
+ * Admin Shipment Controller
+ * Handles FedEx label creation, download and voiding from the admin order view
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { ShipmentService } from '../services/ShipmentService';
+import { successResponse } from '../utils/response';
+import { ValidationError } from '../utils/errors';
+
+export class AdminShipmentController {
+  private shipmentService: ShipmentService;
+
+  constructor(pool: Pool) {
+    this.shipmentService = new ShipmentService(pool);
+  }
+
+  /**
+   * List an order's shipments
+   * GET /api/admin/orders/:id/shipments
+   */
+  listShipments = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shipments = await this.shipmentService.getOrderShipments(this.parseId(req.params.id, 'order'));
+      res.json(successResponse(shipments));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a FedEx label for a paid order
+   * POST /api/admin/orders/:id/shipments
+   */
+  createLabel = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shipments = await this.shipmentService.createFedExLabel(this.parseId(req.params.id, 'order'), {
+        serviceType: req.body.serviceType,
+        createdBy: req.session.userId
+      });
+      res.status(201).json(successResponse(shipments, 'Shipping label created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Void a shipment's labels
+   * POST /api/admin/orders/:id/shipments/:shipmentId/void
+   */
+  voidLabel = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shipments = await this.shipmentService.voidShipment(
+        this.parseId(req.params.id, 'order'),
+        this.parseId(req.params.shipmentId, 'shipment'),
+        req.session.userId
+      );
+      res.json(successResponse(shipments, 'Shipping label voided'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Download a parcel's label
+   * GET /api/admin/orders/:id/shipments/:shipmentId/label
+   */
+  downloadLabel = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const label = await this.shipmentService.getLabel(
+        this.parseId(req.params.id, 'order'),
+        this.parseId(req.params.shipmentId, 'shipment')
+      );
+      const isPdf = label.format.toUpperCase() === 'PDF';
+
+      res.setHeader('Content-Type', isPdf ? 'application/pdf' : 'application/octet-stream');
+      res.setHeader(
+        'Content-Disposition',
+        `inline; filename="fedex-${label.trackingNumber}.${isPdf ? 'pdf' : label.format.toLowerCase()}"`
+      );
+      res.send(label.data);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private parseId(value: string, resource: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new ValidationError(`Invalid ${resource} ID`);
+    }
+    return id;
+  }
+}
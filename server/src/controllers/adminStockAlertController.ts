@@ -0,0 +1,78 @@
+/**
+ * Admin Stock Alert Controller
+ * Handles low-stock and out-of-stock alerts: listing, acknowledging, snoozing and re-checking
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { StockAlertService } from '../services/StockAlertService';
+import { successResponse } from '../utils/response';
+import { ValidationError } from '../utils/errors';
+
+export class AdminStockAlertController {
+  private stockAlertService: StockAlertService;
+
+  constructor(pool: Pool) {
+    this.stockAlertService = new StockAlertService(pool);
+  }
+
+  /**
+   * List stock alerts
+   * GET /api/admin/stock-alerts?status=active&region=us
+   */
+  listAlerts = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const alerts = await this.stockAlertService.getAlerts(req.query as any);
+      res.json(successResponse(alerts));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Re-check stock against thresholds without sending the digest
+   * POST /api/admin/stock-alerts/refresh
+   */
+  refreshAlerts = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await this.stockAlertService.evaluate();
+      res.json(successResponse(result, 'Stock alerts refreshed'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Acknowledge a stock alert
+   * POST /api/admin/stock-alerts/:id/acknowledge
+   */
+  acknowledgeAlert = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const alert = await this.stockAlertService.acknowledge(this.parseId(req.params.id), req.session.userId);
+      res.json(successResponse(alert, 'Stock alert acknowledged'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Snooze a stock alert for a number of days
+   * POST /api/admin/stock-alerts/:id/snooze
+   */
+  snoozeAlert = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const alert = await this.stockAlertService.snooze(this.parseId(req.params.id), req.body.days);
+      res.json(successResponse(alert, 'Stock alert snoozed'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private parseId(value: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new ValidationError('Invalid stock alert ID');
+    }
+    return id;
+  }
+}
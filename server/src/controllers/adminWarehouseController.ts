@@ -0,0 +1,189 @@
+/**
+ * Admin Warehouse Controller
+ * Handles warehouses, per-location stock levels and inter-warehouse transfers
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { WarehouseService } from '../services/WarehouseService';
+import { StockTransferService } from '../services/StockTransferService';
+import { successResponse } from '../utils/response';
+import { ValidationError } from '../utils/errors';
+
+export class AdminWarehouseController {
+  private warehouseService: WarehouseService;
+  private stockTransferService: StockTransferService;
+
+  constructor(pool: Pool) {
+    this.warehouseService = new WarehouseService(pool);
+    this.stockTransferService = new StockTransferService(pool);
+  }
+
+  /**
+   * List warehouses with stock totals
+   * GET /api/admin/warehouses
+   */
+  listWarehouses = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const warehouses = await this.warehouseService.getWarehouses();
+      res.json(successResponse(warehouses));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a warehouse
+   * POST /api/admin/warehouses
+   */
+  createWarehouse = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const warehouse = await this.warehouseService.createWarehouse(req.body);
+      res.status(201).json(successResponse(warehouse, 'Warehouse created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a warehouse
+   * PUT /api/admin/warehouses/:id
+   */
+  updateWarehouse = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const warehouse = await this.warehouseService.updateWarehouse(this.parseId(req.params.id, 'warehouse'), req.body);
+      res.json(successResponse(warehouse, 'Warehouse updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Stock of a product and its options at every location
+   * GET /api/admin/warehouses/stock?productId=
+   */
+  getStockLevels = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const levels = await this.warehouseService.getStockLevels(Number(req.query.productId));
+      res.json(successResponse(levels));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Set on-hand quantity and/or low-stock threshold at one location
+   * PUT /api/admin/warehouses/stock-levels
+   */
+  updateStockLevel = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { warehouseId, productId, variationOptionId, quantity, low_stock_threshold, reason, note } = req.body;
+
+      await this.warehouseService.setStockLevel(
+        warehouseId,
+        productId,
+        variationOptionId || null,
+        { quantity, lowStockThreshold: low_stock_threshold },
+        {
+          reason: reason || 'manual_adjustment',
+          note: note || null,
+          actorType: 'admin',
+          actorId: req.session.userId,
+          sourceType: 'warehouse_stock_edit',
+          sourceId: warehouseId
+        }
+      );
+
+      const levels = await this.warehouseService.getStockLevels(productId);
+      res.json(successResponse(levels, 'Stock level updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * List stock transfers
+   * GET /api/admin/warehouses/transfers
+   */
+  listTransfers = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const transfers = await this.stockTransferService.getTransfers(req.query.status as any);
+      res.json(successResponse(transfers));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get a stock transfer with its lines
+   * GET /api/admin/warehouses/transfers/:id
+   */
+  getTransfer = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const transfer = await this.stockTransferService.getTransferById(this.parseId(req.params.id, 'transfer'));
+      res.json(successResponse(transfer));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a draft stock transfer
+   * POST /api/admin/warehouses/transfers
+   */
+  createTransfer = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const transfer = await this.stockTransferService.createTransfer(req.body, req.session.userId);
+      res.status(201).json(successResponse(transfer, 'Stock transfer created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Ship a draft transfer
+   * POST /api/admin/warehouses/transfers/:id/ship
+   */
+  shipTransfer = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const transfer = await this.stockTransferService.shipTransfer(this.parseId(req.params.id, 'transfer'), req.session.userId);
+      res.json(successResponse(transfer, 'Stock transfer shipped'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Receive an in-transit transfer
+   * POST /api/admin/warehouses/transfers/:id/receive
+   */
+  receiveTransfer = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const transfer = await this.stockTransferService.receiveTransfer(this.parseId(req.params.id, 'transfer'), req.session.userId);
+      res.json(successResponse(transfer, 'Stock transfer received'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Cancel a draft or in-transit transfer
+   * POST /api/admin/warehouses/transfers/:id/cancel
+   */
+  cancelTransfer = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const transfer = await this.stockTransferService.cancelTransfer(this.parseId(req.params.id, 'transfer'), req.session.userId);
+      res.json(successResponse(transfer, 'Stock transfer cancelled'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private parseId(value: string, resource: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new ValidationError(`Invalid ${resource} ID`);
+    }
+    return id;
+  }
+}
@@ -7,6 +7,13 @@ import { EmailService } from '../services/EmailService';
 import { getSSLConfig } from '../config/database';
 import { validateUnsubscribeToken } from '../utils/unsubscribeToken';
 import { MarketingCampaignService } from '../services/MarketingCampaignService';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { AccountSecurityService } from '../services/AccountSecurityService';
+import { GuestOrderService } from '../services/GuestOrderService';
+import { SocialLoginService } from '../services/SocialLoginService';
+import { TwoFactorPolicy } from '../types/twoFactor';
+import { AppError, AuthenticationError, ValidationError } from '../utils/errors';
+import { STEP_UP_TTL_MS } from '../middleware/auth';
 
 // Use crypto for generating UUIDs instead of uuid package
 import { randomUUID } from 'crypto';
@@ -33,6 +40,16 @@ const pool = new Pool({
 const rbacModel = new RBACModel(pool);
 const emailService = new EmailService(pool);
 emailService.initialize();
+const twoFactorService = new TwoFactorService(pool);
+const accountSecurityService = new AccountSecurityService(pool, emailService);
+const guestOrderService = new GuestOrderService(pool, emailService);
+const socialLoginService = new SocialLoginService(pool);
+
+// A password-verified login waits this long for its authenticator code
+const PENDING_TWO_FACTOR_TTL_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+// The provider callback must arrive this soon after the redirect
+const OAUTH_FLOW_TTL_MS = 10 * 60 * 1000;
 
 export class AuthController {
   // Helper method to load user authorities and roles
@@ -183,6 +200,29 @@ export class AuthController {
         console.error('Failed to trigger account created email event:', emailError);
       }
 
+      // An order lookup link opened in this session already proved the address
+      const emailVerified = req.session.verifiedGuestEmail?.toLowerCase() === String(email).toLowerCase();
+      let verificationEmailSent = false;
+      let claimedOrders: string[] = [];
+
+      if (emailVerified) {
+        try {
+          await accountSecurityService.markEmailVerified(newUser.id!);
+          claimedOrders = await guestOrderService.claimGuestOrders(newUser.id!, newUser.email);
+        } catch (claimError) {
+          console.error('Failed to attach guest orders:', claimError);
+        }
+      } else {
+        try {
+          verificationEmailSent = await accountSecurityService.sendVerificationEmail(
+            newUser.id!,
+            (req.region || 'us') as 'us' | 'eu'
+          );
+        } catch (emailError) {
+          console.error('Failed to send verification email:', emailError);
+        }
+      }
+
       // Set session
       req.session.userId = newUser.id;
       req.session.userEmail = newUser.email;
@@ -197,10 +237,11 @@ export class AuthController {
             firstName: newUser.first_name,
             lastName: newUser.last_name,
             role: 'customer',
-            emailVerified: false,
+            emailVerified,
             createdAt: newUser.created_at
           },
-          verificationEmailSent: false
+          verificationEmailSent,
+          claimedOrders
         }
       });
     } catch (error) {
@@ -245,48 +286,26 @@ export class AuthController {
         return;
       }
 
-      // Load user authorities and roles
-      const { roles, authorities } = await AuthController.loadUserAuthorities(user.id!);
+      // Staff with an authenticator finish signing in at /login/2fa
+      const policy = await twoFactorService.getPolicy(user.id!);
+      if (policy.enabled) {
+        req.session.pendingTwoFactorUserId = user.id;
+        req.session.pendingTwoFactorAt = Date.now();
+        req.session.pendingTwoFactorAttempts = 0;
+        delete req.session.pendingGuestOrderClaim;
+        await AuthController.saveSession(req);
 
-      // Set session
-      req.session.userId = user.id;
-      req.session.userEmail = user.email;
-      req.session.authorities = authorities;
-
-      // Explicitly save session to ensure it's persisted before sending response
-      // This is critical for cross-origin cookies in Chrome
-      await new Promise<void>((resolve, reject) => {
-        req.session.save((err) => {
-          if (err) {
-            console.error('❌ Failed to save session after login:', err);
-            reject(err);
-          } else {
-            // Session saved successfully - no need to log
-            resolve();
+        res.json({
+          success: true,
+          message: 'Two-factor authentication code required',
+          data: {
+            twoFactorRequired: true
           }
         });
-      });
+        return;
+      }
 
-      res.json({
-        success: true,
-        message: 'Login successful',
-        data: {
-          user: {
-            id: user.id,
-            email: user.email,
-            firstName: user.first_name,
-            lastName: user.last_name,
-            role: 'customer', // deprecated - use roles instead
-            roles,
-            authorities,
-            emailVerified: false,
-            lastLogin: new Date().toISOString()
-          },
-          session: {
-            expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
-          }
-        }
-      });
+      await AuthController.completeLogin(req, res, user, policy);
     } catch (error) {
       console.error('Login error:', error);
       res.status(500).json({
@@ -296,6 +315,77 @@ export class AuthController {
     }
   }
 
+  // Start the authenticated session once every required factor has been checked
+  private static async completeLogin(req: Request, res: Response, user: User, policy: TwoFactorPolicy): Promise<void> {
+    const { roles, authorities } = await AuthController.establishSession(req, user, policy);
+
+    res.json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          firstName: user.first_name,
+          lastName: user.last_name,
+          role: 'customer', // deprecated - use roles instead
+          roles,
+          authorities,
+          emailVerified: !!user.email_verified,
+          pendingEmail: user.pending_email || null,
+          twoFactorEnabled: policy.enabled,
+          twoFactorEnrollmentRequired: policy.required && !policy.enabled,
+          lastLogin: new Date().toISOString()
+        },
+        session: {
+          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+        }
+      }
+    });
+  }
+
+  // Session setup shared by password, two-factor and social sign-in
+  private static async establishSession(
+    req: Request,
+    user: User,
+    policy: TwoFactorPolicy
+  ): Promise<{ roles: Array<{ id: number; name: string }>; authorities: string[] }> {
+    // Load user authorities and roles
+    const { roles, authorities } = await AuthController.loadUserAuthorities(user.id!);
+
+    // Set session
+    req.session.userId = user.id;
+    req.session.userEmail = user.email;
+    req.session.authorities = authorities;
+    req.session.stepUpAuthorities = policy.stepUpAuthorities;
+    // Signing in counts as re-authentication for the step-up window
+    req.session.stepUpAt = Date.now();
+    req.session.twoFactorEnrollmentRequired = policy.required && !policy.enabled;
+    delete req.session.pendingTwoFactorUserId;
+    delete req.session.pendingTwoFactorAt;
+    delete req.session.pendingTwoFactorAttempts;
+    delete req.session.pendingGuestOrderClaim;
+
+    // Explicitly save session to ensure it's persisted before sending response
+    // This is critical for cross-origin cookies in Chrome
+    await AuthController.saveSession(req);
+
+    return { roles, authorities };
+  }
+
+  private static saveSession(req: Request): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      req.session.save((err) => {
+        if (err) {
+          console.error('❌ Failed to save session:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
   // Logout user
   static async logout(req: Request, res: Response): Promise<void> {
     try {
@@ -644,6 +734,7 @@ export class AuthController {
 
       // Load user authorities and roles
       const { roles, authorities } = await AuthController.loadUserAuthorities(userId);
+      const policy = await twoFactorService.getPolicy(userId);
 
       // Get newsletter subscription
       const newsletterSubscription = await userModel.getNewsletterSubscription(user.email);
@@ -659,7 +750,10 @@ export class AuthController {
             role: 'customer', // deprecated - use roles instead
             roles,
             authorities,
-            emailVerified: false,
+            emailVerified: !!user.email_verified,
+            pendingEmail: user.pending_email || null,
+            twoFactorEnabled: policy.enabled,
+            twoFactorEnrollmentRequired: policy.required && !policy.enabled,
             createdAt: user.created_at
           },
           addresses: [],
@@ -677,4 +771,599 @@ export class AuthController {
       });
     }
   }
+
+  // Finish a login that is waiting for the authenticator (or recovery) code
+  static async verifyLoginTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const { code, recoveryCode } = req.body;
+      const pendingUserId = req.session.pendingTwoFactorUserId;
+      const pendingAt = req.session.pendingTwoFactorAt || 0;
+
+      if (!pendingUserId || Date.now() - pendingAt > PENDING_TWO_FACTOR_TTL_MS) {
+        delete req.session.pendingTwoFactorUserId;
+        delete req.session.pendingGuestOrderClaim;
+        res.status(401).json({
+          success: false,
+          error: 'Sign-in expired, please log in again'
+        });
+        return;
+      }
+
+      if (!code && !recoveryCode) {
+        res.status(400).json({
+          success: false,
+          error: 'Authentication code or recovery code is required'
+        });
+        return;
+      }
+
+      const verified = await AuthController.verifySecondFactor(pendingUserId, code, recoveryCode);
+      if (!verified) {
+        const attempts = (req.session.pendingTwoFactorAttempts || 0) + 1;
+        if (attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          // Too many guesses: the password has to be entered again
+          delete req.session.pendingTwoFactorUserId;
+          delete req.session.pendingTwoFactorAt;
+          delete req.session.pendingTwoFactorAttempts;
+          delete req.session.pendingGuestOrderClaim;
+        } else {
+          req.session.pendingTwoFactorAttempts = attempts;
+        }
+        await AuthController.saveSession(req);
+
+        res.status(401).json({
+          success: false,
+          error: attempts >= MAX_TWO_FACTOR_ATTEMPTS
+            ? 'Too many invalid codes, please log in again'
+            : 'Invalid authentication code'
+        });
+        return;
+      }
+
+      const user = await userModel.getUserById(pendingUserId);
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid credentials'
+        });
+        return;
+      }
+
+      const policy = await twoFactorService.getPolicy(pendingUserId);
+      const claimGuestOrders = req.session.pendingGuestOrderClaim === true;
+      delete req.session.pendingGuestOrderClaim;
+      if (claimGuestOrders) {
+        await AuthController.claimProviderGuestOrders(user);
+      }
+      await AuthController.completeLogin(req, res, user, policy);
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Re-authenticate for step-up authorities: authenticator code, or password without 2FA
+  static async stepUp(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const { code, recoveryCode, password } = req.body;
+      const policy = await twoFactorService.getPolicy(userId);
+
+      let verified = false;
+      if (policy.enabled) {
+        verified = await AuthController.verifySecondFactor(userId, code, recoveryCode);
+      } else if (password) {
+        const user = await userModel.getUserById(userId);
+        verified = !!user && await bcrypt.compare(password, user.password);
+      }
+
+      if (!verified) {
+        res.status(401).json({
+          success: false,
+          error: policy.enabled ? 'Invalid authentication code' : 'Invalid password'
+        });
+        return;
+      }
+
+      req.session.stepUpAt = Date.now();
+      req.session.stepUpAuthorities = policy.stepUpAuthorities;
+      await AuthController.saveSession(req);
+
+      res.json({
+        success: true,
+        message: 'Identity confirmed',
+        data: {
+          expiresAt: new Date(req.session.stepUpAt + STEP_UP_TTL_MS).toISOString()
+        }
+      });
+    } catch (error) {
+      console.error('Step-up error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Two-factor status for the account security page
+  static async getTwoFactorStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const status = await twoFactorService.getStatus(req.session.userId!);
+
+      res.json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Get two-factor status error:');
+    }
+  }
+
+  // Begin authenticator enrolment: returns the secret and its QR code
+  static async setupTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await userModel.getUserById(req.session.userId!);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
+      const enrolment = await twoFactorService.startEnrolment(user.id!, user.email);
+
+      res.json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then confirm a code',
+        data: enrolment
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Two-factor setup error:');
+    }
+  }
+
+  // Confirm enrolment with a first code; responds with the recovery codes
+  static async enableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const { code } = req.body;
+      if (!code) {
+        res.status(400).json({
+          success: false,
+          error: 'Authentication code is required'
+        });
+        return;
+      }
+
+      const recoveryCodes = await twoFactorService.confirmEnrolment(req.session.userId!, code);
+
+      req.session.twoFactorEnrollmentRequired = false;
+      req.session.stepUpAt = Date.now();
+      await AuthController.saveSession(req);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: {
+          recoveryCodes
+        }
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Enable two-factor error:');
+    }
+  }
+
+  // Replace recovery codes; needs a current authenticator code
+  static async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const { code } = req.body;
+
+      if (!code || !(await twoFactorService.verifyCode(userId, code))) {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid authentication code'
+        });
+        return;
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(userId);
+
+      res.json({
+        success: true,
+        message: 'Recovery codes regenerated',
+        data: {
+          recoveryCodes
+        }
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Regenerate recovery codes error:');
+    }
+  }
+
+  // Turn off 2FA; needs the password and a second factor, and is refused when a role requires 2FA
+  static async disableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const { password, code, recoveryCode } = req.body;
+
+      const policy = await twoFactorService.getPolicy(userId);
+      if (policy.required) {
+        res.status(403).json({
+          success: false,
+          error: 'Your role requires two-factor authentication'
+        });
+        return;
+      }
+
+      const user = await userModel.getUserById(userId);
+      const validPassword = !!user && !!password && await bcrypt.compare(password, user.password);
+      if (!validPassword || !(await AuthController.verifySecondFactor(userId, code, recoveryCode))) {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid password or authentication code'
+        });
+        return;
+      }
+
+      await twoFactorService.disable(userId);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Disable two-factor error:');
+    }
+  }
+
+  // Confirm an email address from the link in a verification email
+  static async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+      const region = (req.region || 'us') as 'us' | 'eu';
+      const result = await accountSecurityService.verifyEmail(token, region);
+
+      if (req.session.userId === result.userId) {
+        req.session.userEmail = result.email;
+        await AuthController.saveSession(req);
+      }
+
+      // Guest orders placed with the now-verified address join the account
+      let claimedOrders: string[] = [];
+      try {
+        claimedOrders = await guestOrderService.claimGuestOrders(result.userId, result.email);
+      } catch (claimError) {
+        console.error('Failed to attach guest orders:', claimError);
+      }
+
+      res.json({
+        success: true,
+        message: result.emailChanged ? 'Email address updated' : 'Email address verified',
+        data: {
+          ...result,
+          claimedOrders
+        }
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Verify email error:');
+    }
+  }
+
+  // Send the verification link again (rate limited per account and by authLimiter)
+  static async resendVerificationEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const region = (req.region || 'us') as 'us' | 'eu';
+      await accountSecurityService.resendVerification(req.session.userId!, region);
+
+      res.json({
+        success: true,
+        message: 'Verification email sent'
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Resend verification error:');
+    }
+  }
+
+  // Start an email change; the new address takes effect once verified
+  static async requestEmailChange(req: Request, res: Response): Promise<void> {
+    try {
+      const { email, password } = req.body;
+      const region = (req.region || 'us') as 'us' | 'eu';
+      await accountSecurityService.requestEmailChange(req.session.userId!, email, password, region);
+
+      res.json({
+        success: true,
+        message: 'Check your new email address for a verification link'
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Change email error:');
+    }
+  }
+
+  // Drop a pending email change
+  static async cancelEmailChange(req: Request, res: Response): Promise<void> {
+    try {
+      await accountSecurityService.cancelEmailChange(req.session.userId!);
+
+      res.json({
+        success: true,
+        message: 'Email change cancelled'
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Cancel email change error:');
+    }
+  }
+
+  // Change password while signed in, optionally signing out every other session
+  static async changePassword(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const { currentPassword, newPassword, logoutOtherSessions } = req.body;
+      const region = (req.region || 'us') as 'us' | 'eu';
+
+      await accountSecurityService.changePassword(userId, currentPassword, newPassword, region);
+
+      let sessionsEnded = 0;
+      if (logoutOtherSessions) {
+        sessionsEnded = await accountSecurityService.logoutOtherSessions(userId, req.sessionID);
+      }
+
+      res.json({
+        success: true,
+        message: 'Password changed',
+        data: {
+          sessionsEnded
+        }
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Change password error:');
+    }
+  }
+
+  // Count of the user's sessions on other browsers and devices
+  static async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const otherSessions = await accountSecurityService.countOtherSessions(req.session.userId!, req.sessionID);
+
+      res.json({
+        success: true,
+        data: {
+          otherSessions
+        }
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Get sessions error:');
+    }
+  }
+
+  // Sign out everywhere except this browser
+  static async logoutOtherSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const sessionsEnded = await accountSecurityService.logoutOtherSessions(req.session.userId!, req.sessionID);
+
+      res.json({
+        success: true,
+        message: sessionsEnded > 0 ? 'Signed out of other sessions' : 'No other sessions to sign out',
+        data: {
+          sessionsEnded
+        }
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Logout other sessions error:');
+    }
+  }
+
+  // Sign-in providers enabled for the current region
+  static async getOAuthProviders(req: Request, res: Response): Promise<void> {
+    try {
+      const region = (req.region || 'us') as 'us' | 'eu';
+      const providers = await socialLoginService.getEnabledProviders(region);
+
+      res.json({
+        success: true,
+        data: { providers }
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Get sign-in providers error:');
+    }
+  }
+
+  // Send the browser to the provider; ?mode=link connects it to the signed-in account
+  static async startOAuth(req: Request, res: Response): Promise<void> {
+    const mode = req.query.mode === 'link' ? 'link' : 'login';
+
+    try {
+      const { provider } = req.params;
+      if (!socialLoginService.isProvider(provider)) {
+        throw new ValidationError('Unknown sign-in provider');
+      }
+      if (mode === 'link' && !req.session.userId) {
+        throw new AuthenticationError('Sign in to connect another account');
+      }
+
+      const region = (req.region || 'us') as 'us' | 'eu';
+      const returnTo = AuthController.safeReturnPath(req.query.returnTo);
+      const { url, flow } = await socialLoginService.createAuthorizationRequest(provider, region, mode, returnTo);
+
+      req.session.oauthFlow = flow;
+      await AuthController.saveSession(req);
+
+      res.redirect(url);
+    } catch (error) {
+      AuthController.redirectOAuthError(res, mode, error);
+    }
+  }
+
+  // Provider redirect target: finish sign-in (or linking) and return to the storefront
+  static async oauthCallback(req: Request, res: Response): Promise<void> {
+    const flow = req.session.oauthFlow;
+    const mode = flow?.mode || 'login';
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+    try {
+      delete req.session.oauthFlow;
+
+      if (req.query.error) {
+        throw new AuthenticationError('Sign-in was cancelled');
+      }
+      if (
+        !flow ||
+        flow.provider !== req.params.provider ||
+        flow.state !== req.query.state ||
+        Date.now() - flow.createdAt > OAUTH_FLOW_TTL_MS ||
+        typeof req.query.code !== 'string'
+      ) {
+        throw new AuthenticationError('Sign-in session expired. Please try again.');
+      }
+
+      const profile = await socialLoginService.completeAuthorization(flow, req.query.code);
+
+      if (flow.mode === 'link') {
+        if (!req.session.userId) {
+          throw new AuthenticationError('Sign in to connect another account');
+        }
+        await socialLoginService.resolveUser(flow.provider, profile, req.session.userId);
+        await AuthController.saveSession(req);
+        res.redirect(`${frontendUrl}/profile?tab=settings&linked=${flow.provider}`);
+        return;
+      }
+
+      const { user } = await socialLoginService.resolveUser(flow.provider, profile);
+
+      // Guest orders join the account only for a verified account email: verified locally,
+      // or the provider verified that same address (an already-linked identity may not match)
+      const claimGuestOrders = !!user.email_verified || (
+        profile.emailVerified &&
+        !!profile.email &&
+        profile.email.toLowerCase() === user.email.toLowerCase()
+      );
+
+      // A provider replaces the password, not the authenticator code
+      const policy = await twoFactorService.getPolicy(user.id!);
+      if (policy.enabled) {
+        req.session.pendingTwoFactorUserId = user.id;
+        req.session.pendingTwoFactorAt = Date.now();
+        req.session.pendingTwoFactorAttempts = 0;
+        req.session.pendingGuestOrderClaim = claimGuestOrders;
+        await AuthController.saveSession(req);
+        res.redirect(`${frontendUrl}/login?twoFactor=1`);
+        return;
+      }
+
+      await AuthController.establishSession(req, user, policy);
+      if (claimGuestOrders) {
+        await AuthController.claimProviderGuestOrders(user);
+      }
+      res.redirect(`${frontendUrl}${flow.returnTo}`);
+    } catch (error) {
+      try {
+        await AuthController.saveSession(req);
+      } catch {
+        // The error redirect matters more than clearing the flow
+      }
+      AuthController.redirectOAuthError(res, mode, error);
+    }
+  }
+
+  // Provider accounts connected to the current user
+  static async getLinkedAccounts(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.session.userId!;
+      const [identities, user, providers] = await Promise.all([
+        socialLoginService.listIdentities(userId),
+        userModel.getUserById(userId),
+        socialLoginService.getEnabledProviders((req.region || 'us') as 'us' | 'eu')
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          identities,
+          providers,
+          passwordSet: user?.password_set !== false
+        }
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Get linked accounts error:');
+    }
+  }
+
+  static async unlinkAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const { provider } = req.params;
+      if (!socialLoginService.isProvider(provider)) {
+        throw new ValidationError('Unknown sign-in provider');
+      }
+
+      await socialLoginService.unlinkIdentity(req.session.userId!, provider);
+
+      res.json({
+        success: true,
+        message: 'Account disconnected'
+      });
+    } catch (error) {
+      AuthController.sendError(res, error, 'Unlink account error:');
+    }
+  }
+
+  // After a completed social sign-in whose provider proved the account email
+  private static async claimProviderGuestOrders(user: User): Promise<void> {
+    try {
+      if (!user.email_verified) {
+        await accountSecurityService.markEmailVerified(user.id!);
+      }
+      await guestOrderService.claimGuestOrders(user.id!, user.email);
+    } catch (claimError) {
+      console.error('Failed to attach guest orders:', claimError);
+    }
+  }
+
+  // Only same-site paths, so the callback cannot become an open redirect
+  private static safeReturnPath(value: unknown): string {
+    if (typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') && !value.includes('\\')) {
+      return value;
+    }
+    return '/';
+  }
+
+  private static redirectOAuthError(res: Response, mode: 'login' | 'link', error: unknown): void {
+    if (!(error instanceof AppError)) {
+      console.error('Social sign-in error:', error);
+    }
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    const message = error instanceof AppError ? error.message : 'Sign-in failed. Please try again.';
+    const target = mode === 'link' ? '/profile?tab=settings&' : '/login?';
+    res.redirect(`${frontendUrl}${target}oauthError=${encodeURIComponent(message)}`);
+  }
+
+  private static async verifySecondFactor(userId: number, code?: string, recoveryCode?: string): Promise<boolean> {
+    if (code) {
+      return twoFactorService.verifyCode(userId, code);
+    }
+    if (recoveryCode) {
+      return twoFactorService.useRecoveryCode(userId, recoveryCode);
+    }
+    return false;
+  }
+
+  private static sendError(res: Response, error: unknown, logMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
 }
@@ -213,6 +213,24 @@ export class CartController {
     }
   };
 
+  /**
+   * Estimate tax for a shipping destination
+   * POST /api/cart/tax-estimate
+   */
+  estimateTax = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const sessionId = req.sessionID;
+      const userId = req.session?.userId;
+      const { shippingAddress, shippingAmount } = req.body;
+
+      const totals = await this.cartService.estimateTotals(sessionId, userId, shippingAddress, shippingAmount);
+
+      res.json(successResponse({ totals }));
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * Validate cart
    * GET /api/cart/validate
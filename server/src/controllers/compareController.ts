@@ -0,0 +1,89 @@
+/**
+ * Compare Controller
+ * Handles the compare tray and product comparison HTTP endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { CompareService } from '../services/CompareService';
+import { successResponse } from '../utils/response';
+import { ValidationError } from '../utils/errors';
+
+export class CompareController {
+  private compareService: CompareService;
+
+  constructor(pool: Pool) {
+    this.compareService = new CompareService(pool);
+  }
+
+  /**
+   * Get the compare tray
+   * GET /api/compare
+   */
+  getList = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const list = await this.compareService.getList(req.sessionID, req.session?.userId);
+      res.json(successResponse(list));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Add a product to the compare tray
+   * POST /api/compare
+   */
+  addProduct = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const list = await this.compareService.addProduct(req.sessionID, req.session?.userId, req.body.productId);
+      res.json(successResponse(list, 'Added to compare'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Remove a product from the compare tray
+   * DELETE /api/compare/:productId
+   */
+  removeProduct = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = parseInt(req.params.productId, 10);
+      if (isNaN(productId) || productId <= 0) {
+        throw new ValidationError('Invalid product ID');
+      }
+
+      const list = await this.compareService.removeProduct(req.sessionID, req.session?.userId, productId);
+      res.json(successResponse(list, 'Removed from compare'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Empty the compare tray
+   * DELETE /api/compare
+   */
+  clear = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await this.compareService.clear(req.sessionID, req.session?.userId);
+      res.json(successResponse(null, 'Compare list cleared'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Compare products side by side
+   * GET /api/compare/products?product_ids=12,34
+   */
+  compareProducts = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productIds = (req.query.product_ids as string).split(',').map(id => parseInt(id));
+      const comparison = await this.compareService.compareProducts(productIds);
+      res.json(successResponse(comparison));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
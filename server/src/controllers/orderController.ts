@@ -8,20 +8,30 @@ import { Pool } from 'pg';
 import { OrderService } from '../services/OrderService';
 import { EmailService } from '../services/EmailService';
 import { ShippingQuoteService } from '../services/ShippingQuoteService';
+import { TrackingService } from '../services/TrackingService';
+import { GuestOrderService } from '../services/GuestOrderService';
 import { CreateOrderData } from '../types/cart';
 import { successResponse, paginatedResponse } from '../utils/response';
 import { formatCurrency } from '../utils/currency';
+import { NotFoundError } from '../utils/errors';
+
+// Guest order numbers remembered per browser session
+const MAX_GUEST_ORDERS_IN_SESSION = 20;
 
 export class OrderController {
   private orderService: OrderService;
   private emailService: EmailService;
   private shippingQuoteService: ShippingQuoteService;
+  private trackingService: TrackingService;
+  private guestOrderService: GuestOrderService;
 
   constructor(pool: Pool) {
     this.orderService = new OrderService(pool);
     this.emailService = new EmailService(pool);
     this.shippingQuoteService = new ShippingQuoteService(pool);
     this.emailService.initialize();
+    this.trackingService = new TrackingService(pool, this.emailService);
+    this.guestOrderService = new GuestOrderService(pool, this.emailService);
   }
 
   /**
@@ -38,6 +48,11 @@ export class OrderController {
       // We don't pass region here - let the service get the cart and use its region
       const order = await this.orderService.createOrder(sessionId, userId, orderData);
 
+      // Guests can reopen their order from this browser without a lookup link
+      if (!userId) {
+        this.rememberGuestOrder(req, order.order_number);
+      }
+
       // Get customer name from billing address (handle JSONB parsing)
       let customerName = order.customer_email;
       try {
@@ -138,7 +153,8 @@ export class OrderController {
               subtotal: formatCurrency(subtotal, orderRegion),
               tax_amount: formatCurrency(taxAmount, orderRegion),
               shipping_amount: formatCurrency(shippingAmount, orderRegion),
-              discount_amount: formatCurrency(discountAmount, orderRegion)
+              discount_amount: formatCurrency(discountAmount, orderRegion),
+              tax_label: order.prices_include_tax ? 'VAT (included)' : 'Tax'
             },
             {
               customerEmail: order.customer_email,
@@ -218,7 +234,7 @@ export class OrderController {
 
       const order = await this.orderService.getOrderByNumber(orderNumber);
 
-      if (!order) {
+      if (!order || !this.canViewOrder(req, order)) {
         return res.status(404).json({
           success: false,
           error: {
@@ -234,6 +250,24 @@ export class OrderController {
     }
   };
 
+  /**
+   * Get shipment tracking timeline
+   * GET /api/orders/:orderNumber/tracking
+   */
+  getOrderTracking = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const order = await this.orderService.getOrderByNumber(req.params.orderNumber);
+      if (!order || !this.canViewOrder(req, order)) {
+        throw new NotFoundError('Order', { orderNumber: req.params.orderNumber });
+      }
+
+      const timeline = await this.trackingService.getOrderTimeline(req.params.orderNumber);
+      res.json(successResponse(timeline));
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * Cancel order
    * POST /api/orders/:orderNumber/cancel
@@ -243,7 +277,13 @@ export class OrderController {
       const orderNumber = req.params.orderNumber;
       const userId = req.session?.userId;
 
-      const order = await this.orderService.cancelOrder(orderNumber, userId);
+      const existing = await this.orderService.getOrderByNumber(orderNumber);
+      if (!existing || !this.canViewOrder(req, existing)) {
+        throw new NotFoundError('Order', { orderNumber });
+      }
+
+      // Guest orders are matched by number once the session is known to have access
+      const order = await this.orderService.cancelOrder(orderNumber, existing.user_id ? userId : undefined);
 
       res.json(successResponse({
         order,
@@ -284,7 +324,7 @@ export class OrderController {
       const { orderNumber } = req.params;
       const order = await this.orderService.getOrderByNumber(orderNumber);
       
-      if (!order) {
+      if (!order || !this.canViewOrder(req, order)) {
         return res.status(404).json({
           success: false,
           error: {
@@ -301,5 +341,61 @@ export class OrderController {
       next(error);
     }
   };
+
+  /**
+   * Email a magic link for a guest order
+   * POST /api/orders/lookup
+   */
+  requestOrderLookup = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { orderNumber, email } = req.body;
+      const region = (req.region || 'us') as 'us' | 'eu';
+
+      await this.guestOrderService.requestLookupLink(orderNumber, email, region);
+
+      // Same response whether or not the order exists
+      res.json(successResponse({}, 'If an order matches those details, we have emailed you a link to view it'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Open an order from a magic link
+   * POST /api/orders/lookup/verify
+   */
+  verifyOrderLookup = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { orderNumber, email } = await this.guestOrderService.redeemLookupToken(req.body.token);
+
+      this.rememberGuestOrder(req, orderNumber);
+      // Following the link proves the address, so registering with it can skip verification
+      req.session.verifiedGuestEmail = email;
+
+      res.json(successResponse({ orderNumber }));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Owners, staff with orders:view, and guest sessions that placed or were sent the order
+   */
+  private canViewOrder(req: Request, order: { order_number: string; user_id?: number | null }): boolean {
+    const userId = req.session?.userId;
+    if (userId && order.user_id === userId) {
+      return true;
+    }
+    if (req.session?.authorities?.includes('orders:view')) {
+      return true;
+    }
+    return (req.session?.guestOrderNumbers || []).includes(order.order_number);
+  }
+
+  private rememberGuestOrder(req: Request, orderNumber: string): void {
+    const orderNumbers = (req.session.guestOrderNumbers || []).filter(number => number !== orderNumber);
+    orderNumbers.push(orderNumber);
+    req.session.guestOrderNumbers = orderNumbers.slice(-MAX_GUEST_ORDERS_IN_SESSION);
+  }
 }
 
@@ -36,6 +36,7 @@ export class Phase4Controller {
         reasonCode,
         initiatedBy,
         notifyCustomer: notifyCustomer || false,
+        idempotencyKey: req.get('Idempotency-Key') || req.body.idempotencyKey,
         items: items || []
       });
 
@@ -2,17 +2,33 @@ import { Request, Response, NextFunction } from 'express';
 import { Pool } from 'pg';
 import { ProductService } from '../services/ProductService';
 import { PriceCalculatorService } from '../services/PriceCalculatorService';
+import { PurchaseOrderService } from '../services/PurchaseOrderService';
+import { ProductSearchService } from '../services/ProductSearchService';
+import { SearchAnalyticsService } from '../services/SearchAnalyticsService';
+import { RecommendationService } from '../services/RecommendationService';
+import { parseAttributeFilters } from '../services/ProductAttributeService';
 import { successResponse, paginatedResponse } from '../utils/response';
 import { calculatePriceSchema } from '../validators/product';
 import { ProductConfiguration } from '../types/product';
+import { SearchMatchType } from '../types/search';
+import { getCurrentUserId } from '../middleware/auth';
+import { ValidationError } from '../utils/errors';
 
 export class ProductController {
   private productService: ProductService;
   private priceCalculator: PriceCalculatorService;
+  private purchaseOrderService: PurchaseOrderService;
+  private productSearchService: ProductSearchService;
+  private searchAnalyticsService: SearchAnalyticsService;
+  private recommendationService: RecommendationService;
 
   constructor(private pool: Pool) {
     this.productService = new ProductService(pool);
     this.priceCalculator = new PriceCalculatorService(pool);
+    this.purchaseOrderService = new PurchaseOrderService(pool);
+    this.productSearchService = new ProductSearchService(pool);
+    this.searchAnalyticsService = new SearchAnalyticsService(pool);
+    this.recommendationService = new RecommendationService(pool);
   }
 
   /**
@@ -32,6 +48,7 @@ export class ProductController {
         featured: req.query.featured === 'true' ? true : undefined,
         sortBy: req.query.sortBy as any,
         sortOrder: req.query.sortOrder as any,
+        attributes: parseAttributeFilters(req.query.attr),
         region: req.region // Add region from middleware
       };
 
@@ -127,6 +144,37 @@ export class ProductController {
     }
   };
 
+  /**
+   * Expected restock dates for backordered products, from open purchase orders
+   * GET /api/products/restock-etas
+   */
+  getRestockEtas = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const etas = await this.purchaseOrderService.getRestockEtas(req.region);
+      res.json(successResponse(etas));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Recommendation blocks for a product page or cart, in the request's region
+   * GET /api/products/recommendations?product_ids=1,2
+   */
+  getRecommendations = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productIds = (req.query.product_ids as string).split(',').map(id => parseInt(id));
+
+      const recommendations = await this.recommendationService.getRecommendations(productIds, {
+        region: req.region,
+        limit: Number(req.query.limit)
+      });
+      res.json(successResponse(recommendations));
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * Get products by category
    * GET /api/products/categories/:slug
@@ -152,7 +200,8 @@ export class ProductController {
         category: categorySlug,
         minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
         maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
-        inStock: inStock === 'true'
+        inStock: inStock === 'true',
+        attributes: parseAttributeFilters(req.query.attr)
       });
 
       res.json(paginatedResponse(result.products, result.pagination, result.filters));
@@ -244,20 +293,97 @@ export class ProductController {
         page: parseInt(req.query.page as string) || 1,
         limit: parseInt(req.query.limit as string) || 10,
         category: req.query.category as string,
+        priceBand: req.query.priceBand as string,
         minPrice: req.query.minPrice ? parseFloat(req.query.minPrice as string) : undefined,
         maxPrice: req.query.maxPrice ? parseFloat(req.query.maxPrice as string) : undefined,
-        inStock: req.query.inStock === 'true' ? true : undefined,
+        inStock: req.query.inStock === 'true' ? true : req.query.inStock === 'false' ? false : undefined,
         sortBy: req.query.sortBy as any,
-        sortOrder: req.query.sortOrder as any
+        sortOrder: req.query.sortOrder as any,
+        attributes: parseAttributeFilters(req.query.attr),
+        region: req.region
       };
 
       const result = await this.productService.searchProducts(query, options);
-      res.json(paginatedResponse(result.products, result.pagination));
+      const searchId = await this.recordSearch(req, query, result.pagination.total, result.matchType);
+      res.json(paginatedResponse(result.products, result.pagination, {
+        facets: result.facets,
+        matchType: result.matchType,
+        redirectUrl: result.redirectUrl,
+        searchId
+      }));
     } catch (error) {
       next(error);
     }
   };
 
+  /**
+   * Search-as-you-type suggestions
+   * GET /api/products/search/suggestions?q=cockp
+   */
+  getSearchSuggestions = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 6;
+      const { total, ...suggestions } = await this.productSearchService.suggest(req.query.q as string, req.region, limit);
+      const searchId = await this.recordSearch(req, req.query.q as string, total, suggestions.matchType);
+      res.json(successResponse({ ...suggestions, searchId }));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Record that a search result was opened
+   * POST /api/products/search/:searchId/click
+   */
+  recordSearchClick = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const searchId = parseInt(req.params.searchId);
+      if (isNaN(searchId) || searchId <= 0) {
+        throw new ValidationError('Invalid search ID');
+      }
+
+      const recorded = await this.searchAnalyticsService.recordClick(
+        searchId,
+        req.body.product_id,
+        req.body.position ?? null,
+        req.body.session_id
+      );
+      res.json(successResponse({ recorded }));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Log a storefront search when the client sent its analytics session.
+   * Logging never fails the search itself
+   */
+  private async recordSearch(
+    req: Request,
+    query: string,
+    resultsCount: number,
+    matchType: SearchMatchType
+  ): Promise<number | null> {
+    const sessionId = req.query.session_id as string;
+    if (!sessionId || !query) {
+      return null;
+    }
+
+    try {
+      return await this.searchAnalyticsService.recordSearch({
+        query,
+        resultsCount,
+        matchType,
+        sessionId,
+        userId: getCurrentUserId(req),
+        region: req.region
+      });
+    } catch (error) {
+      console.error('Failed to record search:', error);
+      return null;
+    }
+  }
+
   /**
    * Calculate price for configured product
    * POST /api/products/:id/calculate-price
@@ -71,7 +71,8 @@ export class ProductionController {
         orderId,
         amount,
         reason,
-        initiatedBy
+        initiatedBy,
+        idempotencyKey: req.get('Idempotency-Key') || req.body.idempotencyKey
       });
 
       res.json(successResponse({
@@ -0,0 +1,246 @@
+/**
+ * Review Controller
+ * Handles product review endpoints (public submission/voting and admin moderation)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { ReviewService } from '../services/ReviewService';
+import { FileUploadService } from '../services/FileUploadService';
+import { successResponse } from '../utils/response';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+import { ReviewSort, ReviewStatus } from '../types/review';
+
+export class ReviewController {
+  private reviewService: ReviewService;
+  private fileUploadService: FileUploadService;
+
+  constructor(pool: Pool) {
+    this.reviewService = new ReviewService(pool);
+    this.fileUploadService = new FileUploadService();
+  }
+
+  /**
+   * List approved reviews for a product
+   * GET /api/products/:id/reviews
+   */
+  listProductReviews = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = this.parseId(req.params.id, 'product ID');
+
+      const [result, summary] = await Promise.all([
+        this.reviewService.getProductReviews(
+          productId,
+          {
+            page: req.query.page ? Number(req.query.page) : 1,
+            limit: req.query.limit ? Number(req.query.limit) : 10,
+            sort: req.query.sort as ReviewSort | undefined,
+            rating: req.query.rating ? Number(req.query.rating) : undefined,
+            verifiedOnly: String(req.query.verified) === 'true'
+          },
+          req.session?.userId
+        ),
+        this.reviewService.getReviewSummary(productId)
+      ]);
+
+      res.json(successResponse({ ...result, summary }));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get rating summary for a product
+   * GET /api/products/:id/reviews/summary
+   */
+  getReviewSummary = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const productId = this.parseId(req.params.id, 'product ID');
+      const summary = await this.reviewService.getReviewSummary(productId);
+      res.json(successResponse(summary));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Submit a review
+   * POST /api/products/:id/reviews
+   */
+  createReview = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = this.requireUserId(req);
+      const productId = this.parseId(req.params.id, 'product ID');
+
+      const review = await this.reviewService.createReview(productId, userId, req.body);
+
+      res.status(201).json(successResponse(review, 'Review submitted and awaiting moderation'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Upload images for the current user's review
+   * POST /api/products/:id/reviews/:reviewId/images
+   */
+  uploadReviewImages = async (req: Request, res: Response, next: NextFunction) => {
+    const files = (req.files as Express.Multer.File[]) || [];
+
+    try {
+      const userId = this.requireUserId(req);
+      const productId = this.parseId(req.params.id, 'product ID');
+      const reviewId = this.parseId(req.params.reviewId, 'review ID');
+
+      if (files.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'NO_FILE',
+            message: 'No file uploaded'
+          }
+        });
+      }
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const imageUrls = files.map(file => this.fileUploadService.getFileUrl(file.filename, baseUrl));
+
+      const review = await this.reviewService.addReviewImages(productId, reviewId, userId, imageUrls);
+
+      res.status(201).json(successResponse(review, 'Images uploaded successfully'));
+    } catch (error) {
+      // Rejected uploads (not the author, too many images, ...) must not stay on disk
+      await Promise.all(files.map(file => this.fileUploadService.deleteFile(file.filename)));
+      next(error);
+    }
+  };
+
+  /**
+   * Vote a review helpful / not helpful
+   * POST /api/products/:id/reviews/:reviewId/vote
+   */
+  voteReview = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = this.requireUserId(req);
+      const productId = this.parseId(req.params.id, 'product ID');
+      const reviewId = this.parseId(req.params.reviewId, 'review ID');
+
+      const result = await this.reviewService.voteReview(productId, reviewId, userId, req.body.vote_type);
+
+      res.json(successResponse(result, 'Vote recorded'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Remove the current user's vote
+   * DELETE /api/products/:id/reviews/:reviewId/vote
+   */
+  removeVote = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = this.requireUserId(req);
+      const productId = this.parseId(req.params.id, 'product ID');
+      const reviewId = this.parseId(req.params.reviewId, 'review ID');
+
+      const result = await this.reviewService.removeVote(productId, reviewId, userId);
+
+      res.json(successResponse({ ...result, current_user_vote: null }, 'Vote removed'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ============================================================================
+  // ADMIN MODERATION
+  // ============================================================================
+
+  /**
+   * List reviews for moderation
+   * GET /api/admin/reviews
+   */
+  listReviewsForModeration = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const [result, counts] = await Promise.all([
+        this.reviewService.listReviewsForModeration({
+          page: req.query.page ? Number(req.query.page) : 1,
+          limit: req.query.limit ? Number(req.query.limit) : 20,
+          status: req.query.status as ReviewStatus | undefined,
+          productId: req.query.productId ? Number(req.query.productId) : undefined,
+          search: (req.query.search as string) || undefined
+        }),
+        this.reviewService.getModerationCounts()
+      ]);
+
+      res.json(successResponse({ ...result, counts }));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Approve review
+   * POST /api/admin/reviews/:id/approve
+   */
+  approveReview = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const moderatorId = this.requireUserId(req);
+      const reviewId = this.parseId(req.params.id, 'review ID');
+
+      const review = await this.reviewService.approveReview(reviewId, moderatorId, req.body.note);
+
+      res.json(successResponse(review, 'Review approved'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Reject review
+   * POST /api/admin/reviews/:id/reject
+   */
+  rejectReview = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const moderatorId = this.requireUserId(req);
+      const reviewId = this.parseId(req.params.id, 'review ID');
+
+      const review = await this.reviewService.rejectReview(reviewId, moderatorId, req.body.note);
+
+      res.json(successResponse(review, 'Review rejected'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete review
+   * DELETE /api/admin/reviews/:id
+   */
+  deleteReview = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const reviewId = this.parseId(req.params.id, 'review ID');
+
+      await this.reviewService.deleteReview(reviewId);
+
+      res.json(successResponse(null, 'Review deleted'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private requireUserId(req: Request): number {
+    const userId = req.session?.userId;
+    if (!userId) {
+      throw new AuthenticationError('Authentication required');
+    }
+    return userId;
+  }
+
+  private parseId(value: string, label: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new ValidationError(`Invalid ${label}`);
+    }
+    return id;
+  }
+}
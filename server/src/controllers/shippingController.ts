@@ -57,7 +57,8 @@ export class ShippingController {
           postalCode: shippingAddress.postalCode,
           country: shippingAddress.country
         },
-        cartItems: cartItems || []
+        cartItems: cartItems || [],
+        region: (req.region || 'us') as 'us' | 'eu'
       });
 
       // Convert to ShippingMethod format
@@ -0,0 +1,147 @@
+/**
+ * Shipping Zone Controller
+ * Handles admin shipping zone, method and rate test endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { ShippingZoneService } from '../services/ShippingZoneService';
+import { ShippingService } from '../services/ShippingService';
+import { successResponse } from '../utils/response';
+import { ValidationError } from '../utils/errors';
+
+export class ShippingZoneController {
+  private shippingZoneService: ShippingZoneService;
+  private shippingService: ShippingService;
+
+  constructor(pool: Pool) {
+    this.shippingZoneService = new ShippingZoneService(pool);
+    this.shippingService = new ShippingService(pool);
+  }
+
+  /**
+   * List shipping zones with their methods
+   * GET /api/admin/shipping-zones
+   */
+  listZones = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const zones = await this.shippingZoneService.listZones();
+      res.json(successResponse(zones));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a shipping zone
+   * POST /api/admin/shipping-zones
+   */
+  createZone = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const zone = await this.shippingZoneService.createZone(req.body);
+      res.status(201).json(successResponse(zone, 'Shipping zone created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a shipping zone
+   * PUT /api/admin/shipping-zones/:id
+   */
+  updateZone = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const zone = await this.shippingZoneService.updateZone(this.parseId(req.params.id, 'shipping zone'), req.body);
+      res.json(successResponse(zone, 'Shipping zone updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a shipping zone and its methods
+   * DELETE /api/admin/shipping-zones/:id
+   */
+  deleteZone = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await this.shippingZoneService.deleteZone(this.parseId(req.params.id, 'shipping zone'));
+      res.json(successResponse(null, 'Shipping zone deleted'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Add a method to a zone
+   * POST /api/admin/shipping-zones/:id/methods
+   */
+  createMethod = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const method = await this.shippingZoneService.createMethod(this.parseId(req.params.id, 'shipping zone'), req.body);
+      res.status(201).json(successResponse(method, 'Shipping method created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a shipping method
+   * PUT /api/admin/shipping-zones/methods/:methodId
+   */
+  updateMethod = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const method = await this.shippingZoneService.updateMethod(
+        this.parseId(req.params.methodId, 'shipping method'),
+        req.body
+      );
+      res.json(successResponse(method, 'Shipping method updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a shipping method
+   * DELETE /api/admin/shipping-zones/methods/:methodId
+   */
+  deleteMethod = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await this.shippingZoneService.deleteMethod(this.parseId(req.params.methodId, 'shipping method'));
+      res.json(successResponse(null, 'Shipping method deleted'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Show which zone and rates apply to a destination and cart
+   * POST /api/admin/shipping-zones/test-rate
+   */
+  testRate = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { country, state, postalCode, orderTotal, region, packageSize, cartItems } = req.body;
+
+      const result = await this.shippingService.testRate({
+        country,
+        state: state || undefined,
+        postalCode: postalCode || undefined,
+        orderTotal,
+        region,
+        packageSize,
+        cartItems
+      });
+
+      res.json(successResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private parseId(value: string, resource: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new ValidationError(`Invalid ${resource} ID`);
+    }
+    return id;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Tax Controller
+ * Handles admin tax rule management endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Pool } from 'pg';
+import { TaxService } from '../services/TaxService';
+import { successResponse } from '../utils/response';
+import { ValidationError } from '../utils/errors';
+import { TaxRuleFilters } from '../types/tax';
+
+export class TaxController {
+  private taxService: TaxService;
+
+  constructor(pool: Pool) {
+    this.taxService = new TaxService(pool);
+  }
+
+  /**
+   * List tax rules
+   * GET /api/admin/tax-rules
+   */
+  listRules = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rules = await this.taxService.listRules(req.query as unknown as TaxRuleFilters);
+      res.json(successResponse(rules));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Create a tax rule
+   * POST /api/admin/tax-rules
+   */
+  createRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await this.taxService.createRule(req.body);
+      res.status(201).json(successResponse(rule, 'Tax rule created'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Update a tax rule
+   * PUT /api/admin/tax-rules/:id
+   */
+  updateRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await this.taxService.updateRule(this.parseId(req.params.id), req.body);
+      res.json(successResponse(rule, 'Tax rule updated'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a tax rule
+   * DELETE /api/admin/tax-rules/:id
+   */
+  deleteRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await this.taxService.deleteRule(this.parseId(req.params.id));
+      res.json(successResponse(null, 'Tax rule deleted'));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private parseId(value: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id) || id <= 0) {
+      throw new ValidationError('Invalid tax rule ID');
+    }
+    return id;
+  }
+}
@@ -4,6 +4,7 @@ import session from 'express-session';
 import path from 'path';
 import { Server } from 'http';
 import authRouter from './routes/auth';
+import { createAddressRoutes } from './routes/addresses';
 import faqsRouter from './routes/faqs';
 import productDescriptionRouter from './routes/productDescriptions';
 import { createProductRoutes } from './routes/products';
@@ -15,11 +16,18 @@ import { createAdminCouponRoutes } from './routes/admin/coupons';
 import { createAdminMarketingCampaignRoutes } from './routes/admin/marketing-campaigns';
 import { createEmailTemplateRoutes } from './routes/admin/email-templates';
 import { createVariationStockRoutes } from './routes/admin/variationStock';
+import { createWarehouseRoutes } from './routes/admin/warehouses';
+import { createPurchasingRoutes } from './routes/admin/purchasing';
+import { createStockAlertRoutes } from './routes/admin/stock-alerts';
+import { createAuditLogRoutes } from './routes/admin/audit-log';
+import { createAdminSearchRoutes } from './routes/admin/search';
+import { createAdminProductAttributeRoutes } from './routes/admin/product-attributes';
 import { createBundleRoutes } from './routes/admin/bundles';
 import { createCartRoutes } from './routes/cart';
 import { createOrderRoutes } from './routes/orders';
 import { createPaymentRoutes } from './routes/payments';
 import { createWishlistRoutes } from './routes/wishlist';
+import { createCompareRoutes } from './routes/compare';
 import { createWebhookRoutes } from './routes/webhooks';
 import { createCleanupRoutes } from './routes/admin/cleanup';
 import { createCronRoutes } from './routes/admin/cron';
@@ -39,18 +47,28 @@ import { createAdminSettingsRoutes } from './routes/admin/settings';
 import { createSettingsRoutes } from './routes/settings';
 import { createSiteNoticeRoutes } from './routes/site-notices';
 import { createAdminSiteNoticeRoutes } from './routes/admin/site-notices';
+import { createAdminReviewRoutes } from './routes/admin/reviews';
+import { createAdminTaxRuleRoutes } from './routes/admin/tax-rules';
+import { createAdminShippingZoneRoutes } from './routes/admin/shipping-zones';
 import { createAnalyticsRoutes } from './routes/analytics';
 import { createSharedConfigRoutes } from './routes/sharedConfigs';
 import { createSitemapRoutes } from './routes/sitemap';
 import { pool, getSSLConfig } from './config/database';
 import { createErrorHandler } from './middleware/errorHandler';
 import { regionDetection } from './middleware/regionDetection';
+import { loadTwoFactorPolicy } from './middleware/auth';
 import { CleanupService } from './services/CleanupService';
 import { CronService } from './services/CronService';
 import { EmailService } from './services/EmailService';
 import { LoggerService } from './services/LoggerService';
 import { WishlistNotificationService } from './services/WishlistNotificationService';
 import { CartReminderService } from './services/CartReminderService';
+import { EmailQueueService } from './services/EmailQueueService';
+import { TrackingService } from './services/TrackingService';
+import { BackorderService } from './services/BackorderService';
+import { StockAlertService } from './services/StockAlertService';
+import { RecommendationService } from './services/RecommendationService';
+import { TwoFactorService } from './services/TwoFactorService';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '3001', 10);
@@ -151,6 +169,9 @@ app.use(session({
   }
 }));
 
+// Re-read role 2FA requirements so staff sessions pick up policy changes
+app.use(loadTwoFactorPolicy(new TwoFactorService(pool)));
+
 // Serve static files from uploads directory with proper headers for PDFs
 app.use('/uploads', express.static(path.join(__dirname, '../uploads'), {
   setHeaders: (res, filePath) => {
@@ -267,21 +288,150 @@ cronService.addJob(
 
 console.log('✅ Cart reminder cron job registered');
 
+// Email queue worker - delivers rows queued via EmailService.queueEmail / queueEvent
+const emailQueueService = new EmailQueueService(pool, emailService);
+
+cronService.addJob(
+  'email-queue-worker',
+  {
+    schedule: process.env.EMAIL_QUEUE_SCHEDULE || '* * * * *', // Every minute
+    enabled: process.env.EMAIL_QUEUE_ENABLED !== 'false', // Enable by default
+    description: 'Send queued emails, retrying failures with exponential backoff',
+    timezone: process.env.TZ || 'America/New_York',
+  },
+  async () => {
+    try {
+      const result = await emailQueueService.processQueue();
+      if (result.claimed > 0 || result.released > 0) {
+        console.log(`✅ Email queue run: ${result.sent} sent, ${result.retried} retrying, ${result.dead} dead-lettered, ${result.released} stale claims released`);
+      }
+    } catch (error) {
+      console.error('❌ Error in email queue worker job:', error);
+    }
+  }
+);
+
+console.log('✅ Email queue worker cron job registered');
+
+// Carrier tracking sync - polls FedEx for active shipments and marks orders delivered
+const trackingService = new TrackingService(pool, emailService);
+
+cronService.addJob(
+  'tracking-sync',
+  {
+    schedule: process.env.TRACKING_SYNC_SCHEDULE || '0 * * * *', // Every hour at minute 0
+    enabled: process.env.TRACKING_SYNC_ENABLED !== 'false', // Enable by default
+    description: 'Sync carrier tracking for active shipments and mark delivered orders',
+    timezone: process.env.TZ || 'America/New_York',
+  },
+  async () => {
+    try {
+      const result = await trackingService.syncActiveShipments();
+      if (result.checked > 0) {
+        console.log(`✅ Tracking sync: ${result.checked} checked, ${result.updated} updated, ${result.delivered_orders} orders delivered, ${result.errors} errors`);
+      }
+    } catch (error) {
+      console.error('❌ Error in tracking sync job:', error);
+    }
+  }
+);
+
+console.log('✅ Tracking sync cron job registered');
+
+// Backorder ready check - releases orders whose backordered units have been allocated stock
+const backorderService = new BackorderService(pool, emailService);
+
+cronService.addJob(
+  'backorder-ready-check',
+  {
+    schedule: process.env.BACKORDER_READY_SCHEDULE || '*/10 * * * *', // Every 10 minutes
+    enabled: process.env.BACKORDER_READY_ENABLED !== 'false', // Enable by default
+    description: 'Move fully allocated backordered orders to processing and email their customers',
+    timezone: process.env.TZ || 'America/New_York',
+  },
+  async () => {
+    try {
+      const result = await backorderService.processReadyOrders();
+      if (result.ready > 0 || result.errors > 0) {
+        console.log(`✅ Backorder ready check: ${result.ready} orders released, ${result.errors} errors`);
+      }
+    } catch (error) {
+      console.error('❌ Error in backorder ready check job:', error);
+    }
+  }
+);
+
+console.log('✅ Backorder ready check cron job registered');
+
+// Register daily stock alert digest job
+const stockAlertService = new StockAlertService(pool, emailService);
+
+cronService.addJob(
+  'stock-alert-digest',
+  {
+    schedule: process.env.STOCK_ALERT_DIGEST_SCHEDULE || '0 7 * * *', // Daily at 7 AM
+    enabled: process.env.STOCK_ALERT_DIGEST_ENABLED !== 'false', // Enable by default
+    description: 'Raise low-stock and out-of-stock alerts and email the admin stock digest',
+    timezone: process.env.TZ || 'America/New_York',
+  },
+  async () => {
+    try {
+      const result = await stockAlertService.runDailyCheck();
+      console.log(`✅ Stock alert digest: ${result.raised} raised, ${result.resolved} resolved, ${result.emailed} digests sent`);
+    } catch (error) {
+      console.error('❌ Error in stock alert digest job:', error);
+    }
+  }
+);
+
+console.log('✅ Stock alert digest cron job registered');
+
+// Register nightly recommendations job
+const recommendationService = new RecommendationService(pool);
+
+cronService.addJob(
+  'recommendations-recompute',
+  {
+    schedule: process.env.RECOMMENDATIONS_SCHEDULE || '0 3 * * *', // Nightly at 3 AM
+    enabled: process.env.RECOMMENDATIONS_ENABLED !== 'false', // Enable by default
+    description: 'Rebuild frequently bought together, accessory and also viewed recommendations',
+    timezone: process.env.TZ || 'America/New_York',
+  },
+  async () => {
+    try {
+      const result = await recommendationService.recomputeRelationships();
+      console.log(`✅ Recommendations rebuilt: ${result.frequentlyBoughtTogether} bought together, ${result.accessories} accessories, ${result.alsoViewed} also viewed`);
+    } catch (error) {
+      console.error('❌ Error in recommendations job:', error);
+    }
+  }
+);
+
+console.log('✅ Recommendations cron job registered');
+
 // Initialize logger service
 const loggerService = new LoggerService(pool);
 
 // Routes
+app.use('/api/auth/addresses', createAddressRoutes(pool));
 app.use('/api/auth', authRouter);
 app.use('/api', faqsRouter);
 app.use('/api', productDescriptionRouter);
 app.use('/api/products', createProductRoutes(pool));
 app.use('/api/cart', createCartRoutes(pool));
 app.use('/api/wishlist', createWishlistRoutes(pool));
+app.use('/api/compare', createCompareRoutes(pool));
 app.use('/api/orders', createOrderRoutes(pool));
 app.use('/api/payments', createPaymentRoutes(pool));
 app.use('/api/webhooks', createWebhookRoutes(pool));
 app.use('/api/admin/products', createAdminProductRoutes(pool));
 app.use('/api/admin/variation-stock', createVariationStockRoutes(pool));
+app.use('/api/admin/warehouses', createWarehouseRoutes(pool));
+app.use('/api/admin/purchasing', createPurchasingRoutes(pool));
+app.use('/api/admin/stock-alerts', createStockAlertRoutes(pool));
+app.use('/api/admin/audit-log', createAuditLogRoutes(pool));
+app.use('/api/admin/search', createAdminSearchRoutes(pool));
+app.use('/api/admin/product-attributes', createAdminProductAttributeRoutes(pool));
 app.use('/api/admin/bundles', createBundleRoutes(pool));
 app.use('/api/admin/orders', createAdminOrderRoutes(pool));
 app.use('/api/admin/dashboard', createAdminDashboardRoutes(pool));
@@ -308,6 +458,9 @@ app.use('/api/admin/settings', createAdminSettingsRoutes(pool));
 app.use('/api/settings', createSettingsRoutes(pool));
 app.use('/api/site-notices', createSiteNoticeRoutes(pool));
 app.use('/api/admin/site-notices', createAdminSiteNoticeRoutes(pool));
+app.use('/api/admin/reviews', createAdminReviewRoutes(pool));
+app.use('/api/admin/tax-rules', createAdminTaxRuleRoutes(pool));
+app.use('/api/admin/shipping-zones', createAdminShippingZoneRoutes(pool));
 app.use('/api/analytics', createAnalyticsRoutes(pool));
 app.use('/api/shared-configs', createSharedConfigRoutes(pool));
 app.use('/', createSitemapRoutes(pool));
@@ -337,8 +490,19 @@ app.get('/', (req, res) => {
       auth: {
         register: '/api/auth/register',
         login: '/api/auth/login',
+        loginTwoFactor: '/api/auth/login/2fa',
+        stepUp: '/api/auth/step-up',
+        twoFactor: '/api/auth/2fa',
         logout: '/api/auth/logout',
         profile: '/api/auth/profile',
+        verifyEmail: '/api/auth/verify-email',
+        changeEmail: '/api/auth/change-email',
+        changePassword: '/api/auth/change-password',
+        sessions: '/api/auth/sessions',
+        oauthProviders: '/api/auth/oauth/providers',
+        oauthStart: '/api/auth/oauth/:provider',
+        linkedAccounts: '/api/auth/oauth/identities',
+        addresses: '/api/auth/addresses',
         passwordReset: '/api/auth/password-reset/request',
         passwordResetConfirm: '/api/auth/password-reset/reset',
         newsletterSubscribe: '/api/auth/newsletter/subscribe',
@@ -0,0 +1,135 @@
+/**
+ * Admin Audit Middleware
+ * Records admin writes in admin_activity_logs: the acting user, the authority the route
+ * checked, the entity touched and a before/after diff of its fields. The entity is
+ * snapshotted before the handler runs and again once a successful response is sent;
+ * failed requests are not logged.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Pool } from 'pg';
+import { AuditLogService } from '../services/AuditLogService';
+
+// Extend Express Request with the authority checked by requireAuthority
+declare global {
+  namespace Express {
+    interface Request {
+      authorityUsed?: string;
+    }
+  }
+}
+
+export interface AuditOptions {
+  /** Logged action; defaults to `<entity>.create`, `.update` or `.delete` from the HTTP method */
+  action?: string;
+  /** Table the entity is snapshotted from */
+  table?: string;
+  /** Route param holding the entity id (default `id`) */
+  idParam?: string;
+  /** Column matched against the id, and read from the response of creates (default `id`) */
+  idColumn?: string;
+  /** Snapshot for entities that are not a single table row */
+  load?: (pool: Pool, id: string, req: Request) => Promise<any>;
+}
+
+/**
+ * Create the audit middleware factory for a router:
+ *
+ *   const audit = createAuditMiddleware(pool);
+ *   router.put('/:id', requireAuthority('coupons:edit'), audit('coupon', { table: 'coupons' }), controller.update);
+ *
+ * Routes without a table or loader still log who did what, with the request body in details.
+ */
+export const createAuditMiddleware = (pool: Pool) => {
+  const auditLogService = new AuditLogService(pool);
+
+  return (entityType: string, options: AuditOptions = {}): RequestHandler => {
+    const idParam = options.idParam || 'id';
+    const idColumn = options.idColumn || 'id';
+    const load = options.load || (options.table
+      ? async (db: Pool, id: string) => {
+          const result = await db.query(`SELECT * FROM ${options.table} WHERE ${idColumn} = $1`, [id]);
+          return result.rows[0] || null;
+        }
+      : null);
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const paramId: string | undefined = req.params[idParam];
+      let before: any = null;
+
+      if (load && paramId) {
+        try {
+          before = await load(pool, paramId, req);
+        } catch (error) {
+          console.error(`Audit snapshot failed for ${entityType} ${paramId}:`, error);
+        }
+      }
+
+      // Creates learn their id from the response
+      let responseBody: any;
+      const json = res.json.bind(res);
+      res.json = (body?: any) => {
+        responseBody = body;
+        return json(body);
+      };
+
+      const recordChange = async (entityId: string | undefined) => {
+        const after = load && entityId ? await load(pool, entityId, req) : null;
+        const details: Record<string, any> = { method: req.method, path: req.originalUrl.split('?')[0] };
+        if (!load && req.body && Object.keys(req.body).length > 0) {
+          details.request = auditLogService.redact(req.body);
+        }
+
+        await auditLogService.record({
+          adminId: req.session.userId!,
+          adminEmail: req.session.userEmail || req.session.email || null,
+          action: options.action || `${entityType}.${defaultVerb(req.method, paramId)}`,
+          authority: req.authorityUsed || null,
+          resourceType: entityType,
+          resourceId: entityId || null,
+          changes: load ? auditLogService.diff(before, after) : null,
+          details,
+          ipAddress: req.ip || null,
+          userAgent: req.get('user-agent') || null
+        });
+      };
+
+      res.on('finish', () => {
+        if (res.statusCode >= 400 || !req.session?.userId) {
+          return;
+        }
+
+        const created = responseBody?.data ?? responseBody;
+        const createdId = created?.[idColumn];
+        const entityId = paramId ?? (createdId !== undefined && createdId !== null ? String(createdId) : undefined);
+
+        recordChange(entityId).catch((error) => {
+          console.error(`Failed to record audit log for ${entityType}:`, error);
+        });
+      });
+
+      next();
+    };
+  };
+};
+
+/**
+ * Snapshot of a product variation together with its options
+ */
+export const loadVariationWithOptions = async (pool: Pool, id: string) => {
+  const variation = await pool.query('SELECT * FROM product_variations WHERE id = $1', [id]);
+  if (variation.rows.length === 0) {
+    return null;
+  }
+  const options = await pool.query(
+    'SELECT * FROM variation_options WHERE variation_id = $1 ORDER BY sort_order, id',
+    [id]
+  );
+  return { ...variation.rows[0], options: options.rows };
+};
+
+function defaultVerb(method: string, paramId?: string): string {
+  if (method === 'DELETE') return 'delete';
+  if (method === 'POST' && !paramId) return 'create';
+  return 'update';
+}
@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from 'express';
 import { AuthenticationError, AuthorizationError } from '../utils/errors';
 import { ErrorCode } from '../utils/errors';
 import RBACModel from '../models/rbac';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { OAuthFlowState } from '../types/socialLogin';
 
 /**
  * Extended session interface
@@ -12,9 +14,22 @@ declare module 'express-session' {
     role?: string; // deprecated - use authorities instead
     email?: string;
     authorities?: string[]; // NEW: cache authorities in session
+    stepUpAuthorities?: string[]; // authorities whose writes need recent re-authentication
+    stepUpAt?: number; // when the user last proved a second factor (or password, without 2FA)
+    twoFactorEnrollmentRequired?: boolean; // a role requires 2FA the user has not set up
+    pendingTwoFactorUserId?: number; // password accepted, waiting for the authenticator code
+    pendingTwoFactorAt?: number;
+    pendingTwoFactorAttempts?: number;
+    pendingGuestOrderClaim?: boolean; // social sign-in proved the email; claim guest orders once 2FA passes
+    guestOrderNumbers?: string[]; // guest orders this browser placed or opened from a lookup link
+    verifiedGuestEmail?: string; // email proven by following an order lookup link
+    oauthFlow?: OAuthFlowState; // social sign-in waiting for the provider callback
   }
 }
 
+// How long a step-up stays valid for sensitive writes
+export const STEP_UP_TTL_MS = parseInt(process.env.STEP_UP_TTL_MINUTES || '15', 10) * 60 * 1000;
+
 /**
  * Require authentication middleware
  * Ensures user is logged in
@@ -257,9 +272,34 @@ export const loadUserAuthorities = (rbacModel: RBACModel) => {
   };
 };
 
+/**
+ * Refresh the two-factor requirements of staff sessions
+ * Role and authority flags can change after login (and sessions created before they
+ * existed never had them), so they are re-read on every request rather than trusted
+ * from the copy taken at sign-in
+ */
+export const loadTwoFactorPolicy = (twoFactorService: TwoFactorService) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.session || !req.session.userId || !req.session.authorities?.length) {
+      return next();
+    }
+
+    try {
+      const policy = await twoFactorService.getPolicy(req.session.userId);
+      req.session.twoFactorEnrollmentRequired = policy.required && !policy.enabled;
+      req.session.stepUpAuthorities = policy.stepUpAuthorities;
+      next();
+    } catch (error) {
+      console.error('Failed to load two-factor policy:', error);
+      next();
+    }
+  };
+};
+
 /**
  * Require specific authority
- * Ensures user has the specified authority
+ * Ensures user has the specified authority. Users whose role requires 2FA must have
+ * enrolled, and writes under step-up authorities need a recent re-authentication.
  */
 export const requireAuthority = (authority: string) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -276,6 +316,26 @@ export const requireAuthority = (authority: string) => {
       );
     }
 
+    if (req.session.twoFactorEnrollmentRequired) {
+      throw new AuthorizationError(
+        'Set up two-factor authentication to use this feature',
+        ErrorCode.TWO_FACTOR_ENROLLMENT_REQUIRED
+      );
+    }
+
+    if (req.method !== 'GET' && req.method !== 'HEAD' && req.session.stepUpAuthorities?.includes(authority)) {
+      const stepUpAt = req.session.stepUpAt || 0;
+      if (Date.now() - stepUpAt > STEP_UP_TTL_MS) {
+        throw new AuthorizationError(
+          'Please confirm your identity to continue',
+          ErrorCode.STEP_UP_REQUIRED
+        );
+      }
+    }
+
+    // Recorded against the change by the audit middleware
+    req.authorityUsed = authority;
+
     next();
   };
 };
@@ -100,6 +100,19 @@ export const passwordResetLimiter = rateLimit({
   handler: rateLimitHandler
 });
 
+/**
+ * Guest order lookup limiter
+ * Each lookup can send an email, so keep it close to password reset
+ */
+export const orderLookupLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  message: 'Too many order lookup attempts, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: rateLimitHandler
+});
+
 /**
  * Search rate limiter
  * 30 searches per minute per IP
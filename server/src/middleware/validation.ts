@@ -234,7 +234,8 @@ export const cartValidation = {
       Joi.object({
         productId: Joi.number().integer().positive().required(),
         quantity: Joi.number().integer().min(1).required(),
-        unitPrice: Joi.number().min(0).required()
+        unitPrice: Joi.number().min(0).required(),
+        variationOptionIds: Joi.array().items(Joi.number().integer().positive()).max(50).optional()
       })
     ).optional()
   })
@@ -0,0 +1,59 @@
+-- Migration: 064_add_review_moderation.sql
+-- Purpose: Add moderation workflow columns to product_reviews and the reviews:moderate authority
+-- Date: 2025
+
+ALTER TABLE product_reviews
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS moderated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS moderation_note TEXT;
+
+-- Reviews approved before this migration keep their approved state
+UPDATE product_reviews SET status = 'approved' WHERE is_approved = true AND status = 'pending';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'product_reviews_status_check'
+  ) THEN
+    ALTER TABLE product_reviews
+      ADD CONSTRAINT product_reviews_status_check CHECK (status IN ('pending', 'approved', 'rejected'));
+  END IF;
+END $$;
+
+-- Drop duplicate reviews before the unique index, keeping an approved one, then the newest
+DELETE FROM product_reviews
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      PARTITION BY product_id, user_id
+      ORDER BY (status = 'approved') DESC, created_at DESC NULLS LAST, id DESC
+    ) AS rn
+    FROM product_reviews
+    WHERE user_id IS NOT NULL
+  ) ranked
+  WHERE rn > 1
+);
+
+-- Only one review per customer per product (order_id is nullable so the original UNIQUE does not cover this)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_reviews_product_user_unique ON product_reviews(product_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_status ON product_reviews(status);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_product_approved ON product_reviews(product_id) WHERE is_approved = true;
+
+-- Review moderation authority
+INSERT INTO authorities (resource, action, description)
+VALUES ('reviews', 'moderate', 'Approve, reject and delete customer product reviews')
+ON CONFLICT (resource, action) DO NOTHING;
+
+-- Assign reviews:moderate to admin and staff roles
+INSERT INTO role_authorities (role_id, authority_id)
+SELECT r.id, a.id
+FROM roles r
+CROSS JOIN authorities a
+WHERE r.name IN ('admin', 'staff')
+  AND a.resource = 'reviews'
+  AND a.action = 'moderate'
+ON CONFLICT (role_id, authority_id) DO NOTHING;
+
+COMMENT ON COLUMN product_reviews.status IS 'Moderation status: pending, approved or rejected. is_approved mirrors status = approved';
+COMMENT ON COLUMN product_reviews.moderation_note IS 'Internal note recorded by the moderator (e.g. rejection reason)';
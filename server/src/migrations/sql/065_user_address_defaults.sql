@@ -0,0 +1,20 @@
+-- Migration: 065_user_address_defaults.sql
+-- Purpose: Enforce a single default shipping and billing address per user for the address book
+-- Date: 2025
+
+-- Keep only the most recently updated default per user/type before adding the constraint
+UPDATE user_addresses ua
+SET is_default = false
+WHERE ua.is_default = true
+  AND EXISTS (
+    SELECT 1 FROM user_addresses newer
+    WHERE newer.user_id = ua.user_id
+      AND newer.type = ua.type
+      AND newer.is_default = true
+      AND (newer.updated_at > ua.updated_at OR (newer.updated_at = ua.updated_at AND newer.id > ua.id))
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_one_default
+  ON user_addresses(user_id, type) WHERE is_default = true;
+
+COMMENT ON INDEX idx_user_addresses_one_default IS 'At most one default address per user and address type';
@@ -0,0 +1,24 @@
+-- Migration: 066_email_queue_worker.sql
+-- Purpose: Support the email_queue background worker (region routing, claim tracking, dead-letter state)
+-- Date: 2025
+
+ALTER TABLE email_queue
+  ADD COLUMN IF NOT EXISTS region VARCHAR(10) DEFAULT 'us',
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS email_log_id INTEGER REFERENCES email_logs(id) ON DELETE SET NULL;
+
+-- 'dead' holds emails that exhausted their retries and need an admin to requeue them
+ALTER TABLE email_queue DROP CONSTRAINT IF EXISTS email_queue_status_check;
+ALTER TABLE email_queue ADD CONSTRAINT email_queue_status_check CHECK (
+  status IN ('pending', 'processing', 'sent', 'failed', 'dead')
+);
+
+-- Worker claims pending rows ordered by priority, oldest first
+CREATE INDEX IF NOT EXISTS idx_email_queue_claim
+  ON email_queue(priority DESC, scheduled_for ASC)
+  WHERE status = 'pending';
+
+COMMENT ON COLUMN email_queue.region IS 'Region whose SMTP transporter sends this email (us or eu)';
+COMMENT ON COLUMN email_queue.locked_at IS 'When a worker claimed the row; stale claims are released back to pending';
+COMMENT ON COLUMN email_queue.email_log_id IS 'email_logs entry for the most recent send attempt';
@@ -0,0 +1,124 @@
+-- Migration: 067_create_tax_rules.sql
+-- Purpose: Admin-managed tax rules (country/state/postal prefix + tax class), per-line tax on order_items
+-- Date: 2025
+
+CREATE TABLE IF NOT EXISTS tax_rules (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  country VARCHAR(2) NOT NULL,
+  state_code VARCHAR(10),
+  postal_prefix VARCHAR(20),
+  tax_class VARCHAR(50) NOT NULL DEFAULT 'standard',
+  rate DECIMAL(7,5) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  tax_shipping BOOLEAN NOT NULL DEFAULT false,
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One rule per jurisdiction and tax class
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_rules_jurisdiction_unique
+  ON tax_rules(country, COALESCE(state_code, ''), COALESCE(postal_prefix, ''), tax_class);
+CREATE INDEX IF NOT EXISTS idx_tax_rules_country_active ON tax_rules(country) WHERE is_active = true;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_tax_rules_updated_at'
+  ) THEN
+    CREATE TRIGGER update_tax_rules_updated_at
+        BEFORE UPDATE ON tax_rules
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- US: keep the existing Florida 6% sales tax (shipping included in the taxable amount)
+INSERT INTO tax_rules (name, country, state_code, tax_class, rate, tax_shipping) VALUES
+  ('Florida Sales Tax', 'US', 'FL', 'standard', 0.06, true)
+ON CONFLICT DO NOTHING;
+
+-- EU: destination-country standard VAT (OSS). Shipping follows the VAT of the goods.
+INSERT INTO tax_rules (name, country, tax_class, rate, tax_shipping) VALUES
+  ('Austria VAT', 'AT', 'standard', 0.20, true),
+  ('Belgium VAT', 'BE', 'standard', 0.21, true),
+  ('Bulgaria VAT', 'BG', 'standard', 0.20, true),
+  ('Croatia VAT', 'HR', 'standard', 0.25, true),
+  ('Cyprus VAT', 'CY', 'standard', 0.19, true),
+  ('Czechia VAT', 'CZ', 'standard', 0.21, true),
+  ('Denmark VAT', 'DK', 'standard', 0.25, true),
+  ('Estonia VAT', 'EE', 'standard', 0.24, true),
+  ('Finland VAT', 'FI', 'standard', 0.255, true),
+  ('France VAT', 'FR', 'standard', 0.20, true),
+  ('Germany VAT', 'DE', 'standard', 0.19, true),
+  ('Greece VAT', 'GR', 'standard', 0.24, true),
+  ('Hungary VAT', 'HU', 'standard', 0.27, true),
+  ('Ireland VAT', 'IE', 'standard', 0.23, true),
+  ('Italy VAT', 'IT', 'standard', 0.22, true),
+  ('Latvia VAT', 'LV', 'standard', 0.21, true),
+  ('Lithuania VAT', 'LT', 'standard', 0.21, true),
+  ('Luxembourg VAT', 'LU', 'standard', 0.17, true),
+  ('Malta VAT', 'MT', 'standard', 0.18, true),
+  ('Netherlands VAT', 'NL', 'standard', 0.21, true),
+  ('Poland VAT', 'PL', 'standard', 0.23, true),
+  ('Portugal VAT', 'PT', 'standard', 0.23, true),
+  ('Romania VAT', 'RO', 'standard', 0.21, true),
+  ('Slovakia VAT', 'SK', 'standard', 0.23, true),
+  ('Slovenia VAT', 'SI', 'standard', 0.22, true),
+  ('Spain VAT', 'ES', 'standard', 0.21, true),
+  ('Sweden VAT', 'SE', 'standard', 0.25, true)
+ON CONFLICT DO NOTHING;
+
+-- EU prices are entered and displayed gross (VAT included); US prices are net
+INSERT INTO region_settings (region, setting_key, setting_value, setting_type, description, is_public) VALUES
+  ('us', 'prices_include_tax', 'false', 'boolean', 'Product prices include tax', true),
+  ('eu', 'prices_include_tax', 'true', 'boolean', 'Product prices include tax (VAT)', true)
+ON CONFLICT (region, setting_key) DO NOTHING;
+
+-- The flat region tax_rate was never applied; rates now live in tax_rules
+DELETE FROM region_settings WHERE setting_key = 'tax_rate';
+
+-- Per-line tax breakdown
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS tax_class VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS taxable_amount DECIMAL(10,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(7,5) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(10,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_rule_id INTEGER REFERENCES tax_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tax_label VARCHAR(100);
+
+-- Lines ordered before per-line tax have no breakdown (tax_class is always set
+-- from here on); their taxable amount is the full line, so item refunds still work
+UPDATE order_items
+SET taxable_amount = COALESCE(total_price, unit_price * quantity)
+WHERE tax_class IS NULL;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS shipping_tax_amount DECIMAL(10,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN DEFAULT false;
+
+-- Invoice emails label the tax line per order ("Tax" or "VAT (included)")
+UPDATE email_templates
+SET html_body = REPLACE(html_body, '<strong style="color: #ffffff;">Tax</strong>', '<strong style="color: #ffffff;">{{tax_label}}</strong>')
+WHERE html_body LIKE '%<strong style="color: #ffffff;">Tax</strong>%';
+
+-- Tax management authority
+INSERT INTO authorities (resource, action, description)
+VALUES ('tax', 'manage', 'Manage tax rules and tax-inclusive pricing')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_authorities (role_id, authority_id)
+SELECT r.id, a.id
+FROM roles r
+CROSS JOIN authorities a
+WHERE r.name = 'admin'
+  AND a.resource = 'tax'
+  AND a.action = 'manage'
+ON CONFLICT (role_id, authority_id) DO NOTHING;
+
+COMMENT ON TABLE tax_rules IS 'Tax rates by destination. The most specific active match (postal prefix, then state, then country) wins per tax class';
+COMMENT ON COLUMN tax_rules.state_code IS 'ISO 3166-2 subdivision code without country prefix (e.g. FL); NULL matches the whole country';
+COMMENT ON COLUMN tax_rules.tax_shipping IS 'Whether shipping is taxed at this rule''s rate in this jurisdiction';
+COMMENT ON COLUMN order_items.tax_amount IS 'Tax on this line after its share of the order discount. Included in total_price when orders.prices_include_tax';
+COMMENT ON COLUMN orders.prices_include_tax IS 'Line prices are gross (EU VAT); tax_amount is already contained in total_amount';
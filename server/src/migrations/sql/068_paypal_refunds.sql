@@ -0,0 +1,37 @@
+-- Migration: 068_paypal_refunds.sql
+-- Purpose: Track refunds issued through the PayPal capture refund API (idempotency, PayPal status, failures)
+-- Date: 2025
+
+ALTER TABLE refunds
+  ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS currency VARCHAR(3),
+  ADD COLUMN IF NOT EXISTS paypal_status VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+-- Replaying a refund request with the same key must not create (or send) a second refund
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_idempotency_key
+  ON refunds(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- Earlier webhook deliveries could record the same PayPal refund more than once;
+-- keep the first record and mark the copies so the unique index below can be built
+UPDATE refunds r
+SET status = 'failed',
+    failure_reason = 'Duplicate webhook record of refund #' || d.keep_id,
+    refund_transaction_id = NULL
+FROM (
+  SELECT id, MIN(id) OVER (PARTITION BY refund_transaction_id) AS keep_id
+  FROM refunds
+  WHERE refund_transaction_id IS NOT NULL
+) d
+WHERE r.id = d.id AND d.id <> d.keep_id;
+
+-- Webhook reconciliation looks refunds up by PayPal refund id and must not record one twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_refund_transaction_id
+  ON refunds(refund_transaction_id)
+  WHERE refund_transaction_id IS NOT NULL;
+
+COMMENT ON COLUMN refunds.idempotency_key IS 'Sent to PayPal as PayPal-Request-Id; also deduplicates admin refund requests';
+COMMENT ON COLUMN refunds.currency IS 'Currency of the refunded capture';
+COMMENT ON COLUMN refunds.paypal_status IS 'Last refund status reported by PayPal (COMPLETED, PENDING, CANCELLED, FAILED)';
+COMMENT ON COLUMN refunds.failure_reason IS 'Why PayPal rejected or could not complete the refund';
@@ -0,0 +1,137 @@
+-- Migration: 069_create_shipping_zones.sql
+-- Purpose: Admin-managed shipping zones and methods with rate tables, replacing hardcoded rules in ShippingService
+-- Date: 2025
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  countries TEXT[] NOT NULL DEFAULT '{}',
+  states TEXT[] NOT NULL DEFAULT '{}',
+  postal_codes TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS shipping_zone_methods (
+  id SERIAL PRIMARY KEY,
+  zone_id INTEGER NOT NULL REFERENCES shipping_zones(id) ON DELETE CASCADE,
+  code VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  carrier VARCHAR(50),
+  estimated_days VARCHAR(100),
+  method_type VARCHAR(20) NOT NULL,
+  base_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+  rates JSONB NOT NULL DEFAULT '[]',
+  free_shipping_mode VARCHAR(10) NOT NULL DEFAULT 'none',
+  free_shipping_threshold DECIMAL(10,2),
+  class_rules JSONB NOT NULL DEFAULT '[]',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT shipping_zone_methods_type_check CHECK (
+    method_type IN ('flat', 'weight_tier', 'total_tier', 'package_size', 'carrier', 'quote')
+  ),
+  CONSTRAINT shipping_zone_methods_free_mode_check CHECK (
+    free_shipping_mode IN ('none', 'region', 'amount')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_zones_active_order ON shipping_zones(sort_order) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_shipping_zone_methods_zone ON shipping_zone_methods(zone_id, sort_order);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_shipping_zones_updated_at'
+  ) THEN
+    CREATE TRIGGER update_shipping_zones_updated_at
+        BEFORE UPDATE ON shipping_zones
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_shipping_zone_methods_updated_at'
+  ) THEN
+    CREATE TRIGGER update_shipping_zone_methods_updated_at
+        BEFORE UPDATE ON shipping_zone_methods
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Seed zones with the rules previously hardcoded in ShippingService.
+-- Alaska & Hawaii sort before the rest of the US so the first match wins.
+INSERT INTO shipping_zones (name, countries, states, sort_order)
+SELECT 'Alaska & Hawaii', '{US}', '{AK,HI}', 10
+WHERE NOT EXISTS (SELECT 1 FROM shipping_zones WHERE name = 'Alaska & Hawaii');
+
+INSERT INTO shipping_zones (name, countries, sort_order)
+SELECT 'United States', '{US}', 20
+WHERE NOT EXISTS (SELECT 1 FROM shipping_zones WHERE name = 'United States');
+
+INSERT INTO shipping_zones (name, countries, sort_order)
+SELECT 'Canada', '{CA}', 30
+WHERE NOT EXISTS (SELECT 1 FROM shipping_zones WHERE name = 'Canada');
+
+INSERT INTO shipping_zones (name, countries, sort_order)
+SELECT 'Europe', '{AT,BE,BG,HR,CY,CZ,DK,EE,FI,FR,DE,GR,HU,IE,IT,LV,LT,LU,MT,NL,PL,PT,RO,SK,SI,ES,SE,IS,LI,NO,GB,CH,AL,AD,BY,BA,XK,MD,MC,ME,MK,RU,SM,RS,TR,UA,VA}', 40
+WHERE NOT EXISTS (SELECT 1 FROM shipping_zones WHERE name = 'Europe');
+
+-- No countries: matches every destination not covered above
+INSERT INTO shipping_zones (name, countries, sort_order)
+SELECT 'Rest of World', '{}', 100
+WHERE NOT EXISTS (SELECT 1 FROM shipping_zones WHERE name = 'Rest of World');
+
+INSERT INTO shipping_zone_methods (zone_id, code, name, carrier, estimated_days, method_type, rates)
+SELECT id, 'us_territories', 'Alaska/Hawaii Shipping', 'USPS', '7-10 business days', 'package_size',
+  '[{"size": "S", "cost": 30}, {"size": "M", "cost": 50}, {"size": "L", "cost": 150}]'
+FROM shipping_zones WHERE name = 'Alaska & Hawaii'
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_zone_methods (zone_id, code, name, carrier, estimated_days, method_type, base_cost, free_shipping_mode)
+SELECT id, 'us_standard', 'Standard Shipping', 'USPS', '5-7 business days', 'flat', 9.99, 'region'
+FROM shipping_zones WHERE name = 'United States'
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_zone_methods (zone_id, code, name, carrier, estimated_days, method_type, rates)
+SELECT id, 'canada', 'Canada Shipping', 'USPS', '7-14 business days', 'package_size',
+  '[{"size": "S", "cost": 35}, {"size": "M", "cost": 100}, {"size": "L", "cost": 200}]'
+FROM shipping_zones WHERE name = 'Canada'
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_zone_methods (zone_id, code, name, carrier, estimated_days, method_type, rates)
+SELECT id, 'europe_weight_based', 'Standard Shipping', 'SimFab EU', '', 'weight_tier',
+  '[{"min": 0, "max": 5, "cost": 15}, {"min": 5, "max": 15, "cost": 40}, {"min": 15, "max": 30, "cost": 50}, {"min": 30, "max": 60, "cost": 70}, {"min": 60, "max": null, "cost": 100}]'
+FROM shipping_zones WHERE name = 'Europe'
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_zone_methods (zone_id, code, name, carrier, estimated_days, method_type)
+SELECT id, 'international_fedex', 'International Shipping (FedEx)', 'FedEx', '7-14 business days', 'carrier'
+FROM shipping_zones WHERE name = 'Rest of World'
+ON CONFLICT (code) DO NOTHING;
+
+-- Shipping management authority
+INSERT INTO authorities (resource, action, description)
+VALUES ('shipping', 'manage', 'Manage shipping zones, methods and rate tables')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_authorities (role_id, authority_id)
+SELECT r.id, a.id
+FROM roles r
+CROSS JOIN authorities a
+WHERE r.name = 'admin'
+  AND a.resource = 'shipping'
+  AND a.action = 'manage'
+ON CONFLICT (role_id, authority_id) DO NOTHING;
+
+COMMENT ON TABLE shipping_zones IS 'Shipping destinations matched in sort_order; the first active zone covering the address supplies the methods';
+COMMENT ON COLUMN shipping_zones.countries IS 'ISO country codes; empty matches every country';
+COMMENT ON COLUMN shipping_zones.postal_codes IS 'Exact codes, prefixes ending in * or ranges written LOW...HIGH; empty matches all';
+COMMENT ON COLUMN shipping_zone_methods.code IS 'Shipping method id shown at checkout and stored on orders.shipping_method';
+COMMENT ON COLUMN shipping_zone_methods.rates IS 'Rate table: [{min, max, cost}] tiers for weight_tier (kg) and total_tier, [{size, cost}] for package_size';
+COMMENT ON COLUMN shipping_zone_methods.free_shipping_mode IS 'none, region (region_settings.free_shipping_threshold) or amount (free_shipping_threshold)';
+COMMENT ON COLUMN shipping_zone_methods.class_rules IS 'Per shipping_class rules: [{shipping_class, action: surcharge|exclude, amount, per: item|order}]';
@@ -0,0 +1,43 @@
+-- Migration: 070_create_product_shipping_boxes.sql
+-- Purpose: Box lists for products (or variation options) that ship in one or more boxes of their own
+-- Date: 2025
+
+CREATE TABLE IF NOT EXISTS product_shipping_boxes (
+  id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variation_option_id INTEGER REFERENCES variation_options(id) ON DELETE CASCADE,
+  label VARCHAR(100),
+  length REAL NOT NULL,
+  width REAL NOT NULL,
+  height REAL NOT NULL,
+  dimension_unit TEXT NOT NULL DEFAULT 'in',
+  weight REAL NOT NULL,
+  weight_unit TEXT NOT NULL DEFAULT 'lbs',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT product_shipping_boxes_dimensions_check CHECK (length > 0 AND width > 0 AND height > 0),
+  CONSTRAINT product_shipping_boxes_weight_check CHECK (weight > 0),
+  CONSTRAINT product_shipping_boxes_dimension_unit_check CHECK (dimension_unit IN ('cm', 'in')),
+  CONSTRAINT product_shipping_boxes_weight_unit_check CHECK (weight_unit IN ('kg', 'lbs'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_shipping_boxes_product ON product_shipping_boxes(product_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_product_shipping_boxes_option ON product_shipping_boxes(variation_option_id)
+  WHERE variation_option_id IS NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_product_shipping_boxes_updated_at'
+  ) THEN
+    CREATE TRIGGER update_product_shipping_boxes_updated_at
+      BEFORE UPDATE ON product_shipping_boxes
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+COMMENT ON TABLE product_shipping_boxes IS 'Boxes a product ships in as-is; these are never repacked into shared cartons';
+COMMENT ON COLUMN product_shipping_boxes.variation_option_id IS 'When set, the box belongs to that option and replaces the product-level boxes if the option is selected';
+COMMENT ON COLUMN product_shipping_boxes.label IS 'Box description for packing slips, e.g. "Base frame"';
@@ -0,0 +1,20 @@
+-- Migration: 071_shipment_labels.sql
+-- Purpose: Store FedEx labels per parcel on shipments and allow voiding them
+-- Date: 2025
+
+ALTER TABLE shipments
+  ADD COLUMN IF NOT EXISTS master_tracking_number VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS label_format VARCHAR(10),
+  ADD COLUMN IF NOT EXISTS label_data BYTEA,
+  ADD COLUMN IF NOT EXISTS parcel JSONB,
+  ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS voided_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE shipments DROP CONSTRAINT IF EXISTS shipments_status_check;
+ALTER TABLE shipments ADD CONSTRAINT shipments_status_check CHECK (
+  status IN ('pending', 'label_created', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered', 'failed', 'returned', 'voided')
+);
+
+-- A multi-parcel shipment shares one master tracking number; labels are voided together
+CREATE INDEX IF NOT EXISTS idx_shipments_master_tracking_number ON shipments(master_tracking_number);
@@ -0,0 +1,71 @@
+-- Migration: 072_shipment_tracking.sql
+-- Purpose: Carrier tracking sync (tracking events per shipment, delivery emails, out-for-delivery order status)
+-- Date: 2025
+
+ALTER TABLE shipments
+  ADD COLUMN IF NOT EXISTS status_description VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS last_tracked_at TIMESTAMP;
+
+-- The sync job picks the shipments that were tracked longest ago
+CREATE INDEX IF NOT EXISTS idx_shipments_tracking_queue
+  ON shipments(last_tracked_at NULLS FIRST)
+  WHERE status IN ('label_created', 'picked_up', 'in_transit', 'out_for_delivery', 'failed');
+
+-- Carriers return the full scan history on every poll; store each scan once
+CREATE INDEX IF NOT EXISTS idx_shipment_tracking_events_shipment_id ON shipment_tracking_events(shipment_id);
+
+-- Keep the first copy of scans stored more than once before the unique index existed
+DELETE FROM shipment_tracking_events duplicate
+USING shipment_tracking_events original
+WHERE duplicate.shipment_id = original.shipment_id
+  AND duplicate.timestamp = original.timestamp
+  AND duplicate.status = original.status
+  AND duplicate.id > original.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipment_tracking_events_unique
+  ON shipment_tracking_events(shipment_id, timestamp, status);
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_shipping_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_shipping_status_check CHECK (
+  shipping_status IN ('pending', 'processing', 'shipped', 'in_transit', 'out_for_delivery', 'delivered', 'returned')
+);
+
+-- Customer emails fired by the tracking sync
+INSERT INTO email_templates (
+  type,
+  name,
+  description,
+  subject,
+  html_body,
+  recipient_type,
+  trigger_event,
+  is_active,
+  default_recipients
+) VALUES (
+  'order_out_for_delivery',
+  'Order Out for Delivery',
+  'Sent to customer when the carrier reports the order out for delivery',
+  'Your Order #{{order_number}} is Out for Delivery',
+  '<div class="email-content"><h1 style="color: #ffffff; font-size: 28px; margin: 0 0 8px 0; font-weight: 700;">Out for Delivery</h1><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Hi {{customer_name}},</p><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Your order <strong style="color: #c5303b;">#{{order_number}}</strong> is out for delivery and should arrive today.</p><div class="order-info"><p style="color: #cccccc; font-size: 14px; margin: 4px 0;"><strong>Carrier:</strong> {{carrier}}</p><p style="color: #cccccc; font-size: 14px; margin: 4px 0;"><strong>Tracking Number:</strong> <span class="highlight">{{tracking_number}}</span></p></div><p style="color: #cccccc; font-size: 16px; line-height: 1.6; margin-top: 20px;"><a href="{{tracking_url}}" style="color: #c5303b; text-decoration: none; font-weight: 600;">Track Your Package →</a></p></div>',
+  'customer',
+  'order.out_for_delivery',
+  true,
+  ARRAY[]::VARCHAR[]
+), (
+  'order_delivered',
+  'Order Delivered',
+  'Sent to customer when the carrier reports every parcel of the order delivered',
+  'Your Order #{{order_number}} Has Been Delivered',
+  '<div class="email-content"><h1 style="color: #ffffff; font-size: 28px; margin: 0 0 8px 0; font-weight: 700;">Delivered!</h1><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Hi {{customer_name}},</p><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Your order <strong style="color: #c5303b;">#{{order_number}}</strong> was delivered on {{delivered_at}}.</p><div class="order-info"><p style="color: #cccccc; font-size: 14px; margin: 4px 0;"><strong>Carrier:</strong> {{carrier}}</p><p style="color: #cccccc; font-size: 14px; margin: 4px 0;"><strong>Tracking Number:</strong> <span class="highlight">{{tracking_number}}</span></p></div><p style="color: #888888; font-size: 15px; line-height: 1.6; margin-top: 32px;">We hope you enjoy your new equipment. If anything is missing or damaged, reply to this email and we''ll help.</p></div>',
+  'customer',
+  'order.delivered',
+  true,
+  ARRAY[]::VARCHAR[]
+) ON CONFLICT (type) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  subject = EXCLUDED.subject,
+  html_body = EXCLUDED.html_body,
+  recipient_type = EXCLUDED.recipient_type,
+  trigger_event = EXCLUDED.trigger_event,
+  updated_at = NOW();
@@ -0,0 +1,67 @@
+-- Migration: 073_order_state_machine.sql
+-- Purpose: Order lifecycle states (on hold, backordered, partially shipped, awaiting quote) and audited status history
+-- Date: 2025
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check CHECK (
+  status IN (
+    'pending', 'pending_payment', 'awaiting_quote', 'processing', 'on_hold', 'backordered',
+    'partially_shipped', 'shipped', 'delivered', 'cancelled', 'refunded', 'failed'
+  )
+);
+
+-- Each transition records where the order came from and who moved it
+ALTER TABLE order_status_history
+  ADD COLUMN IF NOT EXISTS from_status VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS actor_type VARCHAR(20) NOT NULL DEFAULT 'system';
+
+ALTER TABLE order_status_history DROP CONSTRAINT IF EXISTS order_status_history_actor_type_check;
+ALTER TABLE order_status_history ADD CONSTRAINT order_status_history_actor_type_check CHECK (
+  actor_type IN ('admin', 'customer', 'system', 'shipstation', 'carrier')
+);
+
+-- Transitions are now written by OrderStatusService together with the actor and reason;
+-- the trigger would log every change a second time without them
+DROP TRIGGER IF EXISTS log_order_status_change_trigger ON orders;
+DROP FUNCTION IF EXISTS log_order_status_change();
+
+-- Orders placed against a shipping quote wait for it before they can be fulfilled
+UPDATE orders o
+SET status = 'awaiting_quote'
+FROM shipping_quotes q
+WHERE q.id = o.shipping_quote_id
+  AND q.status IN ('pending', 'quoted')
+  AND o.status IN ('pending', 'processing');
+
+COMMENT ON COLUMN order_status_history.from_status IS 'Status before the transition (NULL for notes that did not change the status)';
+COMMENT ON COLUMN order_status_history.actor_type IS 'Who made the change: admin, customer, system, shipstation or carrier';
+
+-- Customer email for orders waiting on stock
+INSERT INTO email_templates (
+  type,
+  name,
+  description,
+  subject,
+  html_body,
+  recipient_type,
+  trigger_event,
+  is_active,
+  default_recipients
+) VALUES (
+  'order_backordered',
+  'Order Backordered',
+  'Sent to customer when an order is waiting for out-of-stock items',
+  'Your Order #{{order_number}} is Backordered',
+  '<div class="email-content"><h1 style="color: #ffffff; font-size: 28px; margin: 0 0 8px 0; font-weight: 700;">Backordered</h1><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Hi {{customer_name}},</p><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Some items in your order <strong style="color: #c5303b;">#{{order_number}}</strong> are currently out of stock. We will ship your order as soon as they arrive.</p><div class="order-info"><p style="color: #cccccc; font-size: 14px; margin: 4px 0;"><strong>Order Total:</strong> {{order_total}}</p><p style="color: #cccccc; font-size: 14px; margin: 4px 0;"><strong>Order Date:</strong> {{order_date}}</p></div><p style="color: #888888; font-size: 15px; line-height: 1.6; margin-top: 32px;">If you have any questions, reply to this email and we''ll help.</p></div>',
+  'customer',
+  'order.backordered',
+  true,
+  ARRAY[]::VARCHAR[]
+) ON CONFLICT (type) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  subject = EXCLUDED.subject,
+  html_body = EXCLUDED.html_body,
+  recipient_type = EXCLUDED.recipient_type,
+  trigger_event = EXCLUDED.trigger_event,
+  updated_at = NOW();
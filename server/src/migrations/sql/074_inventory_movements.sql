@@ -0,0 +1,48 @@
+-- Migration: 074_inventory_movements.sql
+-- Purpose: Append-only ledger of product and variation option stock movements
+-- Date: 2025
+
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variation_option_id INTEGER REFERENCES variation_options(id) ON DELETE CASCADE,
+  delta INTEGER NOT NULL,
+  quantity_after INTEGER,
+  reserved_delta INTEGER NOT NULL DEFAULT 0,
+  reason VARCHAR(30) NOT NULL,
+  note TEXT,
+  actor_type VARCHAR(20) NOT NULL DEFAULT 'system',
+  -- No FK: ledger rows must survive user deletion unchanged
+  actor_id INTEGER,
+  source_type VARCHAR(30),
+  source_id VARCHAR(100),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT inventory_movements_reason_check CHECK (
+    reason IN ('sale', 'refund', 'manual_adjustment', 'import', 'reservation_expiry', 'cycle_count')
+  ),
+  CONSTRAINT inventory_movements_actor_type_check CHECK (
+    actor_type IN ('admin', 'customer', 'system')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product ON inventory_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_option ON inventory_movements(variation_option_id, created_at DESC)
+  WHERE variation_option_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_created_at ON inventory_movements(created_at);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_source ON inventory_movements(source_type, source_id);
+
+-- Ledger rows are never edited; corrections are recorded as new movements
+CREATE OR REPLACE FUNCTION prevent_inventory_movement_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'inventory_movements is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS inventory_movements_append_only ON inventory_movements;
+CREATE TRIGGER inventory_movements_append_only
+  BEFORE UPDATE ON inventory_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_inventory_movement_update();
+
+COMMENT ON TABLE inventory_movements IS 'Append-only ledger of every product and variation option stock change';
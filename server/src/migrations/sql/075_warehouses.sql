@@ -0,0 +1,204 @@
+-- Migration: 075_warehouses.sql
+-- Purpose: Warehouses with per-location stock levels, thresholds, reservations and inter-warehouse transfers
+-- Date: 2025
+
+CREATE TABLE IF NOT EXISTS warehouses (
+  id SERIAL PRIMARY KEY,
+  code VARCHAR(20) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  region VARCHAR(2) NOT NULL,
+  address JSONB,
+  serves_countries TEXT[] NOT NULL DEFAULT '{}',
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT warehouses_region_check CHECK (region IN ('us', 'eu'))
+);
+
+-- One default (fallback) warehouse per region
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouses_region_default ON warehouses(region) WHERE is_default = true;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_warehouses_updated_at'
+  ) THEN
+    CREATE TRIGGER update_warehouses_updated_at
+        BEFORE UPDATE ON warehouses
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Seed the two existing fulfilment locations from the FedEx ship-from settings
+INSERT INTO warehouses (code, name, region, address, is_default)
+SELECT 'US-MAIN', 'US Warehouse', 'us',
+       (SELECT setting_value::jsonb FROM region_settings WHERE region = 'us' AND setting_key = 'fedex_warehouse_address'),
+       true
+WHERE NOT EXISTS (SELECT 1 FROM warehouses WHERE code = 'US-MAIN');
+
+INSERT INTO warehouses (code, name, region, address, is_default)
+SELECT 'EU-MAIN', 'EU Warehouse', 'eu',
+       (SELECT setting_value::jsonb FROM region_settings WHERE region = 'eu' AND setting_key = 'fedex_warehouse_address'),
+       true
+WHERE NOT EXISTS (SELECT 1 FROM warehouses WHERE code = 'EU-MAIN');
+
+-- Stock per location. Rows without a variation option hold product-level stock;
+-- products.stock and variation_options.stock_quantity stay as the sum across locations.
+CREATE TABLE IF NOT EXISTS warehouse_stock (
+  id SERIAL PRIMARY KEY,
+  warehouse_id INTEGER NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variation_option_id INTEGER REFERENCES variation_options(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 0,
+  reserved_quantity INTEGER NOT NULL DEFAULT 0,
+  low_stock_threshold INTEGER,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouse_stock_product
+  ON warehouse_stock(warehouse_id, product_id) WHERE variation_option_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouse_stock_option
+  ON warehouse_stock(warehouse_id, variation_option_id) WHERE variation_option_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_warehouse_stock_product_lookup ON warehouse_stock(product_id);
+
+-- Existing stock lives in the default warehouse of the product's region
+INSERT INTO warehouse_stock (warehouse_id, product_id, quantity)
+SELECT w.id, p.id, COALESCE(p.stock, 0)
+FROM products p
+JOIN warehouses w ON w.region = COALESCE(p.region, 'us') AND w.is_default = true
+ON CONFLICT DO NOTHING;
+
+INSERT INTO warehouse_stock (warehouse_id, product_id, variation_option_id, quantity, reserved_quantity)
+SELECT w.id, p.id, vo.id, vo.stock_quantity, COALESCE(vo.reserved_quantity, 0)
+FROM variation_options vo
+JOIN product_variations v ON v.id = vo.variation_id
+JOIN products p ON p.id = v.product_id
+JOIN warehouses w ON w.region = COALESCE(p.region, 'us') AND w.is_default = true
+WHERE vo.stock_quantity IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Reservations remember the location they hold stock at
+ALTER TABLE stock_reservations ADD COLUMN IF NOT EXISTS warehouse_id INTEGER REFERENCES warehouses(id);
+ALTER TABLE variation_stock_reservations ADD COLUMN IF NOT EXISTS warehouse_id INTEGER REFERENCES warehouses(id);
+
+UPDATE stock_reservations sr
+SET warehouse_id = w.id
+FROM products p, warehouses w
+WHERE sr.product_id = p.id AND w.region = COALESCE(p.region, 'us') AND w.is_default = true
+  AND sr.warehouse_id IS NULL;
+
+UPDATE variation_stock_reservations vsr
+SET warehouse_id = w.id
+FROM variation_options vo, product_variations v, products p, warehouses w
+WHERE vsr.variation_option_id = vo.id AND vo.variation_id = v.id AND v.product_id = p.id
+  AND w.region = COALESCE(p.region, 'us') AND w.is_default = true
+  AND vsr.warehouse_id IS NULL;
+
+-- Ledger rows record their location; transfers are a new movement reason
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS warehouse_id INTEGER REFERENCES warehouses(id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_warehouse ON inventory_movements(warehouse_id, created_at DESC);
+
+ALTER TABLE inventory_movements DROP CONSTRAINT IF EXISTS inventory_movements_reason_check;
+ALTER TABLE inventory_movements ADD CONSTRAINT inventory_movements_reason_check CHECK (
+  reason IN ('sale', 'refund', 'manual_adjustment', 'import', 'reservation_expiry', 'cycle_count', 'transfer')
+);
+
+-- Existing movements all happened at the region's single warehouse
+ALTER TABLE inventory_movements DISABLE TRIGGER inventory_movements_append_only;
+UPDATE inventory_movements m
+SET warehouse_id = w.id
+FROM products p, warehouses w
+WHERE m.product_id = p.id AND w.region = COALESCE(p.region, 'us') AND w.is_default = true
+  AND m.warehouse_id IS NULL;
+ALTER TABLE inventory_movements ENABLE TRIGGER inventory_movements_append_only;
+
+-- Inter-warehouse transfer documents
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id SERIAL PRIMARY KEY,
+  transfer_number VARCHAR(30) NOT NULL UNIQUE,
+  from_warehouse_id INTEGER NOT NULL REFERENCES warehouses(id),
+  to_warehouse_id INTEGER NOT NULL REFERENCES warehouses(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+  notes TEXT,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  shipped_at TIMESTAMP,
+  received_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT stock_transfers_status_check CHECK (status IN ('draft', 'in_transit', 'received', 'cancelled')),
+  CONSTRAINT stock_transfers_locations_check CHECK (from_warehouse_id <> to_warehouse_id)
+);
+
+-- Products are duplicated per region, so a line names the SKU row at both ends
+CREATE TABLE IF NOT EXISTS stock_transfer_items (
+  id SERIAL PRIMARY KEY,
+  transfer_id INTEGER NOT NULL REFERENCES stock_transfers(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  variation_option_id INTEGER REFERENCES variation_options(id),
+  destination_product_id INTEGER NOT NULL REFERENCES products(id),
+  destination_variation_option_id INTEGER REFERENCES variation_options(id),
+  quantity INTEGER NOT NULL,
+  CONSTRAINT stock_transfer_items_quantity_check CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_status ON stock_transfers(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_items_transfer ON stock_transfer_items(transfer_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_stock_transfers_updated_at'
+  ) THEN
+    CREATE TRIGGER update_stock_transfers_updated_at
+        BEFORE UPDATE ON stock_transfers
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Auto-generate transfer numbers the same way order numbers are
+CREATE OR REPLACE FUNCTION generate_transfer_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.transfer_number IS NULL THEN
+    NEW.transfer_number := 'TR-' || TO_CHAR(CURRENT_TIMESTAMP, 'YYYYMMDD') || '-' || LPAD(NEW.id::TEXT, 5, '0');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'generate_transfer_number_trigger'
+  ) THEN
+    CREATE TRIGGER generate_transfer_number_trigger
+      BEFORE INSERT ON stock_transfers
+      FOR EACH ROW
+      EXECUTE FUNCTION generate_transfer_number();
+  END IF;
+END $$;
+
+-- Inventory management authority
+INSERT INTO authorities (resource, action, description)
+VALUES ('inventory', 'manage', 'Manage warehouses and inter-warehouse stock transfers')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_authorities (role_id, authority_id)
+SELECT r.id, a.id
+FROM roles r
+CROSS JOIN authorities a
+WHERE r.name = 'admin'
+  AND a.resource = 'inventory'
+  AND a.action = 'manage'
+ON CONFLICT (role_id, authority_id) DO NOTHING;
+
+COMMENT ON TABLE warehouses IS 'Fulfilment locations; reservations pick one by cart region and destination country';
+COMMENT ON COLUMN warehouses.serves_countries IS 'ISO country codes this location prefers to ship to; empty serves the whole region';
+COMMENT ON COLUMN warehouses.priority IS 'Lower numbers are tried first when several locations can fill an order';
+COMMENT ON TABLE warehouse_stock IS 'On-hand and reserved quantity per location; product and option totals are the sum of these rows';
+COMMENT ON COLUMN warehouse_stock.low_stock_threshold IS 'Per-location threshold; NULL falls back to the product or option threshold';
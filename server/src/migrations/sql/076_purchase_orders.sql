@@ -0,0 +1,143 @@
+-- Migration: 076_purchase_orders.sql
+-- Purpose: Suppliers, purchase orders with partial receiving, and landed cost for margin reporting
+-- Date: 2025
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(200) NOT NULL,
+  contact_name VARCHAR(200),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  address JSONB,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  lead_time_days INTEGER,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_name ON suppliers(LOWER(name));
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id SERIAL PRIMARY KEY,
+  po_number VARCHAR(30) NOT NULL UNIQUE,
+  supplier_id INTEGER NOT NULL REFERENCES suppliers(id),
+  warehouse_id INTEGER NOT NULL REFERENCES warehouses(id),
+  status VARCHAR(30) NOT NULL DEFAULT 'draft',
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  expected_at DATE,
+  -- Landed cost components, spread over the lines by value when stock is received
+  shipping_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+  duty_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+  other_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  ordered_at TIMESTAMP,
+  received_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT purchase_orders_status_check CHECK (
+    status IN ('draft', 'ordered', 'partially_received', 'received', 'cancelled')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status, expected_at);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id SERIAL PRIMARY KEY,
+  purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  variation_option_id INTEGER REFERENCES variation_options(id),
+  quantity_ordered INTEGER NOT NULL,
+  quantity_received INTEGER NOT NULL DEFAULT 0,
+  unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+  -- Unit cost plus this line's share of the order's shipping, duty and other costs
+  landed_unit_cost DECIMAL(10,4),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT purchase_order_items_quantity_check CHECK (quantity_ordered > 0),
+  CONSTRAINT purchase_order_items_received_check CHECK (
+    quantity_received >= 0 AND quantity_received <= quantity_ordered
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_product ON purchase_order_items(product_id);
+
+-- Moving average landed cost per unit, updated on every receipt
+ALTER TABLE products ADD COLUMN IF NOT EXISTS landed_cost DECIMAL(10,4);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_suppliers_updated_at'
+  ) THEN
+    CREATE TRIGGER update_suppliers_updated_at
+        BEFORE UPDATE ON suppliers
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_purchase_orders_updated_at'
+  ) THEN
+    CREATE TRIGGER update_purchase_orders_updated_at
+        BEFORE UPDATE ON purchase_orders
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Auto-generate PO numbers the same way order numbers are
+CREATE OR REPLACE FUNCTION generate_po_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.po_number IS NULL THEN
+    NEW.po_number := 'PO-' || TO_CHAR(CURRENT_TIMESTAMP, 'YYYYMMDD') || '-' || LPAD(NEW.id::TEXT, 5, '0');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'generate_po_number_trigger'
+  ) THEN
+    CREATE TRIGGER generate_po_number_trigger
+      BEFORE INSERT ON purchase_orders
+      FOR EACH ROW
+      EXECUTE FUNCTION generate_po_number();
+  END IF;
+END $$;
+
+-- Receipts are a new ledger reason
+ALTER TABLE inventory_movements DROP CONSTRAINT IF EXISTS inventory_movements_reason_check;
+ALTER TABLE inventory_movements ADD CONSTRAINT inventory_movements_reason_check CHECK (
+  reason IN ('sale', 'refund', 'manual_adjustment', 'import', 'reservation_expiry', 'cycle_count', 'transfer',
+             'purchase_receipt')
+);
+
+-- Purchasing authorities
+INSERT INTO authorities (resource, action, description) VALUES
+  ('purchasing', 'view', 'View suppliers, purchase orders and margin reports'),
+  ('purchasing', 'manage', 'Manage suppliers, raise and receive purchase orders')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_authorities (role_id, authority_id)
+SELECT r.id, a.id
+FROM roles r
+CROSS JOIN authorities a
+WHERE r.name = 'admin'
+  AND a.resource = 'purchasing'
+ON CONFLICT (role_id, authority_id) DO NOTHING;
+
+COMMENT ON TABLE suppliers IS 'Vendors stock is purchased from';
+COMMENT ON TABLE purchase_orders IS 'Stock ordered from a supplier into a warehouse; expected_at feeds storefront restock ETAs';
+COMMENT ON COLUMN purchase_order_items.landed_unit_cost IS 'Unit cost plus allocated shipping, duty and other costs, set on first receipt';
+COMMENT ON COLUMN products.landed_cost IS 'Moving average landed cost per unit from purchase order receipts';
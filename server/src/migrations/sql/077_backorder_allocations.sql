@@ -0,0 +1,85 @@
+-- Migration: 077_backorder_allocations.sql
+-- Purpose: Backorder queue per product/variation option, allocation of arriving stock and per-line allocation status
+-- Date: 2025
+
+CREATE TABLE IF NOT EXISTS backorder_allocations (
+  id SERIAL PRIMARY KEY,
+  order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id INTEGER REFERENCES order_items(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variation_option_id INTEGER REFERENCES variation_options(id) ON DELETE CASCADE,
+  warehouse_id INTEGER NOT NULL REFERENCES warehouses(id),
+  quantity INTEGER NOT NULL,
+  quantity_allocated INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting',
+  -- Payment time of the order; the queue is served oldest first
+  queued_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  allocated_at TIMESTAMP,
+  notified_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT backorder_allocations_quantity_check CHECK (quantity > 0),
+  CONSTRAINT backorder_allocations_allocated_check CHECK (
+    quantity_allocated >= 0 AND quantity_allocated <= quantity
+  ),
+  CONSTRAINT backorder_allocations_status_check CHECK (status IN ('waiting', 'allocated', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_backorder_allocations_queue
+  ON backorder_allocations(warehouse_id, product_id, variation_option_id, queued_at)
+  WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_backorder_allocations_order ON backorder_allocations(order_id, status);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_backorder_allocations_updated_at'
+  ) THEN
+    CREATE TRIGGER update_backorder_allocations_updated_at
+        BEFORE UPDATE ON backorder_allocations
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Paid order lines are either allocated stock or waiting on the backorder queue
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS allocation_status VARCHAR(20);
+
+ALTER TABLE order_items DROP CONSTRAINT IF EXISTS order_items_allocation_status_check;
+ALTER TABLE order_items ADD CONSTRAINT order_items_allocation_status_check CHECK (
+  allocation_status IS NULL OR allocation_status IN ('allocated', 'backordered')
+);
+
+-- Customer email for backordered orders whose stock has arrived
+INSERT INTO email_templates (
+  type,
+  name,
+  description,
+  subject,
+  html_body,
+  recipient_type,
+  trigger_event,
+  is_active,
+  default_recipients
+) VALUES (
+  'order_backorder_ready',
+  'Backorder Ready to Ship',
+  'Sent to customer when all backordered items in an order have been allocated stock',
+  'Your backordered items for Order #{{order_number}} are ready to ship',
+  '<div class="email-content"><h1 style="color: #ffffff; font-size: 28px; margin: 0 0 8px 0; font-weight: 700;">Ready to Ship</h1><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Hi {{customer_name}},</p><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Good news! The backordered items in your order <strong style="color: #c5303b;">#{{order_number}}</strong> are back in stock and reserved for you. Your order is now being prepared for shipment.</p><div class="order-info"><p style="color: #cccccc; font-size: 14px; margin: 4px 0;"><strong>Items:</strong> {{backordered_items}}</p><p style="color: #cccccc; font-size: 14px; margin: 4px 0;"><strong>Order Date:</strong> {{order_date}}</p></div><p style="color: #888888; font-size: 15px; line-height: 1.6; margin-top: 32px;">We''ll send tracking details as soon as it ships.</p></div>',
+  'customer',
+  'order.backorder_ready',
+  true,
+  ARRAY[]::VARCHAR[]
+) ON CONFLICT (type) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  subject = EXCLUDED.subject,
+  html_body = EXCLUDED.html_body,
+  recipient_type = EXCLUDED.recipient_type,
+  trigger_event = EXCLUDED.trigger_event,
+  updated_at = NOW();
+
+COMMENT ON TABLE backorder_allocations IS 'Units a paid order is owed after its sale took stock below zero, filled from arriving stock in payment order';
+COMMENT ON COLUMN backorder_allocations.notified_at IS 'When the customer was told the order''s backordered items are ready to ship';
+COMMENT ON COLUMN order_items.allocation_status IS 'allocated or backordered once the order is paid; NULL before payment';
@@ -0,0 +1,82 @@
+-- Migration: 078_stock_alerts.sql
+-- Purpose: Low-stock and out-of-stock alerts per product/variation option with snooze/acknowledge and daily admin digest
+-- Date: 2025
+
+CREATE TABLE IF NOT EXISTS stock_alerts (
+  id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variation_option_id INTEGER REFERENCES variation_options(id) ON DELETE CASCADE,
+  region VARCHAR(10) NOT NULL DEFAULT 'us',
+  level VARCHAR(20) NOT NULL,
+  current_stock INTEGER NOT NULL,
+  threshold INTEGER,
+  -- Units sold per day on paid orders, as used by the stock turnover report
+  daily_velocity NUMERIC(10, 3) NOT NULL DEFAULT 0,
+  suggested_reorder INTEGER NOT NULL DEFAULT 0,
+  incoming_quantity INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'open',
+  snoozed_until TIMESTAMP,
+  acknowledged_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  acknowledged_at TIMESTAMP,
+  first_detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_notified_at TIMESTAMP,
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT stock_alerts_level_check CHECK (level IN ('low_stock', 'out_of_stock')),
+  CONSTRAINT stock_alerts_status_check CHECK (status IN ('open', 'acknowledged', 'snoozed', 'resolved')),
+  CONSTRAINT stock_alerts_region_check CHECK (region IN ('us', 'eu'))
+);
+
+-- One unresolved alert per product or option
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_alerts_active
+  ON stock_alerts(product_id, COALESCE(variation_option_id, 0))
+  WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_stock_alerts_status ON stock_alerts(status, region);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'update_stock_alerts_updated_at'
+  ) THEN
+    CREATE TRIGGER update_stock_alerts_updated_at
+        BEFORE UPDATE ON stock_alerts
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- Daily admin digest of open stock alerts
+INSERT INTO email_templates (
+  type,
+  name,
+  description,
+  subject,
+  html_body,
+  recipient_type,
+  trigger_event,
+  is_active,
+  default_recipients
+) VALUES (
+  'admin_stock_digest',
+  'Stock Alert Digest',
+  'Daily digest sent to admins listing low-stock and out-of-stock products with reorder suggestions',
+  'Stock alerts ({{region}}): {{out_of_stock_count}} out of stock, {{low_stock_count}} low',
+  '<div class="email-content"><h1 style="color: #ffffff; font-size: 28px; margin: 0 0 8px 0; font-weight: 700;">Stock Alert Digest</h1><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">{{alert_count}} items in the {{region}} store need attention as of {{digest_date}}: <strong style="color: #c5303b;">{{out_of_stock_count}} out of stock</strong> and {{low_stock_count}} low on stock.</p><table style="width: 100%; border-collapse: collapse; margin: 24px 0; color: #cccccc; font-size: 14px;"><thead><tr><th style="text-align: left; padding: 8px; border-bottom: 1px solid #333333;">Item</th><th style="text-align: left; padding: 8px; border-bottom: 1px solid #333333;">Status</th><th style="text-align: right; padding: 8px; border-bottom: 1px solid #333333;">Stock</th><th style="text-align: right; padding: 8px; border-bottom: 1px solid #333333;">Sold / day</th><th style="text-align: right; padding: 8px; border-bottom: 1px solid #333333;">Incoming</th><th style="text-align: right; padding: 8px; border-bottom: 1px solid #333333;">Reorder</th></tr></thead><tbody>{{alert_rows}}</tbody></table><p style="color: #888888; font-size: 15px; line-height: 1.6; margin-top: 32px;">Acknowledge or snooze alerts in the admin dashboard to leave them out of future digests.</p></div>',
+  'admin',
+  'admin.stock_digest',
+  true,
+  ARRAY[]::VARCHAR[]
+) ON CONFLICT (type) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  subject = EXCLUDED.subject,
+  html_body = EXCLUDED.html_body,
+  recipient_type = EXCLUDED.recipient_type,
+  trigger_event = EXCLUDED.trigger_event,
+  updated_at = NOW();
+
+COMMENT ON TABLE stock_alerts IS 'Low-stock and out-of-stock alerts raised by the daily stock alert check';
+COMMENT ON COLUMN stock_alerts.suggested_reorder IS 'Units to order to cover supplier lead time plus the cover period at the current sales velocity, less stock on open purchase orders';
+COMMENT ON COLUMN stock_alerts.snoozed_until IS 'Snoozed alerts reopen after this time if the item is still below its threshold';
@@ -0,0 +1,38 @@
+-- Migration: 079_admin_audit_log.sql
+-- Purpose: Audit trail of admin writes in admin_activity_logs (authority used, string entity ids, field diffs)
+-- Date: 2025
+
+-- Entities such as settings and email templates are keyed by strings
+ALTER TABLE admin_activity_logs ALTER COLUMN resource_id TYPE VARCHAR(100) USING resource_id::text;
+
+ALTER TABLE admin_activity_logs ADD COLUMN IF NOT EXISTS authority VARCHAR(100);
+ALTER TABLE admin_activity_logs ADD COLUMN IF NOT EXISTS changes JSONB;
+-- Kept so entries still name their actor after the user is deleted
+ALTER TABLE admin_activity_logs ADD COLUMN IF NOT EXISTS admin_email VARCHAR(255);
+
+-- Audit history outlives the users who made the changes
+ALTER TABLE admin_activity_logs ALTER COLUMN admin_id DROP NOT NULL;
+ALTER TABLE admin_activity_logs DROP CONSTRAINT IF EXISTS admin_activity_logs_admin_id_fkey;
+ALTER TABLE admin_activity_logs ADD CONSTRAINT admin_activity_logs_admin_id_fkey
+  FOREIGN KEY (admin_id) REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_admin_activity_logs_resource_created
+  ON admin_activity_logs(resource_type, created_at DESC);
+
+-- Authority for reading and exporting the audit log
+INSERT INTO authorities (resource, action, description)
+VALUES ('audit', 'view', 'View and export the admin activity audit log')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_authorities (role_id, authority_id)
+SELECT r.id, a.id
+FROM roles r
+CROSS JOIN authorities a
+WHERE r.name = 'admin'
+  AND a.resource = 'audit'
+  AND a.action = 'view'
+ON CONFLICT (role_id, authority_id) DO NOTHING;
+
+COMMENT ON COLUMN admin_activity_logs.authority IS 'Authority checked by the route that made the change; NULL for routes without an authority check';
+COMMENT ON COLUMN admin_activity_logs.changes IS 'Changed fields as {"field": {"before": ..., "after": ...}}';
+COMMENT ON COLUMN admin_activity_logs.details IS 'HTTP method and path, plus the request body for changes without an entity snapshot';
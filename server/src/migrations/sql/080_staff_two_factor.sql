@@ -0,0 +1,55 @@
+-- Migration: 080_staff_two_factor.sql
+-- Purpose: TOTP two-factor authentication for staff accounts, per-role enforcement and step-up authorities
+-- Date: 2025
+
+-- One authenticator per user; enabled_at stays NULL until the first code is confirmed
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret_encrypted TEXT NOT NULL,
+  enabled_at TIMESTAMP,
+  last_used_step BIGINT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_recovery_codes_user ON user_recovery_codes(user_id) WHERE used_at IS NULL;
+
+-- Members of these roles must enrol before any authority-guarded route will serve them
+ALTER TABLE roles ADD COLUMN IF NOT EXISTS requires_two_factor BOOLEAN NOT NULL DEFAULT false;
+-- Writes under these authorities need a fresh second factor (or password, without 2FA)
+ALTER TABLE authorities ADD COLUMN IF NOT EXISTS requires_step_up BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE roles SET requires_two_factor = true WHERE name = 'admin';
+
+-- Refunds were only guarded by requireAdmin; give them an authority so they can require step-up
+INSERT INTO authorities (resource, action, description)
+VALUES ('orders', 'refund', 'Issue and complete order refunds')
+ON CONFLICT (resource, action) DO NOTHING;
+
+INSERT INTO role_authorities (role_id, authority_id)
+SELECT r.id, a.id
+FROM roles r
+CROSS JOIN authorities a
+WHERE r.name = 'admin'
+  AND a.resource = 'orders'
+  AND a.action = 'refund'
+ON CONFLICT (role_id, authority_id) DO NOTHING;
+
+-- rbac:manage also guards region settings updates
+UPDATE authorities SET requires_step_up = true
+WHERE (resource = 'orders' AND action = 'refund')
+   OR (resource = 'rbac' AND action = 'manage');
+
+COMMENT ON TABLE user_two_factor IS 'TOTP (RFC 6238) authenticator per user; secret is AES-256-GCM encrypted';
+COMMENT ON COLUMN user_two_factor.last_used_step IS 'Last accepted 30-second time step, so a code cannot be replayed';
+COMMENT ON COLUMN user_recovery_codes.code_hash IS 'SHA-256 of the normalised one-time recovery code';
+COMMENT ON COLUMN roles.requires_two_factor IS 'Users holding this role must enrol in two-factor authentication';
+COMMENT ON COLUMN authorities.requires_step_up IS 'Writes under this authority require recent re-authentication';
@@ -0,0 +1,153 @@
+-- Migration: 081_customer_email_verification.sql
+-- Purpose: Customer email verification, re-verified email changes and account security emails
+-- Date: 2025
+
+-- New address waiting for confirmation; users.email only changes once it is verified
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pending_email VARCHAR(255);
+-- Last verification email, for the per-account resend cooldown
+ALTER TABLE users ADD COLUMN IF NOT EXISTS verification_sent_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_users_email_verification_token
+  ON users(email_verification_token) WHERE email_verification_token IS NOT NULL;
+
+-- Customers who have paid for an order have already received mail at their address
+UPDATE users u SET email_verified = true
+WHERE COALESCE(u.email_verified, false) = false
+  AND EXISTS (
+    SELECT 1 FROM orders o
+    WHERE o.user_id = u.id AND o.payment_status = 'paid'
+  );
+
+-- Existing active newsletter subscribers and wishlist users kept receiving campaign and
+-- wishlist mail before verification existed; don't cut them off now that it is required
+UPDATE users u SET email_verified = true
+WHERE COALESCE(u.email_verified, false) = false
+  AND (
+    EXISTS (
+      SELECT 1 FROM newsletter_subscriptions ns
+      WHERE LOWER(ns.email) = LOWER(u.email) AND ns.status = 'active'
+    )
+    OR EXISTS (
+      SELECT 1 FROM wishlists w WHERE w.user_id = u.id
+    )
+  );
+
+INSERT INTO email_templates (
+  type,
+  name,
+  description,
+  subject,
+  html_body,
+  recipient_type,
+  trigger_event,
+  is_active,
+  default_recipients
+) VALUES (
+  'email_verification',
+  'Verify Email Address',
+  'Sent after registration, and on request, with a link to confirm the account email address',
+  'Confirm your SimFab email address',
+  '<div class="email-content"><h1 style="color: #ffffff; font-size: 28px; margin: 0 0 8px 0; font-weight: 700;">Confirm Your Email</h1><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Hi {{customer_name}},</p><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Please confirm that this is your email address so we can send you wishlist alerts and news from SimFab.</p><div style="text-align: center; margin: 32px 0;"><a href="{{verify_url}}" style="display: inline-block; padding: 16px 32px; background-color: #c5303b; color: #ffffff; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">Confirm Email</a></div><p style="color: #888888; font-size: 15px; line-height: 1.6; margin-top: 32px;">This link expires in {{expire_hours}}. If you did not create a SimFab account, you can ignore this email.</p></div>',
+  'customer',
+  'auth.email_verification',
+  true,
+  ARRAY[]::VARCHAR[]
+) ON CONFLICT (type) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  subject = EXCLUDED.subject,
+  html_body = EXCLUDED.html_body,
+  recipient_type = EXCLUDED.recipient_type,
+  trigger_event = EXCLUDED.trigger_event,
+  updated_at = NOW();
+
+INSERT INTO email_templates (
+  type,
+  name,
+  description,
+  subject,
+  html_body,
+  recipient_type,
+  trigger_event,
+  is_active,
+  default_recipients
+) VALUES (
+  'email_change_verification',
+  'Confirm New Email Address',
+  'Sent to the new address when a customer changes their account email; the change applies once confirmed',
+  'Confirm your new SimFab email address',
+  '<div class="email-content"><h1 style="color: #ffffff; font-size: 28px; margin: 0 0 8px 0; font-weight: 700;">Confirm Your New Email</h1><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Hi {{customer_name}},</p><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">You asked to change the email address on your SimFab account to <strong style="color: #c5303b;">{{new_email}}</strong>. Confirm the change to start signing in with this address.</p><div style="text-align: center; margin: 32px 0;"><a href="{{verify_url}}" style="display: inline-block; padding: 16px 32px; background-color: #c5303b; color: #ffffff; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">Confirm New Email</a></div><p style="color: #888888; font-size: 15px; line-height: 1.6; margin-top: 32px;">This link expires in {{expire_hours}}. Until then you can keep signing in with your current address.</p></div>',
+  'customer',
+  'auth.email_change',
+  true,
+  ARRAY[]::VARCHAR[]
+) ON CONFLICT (type) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  subject = EXCLUDED.subject,
+  html_body = EXCLUDED.html_body,
+  recipient_type = EXCLUDED.recipient_type,
+  trigger_event = EXCLUDED.trigger_event,
+  updated_at = NOW();
+
+INSERT INTO email_templates (
+  type,
+  name,
+  description,
+  subject,
+  html_body,
+  recipient_type,
+  trigger_event,
+  is_active,
+  default_recipients
+) VALUES (
+  'email_changed',
+  'Email Address Changed',
+  'Security notice sent to the previous address after an account email change is confirmed',
+  'Your SimFab email address was changed',
+  '<div class="email-content"><h1 style="color: #ffffff; font-size: 28px; margin: 0 0 8px 0; font-weight: 700;">Email Address Changed</h1><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Hi {{customer_name}},</p><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">The email address on your SimFab account was changed to <strong style="color: #c5303b;">{{new_email}}</strong> on {{changed_at}}.</p><p style="color: #888888; font-size: 15px; line-height: 1.6; margin-top: 32px;">If you did not make this change, please contact us right away at info@simfab.com.</p></div>',
+  'customer',
+  'auth.email_changed',
+  true,
+  ARRAY[]::VARCHAR[]
+) ON CONFLICT (type) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  subject = EXCLUDED.subject,
+  html_body = EXCLUDED.html_body,
+  recipient_type = EXCLUDED.recipient_type,
+  trigger_event = EXCLUDED.trigger_event,
+  updated_at = NOW();
+
+INSERT INTO email_templates (
+  type,
+  name,
+  description,
+  subject,
+  html_body,
+  recipient_type,
+  trigger_event,
+  is_active,
+  default_recipients
+) VALUES (
+  'password_changed',
+  'Password Changed',
+  'Security notice sent when a customer changes their password from account settings',
+  'Your SimFab password was changed',
+  '<div class="email-content"><h1 style="color: #ffffff; font-size: 28px; margin: 0 0 8px 0; font-weight: 700;">Password Changed</h1><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Hi {{customer_name}},</p><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">The password for your SimFab account was changed on {{changed_at}}.</p><p style="color: #888888; font-size: 15px; line-height: 1.6; margin-top: 32px;">If you did not make this change, reset your password and contact us at info@simfab.com.</p></div>',
+  'customer',
+  'auth.password_changed',
+  true,
+  ARRAY[]::VARCHAR[]
+) ON CONFLICT (type) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  subject = EXCLUDED.subject,
+  html_body = EXCLUDED.html_body,
+  recipient_type = EXCLUDED.recipient_type,
+  trigger_event = EXCLUDED.trigger_event,
+  updated_at = NOW();
+
+COMMENT ON COLUMN users.email_verification_token IS 'SHA-256 of the emailed verification token (registration or email change)';
+COMMENT ON COLUMN users.pending_email IS 'Requested new email address, applied when its verification link is followed';
+COMMENT ON COLUMN users.verification_sent_at IS 'When the last verification email was sent';
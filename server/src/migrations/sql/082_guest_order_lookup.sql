@@ -0,0 +1,36 @@
+-- Migration: 082_guest_order_lookup.sql
+-- Purpose: Guest order lookup links and attaching guest orders to accounts with a verified email
+-- Date: 2025
+
+-- Lookup and claiming match guest orders by case-insensitive email
+CREATE INDEX IF NOT EXISTS idx_orders_guest_email
+  ON orders(LOWER(customer_email)) WHERE user_id IS NULL;
+
+INSERT INTO email_templates (
+  type,
+  name,
+  description,
+  subject,
+  html_body,
+  recipient_type,
+  trigger_event,
+  is_active,
+  default_recipients
+) VALUES (
+  'order_lookup_link',
+  'Guest Order Link',
+  'Sent when a guest looks up an order by number and email, with a signed link to view it',
+  'Your SimFab order #{{order_number}}',
+  '<div class="email-content"><h1 style="color: #ffffff; font-size: 28px; margin: 0 0 8px 0; font-weight: 700;">View Your Order</h1><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Hi {{customer_name}},</p><p style="color: #cccccc; font-size: 16px; line-height: 1.6;">Here is the link you requested to view order <strong style="color: #c5303b;">#{{order_number}}</strong>, including its status and tracking.</p><div style="text-align: center; margin: 32px 0;"><a href="{{order_url}}" style="display: inline-block; padding: 16px 32px; background-color: #c5303b; color: #ffffff; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">View Order</a></div><p style="color: #888888; font-size: 15px; line-height: 1.6; margin-top: 32px;">This link expires in {{expire_hours}}. Create an account with this email address to keep all your orders in one place. If you did not request this link, you can ignore this email.</p></div>',
+  'customer',
+  'order.lookup_link',
+  true,
+  ARRAY[]::VARCHAR[]
+) ON CONFLICT (type) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  subject = EXCLUDED.subject,
+  html_body = EXCLUDED.html_body,
+  recipient_type = EXCLUDED.recipient_type,
+  trigger_event = EXCLUDED.trigger_event,
+  updated_at = NOW();
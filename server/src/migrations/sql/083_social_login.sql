@@ -0,0 +1,41 @@
+-- Migration: 083_social_login.sql
+-- Purpose: Sign-in with external OAuth2/OIDC providers (Google, Discord) linked to user accounts
+-- Date: 2025
+
+-- One row per provider account linked to a user
+CREATE TABLE IF NOT EXISTS user_identities (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider VARCHAR(50) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_login_at TIMESTAMP,
+  UNIQUE(provider, subject),
+  UNIQUE(user_id, provider)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_user ON user_identities(user_id);
+
+-- Accounts created through a provider get an unusable random password until they set one
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_set BOOLEAN NOT NULL DEFAULT true;
+
+-- Provider switches are public so the login page can show the buttons; credentials are admin only
+INSERT INTO region_settings (region, setting_key, setting_value, setting_type, description, is_public) VALUES
+  ('us', 'oidc_google_enabled', 'false', 'boolean', 'Show "Sign in with Google" in the US region', true),
+  ('us', 'oidc_google_client_id', '', 'string', 'Google OAuth client ID for the US region', false),
+  ('us', 'oidc_google_client_secret', '', 'string', 'Google OAuth client secret for the US region (sensitive)', false),
+  ('us', 'oidc_discord_enabled', 'false', 'boolean', 'Show "Sign in with Discord" in the US region', true),
+  ('us', 'oidc_discord_client_id', '', 'string', 'Discord OAuth client ID for the US region', false),
+  ('us', 'oidc_discord_client_secret', '', 'string', 'Discord OAuth client secret for the US region (sensitive)', false),
+  ('eu', 'oidc_google_enabled', 'false', 'boolean', 'Show "Sign in with Google" in the EU region', true),
+  ('eu', 'oidc_google_client_id', '', 'string', 'Google OAuth client ID for the EU region', false),
+  ('eu', 'oidc_google_client_secret', '', 'string', 'Google OAuth client secret for the EU region (sensitive)', false),
+  ('eu', 'oidc_discord_enabled', 'false', 'boolean', 'Show "Sign in with Discord" in the EU region', true),
+  ('eu', 'oidc_discord_client_id', '', 'string', 'Discord OAuth client ID for the EU region', false),
+  ('eu', 'oidc_discord_client_secret', '', 'string', 'Discord OAuth client secret for the EU region (sensitive)', false)
+ON CONFLICT (region, setting_key) DO NOTHING;
+
+COMMENT ON TABLE user_identities IS 'External sign-in provider accounts (OIDC subject per provider) linked to users';
+COMMENT ON COLUMN user_identities.subject IS 'Stable provider account id (OIDC sub claim, or Discord user id)';
+COMMENT ON COLUMN users.password_set IS 'False for accounts created through a sign-in provider until the user sets a password';
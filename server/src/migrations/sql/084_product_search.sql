@@ -0,0 +1,81 @@
+-- Migration: 084_product_search.sql
+-- Purpose: Weighted full-text product search with trigram fuzzy fallback and admin-managed synonyms
+-- Date: 2025
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- categories and tags are TEXT holding JSON arrays; tolerate legacy comma-separated values
+CREATE OR REPLACE FUNCTION product_text_list(value TEXT) RETURNS TEXT[] AS $$
+BEGIN
+  IF value IS NULL OR TRIM(value) = '' THEN
+    RETURN ARRAY[]::TEXT[];
+  END IF;
+  RETURN ARRAY(SELECT jsonb_array_elements_text(value::jsonb));
+EXCEPTION WHEN others THEN
+  RETURN ARRAY(SELECT TRIM(item) FROM unnest(string_to_array(value, ',')) AS item WHERE TRIM(item) <> '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Weights: name and SKU (A) > tags and categories (B) > short description (C) > description (D)
+CREATE OR REPLACE FUNCTION product_search_document(
+  p_name TEXT,
+  p_sku TEXT,
+  p_tags TEXT,
+  p_categories TEXT,
+  p_short_description TEXT,
+  p_description TEXT
+) RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p_name, '') || ' ' || COALESCE(p_sku, '')), 'A') ||
+    setweight(to_tsvector('english',
+      array_to_string(product_text_list(p_tags), ' ') || ' ' ||
+      REPLACE(array_to_string(product_text_list(p_categories), ' '), '-', ' ')
+    ), 'B') ||
+    setweight(to_tsvector('english', REGEXP_REPLACE(COALESCE(p_short_description, ''), '<[^>]*>', ' ', 'g')), 'C') ||
+    setweight(to_tsvector('english', REGEXP_REPLACE(COALESCE(p_description, ''), '<[^>]*>', ' ', 'g')), 'D')
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION products_search_vector_update() RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := product_search_document(
+    NEW.name, NEW.sku, NEW.tags, NEW.categories, NEW.short_description, NEW.description
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS products_search_vector_trigger ON products;
+CREATE TRIGGER products_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF name, sku, tags, categories, short_description, description ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION products_search_vector_update();
+
+UPDATE products
+SET search_vector = product_search_document(name, sku, tags, categories, short_description, description);
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN (search_vector);
+
+-- Replaced by search_vector (searches never used the expression index)
+DROP INDEX IF EXISTS idx_products_search;
+
+-- Search terms expanded to alternatives, e.g. "rig" also finds "cockpit"
+CREATE TABLE IF NOT EXISTS search_synonyms (
+  id SERIAL PRIMARY KEY,
+  term VARCHAR(100) NOT NULL UNIQUE,
+  synonyms TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO search_synonyms (term, synonyms) VALUES
+  ('rig', ARRAY['cockpit']),
+  ('hotas', ARRAY['flight stick mount'])
+ON CONFLICT (term) DO NOTHING;
+
+COMMENT ON COLUMN products.search_vector IS 'Weighted full-text document maintained by products_search_vector_trigger';
+COMMENT ON TABLE search_synonyms IS 'Storefront search synonyms: a query containing term also matches each synonym';
+COMMENT ON COLUMN search_synonyms.term IS 'Lowercase word or phrase as typed by customers';
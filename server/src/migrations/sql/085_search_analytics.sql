@@ -0,0 +1,47 @@
+-- Migration: 085_search_analytics.sql
+-- Purpose: Record storefront searches and result clicks for the search report; admin-managed search redirects
+-- Date: 2025
+
+-- search_queries (migration 014) was created but never written to
+ALTER TABLE search_queries ADD COLUMN IF NOT EXISTS normalized_query TEXT;
+ALTER TABLE search_queries ADD COLUMN IF NOT EXISTS region VARCHAR(2);
+ALTER TABLE search_queries ADD COLUMN IF NOT EXISTS match_type VARCHAR(10);
+ALTER TABLE search_queries ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE search_queries
+SET normalized_query = LOWER(TRIM(REGEXP_REPLACE(query, '[^a-zA-Z0-9]+', ' ', 'g')))
+WHERE normalized_query IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_search_queries_normalized ON search_queries(normalized_query);
+CREATE INDEX IF NOT EXISTS idx_search_queries_session ON search_queries(session_id, created_at DESC);
+
+-- A result opened from a search
+CREATE TABLE IF NOT EXISTS search_query_clicks (
+  id SERIAL PRIMARY KEY,
+  search_query_id INTEGER NOT NULL REFERENCES search_queries(id) ON DELETE CASCADE,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  position INTEGER,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(search_query_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_query_clicks_product ON search_query_clicks(product_id);
+
+-- Queries sent straight to a landing page instead of the results page
+CREATE TABLE IF NOT EXISTS search_redirects (
+  id SERIAL PRIMARY KEY,
+  query VARCHAR(200) NOT NULL UNIQUE,
+  target_url TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON COLUMN search_queries.normalized_query IS 'Lowercase query words, used to group searches in the report';
+COMMENT ON COLUMN search_queries.session_id IS 'Analytics session (visitor_sessions.session_id) that searched';
+COMMENT ON TABLE search_query_clicks IS 'Search results opened by the customer, for click-through rates';
+COMMENT ON COLUMN search_query_clicks.position IS '1-based position of the product in the results';
+COMMENT ON TABLE search_redirects IS 'Storefront searches for query go to target_url';
+COMMENT ON COLUMN search_redirects.query IS 'Normalized query (lowercase words separated by single spaces)';
+COMMENT ON COLUMN search_redirects.target_url IS 'Site path (/page) or absolute https URL';
@@ -0,0 +1,39 @@
+-- Migration: 086_product_recommendations.sql
+-- Purpose: Computed and admin-curated product recommendations in product_relationships; recommendations in cart reminder emails
+-- Date: 2025
+
+-- product_relationships (migration 014) was created but never written to
+ALTER TABLE product_relationships ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'computed';
+ALTER TABLE product_relationships ADD COLUMN IF NOT EXISTS is_excluded BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE product_relationships ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE product_relationships ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE product_relationships ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'product_relationships_source_check'
+  ) THEN
+    ALTER TABLE product_relationships
+      ADD CONSTRAINT product_relationships_source_check CHECK (source IN ('computed', 'manual'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_product_relationships_lookup
+  ON product_relationships(product_id, relationship_type, score DESC);
+CREATE INDEX IF NOT EXISTS idx_product_relationships_source ON product_relationships(source);
+
+-- Product page views read by the nightly co-view computation
+CREATE INDEX IF NOT EXISTS idx_page_views_product_path
+  ON page_views(created_at, page_path) WHERE page_path LIKE '/product/%';
+
+-- Recommended products block at the end of the cart reminder emails
+UPDATE email_templates
+SET html_body = REGEXP_REPLACE(html_body, '</div>\s*$', '{{recommended_products}}</div>'),
+    updated_at = NOW()
+WHERE type IN ('cart_reminder_1day', 'cart_reminder_7days')
+  AND html_body NOT LIKE '%{{recommended_products}}%';
+
+COMMENT ON COLUMN product_relationships.source IS 'computed: rebuilt nightly from orders and product views; manual: curated by an admin, never overwritten';
+COMMENT ON COLUMN product_relationships.is_excluded IS 'Manual override that hides related_product_id from the product''s recommendations';
+COMMENT ON COLUMN product_relationships.sort_order IS 'Position of manual recommendations, shown before computed ones';
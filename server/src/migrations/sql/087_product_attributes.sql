@@ -0,0 +1,43 @@
+-- Migration: 087_product_attributes.sql
+-- Purpose: Typed product attributes defined per category (compatibility, material, colour, monitor size) and their values per product, used as catalog facets
+-- Date: 2025
+
+CREATE TABLE IF NOT EXISTS product_attributes (
+  id SERIAL PRIMARY KEY,
+  code VARCHAR(100) NOT NULL UNIQUE,
+  name VARCHAR(255) NOT NULL,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('select', 'multiselect', 'number', 'range')),
+  unit VARCHAR(20),
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  options JSONB NOT NULL DEFAULT '[]',
+  is_filterable BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS product_attribute_values (
+  id SERIAL PRIMARY KEY,
+  product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  attribute_id INTEGER NOT NULL REFERENCES product_attributes(id) ON DELETE CASCADE,
+  option_value VARCHAR(100),
+  min_value NUMERIC(12, 2),
+  max_value NUMERIC(12, 2),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK (option_value IS NOT NULL OR min_value IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_attribute_values_option
+  ON product_attribute_values(product_id, attribute_id, option_value) WHERE option_value IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_attribute_values_numeric
+  ON product_attribute_values(product_id, attribute_id) WHERE option_value IS NULL;
+CREATE INDEX IF NOT EXISTS idx_product_attribute_values_attribute
+  ON product_attribute_values(attribute_id, option_value);
+CREATE INDEX IF NOT EXISTS idx_product_attributes_categories ON product_attributes USING GIN (categories);
+
+COMMENT ON COLUMN product_attributes.code IS 'Slug used in CSV files and storefront filter URLs (attr[code]=value)';
+COMMENT ON COLUMN product_attributes.categories IS 'Category slugs the attribute applies to; empty applies to every category';
+COMMENT ON COLUMN product_attributes.options IS 'Allowed values of select and multiselect attributes: [{"value": "fanatec", "label": "Fanatec"}]';
+COMMENT ON COLUMN product_attributes.is_filterable IS 'Shown as a facet in the storefront filter sidebar';
+COMMENT ON COLUMN product_attribute_values.option_value IS 'Selected option (select and multiselect); one row per option';
+COMMENT ON COLUMN product_attribute_values.min_value IS 'Number attributes store the value in min_value and max_value; range attributes store the span';
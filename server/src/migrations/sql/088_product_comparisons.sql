@@ -0,0 +1,24 @@
+-- Migration: 088_product_comparisons.sql
+-- Purpose: Storefront compare tray, kept per guest session or per customer account
+-- Date: 2025
+
+CREATE TABLE IF NOT EXISTS product_comparisons (
+  id SERIAL PRIMARY KEY,
+  session_id VARCHAR(255),
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  product_ids INTEGER[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT product_comparisons_owner_check CHECK (session_id IS NOT NULL OR user_id IS NOT NULL),
+  CONSTRAINT product_comparisons_size_check CHECK (COALESCE(array_length(product_ids, 1), 0) <= 4)
+);
+
+-- One list per customer, and one per guest session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_comparisons_user
+  ON product_comparisons(user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_comparisons_session
+  ON product_comparisons(session_id) WHERE user_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_product_comparisons_updated ON product_comparisons(updated_at);
+
+COMMENT ON TABLE product_comparisons IS 'Products a shopper put in the compare tray; a guest list moves to the account on login';
+COMMENT ON COLUMN product_comparisons.product_ids IS 'Compared products in the order they were added, at most 4';
@@ -5,6 +5,7 @@ export interface Role {
   id: number;
   name: string;
   description?: string;
+  requires_two_factor: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -14,6 +15,7 @@ export interface Authority {
   description?: string;
   resource: string;
   action: string;
+  requires_step_up: boolean;
   created_at: string;
 }
 
@@ -184,6 +186,23 @@ class RBACModel {
     return result.rows;
   }
 
+  // Two-factor policy methods
+  async setRoleRequiresTwoFactor(roleId: number, required: boolean): Promise<Role | null> {
+    const result = await this.pool.query(
+      'UPDATE roles SET requires_two_factor = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *',
+      [roleId, required]
+    );
+    return result.rows[0] || null;
+  }
+
+  async setAuthorityRequiresStepUp(authorityId: number, required: boolean): Promise<Authority | null> {
+    const result = await this.pool.query(
+      'UPDATE authorities SET requires_step_up = $2 WHERE id = $1 RETURNING *',
+      [authorityId, required]
+    );
+    return result.rows[0] || null;
+  }
+
   // Role-Authority relationship methods
   async assignAuthorityToRole(roleId: number, authorityId: number): Promise<void> {
     await this.pool.query(
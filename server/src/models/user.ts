@@ -6,6 +6,9 @@ export interface User {
   password: string;
   first_name: string;
   last_name: string;
+  email_verified?: boolean;
+  pending_email?: string | null;
+  password_set?: boolean;
   created_at?: string;
   updated_at?: string;
 }
@@ -181,7 +184,7 @@ class UserModel {
     try {
       await this.pool.query(`
         UPDATE users 
-        SET password = $1, updated_at = CURRENT_TIMESTAMP 
+        SET password = $1, password_set = true, updated_at = CURRENT_TIMESTAMP 
         WHERE id = $2
       `, [hashedPassword, id]);
     } catch (err) {
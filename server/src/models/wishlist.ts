@@ -342,7 +342,7 @@ class WishlistModel {
   }
 
   /**
-   * Get products that need sale notifications
+   * Get products that need sale notifications (verified email addresses only)
    */
   async getProductsNeedingSaleNotification(): Promise<WishlistWithProduct[]> {
     const client = await this.pool.connect();
@@ -363,7 +363,9 @@ class WishlistModel {
           ) as product
         FROM wishlists w
         INNER JOIN products p ON w.product_id = p.id
+        INNER JOIN users u ON u.id = w.user_id
         WHERE w.notify_on_sale = true
+          AND u.email_verified = true
           AND COALESCE(p.is_on_sale, false) = true
           AND p.sale_price IS NOT NULL
           AND p.regular_price IS NOT NULL
@@ -395,7 +397,7 @@ class WishlistModel {
   }
 
   /**
-   * Get products that need stock notifications
+   * Get products that need stock notifications (verified email addresses only)
    */
   async getProductsNeedingStockNotification(): Promise<WishlistWithProduct[]> {
     const client = await this.pool.connect();
@@ -413,7 +415,9 @@ class WishlistModel {
           ) as product
         FROM wishlists w
         INNER JOIN products p ON w.product_id = p.id
+        INNER JOIN users u ON u.id = w.user_id
         WHERE w.notify_on_stock = true
+          AND u.email_verified = true
           AND p.in_stock = '1'
           AND COALESCE(p.stock, 0) > 0
           AND (
@@ -0,0 +1,63 @@
+/**
+ * Address Book Routes
+ * Saved shipping and billing addresses for the logged-in customer
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { AddressController } from '../controllers/addressController';
+import { requireAuth } from '../middleware/auth';
+import { validateRequest, validateQuery } from '../validators/product';
+import { createAddressSchema, updateAddressSchema, addressQuerySchema } from '../validators/address';
+
+export const createAddressRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new AddressController(pool);
+
+  // All routes require authentication
+  router.use(requireAuth);
+
+  /**
+   * @route   GET /api/auth/addresses
+   * @desc    List saved addresses (optionally filtered by type)
+   * @access  Private
+   */
+  router.get('/', validateQuery(addressQuerySchema), controller.listAddresses);
+
+  /**
+   * @route   POST /api/auth/addresses
+   * @desc    Save a new address
+   * @access  Private
+   */
+  router.post('/', validateRequest(createAddressSchema), controller.createAddress);
+
+  /**
+   * @route   GET /api/auth/addresses/:id
+   * @desc    Get a saved address
+   * @access  Private
+   */
+  router.get('/:id', controller.getAddress);
+
+  /**
+   * @route   PUT /api/auth/addresses/:id
+   * @desc    Update a saved address
+   * @access  Private
+   */
+  router.put('/:id', validateRequest(updateAddressSchema), controller.updateAddress);
+
+  /**
+   * @route   POST /api/auth/addresses/:id/default
+   * @desc    Make an address the default shipping or billing address
+   * @access  Private
+   */
+  router.post('/:id/default', controller.setDefaultAddress);
+
+  /**
+   * @route   DELETE /api/auth/addresses/:id
+   * @desc    Delete a saved address
+   * @access  Private
+   */
+  router.delete('/:id', controller.deleteAddress);
+
+  return router;
+};
@@ -0,0 +1,43 @@
+/**
+ * Admin Audit Log Routes
+ * Routes for reading and exporting the admin activity audit log
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { AdminAuditController } from '../../controllers/adminAuditController';
+import { validateQuery } from '../../validators/product';
+import { auditLogQuerySchema } from '../../validators/audit';
+import { requireAuthority } from '../../middleware/auth';
+import { adminRateLimiter } from '../../middleware/rateLimiter';
+
+export const createAuditLogRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new AdminAuditController(pool);
+
+  // Apply rate limiting to all admin routes
+  router.use(adminRateLimiter);
+
+  /**
+   * @route   GET /api/admin/audit-log
+   * @desc    List audit entries (filter by user, entity, action, date, free text)
+   * @access  Admin with audit:view authority
+   */
+  router.get('/', requireAuthority('audit:view'), validateQuery(auditLogQuerySchema), controller.listLogs);
+
+  /**
+   * @route   GET /api/admin/audit-log/export
+   * @desc    Export audit entries matching the filters as CSV
+   * @access  Admin with audit:view authority
+   */
+  router.get('/export', requireAuthority('audit:view'), validateQuery(auditLogQuerySchema), controller.exportLogs);
+
+  /**
+   * @route   GET /api/admin/audit-log/filters
+   * @desc    Entity types and users present in the log
+   * @access  Admin with audit:view authority
+   */
+  router.get('/filters', requireAuthority('audit:view'), controller.getFilterOptions);
+
+  return router;
+};
@@ -9,11 +9,13 @@ import { BundleController } from '../../controllers/admin/bundleController';
 import { validate } from '../../middleware/validation';
 import { requireAuthority } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware } from '../../middleware/audit';
 import Joi from 'joi';
 
 export const createBundleRoutes = (pool: Pool): Router => {
   const router = Router();
   const controller = new BundleController(pool);
+  const audit = createAuditMiddleware(pool);
 
   // Apply rate limiting and auth
   router.use(adminRateLimiter);
@@ -42,6 +44,7 @@ export const createBundleRoutes = (pool: Pool): Router => {
       display_name: Joi.string().optional(),
       description: Joi.string().allow('').optional()
     })),
+    audit('bundle_item', { table: 'product_bundle_items', idParam: 'itemId' }),
     controller.addBundleItem
   );
 
@@ -61,6 +64,7 @@ export const createBundleRoutes = (pool: Pool): Router => {
       description: Joi.string().allow('').optional(),
       sort_order: Joi.number().integer().optional()
     })),
+    audit('bundle_item', { table: 'product_bundle_items', idParam: 'itemId' }),
     controller.updateBundleItem
   );
 
@@ -69,7 +73,11 @@ export const createBundleRoutes = (pool: Pool): Router => {
    * @desc    Remove item from bundle
    * @access  Admin
    */
-  router.delete('/products/:productId/bundle-items/:itemId', controller.removeBundleItem);
+  router.delete(
+    '/products/:productId/bundle-items/:itemId',
+    audit('bundle_item', { table: 'product_bundle_items', idParam: 'itemId' }),
+    controller.removeBundleItem
+  );
 
   /**
    * @route   POST /api/admin/products/:productId/bundle-items/reorder
@@ -82,6 +90,7 @@ export const createBundleRoutes = (pool: Pool): Router => {
       itemIds: Joi.array().items(Joi.number()).required(),
       itemType: Joi.string().valid('required', 'optional').required()
     })),
+    audit('product', { idParam: 'productId', action: 'product.bundle_items_reorder' }),
     controller.reorderBundleItems
   );
 
@@ -8,10 +8,12 @@ import { Pool } from 'pg';
 import { AdminCouponController } from '../../controllers/adminCouponController';
 import { requireAuthority } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware } from '../../middleware/audit';
 
 export const createAdminCouponRoutes = (pool: Pool): Router => {
   const router = Router();
   const controller = new AdminCouponController(pool);
+  const audit = createAuditMiddleware(pool);
 
   // Apply rate limiting to all admin routes
   router.use(adminRateLimiter);
@@ -58,6 +60,7 @@ export const createAdminCouponRoutes = (pool: Pool): Router => {
   router.post(
     '/',
     requireAuthority('coupons:create'),
+    audit('coupon', { table: 'coupons' }),
     controller.createCoupon
   );
 
@@ -69,6 +72,7 @@ export const createAdminCouponRoutes = (pool: Pool): Router => {
   router.put(
     '/:id',
     requireAuthority('coupons:edit'),
+    audit('coupon', { table: 'coupons' }),
     controller.updateCoupon
   );
 
@@ -80,6 +84,7 @@ export const createAdminCouponRoutes = (pool: Pool): Router => {
   router.delete(
     '/:id',
     requireAuthority('coupons:delete'),
+    audit('coupon', { table: 'coupons' }),
     controller.deleteCoupon
   );
 
@@ -7,11 +7,13 @@ import { Router } from 'express';
 import { AdminEmailController } from '../../controllers/adminEmailController';
 import { requireAuthority } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware } from '../../middleware/audit';
 import { Pool } from 'pg';
 
 export function createEmailTemplateRoutes(pool: Pool): Router {
   const router = Router();
   const controller = new AdminEmailController(pool);
+  const audit = createAuditMiddleware(pool);
 
   // Apply rate limiting to all admin routes
   router.use(adminRateLimiter);
@@ -35,6 +37,7 @@ export function createEmailTemplateRoutes(pool: Pool): Router {
   router.post(
     '/email-templates',
     requireAuthority('emails:manage'),
+    audit('email_template', { table: 'email_templates', idParam: 'type', idColumn: 'type' }),
     controller.createTemplate.bind(controller)
   );
 
@@ -57,6 +60,7 @@ export function createEmailTemplateRoutes(pool: Pool): Router {
   router.put(
     '/email-templates/:type',
     requireAuthority('emails:manage'),
+    audit('email_template', { table: 'email_templates', idParam: 'type', idColumn: 'type' }),
     controller.updateTemplate.bind(controller)
   );
 
@@ -68,6 +72,7 @@ export function createEmailTemplateRoutes(pool: Pool): Router {
   router.post(
     '/email-templates/:type/test',
     requireAuthority('emails:manage'),
+    audit('email_template', { idParam: 'type', action: 'email_template.test_send' }),
     controller.sendTestEmail.bind(controller)
   );
 
@@ -93,6 +98,29 @@ export function createEmailTemplateRoutes(pool: Pool): Router {
     controller.getEmailStats.bind(controller)
   );
 
+  /**
+   * @route   GET /api/admin/email-queue
+   * @desc    Get queued emails by status (defaults to dead-lettered) with queue counts
+   * @access  Admin with emails:view authority
+   */
+  router.get(
+    '/email-queue',
+    requireAuthority('emails:view'),
+    controller.getEmailQueue.bind(controller)
+  );
+
+  /**
+   * @route   POST /api/admin/email-queue/:id/requeue
+   * @desc    Requeue a dead-lettered email
+   * @access  Admin with emails:manage authority
+   */
+  router.post(
+    '/email-queue/:id/requeue',
+    requireAuthority('emails:manage'),
+    audit('email_queue', { action: 'email_queue.requeue' }),
+    controller.requeueEmail.bind(controller)
+  );
+
   return router;
 }
 
@@ -6,12 +6,24 @@
 import { Router } from 'express';
 import { Pool } from 'pg';
 import { AdminOrderController } from '../../controllers/adminOrderController';
+import { AdminShipmentController } from '../../controllers/adminShipmentController';
+import { validateRequest } from '../../validators/product';
+import { createShipmentLabelSchema } from '../../validators/shipping';
+import { updateOrderStatusSchema } from '../../validators/order';
 import { requireAuthority } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware } from '../../middleware/audit';
 
 export const createAdminOrderRoutes = (pool: Pool): Router => {
   const router = Router();
   const controller = new AdminOrderController(pool);
+  const shipmentController = new AdminShipmentController(pool);
+  const audit = createAuditMiddleware(pool);
+
+  const loadOrderShipments = async (db: Pool, id: string) => {
+    const result = await db.query('SELECT * FROM shipments WHERE order_id = $1 ORDER BY id', [id]);
+    return { shipments: result.rows };
+  };
 
   // Apply rate limiting to all admin routes
   router.use(adminRateLimiter);
@@ -32,10 +44,62 @@ export const createAdminOrderRoutes = (pool: Pool): Router => {
 
   /**
    * @route   PUT /api/admin/orders/:id/status
-   * @desc    Update order status
+   * @desc    Move the order to another status and/or update its tracking number and notes
    * @access  Admin with orders:manage authority
    */
-  router.put('/:id/status', requireAuthority('orders:manage'), controller.updateStatus);
+  router.put(
+    '/:id/status',
+    requireAuthority('orders:manage'),
+    validateRequest(updateOrderStatusSchema),
+    audit('order', { table: 'orders', action: 'order.status_update' }),
+    controller.updateStatus
+  );
+
+  /**
+   * @route   GET /api/admin/orders/:id/history
+   * @desc    Status transitions and notes of the order, oldest first
+   * @access  Admin with orders:view authority
+   */
+  router.get('/:id/history', requireAuthority('orders:view'), controller.getStatusHistory);
+
+  /**
+   * @route   GET /api/admin/orders/:id/shipments
+   * @desc    List the order's shipments (one per parcel)
+   * @access  Admin with orders:view authority
+   */
+  router.get('/:id/shipments', requireAuthority('orders:view'), shipmentController.listShipments);
+
+  /**
+   * @route   POST /api/admin/orders/:id/shipments
+   * @desc    Create a FedEx shipment and labels for a paid order
+   * @access  Admin with orders:manage authority
+   */
+  router.post(
+    '/:id/shipments',
+    requireAuthority('orders:manage'),
+    validateRequest(createShipmentLabelSchema),
+    audit('order', { load: loadOrderShipments, action: 'order.shipment_create' }),
+    shipmentController.createLabel
+  );
+
+  /**
+   * @route   POST /api/admin/orders/:id/shipments/:shipmentId/void
+   * @desc    Void a shipment's labels with FedEx
+   * @access  Admin with orders:manage authority
+   */
+  router.post(
+    '/:id/shipments/:shipmentId/void',
+    requireAuthority('orders:manage'),
+    audit('order', { load: loadOrderShipments, action: 'order.shipment_void' }),
+    shipmentController.voidLabel
+  );
+
+  /**
+   * @route   GET /api/admin/orders/:id/shipments/:shipmentId/label
+   * @desc    Download a parcel's label PDF
+   * @access  Admin with orders:view authority
+   */
+  router.get('/:id/shipments/:shipmentId/label', requireAuthority('orders:view'), shipmentController.downloadLabel);
 
   return router;
 };
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { Pool } from 'pg';
 import { Phase4Controller } from '../../controllers/phase4Controller';
-import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { requireAuth, requireAdmin, requireAuthority } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
 
 export const createPhase4Routes = (pool: Pool): Router => {
@@ -14,9 +14,9 @@ export const createPhase4Routes = (pool: Pool): Router => {
   /**
    * @route   POST /api/admin/phase4/refund/advanced
    * @desc    Process advanced refund with detailed tracking
-   * @access  Admin
+   * @access  Admin with orders:refund authority
    */
-  router.post('/refund/advanced', controller.processAdvancedRefund);
+  router.post('/refund/advanced', requireAuthority('orders:refund'), controller.processAdvancedRefund);
 
   /**
    * @route   GET /api/admin/phase4/refund/analytics
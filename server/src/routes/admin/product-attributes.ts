@@ -0,0 +1,68 @@
+/**
+ * Admin Product Attribute Routes
+ * Routes for the attribute definitions behind the storefront catalog filters
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { AdminProductAttributeController } from '../../controllers/adminProductAttributeController';
+import { validateRequest, productAttributeSchema } from '../../validators/product';
+import { requireAuthority } from '../../middleware/auth';
+import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware } from '../../middleware/audit';
+
+export const createAdminProductAttributeRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new AdminProductAttributeController(pool);
+  const audit = createAuditMiddleware(pool);
+
+  // Apply rate limiting to all admin routes
+  router.use(adminRateLimiter);
+
+  /**
+   * @route   GET /api/admin/product-attributes
+   * @desc    List attribute definitions, optionally those of one category
+   * @access  Admin with products:view authority
+   */
+  router.get('/', requireAuthority('products:view'), controller.listAttributes);
+
+  /**
+   * @route   POST /api/admin/product-attributes
+   * @desc    Create attribute definition
+   * @access  Admin with products:edit authority
+   */
+  router.post(
+    '/',
+    requireAuthority('products:edit'),
+    validateRequest(productAttributeSchema),
+    audit('product_attribute', { table: 'product_attributes' }),
+    controller.createAttribute
+  );
+
+  /**
+   * @route   PUT /api/admin/product-attributes/:id
+   * @desc    Update attribute definition (values of removed options are deleted)
+   * @access  Admin with products:edit authority
+   */
+  router.put(
+    '/:id',
+    requireAuthority('products:edit'),
+    validateRequest(productAttributeSchema),
+    audit('product_attribute', { table: 'product_attributes' }),
+    controller.updateAttribute
+  );
+
+  /**
+   * @route   DELETE /api/admin/product-attributes/:id
+   * @desc    Delete attribute definition and its product values
+   * @access  Admin with products:edit authority
+   */
+  router.delete(
+    '/:id',
+    requireAuthority('products:edit'),
+    audit('product_attribute', { table: 'product_attributes' }),
+    controller.deleteAttribute
+  );
+
+  return router;
+};
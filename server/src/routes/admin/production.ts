@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { Pool } from 'pg';
 import { ProductionController } from '../../controllers/productionController';
-import { requireAuth, requireAdmin } from '../../middleware/auth';
+import { requireAuth, requireAdmin, requireAuthority } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
 
 export const createProductionRoutes = (pool: Pool): Router => {
@@ -42,16 +42,16 @@ export const createProductionRoutes = (pool: Pool): Router => {
   /**
    * @route   POST /api/admin/production/refund
    * @desc    Process a refund
-   * @access  Admin
+   * @access  Admin with orders:refund authority
    */
-  router.post('/refund', controller.processRefund);
+  router.post('/refund', requireAuthority('orders:refund'), controller.processRefund);
 
   /**
    * @route   POST /api/admin/production/refund/complete
    * @desc    Complete a refund
-   * @access  Admin
+   * @access  Admin with orders:refund authority
    */
-  router.post('/refund/complete', controller.completeRefund);
+  router.post('/refund/complete', requireAuthority('orders:refund'), controller.completeRefund);
 
   /**
    * @route   GET /api/admin/production/refund/history/:orderId
@@ -17,16 +17,42 @@ import {
   updateVariationSchema,
   updateImageSchema,
   reorderImagesSchema,
-  productQuerySchema
+  productQuerySchema,
+  productRelationshipSchema,
+  productAttributeValuesSchema
 } from '../../validators/product';
+import { replaceShippingBoxesSchema } from '../../validators/shipping';
+import { inventoryMovementQuerySchema } from '../../validators/inventory';
 import { requireAuthority } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware, loadVariationWithOptions } from '../../middleware/audit';
 
 export const createAdminProductRoutes = (pool: Pool): Router => {
   const router = Router();
   const controller = new AdminProductController(pool);
   const csvController = new AdminCSVController(pool);
   const fileUploadService = new FileUploadService();
+  const audit = createAuditMiddleware(pool);
+
+  const loadShippingBoxes = async (db: Pool, id: string) => {
+    const result = await db.query(
+      'SELECT * FROM product_shipping_boxes WHERE product_id = $1 ORDER BY id',
+      [id]
+    );
+    return { boxes: result.rows };
+  };
+
+  const loadAttributes = async (db: Pool, id: string) => {
+    const result = await db.query(
+      `SELECT pa.code, pav.option_value, pav.min_value, pav.max_value
+       FROM product_attribute_values pav
+       JOIN product_attributes pa ON pa.id = pav.attribute_id
+       WHERE pav.product_id = $1
+       ORDER BY pa.code, pav.option_value`,
+      [id]
+    );
+    return { attributes: result.rows };
+  };
 
   // Apply rate limiting to all admin routes
   router.use(adminRateLimiter);
@@ -89,6 +115,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.post(
     '/group',
     requireAuthority('products:create'),
+    audit('product_group', { action: 'product_group.create' }),
     controller.createProductGroup
   );
 
@@ -101,6 +128,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.delete(
     '/group/:groupId',
     requireAuthority('products:edit'),
+    audit('product_group', { idParam: 'groupId', action: 'product_group.break' }),
     controller.breakProductGroup
   );
 
@@ -113,6 +141,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
     '/',
     requireAuthority('products:create'),
     validateRequest(createProductSchema),
+    audit('product', { table: 'products' }),
     controller.createProduct
   );
 
@@ -125,6 +154,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
     '/:id',
     requireAuthority('products:edit'),
     validateRequest(updateProductSchema),
+    audit('product', { table: 'products' }),
     controller.updateProduct
   );
 
@@ -136,6 +166,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.delete(
     '/:id',
     requireAuthority('products:delete'),
+    audit('product', { table: 'products' }),
     controller.deleteProduct
   );
 
@@ -147,6 +178,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.post(
     '/:id/restore',
     requireAuthority('products:edit'),
+    audit('product', { table: 'products', action: 'product.restore' }),
     controller.restoreProduct
   );
 
@@ -172,6 +204,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.post(
     '/:id/variations',
     validateRequest(createVariationSchema),
+    audit('product_variation', { idParam: 'variationId', load: loadVariationWithOptions }),
     controller.createVariation
   );
 
@@ -183,6 +216,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.put(
     '/:id/variations/:variationId',
     validateRequest(updateVariationSchema),
+    audit('product_variation', { idParam: 'variationId', load: loadVariationWithOptions }),
     controller.updateVariation
   );
 
@@ -193,6 +227,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
    */
   router.delete(
     '/:id/variations/:variationId',
+    audit('product_variation', { idParam: 'variationId', load: loadVariationWithOptions }),
     controller.deleteVariation
   );
 
@@ -206,6 +241,130 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
     controller.getVariationStockSummary
   );
 
+  // ============================================================================
+  // INVENTORY LEDGER
+  // ============================================================================
+
+  /**
+   * @route   GET /api/admin/products/:id/inventory-movements
+   * @desc    Stock movement history for a product, or one of its variation options (?optionId=)
+   * @access  Admin with products:view authority
+   */
+  router.get(
+    '/:id/inventory-movements',
+    requireAuthority('products:view'),
+    validateQuery(inventoryMovementQuerySchema),
+    controller.getInventoryMovements
+  );
+
+  // ============================================================================
+  // SHIPPING BOXES
+  // ============================================================================
+
+  /**
+   * @route   GET /api/admin/products/:id/shipping-boxes
+   * @desc    Get the boxes a product (or its variation options) ships in
+   * @access  Admin with products:view authority
+   */
+  router.get(
+    '/:id/shipping-boxes',
+    requireAuthority('products:view'),
+    controller.getShippingBoxes
+  );
+
+  /**
+   * @route   PUT /api/admin/products/:id/shipping-boxes
+   * @desc    Replace the product's box list
+   * @access  Admin with products:edit authority
+   */
+  router.put(
+    '/:id/shipping-boxes',
+    requireAuthority('products:edit'),
+    validateRequest(replaceShippingBoxesSchema),
+    audit('product', { load: loadShippingBoxes, action: 'product.shipping_boxes_update' }),
+    controller.updateShippingBoxes
+  );
+
+  // ============================================================================
+  // ATTRIBUTES
+  // ============================================================================
+
+  /**
+   * @route   GET /api/admin/products/:id/attributes
+   * @desc    Attribute values of a product (wheel base brand, material, monitor size)
+   * @access  Admin with products:view authority
+   */
+  router.get(
+    '/:id/attributes',
+    requireAuthority('products:view'),
+    controller.getProductAttributes
+  );
+
+  /**
+   * @route   PUT /api/admin/products/:id/attributes
+   * @desc    Replace the attribute values of a product and its other-region listing
+   * @access  Admin with products:edit authority
+   */
+  router.put(
+    '/:id/attributes',
+    requireAuthority('products:edit'),
+    validateRequest(productAttributeValuesSchema),
+    audit('product', { load: loadAttributes, action: 'product.attributes_update' }),
+    controller.updateProductAttributes
+  );
+
+  // ============================================================================
+  // RECOMMENDATIONS
+  // ============================================================================
+
+  /**
+   * @route   POST /api/admin/products/recommendations/recompute
+   * @desc    Rebuild computed recommendations now instead of waiting for the nightly job
+   * @access  Admin with products:edit authority
+   */
+  router.post(
+    '/recommendations/recompute',
+    requireAuthority('products:edit'),
+    audit('product_relationship', { action: 'product_relationship.recompute' }),
+    controller.recomputeRecommendations
+  );
+
+  /**
+   * @route   GET /api/admin/products/:id/recommendations
+   * @desc    Computed and curated recommendations of a product
+   * @access  Admin with products:view authority
+   */
+  router.get(
+    '/:id/recommendations',
+    requireAuthority('products:view'),
+    controller.getRecommendations
+  );
+
+  /**
+   * @route   POST /api/admin/products/:id/recommendations
+   * @desc    Pin a product into a recommendation block, or exclude it
+   * @access  Admin with products:edit authority
+   */
+  router.post(
+    '/:id/recommendations',
+    requireAuthority('products:edit'),
+    validateRequest(productRelationshipSchema),
+    audit('product_relationship', { table: 'product_relationships', idParam: 'relationshipId' }),
+    controller.saveRecommendation
+  );
+
+  /**
+   * @route   DELETE /api/admin/products/:id/recommendations/:relationshipId
+   * @desc    Remove a recommendation (computed ones return on the next rebuild)
+   * @access  Admin with products:edit authority
+   */
+  router.delete(
+    '/:id/recommendations/:relationshipId',
+    requireAuthority('products:edit'),
+    audit('product_relationship', { table: 'product_relationships', idParam: 'relationshipId' }),
+    controller.deleteRecommendation
+  );
+
   // ============================================================================
   // IMAGES
   // ============================================================================
@@ -218,6 +377,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.post(
     '/upload/image',
     fileUploadService.getImageUploadMiddleware().single('image'),
+    audit('product_image', { action: 'product_image.upload' }),
     controller.uploadVariationImage
   );
 
@@ -239,6 +399,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.post(
     '/:id/images',
     fileUploadService.getImageUploadMiddleware().single('image'),
+    audit('product_image', { table: 'product_images', idParam: 'imageId' }),
     controller.uploadImage
   );
 
@@ -250,6 +411,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.put(
     '/:id/images/:imageId',
     validateRequest(updateImageSchema),
+    audit('product_image', { table: 'product_images', idParam: 'imageId' }),
     controller.updateImage
   );
 
@@ -260,6 +422,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
    */
   router.delete(
     '/:id/images/:imageId',
+    audit('product_image', { table: 'product_images', idParam: 'imageId' }),
     controller.deleteImage
   );
 
@@ -271,6 +434,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.put(
     '/:id/images/reorder',
     validateRequest(reorderImagesSchema),
+    audit('product', { action: 'product.images_reorder' }),
     controller.reorderImages
   );
 
@@ -287,6 +451,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
     '/import',
     requireAuthority('products:create'),
     fileUploadService.getCSVUploadMiddleware().single('file'),
+    audit('product', { action: 'product.import' }),
     csvController.importProducts
   );
 
@@ -310,6 +475,7 @@ export const createAdminProductRoutes = (pool: Pool): Router => {
   router.post(
     '/migrate-images',
     requireAuthority('products:edit'),
+    audit('product', { action: 'product.migrate_images' }),
     controller.migrateImages
   );
 
@@ -0,0 +1,142 @@
+/**
+ * Admin Purchasing Routes
+ * Routes for suppliers, purchase orders, receiving and margin reporting
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { AdminPurchasingController } from '../../controllers/adminPurchasingController';
+import { validateRequest, validateQuery } from '../../validators/product';
+import {
+  createSupplierSchema,
+  updateSupplierSchema,
+  createPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  purchaseOrderQuerySchema,
+  receivePurchaseOrderSchema,
+  marginReportQuerySchema
+} from '../../validators/purchasing';
+import { requireAuthority } from '../../middleware/auth';
+import { adminRateLimiter } from '../../middleware/rateLimiter';
+
+export const createPurchasingRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new AdminPurchasingController(pool);
+
+  // Apply rate limiting to all admin routes
+  router.use(adminRateLimiter);
+
+  /**
+   * @route   GET /api/admin/purchasing/suppliers
+   * @desc    List suppliers
+   * @access  Admin with purchasing:view authority
+   */
+  router.get('/suppliers', requireAuthority('purchasing:view'), controller.listSuppliers);
+
+  /**
+   * @route   POST /api/admin/purchasing/suppliers
+   * @desc    Create supplier
+   * @access  Admin with purchasing:manage authority
+   */
+  router.post(
+    '/suppliers',
+    requireAuthority('purchasing:manage'),
+    validateRequest(createSupplierSchema),
+    controller.createSupplier
+  );
+
+  /**
+   * @route   PUT /api/admin/purchasing/suppliers/:id
+   * @desc    Update supplier
+   * @access  Admin with purchasing:manage authority
+   */
+  router.put(
+    '/suppliers/:id',
+    requireAuthority('purchasing:manage'),
+    validateRequest(updateSupplierSchema),
+    controller.updateSupplier
+  );
+
+  /**
+   * @route   GET /api/admin/purchasing/orders
+   * @desc    List purchase orders (filter by status, supplier)
+   * @access  Admin with purchasing:view authority
+   */
+  router.get(
+    '/orders',
+    requireAuthority('purchasing:view'),
+    validateQuery(purchaseOrderQuerySchema),
+    controller.listPurchaseOrders
+  );
+
+  /**
+   * @route   POST /api/admin/purchasing/orders
+   * @desc    Create draft purchase order
+   * @access  Admin with purchasing:manage authority
+   */
+  router.post(
+    '/orders',
+    requireAuthority('purchasing:manage'),
+    validateRequest(createPurchaseOrderSchema),
+    controller.createPurchaseOrder
+  );
+
+  /**
+   * @route   GET /api/admin/purchasing/orders/:id
+   * @desc    Get purchase order with its lines
+   * @access  Admin with purchasing:view authority
+   */
+  router.get('/orders/:id', requireAuthority('purchasing:view'), controller.getPurchaseOrder);
+
+  /**
+   * @route   PUT /api/admin/purchasing/orders/:id
+   * @desc    Update purchase order
+   * @access  Admin with purchasing:manage authority
+   */
+  router.put(
+    '/orders/:id',
+    requireAuthority('purchasing:manage'),
+    validateRequest(updatePurchaseOrderSchema),
+    controller.updatePurchaseOrder
+  );
+
+  /**
+   * @route   POST /api/admin/purchasing/orders/:id/place
+   * @desc    Place draft purchase order with the supplier
+   * @access  Admin with purchasing:manage authority
+   */
+  router.post('/orders/:id/place', requireAuthority('purchasing:manage'), controller.placePurchaseOrder);
+
+  /**
+   * @route   POST /api/admin/purchasing/orders/:id/receive
+   * @desc    Receive some or all outstanding stock
+   * @access  Admin with purchasing:manage authority
+   */
+  router.post(
+    '/orders/:id/receive',
+    requireAuthority('purchasing:manage'),
+    validateRequest(receivePurchaseOrderSchema),
+    controller.receivePurchaseOrder
+  );
+
+  /**
+   * @route   POST /api/admin/purchasing/orders/:id/cancel
+   * @desc    Cancel purchase order
+   * @access  Admin with purchasing:manage authority
+   */
+  router.post('/orders/:id/cancel', requireAuthority('purchasing:manage'), controller.cancelPurchaseOrder);
+
+  /**
+   * @route   GET /api/admin/purchasing/reports/margins
+   * @desc    Revenue against landed cost per product
+   * @access  Admin with purchasing:view authority
+   */
+  router.get(
+    '/reports/margins',
+    requireAuthority('purchasing:view'),
+    validateQuery(marginReportQuerySchema),
+    controller.getMarginReport
+  );
+
+  return router;
+};
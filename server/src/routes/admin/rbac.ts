@@ -9,6 +9,7 @@ import RBACModel from '../../models/rbac';
 import UserModel from '../../models/user';
 import { requireAuthority } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware } from '../../middleware/audit';
 import { validate } from '../../middleware/validation';
 import Joi from 'joi';
 
@@ -29,10 +30,50 @@ const createAuthoritySchema = Joi.object({
   description: Joi.string().max(255).optional()
 });
 
+const roleTwoFactorSchema = Joi.object({
+  requiresTwoFactor: Joi.boolean().required()
+});
+
+const authorityStepUpSchema = Joi.object({
+  requiresStepUp: Joi.boolean().required()
+});
+
 export const createAdminRBACRoutes = (pool: Pool): Router => {
   const router = Router();
   const rbacModel = new RBACModel(pool);
   const userModel = new UserModel();
+  const audit = createAuditMiddleware(pool);
+
+  // Roles are audited with the authorities they grant, users with the roles they hold
+  const loadRole = async (db: Pool, id: string) => {
+    const result = await db.query(
+      `SELECT r.*,
+              COALESCE(
+                ARRAY_AGG(a.resource || ':' || a.action ORDER BY a.resource, a.action)
+                  FILTER (WHERE a.id IS NOT NULL),
+                '{}'
+              ) AS authorities
+       FROM roles r
+       LEFT JOIN role_authorities ra ON ra.role_id = r.id
+       LEFT JOIN authorities a ON a.id = ra.authority_id
+       WHERE r.id = $1
+       GROUP BY r.id`,
+      [id]
+    );
+    return result.rows[0] || null;
+  };
+
+  const loadUserRoles = async (db: Pool, id: string) => {
+    const result = await db.query(
+      `SELECT r.name
+       FROM user_roles ur
+       JOIN roles r ON r.id = ur.role_id
+       WHERE ur.user_id = $1
+       ORDER BY r.name`,
+      [id]
+    );
+    return { roles: result.rows.map((row) => row.name) };
+  };
 
   // Apply rate limiting to all admin routes
   router.use(adminRateLimiter);
@@ -79,7 +120,7 @@ export const createAdminRBACRoutes = (pool: Pool): Router => {
    * @desc    Create a new role
    * @access  Admin with rbac:manage authority
    */
-  router.post('/roles', requireAuthority('rbac:manage'), validate(createRoleSchema), async (req: Request, res: Response) => {
+  router.post('/roles', requireAuthority('rbac:manage'), validate(createRoleSchema), audit('role', { load: loadRole }), async (req: Request, res: Response) => {
     try {
       const { name, description, authorityIds = [] } = req.body;
       
@@ -141,7 +182,7 @@ export const createAdminRBACRoutes = (pool: Pool): Router => {
    * @desc    Create a new authority
    * @access  Admin with rbac:manage authority
    */
-  router.post('/authorities', requireAuthority('rbac:manage'), validate(createAuthoritySchema), async (req: Request, res: Response) => {
+  router.post('/authorities', requireAuthority('rbac:manage'), validate(createAuthoritySchema), audit('authority', { table: 'authorities' }), async (req: Request, res: Response) => {
     try {
       const { resource, action, description } = req.body;
       
@@ -203,7 +244,7 @@ export const createAdminRBACRoutes = (pool: Pool): Router => {
    * @desc    Assign role to user
    * @access  Admin with rbac:manage authority
    */
-  router.post('/users/:userId/roles', requireAuthority('rbac:manage'), validate(assignRoleSchema), async (req: Request, res: Response) => {
+  router.post('/users/:userId/roles', requireAuthority('rbac:manage'), validate(assignRoleSchema), audit('user', { idParam: 'userId', load: loadUserRoles, action: 'user.role_assign' }), async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.userId);
       const { roleId } = req.body;
@@ -253,7 +294,7 @@ export const createAdminRBACRoutes = (pool: Pool): Router => {
    * @desc    Remove role from user
    * @access  Admin with rbac:manage authority
    */
-  router.delete('/users/:userId/roles/:roleId', requireAuthority('rbac:manage'), async (req: Request, res: Response) => {
+  router.delete('/users/:userId/roles/:roleId', requireAuthority('rbac:manage'), audit('user', { idParam: 'userId', load: loadUserRoles, action: 'user.role_remove' }), async (req: Request, res: Response) => {
     try {
       const userId = parseInt(req.params.userId);
       const roleId = parseInt(req.params.roleId);
@@ -289,7 +330,7 @@ export const createAdminRBACRoutes = (pool: Pool): Router => {
    * @desc    Assign authority to role
    * @access  Admin with rbac:manage authority
    */
-  router.post('/roles/:roleId/authorities', requireAuthority('rbac:manage'), async (req: Request, res: Response) => {
+  router.post('/roles/:roleId/authorities', requireAuthority('rbac:manage'), audit('role', { idParam: 'roleId', load: loadRole, action: 'role.authority_grant' }), async (req: Request, res: Response) => {
     try {
       const roleId = parseInt(req.params.roleId);
       const { authorityId } = req.body;
@@ -321,7 +362,7 @@ export const createAdminRBACRoutes = (pool: Pool): Router => {
    * @desc    Remove authority from role
    * @access  Admin with rbac:manage authority
    */
-  router.delete('/roles/:roleId/authorities/:authorityId', requireAuthority('rbac:manage'), async (req: Request, res: Response) => {
+  router.delete('/roles/:roleId/authorities/:authorityId', requireAuthority('rbac:manage'), audit('role', { idParam: 'roleId', load: loadRole, action: 'role.authority_revoke' }), async (req: Request, res: Response) => {
     try {
       const roleId = parseInt(req.params.roleId);
       const authorityId = parseInt(req.params.authorityId);
@@ -348,5 +389,85 @@ export const createAdminRBACRoutes = (pool: Pool): Router => {
     }
   });
 
+  // ============================================================================
+  // TWO-FACTOR POLICY
+  // ============================================================================
+
+  /**
+   * @route   PUT /api/admin/rbac/roles/:roleId/two-factor
+   * @desc    Require (or stop requiring) two-factor authentication for members of a role
+   * @access  Admin with rbac:manage authority
+   */
+  router.put('/roles/:roleId/two-factor', requireAuthority('rbac:manage'), validate(roleTwoFactorSchema), audit('role', { idParam: 'roleId', load: loadRole, action: 'role.two_factor_update' }), async (req: Request, res: Response) => {
+    try {
+      const roleId = parseInt(req.params.roleId);
+
+      if (isNaN(roleId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid role ID'
+        });
+      }
+
+      const role = await rbacModel.setRoleRequiresTwoFactor(roleId, req.body.requiresTwoFactor);
+      if (!role) {
+        return res.status(404).json({
+          success: false,
+          error: 'Role not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: role,
+        message: 'Role two-factor requirement updated successfully'
+      });
+    } catch (error) {
+      console.error('Failed to update role two-factor requirement:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update role two-factor requirement'
+      });
+    }
+  });
+
+  /**
+   * @route   PUT /api/admin/rbac/authorities/:authorityId/step-up
+   * @desc    Require (or stop requiring) re-authentication for writes under an authority
+   * @access  Admin with rbac:manage authority
+   */
+  router.put('/authorities/:authorityId/step-up', requireAuthority('rbac:manage'), validate(authorityStepUpSchema), audit('authority', { idParam: 'authorityId', table: 'authorities', action: 'authority.step_up_update' }), async (req: Request, res: Response) => {
+    try {
+      const authorityId = parseInt(req.params.authorityId);
+
+      if (isNaN(authorityId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid authority ID'
+        });
+      }
+
+      const authority = await rbacModel.setAuthorityRequiresStepUp(authorityId, req.body.requiresStepUp);
+      if (!authority) {
+        return res.status(404).json({
+          success: false,
+          error: 'Authority not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: authority,
+        message: 'Authority step-up requirement updated successfully'
+      });
+    } catch (error) {
+      console.error('Failed to update authority step-up requirement:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update authority step-up requirement'
+      });
+    }
+  });
+
   return router;
 };
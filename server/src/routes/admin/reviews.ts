@@ -0,0 +1,69 @@
+/**
+ * Admin Review Routes
+ * Routes for the product review moderation queue
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { ReviewController } from '../../controllers/reviewController';
+import { validateRequest, validateQuery } from '../../validators/product';
+import { adminReviewQuerySchema, moderateReviewSchema } from '../../validators/review';
+import { requireAuthority } from '../../middleware/auth';
+import { adminRateLimiter } from '../../middleware/rateLimiter';
+
+export const createAdminReviewRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new ReviewController(pool);
+
+  // Apply rate limiting to all admin routes
+  router.use(adminRateLimiter);
+
+  /**
+   * @route   GET /api/admin/reviews
+   * @desc    List reviews for moderation (filter by status, product, search)
+   * @access  Admin with reviews:moderate authority
+   */
+  router.get(
+    '/',
+    requireAuthority('reviews:moderate'),
+    validateQuery(adminReviewQuerySchema),
+    controller.listReviewsForModeration
+  );
+
+  /**
+   * @route   POST /api/admin/reviews/:id/approve
+   * @desc    Approve review
+   * @access  Admin with reviews:moderate authority
+   */
+  router.post(
+    '/:id/approve',
+    requireAuthority('reviews:moderate'),
+    validateRequest(moderateReviewSchema),
+    controller.approveReview
+  );
+
+  /**
+   * @route   POST /api/admin/reviews/:id/reject
+   * @desc    Reject review
+   * @access  Admin with reviews:moderate authority
+   */
+  router.post(
+    '/:id/reject',
+    requireAuthority('reviews:moderate'),
+    validateRequest(moderateReviewSchema),
+    controller.rejectReview
+  );
+
+  /**
+   * @route   DELETE /api/admin/reviews/:id
+   * @desc    Delete review
+   * @access  Admin with reviews:moderate authority
+   */
+  router.delete(
+    '/:id',
+    requireAuthority('reviews:moderate'),
+    controller.deleteReview
+  );
+
+  return router;
+};
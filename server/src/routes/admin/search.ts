@@ -0,0 +1,131 @@
+/**
+ * Admin Search Routes
+ * Routes for storefront search configuration and the search report
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { AdminSearchController } from '../../controllers/adminSearchController';
+import {
+  validateRequest,
+  validateQuery,
+  searchSynonymSchema,
+  searchRedirectSchema,
+  searchReportQuerySchema
+} from '../../validators/product';
+import { requireAuthority } from '../../middleware/auth';
+import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware } from '../../middleware/audit';
+
+export const createAdminSearchRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new AdminSearchController(pool);
+  const audit = createAuditMiddleware(pool);
+
+  // Apply rate limiting to all admin routes
+  router.use(adminRateLimiter);
+
+  /**
+   * @route   GET /api/admin/search/report
+   * @desc    Search analytics: top, zero-result, low click-through and converting queries
+   * @access  Admin with products:view authority
+   */
+  router.get(
+    '/report',
+    requireAuthority('products:view'),
+    validateQuery(searchReportQuerySchema),
+    controller.getReport
+  );
+
+  /**
+   * @route   GET /api/admin/search/synonyms
+   * @desc    List search synonyms
+   * @access  Admin with products:view authority
+   */
+  router.get('/synonyms', requireAuthority('products:view'), controller.listSynonyms);
+
+  /**
+   * @route   POST /api/admin/search/synonyms
+   * @desc    Create search synonym
+   * @access  Admin with products:edit authority
+   */
+  router.post(
+    '/synonyms',
+    requireAuthority('products:edit'),
+    validateRequest(searchSynonymSchema),
+    audit('search_synonym', { table: 'search_synonyms' }),
+    controller.createSynonym
+  );
+
+  /**
+   * @route   PUT /api/admin/search/synonyms/:id
+   * @desc    Update search synonym
+   * @access  Admin with products:edit authority
+   */
+  router.put(
+    '/synonyms/:id',
+    requireAuthority('products:edit'),
+    validateRequest(searchSynonymSchema),
+    audit('search_synonym', { table: 'search_synonyms' }),
+    controller.updateSynonym
+  );
+
+  /**
+   * @route   DELETE /api/admin/search/synonyms/:id
+   * @desc    Delete search synonym
+   * @access  Admin with products:edit authority
+   */
+  router.delete(
+    '/synonyms/:id',
+    requireAuthority('products:edit'),
+    audit('search_synonym', { table: 'search_synonyms' }),
+    controller.deleteSynonym
+  );
+
+  /**
+   * @route   GET /api/admin/search/redirects
+   * @desc    List search redirects
+   * @access  Admin with products:view authority
+   */
+  router.get('/redirects', requireAuthority('products:view'), controller.listRedirects);
+
+  /**
+   * @route   POST /api/admin/search/redirects
+   * @desc    Create search redirect
+   * @access  Admin with products:edit authority
+   */
+  router.post(
+    '/redirects',
+    requireAuthority('products:edit'),
+    validateRequest(searchRedirectSchema),
+    audit('search_redirect', { table: 'search_redirects' }),
+    controller.createRedirect
+  );
+
+  /**
+   * @route   PUT /api/admin/search/redirects/:id
+   * @desc    Update search redirect
+   * @access  Admin with products:edit authority
+   */
+  router.put(
+    '/redirects/:id',
+    requireAuthority('products:edit'),
+    validateRequest(searchRedirectSchema),
+    audit('search_redirect', { table: 'search_redirects' }),
+    controller.updateRedirect
+  );
+
+  /**
+   * @route   DELETE /api/admin/search/redirects/:id
+   * @desc    Delete search redirect
+   * @access  Admin with products:edit authority
+   */
+  router.delete(
+    '/redirects/:id',
+    requireAuthority('products:edit'),
+    audit('search_redirect', { table: 'search_redirects' }),
+    controller.deleteRedirect
+  );
+
+  return router;
+};
@@ -3,17 +3,36 @@
  * Routes for managing region-specific settings
  */
 
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { Pool } from 'pg';
 import { AdminSettingsController } from '../../controllers/adminSettingsController';
 import { requireAuthority, loadUserAuthorities } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware } from '../../middleware/audit';
 import RBACModel from '../../models/rbac';
 
 export const createAdminSettingsRoutes = (pool: Pool): Router => {
   const router = Router();
   const controller = new AdminSettingsController(pool);
   const rbacModel = new RBACModel(pool);
+  const audit = createAuditMiddleware(pool);
+
+  // Region settings are audited as one key/value map per region
+  const loadRegionSettings = async (db: Pool, region: string) => {
+    const result = await db.query(
+      'SELECT setting_key, setting_value FROM region_settings WHERE region = $1 ORDER BY setting_key',
+      [region]
+    );
+    return Object.fromEntries(result.rows.map((row) => [row.setting_key, row.setting_value]));
+  };
+
+  const loadRegionSetting = async (db: Pool, key: string, req: Request) => {
+    const result = await db.query(
+      'SELECT * FROM region_settings WHERE region = $1 AND setting_key = $2',
+      [req.params.region, key]
+    );
+    return result.rows[0] || null;
+  };
 
   // Apply rate limiting to all admin routes
   router.use(adminRateLimiter);
@@ -50,6 +69,7 @@ export const createAdminSettingsRoutes = (pool: Pool): Router => {
   router.put(
     '/regions/:region',
     requireAuthority('rbac:manage'),
+    audit('region_settings', { idParam: 'region', load: loadRegionSettings }),
     controller.updateRegionSettings
   );
 
@@ -61,6 +81,7 @@ export const createAdminSettingsRoutes = (pool: Pool): Router => {
   router.put(
     '/regions/:region/:key',
     requireAuthority('rbac:manage'),
+    audit('region_setting', { idParam: 'key', load: loadRegionSetting }),
     controller.updateRegionSetting
   );
 
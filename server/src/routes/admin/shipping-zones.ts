@@ -0,0 +1,121 @@
+/**
+ * Admin Shipping Zone Routes
+ * Routes for managing shipping zones, their rate tables and testing rates
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { ShippingZoneController } from '../../controllers/shippingZoneController';
+import { validateRequest } from '../../validators/product';
+import {
+  createShippingZoneSchema,
+  updateShippingZoneSchema,
+  createShippingMethodSchema,
+  updateShippingMethodSchema,
+  testShippingRateSchema
+} from '../../validators/shipping';
+import { requireAuthority } from '../../middleware/auth';
+import { adminRateLimiter } from '../../middleware/rateLimiter';
+
+export const createAdminShippingZoneRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new ShippingZoneController(pool);
+
+  // Apply rate limiting to all admin routes
+  router.use(adminRateLimiter);
+
+  /**
+   * @route   GET /api/admin/shipping-zones
+   * @desc    List shipping zones in match order with their methods
+   * @access  Admin with shipping:manage authority
+   */
+  router.get(
+    '/',
+    requireAuthority('shipping:manage'),
+    controller.listZones
+  );
+
+  /**
+   * @route   POST /api/admin/shipping-zones/test-rate
+   * @desc    Show the matching zone and how each method prices a destination and cart
+   * @access  Admin with shipping:manage authority
+   */
+  router.post(
+    '/test-rate',
+    requireAuthority('shipping:manage'),
+    validateRequest(testShippingRateSchema),
+    controller.testRate
+  );
+
+  /**
+   * @route   POST /api/admin/shipping-zones
+   * @desc    Create shipping zone
+   * @access  Admin with shipping:manage authority
+   */
+  router.post(
+    '/',
+    requireAuthority('shipping:manage'),
+    validateRequest(createShippingZoneSchema),
+    controller.createZone
+  );
+
+  /**
+   * @route   PUT /api/admin/shipping-zones/methods/:methodId
+   * @desc    Update shipping method
+   * @access  Admin with shipping:manage authority
+   */
+  router.put(
+    '/methods/:methodId',
+    requireAuthority('shipping:manage'),
+    validateRequest(updateShippingMethodSchema),
+    controller.updateMethod
+  );
+
+  /**
+   * @route   DELETE /api/admin/shipping-zones/methods/:methodId
+   * @desc    Delete shipping method
+   * @access  Admin with shipping:manage authority
+   */
+  router.delete(
+    '/methods/:methodId',
+    requireAuthority('shipping:manage'),
+    controller.deleteMethod
+  );
+
+  /**
+   * @route   PUT /api/admin/shipping-zones/:id
+   * @desc    Update shipping zone
+   * @access  Admin with shipping:manage authority
+   */
+  router.put(
+    '/:id',
+    requireAuthority('shipping:manage'),
+    validateRequest(updateShippingZoneSchema),
+    controller.updateZone
+  );
+
+  /**
+   * @route   DELETE /api/admin/shipping-zones/:id
+   * @desc    Delete shipping zone and its methods
+   * @access  Admin with shipping:manage authority
+   */
+  router.delete(
+    '/:id',
+    requireAuthority('shipping:manage'),
+    controller.deleteZone
+  );
+
+  /**
+   * @route   POST /api/admin/shipping-zones/:id/methods
+   * @desc    Add shipping method to a zone
+   * @access  Admin with shipping:manage authority
+   */
+  router.post(
+    '/:id/methods',
+    requireAuthority('shipping:manage'),
+    validateRequest(createShippingMethodSchema),
+    controller.createMethod
+  );
+
+  return router;
+};
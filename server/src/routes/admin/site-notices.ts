@@ -8,10 +8,12 @@ import { Pool } from 'pg';
 import { SiteNoticeController } from '../../controllers/siteNoticeController';
 import { requireAuthority } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware } from '../../middleware/audit';
 
 export const createAdminSiteNoticeRoutes = (pool: Pool): Router => {
   const router = Router();
   const controller = new SiteNoticeController(pool);
+  const audit = createAuditMiddleware(pool);
 
   // Apply rate limiting to all admin routes
   router.use(adminRateLimiter);
@@ -33,6 +35,7 @@ export const createAdminSiteNoticeRoutes = (pool: Pool): Router => {
    */
   router.post(
     '/',
+    audit('site_notice', { table: 'site_notices' }),
     controller.createNotice
   );
 
@@ -43,6 +46,7 @@ export const createAdminSiteNoticeRoutes = (pool: Pool): Router => {
    */
   router.put(
     '/:id',
+    audit('site_notice', { table: 'site_notices' }),
     controller.updateNotice
   );
 
@@ -53,6 +57,7 @@ export const createAdminSiteNoticeRoutes = (pool: Pool): Router => {
    */
   router.delete(
     '/:id',
+    audit('site_notice', { table: 'site_notices' }),
     controller.deleteNotice
   );
 
@@ -0,0 +1,60 @@
+/**
+ * Admin Stock Alert Routes
+ * Routes for low-stock and out-of-stock alerts
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { AdminStockAlertController } from '../../controllers/adminStockAlertController';
+import { validateRequest, validateQuery } from '../../validators/product';
+import { stockAlertQuerySchema, snoozeStockAlertSchema } from '../../validators/inventory';
+import { requireAuthority } from '../../middleware/auth';
+import { adminRateLimiter } from '../../middleware/rateLimiter';
+
+export const createStockAlertRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new AdminStockAlertController(pool);
+
+  // Apply rate limiting to all admin routes
+  router.use(adminRateLimiter);
+
+  /**
+   * @route   GET /api/admin/stock-alerts
+   * @desc    List stock alerts (filter by status, region, level)
+   * @access  Admin with products:view authority
+   */
+  router.get(
+    '/',
+    requireAuthority('products:view'),
+    validateQuery(stockAlertQuerySchema),
+    controller.listAlerts
+  );
+
+  /**
+   * @route   POST /api/admin/stock-alerts/refresh
+   * @desc    Re-check stock against thresholds now
+   * @access  Admin with inventory:manage authority
+   */
+  router.post('/refresh', requireAuthority('inventory:manage'), controller.refreshAlerts);
+
+  /**
+   * @route   POST /api/admin/stock-alerts/:id/acknowledge
+   * @desc    Acknowledge alert; it leaves the digest unless the item runs out
+   * @access  Admin with inventory:manage authority
+   */
+  router.post('/:id/acknowledge', requireAuthority('inventory:manage'), controller.acknowledgeAlert);
+
+  /**
+   * @route   POST /api/admin/stock-alerts/:id/snooze
+   * @desc    Snooze alert for a number of days
+   * @access  Admin with inventory:manage authority
+   */
+  router.post(
+    '/:id/snooze',
+    requireAuthority('inventory:manage'),
+    validateRequest(snoozeStockAlertSchema),
+    controller.snoozeAlert
+  );
+
+  return router;
+};
@@ -0,0 +1,69 @@
+/**
+ * Admin Tax Rule Routes
+ * Routes for managing tax rates by jurisdiction and tax class
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { TaxController } from '../../controllers/taxController';
+import { validateRequest, validateQuery } from '../../validators/product';
+import { createTaxRuleSchema, updateTaxRuleSchema, taxRuleQuerySchema } from '../../validators/tax';
+import { requireAuthority } from '../../middleware/auth';
+import { adminRateLimiter } from '../../middleware/rateLimiter';
+
+export const createAdminTaxRuleRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new TaxController(pool);
+
+  // Apply rate limiting to all admin routes
+  router.use(adminRateLimiter);
+
+  /**
+   * @route   GET /api/admin/tax-rules
+   * @desc    List tax rules (filter by country, tax class, active)
+   * @access  Admin with tax:manage authority
+   */
+  router.get(
+    '/',
+    requireAuthority('tax:manage'),
+    validateQuery(taxRuleQuerySchema),
+    controller.listRules
+  );
+
+  /**
+   * @route   POST /api/admin/tax-rules
+   * @desc    Create tax rule
+   * @access  Admin with tax:manage authority
+   */
+  router.post(
+    '/',
+    requireAuthority('tax:manage'),
+    validateRequest(createTaxRuleSchema),
+    controller.createRule
+  );
+
+  /**
+   * @route   PUT /api/admin/tax-rules/:id
+   * @desc    Update tax rule
+   * @access  Admin with tax:manage authority
+   */
+  router.put(
+    '/:id',
+    requireAuthority('tax:manage'),
+    validateRequest(updateTaxRuleSchema),
+    controller.updateRule
+  );
+
+  /**
+   * @route   DELETE /api/admin/tax-rules/:id
+   * @desc    Delete tax rule
+   * @access  Admin with tax:manage authority
+   */
+  router.delete(
+    '/:id',
+    requireAuthority('tax:manage'),
+    controller.deleteRule
+  );
+
+  return router;
+};
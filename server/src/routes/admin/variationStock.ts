@@ -9,11 +9,18 @@ import { VariationStockController } from '../../controllers/admin/variationStock
 import { validate } from '../../middleware/validation';
 import { requireAuthority } from '../../middleware/auth';
 import { adminRateLimiter } from '../../middleware/rateLimiter';
+import { createAuditMiddleware, loadVariationWithOptions } from '../../middleware/audit';
 import Joi from 'joi';
 
 export const createVariationStockRoutes = (pool: Pool): Router => {
   const router = Router();
   const controller = new VariationStockController(pool);
+  const audit = createAuditMiddleware(pool);
+  const auditStockUpdate = audit('product_variation', {
+    idParam: 'variationId',
+    load: loadVariationWithOptions,
+    action: 'product_variation.stock_update'
+  });
 
   // Apply rate limiting and auth
   router.use(adminRateLimiter);
@@ -47,8 +54,12 @@ export const createVariationStockRoutes = (pool: Pool): Router => {
           stock_quantity: Joi.number().integer().min(0).allow(null).empty('').default(null),
           low_stock_threshold: Joi.number().integer().min(0).allow(null).empty('').default(null)
         })
-      ).min(1).required()
+      ).min(1).required(),
+      reason: Joi.string().valid('manual_adjustment', 'cycle_count').optional(),
+      note: Joi.string().max(1000).allow('', null).optional(),
+      warehouseId: Joi.number().integer().positive().allow(null).optional()
     })),
+    auditStockUpdate,
     controller.updateVariationStock
   );
 
@@ -61,9 +72,12 @@ export const createVariationStockRoutes = (pool: Pool): Router => {
     '/:variationId/stock/adjust',
     validate(Joi.object({
       optionId: Joi.number().required(),
-      adjustment: Joi.number().required(),
-      reason: Joi.string().optional()
+      adjustment: Joi.number().integer().required(),
+      reason: Joi.string().valid('manual_adjustment', 'cycle_count').optional(),
+      note: Joi.string().max(1000).allow('', null).optional(),
+      warehouseId: Joi.number().integer().positive().allow(null).optional()
     })),
+    auditStockUpdate,
     controller.adjustVariationStock
   );
 
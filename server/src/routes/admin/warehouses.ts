@@ -0,0 +1,136 @@
+/**
+ * Admin Warehouse Routes
+ * Routes for warehouses, per-location stock levels and inter-warehouse transfers
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { AdminWarehouseController } from '../../controllers/adminWarehouseController';
+import { validateRequest, validateQuery } from '../../validators/product';
+import {
+  createWarehouseSchema,
+  updateWarehouseSchema,
+  warehouseStockQuerySchema,
+  updateStockLevelSchema,
+  createStockTransferSchema,
+  stockTransferQuerySchema
+} from '../../validators/warehouse';
+import { requireAuthority } from '../../middleware/auth';
+import { adminRateLimiter } from '../../middleware/rateLimiter';
+
+export const createWarehouseRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new AdminWarehouseController(pool);
+
+  // Apply rate limiting to all admin routes
+  router.use(adminRateLimiter);
+
+  /**
+   * @route   GET /api/admin/warehouses
+   * @desc    List warehouses with stock totals
+   * @access  Admin with products:view authority
+   */
+  router.get('/', requireAuthority('products:view'), controller.listWarehouses);
+
+  /**
+   * @route   POST /api/admin/warehouses
+   * @desc    Create warehouse
+   * @access  Admin with inventory:manage authority
+   */
+  router.post(
+    '/',
+    requireAuthority('inventory:manage'),
+    validateRequest(createWarehouseSchema),
+    controller.createWarehouse
+  );
+
+  /**
+   * @route   GET /api/admin/warehouses/stock
+   * @desc    Stock of a product and its variation options at every location
+   * @access  Admin with products:view authority
+   */
+  router.get(
+    '/stock',
+    requireAuthority('products:view'),
+    validateQuery(warehouseStockQuerySchema),
+    controller.getStockLevels
+  );
+
+  /**
+   * @route   PUT /api/admin/warehouses/stock-levels
+   * @desc    Set quantity and/or low-stock threshold at one location
+   * @access  Admin with products:edit authority
+   */
+  router.put(
+    '/stock-levels',
+    requireAuthority('products:edit'),
+    validateRequest(updateStockLevelSchema),
+    controller.updateStockLevel
+  );
+
+  /**
+   * @route   GET /api/admin/warehouses/transfers
+   * @desc    List stock transfers
+   * @access  Admin with inventory:manage authority
+   */
+  router.get(
+    '/transfers',
+    requireAuthority('inventory:manage'),
+    validateQuery(stockTransferQuerySchema),
+    controller.listTransfers
+  );
+
+  /**
+   * @route   POST /api/admin/warehouses/transfers
+   * @desc    Create draft stock transfer
+   * @access  Admin with inventory:manage authority
+   */
+  router.post(
+    '/transfers',
+    requireAuthority('inventory:manage'),
+    validateRequest(createStockTransferSchema),
+    controller.createTransfer
+  );
+
+  /**
+   * @route   GET /api/admin/warehouses/transfers/:id
+   * @desc    Get stock transfer with its lines
+   * @access  Admin with inventory:manage authority
+   */
+  router.get('/transfers/:id', requireAuthority('inventory:manage'), controller.getTransfer);
+
+  /**
+   * @route   POST /api/admin/warehouses/transfers/:id/ship
+   * @desc    Ship transfer: take stock out of the source warehouse
+   * @access  Admin with inventory:manage authority
+   */
+  router.post('/transfers/:id/ship', requireAuthority('inventory:manage'), controller.shipTransfer);
+
+  /**
+   * @route   POST /api/admin/warehouses/transfers/:id/receive
+   * @desc    Receive transfer: put stock into the destination warehouse
+   * @access  Admin with inventory:manage authority
+   */
+  router.post('/transfers/:id/receive', requireAuthority('inventory:manage'), controller.receiveTransfer);
+
+  /**
+   * @route   POST /api/admin/warehouses/transfers/:id/cancel
+   * @desc    Cancel transfer, returning shipped stock to the source warehouse
+   * @access  Admin with inventory:manage authority
+   */
+  router.post('/transfers/:id/cancel', requireAuthority('inventory:manage'), controller.cancelTransfer);
+
+  /**
+   * @route   PUT /api/admin/warehouses/:id
+   * @desc    Update warehouse
+   * @access  Admin with inventory:manage authority
+   */
+  router.put(
+    '/:id',
+    requireAuthority('inventory:manage'),
+    validateRequest(updateWarehouseSchema),
+    controller.updateWarehouse
+  );
+
+  return router;
+};
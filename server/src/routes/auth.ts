@@ -1,20 +1,46 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
 import { requireAuth } from '../middleware/auth';
+import { authLimiter } from '../middleware/rateLimiter';
 
 const router = Router();
 
 // Public routes
 router.post('/register', AuthController.register);
 router.post('/login', AuthController.login);
+router.post('/login/2fa', authLimiter, AuthController.verifyLoginTwoFactor);
 router.post('/logout', AuthController.logout);
 router.post('/password-reset/request', AuthController.requestPasswordReset);
 router.post('/password-reset/reset', AuthController.resetPassword);
 router.post('/newsletter/subscribe', AuthController.subscribeNewsletter);
 router.post('/newsletter/unsubscribe', AuthController.unsubscribeNewsletter);
 router.get('/newsletter/unsubscribe', AuthController.unsubscribeByToken);
+router.post('/verify-email', authLimiter, AuthController.verifyEmail);
 
 // Protected routes
 router.get('/profile', requireAuth, AuthController.getProfile);
+router.post('/step-up', requireAuth, authLimiter, AuthController.stepUp);
+
+// Email verification, email and password changes, sessions
+router.post('/verify-email/resend', requireAuth, authLimiter, AuthController.resendVerificationEmail);
+router.post('/change-email', requireAuth, authLimiter, AuthController.requestEmailChange);
+router.delete('/change-email', requireAuth, AuthController.cancelEmailChange);
+router.post('/change-password', requireAuth, authLimiter, AuthController.changePassword);
+router.get('/sessions', requireAuth, AuthController.getSessions);
+router.post('/sessions/logout-others', requireAuth, AuthController.logoutOtherSessions);
+
+// Two-factor authentication
+router.get('/2fa', requireAuth, AuthController.getTwoFactorStatus);
+router.post('/2fa/setup', requireAuth, AuthController.setupTwoFactor);
+router.post('/2fa/enable', requireAuth, AuthController.enableTwoFactor);
+router.post('/2fa/recovery-codes', requireAuth, AuthController.regenerateRecoveryCodes);
+router.post('/2fa/disable', requireAuth, authLimiter, AuthController.disableTwoFactor);
+
+// Social sign-in (identity routes before /oauth/:provider)
+router.get('/oauth/providers', AuthController.getOAuthProviders);
+router.get('/oauth/identities', requireAuth, AuthController.getLinkedAccounts);
+router.delete('/oauth/identities/:provider', requireAuth, AuthController.unlinkAccount);
+router.get('/oauth/:provider', authLimiter, AuthController.startOAuth);
+router.get('/oauth/:provider/callback', authLimiter, AuthController.oauthCallback);
 
 export default router;
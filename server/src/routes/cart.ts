@@ -10,7 +10,8 @@ import {
   validateRequest,
   addToCartSchema,
   updateCartItemSchema,
-  applyCouponSchema
+  applyCouponSchema,
+  taxEstimateSchema
 } from '../validators/cart';
 import { apiRateLimiter } from '../middleware/rateLimiter';
 
@@ -114,6 +115,17 @@ export const createCartRoutes = (pool: Pool): Router => {
     controller.removeCoupon
   );
 
+  /**
+   * @route   POST /api/cart/tax-estimate
+   * @desc    Calculate tax and totals for a shipping destination
+   * @access  Public
+   */
+  router.post(
+    '/tax-estimate',
+    validateRequest(taxEstimateSchema),
+    controller.estimateTax
+  );
+
   /**
    * @route   POST /api/cart/merge
    * @desc    Merge guest cart with user cart (after login)
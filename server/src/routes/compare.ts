@@ -0,0 +1,68 @@
+/**
+ * Compare Routes
+ * Routes for the compare tray and side-by-side product comparison
+ */
+
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { CompareController } from '../controllers/compareController';
+import {
+  validateRequest,
+  validateQuery,
+  compareItemSchema,
+  compareQuerySchema
+} from '../validators/product';
+import { apiRateLimiter } from '../middleware/rateLimiter';
+
+export const createCompareRoutes = (pool: Pool): Router => {
+  const router = Router();
+  const controller = new CompareController(pool);
+
+  // Apply rate limiting
+  router.use(apiRateLimiter);
+
+  /**
+   * @route   GET /api/compare
+   * @desc    Get the compare tray
+   * @access  Public (session-based, kept on the account when logged in)
+   */
+  router.get('/', controller.getList);
+
+  /**
+   * @route   GET /api/compare/products
+   * @desc    Compare products side by side: specs, bundle contents, price range and rating
+   * @access  Public
+   */
+  router.get(
+    '/products',
+    validateQuery(compareQuerySchema),
+    controller.compareProducts
+  );
+
+  /**
+   * @route   POST /api/compare
+   * @desc    Add product to the compare tray (up to 4)
+   * @access  Public
+   */
+  router.post(
+    '/',
+    validateRequest(compareItemSchema),
+    controller.addProduct
+  );
+
+  /**
+   * @route   DELETE /api/compare/:productId
+   * @desc    Remove product from the compare tray
+   * @access  Public
+   */
+  router.delete('/:productId', controller.removeProduct);
+
+  /**
+   * @route   DELETE /api/compare
+   * @desc    Empty the compare tray
+   * @access  Public
+   */
+  router.delete('/', controller.clear);
+
+  return router;
+};
@@ -9,9 +9,11 @@ import { OrderController } from '../controllers/orderController';
 import {
   validateRequest,
   createOrderSchema,
-  cancelOrderSchema
+  cancelOrderSchema,
+  orderLookupSchema,
+  orderLookupVerifySchema
 } from '../validators/cart';
-import { apiRateLimiter } from '../middleware/rateLimiter';
+import { apiRateLimiter, authLimiter, orderLookupLimiter } from '../middleware/rateLimiter';
 
 export const createOrderRoutes = (pool: Pool): Router => {
   const router = Router();
@@ -41,6 +43,30 @@ export const createOrderRoutes = (pool: Pool): Router => {
     controller.debugOrder
   );
 
+  /**
+   * @route   POST /api/orders/lookup
+   * @desc    Email a link to a guest order, given its number and email
+   * @access  Public
+   */
+  router.post(
+    '/lookup',
+    orderLookupLimiter,
+    validateRequest(orderLookupSchema),
+    controller.requestOrderLookup
+  );
+
+  /**
+   * @route   POST /api/orders/lookup/verify
+   * @desc    Open a guest order from its emailed link
+   * @access  Public
+   */
+  router.post(
+    '/lookup/verify',
+    authLimiter,
+    validateRequest(orderLookupVerifySchema),
+    controller.verifyOrderLookup
+  );
+
   /**
    * @route   GET /api/orders
    * @desc    Get user's orders
@@ -54,17 +80,27 @@ export const createOrderRoutes = (pool: Pool): Router => {
   /**
    * @route   GET /api/orders/:orderNumber
    * @desc    Get order by order number (for confirmation page)
-   * @access  Public
+   * @access  Owner, staff, or the guest session that placed or looked up the order
    */
   router.get(
     '/:orderNumber',
     controller.getOrderByNumber
   );
 
+  /**
+   * @route   GET /api/orders/:orderNumber/tracking
+   * @desc    Get shipments and carrier tracking events of an order
+   * @access  Owner, staff, or the guest session that placed or looked up the order
+   */
+  router.get(
+    '/:orderNumber/tracking',
+    controller.getOrderTracking
+  );
+
   /**
    * @route   POST /api/orders/:orderNumber/cancel
    * @desc    Cancel order
-   * @access  Public (authenticated to cancel own orders)
+   * @access  Owner, or the guest session that placed or looked up the order
    */
   router.post(
     '/:orderNumber/cancel',
@@ -7,10 +7,12 @@ import { Router } from 'express';
 import { Pool } from 'pg';
 import { PageProductController } from '../controllers/pageProductController';
 import { requireAuth, requireAdmin } from '../middleware/auth';
+import { createAuditMiddleware } from '../middleware/audit';
 
 export const createPageProductRoutes = (pool: Pool): Router => {
   const router = Router();
   const controller = new PageProductController(pool);
+  const audit = createAuditMiddleware(pool);
 
   // Admin routes (require authentication and admin role)
   const adminRouter = Router();
@@ -36,35 +38,35 @@ export const createPageProductRoutes = (pool: Pool): Router => {
    * @desc    Add product to page section
    * @access  Admin
    */
-  adminRouter.post('/', controller.addProductToSection);
+  adminRouter.post('/', audit('page_product', { table: 'page_products' }), controller.addProductToSection);
 
   /**
    * @route   PUT /api/admin/page-products/:id
    * @desc    Update page product
    * @access  Admin
    */
-  adminRouter.put('/:id', controller.updatePageProduct);
+  adminRouter.put('/:id', audit('page_product', { table: 'page_products' }), controller.updatePageProduct);
 
   /**
    * @route   DELETE /api/admin/page-products/:id
    * @desc    Remove product from page section
    * @access  Admin
    */
-  adminRouter.delete('/:id', controller.removeProductFromSection);
+  adminRouter.delete('/:id', audit('page_product', { table: 'page_products' }), controller.removeProductFromSection);
 
   /**
    * @route   PUT /api/admin/page-products/bulk
    * @desc    Bulk update page products
    * @access  Admin
    */
-  adminRouter.put('/bulk', controller.bulkUpdatePageProducts);
+  adminRouter.put('/bulk', audit('page_product', { action: 'page_product.bulk_update' }), controller.bulkUpdatePageProducts);
 
   /**
    * @route   POST /api/admin/page-products/category
    * @desc    Set category for page section
    * @access  Admin
    */
-  adminRouter.post('/category', controller.setCategoryForSection);
+  adminRouter.post('/category', audit('page_product', { action: 'page_product.set_category' }), controller.setCategoryForSection);
 
   // Mount admin routes
   router.use(adminRouter);
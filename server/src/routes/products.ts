@@ -11,13 +11,26 @@ import {
   validateQuery,
   productQuerySchema,
   searchQuerySchema,
+  searchSuggestionsQuerySchema,
+  searchClickSchema,
+  recommendationQuerySchema,
   calculatePriceSchema
 } from '../validators/product';
-import { apiRateLimiter } from '../middleware/rateLimiter';
+import {
+  reviewQuerySchema,
+  createReviewSchema,
+  reviewVoteSchema
+} from '../validators/review';
+import { ReviewController } from '../controllers/reviewController';
+import { FileUploadService } from '../services/FileUploadService';
+import { requireAuth } from '../middleware/auth';
+import { apiRateLimiter, formLimiter, uploadLimiter } from '../middleware/rateLimiter';
 
 export const createProductRoutes = (pool: Pool): Router => {
   const router = Router();
   const controller = new ProductController(pool);
+  const reviewController = new ReviewController(pool);
+  const fileUploadService = new FileUploadService();
 
   // Apply rate limiting to all product routes
   router.use(apiRateLimiter);
@@ -74,6 +87,50 @@ export const createProductRoutes = (pool: Pool): Router => {
     controller.searchProducts
   );
 
+  /**
+   * @route   GET /api/products/search/suggestions
+   * @desc    Search-as-you-type product and category suggestions
+   * @access  Public
+   */
+  router.get(
+    '/search/suggestions',
+    validateQuery(searchSuggestionsQuerySchema),
+    controller.getSearchSuggestions
+  );
+
+  /**
+   * @route   POST /api/products/search/:searchId/click
+   * @desc    Record that a search result was opened (click-through analytics)
+   * @access  Public
+   */
+  router.post(
+    '/search/:searchId/click',
+    validateRequest(searchClickSchema),
+    controller.recordSearchClick
+  );
+
+  /**
+   * @route   GET /api/products/restock-etas
+   * @desc    Expected restock dates for backordered products
+   * @access  Public
+   */
+  router.get(
+    '/restock-etas',
+    controller.getRestockEtas
+  );
+
+  /**
+   * @route   GET /api/products/recommendations
+   * @desc    Frequently bought together, compatible accessories and customers also viewed
+   *          for a product page or the products in a cart
+   * @access  Public
+   */
+  router.get(
+    '/recommendations',
+    validateQuery(recommendationQuerySchema),
+    controller.getRecommendations
+  );
+
   /**
    * @route   GET /api/products/categories/:slug
    * @desc    Get products by category
@@ -168,5 +225,79 @@ export const createProductRoutes = (pool: Pool): Router => {
     controller.checkBundleItemStock
   );
 
+  // ============================================================================
+  // REVIEWS
+  // ============================================================================
+
+  /**
+   * @route   GET /api/products/:id/reviews
+   * @desc    List approved reviews with rating summary (paginated, sortable)
+   * @access  Public
+   */
+  router.get(
+    '/:id/reviews',
+    validateQuery(reviewQuerySchema),
+    reviewController.listProductReviews
+  );
+
+  /**
+   * @route   GET /api/products/:id/reviews/summary
+   * @desc    Get rating average, count and star distribution
+   * @access  Public
+   */
+  router.get(
+    '/:id/reviews/summary',
+    reviewController.getReviewSummary
+  );
+
+  /**
+   * @route   POST /api/products/:id/reviews
+   * @desc    Submit a review (held for moderation)
+   * @access  Private
+   */
+  router.post(
+    '/:id/reviews',
+    requireAuth,
+    formLimiter,
+    validateRequest(createReviewSchema),
+    reviewController.createReview
+  );
+
+  /**
+   * @route   POST /api/products/:id/reviews/:reviewId/images
+   * @desc    Upload images for the current user's review
+   * @access  Private
+   */
+  router.post(
+    '/:id/reviews/:reviewId/images',
+    requireAuth,
+    uploadLimiter,
+    fileUploadService.getImageUploadMiddleware().array('images', 5),
+    reviewController.uploadReviewImages
+  );
+
+  /**
+   * @route   POST /api/products/:id/reviews/:reviewId/vote
+   * @desc    Vote a review helpful or not helpful
+   * @access  Private
+   */
+  router.post(
+    '/:id/reviews/:reviewId/vote',
+    requireAuth,
+    validateRequest(reviewVoteSchema),
+    reviewController.voteReview
+  );
+
+  /**
+   * @route   DELETE /api/products/:id/reviews/:reviewId/vote
+   * @desc    Remove the current user's vote
+   * @access  Private
+   */
+  router.delete(
+    '/:id/reviews/:reviewId/vote',
+    requireAuth,
+    reviewController.removeVote
+  );
+
   return router;
 };
@@ -0,0 +1,188 @@
+/**
+ * Mock OIDC Issuer
+ * Minimal OpenID Connect provider for trying social sign-in locally. The authorize page
+ * lets you pick the account (subject, email, verified flag) the issuer will vouch for.
+ *
+ * Usage:
+ *   npm run oidc:mock
+ *   OIDC_MOCK_ISSUER=http://localhost:9400 npm run dev
+ * then enable a provider in Admin → Settings → Social Login with any client id and secret.
+ */
+
+import express from 'express';
+import crypto from 'crypto';
+
+const port = parseInt(process.env.OIDC_MOCK_PORT || '9400', 10);
+const issuer = `http://localhost:${port}`;
+const KEY_ID = 'mock-oidc-key';
+const CODE_TTL_MS = 5 * 60 * 1000;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const publicJwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+
+interface MockClaims {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name: string;
+  given_name: string;
+  family_name: string;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  claims: MockClaims;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, MockClaims>();
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '').replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const signIdToken = (claims: Record<string, unknown>): string => {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+};
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (_req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256']
+  });
+});
+
+app.get('/jwks', (_req, res) => {
+  res.json({ keys: [publicJwk] });
+});
+
+// Account picker standing in for the provider's login screen
+app.get('/authorize', (req, res) => {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(req.query[name])}">`)
+    .join('\n      ');
+
+  res.send(`<!doctype html>
+<html>
+  <head><title>Mock OIDC Issuer</title></head>
+  <body style="font-family: sans-serif; max-width: 420px; margin: 40px auto;">
+    <h2>Mock OIDC sign-in</h2>
+    <p>Client: ${escapeHtml(req.query.client_id)}</p>
+    <form method="post" action="/authorize">
+      ${hidden}
+      <p><label>Subject<br><input name="sub" value="mock-user-1" required></label></p>
+      <p><label>Email<br><input name="email" type="email" value="mock.user@example.com"></label></p>
+      <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+      <p><label>Name<br><input name="name" value="Mock User"></label></p>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, sub, email, email_verified, name } = req.body;
+  if (!client_id || !redirect_uri || !sub) {
+    res.status(400).send('client_id, redirect_uri and sub are required');
+    return;
+  }
+
+  const [givenName, ...familyName] = String(name || '').trim().split(/\s+/);
+  const code = crypto.randomBytes(16).toString('base64url');
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce: nonce || undefined,
+    codeChallenge: code_challenge || undefined,
+    claims: {
+      sub,
+      email,
+      email_verified: email_verified === 'on',
+      name: name || '',
+      given_name: givenName || '',
+      family_name: familyName.join(' ')
+    },
+    expiresAt: Date.now() + CODE_TTL_MS
+  });
+
+  const target = new URL(redirect_uri);
+  target.searchParams.set('code', code);
+  if (state) {
+    target.searchParams.set('state', state);
+  }
+  res.redirect(target.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type, code, client_id, redirect_uri, code_verifier } = req.body;
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (
+    grant_type !== 'authorization_code' ||
+    !pending ||
+    pending.expiresAt < Date.now() ||
+    pending.clientId !== client_id ||
+    pending.redirectUri !== redirect_uri
+  ) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+
+  if (pending.codeChallenge) {
+    const challenge = crypto.createHash('sha256').update(String(code_verifier || '')).digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+      return;
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = crypto.randomBytes(24).toString('base64url');
+  accessTokens.set(accessToken, pending.claims);
+
+  res.json({
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: 3600,
+    id_token: signIdToken({
+      ...pending.claims,
+      iss: issuer,
+      aud: client_id,
+      iat: now,
+      exp: now + 3600,
+      nonce: pending.nonce
+    })
+  });
+});
+
+app.get('/userinfo', (req, res) => {
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  const claims = accessTokens.get(token);
+  if (!claims) {
+    res.status(401).json({ error: 'invalid_token' });
+    return;
+  }
+  res.json(claims);
+});
+
+app.listen(port, () => {
+  console.log(`🔐 Mock OIDC issuer running at ${issuer}`);
+  console.log(`   Start the API with OIDC_MOCK_ISSUER=${issuer} to send every provider here`);
+});
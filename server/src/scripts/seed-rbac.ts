@@ -78,6 +78,15 @@ async function seedRBAC() {
       { resource: 'marketing', action: 'create', description: 'Create new marketing campaigns' },
       { resource: 'marketing', action: 'edit', description: 'Edit existing marketing campaigns' },
       { resource: 'marketing', action: 'send', description: 'Send marketing campaigns' },
+      
+      // Review moderation authorities
+      { resource: 'reviews', action: 'moderate', description: 'Approve, reject and delete customer product reviews' },
+      
+      // Tax authorities
+      { resource: 'tax', action: 'manage', description: 'Manage tax rules and tax-inclusive pricing' },
+      
+      // Shipping authorities
+      { resource: 'shipping', action: 'manage', description: 'Manage shipping zones, methods and rate tables' },
     ];
 
     console.log('📋 Creating authorities...');
@@ -118,7 +127,7 @@ async function seedRBAC() {
 
     // Create staff role with limited authorities
     const staffAuthorities = allAuthorities.filter(auth => 
-      ['products:view', 'orders:view', 'orders:manage', 'dashboard:view', 'emails:view'].includes(`${auth.resource}:${auth.action}`)
+      ['products:view', 'orders:view', 'orders:manage', 'dashboard:view', 'emails:view', 'reviews:moderate'].includes(`${auth.resource}:${auth.action}`)
     );
     
     let staffRole = await rbacModel.getRoleByName('staff');
@@ -0,0 +1,341 @@
+/**
+ * Account Security Service
+ * Customer email verification (on registration and when changing email), password
+ * changes, and signing out a user's other sessions from the express-session store
+ */
+
+import { Pool } from 'pg';
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { EmailService } from './EmailService';
+import {
+  AuthenticationError,
+  ConflictError,
+  ErrorCode,
+  NotFoundError,
+  RateLimitError,
+  ValidationError
+} from '../utils/errors';
+
+const VERIFICATION_TTL_HOURS = 24;
+const RESEND_COOLDOWN_SECONDS = 60;
+const MIN_PASSWORD_LENGTH = 6;
+// connect-pg-simple table configured in index.ts
+const SESSION_TABLE = 'user_sessions';
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type Region = 'us' | 'eu';
+
+export interface EmailVerificationResult {
+  userId: number;
+  email: string;
+  emailChanged: boolean;
+}
+
+export class AccountSecurityService {
+  private emailService: EmailService;
+
+  constructor(private pool: Pool, emailService?: EmailService) {
+    if (emailService) {
+      this.emailService = emailService;
+    } else {
+      this.emailService = new EmailService(pool);
+      this.emailService.initialize();
+    }
+  }
+
+  /**
+   * Email a verification link: to the pending address when an email change is waiting,
+   * otherwise to the account address. Returns false when there is nothing to verify.
+   */
+  async sendVerificationEmail(userId: number, region: Region = 'us'): Promise<boolean> {
+    const user = await this.getUser(userId);
+    if (user.email_verified && !user.pending_email) {
+      return false;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    await this.pool.query(
+      `UPDATE users
+       SET email_verification_token = $2,
+           verification_token_expires = NOW() + ($3 || ' hours')::interval,
+           verification_sent_at = NOW()
+       WHERE id = $1`,
+      [userId, this.hashToken(token), String(VERIFICATION_TTL_HOURS)]
+    );
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    const recipient = user.pending_email || user.email;
+    const customerName = user.first_name || recipient;
+
+    await this.emailService.triggerEvent(
+      user.pending_email ? 'auth.email_change' : 'auth.email_verification',
+      {
+        customer_name: customerName,
+        new_email: user.pending_email || '',
+        verify_url: `${frontendUrl}/verify-email?token=${token}`,
+        expire_hours: `${VERIFICATION_TTL_HOURS} hours`
+      },
+      {
+        customerEmail: recipient,
+        customerName
+      },
+      region
+    );
+
+    return true;
+  }
+
+  /**
+   * Mark the account address verified when ownership was proven another way
+   * (e.g. an order lookup link sent to it)
+   */
+  async markEmailVerified(userId: number): Promise<void> {
+    await this.pool.query(
+      `UPDATE users
+       SET email_verified = true, email_verification_token = NULL, verification_token_expires = NULL,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND pending_email IS NULL`,
+      [userId]
+    );
+  }
+
+  /**
+   * Resend the verification email, at most once per cooldown per account
+   */
+  async resendVerification(userId: number, region: Region = 'us'): Promise<void> {
+    const user = await this.getUser(userId);
+    if (user.email_verified && !user.pending_email) {
+      throw new ValidationError('Email address is already verified');
+    }
+
+    if (user.verification_sent_at) {
+      const elapsed = (Date.now() - new Date(user.verification_sent_at).getTime()) / 1000;
+      if (elapsed < RESEND_COOLDOWN_SECONDS) {
+        throw new RateLimitError(
+          'Please wait a minute before requesting another verification email',
+          Math.ceil(RESEND_COOLDOWN_SECONDS - elapsed)
+        );
+      }
+    }
+
+    await this.sendVerificationEmail(userId, region);
+  }
+
+  /**
+   * Follow a verification link. Confirms the account address, or applies a pending
+   * email change and notifies the previous address.
+   */
+  async verifyEmail(token: string, region: Region = 'us'): Promise<EmailVerificationResult> {
+    if (!token) {
+      throw new ValidationError('Verification token is required');
+    }
+
+    const result = await this.pool.query(
+      `SELECT id, email, pending_email, first_name
+       FROM users
+       WHERE email_verification_token = $1 AND verification_token_expires > NOW()`,
+      [this.hashToken(token)]
+    );
+    const user = result.rows[0];
+    if (!user) {
+      throw new ValidationError('Invalid or expired verification link');
+    }
+
+    if (!user.pending_email) {
+      await this.pool.query(
+        `UPDATE users
+         SET email_verified = true, email_verification_token = NULL, verification_token_expires = NULL,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [user.id]
+      );
+      return { userId: user.id, email: user.email, emailChanged: false };
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const taken = await client.query(
+        'SELECT 1 FROM users WHERE LOWER(email) = LOWER($1) AND id <> $2',
+        [user.pending_email, user.id]
+      );
+      if (taken.rows.length > 0) {
+        throw new ConflictError('An account with this email already exists', ErrorCode.EMAIL_EXISTS);
+      }
+
+      await client.query(
+        `UPDATE users
+         SET email = pending_email, pending_email = NULL, email_verified = true,
+             email_verification_token = NULL, verification_token_expires = NULL,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [user.id]
+      );
+
+      // Keep the newsletter opt-in with the account
+      await client.query(
+        `UPDATE newsletter_subscriptions SET email = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE email = $1
+           AND NOT EXISTS (SELECT 1 FROM newsletter_subscriptions WHERE email = $2)`,
+        [user.email, user.pending_email]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    try {
+      await this.emailService.triggerEvent(
+        'auth.email_changed',
+        {
+          customer_name: user.first_name || user.email,
+          new_email: user.pending_email,
+          changed_at: new Date().toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' })
+        },
+        {
+          customerEmail: user.email,
+          customerName: user.first_name || user.email
+        },
+        region
+      );
+    } catch (emailError) {
+      console.error('Failed to trigger email changed notice:', emailError);
+    }
+
+    return { userId: user.id, email: user.pending_email, emailChanged: true };
+  }
+
+  /**
+   * Start an email change. The account keeps its current address until the link sent
+   * to the new one is followed.
+   */
+  async requestEmailChange(userId: number, newEmail: string, password: string, region: Region = 'us'): Promise<void> {
+    const email = String(newEmail || '').trim();
+    if (!EMAIL_REGEX.test(email)) {
+      throw new ValidationError('Invalid email format');
+    }
+
+    const user = await this.getUser(userId);
+    if (email.toLowerCase() === String(user.email).toLowerCase()) {
+      throw new ValidationError('This is already your email address');
+    }
+    await this.checkPassword(user, password);
+
+    const taken = await this.pool.query(
+      'SELECT 1 FROM users WHERE LOWER(email) = LOWER($1) AND id <> $2',
+      [email, userId]
+    );
+    if (taken.rows.length > 0) {
+      throw new ConflictError('An account with this email already exists', ErrorCode.EMAIL_EXISTS);
+    }
+
+    await this.pool.query(
+      'UPDATE users SET pending_email = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [userId, email]
+    );
+
+    await this.sendVerificationEmail(userId, region);
+  }
+
+  /**
+   * Drop a pending email change
+   */
+  async cancelEmailChange(userId: number): Promise<void> {
+    await this.pool.query(
+      `UPDATE users
+       SET pending_email = NULL,
+           email_verification_token = CASE WHEN email_verified THEN NULL ELSE email_verification_token END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [userId]
+    );
+  }
+
+  /**
+   * Change password after checking the current one, and send a security notice
+   */
+  async changePassword(userId: number, currentPassword: string, newPassword: string, region: Region = 'us'): Promise<void> {
+    if (!newPassword || newPassword.length < MIN_PASSWORD_LENGTH) {
+      throw new ValidationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+    }
+
+    const user = await this.getUser(userId);
+    await this.checkPassword(user, currentPassword);
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    await this.pool.query(
+      'UPDATE users SET password = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [userId, hashedPassword]
+    );
+
+    try {
+      await this.emailService.triggerEvent(
+        'auth.password_changed',
+        {
+          customer_name: user.first_name || user.email,
+          changed_at: new Date().toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' })
+        },
+        {
+          customerEmail: user.email,
+          customerName: user.first_name || user.email
+        },
+        region
+      );
+    } catch (emailError) {
+      console.error('Failed to trigger password changed notice:', emailError);
+    }
+  }
+
+  /**
+   * Number of the user's other live sessions (other browsers and devices)
+   */
+  async countOtherSessions(userId: number, currentSessionId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*)::int AS count
+       FROM ${SESSION_TABLE}
+       WHERE sess->>'userId' = $1 AND sid <> $2 AND expire > NOW()`,
+      [String(userId), currentSessionId]
+    );
+    return result.rows[0].count;
+  }
+
+  /**
+   * Remove every session of the user except the current one from the session store
+   */
+  async logoutOtherSessions(userId: number, currentSessionId: string): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM ${SESSION_TABLE} WHERE sess->>'userId' = $1 AND sid <> $2`,
+      [String(userId), currentSessionId]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  private async getUser(userId: number) {
+    const result = await this.pool.query(
+      `SELECT id, email, password, first_name, email_verified, pending_email, verification_sent_at
+       FROM users WHERE id = $1`,
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('User', { userId });
+    }
+    return result.rows[0];
+  }
+
+  private async checkPassword(user: { password: string }, password: string): Promise<void> {
+    const valid = !!password && await bcrypt.compare(password, user.password);
+    if (!valid) {
+      throw new AuthenticationError('Current password is incorrect', ErrorCode.INVALID_CREDENTIALS);
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(String(token)).digest('hex');
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * Address Service
+ * Customer address book backed by user_addresses
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
+import { getCountryStateError } from '../utils/addressRules';
+import { UserAddress, AddressType, CreateAddressDto, UpdateAddressDto } from '../types/address';
+
+const ADDRESS_FIELDS: Array<keyof CreateAddressDto> = [
+  'type',
+  'first_name',
+  'last_name',
+  'company',
+  'address_line_1',
+  'address_line_2',
+  'city',
+  'state',
+  'postal_code',
+  'country',
+  'phone'
+];
+
+export class AddressService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * List a user's saved addresses, defaults first
+   */
+  async listAddresses(userId: number, type?: AddressType): Promise<UserAddress[]> {
+    const params: any[] = [userId];
+    let typeFilter = '';
+
+    if (type) {
+      params.push(type);
+      typeFilter = 'AND type = $2';
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM user_addresses
+       WHERE user_id = $1 ${typeFilter}
+       ORDER BY is_default DESC, updated_at DESC`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a single address owned by the user
+   */
+  async getAddress(userId: number, addressId: number): Promise<UserAddress> {
+    const result = await this.pool.query(
+      'SELECT * FROM user_addresses WHERE id = $1 AND user_id = $2',
+      [addressId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Address', { addressId });
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Save a new address. The first address of a type becomes its default.
+   */
+  async createAddress(userId: number, data: CreateAddressDto): Promise<UserAddress> {
+    this.assertValidRegion(data.country, data.state);
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const duplicate = await this.findDuplicate(client, userId, data);
+      if (duplicate) {
+        throw new ConflictError('This address is already saved', 'DUPLICATE_ENTRY', { addressId: duplicate.id });
+      }
+
+      const existingCount = await client.query(
+        'SELECT COUNT(*)::int AS count FROM user_addresses WHERE user_id = $1 AND type = $2',
+        [userId, data.type]
+      );
+      const isDefault = data.is_default === true || existingCount.rows[0].count === 0;
+
+      if (isDefault) {
+        await this.clearDefault(client, userId, data.type);
+      }
+
+      const result = await client.query(
+        `INSERT INTO user_addresses (
+          user_id, type, first_name, last_name, company, address_line_1, address_line_2,
+          city, state, postal_code, country, phone, is_default
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        RETURNING *`,
+        [
+          userId,
+          data.type,
+          data.first_name,
+          data.last_name,
+          data.company || null,
+          data.address_line_1,
+          data.address_line_2 || null,
+          data.city,
+          data.state,
+          data.postal_code,
+          data.country,
+          data.phone || null,
+          isDefault
+        ]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update an address. Changing the type moves it out of the old type's default slot.
+   */
+  async updateAddress(userId: number, addressId: number, data: UpdateAddressDto): Promise<UserAddress> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const current = await this.lockAddress(client, userId, addressId);
+      const merged = { ...current, ...data } as UserAddress;
+
+      this.assertValidRegion(merged.country, merged.state);
+
+      const typeChanged = merged.type !== current.type;
+      let isDefault = data.is_default ?? (typeChanged ? false : current.is_default);
+
+      if (isDefault) {
+        await this.clearDefault(client, userId, merged.type, addressId);
+      } else if (typeChanged) {
+        // Keep the rule that a user's only address of a type is its default
+        const remaining = await client.query(
+          'SELECT 1 FROM user_addresses WHERE user_id = $1 AND type = $2 AND id != $3 LIMIT 1',
+          [userId, merged.type, addressId]
+        );
+        isDefault = remaining.rows.length === 0;
+      }
+
+      const updates: string[] = [];
+      const values: any[] = [];
+      let paramIndex = 1;
+
+      for (const field of ADDRESS_FIELDS) {
+        if (data[field] !== undefined) {
+          updates.push(`${field} = $${paramIndex++}`);
+          values.push(data[field] === '' ? null : data[field]);
+        }
+      }
+
+      updates.push(`is_default = $${paramIndex++}`);
+      values.push(isDefault);
+
+      values.push(addressId, userId);
+
+      const result = await client.query(
+        `UPDATE user_addresses SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${paramIndex++} AND user_id = $${paramIndex}
+         RETURNING *`,
+        values
+      );
+
+      if (current.is_default && (typeChanged || !isDefault)) {
+        await this.promoteNextDefault(client, userId, current.type, addressId);
+      }
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Make an address the default for its type
+   */
+  async setDefaultAddress(userId: number, addressId: number): Promise<UserAddress> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const address = await this.lockAddress(client, userId, addressId);
+      await this.clearDefault(client, userId, address.type, addressId);
+
+      const result = await client.query(
+        `UPDATE user_addresses SET is_default = true, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 RETURNING *`,
+        [addressId]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Delete an address. Deleting a default promotes the most recent remaining address of that type.
+   */
+  async deleteAddress(userId: number, addressId: number): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const address = await this.lockAddress(client, userId, addressId);
+      await client.query('DELETE FROM user_addresses WHERE id = $1', [addressId]);
+
+      if (address.is_default) {
+        await this.promoteNextDefault(client, userId, address.type);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private assertValidRegion(country: string, state: string): void {
+    const error = getCountryStateError(country, state);
+    if (error) {
+      throw new ValidationError(error, { country, state });
+    }
+  }
+
+  private async lockAddress(client: PoolClient, userId: number, addressId: number): Promise<UserAddress> {
+    const result = await client.query(
+      'SELECT * FROM user_addresses WHERE id = $1 AND user_id = $2 FOR UPDATE',
+      [addressId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Address', { addressId });
+    }
+
+    return result.rows[0];
+  }
+
+  private async clearDefault(client: PoolClient, userId: number, type: AddressType, exceptId?: number): Promise<void> {
+    await client.query(
+      `UPDATE user_addresses SET is_default = false, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND type = $2 AND is_default = true AND id != $3`,
+      [userId, type, exceptId ?? 0]
+    );
+  }
+
+  private async promoteNextDefault(client: PoolClient, userId: number, type: AddressType, exceptId?: number): Promise<void> {
+    await client.query(
+      `UPDATE user_addresses SET is_default = true, updated_at = CURRENT_TIMESTAMP
+       WHERE id = (
+         SELECT id FROM user_addresses
+         WHERE user_id = $1 AND type = $2 AND id != $3
+         ORDER BY updated_at DESC, id DESC
+         LIMIT 1
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM user_addresses WHERE user_id = $1 AND type = $2 AND is_default = true
+       )`,
+      [userId, type, exceptId ?? 0]
+    );
+  }
+
+  private async findDuplicate(client: PoolClient, userId: number, data: CreateAddressDto): Promise<UserAddress | null> {
+    const result = await client.query(
+      `SELECT * FROM user_addresses
+       WHERE user_id = $1 AND type = $2
+         AND LOWER(first_name) = LOWER($3) AND LOWER(last_name) = LOWER($4)
+         AND LOWER(address_line_1) = LOWER($5)
+         AND LOWER(COALESCE(address_line_2, '')) = LOWER($6)
+         AND LOWER(city) = LOWER($7) AND state = $8
+         AND UPPER(REPLACE(postal_code, ' ', '')) = UPPER(REPLACE($9, ' ', ''))
+         AND country = $10
+       LIMIT 1`,
+      [
+        userId,
+        data.type,
+        data.first_name,
+        data.last_name,
+        data.address_line_1,
+        data.address_line_2 || '',
+        data.city,
+        data.state,
+        data.postal_code,
+        data.country
+      ]
+    );
+
+    return result.rows[0] || null;
+  }
+}
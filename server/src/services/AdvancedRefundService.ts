@@ -1,7 +1,10 @@
 import { Pool } from 'pg';
+import { randomUUID } from 'crypto';
 import { NotFoundError, ValidationError } from '../utils/errors';
 import { OrderService } from './OrderService';
 import { PaymentService } from './PaymentService';
+import { RefundService, RefundablePayment } from './RefundService';
+import { PayPalRefundGateway } from './PayPalRefundGateway';
 
 export interface AdvancedRefundRequest {
   orderId: number;
@@ -11,6 +14,7 @@ export interface AdvancedRefundRequest {
   reasonCode: 'customer_request' | 'defective_product' | 'wrong_item' | 'not_delivered' | 'duplicate_payment' | 'fraud' | 'other';
   initiatedBy: number;
   notifyCustomer: boolean;
+  idempotencyKey?: string;
   items?: Array<{
     orderItemId: number;
     quantity: number;
@@ -45,10 +49,12 @@ export interface RefundAnalytics {
 export class AdvancedRefundService {
   private orderService: OrderService;
   private paymentService: PaymentService;
+  private refundService: RefundService;
 
-  constructor(private pool: Pool) {
+  constructor(private pool: Pool, gateway?: PayPalRefundGateway) {
     this.orderService = new OrderService(pool);
     this.paymentService = new PaymentService(pool);
+    this.refundService = new RefundService(pool, gateway);
   }
 
   /**
@@ -62,20 +68,33 @@ export class AdvancedRefundService {
     status: string;
     estimatedProcessingTime: string;
     customerNotificationSent: boolean;
+    refundTransactionId?: string;
+    failureReason?: string;
   }> {
+    if (refundRequest.idempotencyKey) {
+      const existing = await this.pool.query(
+        'SELECT id FROM refunds WHERE idempotency_key = $1',
+        [refundRequest.idempotencyKey]
+      );
+      if (existing.rows.length > 0) {
+        return this.toAdvancedRefundResult(existing.rows[0].id, refundRequest, false);
+      }
+    }
+
     const client = await this.pool.connect();
+    let refund: any;
+    let order: any;
     
     try {
       await client.query('BEGIN');
 
-      // Get comprehensive order details
+      // Get comprehensive order details (locked so concurrent refunds can't over-refund)
       const orderResult = await client.query(
-        `SELECT o.*, p.status as payment_status, p.transaction_id, p.amount as payment_amount,
-                u.email as customer_email, u.first_name, u.last_name
+        `SELECT o.*, u.email as customer_email, u.first_name, u.last_name
          FROM orders o
-         LEFT JOIN payments p ON o.id = p.order_id
          LEFT JOIN users u ON o.user_id = u.id
-         WHERE o.id = $1`,
+         WHERE o.id = $1
+         FOR UPDATE OF o`,
         [refundRequest.orderId]
       );
 
@@ -83,70 +102,95 @@ export class AdvancedRefundService {
         throw new NotFoundError('Order', { orderId: refundRequest.orderId });
       }
 
-      const order = orderResult.rows[0];
+      order = orderResult.rows[0];
 
       // Validate refund eligibility
       await this.validateRefundEligibility(order, refundRequest);
 
+      const payment = await this.refundService.getRefundablePayment(client, refundRequest.orderId);
+
       // Calculate refund amount based on type
-      const refundAmount = await this.calculateRefundAmount(client, refundRequest, order);
+      const refundAmount = await this.calculateRefundAmount(client, refundRequest, order, payment);
 
       // Create detailed refund record
       const refundResult = await client.query(
         `INSERT INTO refunds (
-          order_id, payment_id, amount, reason, reason_code, refund_type,
-          status, initiated_by, notify_customer, created_at
-        ) VALUES ($1, (SELECT id FROM payments WHERE order_id = $1), $2, $3, $4, $5, 'pending', $6, $7, CURRENT_TIMESTAMP)
+          order_id, payment_id, amount, currency, reason, reason_code, refund_type,
+          status, initiated_by, notify_customer, idempotency_key, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', $8, $9, $10, CURRENT_TIMESTAMP)
         RETURNING *`,
         [
           refundRequest.orderId,
+          payment.id,
           refundAmount,
+          payment.currency,
           refundRequest.reason,
           refundRequest.reasonCode,
           refundRequest.refundType,
           refundRequest.initiatedBy,
-          refundRequest.notifyCustomer
+          refundRequest.notifyCustomer,
+          refundRequest.idempotencyKey || randomUUID()
         ]
       );
 
-      const refund = refundResult.rows[0];
+      refund = refundResult.rows[0];
 
       // Process item-specific refunds if applicable
       if (refundRequest.refundType === 'item_specific' && refundRequest.items) {
         await this.processItemSpecificRefund(client, refund.id, refundRequest.items);
       }
 
-      // Update order and payment status
-      await this.updateOrderRefundStatus(client, refundRequest.orderId, refundAmount, order.payment_amount);
-
-      // Send customer notification if requested
-      let customerNotificationSent = false;
-      if (refundRequest.notifyCustomer && order.customer_email) {
-        customerNotificationSent = await this.sendRefundNotification(order, refund);
-      }
-
       // Log refund action
-      await this.logRefundAction(client, refund.id, refundRequest);
+      await this.logRefundAction(client, refund.id, 'refund_initiated', {
+        refundType: refundRequest.refundType,
+        reasonCode: refundRequest.reasonCode,
+        notifyCustomer: refundRequest.notifyCustomer
+      });
 
       await client.query('COMMIT');
 
-      return {
-        refundId: refund.id,
-        orderId: refund.order_id,
-        refundType: refund.refund_type,
-        amount: refund.amount,
-        status: refund.status,
-        estimatedProcessingTime: this.getEstimatedProcessingTime(refundRequest.refundType),
-        customerNotificationSent
-      };
-
-    } catch (error) {
+    } catch (error: any) {
       await client.query('ROLLBACK');
+
+      // A concurrent request with the same idempotency key won the insert
+      if (error.code === '23505' && refundRequest.idempotencyKey) {
+        const existing = await this.pool.query(
+          'SELECT id FROM refunds WHERE idempotency_key = $1',
+          [refundRequest.idempotencyKey]
+        );
+        if (existing.rows.length > 0) {
+          return this.toAdvancedRefundResult(existing.rows[0].id, refundRequest, false);
+        }
+      }
+
       console.error('Advanced refund processing failed:', error);
       throw error;
     } finally {
       client.release();
     }
+
+    // Issue the refund through PayPal outside the transaction; order and payment
+    // refund status are updated once PayPal reports the refund completed
+    try {
+      const issued = await this.refundService.issueRefund(refund.id);
+      await this.logRefundAction(this.pool, refund.id, 'paypal_refund_issued', {
+        status: issued.status,
+        refundTransactionId: issued.refundTransactionId
+      });
+    } catch (error: any) {
+      await this.logRefundAction(this.pool, refund.id, 'paypal_refund_failed', {
+        message: error.message
+      });
+      throw error;
+    }
+
+    // Send customer notification if requested
+    let customerNotificationSent = false;
+    if (refundRequest.notifyCustomer && order.customer_email) {
+      customerNotificationSent = await this.sendRefundNotification(order, refund);
+    }
+
+    return this.toAdvancedRefundResult(refund.id, refundRequest, customerNotificationSent);
   }
 
   /**
@@ -362,7 +406,7 @@ export class AdvancedRefundService {
    * Validate refund eligibility
    */
   private async validateRefundEligibility(order: any, refundRequest: AdvancedRefundRequest): Promise<void> {
-    if (order.payment_status !== 'paid') {
+    if (order.payment_status !== 'paid' && order.payment_status !== 'partially_refunded') {
       throw new ValidationError('Order must be paid to process refund');
     }
 
@@ -382,52 +426,122 @@ export class AdvancedRefundService {
   /**
    * Calculate refund amount based on type
    */
-  private async calculateRefundAmount(client: any, refundRequest: AdvancedRefundRequest, order: any): Promise<number> {
+  private async calculateRefundAmount(
+    client: any,
+    refundRequest: AdvancedRefundRequest,
+    order: any,
+    payment: RefundablePayment
+  ): Promise<number> {
+    let amount: number;
+
     switch (refundRequest.refundType) {
       case 'full':
-        return order.payment_amount;
+        // Whatever has not already been refunded
+        amount = payment.remainingAmount;
+        break;
       
       case 'partial':
         if (!refundRequest.amount || refundRequest.amount <= 0) {
           throw new ValidationError('Partial refund requires a valid amount');
         }
-        if (refundRequest.amount > order.payment_amount) {
+        if (refundRequest.amount > payment.amount) {
           throw new ValidationError('Refund amount cannot exceed payment amount');
         }
-        return refundRequest.amount;
+        amount = Math.round(refundRequest.amount * 100) / 100;
+        break;
       
       case 'item_specific':
         if (!refundRequest.items || refundRequest.items.length === 0) {
           throw new ValidationError('Item-specific refund requires item details');
         }
-        return await this.calculateItemSpecificRefund(client, refundRequest.orderId, refundRequest.items);
+        amount = await this.calculateItemSpecificRefund(client, order, refundRequest.items);
+        break;
       
       default:
         throw new ValidationError('Invalid refund type');
     }
+
+    if (amount <= 0) {
+      throw new ValidationError('Nothing left to refund on this order', { orderId: order.id });
+    }
+
+    if (amount > payment.remainingAmount) {
+      throw new ValidationError(
+        `Refund amount (${amount}) exceeds the refundable balance (${payment.remainingAmount})`,
+        { orderId: order.id, remaining: payment.remainingAmount }
+      );
+    }
+
+    return amount;
   }
 
   /**
-   * Calculate refund amount for specific items
+   * Calculate refund amount for specific items: the discounted line price per unit,
+   * plus the line's tax (or its share of the order tax, for older orders) when tax was
+   * added on top of prices
    */
-  private async calculateItemSpecificRefund(client: any, orderId: number, items: any[]): Promise<number> {
+  private async calculateItemSpecificRefund(client: any, order: any, items: any[]): Promise<number> {
     let totalRefund = 0;
 
     for (const item of items) {
       const itemResult = await client.query(
-        'SELECT unit_price FROM order_items WHERE id = $1 AND order_id = $2',
-        [item.orderItemId, orderId]
+        `SELECT oi.unit_price, oi.quantity, oi.taxable_amount, oi.tax_amount, oi.tax_class,
+                COALESCE((
+                  SELECT SUM(ri.quantity)
+                  FROM refund_items ri
+                  JOIN refunds r ON r.id = ri.refund_id
+                  WHERE ri.order_item_id = oi.id AND r.status <> 'failed'
+                ), 0) AS refunded_quantity
+         FROM order_items oi
+         WHERE oi.id = $1 AND oi.order_id = $2`,
+        [item.orderItemId, order.id]
       );
 
       if (itemResult.rows.length === 0) {
         throw new ValidationError(`Order item ${item.orderItemId} not found`);
       }
 
-      const unitPrice = parseFloat(itemResult.rows[0].unit_price);
-      totalRefund += unitPrice * item.quantity;
+      const line = itemResult.rows[0];
+      const quantity = parseInt(item.quantity);
+      const refundableQuantity = line.quantity - parseInt(line.refunded_quantity);
+
+      if (!quantity || quantity <= 0 || quantity > refundableQuantity) {
+        throw new ValidationError(`Order item ${item.orderItemId} has ${refundableQuantity} unit(s) left to refund`, {
+          orderItemId: item.orderItemId,
+          requested: item.quantity,
+          refundable: refundableQuantity
+        });
+      }
+
+      // taxable_amount is the line after its share of the order discount;
+      // lines ordered before per-line tax (no tax_class) never recorded one
+      const hasLineTax = line.tax_class !== null && line.taxable_amount !== null;
+      const lineAmount = hasLineTax
+        ? parseFloat(line.taxable_amount)
+        : parseFloat(line.unit_price) * line.quantity;
+      const lineTax = order.prices_include_tax
+        ? 0
+        : hasLineTax
+          ? parseFloat(line.tax_amount || '0')
+          : this.legacyLineTax(order, lineAmount);
+
+      totalRefund += (lineAmount + lineTax) * (quantity / line.quantity);
+    }
+
+    return Math.round(totalRefund * 100) / 100;
+  }
+
+  /**
+   * Tax for a line ordered before per-line tax: its share of the order's tax by subtotal
+   */
+  private legacyLineTax(order: any, lineAmount: number): number {
+    const subtotal = parseFloat(order.subtotal || '0');
+    const orderTax = parseFloat(order.tax_amount || '0');
+    if (subtotal <= 0 || orderTax <= 0) {
+      return 0;
     }
 
-    return totalRefund;
+    return orderTax * (lineAmount / subtotal);
   }
 
   /**
@@ -443,31 +557,6 @@ export class AdvancedRefundService {
     }
   }
 
-  /**
-   * Update order refund status
-   */
-  private async updateOrderRefundStatus(client: any, orderId: number, refundAmount: number, paymentAmount: number): Promise<void> {
-    const refundStatus = refundAmount === paymentAmount ? 'full' : 'partial';
-    
-    await client.query(
-      `UPDATE orders 
-       SET refund_status = $1, updated_at = CURRENT_TIMESTAMP
-       WHERE id = $2`,
-      [refundStatus, orderId]
-    );
-
-    await client.query(
-      `UPDATE payments 
-       SET refunded_amount = refunded_amount + $1, 
-           refund_status = CASE 
-             WHEN refunded_amount + $1 >= amount THEN 'full'
-             ELSE 'partial'
-           END
-       WHERE order_id = $2`,
-      [refundAmount, orderId]
-    );
-  }
-
   /**
    * Send refund notification to customer
    */
@@ -480,22 +569,33 @@ export class AdvancedRefundService {
   /**
    * Log refund action
    */
-  private async logRefundAction(client: any, refundId: number, refundRequest: AdvancedRefundRequest): Promise<void> {
+  private async logRefundAction(client: any, refundId: number, action: string, details: Record<string, any>): Promise<void> {
     await client.query(
       `INSERT INTO refund_logs (refund_id, action, details, created_at)
        VALUES ($1, $2, $3, CURRENT_TIMESTAMP)`,
-      [
-        refundId,
-        'refund_initiated',
-        JSON.stringify({
-          refundType: refundRequest.refundType,
-          reasonCode: refundRequest.reasonCode,
-          notifyCustomer: refundRequest.notifyCustomer
-        })
-      ]
+      [refundId, action, JSON.stringify(details)]
     );
   }
 
+  /**
+   * Build the response from the refund's current state
+   */
+  private async toAdvancedRefundResult(refundId: number, refundRequest: AdvancedRefundRequest, customerNotificationSent: boolean) {
+    const refund = await this.refundService.getRefund(refundId);
+
+    return {
+      refundId: refund.refundId,
+      orderId: refund.orderId,
+      refundType: refundRequest.refundType,
+      amount: refund.amount,
+      status: refund.status,
+      estimatedProcessingTime: this.getEstimatedProcessingTime(refundRequest.refundType),
+      customerNotificationSent,
+      refundTransactionId: refund.refundTransactionId,
+      failureReason: refund.failureReason
+    };
+  }
+
   /**
    * Get estimated processing time
    */
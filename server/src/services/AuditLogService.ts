@@ -0,0 +1,248 @@
+/**
+ * Audit Log Service
+ * Records admin writes to admin_activity_logs and serves the searchable audit trail
+ * and its CSV export
+ */
+
+import { Pool } from 'pg';
+import {
+  AdminActivityLogFilters,
+  AdminActivityLogWithActor,
+  AuditChanges,
+  RecordAdminActivityDto
+} from '../types/audit';
+
+// Never copied into the log, whatever entity they turn up on
+const REDACTED_FIELD = /password|token|secret|api_key/i;
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['updated_at']);
+const EXPORT_LIMIT = 10000;
+
+export class AuditLogService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Append an entry to the audit log
+   */
+  async record(entry: RecordAdminActivityDto): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO admin_activity_logs
+         (admin_id, admin_email, action, authority, resource_type, resource_id, changes, details, ip_address, user_agent)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        entry.adminId,
+        entry.adminEmail || null,
+        entry.action,
+        entry.authority || null,
+        entry.resourceType,
+        entry.resourceId || null,
+        entry.changes ? JSON.stringify(entry.changes) : null,
+        JSON.stringify(entry.details || {}),
+        entry.ipAddress || null,
+        entry.userAgent || null
+      ]
+    );
+  }
+
+  /**
+   * Audit entries, newest first
+   */
+  async getLogs(filters: AdminActivityLogFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 50;
+    const { where, params } = this.buildWhere(filters);
+
+    const countResult = await this.pool.query(
+      `SELECT COUNT(*)::int AS total FROM admin_activity_logs l ${where}`,
+      params
+    );
+    const total = countResult.rows[0].total;
+
+    const result = await this.pool.query(
+      `${this.selectSql(where)}
+       ORDER BY l.created_at DESC, l.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      logs: result.rows as AdminActivityLogWithActor[],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1
+      }
+    };
+  }
+
+  /**
+   * Audit entries matching the filters as CSV, one row per entry
+   */
+  async exportCsv(filters: AdminActivityLogFilters = {}): Promise<string> {
+    const { where, params } = this.buildWhere(filters);
+    const result = await this.pool.query(
+      `${this.selectSql(where)}
+       ORDER BY l.created_at DESC, l.id DESC
+       LIMIT ${EXPORT_LIMIT}`,
+      params
+    );
+
+    const header = ['id', 'created_at', 'admin_email', 'admin_name', 'action', 'authority', 'resource_type', 'resource_id', 'changed_fields', 'changes', 'ip_address'];
+    const lines = result.rows.map((row: AdminActivityLogWithActor) => [
+      row.id,
+      new Date(row.created_at).toISOString(),
+      row.admin_email,
+      row.admin_name,
+      row.action,
+      row.authority,
+      row.resource_type,
+      row.resource_id,
+      row.changes ? Object.keys(row.changes).join(' ') : '',
+      row.changes ? JSON.stringify(row.changes) : '',
+      row.ip_address
+    ].map((value) => this.escapeCSV(value)).join(','));
+
+    return [header.join(','), ...lines].join('\n');
+  }
+
+  /**
+   * Entity types and acting users present in the log
+   */
+  async getFilterOptions(): Promise<{ resourceTypes: string[]; admins: Array<{ id: number; email: string; name: string | null }> }> {
+    const types = await this.pool.query(
+      `SELECT DISTINCT resource_type FROM admin_activity_logs WHERE resource_type IS NOT NULL ORDER BY resource_type`
+    );
+    const admins = await this.pool.query(
+      `SELECT u.id, u.email, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') AS name
+       FROM users u
+       WHERE u.id IN (SELECT DISTINCT admin_id FROM admin_activity_logs WHERE admin_id IS NOT NULL)
+       ORDER BY u.email`
+    );
+
+    return {
+      resourceTypes: types.rows.map((row) => row.resource_type),
+      admins: admins.rows
+    };
+  }
+
+  /**
+   * Fields that differ between two snapshots of an entity. Either side may be null for
+   * creates and deletes; snapshots that are not plain objects are compared whole.
+   */
+  diff(before: any, after: any): AuditChanges | null {
+    const beforeValue = this.redact(before);
+    const afterValue = this.redact(after);
+
+    if (!this.isRecord(beforeValue ?? {}) || !this.isRecord(afterValue ?? {})) {
+      return JSON.stringify(beforeValue) === JSON.stringify(afterValue)
+        ? null
+        : { value: { before: beforeValue ?? null, after: afterValue ?? null } };
+    }
+
+    const changes: AuditChanges = {};
+    const keys = new Set([...Object.keys(beforeValue || {}), ...Object.keys(afterValue || {})]);
+
+    for (const key of keys) {
+      if (IGNORED_FIELDS.has(key)) {
+        continue;
+      }
+      const from = beforeValue ? beforeValue[key] ?? null : null;
+      const to = afterValue ? afterValue[key] ?? null : null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[key] = { before: from, after: to };
+      }
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  /**
+   * Deep copy with secret-looking fields masked
+   */
+  redact(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (this.isRecord(value)) {
+      const copy: Record<string, any> = {};
+      for (const [key, field] of Object.entries(value)) {
+        copy[key] = REDACTED_FIELD.test(key) ? '[redacted]' : this.redact(field);
+      }
+      return copy;
+    }
+    return value;
+  }
+
+  private selectSql(where: string): string {
+    return `SELECT l.id, l.admin_id, l.action, l.authority, l.resource_type, l.resource_id,
+                   l.changes, l.details, host(l.ip_address) AS ip_address, l.user_agent, l.created_at,
+                   NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') AS admin_name,
+                   COALESCE(l.admin_email, u.email) AS admin_email
+            FROM admin_activity_logs l
+            LEFT JOIN users u ON u.id = l.admin_id
+            ${where}`;
+  }
+
+  private buildWhere(filters: AdminActivityLogFilters): { where: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.adminId) {
+      params.push(filters.adminId);
+      conditions.push(`l.admin_id = $${params.length}`);
+    }
+    if (filters.resourceType) {
+      params.push(filters.resourceType);
+      conditions.push(`l.resource_type = $${params.length}`);
+    }
+    if (filters.resourceId) {
+      params.push(filters.resourceId);
+      conditions.push(`l.resource_id = $${params.length}`);
+    }
+    if (filters.action) {
+      params.push(filters.action);
+      conditions.push(`l.action = $${params.length}`);
+    }
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`l.created_at >= $${params.length}::date`);
+    }
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`l.created_at < $${params.length}::date + INTERVAL '1 day'`);
+    }
+    if (filters.search) {
+      params.push(`%${filters.search}%`);
+      conditions.push(
+        `(l.action ILIKE $${params.length} OR l.resource_id ILIKE $${params.length}
+          OR l.admin_email ILIKE $${params.length} OR l.changes::text ILIKE $${params.length})`
+      );
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+
+  private isRecord(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+  }
+
+  private escapeCSV(value: any): string {
+    if (value === null || value === undefined) return '';
+    const str = String(value);
+    if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+      return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Backorder Service
+ * The queue of paid orders waiting on backordered stock. A sale that takes a product or
+ * option below zero at a warehouse queues its shortfall here at payment time;
+ * InventoryService allocates arriving stock to the queue oldest payment first, and the
+ * ready check moves fully allocated orders back to processing and emails their customers.
+ */
+
+import { Pool } from 'pg';
+import { EmailService } from './EmailService';
+import { OrderStatusService } from './OrderStatusService';
+import { OrderStatus } from '../types/cart';
+import { BackorderAllocationWithDetails } from '../types/inventory';
+
+// Orders that can still ship once their backordered units arrive
+const READY_CHECK_STATUSES: OrderStatus[] = [OrderStatus.BACKORDERED, OrderStatus.PROCESSING, OrderStatus.ON_HOLD];
+
+export class BackorderService {
+  private emailService: EmailService;
+  private orderStatusService: OrderStatusService;
+
+  constructor(private pool: Pool, emailService?: EmailService) {
+    if (emailService) {
+      this.emailService = emailService;
+    } else {
+      this.emailService = new EmailService(pool);
+      this.emailService.initialize();
+    }
+
+    this.orderStatusService = new OrderStatusService(pool, this.emailService);
+  }
+
+  /**
+   * Queue the units a paid order's sales could not take from stock.
+   * Run in the payment transaction after the order's reservations are confirmed.
+   * Product-level shortfalls are attached to the order's first line for that product.
+   *
+   * @returns Number of queue entries created
+   */
+  async queueOrderShortfalls(orderId: number, client: any): Promise<number> {
+    const existing = await client.query('SELECT 1 FROM backorder_allocations WHERE order_id = $1 LIMIT 1', [orderId]);
+    if (existing.rows.length > 0) {
+      return 0;
+    }
+
+    // Each sale is short by however much of it went below zero
+    const shortfalls = await client.query(
+      `SELECT product_id, variation_option_id, warehouse_id,
+              SUM(LEAST(-delta, -quantity_after))::int AS quantity
+       FROM inventory_movements
+       WHERE source_type = 'order' AND source_id = $1 AND reason = 'sale'
+         AND delta < 0 AND quantity_after < 0 AND warehouse_id IS NOT NULL
+       GROUP BY product_id, variation_option_id, warehouse_id`,
+      [String(orderId)]
+    );
+
+    for (const shortfall of shortfalls.rows) {
+      const itemResult = await client.query(
+        `SELECT oi.id
+         FROM order_items oi
+         WHERE oi.order_id = $1 AND oi.product_id = $2
+           AND ($3::int IS NULL OR EXISTS (
+             SELECT 1 FROM jsonb_each_text(COALESCE(oi.selected_options->'variations', '{}'::jsonb)) v
+             WHERE v.value = $3::text
+           ))
+         ORDER BY oi.id
+         LIMIT 1`,
+        [orderId, shortfall.product_id, shortfall.variation_option_id]
+      );
+
+      await client.query(
+        `INSERT INTO backorder_allocations
+           (order_id, order_item_id, product_id, variation_option_id, warehouse_id, quantity)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          orderId,
+          itemResult.rows[0]?.id || null,
+          shortfall.product_id,
+          shortfall.variation_option_id,
+          shortfall.warehouse_id,
+          shortfall.quantity
+        ]
+      );
+    }
+
+    await client.query(
+      `UPDATE order_items oi
+       SET allocation_status = CASE
+         WHEN EXISTS (
+           SELECT 1 FROM backorder_allocations ba WHERE ba.order_item_id = oi.id AND ba.status = 'waiting'
+         ) THEN 'backordered'
+         ELSE 'allocated'
+       END
+       WHERE oi.order_id = $1`,
+      [orderId]
+    );
+
+    return shortfalls.rows.length;
+  }
+
+  /**
+   * Queue entries of an order with product, option and location names
+   */
+  async getOrderBackorders(orderId: number): Promise<BackorderAllocationWithDetails[]> {
+    const result = await this.pool.query(
+      `SELECT ba.*, p.name AS product_name, p.sku, vo.option_name, w.code AS warehouse_code
+       FROM backorder_allocations ba
+       JOIN products p ON p.id = ba.product_id
+       LEFT JOIN variation_options vo ON vo.id = ba.variation_option_id
+       JOIN warehouses w ON w.id = ba.warehouse_id
+       WHERE ba.order_id = $1
+       ORDER BY ba.id`,
+      [orderId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Release orders whose backordered units have all been allocated: backordered orders
+   * move back to processing and the customer is told their items are ready to ship.
+   * Each order is handled once; entries are marked notified in the same transaction.
+   */
+  async processReadyOrders(): Promise<{ ready: number; errors: number }> {
+    const candidates = await this.pool.query(
+      `SELECT o.id
+       FROM orders o
+       WHERE o.status = ANY($1)
+         AND EXISTS (
+           SELECT 1 FROM backorder_allocations ba
+           WHERE ba.order_id = o.id AND ba.status = 'allocated' AND ba.notified_at IS NULL
+         )
+         AND NOT EXISTS (
+           SELECT 1 FROM backorder_allocations ba WHERE ba.order_id = o.id AND ba.status = 'waiting'
+         )
+       ORDER BY o.id`,
+      [READY_CHECK_STATUSES]
+    );
+
+    let ready = 0;
+    let errors = 0;
+
+    for (const candidate of candidates.rows) {
+      const client = await this.pool.connect();
+      let order: any = null;
+      let items: string[] = [];
+
+      try {
+        await client.query('BEGIN');
+
+        const orderResult = await client.query('SELECT * FROM orders WHERE id = $1 FOR UPDATE', [candidate.id]);
+        order = orderResult.rows[0];
+
+        const notified = await client.query(
+          `UPDATE backorder_allocations ba
+           SET notified_at = CURRENT_TIMESTAMP
+           FROM products p
+           WHERE ba.order_id = $1 AND ba.status = 'allocated' AND ba.notified_at IS NULL AND p.id = ba.product_id
+           RETURNING p.name`,
+          [candidate.id]
+        );
+
+        // Another run got here first
+        if (notified.rows.length === 0) {
+          await client.query('ROLLBACK');
+          order = null;
+          continue;
+        }
+
+        items = Array.from(new Set<string>(notified.rows.map((row: any) => row.name)));
+
+        if (order.status === OrderStatus.BACKORDERED) {
+          order = await this.orderStatusService.transition(
+            order.id,
+            OrderStatus.PROCESSING,
+            { actorType: 'system', reason: 'Backordered items allocated', notifyCustomer: false },
+            client
+          );
+        }
+
+        await client.query('COMMIT');
+        ready++;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`Failed to release backordered order ${candidate.id}:`, error);
+        order = null;
+        errors++;
+      } finally {
+        client.release();
+      }
+
+      if (order) {
+        await this.sendReadyEmail(order, items);
+      }
+    }
+
+    return { ready, errors };
+  }
+
+  private async sendReadyEmail(order: any, items: string[]): Promise<void> {
+    try {
+      const billingAddress = typeof order.billing_address === 'string'
+        ? JSON.parse(order.billing_address)
+        : order.billing_address;
+      const customerName = billingAddress?.firstName && billingAddress?.lastName
+        ? `${billingAddress.firstName} ${billingAddress.lastName}`
+        : order.customer_email;
+      const orderRegion = (order.region || 'us') as 'us' | 'eu';
+
+      await this.emailService.triggerEvent(
+        'order.backorder_ready',
+        {
+          order_number: order.order_number,
+          customer_name: customerName,
+          customer_email: order.customer_email,
+          backordered_items: items.join(', '),
+          order_date: new Date(order.created_at).toLocaleDateString()
+        },
+        {
+          customerEmail: order.customer_email,
+          customerName,
+          adminEmail: 'info@simfab.com'
+        },
+        orderRegion
+      );
+    } catch (error) {
+      console.error(`Failed to send backorder ready email for order ${order.order_number}:`, error);
+    }
+  }
+}
@@ -5,6 +5,7 @@
 
 import { Pool } from 'pg';
 import { ProductService } from './ProductService';
+import { ProductAttributeService } from './ProductAttributeService';
 import { ProductWithDetails } from '../types/product';
 import {
   ProductImageData,
@@ -18,9 +19,11 @@ import {
 
 export class CSVExportService {
   private productService: ProductService;
+  private attributeService: ProductAttributeService;
 
   constructor(private pool: Pool) {
     this.productService = new ProductService(pool);
+    this.attributeService = new ProductAttributeService(pool);
   }
 
   /**
@@ -331,6 +334,20 @@ export class CSVExportService {
         row.product_additional_info = '';
       }
 
+      // Export attribute values in the shape the import expects
+      const attributes = await this.attributeService.getProductAttributes(productId);
+      if (attributes.length > 0) {
+        row.product_attributes = JSON.stringify(attributes.map(attribute =>
+          attribute.type === 'select' || attribute.type === 'multiselect'
+            ? { code: attribute.code, values: attribute.values }
+            : attribute.type === 'range'
+              ? { code: attribute.code, min: attribute.min, max: attribute.max }
+              : { code: attribute.code, min: attribute.min }
+        ));
+      } else {
+        row.product_attributes = '';
+      }
+
       csvRows.push(row);
     }
 
@@ -22,18 +22,24 @@ import {
   AssemblyManualData,
   ProductAdditionalInfoData
 } from '../types/csv';
+import { ProductAttributeValueInput } from '../types/attribute';
 import { ProductService } from './ProductService';
 import { ProductVariationService } from './ProductVariationService';
 import { ProductImageService } from './ProductImageService';
 import { BundleService } from './BundleService';
+import { ProductAttributeService } from './ProductAttributeService';
 import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
 import { ProductStatus } from '../types/product';
+import { InventoryService } from './InventoryService';
+import { InventoryMovementContext } from '../types/inventory';
 
 export class CSVImportService {
   private productService: ProductService;
   private variationService: ProductVariationService;
   private imageService: ProductImageService;
   private bundleService: BundleService;
+  private inventoryService: InventoryService;
+  private attributeService: ProductAttributeService;
 
   // Valid category slugs (as used in the database and frontend)
   private readonly VALID_CATEGORIES = [
@@ -57,6 +63,8 @@ export class CSVImportService {
     this.variationService = new ProductVariationService(pool);
     this.imageService = new ProductImageService(pool);
     this.bundleService = new BundleService(pool);
+    this.inventoryService = new InventoryService(pool);
+    this.attributeService = new ProductAttributeService(pool);
   }
 
   /**
@@ -273,7 +281,7 @@ export class CSVImportService {
     }
 
     // Validate other JSON fields similarly
-    ['product_faqs', 'assembly_manuals', 'product_additional_info'].forEach(field => {
+    ['product_faqs', 'assembly_manuals', 'product_additional_info', 'product_attributes'].forEach(field => {
       const value = (row as any)[field];
       if (value) {
         try {
@@ -568,11 +576,20 @@ export class CSVImportService {
       }
     }
 
+    // An empty array clears the product's attributes; a missing column leaves them alone
+    if (row.product_attributes) {
+      try {
+        parsed.attributes = JSON.parse(row.product_attributes) as ProductAttributeValueInput[];
+      } catch (e) {
+        // Already validated
+      }
+    }
+
     return parsed;
   }
 
   /**
-   * Create all relationships (images, variations, bundles, FAQs, manuals, additional info)
+   * Create all relationships (images, variations, bundles, FAQs, manuals, additional info, attributes)
    * for a given product, based on parsed CSV data.
    * This helper is reused for both the primary-region product and any
    * auto-created opposite-region product.
@@ -583,7 +600,8 @@ export class CSVImportService {
     productId: number,
     parentRegion: 'us' | 'eu',
     skuToProductId: Map<string, number>,
-    result: ImportResult
+    result: ImportResult,
+    inventoryContext: InventoryMovementContext
   ): Promise<void> {
     // Create images
     if (data.images && data.images.length > 0) {
@@ -666,8 +684,7 @@ export class CSVImportService {
                   ? csvOption.stock_quantity
                   : parseInt(String(csvOption.stock_quantity), 10);
                 if (!isNaN(parsed)) {
-                  updateFields.push(`stock_quantity = $${paramCounter++}`);
-                  updateValues.push(parsed);
+                  await this.inventoryService.setOptionStock(dbOption.id, parsed, inventoryContext);
                 }
               }
               if (csvOption.low_stock_threshold !== undefined && csvOption.low_stock_threshold !== null) {
@@ -835,6 +852,22 @@ export class CSVImportService {
         );
       }
     }
+
+    // Replace attribute values; unknown codes or options fail only this field
+    if (data.attributes) {
+      try {
+        await this.attributeService.setProductAttributes(productId, data.attributes);
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        result.errors.push({
+          row: rowNumber,
+          sku: data.product.sku,
+          field: 'product_attributes',
+          message: error.message,
+          severity: 'warning'
+        });
+      }
+    }
   }
 
   /**
@@ -851,6 +884,15 @@ export class CSVImportService {
       warnings: []
     };
 
+    // Every stock write in this run shares one import reference in the inventory ledger
+    const inventoryContext: InventoryMovementContext = {
+      reason: 'import',
+      actorType: options.importedBy ? 'admin' : 'system',
+      actorId: options.importedBy || null,
+      sourceType: 'csv_import',
+      sourceId: randomUUID()
+    };
+
     try {
       // Parse CSV
       const rows = await this.parseCSV(csvContent);
@@ -950,7 +992,7 @@ export class CSVImportService {
                   const value = (product as any)[key];
                   updateData[key] = value === null ? undefined : value;
                 });
-                const updated = await this.productService.updateProduct(existing.rows[0].id, updateData);
+                const updated = await this.productService.updateProduct(existing.rows[0].id, updateData, inventoryContext);
                 skuToProductId.set(`${product.sku!}:${productRegion}`, updated.id);
               }
               result.updated++;
@@ -974,7 +1016,7 @@ export class CSVImportService {
                 type: product.type || 'simple',
                 status: product.status || ProductStatus.ACTIVE,
                 region: (product as any).region || 'us' // Default to US region
-              } as any);
+              } as any, inventoryContext);
               skuToProductId.set(`${product.sku!}:${productRegion}`, created.id);
             }
             result.created++;
@@ -1014,7 +1056,8 @@ export class CSVImportService {
             productId,
             (data.product as any).region === 'eu' ? 'eu' : 'us',
             skuToProductId,
-            result
+            result,
+            inventoryContext
           );
         } catch (error) {
           result.errors.push({
@@ -1109,7 +1152,7 @@ export class CSVImportService {
               status: product.status || ProductStatus.ACTIVE,
               region: oppositeRegion,
               product_group_id: groupId
-            } as any);
+            } as any, inventoryContext);
 
             const oppositeProductId = createdOpposite.id as number;
 
@@ -1162,7 +1205,8 @@ export class CSVImportService {
                 oppositeProductId,
                 oppositeRegion,
                 skuToProductId,
-                result
+                result,
+                inventoryContext
               );
             } catch (error) {
               result.errors.push({
@@ -0,0 +1,75 @@
+/**
+ * Carrier Trackers
+ * Fetch the tracking state of shipments from a carrier. TrackingService polls one
+ * tracker per carrier, so further carriers can be added next to FedEx.
+ */
+
+import { FedExService } from './FedExService';
+import { CarrierTrackingUpdate, ShipmentStatus } from '../types/shipping';
+
+export interface CarrierTracker {
+  /** Carrier name as stored in shipments.carrier */
+  carrier: string;
+  /** Largest number of tracking numbers per track() call */
+  batchSize: number;
+  track(trackingNumbers: string[]): Promise<CarrierTrackingUpdate[]>;
+}
+
+// FedEx derived status codes mapped to shipment statuses; unlisted codes keep the shipment in transit
+const FEDEX_STATUS_MAP: Record<string, ShipmentStatus> = {
+  OC: 'label_created',
+  IN: 'label_created',
+  PU: 'picked_up',
+  IT: 'in_transit',
+  AR: 'in_transit',
+  DP: 'in_transit',
+  OD: 'out_for_delivery',
+  DL: 'delivered',
+  DE: 'failed',
+  CA: 'failed',
+  RS: 'returned'
+};
+
+const toDate = (value: string | null): Date | null => {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Tracker backed by the FedEx Track API
+ */
+export class FedExCarrierTracker implements CarrierTracker {
+  carrier = 'FedEx';
+  batchSize = 30;
+
+  constructor(private fedExService: FedExService) {}
+
+  async track(trackingNumbers: string[]): Promise<CarrierTrackingUpdate[]> {
+    const result = await this.fedExService.trackShipments(trackingNumbers);
+
+    if (!result.success || !result.results) {
+      throw new Error(result.error?.message || 'FedEx tracking failed');
+    }
+
+    return result.results
+      .filter(info => info.found && info.statusCode)
+      .map(info => ({
+        trackingNumber: info.trackingNumber,
+        status: FEDEX_STATUS_MAP[info.statusCode as string] || 'in_transit',
+        statusDescription: info.statusDescription,
+        estimatedDelivery: toDate(info.estimatedDelivery),
+        deliveredAt: toDate(info.actualDelivery),
+        events: info.events
+          .map(event => ({
+            status: FEDEX_STATUS_MAP[event.code] || 'in_transit',
+            description: event.description,
+            location: event.location,
+            timestamp: toDate(event.timestamp) as Date
+          }))
+          .filter(event => event.timestamp !== null)
+      }));
+  }
+}
@@ -5,7 +5,10 @@
 
 import { Pool } from 'pg';
 import { EmailService } from './EmailService';
+import { RecommendationService } from './RecommendationService';
 import { formatCurrency } from '../utils/currency';
+import { EmailTemplateEngine } from '../utils/EmailTemplateEngine';
+import { RecommendedProduct } from '../types/recommendation';
 
 interface CartWithUser {
   id: number;
@@ -19,11 +22,19 @@ interface CartWithUser {
   item_count?: number;
 }
 
+// Products suggested under the cart summary
+const RECOMMENDED_PRODUCTS_LIMIT = 3;
+
 export class CartReminderService {
+  private recommendationService: RecommendationService;
+  private templateEngine = new EmailTemplateEngine();
+
   constructor(
     private pool: Pool,
     private emailService: EmailService
-  ) {}
+  ) {
+    this.recommendationService = new RecommendationService(pool);
+  }
 
   /**
    * Check for abandoned carts and send 1-day reminders
@@ -71,6 +82,7 @@ export class CartReminderService {
           // Get cart items for the email
           const itemsResult = await this.pool.query(`
             SELECT 
+              ci.product_id,
               p.name,
               ci.quantity,
               ci.unit_price,
@@ -100,7 +112,11 @@ export class CartReminderService {
               cart_total: formatCurrency(cartTotal, cartRegion, 'total'),
               item_count: itemCount.toString(),
               cart_url: cartUrl,
-              cart_id: cart.id.toString()
+              cart_id: cart.id.toString(),
+              recommended_products: await this.renderRecommendedProducts(
+                itemsResult.rows.map(item => item.product_id),
+                cartRegion
+              )
             },
             {
               customerEmail: cart.user_email!,
@@ -178,6 +194,7 @@ export class CartReminderService {
           // Get cart items for the email
           const itemsResult = await this.pool.query(`
             SELECT 
+              ci.product_id,
               p.name,
               ci.quantity,
               ci.unit_price,
@@ -207,7 +224,11 @@ export class CartReminderService {
               cart_total: formatCurrency(cartTotal, cartRegion, 'total'),
               item_count: itemCount.toString(),
               cart_url: cartUrl,
-              cart_id: cart.id.toString()
+              cart_id: cart.id.toString(),
+              recommended_products: await this.renderRecommendedProducts(
+                itemsResult.rows.map(item => item.product_id),
+                cartRegion
+              )
             },
             {
               customerEmail: cart.user_email!,
@@ -251,5 +272,54 @@ export class CartReminderService {
 
     return { day1, day7 };
   }
-}
 
+  /**
+   * "You might also like" block for the reminder email; empty when there is nothing to suggest.
+   * A failed lookup never holds back the reminder itself
+   */
+  private async renderRecommendedProducts(productIds: number[], region: 'us' | 'eu'): Promise<string> {
+    let products: RecommendedProduct[];
+    try {
+      const recommendations = await this.recommendationService.getRecommendations(productIds, {
+        region,
+        limit: RECOMMENDED_PRODUCTS_LIMIT
+      });
+      products = [
+        ...recommendations.frequentlyBoughtTogether,
+        ...recommendations.accessories,
+        ...recommendations.alsoViewed
+      ].slice(0, RECOMMENDED_PRODUCTS_LIMIT);
+    } catch (error) {
+      console.error('Failed to load cart reminder recommendations:', error);
+      return '';
+    }
+
+    if (products.length === 0) {
+      return '';
+    }
+
+    const baseUrl = process.env.FRONTEND_URL || 'https://simfab.com';
+    const rows = products.map((product) => {
+      const url = `${baseUrl}/product/${encodeURIComponent(product.slug)}?region=${region}`;
+      const price = this.currentPrice(product);
+
+      return `<p style="color: #cccccc; font-size: 14px; margin: 8px 0;">` +
+        `<a href="${url}" style="color: #ffffff; text-decoration: none; font-weight: 600;">${this.templateEngine.escapeHtml(product.name)}</a>` +
+        (price !== null ? ` <span class="highlight">${formatCurrency(price, region)}</span>` : '') +
+        `</p>`;
+    }).join('');
+
+    return `<div class="order-info"><h3 style="color: #c5303b; margin: 0 0 12px 0;">You Might Also Like</h3>${rows}</div>`;
+  }
+
+  private currentPrice(product: RecommendedProduct): number | null {
+    const now = new Date();
+    const saleActive = product.is_on_sale &&
+      product.sale_price !== null &&
+      (!product.sale_start_date || new Date(product.sale_start_date) <= now) &&
+      (!product.sale_end_date || new Date(product.sale_end_date) >= now);
+    const price = saleActive ? product.sale_price : (product.regular_price ?? product.price_min);
+
+    return price !== null ? Number(price) : null;
+  }
+}
@@ -12,13 +12,14 @@ import {
   CartTotals,
   AddToCartData,
   UpdateCartItemData,
-  AppliedCoupon,
-  Address
+  AppliedCoupon
 } from '../types/cart';
+import { TaxAddress } from '../types/tax';
 import { PriceCalculatorService } from './PriceCalculatorService';
 import { StockReservationService } from './StockReservationService';
 import { BundleService } from './BundleService';
 import { VariationStockService } from './VariationStockService';
+import { TaxService } from './TaxService';
 import { NotFoundError, ValidationError } from '../utils/errors';
 
 export class CartService {
@@ -26,12 +27,14 @@ export class CartService {
   private stockReservationService: StockReservationService;
   private bundleService: BundleService;
   private variationStockService: VariationStockService;
+  private taxService: TaxService;
 
   constructor(private pool: Pool) {
     this.priceCalculator = new PriceCalculatorService(pool);
     this.stockReservationService = new StockReservationService(pool);
     this.bundleService = new BundleService(pool);
     this.variationStockService = new VariationStockService(pool);
+    this.taxService = new TaxService(pool);
   }
 
   /**
@@ -226,6 +229,8 @@ export class CartService {
           p.is_on_sale,
           p.sale_start_date,
           p.sale_end_date,
+          p.tax_class,
+          p.tax_status,
           COALESCE(
             (SELECT json_agg(row_to_json(pi))
              FROM (SELECT * FROM product_images WHERE product_id = p.id ORDER BY sort_order) pi),
@@ -273,6 +278,24 @@ export class CartService {
     }
   }
 
+  /**
+   * Recalculate cart totals for a destination and shipping amount (checkout tax estimate)
+   */
+  async estimateTotals(
+    sessionId: string | undefined,
+    userId: number | undefined,
+    shippingAddress: TaxAddress,
+    shippingAmount: number = 0
+  ): Promise<CartTotals> {
+    const cart = await this.getCartWithItems(sessionId, userId);
+
+    if (!cart || cart.items.length === 0) {
+      throw new ValidationError('Cart is empty');
+    }
+
+    return this.calculateTotals(cart.id, cart.items, cart.region, shippingAddress, shippingAmount);
+  }
+
   /**
    * Add item to cart
    */
@@ -973,7 +996,7 @@ export class CartService {
     cartId: number, 
     items: CartItemWithProduct[], 
     cartRegion?: 'us' | 'eu',
-    shippingAddress?: Address,
+    shippingAddress?: TaxAddress,
     shippingAmount: number = 0,
     client?: any
   ): Promise<CartTotals> {
@@ -999,19 +1022,18 @@ export class CartService {
     const totalDiscount = productDiscount + couponDiscount;
     const shipping = shippingAmount;
     
-    // Calculate Florida tax (6%) if shipping address is provided and is Florida
-    let tax = 0;
-    if (shippingAddress) {
-      const isFloridaState = shippingAddress.state === 'FL' || shippingAddress.state === 'Florida';
-      const isFloridaOrder = shippingAddress.country === 'US' && isFloridaState;
-      if (isFloridaOrder) {
-        // Tax is calculated on: subtotal - discount + shipping
-        const priceBeforeTax = subtotal - totalDiscount + shipping;
-        tax = Math.round(priceBeforeTax * 0.06 * 100) / 100;
-      }
-    }
-    
-    const total = subtotal - totalDiscount + shipping + tax;
+    // Tax is only known once there is a destination; the region still decides tax-inclusive display
+    const taxResult = await this.taxService.calculateTax({
+      region: cartRegion || 'us',
+      address: shippingAddress,
+      lines: this.taxService.toTaxableLines(items),
+      discount: totalDiscount,
+      shipping
+    });
+    const tax = taxResult.total_tax;
+
+    // Gross (tax-inclusive) prices already contain the tax
+    const total = subtotal - totalDiscount + shipping + (taxResult.prices_include_tax ? 0 : tax);
     const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
 
     // Determine currency from cart region
@@ -1024,7 +1046,8 @@ export class CartService {
       tax: Math.round(tax * 100) / 100,
       total: Math.round(total * 100) / 100,
       currency,
-      itemCount
+      itemCount,
+      pricesIncludeTax: taxResult.prices_include_tax
     };
   }
 
@@ -0,0 +1,282 @@
+/**
+ * Compare Service
+ * The storefront compare tray (per guest session or customer) and the side-by-side
+ * comparison of specs, bundle contents, price ranges and ratings
+ */
+
+import { Pool } from 'pg';
+import { BundleService } from './BundleService';
+import { PriceCalculatorService } from './PriceCalculatorService';
+import { ProductAttributeService } from './ProductAttributeService';
+import {
+  CompareList,
+  CompareTrayProduct,
+  ComparedProduct,
+  ComparisonSpecRow,
+  ProductComparison
+} from '../types/compare';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export const MAX_COMPARE_PRODUCTS = 4;
+
+const CM_PER_INCH = 2.54;
+const KG_PER_LB = 0.45359237;
+
+const TRAY_PRODUCT_COLUMNS = `
+  p.id, p.name, p.slug, p.region, p.regular_price, p.sale_price, p.is_on_sale,
+  p.sale_start_date, p.sale_end_date, p.price_min, p.price_max,
+  COALESCE(
+    (SELECT json_agg(row_to_json(pi))
+     FROM (SELECT * FROM product_images WHERE product_id = p.id ORDER BY is_primary DESC, sort_order LIMIT 1) pi),
+    '[]'::json
+  ) AS images`;
+
+// Stored in inches and pounds; metric is shown alongside so EU and US listings compare directly
+const DIMENSION_SPECS: Array<{ column: 'length_in' | 'width_in' | 'height_in' | 'weight_lbs'; label: string }> = [
+  { column: 'length_in', label: 'Length' },
+  { column: 'width_in', label: 'Width' },
+  { column: 'height_in', label: 'Height' },
+  { column: 'weight_lbs', label: 'Weight' }
+];
+
+const round = (value: number, decimals: number = 1): number => Number(value.toFixed(decimals));
+
+export class CompareService {
+  private bundleService: BundleService;
+  private priceCalculator: PriceCalculatorService;
+  private attributeService: ProductAttributeService;
+
+  constructor(private pool: Pool) {
+    this.bundleService = new BundleService(pool);
+    this.priceCalculator = new PriceCalculatorService(pool);
+    this.attributeService = new ProductAttributeService(pool);
+  }
+
+  /**
+   * The shopper's compare tray. A guest tray is moved to the account once the shopper logs in.
+   */
+  async getList(sessionId: string, userId?: number): Promise<CompareList> {
+    if (userId) {
+      await this.claimGuestList(sessionId, userId);
+    }
+
+    const productIds = await this.getProductIds(sessionId, userId);
+    const products = await this.getTrayProducts(productIds);
+
+    return {
+      product_ids: products.map(product => product.id),
+      products,
+      max_products: MAX_COMPARE_PRODUCTS
+    };
+  }
+
+  /**
+   * Add a product to the tray (no-op when it is already there)
+   */
+  async addProduct(sessionId: string, userId: number | undefined, productId: number): Promise<CompareList> {
+    const product = await this.pool.query(
+      `SELECT id FROM products WHERE id = $1 AND status = 'active' AND deleted_at IS NULL`,
+      [productId]
+    );
+    if (product.rows.length === 0) {
+      throw new NotFoundError('Product', { productId });
+    }
+
+    const list = await this.getList(sessionId, userId);
+    if (list.product_ids.includes(productId)) {
+      return list;
+    }
+    if (list.product_ids.length >= MAX_COMPARE_PRODUCTS) {
+      throw new ValidationError(`Up to ${MAX_COMPARE_PRODUCTS} products can be compared at once`, {
+        maxProducts: MAX_COMPARE_PRODUCTS
+      });
+    }
+
+    await this.saveProductIds(sessionId, userId, [...list.product_ids, productId]);
+    return this.getList(sessionId, userId);
+  }
+
+  /**
+   * Remove a product from the tray
+   */
+  async removeProduct(sessionId: string, userId: number | undefined, productId: number): Promise<CompareList> {
+    const productIds = await this.getProductIds(sessionId, userId);
+    await this.saveProductIds(sessionId, userId, productIds.filter(id => id !== productId));
+    return this.getList(sessionId, userId);
+  }
+
+  /**
+   * Empty the tray
+   */
+  async clear(sessionId: string, userId?: number): Promise<void> {
+    if (userId) {
+      await this.pool.query('DELETE FROM product_comparisons WHERE user_id = $1', [userId]);
+    } else {
+      await this.pool.query(
+        'DELETE FROM product_comparisons WHERE session_id = $1 AND user_id IS NULL',
+        [sessionId]
+      );
+    }
+  }
+
+  /**
+   * Side-by-side comparison of products, in the order requested. Takes IDs rather than the
+   * tray so comparison links can be shared.
+   */
+  async compareProducts(productIds: number[]): Promise<ProductComparison> {
+    const ids = Array.from(new Set(productIds)).slice(0, MAX_COMPARE_PRODUCTS);
+
+    const result = await this.pool.query(
+      `SELECT ${TRAY_PRODUCT_COLUMNS},
+         p.sku, p.is_bundle, p.length_in, p.width_in, p.height_in, p.weight_lbs,
+         (p.stock > 0 OR LOWER(TRIM(COALESCE(p.backorders_allowed, ''))) IN ('yes', '1', 'true', 'on')) AS in_stock,
+         (SELECT COALESCE(AVG(pr.rating), 0) FROM product_reviews pr WHERE pr.product_id = p.id AND pr.is_approved = true) AS rating_average,
+         (SELECT COUNT(*)::int FROM product_reviews pr WHERE pr.product_id = p.id AND pr.is_approved = true) AS rating_count
+       FROM products p
+       WHERE p.id = ANY($1::int[]) AND p.status = 'active' AND p.deleted_at IS NULL
+       ORDER BY array_position($1::int[], p.id)`,
+      [ids]
+    );
+
+    const [rows, definitions] = await Promise.all([
+      Promise.all(result.rows.map(async row => ({
+        row,
+        priceRange: await this.priceCalculator.getProductPriceRange(row.id),
+        bundleItems: row.is_bundle ? await this.bundleService.getBundleItems(row.id) : [],
+        attributes: await this.attributeService.getProductAttributes(row.id)
+      }))),
+      this.attributeService.listAttributes()
+    ]);
+
+    const products: ComparedProduct[] = rows.map(({ row, priceRange, bundleItems }) => ({
+      id: row.id,
+      name: row.name,
+      slug: row.slug,
+      sku: row.sku,
+      region: row.region,
+      regular_price: row.regular_price,
+      sale_price: row.sale_price,
+      is_on_sale: row.is_on_sale,
+      sale_start_date: row.sale_start_date,
+      sale_end_date: row.sale_end_date,
+      price_min: row.price_min,
+      price_max: row.price_max,
+      images: row.images,
+      is_bundle: row.is_bundle,
+      in_stock: row.in_stock,
+      price_range: priceRange,
+      rating: {
+        average: round(parseFloat(row.rating_average) || 0),
+        count: row.rating_count
+      },
+      bundle_items: bundleItems.map((item: any) => ({
+        product_id: item.item_product_id,
+        name: item.display_name || item.item_product_name,
+        slug: item.item_product_slug,
+        quantity: item.quantity,
+        item_type: item.item_type
+      }))
+    }));
+
+    const specs: ComparisonSpecRow[] = [];
+
+    for (const { column, label } of DIMENSION_SPECS) {
+      const values = rows.map(({ row }) => {
+        const value = row[column];
+        if (value === null || value === undefined) return null;
+        return column === 'weight_lbs'
+          ? `${round(value)} lbs (${round(value * KG_PER_LB)} kg)`
+          : `${round(value)} in (${round(value * CM_PER_INCH)} cm)`;
+      });
+      this.pushSpec(specs, { key: column, label, group: 'dimensions' }, values);
+    }
+
+    for (const attribute of definitions) {
+      const values = rows.map(({ attributes }) => {
+        const value = attributes.find(item => item.attribute_id === attribute.id);
+        return value ? this.attributeService.formatValue(attribute, value) || null : null;
+      });
+      this.pushSpec(specs, { key: `attr:${attribute.code}`, label: attribute.name, group: 'attributes' }, values);
+    }
+
+    return { products, specs };
+  }
+
+  /**
+   * Rows without a value for any compared product are left out
+   */
+  private pushSpec(
+    specs: ComparisonSpecRow[],
+    spec: Pick<ComparisonSpecRow, 'key' | 'label' | 'group'>,
+    values: Array<string | null>
+  ): void {
+    if (values.every(value => value === null)) {
+      return;
+    }
+    specs.push({ ...spec, values, differs: new Set(values).size > 1 });
+  }
+
+  private async getProductIds(sessionId: string, userId?: number): Promise<number[]> {
+    const result = userId
+      ? await this.pool.query('SELECT product_ids FROM product_comparisons WHERE user_id = $1', [userId])
+      : await this.pool.query(
+        'SELECT product_ids FROM product_comparisons WHERE session_id = $1 AND user_id IS NULL',
+        [sessionId]
+      );
+
+    return result.rows[0]?.product_ids || [];
+  }
+
+  private async saveProductIds(sessionId: string, userId: number | undefined, productIds: number[]): Promise<void> {
+    if (userId) {
+      await this.pool.query(
+        `INSERT INTO product_comparisons (user_id, session_id, product_ids)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (user_id) WHERE user_id IS NOT NULL
+         DO UPDATE SET product_ids = EXCLUDED.product_ids, updated_at = CURRENT_TIMESTAMP`,
+        [userId, sessionId, productIds]
+      );
+    } else {
+      await this.pool.query(
+        `INSERT INTO product_comparisons (session_id, product_ids)
+         VALUES ($1, $2)
+         ON CONFLICT (session_id) WHERE user_id IS NULL
+         DO UPDATE SET product_ids = EXCLUDED.product_ids, updated_at = CURRENT_TIMESTAMP`,
+        [sessionId, productIds]
+      );
+    }
+  }
+
+  /**
+   * Move the session's guest tray into the customer's tray, keeping the customer's products first
+   */
+  private async claimGuestList(sessionId: string, userId: number): Promise<void> {
+    const guest = await this.pool.query(
+      'DELETE FROM product_comparisons WHERE session_id = $1 AND user_id IS NULL RETURNING product_ids',
+      [sessionId]
+    );
+    if (guest.rows.length === 0) {
+      return;
+    }
+
+    const existing = await this.getProductIds(sessionId, userId);
+    const merged = Array.from(new Set([...existing, ...guest.rows[0].product_ids])).slice(0, MAX_COMPARE_PRODUCTS);
+    await this.saveProductIds(sessionId, userId, merged);
+  }
+
+  private async getTrayProducts(productIds: number[]): Promise<CompareTrayProduct[]> {
+    if (productIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.pool.query(
+      `SELECT ${TRAY_PRODUCT_COLUMNS}
+       FROM products p
+       WHERE p.id = ANY($1::int[]) AND p.status = 'active' AND p.deleted_at IS NULL
+       ORDER BY array_position($1::int[], p.id)`,
+      [productIds]
+    );
+
+    return result.rows;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Email Queue Service
+ * Background processor for email_queue: claims due rows, sends them through
+ * EmailService (region-specific transporters + email_logs), retries with
+ * exponential backoff and dead-letters emails that exhaust their attempts
+ */
+
+import { Pool } from 'pg';
+import { EmailService } from './EmailService';
+import { EmailQueue, EmailQueueRunResult, EmailQueueStats } from '../types/email';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export class EmailQueueService {
+  private emailService: EmailService;
+  private batchSize: number;
+  private backoffBaseSeconds: number;
+  private staleLockMinutes: number;
+
+  constructor(private pool: Pool, emailService?: EmailService) {
+    this.emailService = emailService || new EmailService(pool);
+    this.batchSize = parseInt(process.env.EMAIL_QUEUE_BATCH_SIZE || '20', 10);
+    this.backoffBaseSeconds = parseInt(process.env.EMAIL_QUEUE_BACKOFF_SECONDS || '60', 10);
+    this.staleLockMinutes = parseInt(process.env.EMAIL_QUEUE_STALE_LOCK_MINUTES || '15', 10);
+  }
+
+  /**
+   * Process one batch of due emails
+   */
+  async processQueue(): Promise<EmailQueueRunResult> {
+    const result: EmailQueueRunResult = { claimed: 0, sent: 0, retried: 0, dead: 0, released: 0 };
+
+    result.released = await this.releaseStaleClaims();
+
+    const jobs = await this.claimBatch(this.batchSize);
+    result.claimed = jobs.length;
+
+    for (const job of jobs) {
+      const outcome = await this.processJob(job);
+      result[outcome]++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Claim due pending rows. SKIP LOCKED lets several workers (or overlapping
+   * cron runs) share the queue without sending the same email twice.
+   */
+  private async claimBatch(limit: number): Promise<EmailQueue[]> {
+    const result = await this.pool.query(
+      `UPDATE email_queue
+       SET status = 'processing', locked_at = CURRENT_TIMESTAMP, attempts = attempts + 1
+       WHERE id IN (
+         SELECT id FROM email_queue
+         WHERE status = 'pending' AND scheduled_for <= CURRENT_TIMESTAMP
+         ORDER BY priority DESC, scheduled_for ASC
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit]
+    );
+
+    // UPDATE ... RETURNING does not preserve the subquery order
+    return result.rows.sort((a, b) =>
+      b.priority - a.priority || new Date(a.scheduled_for).getTime() - new Date(b.scheduled_for).getTime()
+    );
+  }
+
+  /**
+   * Return rows stuck in 'processing' (worker crashed mid-send) to the queue
+   */
+  private async releaseStaleClaims(): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE email_queue
+       SET status = 'pending', locked_at = NULL
+       WHERE status = 'processing'
+         AND locked_at < CURRENT_TIMESTAMP - ($1 || ' minutes')::interval`,
+      [this.staleLockMinutes]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  private async processJob(job: EmailQueue): Promise<'sent' | 'retried' | 'dead'> {
+    let sendResult;
+
+    try {
+      sendResult = await this.emailService.sendEmail({
+        templateType: job.template_type,
+        recipientEmail: job.recipient_email,
+        recipientName: job.recipient_name,
+        variables: job.variables,
+        region: job.region || 'us'
+      });
+    } catch (error: any) {
+      sendResult = { success: false, error: error.message || 'Failed to send email' };
+    }
+
+    if (sendResult.success) {
+      await this.pool.query(
+        `UPDATE email_queue
+         SET status = 'sent', processed_at = CURRENT_TIMESTAMP, last_attempt_at = CURRENT_TIMESTAMP,
+             locked_at = NULL, error_message = NULL, email_log_id = $2
+         WHERE id = $1`,
+        [job.id, sendResult.logId || null]
+      );
+      return 'sent';
+    }
+
+    const exhausted = job.attempts >= job.max_attempts;
+
+    if (sendResult.permanent || exhausted) {
+      await this.pool.query(
+        `UPDATE email_queue
+         SET status = 'dead', processed_at = CURRENT_TIMESTAMP, last_attempt_at = CURRENT_TIMESTAMP,
+             locked_at = NULL, error_message = $2, email_log_id = $3
+         WHERE id = $1`,
+        [job.id, sendResult.error, sendResult.logId || null]
+      );
+      console.error(`❌ Email queue item ${job.id} (${job.template_type} → ${job.recipient_email}) moved to dead-letter: ${sendResult.error}`);
+      return 'dead';
+    }
+
+    // Exponential backoff: base, 2x base, 4x base, ...
+    const delaySeconds = this.backoffBaseSeconds * Math.pow(2, job.attempts - 1);
+
+    await this.pool.query(
+      `UPDATE email_queue
+       SET status = 'pending', last_attempt_at = CURRENT_TIMESTAMP, locked_at = NULL,
+           scheduled_for = CURRENT_TIMESTAMP + ($2 || ' seconds')::interval,
+           error_message = $3, email_log_id = $4
+       WHERE id = $1`,
+      [job.id, delaySeconds, sendResult.error, sendResult.logId || null]
+    );
+    console.warn(`⚠️ Email queue item ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying in ${delaySeconds}s`);
+    return 'retried';
+  }
+
+  /**
+   * Get queue counts by state
+   */
+  async getStats(): Promise<EmailQueueStats> {
+    const result = await this.pool.query(
+      `SELECT status, COUNT(*)::int AS count FROM email_queue GROUP BY status`
+    );
+
+    const stats: EmailQueueStats = { pending: 0, processing: 0, sent: 0, dead: 0 };
+    for (const row of result.rows) {
+      if (row.status in stats) {
+        stats[row.status as keyof EmailQueueStats] = row.count;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * List queue rows, newest first
+   */
+  async listQueue(status: EmailQueue['status'] = 'dead', limit: number = 50, offset: number = 0): Promise<EmailQueue[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM email_queue
+       WHERE status = $1
+       ORDER BY COALESCE(processed_at, created_at) DESC
+       LIMIT $2 OFFSET $3`,
+      [status, limit, offset]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Put a dead-lettered email back on the queue with a fresh set of attempts
+   */
+  async requeue(id: number): Promise<EmailQueue> {
+    const existing = await this.pool.query('SELECT status FROM email_queue WHERE id = $1', [id]);
+
+    if (existing.rows.length === 0) {
+      throw new NotFoundError('Queued email', { id });
+    }
+
+    if (existing.rows[0].status !== 'dead' && existing.rows[0].status !== 'failed') {
+      throw new ValidationError('Only dead-lettered emails can be requeued', { status: existing.rows[0].status });
+    }
+
+    const result = await this.pool.query(
+      `UPDATE email_queue
+       SET status = 'pending', attempts = 0, scheduled_for = CURRENT_TIMESTAMP,
+           processed_at = NULL, locked_at = NULL
+       WHERE id = $1
+       RETURNING *`,
+      [id]
+    );
+
+    return result.rows[0];
+  }
+}
@@ -113,7 +113,7 @@ export class EmailService {
       }
 
       if (!template.is_active) {
-        return { success: false, error: 'Template is inactive' };
+        return { success: false, error: 'Template is inactive', permanent: true };
       }
 
       // Determine region (default to 'us' for backward compatibility)
@@ -313,7 +313,8 @@ export class EmailService {
 
       return {
         success: false,
-        error: error.message
+        error: error.message,
+        permanent: error instanceof NotFoundError
       };
     } finally {
       client.release();
@@ -454,19 +455,70 @@ export class EmailService {
 
   /**
    * Add email to queue for async processing
+   * Rows are picked up by EmailQueueService via the email-queue-worker cron job
    */
-  async queueEmail(options: SendEmailOptions, priority: number = 0): Promise<void> {
-    await this.pool.query(
-      `INSERT INTO email_queue (template_type, recipient_email, recipient_name, variables, priority)
-       VALUES ($1, $2, $3, $4, $5)`,
+  async queueEmail(options: SendEmailOptions, priority: number = 0): Promise<number> {
+    const maxAttempts = parseInt(process.env.EMAIL_QUEUE_MAX_ATTEMPTS || '5', 10);
+
+    const result = await this.pool.query(
+      `INSERT INTO email_queue (template_type, recipient_email, recipient_name, variables, priority, region, max_attempts)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
       [
         options.templateType,
         options.recipientEmail,
         options.recipientName,
         options.variables,
-        priority
+        priority,
+        options.region || 'us',
+        maxAttempts
       ]
     );
+
+    return result.rows[0].id;
+  }
+
+  /**
+   * Queue emails for an event instead of sending them inline
+   * Same template and recipient resolution as triggerEvent, but delivery is retried
+   * by the queue worker so an SMTP outage does not drop the email
+   *
+   * @returns IDs of the queued email_queue rows
+   */
+  async queueEvent(
+    event: string,
+    variables: Record<string, any>,
+    recipientInfo: {
+      customerEmail?: string;
+      customerName?: string;
+      adminEmail?: string;
+    },
+    region: 'us' | 'eu' = 'us',
+    priority: number = 0
+  ): Promise<number[]> {
+    const templatesResult = await this.pool.query(
+      `SELECT * FROM email_templates
+       WHERE trigger_event = $1 AND is_active = true
+       ORDER BY id`,
+      [event]
+    );
+
+    const queuedIds: number[] = [];
+
+    for (const template of templatesResult.rows) {
+      for (const recipient of this.getEventRecipients(template, recipientInfo)) {
+        const id = await this.queueEmail({
+          templateType: template.type,
+          recipientEmail: recipient.email,
+          recipientName: recipient.name,
+          variables,
+          region
+        }, priority);
+        queuedIds.push(id);
+      }
+    }
+
+    return queuedIds;
   }
 
   /**
@@ -508,54 +560,7 @@ export class EmailService {
       // Send email for each matching template
       for (const template of templates) {
         try {
-          // Determine recipients based on recipient_type
-          const recipients: Array<{ email: string; name?: string }> = [];
-
-          if (template.recipient_type === 'admin') {
-            // Admin recipients
-            if (template.custom_recipient_email) {
-              recipients.push({ email: template.custom_recipient_email, name: 'SimFab Admin' });
-            } else if (template.default_recipients && template.default_recipients.length > 0) {
-              template.default_recipients.forEach((email: string) => {
-                recipients.push({ email, name: 'SimFab Admin' });
-              });
-            } else {
-              // Default admin email
-              recipients.push({ email: recipientInfo.adminEmail || 'info@simfab.com', name: 'SimFab Admin' });
-            }
-          } else if (template.recipient_type === 'customer') {
-            // Customer recipients
-            if (!recipientInfo.customerEmail) {
-              console.warn(`📧 Skipping template ${template.type}: No customer email provided`);
-              continue;
-            }
-            recipients.push({
-              email: recipientInfo.customerEmail,
-              name: recipientInfo.customerName || recipientInfo.customerEmail
-            });
-          } else if (template.recipient_type === 'both') {
-            // Both admin and customer
-            if (recipientInfo.customerEmail) {
-              recipients.push({
-                email: recipientInfo.customerEmail,
-                name: recipientInfo.customerName || recipientInfo.customerEmail
-              });
-            }
-            
-            // Add admin recipients
-            if (template.custom_recipient_email) {
-              recipients.push({ email: template.custom_recipient_email, name: 'SimFab Admin' });
-            } else if (template.default_recipients && template.default_recipients.length > 0) {
-              template.default_recipients.forEach((email: string) => {
-                recipients.push({ email, name: 'SimFab Admin' });
-              });
-            } else {
-              recipients.push({ email: recipientInfo.adminEmail || 'info@simfab.com', name: 'SimFab Admin' });
-            }
-          } else if (template.recipient_type === 'custom' && template.custom_recipient_email) {
-            // Custom recipient
-            recipients.push({ email: template.custom_recipient_email, name: 'Recipient' });
-          }
+          const recipients = this.getEventRecipients(template, recipientInfo);
 
           // Send email to each recipient
           for (const recipient of recipients) {
@@ -594,6 +599,64 @@ export class EmailService {
     return results;
   }
 
+  /**
+   * Resolve recipients for an event template based on its recipient_type
+   */
+  private getEventRecipients(
+    template: EmailTemplate,
+    recipientInfo: { customerEmail?: string; customerName?: string; adminEmail?: string }
+  ): Array<{ email: string; name?: string }> {
+    const recipients: Array<{ email: string; name?: string }> = [];
+
+    if (template.recipient_type === 'admin') {
+      // Admin recipients
+      if (template.custom_recipient_email) {
+        recipients.push({ email: template.custom_recipient_email, name: 'SimFab Admin' });
+      } else if (template.default_recipients && template.default_recipients.length > 0) {
+        template.default_recipients.forEach((email: string) => {
+          recipients.push({ email, name: 'SimFab Admin' });
+        });
+      } else {
+        // Default admin email
+        recipients.push({ email: recipientInfo.adminEmail || 'info@simfab.com', name: 'SimFab Admin' });
+      }
+    } else if (template.recipient_type === 'customer') {
+      // Customer recipients
+      if (!recipientInfo.customerEmail) {
+        console.warn(`📧 Skipping template ${template.type}: No customer email provided`);
+        return recipients;
+      }
+      recipients.push({
+        email: recipientInfo.customerEmail,
+        name: recipientInfo.customerName || recipientInfo.customerEmail
+      });
+    } else if (template.recipient_type === 'both') {
+      // Both admin and customer
+      if (recipientInfo.customerEmail) {
+        recipients.push({
+          email: recipientInfo.customerEmail,
+          name: recipientInfo.customerName || recipientInfo.customerEmail
+        });
+      }
+
+      // Add admin recipients
+      if (template.custom_recipient_email) {
+        recipients.push({ email: template.custom_recipient_email, name: 'SimFab Admin' });
+      } else if (template.default_recipients && template.default_recipients.length > 0) {
+        template.default_recipients.forEach((email: string) => {
+          recipients.push({ email, name: 'SimFab Admin' });
+        });
+      } else {
+        recipients.push({ email: recipientInfo.adminEmail || 'info@simfab.com', name: 'SimFab Admin' });
+      }
+    } else if (template.recipient_type === 'custom' && template.custom_recipient_email) {
+      // Custom recipient
+      recipients.push({ email: template.custom_recipient_email, name: 'Recipient' });
+    }
+
+    return recipients;
+  }
+
   /**
    * Send marketing email with automatic unsubscribe footer
    * This method ensures GDPR compliance by always including an unsubscribe link
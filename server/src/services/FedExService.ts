@@ -1,6 +1,9 @@
 /**
  * FedEx Service
- * Handles integration with FedEx Rates and Transit Times API
+ * Handles integration with FedEx Rates and Transit Times API, the Ship API
+ * (shipment creation, labels and cancellation) and the Track API.
+ * The HTTP client can be injected and FEDEX_API_BASE_URL overrides the API host,
+ * so a local fake FedEx server can stand in for the sandbox.
  */
 
 import { Pool } from 'pg';
@@ -10,32 +13,60 @@ import {
   FedExRateResult,
   FedExAddress,
   FedExConfig,
-  PackageSizeMapping
+  PackageSizeMapping,
+  FedExShipmentRequest,
+  FedExShipmentResult,
+  FedExCancelResult,
+  FedExContact,
+  FedExShipmentPiece,
+  FedExTrackResult,
+  FedExTrackingInfo
 } from '../types/fedex';
+import { Parcel } from '../types/shipping';
+
+export type FedExHttpClient = (url: string, init: RequestInit) => Promise<Response>;
 
 export class FedExService {
   private pool: Pool;
+  private httpClient: FedExHttpClient;
   private config: FedExConfig | null = null;
+  private configLoaded: Promise<void>;
   private accessToken: string | null = null;
   private tokenExpiresAt: Date | null = null;
 
-  constructor(pool: Pool) {
+  constructor(pool: Pool, httpClient: FedExHttpClient = fetch) {
     this.pool = pool;
+    this.httpClient = httpClient;
     // Load config asynchronously - it will be ready before first API call
-    this.loadConfig().catch(error => {
+    this.configLoaded = this.loadConfig().catch(error => {
       console.error('Failed to load FedEx config:', error);
     });
   }
 
+  /**
+   * FedEx API host for the configured environment, or FEDEX_API_BASE_URL when set
+   */
+  private getBaseUrl(): string {
+    if (process.env.FEDEX_API_BASE_URL) {
+      return process.env.FEDEX_API_BASE_URL.replace(/\/$/, '');
+    }
+
+    return this.config?.environment === 'sandbox'
+      ? 'https://apis-sandbox.fedex.com'
+      : 'https://apis.fedex.com';
+  }
+
   /**
    * Get warehouse address from database, env var, or default
    */
   private async getWarehouseAddress(region: 'us' | 'eu' = 'us'): Promise<FedExAddress> {
-    // Try database first
+    // Try database first: the region's default warehouse, then the legacy region setting
     try {
       const result = await this.pool.query(
-        `SELECT setting_value FROM region_settings 
-         WHERE region = $1 AND setting_key = 'fedex_warehouse_address'`,
+        `SELECT COALESCE(
+           (SELECT address::text FROM warehouses WHERE region = $1 AND is_default = true AND is_active = true),
+           (SELECT setting_value FROM region_settings WHERE region = $1 AND setting_key = 'fedex_warehouse_address')
+         ) AS setting_value`,
         [region]
       );
 
@@ -132,12 +163,10 @@ export class FedExService {
       throw new Error('FedEx API not configured');
     }
 
-    const baseUrl = this.config.environment === 'sandbox'
-      ? 'https://apis-sandbox.fedex.com'
-      : 'https://apis.fedex.com';
+    const baseUrl = this.getBaseUrl();
 
     try {
-      const response = await fetch(`${baseUrl}/oauth/token`, {
+      const response = await this.httpClient(`${baseUrl}/oauth/token`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded'
@@ -331,17 +360,17 @@ export class FedExService {
   }
 
   /**
-   * Build package line items from cart items
+   * Build package line items from the packed parcels, one per parcel
    */
-  private async buildPackageLineItems(
-    cartItems?: Array<{ productId: number; quantity: number; unitPrice: number }>,
+  private buildPackageLineItems(
+    parcels?: Parcel[],
     packageSize: 'S' | 'M' | 'L' = 'M'
-  ): Promise<Array<{
+  ): Array<{
     weight: { value: number; units: string };
     dimensions: { length: number; width: number; height: number; units: string };
-  }>> {
-    // If no cart items, use package size mapping
-    if (!cartItems || cartItems.length === 0) {
+  }> {
+    // If nothing was packed, use package size mapping
+    if (!parcels || parcels.length === 0) {
       const mapping = this.getPackageSizeMapping(packageSize);
       return [{
         weight: { value: mapping.weight, units: 'LB' },
@@ -354,95 +383,16 @@ export class FedExService {
       }];
     }
 
-    // Query product package data from database
-    const productIds = cartItems.map(item => item.productId);
-    const client = await this.pool.connect();
-    
-    try {
-      const result = await client.query(
-        `SELECT id, package_weight, package_weight_unit, package_length, package_width, package_height, package_dimension_unit, name
-         FROM products 
-         WHERE id = ANY($1::int[])`,
-        [productIds]
-      );
-
-      const productsMap = new Map(
-        result.rows.map(row => [row.id, row])
-      );
-
-      const packageLineItems: Array<{
-        weight: { value: number; units: string };
-        dimensions: { length: number; width: number; height: number; units: string };
-      }> = [];
-
-      // Create one package per item (repeat for quantity > 1)
-      for (const item of cartItems) {
-        const product = productsMap.get(item.productId);
-        
-        if (product && product.package_weight && product.package_length && product.package_width && product.package_height) {
-          // Convert weight to lbs
-          let weightLbs = product.package_weight;
-          if (product.package_weight_unit === 'kg') {
-            weightLbs = product.package_weight * 2.20462;
-          }
-
-          // Convert dimensions to inches
-          let lengthIn = product.package_length;
-          let widthIn = product.package_width;
-          let heightIn = product.package_height;
-          if (product.package_dimension_unit === 'cm') {
-            lengthIn = product.package_length / 2.54;
-            widthIn = product.package_width / 2.54;
-            heightIn = product.package_height / 2.54;
-          }
-
-          // Create one package per quantity
-          for (let i = 0; i < item.quantity; i++) {
-            packageLineItems.push({
-              weight: { value: weightLbs, units: 'LB' },
-              dimensions: {
-                length: lengthIn,
-                width: widthIn,
-                height: heightIn,
-                units: 'IN'
-              }
-            });
-          }
-        } else {
-          // Fallback to package size mapping if product data missing
-          console.warn(`Product ${item.productId} missing package dimensions, using packageSize mapping`);
-          const mapping = this.getPackageSizeMapping(packageSize);
-          for (let i = 0; i < item.quantity; i++) {
-            packageLineItems.push({
-              weight: { value: mapping.weight, units: 'LB' },
-              dimensions: {
-                length: mapping.dimensions.length,
-                width: mapping.dimensions.width,
-                height: mapping.dimensions.height,
-                units: 'IN'
-              }
-            });
-          }
-        }
+    // FedEx expects whole-inch dimensions
+    return parcels.map(parcel => ({
+      weight: { value: Math.max(0.1, Math.round(parcel.weightLbs * 10) / 10), units: 'LB' },
+      dimensions: {
+        length: Math.ceil(parcel.length),
+        width: Math.ceil(parcel.width),
+        height: Math.ceil(parcel.height),
+        units: 'IN'
       }
-
-      if (packageLineItems.length === 0) {
-        const mapping = this.getPackageSizeMapping(packageSize);
-        return [{
-          weight: { value: mapping.weight, units: 'LB' },
-          dimensions: {
-            length: mapping.dimensions.length,
-            width: mapping.dimensions.width,
-            height: mapping.dimensions.height,
-            units: 'IN'
-          }
-        }];
-      }
-
-      return packageLineItems;
-    } finally {
-      client.release();
-    }
+    }));
   }
 
   /**
@@ -522,6 +472,24 @@ export class FedExService {
     }
   }
 
+  /**
+   * Customs items for a rate quote from the packed parcels, the order value spread over the units
+   */
+  private getParcelCustomsItems(
+    parcels: Parcel[] | undefined,
+    orderValue: number
+  ): Array<{ productId: number; quantity: number; unitPrice: number }> {
+    const quantities = new Map<number, number>();
+    for (const content of (parcels || []).flatMap(parcel => parcel.contents)) {
+      quantities.set(content.productId, (quantities.get(content.productId) || 0) + content.quantity);
+    }
+
+    const totalUnits = Array.from(quantities.values()).reduce((sum, quantity) => sum + quantity, 0);
+    const unitPrice = totalUnits > 0 ? Math.round(orderValue / totalUnits * 100) / 100 : 0;
+
+    return Array.from(quantities, ([productId, quantity]) => ({ productId, quantity, unitPrice }));
+  }
+
   /**
    * Get shipping rates from FedEx API
    */
@@ -529,7 +497,7 @@ export class FedExService {
     destinationAddress: FedExAddress,
     packageSize: 'S' | 'M' | 'L',
     orderValue: number = 100.00,
-    cartItems?: Array<{ productId: number; quantity: number; unitPrice: number }>
+    parcels?: Parcel[]
   ): Promise<FedExRateResult> {
     console.log('🚀 FedEx getRates called:', { destinationAddress, packageSize });
     
@@ -551,10 +519,10 @@ export class FedExService {
       environment: this.config.environment
     });
 
-    // Only use cache if we don't have cart items (static package size)
-    // When we have cart items, package count and dimensions vary, so we can't cache
+    // Only use cache if nothing was packed (static package size)
+    // Packed parcels vary in count and dimensions, so we can't cache
     let cached: FedExRateResult | null = null;
-    if (!cartItems || cartItems.length === 0) {
+    if (!parcels || parcels.length === 0) {
       cached = await this.getCachedRate(
         destinationAddress.countryCode,
         destinationAddress.postalCode,
@@ -563,11 +531,11 @@ export class FedExService {
       );
 
       if (cached) {
-        console.log('✅ Using cached rate (no cart items, static package size)');
+        console.log('✅ Using cached rate (no parcels, static package size)');
         return cached;
       }
     } else {
-      console.log('⚠️ Skipping cache - cart items provided, package count/dimensions vary');
+      console.log('⚠️ Skipping cache - parcels provided, package count/dimensions vary');
     }
 
     try {
@@ -575,16 +543,11 @@ export class FedExService {
       const accessToken = await this.getAccessToken();
       console.log('✅ FedEx access token obtained');
 
-      // Build package line items from cart items or use package size mapping
-      const packageLineItems = await this.buildPackageLineItems(cartItems, packageSize);
-      console.log(`📦 Built ${packageLineItems.length} package line items from ${cartItems?.length || 0} cart items`);
-      if (cartItems && cartItems.length > 0) {
-        const totalQuantity = cartItems.reduce((sum, item) => sum + item.quantity, 0);
-        console.log(`📊 Cart items breakdown: ${cartItems.map(i => `Product ${i.productId} x${i.quantity}`).join(', ')} (Total quantity: ${totalQuantity})`);
-        console.log(`📦 Package breakdown: ${packageLineItems.length} packages (expected: ${totalQuantity})`);
-        if (packageLineItems.length > 0) {
-          console.log(`📏 First package: ${packageLineItems[0].weight.value}${packageLineItems[0].weight.units}, ${packageLineItems[0].dimensions.length}x${packageLineItems[0].dimensions.width}x${packageLineItems[0].dimensions.height} ${packageLineItems[0].dimensions.units}`);
-        }
+      // Build package line items from the packed parcels or use package size mapping
+      const packageLineItems = this.buildPackageLineItems(parcels, packageSize);
+      console.log(`📦 Built ${packageLineItems.length} package line items from ${parcels?.length || 0} parcels`);
+      for (const lineItem of packageLineItems) {
+        console.log(`📏 Package: ${lineItem.weight.value}${lineItem.weight.units}, ${lineItem.dimensions.length}x${lineItem.dimensions.width}x${lineItem.dimensions.height} ${lineItem.dimensions.units}`);
       }
 
       // Check if account number is a placeholder (not a real account)
@@ -638,7 +601,7 @@ export class FedExService {
 
       // Add customs clearance details for international shipments
       if (isInternational) {
-        const commodities = await this.buildCustomsCommodities(cartItems, packageSize);
+        const commodities = await this.buildCustomsCommodities(this.getParcelCustomsItems(parcels, orderValue), packageSize);
         const totalCustomsValue = commodities.reduce((sum, c) => sum + c.customsValue.amount, 0);
         
         rateRequest.requestedShipment.customsClearanceDetail = {
@@ -668,13 +631,11 @@ export class FedExService {
       }
 
       // Make API request
-      const baseUrl = this.config.environment === 'sandbox'
-        ? 'https://apis-sandbox.fedex.com'
-        : 'https://apis.fedex.com';
+      const baseUrl = this.getBaseUrl();
 
       console.log('📦 FedEx Rate Request:', JSON.stringify(rateRequest, null, 2));
       
-      const response = await fetch(`${baseUrl}/rate/v1/rates/quotes`, {
+      const response = await this.httpClient(`${baseUrl}/rate/v1/rates/quotes`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -871,9 +832,9 @@ export class FedExService {
         rawResponse: data
       };
 
-      // Only cache if we don't have cart items (static package size)
-      // When we have cart items, package count and dimensions vary, so we can't cache
-      if (!cartItems || cartItems.length === 0) {
+      // Only cache if nothing was packed (static package size)
+      // Packed parcels vary in count and dimensions, so we can't cache
+      if (!parcels || parcels.length === 0) {
         await this.cacheRate(
           destinationAddress.countryCode,
           destinationAddress.postalCode,
@@ -882,7 +843,7 @@ export class FedExService {
           destinationAddress.stateOrProvinceCode
         );
       } else {
-        console.log('⚠️ Not caching rate - cart items provided, package count/dimensions vary');
+        console.log('⚠️ Not caching rate - parcels provided, package count/dimensions vary');
       }
 
       return result;
@@ -897,5 +858,343 @@ export class FedExService {
       };
     }
   }
+
+  /**
+   * Whether the configured account can be billed for labels (rates fall back to a sandbox account)
+   */
+  private hasBillableAccount(): boolean {
+    const accountNumber = this.config?.accountNumber;
+    return !!accountNumber &&
+      accountNumber !== 'your_fedex_account_number' &&
+      accountNumber !== '123456789';
+  }
+
+  /**
+   * Shipper contact printed on labels
+   */
+  private getShipperContact(): FedExContact {
+    return {
+      personName: process.env.FEDEX_SHIPPER_NAME || 'Shipping Department',
+      companyName: process.env.FEDEX_SHIPPER_COMPANY || 'SimFab',
+      phoneNumber: process.env.FEDEX_SHIPPER_PHONE || '0000000000'
+    };
+  }
+
+  /**
+   * Create a shipment and return one PDF label per parcel
+   */
+  async createShipment(request: FedExShipmentRequest): Promise<FedExShipmentResult> {
+    await this.configLoaded;
+
+    if (!this.config) {
+      return {
+        success: false,
+        error: {
+          code: 'CONFIG_ERROR',
+          message: 'FedEx API not configured'
+        }
+      };
+    }
+
+    if (!this.hasBillableAccount()) {
+      return {
+        success: false,
+        error: {
+          code: 'CONFIG_ERROR',
+          message: 'A FedEx account number is required to create labels'
+        }
+      };
+    }
+
+    try {
+      const accessToken = await this.getAccessToken();
+      const shipFromAddress = await this.getWarehouseAddress(request.region || 'us');
+      const isInternational = request.recipient.address.countryCode !== shipFromAddress.countryCode;
+      const packageLineItems = this.buildPackageLineItems(request.parcels).map((lineItem, index) => ({
+        sequenceNumber: index + 1,
+        ...lineItem,
+        ...(request.reference && {
+          customerReferences: [{ customerReferenceType: 'CUSTOMER_REFERENCE', value: request.reference }]
+        })
+      }));
+
+      const shipRequest: any = {
+        labelResponseOptions: 'LABEL',
+        accountNumber: {
+          value: this.config.accountNumber
+        },
+        requestedShipment: {
+          shipper: {
+            contact: this.getShipperContact(),
+            address: shipFromAddress
+          },
+          recipients: [request.recipient],
+          serviceType: request.serviceType,
+          packagingType: 'YOUR_PACKAGING',
+          pickupType: 'USE_SCHEDULED_PICKUP',
+          shippingChargesPayment: {
+            paymentType: 'SENDER'
+          },
+          labelSpecification: {
+            imageType: 'PDF',
+            labelStockType: 'PAPER_85X11_TOP_HALF_LABEL'
+          },
+          totalPackageCount: packageLineItems.length,
+          requestedPackageLineItems: packageLineItems
+        }
+      };
+
+      // Add customs clearance details for international shipments
+      if (isInternational) {
+        const commodities = await this.buildCustomsCommodities(request.items);
+        const totalCustomsValue = commodities.reduce((sum, c) => sum + c.customsValue.amount, 0);
+
+        shipRequest.requestedShipment.customsClearanceDetail = {
+          dutiesPayment: {
+            paymentType: 'RECIPIENT'
+          },
+          isDocumentOnly: false,
+          totalCustomsValue: {
+            amount: totalCustomsValue || request.orderValue,
+            currency: 'USD'
+          },
+          commodities: commodities.map(commodity => ({
+            ...commodity,
+            countryOfManufacture: shipFromAddress.countryCode,
+            quantityUnits: 'PCS',
+            harmonizedCode: commodity.tariffCode
+          }))
+        };
+      }
+
+      const response = await this.httpClient(`${this.getBaseUrl()}/ship/v1/shipments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+          'X-locale': 'en_US'
+        },
+        body: JSON.stringify(shipRequest)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ FedEx Ship API error:', errorText);
+        return {
+          success: false,
+          error: {
+            code: 'API_ERROR',
+            message: `FedEx API returned ${response.status}: ${errorText.substring(0, 200)}`
+          }
+        };
+      }
+
+      const data: any = await response.json();
+      const shipment = data.output?.transactionShipments?.[0];
+
+      if (!shipment || !shipment.masterTrackingNumber) {
+        return {
+          success: false,
+          error: {
+            code: 'NO_SHIPMENT',
+            message: 'No shipment in FedEx API response'
+          }
+        };
+      }
+
+      const pieceResponses: any[] = shipment.pieceResponses || [];
+      const pieces: FedExShipmentPiece[] = pieceResponses.map((piece, index) => {
+        const label = (piece.packageDocuments || []).find((document: any) => document.encodedLabel);
+        return {
+          trackingNumber: piece.trackingNumber,
+          labelData: label?.encodedLabel || null,
+          labelFormat: label?.docType || 'PDF',
+          parcel: request.parcels[index] || null
+        };
+      });
+
+      return {
+        success: true,
+        masterTrackingNumber: shipment.masterTrackingNumber,
+        serviceType: shipment.serviceType || request.serviceType,
+        totalCharge: shipment.completedShipmentDetail?.shipmentRating?.shipmentRateDetails?.[0]?.totalNetCharge,
+        pieces
+      };
+    } catch (error) {
+      console.error('FedEx shipment request failed:', error);
+      return {
+        success: false,
+        error: {
+          code: 'REQUEST_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        }
+      };
+    }
+  }
+
+  /**
+   * Cancel a shipment (all of its packages) by master tracking number
+   */
+  async cancelShipment(trackingNumber: string, region: 'us' | 'eu' = 'us'): Promise<FedExCancelResult> {
+    await this.configLoaded;
+
+    if (!this.config || !this.hasBillableAccount()) {
+      return {
+        success: false,
+        error: {
+          code: 'CONFIG_ERROR',
+          message: 'FedEx API not configured'
+        }
+      };
+    }
+
+    try {
+      const accessToken = await this.getAccessToken();
+      const shipFromAddress = await this.getWarehouseAddress(region);
+
+      const response = await this.httpClient(`${this.getBaseUrl()}/ship/v1/shipments/cancel`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+          'X-locale': 'en_US'
+        },
+        body: JSON.stringify({
+          accountNumber: {
+            value: this.config.accountNumber
+          },
+          senderCountryCode: shipFromAddress.countryCode,
+          deletionControl: 'DELETE_ALL_PACKAGES',
+          trackingNumber
+        })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ FedEx cancel shipment error:', errorText);
+        return {
+          success: false,
+          error: {
+            code: 'API_ERROR',
+            message: `FedEx API returned ${response.status}: ${errorText.substring(0, 200)}`
+          }
+        };
+      }
+
+      const data: any = await response.json();
+      if (data.output && data.output.cancelledShipment === false) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_CANCELLED',
+            message: data.output.message || 'FedEx did not cancel the shipment'
+          }
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('FedEx cancel shipment request failed:', error);
+      return {
+        success: false,
+        error: {
+          code: 'REQUEST_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        }
+      };
+    }
+  }
+
+  /**
+   * Track up to 30 shipments by tracking number
+   */
+  async trackShipments(trackingNumbers: string[]): Promise<FedExTrackResult> {
+    await this.configLoaded;
+
+    if (!this.config) {
+      return {
+        success: false,
+        error: {
+          code: 'CONFIG_ERROR',
+          message: 'FedEx API not configured'
+        }
+      };
+    }
+
+    if (trackingNumbers.length === 0) {
+      return { success: true, results: [] };
+    }
+
+    try {
+      const accessToken = await this.getAccessToken();
+
+      const response = await this.httpClient(`${this.getBaseUrl()}/track/v1/trackingnumbers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+          'X-locale': 'en_US'
+        },
+        body: JSON.stringify({
+          includeDetailedScans: true,
+          trackingInfo: trackingNumbers.slice(0, 30).map(trackingNumber => ({
+            trackingNumberInfo: { trackingNumber }
+          }))
+        })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ FedEx Track API error:', errorText);
+        return {
+          success: false,
+          error: {
+            code: 'API_ERROR',
+            message: `FedEx API returned ${response.status}: ${errorText.substring(0, 200)}`
+          }
+        };
+      }
+
+      const data: any = await response.json();
+      const completeResults: any[] = data.output?.completeTrackResults || [];
+
+      const results: FedExTrackingInfo[] = completeResults.map(complete => {
+        const track = complete.trackResults?.[0] || {};
+        const latest = track.latestStatusDetail || {};
+        const dates: any[] = track.dateAndTimes || [];
+        const findDate = (type: string) => dates.find(date => date.type === type)?.dateTime || null;
+
+        return {
+          trackingNumber: complete.trackingNumber,
+          found: !track.error,
+          statusCode: latest.derivedCode || latest.code || null,
+          statusDescription: latest.description || latest.statusByLocale || null,
+          estimatedDelivery: findDate('ESTIMATED_DELIVERY'),
+          actualDelivery: findDate('ACTUAL_DELIVERY'),
+          events: (track.scanEvents || []).map((event: any) => {
+            const location = event.scanLocation || {};
+            const place = [location.city, location.stateOrProvinceCode, location.countryCode].filter(Boolean).join(', ');
+            return {
+              code: event.derivedStatusCode || event.eventType || '',
+              description: event.eventDescription || event.derivedStatus || '',
+              timestamp: event.date,
+              location: place || null
+            };
+          })
+        };
+      });
+
+      return { success: true, results };
+    } catch (error) {
+      console.error('FedEx track request failed:', error);
+      return {
+        success: false,
+        error: {
+          code: 'REQUEST_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        }
+      };
+    }
+  }
 }
 
@@ -0,0 +1,157 @@
+/**
+ * Guest Order Service
+ * Signed magic links that let guests open an order with its number and email, and
+ * attaching guest orders to an account once the account email is proven
+ */
+
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import { EmailService } from './EmailService';
+import { ValidationError } from '../utils/errors';
+
+const LINK_TTL_HOURS = parseInt(process.env.ORDER_LINK_TTL_HOURS || '72', 10);
+
+type Region = 'us' | 'eu';
+
+interface LookupTokenPayload {
+  orderNumber: string;
+  email: string;
+  expiresAt: number;
+}
+
+export class GuestOrderService {
+  private emailService: EmailService;
+  private signingKey: string;
+
+  constructor(private pool: Pool, emailService?: EmailService) {
+    if (emailService) {
+      this.emailService = emailService;
+    } else {
+      this.emailService = new EmailService(pool);
+      this.emailService.initialize();
+    }
+    this.signingKey = process.env.ORDER_LINK_SECRET || process.env.SESSION_SECRET || 'your-secret-key-change-in-production';
+  }
+
+  /**
+   * Email a link to the order when the number and email match. Callers respond the same
+   * way either way so order numbers cannot be probed.
+   */
+  async requestLookupLink(orderNumber: string, email: string, region: Region = 'us'): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT order_number, customer_email, billing_address
+       FROM orders
+       WHERE order_number = $1 AND LOWER(customer_email) = LOWER($2)`,
+      [String(orderNumber || '').trim(), String(email || '').trim()]
+    );
+    const order = result.rows[0];
+    if (!order) {
+      return false;
+    }
+
+    const token = this.signToken({
+      orderNumber: order.order_number,
+      email: order.customer_email.toLowerCase(),
+      expiresAt: Date.now() + LINK_TTL_HOURS * 60 * 60 * 1000
+    });
+
+    let customerName = order.customer_email;
+    try {
+      const billingAddress = typeof order.billing_address === 'string'
+        ? JSON.parse(order.billing_address)
+        : order.billing_address;
+      if (billingAddress?.firstName) {
+        customerName = billingAddress.firstName;
+      }
+    } catch {
+      // Fall back to the email address
+    }
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    await this.emailService.triggerEvent(
+      'order.lookup_link',
+      {
+        customer_name: customerName,
+        order_number: order.order_number,
+        order_url: `${frontendUrl}/order-lookup?token=${encodeURIComponent(token)}`,
+        expire_hours: `${LINK_TTL_HOURS} hours`
+      },
+      {
+        customerEmail: order.customer_email,
+        customerName
+      },
+      region
+    );
+
+    return true;
+  }
+
+  /**
+   * Check a magic link. Returns the order number and the email it proves ownership of.
+   */
+  async redeemLookupToken(token: string): Promise<{ orderNumber: string; email: string }> {
+    const payload = this.verifyToken(token);
+    if (!payload || payload.expiresAt < Date.now()) {
+      throw new ValidationError('This order link is invalid or has expired');
+    }
+
+    // The order must still belong to the address the link was sent to
+    const result = await this.pool.query(
+      'SELECT order_number FROM orders WHERE order_number = $1 AND LOWER(customer_email) = $2',
+      [payload.orderNumber, payload.email]
+    );
+    if (result.rows.length === 0) {
+      throw new ValidationError('This order link is invalid or has expired');
+    }
+
+    return { orderNumber: payload.orderNumber, email: payload.email };
+  }
+
+  /**
+   * Attach guest orders placed with this email address to the account. Nothing is claimed
+   * unless it is the account's own email and the account has verified it.
+   */
+  async claimGuestOrders(userId: number, email: string): Promise<string[]> {
+    const result = await this.pool.query(
+      `UPDATE orders o SET user_id = u.id, updated_at = CURRENT_TIMESTAMP
+       FROM users u
+       WHERE u.id = $1 AND u.email_verified = true AND LOWER(u.email) = LOWER($2)
+         AND o.user_id IS NULL AND LOWER(o.customer_email) = LOWER(u.email)
+       RETURNING o.order_number`,
+      [userId, email]
+    );
+    return result.rows.map(row => row.order_number);
+  }
+
+  private signToken(payload: LookupTokenPayload): string {
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${data}.${this.sign(data)}`;
+  }
+
+  private verifyToken(token: string): LookupTokenPayload | null {
+    const [data, signature] = String(token || '').split('.');
+    if (!data || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(data));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf-8'));
+      if (typeof payload.orderNumber !== 'string' || typeof payload.email !== 'string' || typeof payload.expiresAt !== 'number') {
+        return null;
+      }
+      return payload;
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(data: string): string {
+    return crypto.createHmac('sha256', this.signingKey).update(data).digest('base64url');
+  }
+}
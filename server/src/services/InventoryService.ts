@@ -0,0 +1,627 @@
+/**
+ * Inventory Service
+ * The single write path for product and variation option stock. Stock is held per
+ * warehouse in warehouse_stock; products.stock and variation_options.stock_quantity
+ * are kept as the sum across locations. Every change to on-hand quantity appends a
+ * row to the inventory_movements ledger recording why it moved, where, who moved it
+ * and which document caused it. Stock arriving at a location is allocated to the
+ * backorder queue there before it becomes available to new orders.
+ */
+
+import { Pool } from 'pg';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import {
+  InventoryMovement,
+  InventoryMovementContext,
+  InventoryMovementFilters,
+  InventoryMovementWithDetails
+} from '../types/inventory';
+
+export interface InventoryMovementSummaryRow {
+  product_id: number;
+  variation_option_id: number | null;
+  product_name: string;
+  sku: string;
+  option_name: string | null;
+  units_in: number;
+  units_out: number;
+  units_sold: number;
+  units_refunded: number;
+  net_change: number;
+  movement_count: number;
+  current_stock: number | null;
+  low_stock_threshold: number | null;
+  last_movement_at: Date;
+}
+
+export interface StockTurnoverRow {
+  id: number;
+  product_name: string;
+  sku: string;
+  region: string | null;
+  current_stock: number;
+  sold_in_period: number;
+  turnover_ratio: number;
+  months_of_stock: number;
+  daily_velocity: number;
+  low_stock_amount: number | null;
+  is_low_stock: boolean;
+}
+
+export class InventoryService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Add (or with a negative delta, remove) product-level stock at a warehouse.
+   * Stock may go negative for backordered sales.
+   */
+  async adjustProductStock(
+    productId: number,
+    delta: number,
+    context: InventoryMovementContext,
+    transactionClient?: any
+  ): Promise<InventoryMovement> {
+    return this.withTransaction(transactionClient, async (client) => {
+      const row = await this.lockStockRow(client, productId, null, context.warehouseId);
+      const after = row.quantity + delta;
+
+      await client.query('UPDATE warehouse_stock SET quantity = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2', [after, row.id]);
+      await this.syncProductTotal(client, productId, false);
+
+      return this.recordMovement(client, productId, null, row.warehouse_id, delta, after, 0, context);
+    });
+  }
+
+  /**
+   * Set product-level stock at a warehouse to an absolute quantity and keep in_stock in line with the total.
+   * Returns null when the quantity did not change, so no movement is recorded.
+   */
+  async setProductStock(
+    productId: number,
+    quantity: number,
+    context: InventoryMovementContext,
+    transactionClient?: any
+  ): Promise<InventoryMovement | null> {
+    return this.withTransaction(transactionClient, async (client) => {
+      const row = await this.lockStockRow(client, productId, null, context.warehouseId);
+
+      await client.query('UPDATE warehouse_stock SET quantity = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2', [quantity, row.id]);
+      await this.syncProductTotal(client, productId, true);
+
+      const delta = quantity - row.quantity;
+      if (delta === 0) {
+        return null;
+      }
+
+      return this.recordMovement(client, productId, null, row.warehouse_id, delta, quantity, 0, context);
+    });
+  }
+
+  /**
+   * Add or remove stock on a variation option at a warehouse.
+   * Options with unmanaged (NULL) stock start counting from zero.
+   * @param options.reservedDelta - Change to the reserved quantity made in the same write (e.g. a sale consuming its reservation)
+   * @param options.allowNegative - Let stock go below zero (backordered sales); admin adjustments floor at zero
+   */
+  async adjustOptionStock(
+    optionId: number,
+    delta: number,
+    context: InventoryMovementContext,
+    transactionClient?: any,
+    options: { reservedDelta?: number; allowNegative?: boolean } = {}
+  ): Promise<InventoryMovement> {
+    const reservedDelta = options.reservedDelta || 0;
+
+    return this.withTransaction(transactionClient, async (client) => {
+      const productId = await this.getOptionProductId(client, optionId);
+      const row = await this.lockStockRow(client, productId, optionId, context.warehouseId);
+      const after = options.allowNegative ? row.quantity + delta : Math.max(0, row.quantity + delta);
+
+      await client.query(
+        `UPDATE warehouse_stock
+         SET quantity = $1, reserved_quantity = GREATEST(0, reserved_quantity + $2), updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3`,
+        [after, reservedDelta, row.id]
+      );
+      await this.syncOptionTotals(client, optionId, true);
+
+      return this.recordMovement(client, productId, optionId, row.warehouse_id, after - row.quantity, after, reservedDelta, context);
+    });
+  }
+
+  /**
+   * Set a variation option's stock at a warehouse to an absolute quantity.
+   * null makes the option's stock unmanaged at every location.
+   * Returns null when the quantity did not change.
+   */
+  async setOptionStock(
+    optionId: number,
+    quantity: number | null,
+    context: InventoryMovementContext,
+    transactionClient?: any
+  ): Promise<InventoryMovement | null> {
+    return this.withTransaction(transactionClient, async (client) => {
+      const productId = await this.getOptionProductId(client, optionId);
+
+      if (quantity === null) {
+        const current = await client.query(
+          'SELECT stock_quantity FROM variation_options WHERE id = $1 FOR UPDATE',
+          [optionId]
+        );
+        const previous: number | null = current.rows[0].stock_quantity;
+        if (previous === null) {
+          return null;
+        }
+
+        await client.query('DELETE FROM warehouse_stock WHERE variation_option_id = $1', [optionId]);
+        await client.query('UPDATE variation_options SET stock_quantity = NULL WHERE id = $1', [optionId]);
+
+        return this.recordMovement(client, productId, optionId, null, -previous, null, 0, context);
+      }
+
+      const managed = await client.query('SELECT stock_quantity FROM variation_options WHERE id = $1', [optionId]);
+      const wasUnmanaged = managed.rows[0].stock_quantity === null;
+      const row = await this.lockStockRow(client, productId, optionId, context.warehouseId);
+
+      await client.query('UPDATE warehouse_stock SET quantity = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2', [quantity, row.id]);
+      await this.syncOptionTotals(client, optionId, true);
+
+      const delta = quantity - row.quantity;
+      if (delta === 0 && !wasUnmanaged) {
+        return null;
+      }
+
+      return this.recordMovement(client, productId, optionId, row.warehouse_id, delta, quantity, 0, context);
+    });
+  }
+
+  /**
+   * Hold (positive) or give back (negative) quantity on a variation option at a warehouse
+   * for a pending order. Reservations are not stock movements, so no ledger row is written.
+   */
+  async changeOptionReservation(
+    optionId: number,
+    warehouseId: number | null,
+    delta: number,
+    transactionClient?: any
+  ): Promise<void> {
+    await this.withTransaction(transactionClient, async (client) => {
+      const productId = await this.getOptionProductId(client, optionId);
+      const row = await this.lockStockRow(client, productId, optionId, warehouseId);
+
+      await client.query(
+        `UPDATE warehouse_stock
+         SET reserved_quantity = GREATEST(0, reserved_quantity + $1), updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [delta, row.id]
+      );
+      await this.syncOptionTotals(client, optionId, false);
+    });
+  }
+
+  /**
+   * Give back quantity held by a lapsed reservation. On-hand stock is unchanged;
+   * the movement records the reserved quantity returning to availability.
+   */
+  async releaseOptionReservation(
+    optionId: number,
+    quantity: number,
+    context: InventoryMovementContext,
+    transactionClient?: any
+  ): Promise<InventoryMovement> {
+    return this.withTransaction(transactionClient, async (client) => {
+      const productId = await this.getOptionProductId(client, optionId);
+      const row = await this.lockStockRow(client, productId, optionId, context.warehouseId);
+
+      await client.query(
+        `UPDATE warehouse_stock
+         SET reserved_quantity = GREATEST(0, reserved_quantity - $1), updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [quantity, row.id]
+      );
+      const stockQuantity = await this.syncOptionTotals(client, optionId, false);
+
+      return this.recordMovement(
+        client,
+        productId,
+        optionId,
+        row.warehouse_id,
+        0,
+        stockQuantity === null ? null : row.quantity,
+        -quantity,
+        context
+      );
+    });
+  }
+
+  /**
+   * Ledger rows, newest first, with product/option names and the acting user
+   */
+  async getMovements(filters: InventoryMovementFilters = {}): Promise<{
+    movements: InventoryMovementWithDetails[];
+    pagination: { page: number; limit: number; total: number; totalPages: number; hasNext: boolean; hasPrevious: boolean };
+  }> {
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(Math.max(1, filters.limit || 50), 200);
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.productId) {
+      params.push(filters.productId);
+      conditions.push(`m.product_id = $${params.length}`);
+    }
+    if (filters.variationOptionId) {
+      params.push(filters.variationOptionId);
+      conditions.push(`m.variation_option_id = $${params.length}`);
+    }
+    if (filters.warehouseId) {
+      params.push(filters.warehouseId);
+      conditions.push(`m.warehouse_id = $${params.length}`);
+    }
+    if (filters.reason) {
+      params.push(filters.reason);
+      conditions.push(`m.reason = $${params.length}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await this.pool.query(
+      `SELECT COUNT(*) AS total FROM inventory_movements m ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0].total);
+    const totalPages = Math.ceil(total / limit);
+
+    const result = await this.pool.query(
+      `SELECT m.*,
+              p.name AS product_name, p.sku,
+              vo.option_name, v.name AS variation_name, w.code AS warehouse_code,
+              COALESCE(NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), ''), u.email) AS actor_name
+       FROM inventory_movements m
+       JOIN products p ON p.id = m.product_id
+       LEFT JOIN variation_options vo ON vo.id = m.variation_option_id
+       LEFT JOIN product_variations v ON v.id = vo.variation_id
+       LEFT JOIN warehouses w ON w.id = m.warehouse_id
+       LEFT JOIN users u ON u.id = m.actor_id
+       ${whereClause}
+       ORDER BY m.created_at DESC, m.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    return {
+      movements: result.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1
+      }
+    };
+  }
+
+  /**
+   * Per-SKU totals of ledger movements since a date, most active first
+   */
+  async getMovementSummary(since: Date, limit: number = 50): Promise<InventoryMovementSummaryRow[]> {
+    const result = await this.pool.query(
+      `SELECT m.product_id, m.variation_option_id,
+              p.name AS product_name, p.sku, vo.option_name,
+              COALESCE(SUM(m.delta) FILTER (WHERE m.delta > 0 AND m.reason <> 'transfer'), 0)::int AS units_in,
+              COALESCE(-SUM(m.delta) FILTER (WHERE m.delta < 0 AND m.reason <> 'transfer'), 0)::int AS units_out,
+              COALESCE(-SUM(m.delta) FILTER (WHERE m.reason = 'sale'), 0)::int AS units_sold,
+              COALESCE(SUM(m.delta) FILTER (WHERE m.reason = 'refund'), 0)::int AS units_refunded,
+              COALESCE(SUM(m.delta), 0)::int AS net_change,
+              COUNT(*)::int AS movement_count,
+              CASE WHEN m.variation_option_id IS NULL THEN p.stock ELSE vo.stock_quantity END AS current_stock,
+              CASE WHEN m.variation_option_id IS NULL THEN p.low_stock_amount ELSE vo.low_stock_threshold END AS low_stock_threshold,
+              MAX(m.created_at) AS last_movement_at
+       FROM inventory_movements m
+       JOIN products p ON p.id = m.product_id
+       LEFT JOIN variation_options vo ON vo.id = m.variation_option_id
+       WHERE m.created_at >= $1
+       GROUP BY m.product_id, m.variation_option_id, p.name, p.sku, p.stock, p.low_stock_amount,
+                vo.option_name, vo.stock_quantity, vo.low_stock_threshold
+       ORDER BY COUNT(*) DESC, MAX(m.created_at) DESC
+       LIMIT $2`,
+      [since, limit]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Units sold on paid orders per active product over the last `days` days, with
+   * turnover against current stock, months of stock left and units sold per day.
+   * The rate runs from the first sale in the window and never over less than a month.
+   */
+  async getStockTurnover(days: number, limit: number | null = null): Promise<StockTurnoverRow[]> {
+    const result = await this.pool.query(
+      `SELECT
+         p.id,
+         p.name AS product_name,
+         p.sku,
+         p.region,
+         p.stock AS current_stock,
+         COALESCE(SUM(oi.quantity) FILTER (WHERE o.id IS NOT NULL), 0)::int AS sold_in_period,
+         CASE
+           WHEN p.stock > 0 THEN
+             ROUND((COALESCE(SUM(oi.quantity) FILTER (WHERE o.id IS NOT NULL), 0) / p.stock) * 100) / 100
+           ELSE 0
+         END AS turnover_ratio,
+         CASE
+           WHEN COALESCE(SUM(oi.quantity) FILTER (WHERE o.id IS NOT NULL), 0) > 0 THEN
+             ROUND(p.stock / (COALESCE(SUM(oi.quantity) FILTER (WHERE o.id IS NOT NULL), 0) / GREATEST(EXTRACT(EPOCH FROM (CURRENT_DATE - MIN(o.created_at))) / 86400 / 30, 1)))
+           ELSE 999
+         END AS months_of_stock,
+         ROUND(
+           (COALESCE(SUM(oi.quantity) FILTER (WHERE o.id IS NOT NULL), 0)
+             / GREATEST(EXTRACT(EPOCH FROM (CURRENT_DATE - MIN(o.created_at))) / 86400, 30))::numeric,
+           3
+         )::float AS daily_velocity,
+         p.low_stock_amount,
+         CASE WHEN p.stock <= COALESCE(p.low_stock_amount, 10) THEN true ELSE false END AS is_low_stock
+       FROM products p
+       LEFT JOIN order_items oi ON oi.product_id = p.id
+       LEFT JOIN orders o ON o.id = oi.order_id AND o.payment_status = 'paid'
+         AND o.created_at >= CURRENT_DATE - ($1::int * INTERVAL '1 day')
+       WHERE p.status = 'active'
+       GROUP BY p.id, p.name, p.sku, p.region, p.stock, p.low_stock_amount
+       ORDER BY turnover_ratio DESC, sold_in_period DESC
+       LIMIT $2`,
+      [days, limit]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Default warehouse for a product: the default location of the product's region
+   */
+  async getDefaultWarehouseId(productId: number, transactionClient?: any): Promise<number> {
+    const result = await (transactionClient || this.pool).query(
+      `SELECT w.id
+       FROM products p
+       JOIN warehouses w ON w.region = COALESCE(p.region, 'us') AND w.is_default = true
+       WHERE p.id = $1`,
+      [productId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Default warehouse for product', { productId });
+    }
+
+    return result.rows[0].id;
+  }
+
+  private async getOptionProductId(client: any, optionId: number): Promise<number> {
+    const result = await client.query(
+      `SELECT v.product_id
+       FROM variation_options vo
+       JOIN product_variations v ON v.id = vo.variation_id
+       WHERE vo.id = $1`,
+      [optionId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Variation Option', { optionId });
+    }
+
+    return result.rows[0].product_id;
+  }
+
+  /**
+   * Lock (creating if needed) the stock row of a product or option at a warehouse
+   */
+  private async lockStockRow(
+    client: any,
+    productId: number,
+    optionId: number | null,
+    warehouseId?: number | null
+  ): Promise<{ id: number; warehouse_id: number; quantity: number; reserved_quantity: number }> {
+    const locationId = warehouseId || await this.getDefaultWarehouseId(productId, client);
+
+    if (optionId === null) {
+      await client.query(
+        `INSERT INTO warehouse_stock (warehouse_id, product_id)
+         VALUES ($1, $2)
+         ON CONFLICT (warehouse_id, product_id) WHERE variation_option_id IS NULL DO NOTHING`,
+        [locationId, productId]
+      );
+    } else {
+      await client.query(
+        `INSERT INTO warehouse_stock (warehouse_id, product_id, variation_option_id)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (warehouse_id, variation_option_id) WHERE variation_option_id IS NOT NULL DO NOTHING`,
+        [locationId, productId, optionId]
+      );
+    }
+
+    const result = await client.query(
+      `SELECT id, warehouse_id, quantity, reserved_quantity
+       FROM warehouse_stock
+       WHERE warehouse_id = $1 AND product_id = $2 AND variation_option_id IS NOT DISTINCT FROM $3
+       FOR UPDATE`,
+      [locationId, productId, optionId]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * products.stock is the sum of the product's locations
+   */
+  private async syncProductTotal(client: any, productId: number, updateInStock: boolean): Promise<number> {
+    const result = await client.query(
+      `UPDATE products p
+       SET stock = s.total${updateInStock ? `, in_stock = CASE WHEN s.total > 0 THEN '1' ELSE '0' END, updated_at = CURRENT_TIMESTAMP` : ''}
+       FROM (
+         SELECT COALESCE(SUM(quantity), 0)::int AS total
+         FROM warehouse_stock
+         WHERE product_id = $1 AND variation_option_id IS NULL
+       ) s
+       WHERE p.id = $1
+       RETURNING p.stock`,
+      [productId]
+    );
+
+    return result.rows[0]?.stock ?? 0;
+  }
+
+  /**
+   * variation_options stock and reserved quantities are the sums of the option's locations.
+   * Unmanaged options stay unmanaged unless this is a stock write.
+   */
+  private async syncOptionTotals(client: any, optionId: number, isStockWrite: boolean): Promise<number | null> {
+    const result = await client.query(
+      `UPDATE variation_options vo
+       SET stock_quantity = CASE WHEN vo.stock_quantity IS NULL AND NOT $2 THEN NULL ELSE s.quantity END,
+           reserved_quantity = s.reserved
+       FROM (
+         SELECT COALESCE(SUM(quantity), 0)::int AS quantity, COALESCE(SUM(reserved_quantity), 0)::int AS reserved
+         FROM warehouse_stock
+         WHERE variation_option_id = $1
+       ) s
+       WHERE vo.id = $1
+       RETURNING vo.stock_quantity`,
+      [optionId, isStockWrite]
+    );
+
+    return result.rows[0]?.stock_quantity ?? null;
+  }
+
+  private async recordMovement(
+    client: any,
+    productId: number,
+    optionId: number | null,
+    warehouseId: number | null,
+    delta: number,
+    quantityAfter: number | null,
+    reservedDelta: number,
+    context: InventoryMovementContext
+  ): Promise<InventoryMovement> {
+    if (!context?.reason) {
+      throw new ValidationError('A reason is required for every stock movement');
+    }
+
+    const result = await client.query(
+      `INSERT INTO inventory_movements
+         (product_id, variation_option_id, warehouse_id, delta, quantity_after, reserved_delta, reason, note,
+          actor_type, actor_id, source_type, source_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING *`,
+      [
+        productId,
+        optionId,
+        warehouseId,
+        delta,
+        quantityAfter,
+        reservedDelta,
+        context.reason,
+        context.note || null,
+        context.actorType || (context.actorId ? 'admin' : 'system'),
+        context.actorId || null,
+        context.sourceType || null,
+        context.sourceId !== undefined && context.sourceId !== null ? String(context.sourceId) : null
+      ]
+    );
+
+    if (delta > 0 && warehouseId !== null && quantityAfter !== null) {
+      await this.allocateBackorders(client, productId, optionId, warehouseId, delta, quantityAfter);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Hand arriving stock to the paid orders waiting on it at this location, oldest payment first.
+   * Backordered sales already took their units, so whatever the queue is owed beyond the
+   * remaining deficit (stock below zero) is now on the shelf for it. The deficit can include
+   * shortfalls of cancelled entries, so the arriving units always go to the queue.
+   */
+  private async allocateBackorders(
+    client: any,
+    productId: number,
+    optionId: number | null,
+    warehouseId: number,
+    delta: number,
+    quantityAfter: number
+  ): Promise<void> {
+    const queue = await client.query(
+      `SELECT id, order_item_id, quantity - quantity_allocated AS outstanding
+       FROM backorder_allocations
+       WHERE product_id = $1 AND variation_option_id IS NOT DISTINCT FROM $2 AND warehouse_id = $3
+         AND status = 'waiting'
+       ORDER BY queued_at, id
+       FOR UPDATE`,
+      [productId, optionId, warehouseId]
+    );
+
+    const owed = queue.rows.reduce((sum: number, entry: any) => sum + entry.outstanding, 0);
+    let available = Math.min(owed, Math.max(delta, owed - Math.max(0, -quantityAfter)));
+    const orderItemIds: number[] = [];
+
+    for (const entry of queue.rows) {
+      if (available <= 0) {
+        break;
+      }
+
+      const units = Math.min(entry.outstanding, available);
+      available -= units;
+
+      await client.query(
+        `UPDATE backorder_allocations
+         SET quantity_allocated = quantity_allocated + $1,
+             status = CASE WHEN quantity_allocated + $1 >= quantity THEN 'allocated' ELSE status END,
+             allocated_at = CASE WHEN quantity_allocated + $1 >= quantity THEN CURRENT_TIMESTAMP ELSE allocated_at END
+         WHERE id = $2`,
+        [units, entry.id]
+      );
+
+      if (entry.order_item_id) {
+        orderItemIds.push(entry.order_item_id);
+      }
+    }
+
+    if (orderItemIds.length > 0) {
+      await client.query(
+        `UPDATE order_items oi
+         SET allocation_status = 'allocated'
+         WHERE oi.id = ANY($1)
+           AND NOT EXISTS (
+             SELECT 1 FROM backorder_allocations ba WHERE ba.order_item_id = oi.id AND ba.status = 'waiting'
+           )`,
+        [orderItemIds]
+      );
+    }
+  }
+
+  private async withTransaction<T>(transactionClient: any, work: (client: any) => Promise<T>): Promise<T> {
+    const client = transactionClient || await this.pool.connect();
+    const shouldManageTransaction = !transactionClient;
+
+    try {
+      if (shouldManageTransaction) {
+        await client.query('BEGIN');
+      }
+
+      const result = await work(client);
+
+      if (shouldManageTransaction) {
+        await client.query('COMMIT');
+      }
+      return result;
+    } catch (error) {
+      if (shouldManageTransaction) {
+        await client.query('ROLLBACK');
+      }
+      throw error;
+    } finally {
+      if (shouldManageTransaction) {
+        client.release();
+      }
+    }
+  }
+}
@@ -48,6 +48,7 @@ export class MarketingCampaignService {
   /**
    * Get all eligible users for marketing emails
    * Returns users who have opted into marketing emails (newsletter subscription with status='active')
+   * and verified their email address
    */
   async getEligibleUsers(): Promise<EligibleUser[]> {
     const result = await this.pool.query(`
@@ -59,6 +60,7 @@ export class MarketingCampaignService {
       FROM users u
       INNER JOIN newsletter_subscriptions ns ON u.email = ns.email
       WHERE ns.status = 'active'
+        AND u.email_verified = true
       ORDER BY u.email ASC
     `);
 
@@ -84,6 +86,7 @@ export class MarketingCampaignService {
       FROM users u
       INNER JOIN newsletter_subscriptions ns ON u.email = ns.email
       WHERE ns.status = 'active'
+        AND u.email_verified = true
     `);
 
     const count = result.rows[0].count;
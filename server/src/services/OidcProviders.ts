@@ -0,0 +1,264 @@
+/**
+ * OIDC Providers
+ * Sign-in providers for SocialLoginService. OpenID Connect providers are configured
+ * from their issuer's discovery document and verified through the ID token; OAuth2-only
+ * providers (Discord) read the account from their profile API. Setting OIDC_MOCK_ISSUER
+ * points every provider at one local OIDC issuer (see scripts/mock-oidc-issuer.ts).
+ */
+
+import crypto from 'crypto';
+import {
+  OidcClientCredentials,
+  OidcEndpoints,
+  OidcProfile,
+  OidcTokenSet,
+  SocialProviderId
+} from '../types/socialLogin';
+import { AuthenticationError, ErrorCode, ServiceUnavailableError } from '../utils/errors';
+
+export type OidcHttpClient = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface OidcProvider {
+  id: SocialProviderId;
+  name: string;
+  scopes: string[];
+  getEndpoints(): Promise<OidcEndpoints>;
+  getProfile(
+    tokens: OidcTokenSet,
+    endpoints: OidcEndpoints,
+    credentials: OidcClientCredentials,
+    nonce: string
+  ): Promise<OidcProfile>;
+}
+
+const PROVIDER_NAMES: Record<SocialProviderId, string> = {
+  google: 'Google',
+  discord: 'Discord'
+};
+
+// Discovery documents and signing keys rarely change
+const METADATA_TTL_MS = 60 * 60 * 1000;
+// Allowed clock difference when checking ID token expiry
+const CLOCK_SKEW_SECONDS = 60;
+
+const base64UrlJson = (segment: string): any =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+
+const invalidToken = (providerName: string) =>
+  new AuthenticationError(`Sign-in with ${providerName} could not be verified`, ErrorCode.SOCIAL_LOGIN_FAILED);
+
+const splitName = (name?: string | null): { firstName: string | null; lastName: string | null } => {
+  if (!name) {
+    return { firstName: null, lastName: null };
+  }
+  const [firstName, ...rest] = name.trim().split(/\s+/);
+  return { firstName: firstName || null, lastName: rest.join(' ') || null };
+};
+
+/**
+ * OpenID Connect provider configured through discovery; the profile comes from the
+ * signed ID token, topped up from the userinfo endpoint when the token has no email
+ */
+export class DiscoveryOidcProvider implements OidcProvider {
+  scopes = ['openid', 'email', 'profile'];
+  private endpoints: { value: OidcEndpoints; fetchedAt: number } | null = null;
+  private jwks: { keys: any[]; fetchedAt: number } | null = null;
+
+  constructor(
+    public id: SocialProviderId,
+    public name: string,
+    private issuer: string,
+    private httpClient: OidcHttpClient = fetch
+  ) {}
+
+  async getEndpoints(): Promise<OidcEndpoints> {
+    if (this.endpoints && Date.now() - this.endpoints.fetchedAt < METADATA_TTL_MS) {
+      return this.endpoints.value;
+    }
+
+    const discoveryUrl = `${this.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+    const response = await this.httpClient(discoveryUrl);
+    if (!response.ok) {
+      throw new ServiceUnavailableError(`${this.name} sign-in is temporarily unavailable`);
+    }
+    const document: any = await response.json();
+
+    const value: OidcEndpoints = {
+      issuer: document.issuer,
+      authorizationEndpoint: document.authorization_endpoint,
+      tokenEndpoint: document.token_endpoint,
+      userinfoEndpoint: document.userinfo_endpoint,
+      jwksUri: document.jwks_uri
+    };
+    this.endpoints = { value, fetchedAt: Date.now() };
+    return value;
+  }
+
+  async getProfile(
+    tokens: OidcTokenSet,
+    endpoints: OidcEndpoints,
+    credentials: OidcClientCredentials,
+    nonce: string
+  ): Promise<OidcProfile> {
+    if (!tokens.id_token) {
+      throw invalidToken(this.name);
+    }
+
+    let claims = await this.verifyIdToken(tokens.id_token, endpoints, credentials.clientId, nonce);
+
+    if (!claims.email && endpoints.userinfoEndpoint) {
+      const response = await this.httpClient(endpoints.userinfoEndpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` }
+      });
+      if (response.ok) {
+        const userinfo: any = await response.json();
+        // userinfo must describe the same account as the ID token
+        if (userinfo.sub === claims.sub) {
+          claims = { ...userinfo, ...claims, email: userinfo.email, email_verified: userinfo.email_verified };
+        }
+      }
+    }
+
+    const fallbackName = splitName(claims.name);
+    return {
+      subject: String(claims.sub),
+      email: claims.email || null,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      firstName: claims.given_name || fallbackName.firstName,
+      lastName: claims.family_name || fallbackName.lastName
+    };
+  }
+
+  /**
+   * Check the RS256 signature against the issuer's keys, then issuer, audience, expiry and nonce
+   */
+  private async verifyIdToken(idToken: string, endpoints: OidcEndpoints, clientId: string, nonce: string): Promise<any> {
+    const [headerSegment, payloadSegment, signatureSegment] = idToken.split('.');
+    if (!headerSegment || !payloadSegment || !signatureSegment) {
+      throw invalidToken(this.name);
+    }
+
+    let header: any;
+    let claims: any;
+    try {
+      header = base64UrlJson(headerSegment);
+      claims = base64UrlJson(payloadSegment);
+    } catch {
+      throw invalidToken(this.name);
+    }
+
+    if (header.alg !== 'RS256' || !endpoints.jwksUri) {
+      throw invalidToken(this.name);
+    }
+
+    const jwk = await this.getSigningKey(endpoints.jwksUri, header.kid);
+    const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+    const validSignature = crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(`${headerSegment}.${payloadSegment}`),
+      publicKey,
+      Buffer.from(signatureSegment, 'base64url')
+    );
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+
+    if (
+      !validSignature ||
+      claims.iss !== endpoints.issuer ||
+      !audiences.includes(clientId) ||
+      typeof claims.exp !== 'number' ||
+      claims.exp + CLOCK_SKEW_SECONDS < now ||
+      claims.nonce !== nonce ||
+      !claims.sub
+    ) {
+      throw invalidToken(this.name);
+    }
+
+    return claims;
+  }
+
+  private async getSigningKey(jwksUri: string, kid?: string): Promise<any> {
+    const findKey = () => this.jwks?.keys.find(key => key.kty === 'RSA' && (!kid || key.kid === kid));
+
+    let key = this.jwks && Date.now() - this.jwks.fetchedAt < METADATA_TTL_MS ? findKey() : undefined;
+    if (!key) {
+      // Unknown kid usually means the issuer rotated its keys
+      const response = await this.httpClient(jwksUri);
+      if (!response.ok) {
+        throw new ServiceUnavailableError(`${this.name} sign-in is temporarily unavailable`);
+      }
+      const document: any = await response.json();
+      this.jwks = { keys: Array.isArray(document.keys) ? document.keys : [], fetchedAt: Date.now() };
+      key = findKey();
+    }
+
+    if (!key) {
+      throw invalidToken(this.name);
+    }
+    return key;
+  }
+}
+
+/**
+ * Discord speaks OAuth2 without OpenID Connect; the account comes from /users/@me
+ */
+export class DiscordOAuthProvider implements OidcProvider {
+  id: SocialProviderId = 'discord';
+  name = PROVIDER_NAMES.discord;
+  scopes = ['identify', 'email'];
+
+  constructor(private httpClient: OidcHttpClient = fetch) {}
+
+  async getEndpoints(): Promise<OidcEndpoints> {
+    return {
+      authorizationEndpoint: 'https://discord.com/oauth2/authorize',
+      tokenEndpoint: 'https://discord.com/api/oauth2/token',
+      userinfoEndpoint: 'https://discord.com/api/users/@me'
+    };
+  }
+
+  async getProfile(tokens: OidcTokenSet, endpoints: OidcEndpoints): Promise<OidcProfile> {
+    const response = await this.httpClient(endpoints.userinfoEndpoint!, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` }
+    });
+    if (!response.ok) {
+      throw invalidToken(this.name);
+    }
+
+    const account: any = await response.json();
+    if (!account.id) {
+      throw invalidToken(this.name);
+    }
+
+    const { firstName, lastName } = splitName(account.global_name || account.username);
+    return {
+      subject: String(account.id),
+      email: account.email || null,
+      emailVerified: account.verified === true,
+      firstName,
+      lastName
+    };
+  }
+}
+
+export const SOCIAL_PROVIDER_IDS = Object.keys(PROVIDER_NAMES) as SocialProviderId[];
+
+export const getProviderName = (id: SocialProviderId): string => PROVIDER_NAMES[id];
+
+/**
+ * Build the provider for an id, honouring OIDC_MOCK_ISSUER for local testing
+ */
+export const createOidcProvider = (id: SocialProviderId, httpClient: OidcHttpClient = fetch): OidcProvider => {
+  const mockIssuer = process.env.OIDC_MOCK_ISSUER;
+  if (mockIssuer) {
+    return new DiscoveryOidcProvider(id, PROVIDER_NAMES[id], mockIssuer, httpClient);
+  }
+
+  switch (id) {
+    case 'google':
+      return new DiscoveryOidcProvider('google', PROVIDER_NAMES.google, 'https://accounts.google.com', httpClient);
+    case 'discord':
+      return new DiscordOAuthProvider(httpClient);
+  }
+};
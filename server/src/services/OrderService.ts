@@ -5,25 +5,35 @@
 
 import { Pool } from 'pg';
 import {
+  AfterCommitTask,
   Order,
   OrderWithItems,
   OrderItem,
   OrderStatus,
+  OrderTransitionOptions,
   PaymentStatus,
-  CreateOrderData,
-  Address
+  CreateOrderData
 } from '../types/cart';
 import { CartService } from './CartService';
 import { StockReservationService } from './StockReservationService';
+import { OrderStatusService, runAfterCommit } from './OrderStatusService';
+import { BackorderService } from './BackorderService';
+import { TaxService } from './TaxService';
 import { NotFoundError, ValidationError } from '../utils/errors';
 
 export class OrderService {
   private cartService: CartService;
   private stockReservationService: StockReservationService;
+  private taxService: TaxService;
+  private orderStatusService: OrderStatusService;
+  private backorderService: BackorderService;
 
   constructor(private pool: Pool) {
     this.cartService = new CartService(pool);
     this.stockReservationService = new StockReservationService(pool);
+    this.taxService = new TaxService(pool);
+    this.orderStatusService = new OrderStatusService(pool);
+    this.backorderService = new BackorderService(pool);
   }
 
   /**
@@ -77,12 +87,15 @@ export class OrderService {
         shipping = cart.totals.shipping || 0;
       }
 
-      // Calculate Florida tax (6%) on backend for validation
-      // Tax is calculated on: subtotal - discount + shipping
-      const calculatedTax = this.calculateFloridaTax(
-        subtotal - discount + shipping,
-        orderData.shippingAddress
-      );
+      // Calculate tax on backend (per line, by destination and tax class)
+      const taxResult = await this.taxService.calculateTax({
+        region,
+        address: orderData.shippingAddress,
+        lines: this.taxService.toTaxableLines(cart.items),
+        discount,
+        shipping
+      });
+      const calculatedTax = taxResult.total_tax;
 
       // CRITICAL: Parse tax amount (may come as string or number from validation/JSON)
       let tax: number;
@@ -106,7 +119,8 @@ export class OrderService {
         tax = calculatedTax; // Use backend calculation as source of truth
       }
 
-      const total = subtotal - discount + shipping + tax;
+      // Tax-inclusive (gross) prices already contain the tax
+      const total = subtotal - discount + shipping + (taxResult.prices_include_tax ? 0 : tax);
       const currency = cart.totals.currency || (cart.region === 'eu' ? 'EUR' : 'USD');
 
       // Determine if international shipping
@@ -125,7 +139,8 @@ export class OrderService {
           billing_address, shipping_address,
           payment_method, shipping_method, notes,
           payment_expires_at, stock_reserved,
-          package_size, is_international_shipping
+          package_size, is_international_shipping,
+          shipping_tax_amount, prices_include_tax
         ) VALUES (
           $1, $2, $3, $4, $5,
           $6, $7, $8, $9, $10, $11, $12,
@@ -133,7 +148,8 @@ export class OrderService {
           $15, $16,
           $17, $18, $19,
           $20, $21,
-          $22, $23
+          $22, $23,
+          $24, $25
         )
         RETURNING *
       `;
@@ -163,20 +179,26 @@ export class OrderService {
         paymentExpiresAt,                          // $20 payment_expires_at
         true,                                      // $21 stock_reserved
         packageSize,                                // $22 package_size
-        isInternational                             // $23 is_international_shipping
+        isInternational,                            // $23 is_international_shipping
+        taxResult.shipping_tax,                     // $24 shipping_tax_amount
+        taxResult.prices_include_tax                // $25 prices_include_tax
       ]);
 
       const order = orderResult.rows[0];
 
       // Create order items from cart items
       const orderItems: OrderItem[] = [];
+      const destination = { region, countryCode: orderData.shippingAddress.country };
 
       for (const cartItem of cart.items) {
+        const lineTax = taxResult.lines.find(line => line.reference === cartItem.id);
+
         const orderItemSql = `
           INSERT INTO order_items (
             order_id, product_id, product_name, product_sku, product_image,
-            quantity, unit_price, total_price, selected_options
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            quantity, unit_price, total_price, selected_options,
+            tax_class, taxable_amount, tax_rate, tax_amount, tax_rule_id, tax_label
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
           RETURNING *
         `;
 
@@ -189,7 +211,13 @@ export class OrderService {
           cartItem.quantity,
           cartItem.unit_price,
           cartItem.total_price,
-          cartItem.configuration
+          cartItem.configuration,
+          lineTax?.tax_class || null,
+          lineTax?.taxable_amount || 0,
+          lineTax?.tax_rate || 0,
+          lineTax?.tax_amount || 0,
+          lineTax?.tax_rule_id || null,
+          lineTax?.tax_label || null
         ]);
         
         orderItems.push(orderItemResult.rows[0]);
@@ -199,7 +227,8 @@ export class OrderService {
           order.id,
           cartItem.product_id,
           cartItem.quantity,
-          client
+          client,
+          destination
         );
 
         // Reserve variation stock if configuration has variation selections
@@ -208,7 +237,8 @@ export class OrderService {
             order.id,
             cartItem.configuration,
             cartItem.quantity,
-            client
+            client,
+            destination
           );
         }
       }
@@ -278,30 +308,22 @@ export class OrderService {
   }
 
   /**
-   * Update order status
+   * Update order status through the order state machine
    */
-  async updateOrderStatus(orderId: number, status: OrderStatus): Promise<Order> {
-    const sql = `
-      UPDATE orders
-      SET status = $1, updated_at = CURRENT_TIMESTAMP
-      WHERE id = $2
-      RETURNING *
-    `;
-
-    const result = await this.pool.query(sql, [status, orderId]);
-
-    if (result.rows.length === 0) {
-      throw new NotFoundError('Order', { orderId });
-    }
-
-    return result.rows[0];
+  async updateOrderStatus(orderId: number, status: OrderStatus, options: OrderTransitionOptions = {}): Promise<Order> {
+    return this.orderStatusService.transition(orderId, status, options);
   }
 
   /**
    * Cancel order
    */
-  async cancelOrder(orderNumber: string, userId?: number): Promise<Order> {
+  async cancelOrder(
+    orderNumber: string,
+    userId?: number,
+    options: Pick<OrderTransitionOptions, 'reason' | 'notifyCustomer'> = {}
+  ): Promise<Order> {
     const client = await this.pool.connect();
+    const afterCommit: AfterCommitTask[] = [];
 
     try {
       await client.query('BEGIN');
@@ -323,29 +345,27 @@ export class OrderService {
 
       const order = orderResult.rows[0];
 
-      // Can only cancel pending or processing orders
-      if (!['pending', 'processing'].includes(order.status)) {
+      // Can only cancel orders that have not started fulfilment
+      if (![OrderStatus.PENDING, OrderStatus.AWAITING_QUOTE, OrderStatus.PROCESSING].includes(order.status)) {
         throw new ValidationError('Order cannot be cancelled at this stage', {
           currentStatus: order.status
         });
       }
 
-      // Cancel stock reservations instead of restoring stock
-      await this.stockReservationService.cancelReservation(order.id, client);
-
-      // Update order status
-      const updateSql = `
-        UPDATE orders
-        SET status = $1, updated_at = CURRENT_TIMESTAMP
-        WHERE id = $2
-        RETURNING *
-      `;
-
-      const result = await client.query(updateSql, [OrderStatus.CANCELLED, order.id]);
+      // The cancelled transition releases the order's stock reservations
+      const cancelledOrder = await this.orderStatusService.transition(
+        order.id,
+        OrderStatus.CANCELLED,
+        userId
+          ? { actorType: 'customer', actorId: userId, reason: options.reason || 'Cancelled by customer', notifyCustomer: options.notifyCustomer, afterCommit }
+          : { actorType: 'system', reason: options.reason || null, notifyCustomer: options.notifyCustomer, afterCommit },
+        client
+      );
 
       await client.query('COMMIT');
+      await runAfterCommit(afterCommit);
 
-      return result.rows[0];
+      return cancelledOrder;
     } catch (error) {
       await client.query('ROLLBACK');
       if (error instanceof NotFoundError || error instanceof ValidationError) {
@@ -359,9 +379,10 @@ export class OrderService {
   }
 
   /**
-   * Confirm stock reservations for paid order
+   * Confirm stock reservations for paid order.
+   * Inside a caller's transaction, status emails are queued on afterCommit for the caller to send.
    */
-  async confirmOrderPayment(orderId: number, transactionClient?: any): Promise<void> {
+  async confirmOrderPayment(orderId: number, transactionClient?: any, afterCommit: AfterCommitTask[] = []): Promise<void> {
     const client = transactionClient || await this.pool.connect();
     const shouldManageTransaction = !transactionClient;
     
@@ -376,14 +397,39 @@ export class OrderService {
       // Confirm variation stock reservations
       await this.stockReservationService.confirmVariationReservations(orderId, client);
 
-      // Update order status
-      await client.query(
+      // Units the sales could not take from stock wait in the backorder queue
+      const backorderedEntries = await this.backorderService.queueOrderShortfalls(orderId, client);
+
+      const paidResult = await client.query(
         `UPDATE orders 
-         SET payment_status = $1, status = $2, updated_at = CURRENT_TIMESTAMP
-         WHERE id = $3`,
-        [PaymentStatus.PAID, OrderStatus.PROCESSING, orderId]
+         SET payment_status = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2
+         RETURNING status`,
+        [PaymentStatus.PAID, orderId]
       );
 
+      // Paid orders move on to processing; quote orders wait for their quote to be confirmed
+      const currentStatus = paidResult.rows[0]?.status;
+      if (currentStatus === OrderStatus.PENDING) {
+        await this.orderStatusService.transition(
+          orderId,
+          OrderStatus.PROCESSING,
+          { actorType: 'system', reason: 'Payment confirmed', notifyCustomer: false },
+          client
+        );
+      } else if (currentStatus !== OrderStatus.AWAITING_QUOTE && currentStatus !== OrderStatus.PROCESSING) {
+        console.warn(`Payment confirmed for order ${orderId} in status ${currentStatus}; status left unchanged`);
+      }
+
+      if (backorderedEntries > 0 && (currentStatus === OrderStatus.PENDING || currentStatus === OrderStatus.PROCESSING)) {
+        await this.orderStatusService.transition(
+          orderId,
+          OrderStatus.BACKORDERED,
+          { actorType: 'system', reason: 'Waiting on backordered stock', afterCommit },
+          client
+        );
+      }
+
       // Record coupon usage
       const orderResult = await client.query(
         'SELECT cart_id, user_id, discount_amount FROM orders WHERE id = $1',
@@ -413,6 +459,7 @@ export class OrderService {
 
       if (shouldManageTransaction) {
         await client.query('COMMIT');
+        await runAfterCommit(afterCommit);
       }
     } catch (error) {
       if (shouldManageTransaction) {
@@ -490,7 +537,10 @@ export class OrderService {
                     'quantity', oi.quantity,
                     'unit_price', oi.unit_price,
                     'total_price', oi.total_price,
-                    'selected_options', oi.selected_options
+                    'selected_options', oi.selected_options,
+                    'tax_rate', oi.tax_rate,
+                    'tax_amount', oi.tax_amount,
+                    'tax_label', oi.tax_label
                   )
                 ) as items
          FROM orders o
@@ -535,7 +585,10 @@ export class OrderService {
                     'quantity', oi.quantity,
                     'unit_price', oi.unit_price,
                     'total_price', oi.total_price,
-                    'selected_options', oi.selected_options
+                    'selected_options', oi.selected_options,
+                    'tax_rate', oi.tax_rate,
+                    'tax_amount', oi.tax_amount,
+                    'tax_label', oi.tax_label
                   )
                 ) as items
          FROM orders o
@@ -561,23 +614,4 @@ export class OrderService {
       client.release();
     }
   }
-
-  /**
-   * Calculate Florida tax (6%) for US orders shipping to Florida
-   * Tax is calculated on the final price: subtotal - discount + shipping
-   */
-  private calculateFloridaTax(priceBeforeTax: number, shippingAddress: Address): number {
-    // Check if shipping address is in Florida
-    // Handle both "Florida" (full name) and "FL" (abbreviation)
-    const isFloridaState = shippingAddress.state === 'FL' || shippingAddress.state === 'Florida';
-    const isFloridaOrder = shippingAddress.country === 'US' && isFloridaState;
-    
-    if (isFloridaOrder) {
-      // Calculate 6% tax, rounded to 2 decimal places
-      return Math.round(priceBeforeTax * 0.06 * 100) / 100;
-    }
-    
-    return 0;
-  }
 }
-
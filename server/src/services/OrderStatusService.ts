@@ -0,0 +1,302 @@
+/**
+ * Order Status Service
+ * The order lifecycle: which status an order may move to next, the guards on each move,
+ * the history row every transition writes, and the side effects tied to reaching a status
+ * (stock release, customer emails).
+ */
+
+import { Pool } from 'pg';
+import { EmailService } from './EmailService';
+import { StockReservationService } from './StockReservationService';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { formatCurrency } from '../utils/currency';
+import {
+  AfterCommitTask,
+  Order,
+  OrderStatus,
+  OrderStatusHistoryEntry,
+  OrderTransitionOptions
+} from '../types/cart';
+
+/**
+ * Allowed transitions per status; cancelled and refunded orders are final apart from refunding a cancelled order
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.AWAITING_QUOTE, OrderStatus.PROCESSING, OrderStatus.ON_HOLD, OrderStatus.CANCELLED],
+  [OrderStatus.AWAITING_QUOTE]: [OrderStatus.PENDING, OrderStatus.PROCESSING, OrderStatus.CANCELLED, OrderStatus.REFUNDED],
+  [OrderStatus.PROCESSING]: [
+    OrderStatus.ON_HOLD,
+    OrderStatus.BACKORDERED,
+    OrderStatus.PARTIALLY_SHIPPED,
+    OrderStatus.SHIPPED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REFUNDED
+  ],
+  [OrderStatus.ON_HOLD]: [OrderStatus.PROCESSING, OrderStatus.BACKORDERED, OrderStatus.CANCELLED, OrderStatus.REFUNDED],
+  [OrderStatus.BACKORDERED]: [
+    OrderStatus.PROCESSING,
+    OrderStatus.ON_HOLD,
+    OrderStatus.PARTIALLY_SHIPPED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REFUNDED
+  ],
+  [OrderStatus.PARTIALLY_SHIPPED]: [OrderStatus.SHIPPED, OrderStatus.ON_HOLD, OrderStatus.REFUNDED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.REFUNDED],
+  [OrderStatus.DELIVERED]: [OrderStatus.REFUNDED],
+  [OrderStatus.CANCELLED]: [OrderStatus.REFUNDED],
+  [OrderStatus.REFUNDED]: []
+};
+
+// Statuses ShipStation exports; on hold, backordered and quote orders stay out of the shipping queue
+export const SHIPSTATION_VISIBLE_STATUSES: OrderStatus[] = [
+  OrderStatus.PROCESSING,
+  OrderStatus.PARTIALLY_SHIPPED,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED
+];
+
+// Reaching these statuses requires a captured payment
+const PAID_STATUSES: OrderStatus[] = [
+  OrderStatus.PROCESSING,
+  OrderStatus.PARTIALLY_SHIPPED,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED
+];
+
+const PAID_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+// Customer emails sent when an order reaches a status
+const STATUS_EMAIL_EVENTS: Partial<Record<OrderStatus, string>> = {
+  [OrderStatus.PROCESSING]: 'order.processing',
+  [OrderStatus.ON_HOLD]: 'order.on_hold',
+  [OrderStatus.BACKORDERED]: 'order.backordered',
+  [OrderStatus.DELIVERED]: 'order.completed',
+  [OrderStatus.CANCELLED]: 'order.cancelled',
+  [OrderStatus.REFUNDED]: 'order.refunded'
+};
+
+export const getAllowedTransitions = (status: string): OrderStatus[] =>
+  ORDER_STATUS_TRANSITIONS[status as OrderStatus] || [];
+
+export const canTransition = (from: string, to: OrderStatus): boolean =>
+  getAllowedTransitions(from).includes(to);
+
+/**
+ * Run the side effects that transitions queued inside a transaction, once it has committed
+ */
+export const runAfterCommit = async (tasks: AfterCommitTask[]): Promise<void> => {
+  for (const task of tasks.splice(0)) {
+    await task();
+  }
+};
+
+export class OrderStatusService {
+  private emailService: EmailService;
+  private stockReservationService: StockReservationService;
+
+  constructor(private pool: Pool, emailService?: EmailService) {
+    if (emailService) {
+      this.emailService = emailService;
+    } else {
+      this.emailService = new EmailService(pool);
+      this.emailService.initialize();
+    }
+    this.stockReservationService = new StockReservationService(pool);
+  }
+
+  /**
+   * Move an order to a new status, enforcing the transition table and its guards.
+   * Pass a transaction client to make the transition part of the caller's transaction,
+   * with an afterCommit queue so its emails wait until that transaction commits.
+   */
+  async transition(
+    orderId: number,
+    to: OrderStatus,
+    options: OrderTransitionOptions = {},
+    transactionClient?: any
+  ): Promise<Order> {
+    const client = transactionClient || await this.pool.connect();
+    const shouldManageTransaction = !transactionClient;
+    let order: any;
+    let from: OrderStatus;
+
+    try {
+      if (shouldManageTransaction) {
+        await client.query('BEGIN');
+      }
+
+      const orderResult = await client.query('SELECT * FROM orders WHERE id = $1 FOR UPDATE', [orderId]);
+      if (orderResult.rows.length === 0) {
+        throw new NotFoundError('Order', { orderId });
+      }
+
+      from = orderResult.rows[0].status;
+
+      if (from === to) {
+        throw new ConflictError(`Order is already ${to}`, 'ORDER_STATUS_UNCHANGED', { status: to });
+      }
+
+      if (!canTransition(from, to)) {
+        throw new ConflictError(`Order cannot move from ${from} to ${to}`, 'INVALID_ORDER_TRANSITION', {
+          from,
+          to,
+          allowed: getAllowedTransitions(from)
+        });
+      }
+
+      await this.checkGuards(client, orderResult.rows[0], to);
+
+      const updateResult = await client.query(
+        `UPDATE orders SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *`,
+        [to, orderId]
+      );
+      order = updateResult.rows[0];
+
+      await client.query(
+        `INSERT INTO order_status_history (order_id, from_status, status, comment, actor_type, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [orderId, from, to, options.reason || null, options.actorType || 'system', options.actorId || null]
+      );
+
+      if (to === OrderStatus.CANCELLED) {
+        await this.stockReservationService.cancelReservation(orderId, client);
+      }
+
+      // Closed orders leave the backorder queue so arriving stock goes to the next in line
+      if (to === OrderStatus.CANCELLED || to === OrderStatus.REFUNDED) {
+        await client.query(
+          `UPDATE backorder_allocations SET status = 'cancelled' WHERE order_id = $1 AND status = 'waiting'`,
+          [orderId]
+        );
+      }
+
+      if (shouldManageTransaction) {
+        await client.query('COMMIT');
+      }
+    } catch (error) {
+      if (shouldManageTransaction) {
+        await client.query('ROLLBACK');
+      }
+      throw error;
+    } finally {
+      if (shouldManageTransaction) {
+        client.release();
+      }
+    }
+
+    const sideEffects = async () => {
+      if (to === OrderStatus.CANCELLED) {
+        try {
+          await this.stockReservationService.releaseVariationReservations(orderId);
+        } catch (error) {
+          console.error(`Failed to release variation stock for cancelled order ${order.order_number}:`, error);
+        }
+      }
+
+      if (options.notifyCustomer !== false) {
+        await this.sendStatusEmail(order, to, options.reason);
+      }
+    };
+
+    if (transactionClient && options.afterCommit) {
+      options.afterCommit.push(sideEffects);
+    } else {
+      await sideEffects();
+    }
+
+    console.log(`Order ${order.order_number}: ${from} → ${to} (${options.actorType || 'system'})`);
+    return order;
+  }
+
+  /**
+   * Status history of an order, oldest first
+   */
+  async getHistory(orderId: number): Promise<OrderStatusHistoryEntry[]> {
+    const result = await this.pool.query(
+      `SELECT h.id, h.order_id, h.from_status, h.status, h.comment, h.actor_type, h.created_by, h.created_at,
+              COALESCE(NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), ''), u.email) AS created_by_name
+       FROM order_status_history h
+       LEFT JOIN users u ON u.id = h.created_by
+       WHERE h.order_id = $1
+       ORDER BY h.created_at, h.id`,
+      [orderId]
+    );
+
+    return result.rows;
+  }
+
+  private async checkGuards(client: any, order: any, to: OrderStatus): Promise<void> {
+    if (PAID_STATUSES.includes(to) && !PAID_PAYMENT_STATUSES.includes(order.payment_status)) {
+      throw new ConflictError(`Unpaid orders cannot be moved to ${to}`, 'ORDER_NOT_PAID', {
+        payment_status: order.payment_status
+      });
+    }
+
+    if (to === OrderStatus.REFUNDED && order.payment_status !== 'refunded') {
+      throw new ConflictError('Orders are marked refunded once their payment is fully refunded', 'REFUND_REQUIRED', {
+        payment_status: order.payment_status
+      });
+    }
+
+    if (order.status === OrderStatus.AWAITING_QUOTE && ![OrderStatus.CANCELLED, OrderStatus.REFUNDED].includes(to)) {
+      const quoteResult = await client.query(
+        `SELECT status FROM shipping_quotes WHERE id = $1 OR order_id = $2 ORDER BY id DESC LIMIT 1`,
+        [order.shipping_quote_id, order.id]
+      );
+      const quoteStatus = quoteResult.rows[0]?.status;
+
+      if (quoteResult.rows.length > 0 && quoteStatus !== 'confirmed') {
+        throw new ConflictError('The shipping quote must be confirmed before the order can continue', 'QUOTE_NOT_CONFIRMED', {
+          quote_status: quoteStatus
+        });
+      }
+    }
+  }
+
+  private async sendStatusEmail(order: any, status: OrderStatus, reason?: string | null): Promise<void> {
+    const event = STATUS_EMAIL_EVENTS[status];
+    if (!event) {
+      return;
+    }
+
+    try {
+      let customerName = order.customer_email;
+      try {
+        const billingAddress = typeof order.billing_address === 'string'
+          ? JSON.parse(order.billing_address)
+          : order.billing_address;
+        if (billingAddress?.firstName && billingAddress?.lastName) {
+          customerName = `${billingAddress.firstName} ${billingAddress.lastName}`;
+        }
+      } catch (error) {
+        // Use email as fallback
+      }
+
+      // Convert string amounts to numbers (PostgreSQL returns numeric types as strings)
+      const totalAmount = typeof order.total_amount === 'string' ? parseFloat(order.total_amount) : Number(order.total_amount) || 0;
+      const orderRegion = (order.region || 'us') as 'us' | 'eu';
+
+      await this.emailService.triggerEvent(
+        event,
+        {
+          order_number: order.order_number,
+          customer_name: customerName,
+          customer_email: order.customer_email,
+          order_total: formatCurrency(totalAmount, orderRegion, 'total'),
+          order_date: new Date(order.created_at).toLocaleDateString(),
+          tracking_number: order.tracking_number || '',
+          carrier: order.carrier || '',
+          cancellation_reason: status === OrderStatus.CANCELLED && reason ? reason : ''
+        },
+        {
+          customerEmail: order.customer_email,
+          customerName,
+          adminEmail: 'info@simfab.com'
+        },
+        orderRegion
+      );
+    } catch (error) {
+      console.error(`Failed to trigger ${event} event emails for order ${order.order_number}:`, error);
+    }
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Packing Service
+ * Builds the parcel list for carts and orders from product package data and box lists,
+ * and manages the box lists of products that ship in one or more boxes of their own
+ */
+
+import { Pool } from 'pg';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { PackingUnit, packUnits, toInches, toPounds, KG_PER_LB } from '../utils/packing';
+import { Parcel, ProductShippingBox, ShippingBoxInput } from '../types/shipping';
+
+export interface PackingCartItem {
+  productId: number;
+  quantity: number;
+  /** Selected variation options; boxes of a selected option replace the product's boxes */
+  variationOptionIds?: number[];
+}
+
+// Used when a product has no package data (1 kg, as the weight-based rates always assumed)
+const DEFAULT_UNIT = { length: 12, width: 9, height: 4, weight: 1 / KG_PER_LB };
+
+/**
+ * SQL for an order item's selected options: orders store them in selected_options,
+ * older rows only in configuration
+ */
+export const ORDER_ITEM_OPTIONS_SQL = `COALESCE(NULLIF(selected_options, '{}'::jsonb), configuration)`;
+
+/**
+ * Selected variation option IDs from a cart/order item configuration
+ */
+export const getConfigurationOptionIds = (configuration: any): number[] => {
+  if (!configuration || typeof configuration !== 'object') {
+    return [];
+  }
+
+  const selections = [
+    ...Object.values(configuration.variations || {}),
+    ...Object.values(configuration.dropdownSelections || {})
+  ];
+
+  return Array.from(new Set(
+    selections.map(value => Number(value)).filter(value => Number.isInteger(value) && value > 0)
+  ));
+};
+
+export class PackingService {
+  constructor(private pool: Pool) {}
+
+  // ============================================================================
+  // PACKING
+  // ============================================================================
+
+  /**
+   * Pack cart items into parcels
+   */
+  async packCart(items: PackingCartItem[]): Promise<Parcel[]> {
+    if (!items || items.length === 0) {
+      return [];
+    }
+
+    const units = await this.loadUnits(items);
+    return packUnits(units);
+  }
+
+  /**
+   * Pack the items of several orders, keyed by order ID
+   */
+  async packOrders(orderIds: number[]): Promise<Map<number, Parcel[]>> {
+    const packed = new Map<number, Parcel[]>();
+
+    if (orderIds.length === 0) {
+      return packed;
+    }
+
+    const result = await this.pool.query(
+      `SELECT order_id, product_id, quantity, ${ORDER_ITEM_OPTIONS_SQL} AS selected_options
+       FROM order_items
+       WHERE order_id = ANY($1::int[]) AND product_id IS NOT NULL
+       ORDER BY order_id, id`,
+      [orderIds]
+    );
+
+    const itemsByOrder = new Map<number, PackingCartItem[]>();
+    for (const row of result.rows) {
+      const items = itemsByOrder.get(row.order_id) || [];
+      items.push({
+        productId: row.product_id,
+        quantity: row.quantity,
+        variationOptionIds: getConfigurationOptionIds(row.selected_options)
+      });
+      itemsByOrder.set(row.order_id, items);
+    }
+
+    for (const [orderId, items] of itemsByOrder) {
+      packed.set(orderId, await this.packCart(items));
+    }
+
+    return packed;
+  }
+
+  /**
+   * Expand items into packing units: one per box for products with a box list,
+   * otherwise one loose unit per quantity from the product's package fields
+   */
+  private async loadUnits(items: PackingCartItem[]): Promise<PackingUnit[]> {
+    const productIds = Array.from(new Set(items.map(item => item.productId)));
+
+    const [products, boxes] = await Promise.all([
+      this.pool.query(
+        `SELECT id, name, package_weight, package_weight_unit,
+                package_length, package_width, package_height, package_dimension_unit
+         FROM products
+         WHERE id = ANY($1::int[])`,
+        [productIds]
+      ),
+      this.pool.query(
+        `SELECT * FROM product_shipping_boxes
+         WHERE product_id = ANY($1::int[])
+         ORDER BY sort_order, id`,
+        [productIds]
+      )
+    ]);
+
+    const productsMap = new Map(products.rows.map(row => [row.id, row]));
+    const units: PackingUnit[] = [];
+
+    for (const item of items) {
+      const product = productsMap.get(item.productId);
+      const name = product?.name || `Product ${item.productId}`;
+      const productBoxes: ProductShippingBox[] = boxes.rows.filter(box => box.product_id === item.productId);
+      const optionIds = item.variationOptionIds || [];
+      const optionBoxes = productBoxes.filter(box =>
+        box.variation_option_id !== null && optionIds.includes(box.variation_option_id)
+      );
+      const selectedBoxes = optionBoxes.length > 0
+        ? optionBoxes
+        : productBoxes.filter(box => box.variation_option_id === null);
+
+      for (let i = 0; i < item.quantity; i++) {
+        if (selectedBoxes.length > 0) {
+          for (const box of selectedBoxes) {
+            units.push({
+              productId: item.productId,
+              name: box.label ? `${name} - ${box.label}` : name,
+              length: toInches(Number(box.length), box.dimension_unit),
+              width: toInches(Number(box.width), box.dimension_unit),
+              height: toInches(Number(box.height), box.dimension_unit),
+              weight: toPounds(Number(box.weight), box.weight_unit),
+              ownBox: true
+            });
+          }
+          continue;
+        }
+
+        units.push(this.looseUnit(item.productId, name, product));
+      }
+    }
+
+    return units;
+  }
+
+  private looseUnit(productId: number, name: string, product: any): PackingUnit {
+    const hasDimensions = product && product.package_length && product.package_width && product.package_height;
+
+    if (!product || (!hasDimensions && !product.package_weight)) {
+      console.warn(`Product ${productId} missing package data, using default package`);
+    }
+
+    return {
+      productId,
+      name,
+      length: hasDimensions ? toInches(Number(product.package_length), product.package_dimension_unit) : DEFAULT_UNIT.length,
+      width: hasDimensions ? toInches(Number(product.package_width), product.package_dimension_unit) : DEFAULT_UNIT.width,
+      height: hasDimensions ? toInches(Number(product.package_height), product.package_dimension_unit) : DEFAULT_UNIT.height,
+      weight: product?.package_weight
+        ? toPounds(Number(product.package_weight), product.package_weight_unit)
+        : DEFAULT_UNIT.weight,
+      ownBox: false
+    };
+  }
+
+  // ============================================================================
+  // BOX LISTS
+  // ============================================================================
+
+  async getProductBoxes(productId: number): Promise<ProductShippingBox[]> {
+    await this.assertProductExists(productId);
+
+    const result = await this.pool.query(
+      `SELECT * FROM product_shipping_boxes
+       WHERE product_id = $1
+       ORDER BY variation_option_id NULLS FIRST, sort_order, id`,
+      [productId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Replace a product's box list (product-level and per-option boxes)
+   */
+  async replaceProductBoxes(productId: number, boxes: ShippingBoxInput[]): Promise<ProductShippingBox[]> {
+    await this.assertProductExists(productId);
+
+    const optionIds = Array.from(new Set(
+      boxes.map(box => box.variation_option_id).filter((id): id is number => !!id)
+    ));
+
+    if (optionIds.length > 0) {
+      const options = await this.pool.query(
+        `SELECT vo.id
+         FROM variation_options vo
+         JOIN product_variations pv ON pv.id = vo.variation_id
+         WHERE vo.id = ANY($1::int[]) AND pv.product_id = $2`,
+        [optionIds, productId]
+      );
+
+      const validIds = new Set(options.rows.map(row => row.id));
+      const invalid = optionIds.filter(id => !validIds.has(id));
+      if (invalid.length > 0) {
+        throw new ValidationError('Variation options do not belong to this product', { variation_option_ids: invalid });
+      }
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query('DELETE FROM product_shipping_boxes WHERE product_id = $1', [productId]);
+
+      for (const [index, box] of boxes.entries()) {
+        await client.query(
+          `INSERT INTO product_shipping_boxes (
+            product_id, variation_option_id, label, length, width, height,
+            dimension_unit, weight, weight_unit, sort_order
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [
+            productId,
+            box.variation_option_id || null,
+            box.label || null,
+            box.length,
+            box.width,
+            box.height,
+            box.dimension_unit || 'in',
+            box.weight,
+            box.weight_unit || 'lbs',
+            index
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.getProductBoxes(productId);
+  }
+
+  private async assertProductExists(productId: number): Promise<void> {
+    const result = await this.pool.query('SELECT id FROM products WHERE id = $1', [productId]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Product', { id: productId });
+    }
+  }
+}
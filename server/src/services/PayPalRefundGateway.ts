@@ -0,0 +1,87 @@
+/**
+ * PayPal Refund Gateway
+ * Issues refunds against captured PayPal payments (Payments v2 captures/{id}/refund).
+ * RefundService depends on the PayPalRefundGateway interface so the flow can be
+ * exercised against a mock server (see PAYPAL_API_BASE_URL in config/paypal.ts)
+ * or a stub implementation.
+ */
+
+import * as paypal from '@paypal/checkout-server-sdk';
+import { Pool } from 'pg';
+import { getPayPalClientForRegion } from '../config/paypal';
+import { PaymentError } from '../utils/errors';
+
+export type PayPalRefundStatus = 'COMPLETED' | 'PENDING' | 'CANCELLED' | 'FAILED';
+
+export interface CaptureRefundRequest {
+  region: 'us' | 'eu';
+  captureId: string;
+  amount: number;
+  currency: string;
+  /** Sent as PayPal-Request-Id so retries never refund twice */
+  idempotencyKey: string;
+  invoiceId?: string;
+  noteToPayer?: string;
+}
+
+export interface CaptureRefundResult {
+  id: string;
+  status: PayPalRefundStatus;
+  amount: number;
+  currency: string;
+  statusReason?: string;
+}
+
+export interface PayPalRefundGateway {
+  refundCapture(request: CaptureRefundRequest): Promise<CaptureRefundResult>;
+}
+
+/**
+ * Default gateway backed by the PayPal Checkout SDK and region credentials
+ */
+export class PayPalSdkRefundGateway implements PayPalRefundGateway {
+  constructor(private pool: Pool) {}
+
+  async refundCapture(data: CaptureRefundRequest): Promise<CaptureRefundResult> {
+    const paypalClient = await getPayPalClientForRegion(this.pool, data.region);
+
+    const request = new paypal.payments.CapturesRefundRequest(data.captureId);
+    request.payPalRequestId(data.idempotencyKey);
+    request.prefer('return=representation');
+    request.requestBody({
+      amount: {
+        currency_code: data.currency,
+        value: data.amount.toFixed(2)
+      },
+      invoice_id: data.invoiceId,
+      // PayPal limits note_to_payer to 255 characters
+      note_to_payer: data.noteToPayer ? data.noteToPayer.slice(0, 255) : undefined
+    } as any);
+
+    let refund: any;
+    try {
+      const response = await paypalClient.execute(request);
+      refund = response.result;
+    } catch (paypalError: any) {
+      console.error('❌ PayPal refund API error:', {
+        captureId: data.captureId,
+        amount: data.amount,
+        currency: data.currency,
+        message: paypalError.message,
+        statusCode: paypalError.statusCode
+      });
+      throw new PaymentError('PayPal refund failed: ' + (paypalError.message || 'Unknown error'), 'PAYPAL_REFUND_FAILED', {
+        statusCode: paypalError.statusCode,
+        details: paypalError.message
+      });
+    }
+
+    return {
+      id: refund.id,
+      status: refund.status,
+      amount: parseFloat(refund.amount?.value ?? data.amount.toFixed(2)),
+      currency: refund.amount?.currency_code || data.currency,
+      statusReason: refund.status_details?.reason
+    };
+  }
+}
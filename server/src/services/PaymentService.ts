@@ -3,9 +3,11 @@ import { getPayPalClientForRegion } from '../config/paypal';
 import * as paypal from '@paypal/checkout-server-sdk';
 import { PaymentError } from '../utils/errors';
 import { OrderService } from './OrderService';
+import { runAfterCommit } from './OrderStatusService';
 import { CartService } from './CartService';
 import { EmailService } from './EmailService';
 import { formatCurrency } from '../utils/currency';
+import { AfterCommitTask } from '../types/cart';
 
 export interface CreatePaymentData {
   orderId: number;
@@ -103,7 +105,7 @@ export class PaymentService {
 
       // CRITICAL: Validate order exists and is in correct state
       const orderCheck = await client.query(
-        `SELECT id, payment_status, status, total_amount, shipping_amount, subtotal, discount_amount, tax_amount, payment_expires_at, region 
+        `SELECT id, payment_status, status, total_amount, shipping_amount, subtotal, discount_amount, tax_amount, prices_include_tax, payment_expires_at, region 
          FROM orders 
          WHERE id = $1`,
         [data.orderId]
@@ -158,12 +160,14 @@ export class PaymentService {
         const orderSubtotal = Math.round((typeof order.subtotal === 'string' ? parseFloat(order.subtotal) : Number(order.subtotal) || 0) * 100) / 100;
         const orderDiscount = Math.round((typeof order.discount_amount === 'string' ? parseFloat(order.discount_amount) : Number(order.discount_amount) || 0) * 100) / 100;
         const orderTax = Math.round((typeof order.tax_amount === 'string' ? parseFloat(order.tax_amount) : Number(order.tax_amount) || 0) * 100) / 100;
+        // Tax-inclusive orders already carry the tax inside subtotal/shipping
+        const addedTax = order.prices_include_tax ? 0 : orderTax;
         
         // Calculate expected total with current shipping
-        const expectedTotalWithShipping = Math.round((orderSubtotal - orderDiscount + orderShipping + orderTax) * 100) / 100;
+        const expectedTotalWithShipping = Math.round((orderSubtotal - orderDiscount + orderShipping + addedTax) * 100) / 100;
         
         // Calculate what the shipping should be based on payment amount
-        const expectedShipping = Math.round((paymentAmount - orderSubtotal + orderDiscount - orderTax) * 100) / 100;
+        const expectedShipping = Math.round((paymentAmount - orderSubtotal + orderDiscount - addedTax) * 100) / 100;
         
         // If payment amount is higher and shipping is missing/wrong, update the order
         // This handles cases where shipping was 0 or incorrectly calculated
@@ -247,6 +251,13 @@ export class PaymentService {
         custom_id: data.orderId.toString()
       };
 
+      // Itemize the order (line items, shipping, tax, discount) when the stored amounts add up
+      const itemization = await this.buildPurchaseUnitItems(client, data.orderId, data.currency, paypalAmount);
+      if (itemization) {
+        purchaseUnit.amount.breakdown = itemization.breakdown;
+        purchaseUnit.items = itemization.items;
+      }
+
       // Add billing address if provided
       if (data.billingAddress) {
         purchaseUnit.payment_source = {
@@ -364,6 +375,7 @@ export class PaymentService {
 
   async executePayment(paymentId: string, payerId: string | undefined, orderId: number): Promise<PaymentResult> {
     const client = await this.pool.connect();
+    const afterCommit: AfterCommitTask[] = [];
     
     try {
       await client.query('BEGIN');
@@ -475,7 +487,7 @@ export class PaymentService {
         
         await client.query('COMMIT');
         
-        // Trigger payment failure email event (after commit, outside transaction)
+        // Queue payment failure email event (after commit, outside transaction)
         if (orderResult.rows.length > 0) {
           const order = orderResult.rows[0];
           try {
@@ -496,7 +508,7 @@ export class PaymentService {
             // Get region from order (default to 'us' for backward compatibility)
             const orderRegion = (order.region || 'us') as 'us' | 'eu';
             
-            await this.emailService.triggerEvent(
+            await this.emailService.queueEvent(
               'order.payment_failed',
               {
                 order_number: order.order_number,
@@ -513,7 +525,7 @@ export class PaymentService {
               orderRegion
             );
           } catch (emailError) {
-            console.error('Failed to trigger payment failed email event:', emailError);
+            console.error('Failed to queue payment failed email event:', emailError);
           }
         }
         
@@ -536,7 +548,7 @@ export class PaymentService {
 
       // CRITICAL: Confirm order payment and stock reservations atomically
       // Pass the existing client to prevent deadlock
-      await this.orderService.confirmOrderPayment(orderId, client);
+      await this.orderService.confirmOrderPayment(orderId, client, afterCommit);
 
       // Get order details to find cart ID and send confirmation emails
       const order = await this.orderService.getOrderById(orderId);
@@ -546,6 +558,7 @@ export class PaymentService {
       }
 
       await client.query('COMMIT');
+      await runAfterCommit(afterCommit);
 
       // Send order confirmation emails now that payment is confirmed
       // (Emails were skipped during order creation when payment was pending)
@@ -577,8 +590,9 @@ export class PaymentService {
             // Get region from order (default to 'us' for backward compatibility)
             const orderRegion = (order.region || 'us') as 'us' | 'eu';
 
-            // Trigger order.created event - sends confirmation emails to customer and admin
-            await this.emailService.triggerEvent(
+            // Queue order.created event - confirmation emails to customer and admin are
+            // delivered by the email queue worker so an SMTP outage does not lose them
+            await this.emailService.queueEvent(
               'order.created',
               {
                 order_number: order.order_number,
@@ -589,19 +603,21 @@ export class PaymentService {
                 subtotal: formatCurrency(subtotal, orderRegion),
                 tax_amount: formatCurrency(taxAmount, orderRegion),
                 shipping_amount: formatCurrency(shippingAmount, orderRegion),
-                discount_amount: formatCurrency(discountAmount, orderRegion)
+                discount_amount: formatCurrency(discountAmount, orderRegion),
+                tax_label: order.prices_include_tax ? 'VAT (included)' : 'Tax'
               },
               {
                 customerEmail: order.customer_email,
                 customerName: customerName,
                 adminEmail: 'info@simfab.com'
               },
-              orderRegion
+              orderRegion,
+              10
             );
 
-            console.log(`✅ Order confirmation emails sent for order ${order.order_number} after payment confirmation`);
+            console.log(`✅ Order confirmation emails queued for order ${order.order_number} after payment confirmation`);
           } catch (emailError) {
-            console.error('❌ Failed to send order confirmation emails after payment:', emailError);
+            console.error('❌ Failed to queue order confirmation emails after payment:', emailError);
             // Don't fail payment if emails fail - payment is already confirmed
           }
         })();
@@ -659,7 +675,7 @@ export class PaymentService {
             // Get region from order (default to 'us' for backward compatibility)
             const orderRegion = (order.region || 'us') as 'us' | 'eu';
             
-            await this.emailService.triggerEvent(
+            await this.emailService.queueEvent(
               'order.payment_failed',
               {
                 order_number: order.order_number,
@@ -677,7 +693,7 @@ export class PaymentService {
             );
           }
         } catch (emailError) {
-          console.error('Failed to trigger payment failed email event:', emailError);
+          console.error('Failed to queue payment failed email event:', emailError);
         }
       }
       
@@ -740,6 +756,69 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Build the PayPal amount breakdown and line items from the stored order.
+   * Tax-exclusive orders send tax_total separately; tax-inclusive (EU VAT) orders keep
+   * gross item prices. Returns null when the parts do not add up to the charged amount,
+   * since PayPal rejects inconsistent breakdowns.
+   */
+  private async buildPurchaseUnitItems(client: any, orderId: number, currency: string, amount: number) {
+    const orderResult = await client.query(
+      `SELECT shipping_amount, discount_amount, tax_amount, prices_include_tax FROM orders WHERE id = $1`,
+      [orderId]
+    );
+    const itemsResult = await client.query(
+      `SELECT product_name, product_sku, quantity, unit_price, total_price FROM order_items WHERE order_id = $1 ORDER BY id`,
+      [orderId]
+    );
+
+    if (orderResult.rows.length === 0 || itemsResult.rows.length === 0) {
+      return null;
+    }
+
+    const order = orderResult.rows[0];
+    const toCents = (value: any) => Math.round((parseFloat(value) || 0) * 100);
+    const money = (cents: number) => ({ currency_code: currency, value: (cents / 100).toFixed(2) });
+
+    const items = itemsResult.rows.map((item: any) => ({
+      name: String(item.product_name).substring(0, 127),
+      sku: item.product_sku ? String(item.product_sku).substring(0, 127) : undefined,
+      quantity: String(item.quantity),
+      unit_amount: money(toCents(item.unit_price)),
+      category: 'PHYSICAL_GOODS'
+    }));
+
+    const itemTotal = itemsResult.rows.reduce((sum: number, item: any) => sum + toCents(item.unit_price) * item.quantity, 0);
+    const shipping = toCents(order.shipping_amount);
+    const discount = toCents(order.discount_amount);
+    const tax = order.prices_include_tax ? 0 : toCents(order.tax_amount);
+
+    if (itemTotal + shipping + tax - discount !== Math.round(amount * 100)) {
+      console.warn('PayPal breakdown does not reconcile with payment amount, sending total only', {
+        orderId,
+        itemTotal,
+        shipping,
+        tax,
+        discount,
+        amount
+      });
+      return null;
+    }
+
+    const breakdown: any = {
+      item_total: money(itemTotal),
+      shipping: money(shipping)
+    };
+    if (tax > 0) {
+      breakdown.tax_total = money(tax);
+    }
+    if (discount > 0) {
+      breakdown.discount = money(discount);
+    }
+
+    return { breakdown, items };
+  }
+
   private async updatePaymentStatus(paymentId: string, status: string, transactionId?: string) {
     const client = await this.pool.connect();
     try {
@@ -0,0 +1,404 @@
+/**
+ * Product Attribute Service
+ * Typed attributes defined per category (wheel base brand, seat type, monitor size), their
+ * values per product, and the attribute facets shown in the storefront filter sidebar
+ */
+
+import { Pool } from 'pg';
+import { ProductQueryBuilder } from './ProductQueryBuilder';
+import { ProductQueryOptions } from '../types/product';
+import { SearchMatchType, SearchPlan } from '../types/search';
+import {
+  AttributeFacet,
+  ProductAttribute,
+  ProductAttributeInput,
+  ProductAttributeValue,
+  ProductAttributeValueInput
+} from '../types/attribute';
+import { ConflictError, ErrorCode, NotFoundError, ValidationError } from '../utils/errors';
+
+/**
+ * Attribute filters from the query string (attr[seat-type]=bucket,reclining) as code -> values
+ */
+export const parseAttributeFilters = (query: unknown): Record<string, string[]> | undefined => {
+  if (!query || typeof query !== 'object') {
+    return undefined;
+  }
+
+  const filters: Record<string, string[]> = {};
+  for (const [code, raw] of Object.entries(query as Record<string, unknown>)) {
+    const values = (Array.isArray(raw) ? raw : [raw])
+      .flatMap(value => String(value).split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+    if (values.length > 0) {
+      filters[code] = values;
+    }
+  }
+
+  return Object.keys(filters).length > 0 ? filters : undefined;
+};
+
+const formatNumber = (value: number, unit: string | null): string =>
+  `${Number(value.toFixed(2))}${unit ? ` ${unit}` : ''}`;
+
+export class ProductAttributeService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Attribute definitions, optionally only those that apply to a category
+   */
+  async listAttributes(filter: { category?: string; filterableOnly?: boolean } = {}): Promise<ProductAttribute[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.category) {
+      params.push(filter.category);
+      conditions.push(`(categories = '{}' OR $${params.length} = ANY(categories))`);
+    }
+    if (filter.filterableOnly) {
+      conditions.push('is_filterable = true');
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM product_attributes
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY sort_order, name`,
+      params
+    );
+    return result.rows;
+  }
+
+  async createAttribute(input: ProductAttributeInput): Promise<ProductAttribute> {
+    const attribute = this.normalizeAttribute(input);
+
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO product_attributes (code, name, type, unit, categories, options, is_filterable, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          attribute.code,
+          attribute.name,
+          attribute.type,
+          attribute.unit,
+          attribute.categories,
+          JSON.stringify(attribute.options),
+          attribute.is_filterable,
+          attribute.sort_order
+        ]
+      );
+      return result.rows[0];
+    } catch (error: any) {
+      throw this.mapUniqueViolation(error, attribute.code);
+    }
+  }
+
+  /**
+   * Update a definition. Values of options that were removed are deleted from products.
+   */
+  async updateAttribute(id: number, input: ProductAttributeInput): Promise<ProductAttribute> {
+    const attribute = this.normalizeAttribute(input);
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query('SELECT type FROM product_attributes WHERE id = $1 FOR UPDATE', [id]);
+      if (existing.rows.length === 0) {
+        throw new NotFoundError('Product attribute', { id });
+      }
+
+      const result = await client.query(
+        `UPDATE product_attributes
+         SET code = $2, name = $3, type = $4, unit = $5, categories = $6, options = $7,
+             is_filterable = $8, sort_order = $9, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [
+          id,
+          attribute.code,
+          attribute.name,
+          attribute.type,
+          attribute.unit,
+          attribute.categories,
+          JSON.stringify(attribute.options),
+          attribute.is_filterable,
+          attribute.sort_order
+        ]
+      );
+
+      // Values stored in the old shape no longer mean anything
+      if (this.isOptionType(existing.rows[0].type) !== this.isOptionType(attribute.type)) {
+        await client.query('DELETE FROM product_attribute_values WHERE attribute_id = $1', [id]);
+      } else if (this.isOptionType(attribute.type)) {
+        await client.query(
+          'DELETE FROM product_attribute_values WHERE attribute_id = $1 AND NOT (option_value = ANY($2::text[]))',
+          [id, attribute.options.map(option => option.value)]
+        );
+      }
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      throw this.mapUniqueViolation(error, attribute.code);
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteAttribute(id: number): Promise<void> {
+    const result = await this.pool.query('DELETE FROM product_attributes WHERE id = $1', [id]);
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Product attribute', { id });
+    }
+  }
+
+  /**
+   * Attribute values of one product
+   */
+  async getProductAttributes(productId: number): Promise<ProductAttributeValue[]> {
+    const result = await this.pool.query(
+      `SELECT pa.id AS attribute_id, pa.code, pa.name, pa.type, pa.unit,
+         COALESCE(array_agg(pav.option_value ORDER BY pav.option_value) FILTER (WHERE pav.option_value IS NOT NULL), '{}') AS "values",
+         MIN(pav.min_value) AS min,
+         MAX(pav.max_value) AS max
+       FROM product_attribute_values pav
+       JOIN product_attributes pa ON pa.id = pav.attribute_id
+       WHERE pav.product_id = $1
+       GROUP BY pa.id
+       ORDER BY pa.sort_order, pa.name`,
+      [productId]
+    );
+
+    return result.rows.map(row => ({
+      ...row,
+      min: row.min !== null ? Number(row.min) : null,
+      max: row.max !== null ? Number(row.max) : null
+    }));
+  }
+
+  /**
+   * A product's attribute value as shown to customers: option labels, or numbers with the unit
+   */
+  formatValue(attribute: ProductAttribute, value: ProductAttributeValue): string {
+    if (this.isOptionType(attribute.type)) {
+      return (value.values || [])
+        .map(optionValue => attribute.options.find(option => option.value === optionValue)?.label || optionValue)
+        .join(', ');
+    }
+
+    if (value.min === null || value.min === undefined) {
+      return '';
+    }
+    if (attribute.type === 'range' && value.max !== null && value.max !== undefined && value.max !== value.min) {
+      return `${Number(value.min.toFixed(2))}–${formatNumber(value.max, attribute.unit)}`;
+    }
+    return formatNumber(value.min, attribute.unit);
+  }
+
+  /**
+   * Replace a product's attribute values. With includeGroup the values are also written to
+   * the product's other-region listing, since both describe the same physical product.
+   */
+  async setProductAttributes(
+    productId: number,
+    inputs: ProductAttributeValueInput[],
+    options: { includeGroup?: boolean } = {}
+  ): Promise<ProductAttributeValue[]> {
+    const product = await this.pool.query(
+      'SELECT id, product_group_id FROM products WHERE id = $1 AND deleted_at IS NULL',
+      [productId]
+    );
+    if (product.rows.length === 0) {
+      throw new NotFoundError('Product', { id: productId });
+    }
+
+    let productIds = [productId];
+    if (options.includeGroup && product.rows[0].product_group_id) {
+      const group = await this.pool.query(
+        'SELECT id FROM products WHERE product_group_id = $1 AND deleted_at IS NULL',
+        [product.rows[0].product_group_id]
+      );
+      productIds = group.rows.map(row => row.id);
+    }
+
+    const rows = await this.resolveValues(inputs);
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query('DELETE FROM product_attribute_values WHERE product_id = ANY($1::int[])', [productIds]);
+
+      for (const id of productIds) {
+        for (const row of rows) {
+          await client.query(
+            `INSERT INTO product_attribute_values (product_id, attribute_id, option_value, min_value, max_value)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [id, row.attributeId, row.optionValue, row.min, row.max]
+          );
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.getProductAttributes(productId);
+  }
+
+  /**
+   * Attribute facets for a catalog listing or, with a search plan, for search results
+   */
+  async getFacets(
+    options: ProductQueryOptions,
+    search?: { plan: SearchPlan; matchType: SearchMatchType }
+  ): Promise<AttributeFacet[]> {
+    const attributes = await this.listAttributes({ category: options.category, filterableOnly: true });
+    if (attributes.length === 0) {
+      return [];
+    }
+
+    const queryBuilder = new ProductQueryBuilder(this.pool);
+    const { sql, params } = search
+      ? queryBuilder.buildSearchAttributeFacets(search.plan, attributes, options, search.matchType)
+      : queryBuilder.buildAttributeFacets(attributes, options);
+    const result = await this.pool.query(sql, params);
+
+    const facets: AttributeFacet[] = [];
+    for (const attribute of attributes) {
+      const rows = result.rows.filter(row => row.attribute_id === attribute.id && row.count > 0);
+      if (rows.length === 0) continue;
+
+      const mins = rows.map(row => row.min_value).filter(value => value !== null).map(Number);
+      const maxes = rows.map(row => row.max_value).filter(value => value !== null).map(Number);
+      const facet: AttributeFacet = {
+        code: attribute.code,
+        name: attribute.name,
+        type: attribute.type,
+        unit: attribute.unit,
+        values: [],
+        min: mins.length > 0 ? Math.min(...mins) : null,
+        max: maxes.length > 0 ? Math.max(...maxes) : null
+      };
+
+      if (attribute.type === 'number') {
+        facet.values = rows
+          .map(row => ({ number: Number(row.value), count: row.count }))
+          .sort((a, b) => a.number - b.number)
+          .map(({ number, count }) => ({ value: String(number), label: formatNumber(number, attribute.unit), count }));
+      } else if (this.isOptionType(attribute.type)) {
+        // Options keep the order they were defined in
+        facet.values = attribute.options
+          .map(option => ({ ...option, count: rows.find(row => row.value === option.value)?.count || 0 }))
+          .filter(option => option.count > 0);
+      }
+
+      facets.push(facet);
+    }
+
+    return facets;
+  }
+
+  /**
+   * Check values against the attribute definitions. Options match on value or label, in
+   * any case, so CSV files can use either. Attributes without a value are left out.
+   */
+  private async resolveValues(inputs: ProductAttributeValueInput[]): Promise<Array<{
+    attributeId: number;
+    optionValue: string | null;
+    min: number | null;
+    max: number | null;
+  }>> {
+    if (inputs.length === 0) {
+      return [];
+    }
+
+    const codes = inputs.map(input => input.code);
+    const duplicate = codes.find((code, index) => codes.indexOf(code) !== index);
+    if (duplicate) {
+      throw new ValidationError(`Attribute "${duplicate}" is given more than once`);
+    }
+
+    const result = await this.pool.query('SELECT * FROM product_attributes WHERE code = ANY($1::text[])', [codes]);
+    const attributes = new Map<string, ProductAttribute>(result.rows.map(row => [row.code, row]));
+
+    const rows = [];
+    for (const input of inputs) {
+      const attribute = attributes.get(input.code);
+      if (!attribute) {
+        throw new ValidationError(`Unknown attribute "${input.code}"`);
+      }
+
+      if (this.isOptionType(attribute.type)) {
+        const values = Array.from(new Set((input.values || []).map(value => {
+          const wanted = value.trim().toLowerCase();
+          const option = attribute.options.find(o => o.value.toLowerCase() === wanted || o.label.toLowerCase() === wanted);
+          if (!option) {
+            throw new ValidationError(`"${value}" is not an option of ${attribute.name}`);
+          }
+          return option.value;
+        })));
+        if (attribute.type === 'select' && values.length > 1) {
+          throw new ValidationError(`${attribute.name} takes a single option`);
+        }
+        rows.push(...values.map(value => ({ attributeId: attribute.id, optionValue: value, min: null, max: null })));
+        continue;
+      }
+
+      if (input.min === undefined || input.min === null) {
+        continue;
+      }
+      const max = attribute.type === 'range' ? input.max : input.min;
+      if (max === undefined || max === null) {
+        throw new ValidationError(`${attribute.name} needs a minimum and a maximum`);
+      }
+      if (max < input.min) {
+        throw new ValidationError(`${attribute.name} minimum cannot exceed its maximum`);
+      }
+      rows.push({ attributeId: attribute.id, optionValue: null, min: input.min, max });
+    }
+
+    return rows;
+  }
+
+  private normalizeAttribute(input: ProductAttributeInput): Required<ProductAttributeInput> {
+    const options = this.isOptionType(input.type) ? input.options || [] : [];
+    if (this.isOptionType(input.type) && options.length === 0) {
+      throw new ValidationError('Select and multiselect attributes need at least one option');
+    }
+
+    const values = options.map(option => option.value);
+    if (new Set(values).size !== values.length) {
+      throw new ValidationError('Option values must be unique');
+    }
+
+    return {
+      code: input.code,
+      name: input.name.trim(),
+      type: input.type,
+      unit: input.unit || null,
+      categories: Array.from(new Set(input.categories || [])),
+      options,
+      is_filterable: input.is_filterable !== false,
+      sort_order: input.sort_order || 0
+    };
+  }
+
+  private isOptionType(type: string): boolean {
+    return type === 'select' || type === 'multiselect';
+  }
+
+  private mapUniqueViolation(error: any, code: string): Error {
+    if (error.code === '23505') {
+      return new ConflictError(`An attribute with code "${code}" already exists`, ErrorCode.DUPLICATE_ENTRY);
+    }
+    return error;
+  }
+}
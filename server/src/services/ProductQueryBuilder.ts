@@ -5,6 +5,13 @@
 
 import { Pool } from 'pg';
 import { ProductQueryOptions, ProductStatus } from '../types/product';
+import { SEARCH_PRICE_BANDS, SearchMatchType, SearchPlan, SearchTermGroup } from '../types/search';
+import { ProductAttribute } from '../types/attribute';
+
+// Minimum pg_trgm word similarity between the query and a product name in fuzzy search
+const FUZZY_SIMILARITY_THRESHOLD = 0.4;
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, char => `\\${char}`);
 
 export class ProductQueryBuilder {
   private whereConditions: string[] = [];
@@ -71,8 +78,8 @@ export class ProductQueryBuilder {
            FROM (SELECT * FROM product_images WHERE product_id = p.id ORDER BY sort_order) pi),
           '[]'::json
         ) as images,
-        (SELECT COUNT(*)::int FROM product_reviews pr WHERE pr.product_id = p.id) as review_count,
-        (SELECT COALESCE(AVG(pr.rating), 0) FROM product_reviews pr WHERE pr.product_id = p.id) as rating_average
+        (SELECT COUNT(*)::int FROM product_reviews pr WHERE pr.product_id = p.id AND pr.is_approved = true) as review_count,
+        (SELECT COALESCE(AVG(pr.rating), 0) FROM product_reviews pr WHERE pr.product_id = p.id AND pr.is_approved = true) as rating_average
       ${baseQuery}
       ORDER BY ${this.orderBy}
       LIMIT $${this.addParam(limit)} OFFSET $${this.addParam(offset)}
@@ -87,31 +94,19 @@ export class ProductQueryBuilder {
   }
 
   /**
-   * Build search query with full-text search
+   * Build search query over the weighted search_vector. 'exact' needs every term (or its
+   * synonyms) to match; 'fuzzy' accepts any term or a product name similar to the query.
    */
-  buildSearch(query: string, options: ProductQueryOptions = {}): {
+  buildSearch(plan: SearchPlan, options: ProductQueryOptions = {}, matchType: SearchMatchType = 'exact'): {
     sql: string;
     params: any[];
     countSql: string;
     countParams: any[];
   } {
     this.reset();
-    
-    // Add search condition with full-text search
-    // Reuse the same parameter for all ILIKE conditions
-    const searchPattern = `%${query}%`;
-    const searchParam = this.addParam(searchPattern);
-    this.whereConditions.push(`(
-      p.name ILIKE $${searchParam} OR
-      p.description ILIKE $${searchParam} OR
-      p.sku ILIKE $${searchParam} OR
-      p.tags::text ILIKE $${searchParam}
-    )`);
 
-    // Always filter to active products for public search
-    if (options.status !== ProductStatus.DRAFT) {
-      this.whereConditions.push(`p.status = $${this.addParam('active')}`);
-    }
+    const rank = this.applySearchCondition(plan, matchType);
+    this.applySearchBaseFilters(options);
 
     // Apply additional filters
     this.applyAdditionalFilters(options);
@@ -121,18 +116,13 @@ export class ProductQueryBuilder {
       WHERE ${this.whereConditions.join(' AND ')}
     `;
 
-    // Save params for count query BEFORE building ORDER BY
-    // Reuse the searchParam for ORDER BY instead of creating new params
+    // Save params for count query BEFORE adding limit/offset
+    // ORDER BY reuses the search params already in the list
     const countParams = [...this.params];
     const countSql = `SELECT COUNT(*)::int as total ${baseQuery}`;
 
-    // Sort by relevance for search - reuse existing searchParam instead of adding new params
     this.orderBy = `
-      CASE 
-        WHEN p.name ILIKE $${searchParam} THEN 1
-        WHEN p.sku ILIKE $${searchParam} THEN 2
-        ELSE 3
-      END,
+      ${rank} DESC,
       p.featured DESC,
       p.name ASC
     `;
@@ -162,6 +152,7 @@ export class ProductQueryBuilder {
         p.status, p.featured, p.price_min, p.price_max, p.meta_data,
         p.seo_title, p.seo_description,
         p.is_on_sale, p.sale_start_date, p.sale_end_date, p.sale_label,
+        p.region,
         COALESCE(
           (SELECT json_agg(row_to_json(pi))
            FROM (SELECT * FROM product_images WHERE product_id = p.id ORDER BY sort_order LIMIT 1) pi),
@@ -180,6 +171,197 @@ export class ProductQueryBuilder {
     };
   }
 
+  /**
+   * Facet counts for a search: category, price band, stock status and region. Each facet
+   * is counted with every filter except its own, so choosing a value keeps the others visible.
+   */
+  buildSearchFacets(plan: SearchPlan, options: ProductQueryOptions = {}, matchType: SearchMatchType = 'exact'): {
+    sql: string;
+    params: any[];
+  } {
+    this.reset();
+
+    this.applySearchCondition(plan, matchType);
+    this.applySearchBaseFilters(options);
+    const matchedWhere = this.whereConditions.join(' AND ');
+
+    const categoryFilter = this.filterConditions({ ...options, category: undefined });
+    const priceFilter = this.filterConditions({ ...options, priceBand: undefined, minPrice: undefined, maxPrice: undefined });
+    const stockFilter = this.filterConditions({ ...options, inStock: undefined });
+    const regionFilter = this.filterConditions({ ...options, region: undefined });
+
+    const priceBandCase = `CASE ${SEARCH_PRICE_BANDS.map(band =>
+      `WHEN p.regular_price >= ${band.min}${band.max !== null ? ` AND p.regular_price < ${band.max}` : ''} THEN '${band.id}'`
+    ).join(' ')} END`;
+
+    const sql = `
+      WITH matched AS (
+        SELECT p.* FROM products p WHERE ${matchedWhere}
+      )
+      SELECT 'category' AS facet, c.value AS value, COUNT(*)::int AS count
+      FROM matched p
+      CROSS JOIN LATERAL unnest(product_text_list(p.categories)) AS c(value)
+      WHERE ${categoryFilter}
+      GROUP BY c.value
+      UNION ALL
+      SELECT 'price', ${priceBandCase}, COUNT(*)::int
+      FROM matched p
+      WHERE ${priceFilter} AND p.regular_price IS NOT NULL
+      GROUP BY 2
+      UNION ALL
+      SELECT 'stock', CASE WHEN p.stock > 0 THEN 'in_stock' ELSE 'out_of_stock' END, COUNT(*)::int
+      FROM matched p
+      WHERE ${stockFilter}
+      GROUP BY 2
+      UNION ALL
+      SELECT 'region', p.region, COUNT(*)::int
+      FROM matched p
+      WHERE ${regionFilter} AND p.region IS NOT NULL
+      GROUP BY 2
+    `;
+
+    return { sql, params: this.params };
+  }
+
+  /**
+   * Attribute facet counts for a catalog listing, over the same products as build()
+   */
+  buildAttributeFacets(attributes: ProductAttribute[], options: ProductQueryOptions = {}): {
+    sql: string;
+    params: any[];
+  } {
+    this.reset();
+    this.applyFilters({ ...options, attributes: undefined });
+    const sql = this.buildAttributeFacetQuery(this.whereConditions.join(' AND '), attributes, options);
+    return { sql, params: this.params };
+  }
+
+  /**
+   * Attribute facet counts for a search, over the same products as buildSearch()
+   */
+  buildSearchAttributeFacets(
+    plan: SearchPlan,
+    attributes: ProductAttribute[],
+    options: ProductQueryOptions = {},
+    matchType: SearchMatchType = 'exact'
+  ): { sql: string; params: any[] } {
+    this.reset();
+    this.applySearchCondition(plan, matchType);
+    this.applySearchBaseFilters(options);
+    this.applyAdditionalFilters({ ...options, attributes: undefined });
+    const sql = this.buildAttributeFacetQuery(this.whereConditions.join(' AND '), attributes, options);
+    return { sql, params: this.params };
+  }
+
+  /**
+   * One row per option (or number) and attribute, one row per range attribute. Like the
+   * search facets, each attribute is counted with the other attributes' filters only.
+   */
+  private buildAttributeFacetQuery(matchedWhere: string, attributes: ProductAttribute[], options: ProductQueryOptions): string {
+    const selects = attributes.map(attribute => {
+      const otherAttributes = { ...options.attributes };
+      delete otherAttributes[attribute.code];
+      const filter = this.filterConditions({ attributes: otherAttributes });
+      const attributeParam = this.addParam(attribute.id);
+
+      const value = attribute.type === 'range'
+        ? 'NULL::text'
+        : attribute.type === 'number' ? 'pav.min_value::text' : 'pav.option_value';
+
+      return `
+        SELECT $${attributeParam}::int AS attribute_id, ${value} AS value,
+          MIN(pav.min_value) AS min_value, MAX(pav.max_value) AS max_value,
+          COUNT(DISTINCT p.id)::int AS count
+        FROM matched p
+        JOIN product_attribute_values pav ON pav.product_id = p.id AND pav.attribute_id = $${attributeParam}
+        WHERE ${filter}
+        ${attribute.type === 'range' ? '' : 'GROUP BY 2'}
+      `;
+    });
+
+    return `
+      WITH matched AS (
+        SELECT p.* FROM products p WHERE ${matchedWhere}
+      )
+      ${selects.join(' UNION ALL ')}
+    `;
+  }
+
+  /**
+   * Add the search match condition and return the relevance expression for ORDER BY
+   */
+  private applySearchCondition(plan: SearchPlan, matchType: SearchMatchType): string {
+    // An expression rather than a bare 0, which ORDER BY would read as a column position
+    if (plan.groups.length === 0) {
+      // No searchable words (only punctuation or non-Latin letters): match the text as typed
+      if (plan.query) {
+        const likeParam = this.addParam(`%${escapeLike(plan.query)}%`);
+        this.whereConditions.push(`(
+          p.name ILIKE $${likeParam} OR
+          p.description ILIKE $${likeParam} OR
+          p.sku ILIKE $${likeParam}
+        )`);
+      }
+      return '0::real';
+    }
+
+    const tsQuery = this.buildTsQuery(plan.groups, matchType === 'exact' ? '&&' : '||');
+    const skuParam = this.addParam(`${escapeLike(plan.query)}%`);
+
+    if (matchType === 'exact') {
+      this.whereConditions.push(`(p.search_vector @@ ${tsQuery} OR p.sku ILIKE $${skuParam})`);
+      return `(COALESCE(p.sku ILIKE $${skuParam}, false)::int + ts_rank_cd(p.search_vector, ${tsQuery}))`;
+    }
+
+    const queryParam = this.addParam(plan.query);
+    this.whereConditions.push(`(
+      p.search_vector @@ ${tsQuery} OR
+      p.sku ILIKE $${skuParam} OR
+      word_similarity($${queryParam}, p.name) >= ${FUZZY_SIMILARITY_THRESHOLD}
+    )`);
+    return `GREATEST(ts_rank_cd(p.search_vector, ${tsQuery}), word_similarity($${queryParam}, p.name))`;
+  }
+
+  /**
+   * Each group matches its own text or any synonym; groups are joined with AND or OR
+   */
+  private buildTsQuery(groups: SearchTermGroup[], operator: '&&' | '||'): string {
+    const parts = groups.map(group => {
+      const main = group.prefix
+        ? `to_tsquery('english', $${this.addParam(`${group.text}:*`)})`
+        : `phraseto_tsquery('english', $${this.addParam(group.text)})`;
+      const alternatives = group.alternatives.map(alternative =>
+        `phraseto_tsquery('english', $${this.addParam(alternative)})`
+      );
+      return `(${[main, ...alternatives].join(' || ')})`;
+    });
+    return `(${parts.join(` ${operator} `)})`;
+  }
+
+  /**
+   * Public search only covers live products
+   */
+  private applySearchBaseFilters(options: ProductQueryOptions): void {
+    this.whereConditions.push('p.deleted_at IS NULL');
+
+    // Always filter to active products for public search
+    if (options.status !== ProductStatus.DRAFT) {
+      this.whereConditions.push(`p.status = $${this.addParam('active')}`);
+    }
+  }
+
+  /**
+   * Additional filters as one SQL condition, sharing this query's params
+   */
+  private filterConditions(options: ProductQueryOptions): string {
+    const saved = this.whereConditions;
+    this.whereConditions = [];
+    this.applyAdditionalFilters(options);
+    const condition = this.whereConditions.length > 0 ? this.whereConditions.join(' AND ') : 'TRUE';
+    this.whereConditions = saved;
+    return condition;
+  }
+
   /**
    * Apply filters to query
    */
@@ -223,6 +405,15 @@ export class ProductQueryBuilder {
       this.whereConditions.push(`p.regular_price <= $${this.addParam(options.maxPrice)}`);
     }
 
+    // Price band from search facets ([min, max))
+    const priceBand = options.priceBand && SEARCH_PRICE_BANDS.find(band => band.id === options.priceBand);
+    if (priceBand) {
+      this.whereConditions.push(`p.regular_price >= $${this.addParam(priceBand.min)}`);
+      if (priceBand.max !== null) {
+        this.whereConditions.push(`p.regular_price < $${this.addParam(priceBand.max)}`);
+      }
+    }
+
     // Stock filter (database uses 'stock' not 'stock_quantity')
     if (options.inStock !== undefined) {
       if (options.inStock) {
@@ -243,6 +434,26 @@ export class ProductQueryBuilder {
       this.whereConditions.push(`(${tagConditions.join(' OR ')})`);
     }
 
+    // Attribute filters: any of the values of an attribute, every attribute given. Numbers
+    // match number attributes and fall within range attributes ("27" finds 24-32" stands).
+    if (options.attributes) {
+      for (const [code, values] of Object.entries(options.attributes)) {
+        if (values.length === 0) continue;
+        const numbers = values.filter(value => value.trim() !== '').map(Number).filter(Number.isFinite);
+        this.whereConditions.push(`EXISTS (
+          SELECT 1 FROM product_attribute_values pav
+          JOIN product_attributes pa ON pa.id = pav.attribute_id
+          WHERE pav.product_id = p.id AND pa.code = $${this.addParam(code)} AND (
+            pav.option_value = ANY($${this.addParam(values)}::text[]) OR
+            EXISTS (
+              SELECT 1 FROM unnest($${this.addParam(numbers)}::numeric[]) AS n(value)
+              WHERE n.value BETWEEN pav.min_value AND pav.max_value
+            )
+          )
+        )`);
+      }
+    }
+
     // Search filter
     if (options.search) {
       const searchParam = this.addParam(`%${options.search}%`);
@@ -272,7 +483,7 @@ export class ProductQueryBuilder {
         this.orderBy = `p.featured DESC, p.created_at DESC`;
         break;
       case 'rating':
-        this.orderBy = `(SELECT COALESCE(AVG(pr.rating), 0) FROM product_reviews pr WHERE pr.product_id = p.id) ${order}`;
+        this.orderBy = `(SELECT COALESCE(AVG(pr.rating), 0) FROM product_reviews pr WHERE pr.product_id = p.id AND pr.is_approved = true) ${order}`;
         break;
       case 'created_at':
       default:
@@ -337,8 +548,8 @@ export class ProductQueryBuilder {
            FROM (SELECT * FROM product_images WHERE product_id = p.id ORDER BY sort_order) pi),
           '[]'::json
         ) as images,
-        (SELECT COUNT(*)::int FROM product_reviews pr WHERE pr.product_id = p.id) as review_count,
-        (SELECT COALESCE(AVG(pr.rating), 0) FROM product_reviews pr WHERE pr.product_id = p.id) as rating_average
+        (SELECT COUNT(*)::int FROM product_reviews pr WHERE pr.product_id = p.id AND pr.is_approved = true) as review_count,
+        (SELECT COALESCE(AVG(pr.rating), 0) FROM product_reviews pr WHERE pr.product_id = p.id AND pr.is_approved = true) as rating_average
       FROM products p
       WHERE p.status = $${this.addParam('active')}
         AND p.featured = $${this.addParam(true)}
@@ -0,0 +1,194 @@
+/**
+ * Product Search Service
+ * Storefront search over the weighted products.search_vector: plans the query with
+ * synonyms, falls back to fuzzy (pg_trgm) matching when nothing matches exactly, and
+ * returns facet counts for category, price band, stock status, region and attributes, plus any
+ * landing page redirect configured for the query
+ */
+
+import { Pool } from 'pg';
+import { ProductQueryBuilder } from './ProductQueryBuilder';
+import { SearchRedirectService } from './SearchRedirectService';
+import { ProductAttributeService } from './ProductAttributeService';
+import { SearchSynonymService, tokenizeSearchText } from './SearchSynonymService';
+import { PaginatedProducts, ProductQueryOptions } from '../types/product';
+import {
+  ProductSearchResult,
+  SEARCH_PRICE_BANDS,
+  SearchFacets,
+  SearchMatchType,
+  SearchPlan,
+  SearchTermGroup
+} from '../types/search';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_QUERY_TERMS = 8;
+// Shorter unfinished words would prefix-match most of the catalogue
+const MIN_PREFIX_LENGTH = 2;
+
+const STOCK_STATUS_LABELS: Record<string, string> = {
+  in_stock: 'In stock',
+  out_of_stock: 'Out of stock'
+};
+
+const REGION_LABELS: Record<string, string> = {
+  us: 'US store',
+  eu: 'EU store'
+};
+
+export class ProductSearchService {
+  private queryBuilder: ProductQueryBuilder;
+  private synonymService: SearchSynonymService;
+  private redirectService: SearchRedirectService;
+  private attributeService: ProductAttributeService;
+
+  constructor(private pool: Pool) {
+    this.queryBuilder = new ProductQueryBuilder(pool);
+    this.synonymService = new SearchSynonymService(pool);
+    this.redirectService = new SearchRedirectService(pool);
+    this.attributeService = new ProductAttributeService(pool);
+  }
+
+  /**
+   * Search products; when no product matches every term, retry fuzzily
+   */
+  async search(query: string, options: ProductQueryOptions = {}): Promise<ProductSearchResult> {
+    const plan = await this.planQuery(query);
+
+    let matchType: SearchMatchType = 'exact';
+    let result = await this.runSearch(plan, options, matchType);
+
+    if (result.pagination.total === 0 && plan.groups.length > 0) {
+      matchType = 'fuzzy';
+      result = await this.runSearch(plan, options, matchType);
+    }
+
+    const [facets, redirectUrl] = await Promise.all([
+      this.getFacets(plan, options, matchType),
+      this.redirectService.findRedirect(plan.query)
+    ]);
+
+    return { ...result, matchType, facets, redirectUrl };
+  }
+
+  /**
+   * Search-as-you-type: a few products plus the categories they fall in
+   */
+  async suggest(query: string, region?: 'us' | 'eu', limit: number = 6) {
+    const result = await this.search(query, { region, page: 1, limit });
+
+    return {
+      products: result.products,
+      categories: result.facets.categories.slice(0, 3),
+      matchType: result.matchType,
+      redirectUrl: result.redirectUrl,
+      total: result.pagination.total
+    };
+  }
+
+  /**
+   * Split the query into words, grouping multi-word synonym terms and attaching their synonyms
+   */
+  async planQuery(query: string): Promise<SearchPlan> {
+    const trimmed = (query || '').trim().slice(0, MAX_QUERY_LENGTH);
+    const tokens = tokenizeSearchText(trimmed).slice(0, MAX_QUERY_TERMS);
+    const expansions = await this.synonymService.getExpansions();
+    const longestTerm = Math.max(1, ...Array.from(expansions.keys()).map(term => term.split(' ').length));
+
+    const groups: SearchTermGroup[] = [];
+    let index = 0;
+    while (index < tokens.length) {
+      let size = Math.min(longestTerm, tokens.length - index);
+      while (size > 1 && !expansions.has(tokens.slice(index, index + size).join(' '))) {
+        size--;
+      }
+
+      const text = tokens.slice(index, index + size).join(' ');
+      groups.push({ text, alternatives: expansions.get(text) || [], prefix: false });
+      index += size;
+    }
+
+    // The last word may still be being typed, unless the query ends with a space
+    const last = groups[groups.length - 1];
+    if (last && !last.text.includes(' ') && last.text.length >= MIN_PREFIX_LENGTH && !/\s$/.test(query)) {
+      last.prefix = true;
+    }
+
+    return { query: trimmed, groups };
+  }
+
+  private async runSearch(
+    plan: SearchPlan,
+    options: ProductQueryOptions,
+    matchType: SearchMatchType
+  ): Promise<PaginatedProducts> {
+    const { sql, params, countSql, countParams } = this.queryBuilder.buildSearch(plan, options, matchType);
+
+    const [productsResult, countResult] = await Promise.all([
+      this.pool.query(sql, params),
+      this.pool.query(countSql, countParams)
+    ]);
+
+    const total = countResult.rows[0]?.total || 0;
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      products: productsResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1
+      }
+    };
+  }
+
+  private async getFacets(
+    plan: SearchPlan,
+    options: ProductQueryOptions,
+    matchType: SearchMatchType
+  ): Promise<SearchFacets> {
+    const { sql, params } = this.queryBuilder.buildSearchFacets(plan, options, matchType);
+    const [result, attributes] = await Promise.all([
+      this.pool.query(sql, params),
+      this.attributeService.getFacets(options, { plan, matchType })
+    ]);
+
+    const facets: SearchFacets = { categories: [], priceBands: [], stockStatus: [], regions: [], attributes };
+    for (const row of result.rows) {
+      switch (row.facet) {
+        case 'category':
+          facets.categories.push({ value: row.value, label: this.formatCategoryName(row.value), count: row.count });
+          break;
+        case 'stock':
+          facets.stockStatus.push({ value: row.value, label: STOCK_STATUS_LABELS[row.value] || row.value, count: row.count });
+          break;
+        case 'region':
+          facets.regions.push({ value: row.value, label: REGION_LABELS[row.value] || row.value, count: row.count });
+          break;
+      }
+    }
+
+    // Bands keep their defined order; empty ones are left out
+    for (const band of SEARCH_PRICE_BANDS) {
+      const row = result.rows.find(r => r.facet === 'price' && r.value === band.id);
+      if (row) {
+        facets.priceBands.push({ value: band.id, label: band.label, count: row.count, min: band.min, max: band.max });
+      }
+    }
+
+    facets.categories.sort((a, b) => b.count - a.count);
+    return facets;
+  }
+
+  private formatCategoryName(category: string): string {
+    return category
+      .split('-')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+}
@@ -17,14 +17,25 @@ import {
 import { ProductQueryBuilder } from './ProductQueryBuilder';
 import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
 import { AssemblyManualService } from './AssemblyManualService';
+import { InventoryService } from './InventoryService';
+import { InventoryMovementContext } from '../types/inventory';
+import { ProductSearchService } from './ProductSearchService';
+import { ProductAttributeService } from './ProductAttributeService';
+import { ProductSearchResult } from '../types/search';
 
 export class ProductService {
   private queryBuilder: ProductQueryBuilder;
   private assemblyManualService: AssemblyManualService;
+  private inventoryService: InventoryService;
+  private productSearchService: ProductSearchService;
+  private productAttributeService: ProductAttributeService;
 
   constructor(private pool: Pool) {
     this.queryBuilder = new ProductQueryBuilder(pool);
     this.assemblyManualService = new AssemblyManualService(pool);
+    this.inventoryService = new InventoryService(pool);
+    this.productSearchService = new ProductSearchService(pool);
+    this.productAttributeService = new ProductAttributeService(pool);
   }
 
   /**
@@ -55,9 +66,10 @@ export class ProductService {
         const categoriesQuery = this.queryBuilder.buildCategoriesQuery(options.region);
         const priceRangeQuery = this.queryBuilder.buildPriceRangeQuery(options.category);
         
-        const [categoriesResult, priceRangeResult] = await Promise.all([
+        const [categoriesResult, priceRangeResult, attributeFacets] = await Promise.all([
           this.pool.query(categoriesQuery.sql, categoriesQuery.params),
-          this.pool.query(priceRangeQuery.sql, priceRangeQuery.params)
+          this.pool.query(priceRangeQuery.sql, priceRangeQuery.params),
+          this.productAttributeService.getFacets(options)
         ]);
 
         filters = {
@@ -69,7 +81,8 @@ export class ProductService {
           priceRange: {
             min: priceRangeResult.rows[0]?.min_price || 0,
             max: priceRangeResult.rows[0]?.max_price || 10000
-          }
+          },
+          attributes: attributeFacets
         };
       }
 
@@ -148,8 +161,15 @@ export class ProductService {
              WHERE pi.product_id = p.id),
             '[]'::json
           ) as images,
-          (SELECT COUNT(*)::int FROM product_reviews pr WHERE pr.product_id = p.id) as review_count,
-          (SELECT COALESCE(AVG(pr.rating), 0) FROM product_reviews pr WHERE pr.product_id = p.id) as rating_average
+          (SELECT MIN(po.expected_at)::text
+           FROM purchase_order_items poi
+           JOIN purchase_orders po ON po.id = poi.purchase_order_id
+           WHERE poi.product_id = p.id
+             AND poi.quantity_received < poi.quantity_ordered
+             AND po.status IN ('ordered', 'partially_received')
+             AND po.expected_at >= CURRENT_DATE) as restock_eta,
+          (SELECT COUNT(*)::int FROM product_reviews pr WHERE pr.product_id = p.id AND pr.is_approved = true) as review_count,
+          (SELECT COALESCE(AVG(pr.rating), 0) FROM product_reviews pr WHERE pr.product_id = p.id AND pr.is_approved = true) as rating_average
         FROM products p
         WHERE p.id = $1 ${regionFilter}
           AND p.deleted_at IS NULL
@@ -240,8 +260,9 @@ export class ProductService {
 
   /**
    * Create new product
+   * @param inventoryContext - Who is creating it and why, for the opening stock movement (defaults to a manual adjustment)
    */
-  async createProduct(data: CreateProductDto): Promise<Product> {
+  async createProduct(data: CreateProductDto, inventoryContext: Partial<InventoryMovementContext> = {}): Promise<Product> {
     const client = await this.pool.connect();
 
     try {
@@ -324,9 +345,9 @@ export class ProductService {
         data.package_height || null,
         data.package_dimension_unit || null,
         data.tariff_code || null,
-          stockQty,
+        0, // Opening stock is written through the inventory ledger below
         data.low_stock_threshold || 5,
-        stockQty > 0 ? '1' : '0',
+        '0',
         (data.allow_backorders || false) ? 'yes' : 'no',
         data.tax_class || null,
         data.shipping_class || null,
@@ -341,9 +362,22 @@ export class ProductService {
       ];
 
       const result = await client.query(sql, values);
+      const product = result.rows[0];
+
+      if (stockQty !== 0) {
+        await this.inventoryService.setProductStock(
+          product.id,
+          stockQty,
+          this.inventoryContext(inventoryContext, product.id),
+          client
+        );
+        product.stock = stockQty;
+        product.in_stock = stockQty > 0 ? '1' : '0';
+      }
+
       await client.query('COMMIT');
 
-      return result.rows[0];
+      return product;
     } catch (error) {
       await client.query('ROLLBACK');
       if (error instanceof ConflictError) throw error;
@@ -357,8 +391,13 @@ export class ProductService {
   /**
    * Update product
    * If product is part of a group, syncs shared fields to the paired product automatically
+   * @param inventoryContext - Who is editing and why, recorded if the stock quantity changes
    */
-  async updateProduct(id: number, data: Partial<UpdateProductDto>): Promise<Product> {
+  async updateProduct(
+    id: number,
+    data: Partial<UpdateProductDto>,
+    inventoryContext: Partial<InventoryMovementContext> = {}
+  ): Promise<Product> {
     const client = await this.pool.connect();
 
     try {
@@ -536,8 +575,15 @@ export class ProductService {
       }
       
       // Stock fields - NOT synced (region-specific)
-      if (data.stock_quantity !== undefined) {
-        addField('stock', data.stock_quantity);
+      // The quantity itself is written through the inventory ledger, which also sets in_stock
+      const hasStockChange = data.stock_quantity !== undefined && data.stock_quantity !== null;
+      if (hasStockChange) {
+        await this.inventoryService.setProductStock(
+          id,
+          Number(data.stock_quantity),
+          this.inventoryContext(inventoryContext, id),
+          client
+        );
       }
       if (data.low_stock_threshold !== undefined) {
         addField('low_stock_amount', data.low_stock_threshold);
@@ -609,12 +655,7 @@ export class ProductService {
       addField('region', data.region);
       addField('product_group_id', data.product_group_id);
       
-      // Update in_stock based on stock quantity (region-specific, not synced)
-      if (data.stock_quantity !== undefined) {
-        addField('in_stock', data.stock_quantity > 0 ? '1' : '0');
-      }
-
-      if (updateFields.length === 0) {
+      if (updateFields.length === 0 && !hasStockChange) {
         throw new ValidationError('No fields to update');
       }
 
@@ -812,6 +853,7 @@ export class ProductService {
   /**
    * Create product group (both US and EU regions)
    * Creates two products with the same product_group_id, sharing all data except stock
+   * @param inventoryContext - Who is creating the group, for the opening stock movements
    */
   async createProductGroup(data: {
     name: string;
@@ -828,7 +870,7 @@ export class ProductService {
     sku: string;
     stock_quantity_us: number;
     stock_quantity_eu: number;
-  }): Promise<{ us: Product; eu: Product }> {
+  }, inventoryContext: Partial<InventoryMovementContext> = {}): Promise<{ us: Product; eu: Product }> {
     const client = await this.pool.connect();
 
     try {
@@ -895,8 +937,8 @@ export class ProductService {
         data.status || ProductStatus.DRAFT,
         data.featured || false,
         data.regular_price,
-        usStockQty,
-        usStockQty > 0 ? '1' : '0',
+        0,
+        '0',
         data.categories ? JSON.stringify(data.categories) : null,
         data.tags ? JSON.stringify(data.tags) : null,
         data.name,
@@ -920,8 +962,8 @@ export class ProductService {
         data.status || ProductStatus.DRAFT,
         data.featured || false,
         data.regular_price,
-        euStockQty,
-        euStockQty > 0 ? '1' : '0',
+        0,
+        '0',
         data.categories ? JSON.stringify(data.categories) : null,
         data.tags ? JSON.stringify(data.tags) : null,
         data.name,
@@ -933,6 +975,20 @@ export class ProductService {
       const euResult = await client.query(insertSql, euValues);
       const euProduct = euResult.rows[0];
 
+      // Opening stock per region goes through the inventory ledger
+      for (const [product, quantity] of [[usProduct, usStockQty], [euProduct, euStockQty]] as [any, number][]) {
+        if (quantity !== 0) {
+          await this.inventoryService.setProductStock(
+            product.id,
+            quantity,
+            this.inventoryContext(inventoryContext, product.id),
+            client
+          );
+          product.stock = quantity;
+          product.in_stock = quantity > 0 ? '1' : '0';
+        }
+      }
+
       await client.query('COMMIT');
 
       return { us: usProduct, eu: euProduct };
@@ -946,6 +1002,15 @@ export class ProductService {
     }
   }
 
+  private inventoryContext(context: Partial<InventoryMovementContext>, productId: number): InventoryMovementContext {
+    return {
+      ...context,
+      reason: context.reason || 'manual_adjustment',
+      sourceType: context.sourceType || 'product_edit',
+      sourceId: context.sourceId ?? productId
+    };
+  }
+
   /**
    * Break product group (unlink products)
    * Sets product_group_id to NULL for all products in the group
@@ -1133,34 +1198,11 @@ export class ProductService {
   }
 
   /**
-   * Search products
+   * Search products (full-text with synonyms and fuzzy fallback, see ProductSearchService)
    */
-  async searchProducts(query: string, options: ProductQueryOptions = {}): Promise<PaginatedProducts> {
+  async searchProducts(query: string, options: ProductQueryOptions = {}): Promise<ProductSearchResult> {
     try {
-      const { sql, params, countSql, countParams } = this.queryBuilder.buildSearch(query, options);
-
-      const [productsResult, countResult] = await Promise.all([
-        this.pool.query(sql, params),
-        this.pool.query(countSql, countParams)
-      ]);
-
-      const products = productsResult.rows;
-      const total = countResult.rows[0]?.total || 0;
-      const page = options.page || 1;
-      const limit = options.limit || 10;
-      const totalPages = Math.ceil(total / limit);
-
-      return {
-        products,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-          hasNext: page < totalPages,
-          hasPrevious: page > 1
-        }
-      };
+      return await this.productSearchService.search(query, options);
     } catch (error) {
       console.error('Error searching products:', error);
       throw error;
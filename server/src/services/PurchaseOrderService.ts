@@ -0,0 +1,571 @@
+/**
+ * Purchase Order Service
+ * Suppliers, purchase orders and receiving. Receipts add stock through the inventory
+ * ledger at the order's warehouse and keep a moving average landed cost per product.
+ */
+
+import { Pool } from 'pg';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { InventoryService } from './InventoryService';
+import {
+  Supplier,
+  CreateSupplierDto,
+  UpdateSupplierDto,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  PurchaseOrderFilters,
+  CreatePurchaseOrderDto,
+  UpdatePurchaseOrderDto,
+  PurchaseOrderItemInput,
+  ReceivePurchaseOrderDto,
+  RestockEta,
+  MarginReportRow
+} from '../types/purchasing';
+
+/** Orders whose outstanding lines count as incoming stock */
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['ordered', 'partially_received'];
+
+export class PurchaseOrderService {
+  private inventoryService: InventoryService;
+
+  constructor(private pool: Pool) {
+    this.inventoryService = new InventoryService(pool);
+  }
+
+  // ==========================================================================
+  // Suppliers
+  // ==========================================================================
+
+  async getSuppliers(): Promise<Array<Supplier & { open_orders: number }>> {
+    const result = await this.pool.query(
+      `SELECT s.*,
+              (SELECT COUNT(*)::int FROM purchase_orders po
+               WHERE po.supplier_id = s.id AND po.status = ANY($1)) AS open_orders
+       FROM suppliers s
+       ORDER BY s.is_active DESC, s.name`,
+      [OPEN_STATUSES]
+    );
+
+    return result.rows;
+  }
+
+  async createSupplier(data: CreateSupplierDto): Promise<Supplier> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO suppliers (name, contact_name, email, phone, address, currency, lead_time_days, notes, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          data.name,
+          data.contact_name || null,
+          data.email || null,
+          data.phone || null,
+          data.address ? JSON.stringify(data.address) : null,
+          data.currency || 'USD',
+          data.lead_time_days ?? null,
+          data.notes || null,
+          data.is_active ?? true
+        ]
+      );
+
+      return result.rows[0];
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new ConflictError(`Supplier ${data.name} already exists`, 'SUPPLIER_EXISTS');
+      }
+      throw error;
+    }
+  }
+
+  async updateSupplier(id: number, data: UpdateSupplierDto): Promise<Supplier> {
+    const fields: string[] = [];
+    const values: any[] = [];
+
+    const columns: Array<keyof UpdateSupplierDto> = [
+      'name', 'contact_name', 'email', 'phone', 'address', 'currency', 'lead_time_days', 'notes', 'is_active'
+    ];
+    for (const column of columns) {
+      if (data[column] !== undefined) {
+        values.push(column === 'address' && data.address ? JSON.stringify(data.address) : data[column]);
+        fields.push(`${column} = $${values.length}`);
+      }
+    }
+
+    if (fields.length === 0) {
+      throw new ValidationError('No fields to update');
+    }
+
+    values.push(id);
+
+    try {
+      const result = await this.pool.query(
+        `UPDATE suppliers SET ${fields.join(', ')} WHERE id = $${values.length} RETURNING *`,
+        values
+      );
+
+      if (result.rows.length === 0) {
+        throw new NotFoundError('Supplier', { id });
+      }
+
+      return result.rows[0];
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new ConflictError(`Supplier ${data.name} already exists`, 'SUPPLIER_EXISTS');
+      }
+      throw error;
+    }
+  }
+
+  // ==========================================================================
+  // Purchase orders
+  // ==========================================================================
+
+  async getPurchaseOrders(filters: PurchaseOrderFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`po.status = $${params.length}`);
+    }
+    if (filters.supplierId) {
+      params.push(filters.supplierId);
+      conditions.push(`po.supplier_id = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await this.pool.query(`SELECT COUNT(*)::int AS total FROM purchase_orders po ${where}`, params);
+    const total = countResult.rows[0].total;
+
+    const result = await this.pool.query(
+      `SELECT po.*, s.name AS supplier_name, w.name AS warehouse_name,
+              totals.quantity_ordered, totals.quantity_received, totals.items_total
+       FROM purchase_orders po
+       JOIN suppliers s ON s.id = po.supplier_id
+       JOIN warehouses w ON w.id = po.warehouse_id
+       CROSS JOIN LATERAL (
+         SELECT COALESCE(SUM(quantity_ordered), 0)::int AS quantity_ordered,
+                COALESCE(SUM(quantity_received), 0)::int AS quantity_received,
+                COALESCE(SUM(quantity_ordered * unit_cost), 0)::float AS items_total
+         FROM purchase_order_items WHERE purchase_order_id = po.id
+       ) totals
+       ${where}
+       ORDER BY po.created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      purchaseOrders: result.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1
+      }
+    };
+  }
+
+  async getPurchaseOrderById(id: number, client?: any): Promise<PurchaseOrder> {
+    const db = client || this.pool;
+
+    const result = await db.query(
+      `SELECT po.*, s.name AS supplier_name, w.name AS warehouse_name
+       FROM purchase_orders po
+       JOIN suppliers s ON s.id = po.supplier_id
+       JOIN warehouses w ON w.id = po.warehouse_id
+       WHERE po.id = $1`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Purchase order', { id });
+    }
+
+    const items = await db.query(
+      `SELECT poi.*, p.name AS product_name, p.sku, vo.option_name
+       FROM purchase_order_items poi
+       JOIN products p ON p.id = poi.product_id
+       LEFT JOIN variation_options vo ON vo.id = poi.variation_option_id
+       WHERE poi.purchase_order_id = $1
+       ORDER BY poi.id`,
+      [id]
+    );
+
+    return { ...result.rows[0], items: items.rows };
+  }
+
+  async createPurchaseOrder(data: CreatePurchaseOrderDto, createdBy?: number): Promise<PurchaseOrder> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const supplier = await client.query('SELECT currency FROM suppliers WHERE id = $1', [data.supplierId]);
+      if (supplier.rows.length === 0) {
+        throw new NotFoundError('Supplier', { id: data.supplierId });
+      }
+
+      const result = await client.query(
+        `INSERT INTO purchase_orders
+         (supplier_id, warehouse_id, currency, expected_at, shipping_cost, duty_cost, other_cost, notes, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING id`,
+        [
+          data.supplierId,
+          data.warehouseId,
+          data.currency || supplier.rows[0].currency,
+          data.expectedAt || null,
+          data.shippingCost || 0,
+          data.dutyCost || 0,
+          data.otherCost || 0,
+          data.notes || null,
+          createdBy || null
+        ]
+      );
+      const orderId = result.rows[0].id;
+
+      await this.insertItems(client, orderId, data.items);
+
+      await client.query('COMMIT');
+      return this.getPurchaseOrderById(orderId);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Update a purchase order. Lines, supplier and warehouse can only change while it is a draft.
+   */
+  async updatePurchaseOrder(id: number, data: UpdatePurchaseOrderDto): Promise<PurchaseOrder> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await this.lockOrder(client, id);
+      if (existing.status === 'received' || existing.status === 'cancelled') {
+        throw new ValidationError(`Purchase order is ${existing.status} and can no longer be changed`);
+      }
+
+      const isDraft = existing.status === 'draft';
+      if (!isDraft && (data.items || data.supplierId || data.warehouseId || data.currency)) {
+        throw new ValidationError('Only dates, landed costs and notes can change once a purchase order is placed');
+      }
+
+      await client.query(
+        `UPDATE purchase_orders
+         SET supplier_id = COALESCE($1, supplier_id),
+             warehouse_id = COALESCE($2, warehouse_id),
+             currency = COALESCE($3, currency),
+             expected_at = CASE WHEN $4::boolean THEN $5::date ELSE expected_at END,
+             shipping_cost = COALESCE($6, shipping_cost),
+             duty_cost = COALESCE($7, duty_cost),
+             other_cost = COALESCE($8, other_cost),
+             notes = CASE WHEN $9::boolean THEN $10 ELSE notes END
+         WHERE id = $11`,
+        [
+          data.supplierId ?? null,
+          data.warehouseId ?? null,
+          data.currency ?? null,
+          data.expectedAt !== undefined,
+          data.expectedAt || null,
+          data.shippingCost ?? null,
+          data.dutyCost ?? null,
+          data.otherCost ?? null,
+          data.notes !== undefined,
+          data.notes || null,
+          id
+        ]
+      );
+
+      if (data.items) {
+        await client.query('DELETE FROM purchase_order_items WHERE purchase_order_id = $1', [id]);
+        await this.insertItems(client, id, data.items);
+      }
+
+      await client.query('COMMIT');
+      return this.getPurchaseOrderById(id);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Place a draft order with the supplier; from here its lines count as incoming stock
+   */
+  async markOrdered(id: number): Promise<PurchaseOrder> {
+    const result = await this.pool.query(
+      `UPDATE purchase_orders SET status = 'ordered', ordered_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'draft'
+       RETURNING id`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      await this.getPurchaseOrderById(id);
+      throw new ValidationError('Only draft purchase orders can be placed');
+    }
+
+    return this.getPurchaseOrderById(id);
+  }
+
+  /**
+   * Cancel an order. Stock already received stays; the remaining lines stop counting as incoming.
+   */
+  async cancelPurchaseOrder(id: number): Promise<PurchaseOrder> {
+    const result = await this.pool.query(
+      `UPDATE purchase_orders SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status IN ('draft', 'ordered', 'partially_received')
+       RETURNING id`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      await this.getPurchaseOrderById(id);
+      throw new ValidationError('Received or cancelled purchase orders cannot be cancelled');
+    }
+
+    return this.getPurchaseOrderById(id);
+  }
+
+  /**
+   * Receive some or all of the outstanding quantity on an order's lines.
+   * Stock is added at the order's warehouse through the ledger and each line's
+   * landed unit cost feeds the product's moving average landed cost.
+   */
+  async receivePurchaseOrder(id: number, data: ReceivePurchaseOrderDto, receivedBy?: number): Promise<PurchaseOrder> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const order = await this.lockOrder(client, id);
+      if (!OPEN_STATUSES.includes(order.status)) {
+        throw new ValidationError(`Purchase order is ${order.status}; only placed orders can be received`);
+      }
+
+      const items = await client.query(
+        'SELECT * FROM purchase_order_items WHERE purchase_order_id = $1 FOR UPDATE',
+        [id]
+      );
+      const orderValue = items.rows.reduce(
+        (sum: number, item: any) => sum + item.quantity_ordered * parseFloat(item.unit_cost),
+        0
+      );
+      const extraCosts = parseFloat(order.shipping_cost) + parseFloat(order.duty_cost) + parseFloat(order.other_cost);
+
+      for (const line of data.lines) {
+        if (line.quantity <= 0) continue;
+
+        const item = items.rows.find((row: any) => row.id === line.itemId);
+        if (!item) {
+          throw new NotFoundError('Purchase order line', { itemId: line.itemId });
+        }
+
+        const outstanding = item.quantity_ordered - item.quantity_received;
+        if (line.quantity > outstanding) {
+          throw new ValidationError(`Only ${outstanding} outstanding on line ${item.id}`, {
+            itemId: item.id,
+            outstanding,
+            requested: line.quantity
+          });
+        }
+
+        // Spread the order's extra costs over the lines by value
+        const unitCost = parseFloat(item.unit_cost);
+        const share = orderValue > 0
+          ? (item.quantity_ordered * unitCost) / orderValue
+          : 1 / items.rows.length;
+        const landedUnitCost = unitCost + (extraCosts * share) / item.quantity_ordered;
+
+        const context = {
+          reason: 'purchase_receipt' as const,
+          note: data.note || `Received on ${order.po_number}`,
+          warehouseId: order.warehouse_id,
+          actorType: receivedBy ? 'admin' as const : 'system' as const,
+          actorId: receivedBy || null,
+          sourceType: 'purchase_order',
+          sourceId: id
+        };
+
+        const stockBefore = await client.query('SELECT stock, landed_cost FROM products WHERE id = $1', [item.product_id]);
+
+        if (item.variation_option_id) {
+          await this.inventoryService.adjustOptionStock(item.variation_option_id, line.quantity, context, client);
+        } else {
+          await this.inventoryService.adjustProductStock(item.product_id, line.quantity, context, client);
+        }
+
+        await this.updateLandedCost(client, item.product_id, stockBefore.rows[0], line.quantity, landedUnitCost);
+
+        await client.query(
+          `UPDATE purchase_order_items
+           SET quantity_received = quantity_received + $1, landed_unit_cost = $2
+           WHERE id = $3`,
+          [line.quantity, landedUnitCost.toFixed(4), item.id]
+        );
+      }
+
+      const remaining = await client.query(
+        `SELECT COALESCE(SUM(quantity_ordered - quantity_received), 0)::int AS outstanding
+         FROM purchase_order_items WHERE purchase_order_id = $1`,
+        [id]
+      );
+      const fullyReceived = remaining.rows[0].outstanding === 0;
+
+      await client.query(
+        `UPDATE purchase_orders
+         SET status = $1, received_at = CASE WHEN $2::boolean THEN CURRENT_TIMESTAMP ELSE received_at END
+         WHERE id = $3`,
+        [fullyReceived ? 'received' : 'partially_received', fullyReceived, id]
+      );
+
+      await client.query('COMMIT');
+      return this.getPurchaseOrderById(id);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ==========================================================================
+  // Restock ETAs and margins
+  // ==========================================================================
+
+  /**
+   * Out-of-stock backorderable products with an open purchase order, soonest first
+   */
+  async getRestockEtas(region?: 'us' | 'eu'): Promise<RestockEta[]> {
+    const params: any[] = [OPEN_STATUSES];
+    let regionFilter = '';
+    if (region) {
+      params.push(region);
+      regionFilter = `AND p.region = $${params.length}`;
+    }
+
+    const result = await this.pool.query(
+      `SELECT p.id AS product_id, p.name, p.slug,
+              MIN(po.expected_at)::text AS restock_eta,
+              SUM(poi.quantity_ordered - poi.quantity_received)::int AS quantity_incoming
+       FROM products p
+       JOIN purchase_order_items poi ON poi.product_id = p.id AND poi.quantity_received < poi.quantity_ordered
+       JOIN purchase_orders po ON po.id = poi.purchase_order_id
+       WHERE po.status = ANY($1)
+         AND po.expected_at >= CURRENT_DATE
+         AND p.deleted_at IS NULL
+         AND p.status = 'active'
+         AND COALESCE(p.stock, 0) <= 0
+         AND LOWER(TRIM(COALESCE(p.backorders_allowed, ''))) IN ('yes', '1', 'true', 'on')
+         ${regionFilter}
+       GROUP BY p.id, p.name, p.slug
+       ORDER BY MIN(po.expected_at), p.name`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Revenue against landed cost for paid orders in the period
+   */
+  async getMarginReport(days: number): Promise<MarginReportRow[]> {
+    const result = await this.pool.query(
+      `SELECT p.id AS product_id, p.name, p.sku,
+              SUM(oi.quantity)::int AS units_sold,
+              SUM(oi.total_price)::float AS revenue,
+              p.landed_cost::float AS landed_cost
+       FROM order_items oi
+       JOIN orders o ON o.id = oi.order_id
+       JOIN products p ON p.id = oi.product_id
+       WHERE o.payment_status = 'paid'
+         AND o.created_at >= CURRENT_DATE - ($1::int * INTERVAL '1 day')
+       GROUP BY p.id, p.name, p.sku, p.landed_cost
+       ORDER BY SUM(oi.total_price) DESC`,
+      [days]
+    );
+
+    return result.rows.map(row => {
+      if (row.landed_cost === null) {
+        return { ...row, cost_of_goods: null, gross_margin: null, margin_percent: null };
+      }
+
+      const costOfGoods = row.landed_cost * row.units_sold;
+      const grossMargin = row.revenue - costOfGoods;
+      return {
+        ...row,
+        cost_of_goods: costOfGoods,
+        gross_margin: grossMargin,
+        margin_percent: row.revenue > 0 ? (grossMargin / row.revenue) * 100 : null
+      };
+    });
+  }
+
+  private async insertItems(client: any, orderId: number, items: PurchaseOrderItemInput[]): Promise<void> {
+    for (const item of items) {
+      if (item.variationOptionId) {
+        const option = await client.query(
+          `SELECT 1 FROM variation_options vo
+           JOIN product_variations v ON v.id = vo.variation_id
+           WHERE vo.id = $1 AND v.product_id = $2`,
+          [item.variationOptionId, item.productId]
+        );
+        if (option.rows.length === 0) {
+          throw new ValidationError(`Variation option ${item.variationOptionId} does not belong to product ${item.productId}`);
+        }
+      }
+
+      await client.query(
+        `INSERT INTO purchase_order_items (purchase_order_id, product_id, variation_option_id, quantity_ordered, unit_cost)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [orderId, item.productId, item.variationOptionId || null, item.quantity, item.unitCost]
+      );
+    }
+  }
+
+  private async lockOrder(client: any, id: number): Promise<PurchaseOrder> {
+    const result = await client.query('SELECT * FROM purchase_orders WHERE id = $1 FOR UPDATE', [id]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Purchase order', { id });
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Fold a receipt into the product's moving average landed cost.
+   * Stock on hand below zero (backorders) carries no cost weight.
+   */
+  private async updateLandedCost(
+    client: any,
+    productId: number,
+    before: { stock: number | null; landed_cost: string | null },
+    quantity: number,
+    landedUnitCost: number
+  ): Promise<void> {
+    const onHand = Math.max(0, before.stock || 0);
+    const previousCost = before.landed_cost === null ? null : parseFloat(before.landed_cost);
+
+    const averageCost = previousCost === null || onHand === 0
+      ? landedUnitCost
+      : (previousCost * onHand + landedUnitCost * quantity) / (onHand + quantity);
+
+    await client.query('UPDATE products SET landed_cost = $1 WHERE id = $2', [averageCost.toFixed(4), productId]);
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * QR Code Service
- * Generates unique QR codes for assembly manuals
+ * Generates unique QR codes for assembly manuals and authenticator app enrolment
  */
 
 import QRCode from 'qrcode';
@@ -75,6 +75,22 @@ export class QRCodeService {
     }
   }
 
+  /**
+   * Render arbitrary text as a QR code data URL without writing a file
+   * Used for otpauth:// enrolment links, which must never be stored on disk
+   */
+  async generateDataUrl(text: string): Promise<string> {
+    try {
+      return await QRCode.toDataURL(text, {
+        errorCorrectionLevel: 'M',
+        margin: 1,
+        width: 240
+      });
+    } catch (error) {
+      throw new ValidationError('Failed to generate QR code', { error });
+    }
+  }
+
   /**
    * Regenerate QR code (update existing)
    */
@@ -0,0 +1,335 @@
+/**
+ * Recommendation Service
+ * Rebuilds computed product_relationships from paid orders (co-purchase) and product page
+ * views (co-view), manages admin overrides, and serves the storefront recommendation blocks
+ */
+
+import { Pool, PoolClient } from 'pg';
+import {
+  ProductRecommendations,
+  ProductRelationship,
+  ProductRelationshipWithProduct,
+  RecommendationOptions,
+  RecommendedProduct,
+  RecomputeRecommendationsResult,
+  RelationshipType,
+  UpsertRelationshipDto
+} from '../types/recommendation';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+const ORDER_LOOKBACK_DAYS = 365;
+const VIEW_LOOKBACK_DAYS = 90;
+// Pairs seen fewer times than this are coincidence
+const MIN_CO_PURCHASES = 2;
+const MIN_CO_VIEWERS = 3;
+// Computed relationships kept per product and type
+const MAX_COMPUTED_PER_PRODUCT = 12;
+const DEFAULT_BLOCK_LIMIT = 4;
+
+// Add-ons bought with a main product show as "Compatible accessories"
+const ACCESSORY_CATEGORIES = [
+  'accessories',
+  'flight-sim-accessories',
+  'flight-sim-add-on-modules',
+  'individual-parts'
+];
+
+export class RecommendationService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Replace all computed relationships; manual rows are kept and win over computed pairs
+   */
+  async recomputeRelationships(): Promise<RecomputeRecommendationsResult> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(`DELETE FROM product_relationships WHERE source = 'computed'`);
+
+      const frequentlyBoughtTogether = await this.insertCoPurchases(client, 'frequently_bought_together');
+      const accessories = await this.insertCoPurchases(client, 'accessory');
+      const alsoViewed = await this.insertCoViews(client);
+
+      await client.query('COMMIT');
+
+      return { frequentlyBoughtTogether, accessories, alsoViewed };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Recommendation blocks for one product page or the products in a cart. Recommendations
+   * of a product's other regional listings count too; each block only holds active,
+   * purchasable products from the requested region, and a product shows in one block only
+   */
+  async getRecommendations(productIds: number[], options: RecommendationOptions = {}): Promise<ProductRecommendations> {
+    const limit = options.limit || DEFAULT_BLOCK_LIMIT;
+    const shown = [...(options.excludeProductIds || [])];
+
+    const frequentlyBoughtTogether = await this.getRelated(productIds, 'frequently_bought_together', options.region, limit, shown);
+    shown.push(...frequentlyBoughtTogether.map(product => product.id));
+
+    const accessories = await this.getRelated(productIds, 'accessory', options.region, limit, shown);
+    shown.push(...accessories.map(product => product.id));
+
+    const alsoViewed = await this.getRelated(productIds, 'related', options.region, limit, shown);
+
+    return { frequentlyBoughtTogether, accessories, alsoViewed };
+  }
+
+  /**
+   * All relationships of a product for the admin editor, manual first
+   */
+  async listRelationships(productId: number): Promise<ProductRelationshipWithProduct[]> {
+    const result = await this.pool.query(
+      `SELECT pr.*,
+         p.name AS related_product_name,
+         p.sku AS related_product_sku,
+         p.region AS related_product_region,
+         p.status AS related_product_status
+       FROM product_relationships pr
+       JOIN products p ON p.id = pr.related_product_id
+       WHERE pr.product_id = $1
+       ORDER BY pr.relationship_type, (pr.source = 'manual') DESC, pr.sort_order, pr.score DESC, p.name`,
+      [productId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Curate a relationship: pin a product into a block, or exclude it with is_excluded.
+   * Turns a computed row into a manual one so the nightly rebuild leaves it alone
+   */
+  async upsertRelationship(productId: number, dto: UpsertRelationshipDto, userId?: number): Promise<ProductRelationship> {
+    if (productId === dto.related_product_id) {
+      throw new ValidationError('A product cannot be related to itself');
+    }
+
+    const products = await this.pool.query(
+      'SELECT id FROM products WHERE id = ANY($1::int[]) AND deleted_at IS NULL',
+      [[productId, dto.related_product_id]]
+    );
+    if (!products.rows.some(row => row.id === productId)) {
+      throw new NotFoundError('Product', { id: productId });
+    }
+    if (!products.rows.some(row => row.id === dto.related_product_id)) {
+      throw new NotFoundError('Related product', { id: dto.related_product_id });
+    }
+
+    const result = await this.pool.query(
+      `INSERT INTO product_relationships
+         (product_id, related_product_id, relationship_type, score, source, is_excluded, sort_order, created_by)
+       VALUES ($1, $2, $3, 100, 'manual', $4, $5, $6)
+       ON CONFLICT (product_id, related_product_id, relationship_type) DO UPDATE SET
+         source = 'manual',
+         is_excluded = EXCLUDED.is_excluded,
+         sort_order = EXCLUDED.sort_order,
+         created_by = COALESCE(product_relationships.created_by, EXCLUDED.created_by),
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [
+        productId,
+        dto.related_product_id,
+        dto.relationship_type,
+        dto.is_excluded === true,
+        dto.sort_order || 0,
+        userId || null
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Remove a relationship. A computed pair comes back on the next rebuild; exclude it to hide it
+   */
+  async deleteRelationship(productId: number, relationshipId: number): Promise<void> {
+    const result = await this.pool.query(
+      'DELETE FROM product_relationships WHERE id = $1 AND product_id = $2',
+      [relationshipId, productId]
+    );
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Product relationship', { id: relationshipId });
+    }
+  }
+
+  private async getRelated(
+    productIds: number[],
+    type: RelationshipType,
+    region: 'us' | 'eu' | undefined,
+    limit: number,
+    excludeIds: number[]
+  ): Promise<RecommendedProduct[]> {
+    if (productIds.length === 0) {
+      return [];
+    }
+
+    // anchors: the products and their other regional listings. Relationships of any anchor
+    // count, mapped onto the listing of the related product in the requested region
+    const result = await this.pool.query(
+      `WITH anchors AS (
+         SELECT a.id, a.product_group_id
+         FROM products a
+         WHERE a.id = ANY($1::int[])
+            OR a.product_group_id IN (
+              SELECT product_group_id FROM products WHERE id = ANY($1::int[]) AND product_group_id IS NOT NULL
+            )
+       ),
+       excluded AS (
+         SELECT COALESCE(r.product_group_id::text, r.id::text) AS related_key
+         FROM product_relationships pr
+         JOIN products r ON r.id = pr.related_product_id
+         WHERE pr.product_id IN (SELECT id FROM anchors)
+           AND pr.relationship_type = $2
+           AND pr.is_excluded = true
+       )
+       SELECT
+         t.id, t.name, t.slug, t.sku, t.region,
+         t.regular_price, t.sale_price, t.is_on_sale, t.sale_start_date, t.sale_end_date,
+         t.price_min, t.price_max, t.stock,
+         COALESCE(
+           (SELECT json_agg(row_to_json(pi))
+            FROM (SELECT * FROM product_images WHERE product_id = t.id ORDER BY sort_order LIMIT 1) pi),
+           '[]'::json
+         ) AS images
+       FROM product_relationships pr
+       JOIN products r ON r.id = pr.related_product_id
+       JOIN products t ON t.id = r.id OR (r.product_group_id IS NOT NULL AND t.product_group_id = r.product_group_id)
+       WHERE pr.product_id IN (SELECT id FROM anchors)
+         AND pr.relationship_type = $2
+         AND pr.is_excluded = false
+         AND COALESCE(r.product_group_id::text, r.id::text) NOT IN (SELECT related_key FROM excluded)
+         AND t.id NOT IN (SELECT id FROM anchors)
+         AND t.id <> ALL($4::int[])
+         AND ($3::varchar IS NULL OR t.region = $3)
+         AND t.status = 'active'
+         AND t.deleted_at IS NULL
+         AND (t.stock > 0 OR LOWER(TRIM(COALESCE(t.backorders_allowed, ''))) IN ('yes', '1', 'true', 'on'))
+       GROUP BY t.id
+       ORDER BY
+         BOOL_OR(pr.source = 'manual') DESC,
+         MIN(CASE WHEN pr.source = 'manual' THEN pr.sort_order END) ASC NULLS LAST,
+         SUM(pr.score) DESC,
+         t.name
+       LIMIT $5`,
+      [productIds, type, region || null, excludeIds, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Products bought in the same paid order. Score: share of the product's orders that also
+   * contained the related product. Accessory pairs are main product → add-on only
+   */
+  private async insertCoPurchases(client: PoolClient, type: 'frequently_bought_together' | 'accessory'): Promise<number> {
+    const accessoryFilter = type === 'accessory'
+      ? `AND product_text_list(rp.categories) && $4::text[]
+         AND NOT (product_text_list(ap.categories) && $4::text[])`
+      : '';
+
+    const result = await client.query(
+      `INSERT INTO product_relationships (product_id, related_product_id, relationship_type, score, source)
+       SELECT product_id, related_product_id, '${type}', score, 'computed'
+       FROM (
+         WITH items AS (
+           SELECT DISTINCT oi.order_id, oi.product_id
+           FROM order_items oi
+           JOIN orders o ON o.id = oi.order_id
+           WHERE o.payment_status = 'paid'
+             AND o.created_at >= CURRENT_TIMESTAMP - ($1 * INTERVAL '1 day')
+             AND oi.product_id IS NOT NULL
+         ),
+         product_orders AS (
+           SELECT product_id, COUNT(*) AS orders FROM items GROUP BY product_id
+         ),
+         pairs AS (
+           SELECT a.product_id, b.product_id AS related_product_id, COUNT(*) AS together
+           FROM items a
+           JOIN items b ON b.order_id = a.order_id AND b.product_id <> a.product_id
+           GROUP BY a.product_id, b.product_id
+           HAVING COUNT(*) >= $2
+         )
+         SELECT
+           pairs.product_id,
+           pairs.related_product_id,
+           LEAST(100, ROUND(100.0 * pairs.together / po.orders, 2)) AS score,
+           ROW_NUMBER() OVER (
+             PARTITION BY pairs.product_id ORDER BY pairs.together DESC, pairs.related_product_id
+           ) AS rank
+         FROM pairs
+         JOIN product_orders po ON po.product_id = pairs.product_id
+         JOIN products ap ON ap.id = pairs.product_id
+         JOIN products rp ON rp.id = pairs.related_product_id
+         WHERE rp.deleted_at IS NULL
+           AND (ap.product_group_id IS NULL OR rp.product_group_id IS DISTINCT FROM ap.product_group_id)
+           ${accessoryFilter}
+       ) ranked
+       WHERE rank <= $3
+       ON CONFLICT (product_id, related_product_id, relationship_type) DO NOTHING`,
+      type === 'accessory'
+        ? [ORDER_LOOKBACK_DAYS, MIN_CO_PURCHASES, MAX_COMPUTED_PER_PRODUCT, ACCESSORY_CATEGORIES]
+        : [ORDER_LOOKBACK_DAYS, MIN_CO_PURCHASES, MAX_COMPUTED_PER_PRODUCT]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Products viewed by the same visitor (signed-in user or analytics session). Score: share
+   * of the product's viewers who also viewed the related product
+   */
+  private async insertCoViews(client: PoolClient): Promise<number> {
+    const result = await client.query(
+      `INSERT INTO product_relationships (product_id, related_product_id, relationship_type, score, source)
+       SELECT product_id, related_product_id, 'related', score, 'computed'
+       FROM (
+         WITH views AS (
+           SELECT COALESCE('u' || pv.user_id::text, 's' || pv.session_id) AS viewer, p.id AS product_id
+           FROM page_views pv
+           JOIN products p
+             ON p.slug = SUBSTRING(pv.page_path FROM '^/product/([^/?#]+)')
+             OR p.id::text = SUBSTRING(pv.page_path FROM '^/product/([0-9]+)/?$')
+           WHERE pv.page_path LIKE '/product/%'
+             AND pv.created_at >= CURRENT_TIMESTAMP - ($1 * INTERVAL '1 day')
+           UNION
+           SELECT COALESCE('u' || v.user_id::text, 's' || v.session_id), v.product_id
+           FROM product_views v
+           WHERE v.last_viewed_at >= CURRENT_TIMESTAMP - ($1 * INTERVAL '1 day')
+             AND (v.user_id IS NOT NULL OR v.session_id IS NOT NULL)
+         ),
+         product_viewers AS (
+           SELECT product_id, COUNT(*) AS viewers FROM views GROUP BY product_id
+         ),
+         pairs AS (
+           SELECT a.product_id, b.product_id AS related_product_id, COUNT(*) AS together
+           FROM views a
+           JOIN views b ON b.viewer = a.viewer AND b.product_id <> a.product_id
+           GROUP BY a.product_id, b.product_id
+           HAVING COUNT(*) >= $2
+         )
+         SELECT
+           pairs.product_id,
+           pairs.related_product_id,
+           LEAST(100, ROUND(100.0 * pairs.together / pv.viewers, 2)) AS score,
+           ROW_NUMBER() OVER (
+             PARTITION BY pairs.product_id ORDER BY pairs.together DESC, pairs.related_product_id
+           ) AS rank
+         FROM pairs
+         JOIN product_viewers pv ON pv.product_id = pairs.product_id
+         JOIN products ap ON ap.id = pairs.product_id
+         JOIN products rp ON rp.id = pairs.related_product_id
+         WHERE rp.deleted_at IS NULL
+           -- A slug is shared by the US and EU listings, so both count as viewed
+           AND (ap.product_group_id IS NULL OR rp.product_group_id IS DISTINCT FROM ap.product_group_id)
+       ) ranked
+       WHERE rank <= $3
+       ON CONFLICT (product_id, related_product_id, relationship_type) DO NOTHING`,
+      [VIEW_LOOKBACK_DAYS, MIN_CO_VIEWERS, MAX_COMPUTED_PER_PRODUCT]
+    );
+    return result.rowCount || 0;
+  }
+}
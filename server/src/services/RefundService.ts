@@ -1,12 +1,18 @@
 import { Pool } from 'pg';
-import { NotFoundError, ValidationError } from '../utils/errors';
+import { randomUUID } from 'crypto';
+import { NotFoundError, ValidationError, PaymentError } from '../utils/errors';
 import { OrderService } from './OrderService';
+import { OrderStatusService, canTransition, runAfterCommit } from './OrderStatusService';
+import { InventoryService } from './InventoryService';
+import { AfterCommitTask, OrderStatus } from '../types/cart';
+import { PayPalRefundGateway, PayPalSdkRefundGateway } from './PayPalRefundGateway';
 
 export interface RefundRequest {
   orderId: number;
   amount?: number; // Optional partial refund
   reason: string;
   initiatedBy: number; // Admin user ID
+  idempotencyKey?: string; // Replaying the same key returns the original refund
 }
 
 export interface RefundResult {
@@ -15,32 +21,70 @@ export interface RefundResult {
   amount: number;
   status: 'pending' | 'completed' | 'failed';
   refundTransactionId?: string;
+  failureReason?: string;
   reason: string;
   createdAt: Date;
 }
 
+/**
+ * Captured payment a refund is issued against
+ */
+export interface RefundablePayment {
+  id: number;
+  captureId: string | null;
+  amount: number;
+  currency: string;
+  /** Completed refunds plus refunds still in flight */
+  committedAmount: number;
+  remainingAmount: number;
+}
+
+/**
+ * Refund reported by PayPal (PAYMENT.CAPTURE.REFUNDED webhook)
+ */
+export interface PayPalRefundNotification {
+  refundId: string;
+  amount: number;
+  currency?: string;
+  captureId?: string | null;
+  orderId?: number | null;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
 export class RefundService {
   private orderService: OrderService;
+  private orderStatusService: OrderStatusService;
+  private inventoryService: InventoryService;
+  private gateway: PayPalRefundGateway;
 
-  constructor(private pool: Pool) {
+  constructor(private pool: Pool, gateway?: PayPalRefundGateway) {
     this.orderService = new OrderService(pool);
+    this.orderStatusService = new OrderStatusService(pool);
+    this.inventoryService = new InventoryService(pool);
+    this.gateway = gateway || new PayPalSdkRefundGateway(pool);
   }
 
   /**
-   * Process a refund for an order
+   * Process a refund for an order: record it as pending, then issue it through PayPal
    */
   async processRefund(refundRequest: RefundRequest): Promise<RefundResult> {
+    if (refundRequest.idempotencyKey) {
+      const existing = await this.findByIdempotencyKey(refundRequest.idempotencyKey);
+      if (existing) {
+        return existing;
+      }
+    }
+
     const client = await this.pool.connect();
+    let refundId: number;
     
     try {
       await client.query('BEGIN');
 
-      // Get order details
+      // Lock the order so concurrent refunds can't exceed the captured amount
       const orderResult = await client.query(
-        `SELECT o.*, p.status as payment_status, p.transaction_id, p.amount as payment_amount
-         FROM orders o
-         LEFT JOIN payments p ON o.id = p.order_id
-         WHERE o.id = $1`,
+        'SELECT id, status, payment_status FROM orders WHERE id = $1 FOR UPDATE',
         [refundRequest.orderId]
       );
 
@@ -51,7 +95,7 @@ export class RefundService {
       const order = orderResult.rows[0];
 
       // Validate refund eligibility
-      if (order.payment_status !== 'paid') {
+      if (order.payment_status !== 'paid' && order.payment_status !== 'partially_refunded') {
         throw new ValidationError('Order must be paid to process refund');
       }
 
@@ -59,102 +103,152 @@ export class RefundService {
         throw new ValidationError('Cannot refund a cancelled order');
       }
 
-      // Calculate refund amount
-      const refundAmount = refundRequest.amount || order.payment_amount;
-      
-      if (refundAmount > order.payment_amount) {
-        throw new ValidationError('Refund amount cannot exceed payment amount');
-      }
+      const payment = await this.getRefundablePayment(client, refundRequest.orderId);
+
+      // Calculate refund amount (defaults to whatever is left to refund)
+      const refundAmount = round2(refundRequest.amount ?? payment.remainingAmount);
 
       if (refundAmount <= 0) {
         throw new ValidationError('Refund amount must be greater than zero');
       }
 
-      // Check for existing refunds
-      const existingRefundsResult = await client.query(
-        'SELECT SUM(amount) as total_refunded FROM refunds WHERE order_id = $1 AND status = $2',
-        [refundRequest.orderId, 'completed']
-      );
+      if (refundAmount > payment.amount) {
+        throw new ValidationError('Refund amount cannot exceed payment amount');
+      }
 
-      const totalRefunded = parseFloat(existingRefundsResult.rows[0]?.total_refunded || '0');
-      
-      if (totalRefunded + refundAmount > order.payment_amount) {
+      if (refundAmount > payment.remainingAmount) {
         throw new ValidationError(
-          `Total refunds (${totalRefunded + refundAmount}) cannot exceed payment amount (${order.payment_amount})`
+          `Total refunds (${round2(payment.committedAmount + refundAmount)}) cannot exceed payment amount (${payment.amount})`
         );
       }
 
       // Create refund record
       const refundResult = await client.query(
-        `INSERT INTO refunds (order_id, payment_id, amount, reason, status, initiated_by, created_at)
-         VALUES ($1, (SELECT id FROM payments WHERE order_id = $1), $2, $3, 'pending', $4, CURRENT_TIMESTAMP)
-         RETURNING *`,
-        [refundRequest.orderId, refundAmount, refundRequest.reason, refundRequest.initiatedBy]
+        `INSERT INTO refunds (order_id, payment_id, amount, currency, reason, status, initiated_by, idempotency_key, created_at)
+         VALUES ($1, $2, $3, $4, $5, 'pending', $6, $7, CURRENT_TIMESTAMP)
+         RETURNING id`,
+        [
+          refundRequest.orderId,
+          payment.id,
+          refundAmount,
+          payment.currency,
+          refundRequest.reason,
+          refundRequest.initiatedBy,
+          refundRequest.idempotencyKey || randomUUID()
+        ]
       );
 
-      const refund = refundResult.rows[0];
-
-      // Update order status if full refund
-      if (refundAmount === order.payment_amount) {
-        await client.query(
-          `UPDATE orders 
-           SET status = 'refunded', payment_status = 'refunded', updated_at = CURRENT_TIMESTAMP
-           WHERE id = $1`,
-          [refundRequest.orderId]
-        );
-
-        // Restore stock for full refunds
-        await this.restoreStockForRefund(client, refundRequest.orderId);
-      } else {
-        // Partial refund - update payment status
-        await client.query(
-          `UPDATE orders 
-           SET payment_status = 'partially_refunded', updated_at = CURRENT_TIMESTAMP
-           WHERE id = $1`,
-          [refundRequest.orderId]
-        );
-      }
+      refundId = refundResult.rows[0].id;
 
       await client.query('COMMIT');
 
-      return {
-        refundId: refund.id,
-        orderId: refund.order_id,
-        amount: refund.amount,
-        status: refund.status,
-        reason: refund.reason,
-        createdAt: refund.created_at
-      };
-
-    } catch (error) {
+    } catch (error: any) {
       await client.query('ROLLBACK');
+
+      // A concurrent request with the same idempotency key won the insert
+      if (error.code === '23505' && refundRequest.idempotencyKey) {
+        const existing = await this.findByIdempotencyKey(refundRequest.idempotencyKey);
+        if (existing) {
+          return existing;
+        }
+      }
+
       console.error('Refund processing failed:', error);
       throw error;
     } finally {
       client.release();
     }
+
+    return this.issueRefund(refundId);
   }
 
   /**
-   * Complete a refund (called by webhook or manual completion)
+   * Send a pending refund to PayPal. Completed refunds are applied immediately;
+   * refunds PayPal reports as PENDING are completed later by the webhook.
+   */
+  async issueRefund(refundId: number): Promise<RefundResult> {
+    const refundResult = await this.pool.query(
+      `SELECT r.*, p.transaction_id AS capture_id, p.currency AS payment_currency,
+              o.region, o.order_number
+       FROM refunds r
+       JOIN orders o ON o.id = r.order_id
+       LEFT JOIN payments p ON p.id = r.payment_id
+       WHERE r.id = $1`,
+      [refundId]
+    );
+
+    if (refundResult.rows.length === 0) {
+      throw new NotFoundError('Refund', { refundId });
+    }
+
+    const refund = refundResult.rows[0];
+
+    // Already sent to PayPal (or settled); nothing left to issue
+    if (refund.status !== 'pending' || refund.refund_transaction_id) {
+      return this.toRefundResult(refund);
+    }
+
+    if (!refund.capture_id) {
+      await this.failRefund(refundId, 'No PayPal capture recorded for this payment');
+      throw new PaymentError('Payment has no PayPal capture to refund', 'REFUND_CAPTURE_MISSING', { refundId });
+    }
+
+    let paypalRefund;
+    try {
+      paypalRefund = await this.gateway.refundCapture({
+        region: (refund.region || 'us') as 'us' | 'eu',
+        captureId: refund.capture_id,
+        amount: parseFloat(refund.amount),
+        currency: refund.currency || refund.payment_currency || 'USD',
+        idempotencyKey: refund.idempotency_key || `refund-${refund.id}`,
+        invoiceId: refund.order_number,
+        noteToPayer: refund.reason
+      });
+    } catch (error: any) {
+      await this.failRefund(refundId, error.message || 'PayPal refund failed');
+      throw error;
+    }
+
+    switch (paypalRefund.status) {
+      case 'COMPLETED':
+        await this.completeRefund(refundId, paypalRefund.id);
+        break;
+
+      case 'PENDING':
+        await this.pool.query(
+          `UPDATE refunds
+           SET refund_transaction_id = $1, paypal_status = $2
+           WHERE id = $3`,
+          [paypalRefund.id, paypalRefund.status, refundId]
+        );
+        break;
+
+      default:
+        await this.failRefund(refundId, paypalRefund.statusReason || `PayPal refund ${paypalRefund.status}`, paypalRefund.id);
+        throw new PaymentError('PayPal refund was not completed', 'PAYPAL_REFUND_FAILED', {
+          refundId,
+          paypalStatus: paypalRefund.status,
+          reason: paypalRefund.statusReason
+        });
+    }
+
+    return this.getRefund(refundId);
+  }
+
+  /**
+   * Complete a refund (called after PayPal confirms it, by webhook or manual completion).
+   * Completing an already completed refund is a no-op.
    */
   async completeRefund(refundId: number, refundTransactionId: string): Promise<void> {
     const client = await this.pool.connect();
+    const afterCommit: AfterCommitTask[] = [];
     
     try {
       await client.query('BEGIN');
 
-      // Update refund status
-      await client.query(
-        `UPDATE refunds 
-         SET status = 'completed', refund_transaction_id = $1, completed_at = CURRENT_TIMESTAMP
-         WHERE id = $2`,
-        [refundTransactionId, refundId]
-      );
-
       // Get refund details
       const refundResult = await client.query(
-        'SELECT * FROM refunds WHERE id = $1',
+        'SELECT * FROM refunds WHERE id = $1 FOR UPDATE',
         [refundId]
       );
 
@@ -164,20 +258,25 @@ export class RefundService {
 
       const refund = refundResult.rows[0];
 
-      // Update payment status
+      if (refund.status === 'completed') {
+        await client.query('COMMIT');
+        return;
+      }
+
+      // Update refund status
       await client.query(
-        `UPDATE payments 
-         SET status = CASE 
-           WHEN (SELECT SUM(amount) FROM refunds WHERE order_id = $1 AND status = 'completed') >= amount 
-           THEN 'refunded' 
-           ELSE 'partially_refunded' 
-         END
-         WHERE order_id = $1`,
-        [refund.order_id]
+        `UPDATE refunds 
+         SET status = 'completed', refund_transaction_id = $1, paypal_status = 'COMPLETED',
+             failure_reason = NULL, completed_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [refundTransactionId, refundId]
       );
 
+      await this.applyCompletedRefunds(client, refund.order_id, refund.payment_id, afterCommit);
+
       await client.query('COMMIT');
       console.log(`Refund ${refundId} completed successfully`);
+      await runAfterCommit(afterCommit);
 
     } catch (error) {
       await client.query('ROLLBACK');
@@ -188,6 +287,135 @@ export class RefundService {
     }
   }
 
+  /**
+   * Reconcile a refund reported by PayPal with our refund records.
+   * Matches by PayPal refund id, then by a refund for the same amount that never got
+   * a PayPal id back (the webhook can beat the API response, or the call timed out),
+   * and otherwise records a refund that was issued directly in PayPal.
+   */
+  async reconcilePayPalRefund(notification: PayPalRefundNotification): Promise<void> {
+    const known = await this.pool.query(
+      'SELECT id FROM refunds WHERE refund_transaction_id = $1',
+      [notification.refundId]
+    );
+
+    if (known.rows.length > 0) {
+      await this.completeRefund(known.rows[0].id, notification.refundId);
+      return;
+    }
+
+    const paymentResult = await this.pool.query(
+      `SELECT id, order_id, currency FROM payments
+       WHERE ($1::text IS NOT NULL AND transaction_id = $1)
+          OR ($1::text IS NULL AND order_id = $2 AND status IN ('completed', 'refunded'))
+       ORDER BY completed_at DESC NULLS LAST
+       LIMIT 1`,
+      [notification.captureId || null, notification.orderId || null]
+    );
+
+    if (paymentResult.rows.length === 0) {
+      console.warn(`No payment found for PayPal refund ${notification.refundId}`);
+      return;
+    }
+
+    const payment = paymentResult.rows[0];
+
+    const inFlight = await this.pool.query(
+      `SELECT id FROM refunds
+       WHERE payment_id = $1 AND status IN ('pending', 'failed') AND refund_transaction_id IS NULL AND amount = $2
+       ORDER BY status = 'pending' DESC, created_at
+       LIMIT 1`,
+      [payment.id, notification.amount]
+    );
+
+    if (inFlight.rows.length > 0) {
+      await this.completeRefund(inFlight.rows[0].id, notification.refundId);
+      return;
+    }
+
+    const client = await this.pool.connect();
+    const afterCommit: AfterCommitTask[] = [];
+
+    try {
+      await client.query('BEGIN');
+
+      const inserted = await client.query(
+        `INSERT INTO refunds (order_id, payment_id, refund_transaction_id, amount, currency, reason, status, paypal_status, completed_at)
+         VALUES ($1, $2, $3, $4, $5, 'Refunded in PayPal', 'completed', 'COMPLETED', CURRENT_TIMESTAMP)
+         ON CONFLICT DO NOTHING
+         RETURNING id`,
+        [payment.order_id, payment.id, notification.refundId, notification.amount, notification.currency || payment.currency]
+      );
+
+      if (inserted.rows.length > 0) {
+        await this.applyCompletedRefunds(client, payment.order_id, payment.id, afterCommit);
+      }
+
+      await client.query('COMMIT');
+      console.log(`Recorded PayPal refund ${notification.refundId} for order ${payment.order_id}`);
+      await runAfterCommit(afterCommit);
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('PayPal refund reconciliation failed:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the captured payment for an order with how much of it is still refundable
+   */
+  async getRefundablePayment(client: any, orderId: number): Promise<RefundablePayment> {
+    const paymentResult = await client.query(
+      `SELECT id, transaction_id, amount, currency
+       FROM payments
+       WHERE order_id = $1 AND status = 'completed'
+       ORDER BY completed_at DESC NULLS LAST
+       LIMIT 1`,
+      [orderId]
+    );
+
+    if (paymentResult.rows.length === 0) {
+      throw new ValidationError('Order has no captured payment to refund', { orderId });
+    }
+
+    const payment = paymentResult.rows[0];
+
+    const committedResult = await client.query(
+      `SELECT COALESCE(SUM(amount), 0) AS committed
+       FROM refunds
+       WHERE payment_id = $1 AND status IN ('pending', 'processing', 'completed')`,
+      [payment.id]
+    );
+
+    const amount = parseFloat(payment.amount);
+    const committedAmount = parseFloat(committedResult.rows[0].committed);
+
+    return {
+      id: payment.id,
+      captureId: payment.transaction_id,
+      amount,
+      currency: payment.currency || 'USD',
+      committedAmount,
+      remainingAmount: round2(Math.max(0, amount - committedAmount))
+    };
+  }
+
+  /**
+   * Get a single refund
+   */
+  async getRefund(refundId: number): Promise<RefundResult> {
+    const result = await this.pool.query('SELECT * FROM refunds WHERE id = $1', [refundId]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Refund', { refundId });
+    }
+
+    return this.toRefundResult(result.rows[0]);
+  }
+
   /**
    * Get refund history for an order
    */
@@ -210,6 +438,7 @@ export class RefundService {
         amount: row.amount,
         status: row.status,
         refundTransactionId: row.refund_transaction_id,
+        failureReason: row.failure_reason || undefined,
         reason: row.reason,
         createdAt: row.created_at
       }));
@@ -272,20 +501,157 @@ export class RefundService {
   }
 
   /**
-   * Restore stock for refunded items
+   * Recompute payment and order refund state from completed refunds.
+   * Stock is restored once, when the order becomes fully refunded.
+   * The refunded email is queued on afterCommit for the caller to send after its commit.
+   */
+  private async applyCompletedRefunds(
+    client: any,
+    orderId: number,
+    paymentId: number | null,
+    afterCommit: AfterCommitTask[]
+  ): Promise<void> {
+    const paymentResult = await client.query(
+      paymentId
+        ? 'SELECT id, amount FROM payments WHERE id = $1'
+        : "SELECT id, amount FROM payments WHERE order_id = $1 ORDER BY completed_at DESC NULLS LAST LIMIT 1",
+      [paymentId || orderId]
+    );
+
+    if (paymentResult.rows.length === 0) {
+      return;
+    }
+
+    const payment = paymentResult.rows[0];
+
+    const refundedResult = await client.query(
+      `SELECT COALESCE(SUM(amount), 0) AS refunded
+       FROM refunds
+       WHERE payment_id = $1 AND status = 'completed'`,
+      [payment.id]
+    );
+
+    const refunded = parseFloat(refundedResult.rows[0].refunded);
+    const fullyRefunded = refunded >= parseFloat(payment.amount) - 0.005;
+    const refundStatus = fullyRefunded ? 'full' : 'partial';
+
+    // Update payment status
+    await client.query(
+      `UPDATE payments 
+       SET refunded_amount = $1,
+           refund_status = $2,
+           status = CASE WHEN $3 THEN 'refunded' ELSE status END
+       WHERE id = $4`,
+      [refunded, refundStatus, fullyRefunded, payment.id]
+    );
+
+    const orderResult = await client.query(
+      'SELECT status FROM orders WHERE id = $1 FOR UPDATE',
+      [orderId]
+    );
+    const orderStatus = orderResult.rows[0]?.status;
+
+    await client.query(
+      `UPDATE orders 
+       SET payment_status = $1,
+           refund_status = $2,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3`,
+      [fullyRefunded ? 'refunded' : 'partially_refunded', refundStatus, orderId]
+    );
+
+    // Full refunds close the order and restore its stock
+    if (fullyRefunded && canTransition(orderStatus, OrderStatus.REFUNDED)) {
+      await this.orderStatusService.transition(
+        orderId,
+        OrderStatus.REFUNDED,
+        { actorType: 'system', reason: `Payment fully refunded (${refunded.toFixed(2)})`, afterCommit },
+        client
+      );
+      await this.restoreStockForRefund(client, orderId);
+    }
+  }
+
+  private async failRefund(refundId: number, failureReason: string, refundTransactionId?: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE refunds
+       SET status = 'failed', failure_reason = $1,
+           refund_transaction_id = COALESCE($2, refund_transaction_id)
+       WHERE id = $3 AND status <> 'completed'`,
+      [failureReason, refundTransactionId || null, refundId]
+    );
+  }
+
+  private async findByIdempotencyKey(idempotencyKey: string): Promise<RefundResult | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM refunds WHERE idempotency_key = $1',
+      [idempotencyKey]
+    );
+
+    return result.rows.length > 0 ? this.toRefundResult(result.rows[0]) : null;
+  }
+
+  private toRefundResult(row: any): RefundResult {
+    return {
+      refundId: row.id,
+      orderId: row.order_id,
+      amount: parseFloat(row.amount),
+      status: row.status,
+      refundTransactionId: row.refund_transaction_id || undefined,
+      failureReason: row.failure_reason || undefined,
+      reason: row.reason,
+      createdAt: row.created_at
+    };
+  }
+
+  /**
+   * Restore stock for refunded items: the product stock and any variation option
+   * stock the order's confirmed reservations took
    */
   private async restoreStockForRefund(client: any, orderId: number): Promise<void> {
-    // Get order items
+    const context = { reason: 'refund' as const, sourceType: 'order', sourceId: orderId };
+
+    // Stock the order's confirmed reservations took, per warehouse; items without
+    // any reservation go back to the default location
     const orderItems = await client.query(
-      'SELECT product_id, quantity FROM order_items WHERE order_id = $1',
+      `SELECT sr.product_id, sr.quantity, sr.warehouse_id
+       FROM stock_reservations sr
+       WHERE sr.order_id = $1 AND sr.status = 'confirmed'
+       UNION ALL
+       SELECT oi.product_id, oi.quantity, NULL AS warehouse_id
+       FROM order_items oi
+       WHERE oi.order_id = $1 AND NOT EXISTS (
+         SELECT 1 FROM stock_reservations sr
+         WHERE sr.order_id = oi.order_id AND sr.product_id = oi.product_id
+       )`,
       [orderId]
     );
 
-    // Restore stock for each item
+    // Restore stock for each item to the location it shipped from
     for (const item of orderItems.rows) {
-      await client.query(
-        'UPDATE products SET stock = stock + $1 WHERE id = $2',
-        [item.quantity, item.product_id]
+      await this.inventoryService.adjustProductStock(
+        item.product_id,
+        item.quantity,
+        { ...context, warehouseId: item.warehouse_id },
+        client
+      );
+    }
+
+    const optionReservations = await client.query(
+      `SELECT vsr.variation_option_id, vsr.warehouse_id, vsr.quantity
+       FROM variation_stock_reservations vsr
+       JOIN variation_options vo ON vo.id = vsr.variation_option_id
+       WHERE vsr.order_id = $1 AND vsr.status = 'confirmed' AND vo.stock_quantity IS NOT NULL`,
+      [orderId]
+    );
+
+    for (const reservation of optionReservations.rows) {
+      await this.inventoryService.adjustOptionStock(
+        reservation.variation_option_id,
+        reservation.quantity,
+        { ...context, warehouseId: reservation.warehouse_id },
+        client,
+        { allowNegative: true }
       );
     }
 
@@ -0,0 +1,534 @@
+/**
+ * Review Service
+ * Handles product review submission, helpful voting and admin moderation
+ */
+
+import { Pool, PoolClient } from 'pg';
+import {
+  ProductReview,
+  AdminProductReview,
+  CreateReviewDto,
+  ReviewQueryOptions,
+  AdminReviewQueryOptions,
+  ReviewSummary,
+  PaginatedReviews,
+  ReviewStatus,
+  ReviewVoteType,
+  ReviewSort
+} from '../types/review';
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  AuthorizationError
+} from '../utils/errors';
+
+const MAX_IMAGES_PER_REVIEW = 5;
+
+const REVIEW_SORTS: Record<ReviewSort, string> = {
+  helpful: '(pr.helpful_count - pr.not_helpful_count) DESC, pr.created_at DESC',
+  newest: 'pr.created_at DESC',
+  oldest: 'pr.created_at ASC',
+  rating_high: 'pr.rating DESC, pr.created_at DESC',
+  rating_low: 'pr.rating ASC, pr.created_at DESC'
+};
+
+export class ReviewService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Get approved reviews for a product (public)
+   * Includes the current user's vote when a user id is supplied
+   */
+  async getProductReviews(
+    productId: number,
+    options: ReviewQueryOptions = {},
+    currentUserId?: number | null
+  ): Promise<PaginatedReviews> {
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const offset = (page - 1) * limit;
+    const orderBy = REVIEW_SORTS[options.sort || 'helpful'] || REVIEW_SORTS.helpful;
+
+    const conditions = ['pr.product_id = $1', 'pr.is_approved = true'];
+    const params: any[] = [productId];
+
+    if (options.rating) {
+      params.push(options.rating);
+      conditions.push(`pr.rating = $${params.length}`);
+    }
+
+    if (options.verifiedOnly) {
+      conditions.push('pr.is_verified_purchase = true');
+    }
+
+    const whereClause = conditions.join(' AND ');
+
+    const countResult = await this.pool.query(
+      `SELECT COUNT(*)::int as total FROM product_reviews pr WHERE ${whereClause}`,
+      params
+    );
+    const total = countResult.rows[0]?.total || 0;
+
+    params.push(currentUserId || null);
+    const userParam = params.length;
+    params.push(limit, offset);
+
+    const result = await this.pool.query(
+      `SELECT
+        ${this.reviewColumns()},
+        (SELECT rv.vote_type FROM review_votes rv
+         WHERE rv.review_id = pr.id AND rv.user_id = $${userParam}) as current_user_vote
+       FROM product_reviews pr
+       JOIN users u ON u.id = pr.user_id
+       WHERE ${whereClause}
+       ORDER BY ${orderBy}
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    return {
+      reviews: result.rows,
+      pagination: this.buildPagination(page, limit, total)
+    };
+  }
+
+  /**
+   * Get rating summary (average, count, star distribution) from approved reviews
+   */
+  async getReviewSummary(productId: number): Promise<ReviewSummary> {
+    const result = await this.pool.query(
+      `SELECT rating, COUNT(*)::int as count
+       FROM product_reviews
+       WHERE product_id = $1 AND is_approved = true
+       GROUP BY rating`,
+      [productId]
+    );
+
+    const distribution: ReviewSummary['distribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    let count = 0;
+    let sum = 0;
+
+    for (const row of result.rows) {
+      const rating = row.rating as 1 | 2 | 3 | 4 | 5;
+      distribution[rating] = row.count;
+      count += row.count;
+      sum += rating * row.count;
+    }
+
+    return {
+      average: count > 0 ? Math.round((sum / count) * 10) / 10 : 0,
+      count,
+      distribution
+    };
+  }
+
+  /**
+   * Get a single review by ID (any status)
+   */
+  async getReviewById(reviewId: number, productId?: number): Promise<ProductReview> {
+    const result = await this.pool.query(
+      `SELECT ${this.reviewColumns()}
+       FROM product_reviews pr
+       JOIN users u ON u.id = pr.user_id
+       WHERE pr.id = $1 AND ($2::int IS NULL OR pr.product_id = $2)`,
+      [reviewId, productId ?? null]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Review', productId ? { reviewId, productId } : { reviewId });
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Submit a review for a product
+   * Reviews start as pending and are only shown once approved by a moderator
+   */
+  async createReview(productId: number, userId: number, data: CreateReviewDto): Promise<ProductReview> {
+    const productResult = await this.pool.query(
+      `SELECT id, allow_customer_reviews FROM products WHERE id = $1 AND deleted_at IS NULL`,
+      [productId]
+    );
+
+    if (productResult.rows.length === 0) {
+      throw new NotFoundError('Product', { productId });
+    }
+
+    if (!this.reviewsAllowed(productResult.rows[0].allow_customer_reviews)) {
+      throw new ValidationError('Reviews are disabled for this product', { productId });
+    }
+
+    const existing = await this.pool.query(
+      'SELECT id, status FROM product_reviews WHERE product_id = $1 AND user_id = $2',
+      [productId, userId]
+    );
+
+    if (existing.rows.length > 0) {
+      throw new ConflictError('You have already reviewed this product', 'DUPLICATE_ENTRY', {
+        reviewId: existing.rows[0].id,
+        status: existing.rows[0].status
+      });
+    }
+
+    const verifiedOrderId = await this.findVerifiedPurchaseOrder(productId, userId);
+
+    const result = await this.pool.query(
+      `INSERT INTO product_reviews (
+        product_id, user_id, order_id, rating, title, review_text,
+        is_verified_purchase, is_approved, status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, false, 'pending')
+      RETURNING id`,
+      [
+        productId,
+        userId,
+        verifiedOrderId,
+        data.rating,
+        data.title?.trim() || null,
+        data.review_text?.trim() || null,
+        verifiedOrderId !== null
+      ]
+    );
+
+    return this.getReviewById(result.rows[0].id);
+  }
+
+  /**
+   * Find a paid order by this user that contains the product
+   * Matches regional copies of the product through product_group_id
+   */
+  async findVerifiedPurchaseOrder(productId: number, userId: number): Promise<number | null> {
+    const result = await this.pool.query(
+      `SELECT o.id
+       FROM orders o
+       JOIN order_items oi ON oi.order_id = o.id
+       WHERE o.user_id = $2
+         AND o.payment_status IN ('paid', 'partially_refunded')
+         AND o.status NOT IN ('cancelled', 'refunded', 'failed')
+         AND (
+           oi.product_id = $1
+           OR oi.product_id IN (
+             SELECT p2.id FROM products p1
+             JOIN products p2 ON p2.product_group_id = p1.product_group_id
+             WHERE p1.id = $1 AND p1.product_group_id IS NOT NULL
+           )
+         )
+       ORDER BY o.created_at DESC
+       LIMIT 1`,
+      [productId, userId]
+    );
+
+    return result.rows[0]?.id ?? null;
+  }
+
+  /**
+   * Attach uploaded images to a review of the product (author only)
+   */
+  async addReviewImages(productId: number, reviewId: number, userId: number, imageUrls: string[]): Promise<ProductReview> {
+    if (imageUrls.length === 0) {
+      throw new ValidationError('No images provided');
+    }
+
+    const review = await this.getReviewById(reviewId, productId);
+    if (review.user_id !== userId) {
+      throw new AuthorizationError('You can only add images to your own review');
+    }
+
+    if (review.images.length + imageUrls.length > MAX_IMAGES_PER_REVIEW) {
+      throw new ValidationError(`A review can have at most ${MAX_IMAGES_PER_REVIEW} images`, {
+        existing: review.images.length,
+        uploaded: imageUrls.length
+      });
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (let i = 0; i < imageUrls.length; i++) {
+        await client.query(
+          'INSERT INTO review_images (review_id, image_url, sort_order) VALUES ($1, $2, $3)',
+          [reviewId, imageUrls[i], review.images.length + i]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.getReviewById(reviewId);
+  }
+
+  /**
+   * Record a helpful / not helpful vote
+   * Voting again with the other type switches the vote; vote counts are kept by a DB trigger
+   */
+  async voteReview(
+    productId: number,
+    reviewId: number,
+    userId: number,
+    voteType: ReviewVoteType
+  ): Promise<{ helpful_count: number; not_helpful_count: number; current_user_vote: ReviewVoteType }> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const review = await this.lockApprovedReview(client, productId, reviewId);
+      if (review.user_id === userId) {
+        throw new ValidationError('You cannot vote on your own review');
+      }
+
+      const existing = await client.query(
+        'SELECT vote_type FROM review_votes WHERE review_id = $1 AND user_id = $2',
+        [reviewId, userId]
+      );
+
+      if (existing.rows[0]?.vote_type !== voteType) {
+        if (existing.rows.length > 0) {
+          await client.query('DELETE FROM review_votes WHERE review_id = $1 AND user_id = $2', [reviewId, userId]);
+        }
+        await client.query(
+          'INSERT INTO review_votes (review_id, user_id, vote_type) VALUES ($1, $2, $3)',
+          [reviewId, userId, voteType]
+        );
+      }
+
+      const counts = await client.query(
+        'SELECT helpful_count, not_helpful_count FROM product_reviews WHERE id = $1',
+        [reviewId]
+      );
+
+      await client.query('COMMIT');
+
+      return { ...counts.rows[0], current_user_vote: voteType };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Remove the current user's vote from a review
+   */
+  async removeVote(
+    productId: number,
+    reviewId: number,
+    userId: number
+  ): Promise<{ helpful_count: number; not_helpful_count: number }> {
+    await this.pool.query(
+      `DELETE FROM review_votes
+       WHERE review_id = $1 AND user_id = $2
+         AND EXISTS (SELECT 1 FROM product_reviews WHERE id = $1 AND product_id = $3)`,
+      [reviewId, userId, productId]
+    );
+
+    const counts = await this.pool.query(
+      'SELECT helpful_count, not_helpful_count FROM product_reviews WHERE id = $1 AND product_id = $2',
+      [reviewId, productId]
+    );
+
+    if (counts.rows.length === 0) {
+      throw new NotFoundError('Review', { reviewId, productId });
+    }
+
+    return counts.rows[0];
+  }
+
+  // ============================================================================
+  // MODERATION (ADMIN)
+  // ============================================================================
+
+  /**
+   * List reviews for the moderation queue
+   */
+  async listReviewsForModeration(options: AdminReviewQueryOptions = {}): Promise<PaginatedReviews<AdminProductReview>> {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    const offset = (page - 1) * limit;
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.status) {
+      params.push(options.status);
+      conditions.push(`pr.status = $${params.length}`);
+    }
+
+    if (options.productId) {
+      params.push(options.productId);
+      conditions.push(`pr.product_id = $${params.length}`);
+    }
+
+    if (options.search) {
+      params.push(`%${options.search}%`);
+      conditions.push(`(
+        pr.title ILIKE $${params.length} OR
+        pr.review_text ILIKE $${params.length} OR
+        p.name ILIKE $${params.length} OR
+        u.email ILIKE $${params.length}
+      )`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await this.pool.query(
+      `SELECT COUNT(*)::int as total
+       FROM product_reviews pr
+       JOIN users u ON u.id = pr.user_id
+       JOIN products p ON p.id = pr.product_id
+       ${whereClause}`,
+      params
+    );
+    const total = countResult.rows[0]?.total || 0;
+
+    const result = await this.pool.query(
+      `SELECT
+        ${this.reviewColumns()},
+        p.name as product_name,
+        p.slug as product_slug,
+        u.email as author_email
+       FROM product_reviews pr
+       JOIN users u ON u.id = pr.user_id
+       JOIN products p ON p.id = pr.product_id
+       ${whereClause}
+       ORDER BY pr.created_at ${options.status === 'pending' ? 'ASC' : 'DESC'}
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return {
+      reviews: result.rows,
+      pagination: this.buildPagination(page, limit, total)
+    };
+  }
+
+  /**
+   * Get review counts per moderation status
+   */
+  async getModerationCounts(): Promise<Record<ReviewStatus, number>> {
+    const result = await this.pool.query(
+      `SELECT status, COUNT(*)::int as count FROM product_reviews GROUP BY status`
+    );
+
+    const counts: Record<ReviewStatus, number> = { pending: 0, approved: 0, rejected: 0 };
+    for (const row of result.rows) {
+      counts[row.status as ReviewStatus] = row.count;
+    }
+    return counts;
+  }
+
+  /**
+   * Approve a review so it is shown and counted in the rating aggregates
+   */
+  async approveReview(reviewId: number, moderatorId: number, note?: string | null): Promise<ProductReview> {
+    return this.setModerationStatus(reviewId, 'approved', moderatorId, note);
+  }
+
+  /**
+   * Reject a review - it stays hidden and is excluded from the rating aggregates
+   */
+  async rejectReview(reviewId: number, moderatorId: number, note?: string | null): Promise<ProductReview> {
+    return this.setModerationStatus(reviewId, 'rejected', moderatorId, note);
+  }
+
+  /**
+   * Permanently delete a review (images and votes cascade)
+   */
+  async deleteReview(reviewId: number): Promise<void> {
+    const result = await this.pool.query('DELETE FROM product_reviews WHERE id = $1 RETURNING id', [reviewId]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Review', { reviewId });
+    }
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private async setModerationStatus(
+    reviewId: number,
+    status: ReviewStatus,
+    moderatorId: number,
+    note?: string | null
+  ): Promise<ProductReview> {
+    const result = await this.pool.query(
+      `UPDATE product_reviews
+       SET status = $2,
+           is_approved = $3,
+           moderated_by = $4,
+           moderated_at = CURRENT_TIMESTAMP,
+           moderation_note = $5
+       WHERE id = $1
+       RETURNING id`,
+      [reviewId, status, status === 'approved', moderatorId, note?.trim() || null]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Review', { reviewId });
+    }
+
+    return this.getReviewById(reviewId);
+  }
+
+  private async lockApprovedReview(
+    client: PoolClient,
+    productId: number,
+    reviewId: number
+  ): Promise<{ id: number; user_id: number }> {
+    const result = await client.query(
+      'SELECT id, user_id FROM product_reviews WHERE id = $1 AND product_id = $2 AND is_approved = true FOR UPDATE',
+      [reviewId, productId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Review', { reviewId, productId });
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Products imported from WooCommerce store allow_customer_reviews as '1'/'0' or yes/no
+   */
+  private reviewsAllowed(value: string | null): boolean {
+    if (value === null || value === undefined || String(value).trim() === '') {
+      return true;
+    }
+    return !['0', 'no', 'false', 'off'].includes(String(value).trim().toLowerCase());
+  }
+
+  private reviewColumns(): string {
+    return `pr.id, pr.product_id, pr.user_id, pr.order_id, pr.rating, pr.title, pr.review_text,
+        pr.is_verified_purchase, pr.is_approved, pr.status,
+        pr.helpful_count, pr.not_helpful_count,
+        pr.moderated_by, pr.moderated_at, pr.moderation_note,
+        pr.created_at, pr.updated_at,
+        TRIM(CONCAT(u.first_name, ' ', LEFT(u.last_name, 1), CASE WHEN u.last_name <> '' THEN '.' ELSE '' END)) as author_name,
+        COALESCE(
+          (SELECT json_agg(ri ORDER BY ri.sort_order)
+           FROM review_images ri
+           WHERE ri.review_id = pr.id),
+          '[]'::json
+        ) as images`;
+  }
+
+  private buildPagination(page: number, limit: number, total: number) {
+    const totalPages = Math.ceil(total / limit);
+    return {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrevious: page > 1
+    };
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Search Analytics Service
+ * Logs storefront searches and result clicks to search_queries, and builds the admin
+ * search report: top, zero-result, low click-through and converting queries
+ */
+
+import { Pool } from 'pg';
+import { RecordSearchDto, SearchQueryStats, SearchReport, SearchReportFilters } from '../types/search';
+import { normalizeSearchPhrase } from './SearchSynonymService';
+
+// Search-as-you-type refines one query; refinements this close together update the same entry
+const REFINE_WINDOW_SECONDS = 60;
+// An order by the same customer within this window counts as a conversion of the search
+const ATTRIBUTION_WINDOW_DAYS = 7;
+// Fewer searches than this say nothing about a query's click-through
+const MIN_SEARCHES_FOR_CTR = 5;
+const REPORT_LIMIT = 25;
+
+export class SearchAnalyticsService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Log a storefront search; returns the entry id used to attribute result clicks
+   */
+  async recordSearch(dto: RecordSearchDto): Promise<number | null> {
+    const normalized = normalizeSearchPhrase(dto.query || '');
+    if (!normalized) {
+      return null;
+    }
+
+    const previous = await this.pool.query(
+      `SELECT sq.id, sq.normalized_query
+       FROM search_queries sq
+       WHERE sq.session_id = $1
+         AND sq.updated_at >= CURRENT_TIMESTAMP - ($2 * INTERVAL '1 second')
+         AND NOT EXISTS (SELECT 1 FROM search_query_clicks c WHERE c.search_query_id = sq.id)
+       ORDER BY sq.updated_at DESC
+       LIMIT 1`,
+      [dto.sessionId, REFINE_WINDOW_SECONDS]
+    );
+
+    const last = previous.rows[0];
+    if (last && (normalized.startsWith(last.normalized_query) || last.normalized_query.startsWith(normalized))) {
+      await this.pool.query(
+        `UPDATE search_queries
+         SET query = $2, normalized_query = $3, results_count = $4, match_type = $5,
+             user_id = COALESCE(user_id, $6), updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [last.id, dto.query.trim(), normalized, dto.resultsCount, dto.matchType, dto.userId || null]
+      );
+      return last.id;
+    }
+
+    const result = await this.pool.query(
+      `INSERT INTO search_queries (query, normalized_query, user_id, session_id, region, results_count, match_type)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [dto.query.trim(), normalized, dto.userId || null, dto.sessionId, dto.region || null, dto.resultsCount, dto.matchType]
+    );
+    return result.rows[0].id;
+  }
+
+  /**
+   * Record that a result of the session's search was opened
+   */
+  async recordClick(searchId: number, productId: number, position: number | null, sessionId: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO search_query_clicks (search_query_id, product_id, position)
+         SELECT sq.id, $2, $3 FROM search_queries sq WHERE sq.id = $1 AND sq.session_id = $4
+         ON CONFLICT (search_query_id, product_id) DO NOTHING`,
+        [searchId, productId, position, sessionId]
+      );
+      return (result.rowCount || 0) > 0;
+    } catch (error: any) {
+      // Product deleted since the search
+      if (error.code === '23503') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getReport(filters: SearchReportFilters = {}): Promise<SearchReport> {
+    const params = [filters.days || 30, filters.region || null];
+
+    const [summary, topQueries, zeroResultQueries, lowClickThroughQueries, convertingQueries] = await Promise.all([
+      this.pool.query(
+        `${this.searchesCte()}
+         SELECT
+           COUNT(*)::int AS searches,
+           COUNT(DISTINCT session_id)::int AS sessions,
+           COALESCE(ROUND(100.0 * COUNT(*) FILTER (WHERE results_count = 0) / NULLIF(COUNT(*), 0), 1), 0)::float AS zero_result_rate,
+           COALESCE(ROUND(100.0 * COUNT(*) FILTER (WHERE clicked) / NULLIF(COUNT(*) FILTER (WHERE results_count > 0), 0), 1), 0)::float AS click_through_rate,
+           COALESCE(ROUND(100.0 * COUNT(*) FILTER (WHERE converted) / NULLIF(COUNT(*), 0), 1), 0)::float AS conversion_rate
+         FROM searches`,
+        params
+      ),
+      this.queryStats(params, '', 'searches DESC, query'),
+      this.queryStats(
+        params,
+        'HAVING COUNT(*) FILTER (WHERE s.results_count = 0) > 0',
+        'zero_result_searches DESC, searches DESC, query'
+      ),
+      this.queryStats(
+        params,
+        `HAVING COUNT(*) FILTER (WHERE s.results_count > 0) >= ${MIN_SEARCHES_FOR_CTR}`,
+        'click_through_rate ASC, searches DESC, query'
+      ),
+      this.queryStats(
+        params,
+        'HAVING COUNT(*) FILTER (WHERE s.converted) > 0',
+        'conversions DESC, searches DESC, query'
+      )
+    ]);
+
+    return {
+      summary: summary.rows[0],
+      topQueries,
+      zeroResultQueries,
+      lowClickThroughQueries,
+      convertingQueries
+    };
+  }
+
+  private async queryStats(params: any[], having: string, orderBy: string): Promise<SearchQueryStats[]> {
+    const result = await this.pool.query(
+      `${this.searchesCte()}
+       SELECT
+         s.normalized_query AS query,
+         COUNT(*)::int AS searches,
+         COUNT(DISTINCT s.session_id)::int AS sessions,
+         ROUND(AVG(s.results_count), 1)::float AS avg_results,
+         COUNT(*) FILTER (WHERE s.results_count = 0)::int AS zero_result_searches,
+         ROUND(100.0 * COUNT(*) FILTER (WHERE s.clicked) / NULLIF(COUNT(*) FILTER (WHERE s.results_count > 0), 0), 1)::float AS click_through_rate,
+         COUNT(*) FILTER (WHERE s.converted)::int AS conversions,
+         MAX(s.created_at) AS last_searched_at,
+         MAX(ss.id) AS synonym_id,
+         MAX(sr.target_url) AS redirect_url
+       FROM searches s
+       LEFT JOIN search_synonyms ss ON ss.term = s.normalized_query
+       LEFT JOIN search_redirects sr ON sr.query = s.normalized_query
+       GROUP BY s.normalized_query
+       ${having}
+       ORDER BY ${orderBy}
+       LIMIT ${REPORT_LIMIT}`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Searches in the period with click and conversion flags ($1 = days, $2 = region or null).
+   * Conversions are attributed through the searching user, or the user the visitor
+   * session was later linked to on login
+   */
+  private searchesCte(): string {
+    return `WITH searches AS (
+      SELECT
+        sq.id,
+        sq.normalized_query,
+        sq.session_id,
+        sq.results_count,
+        sq.created_at,
+        EXISTS (SELECT 1 FROM search_query_clicks c WHERE c.search_query_id = sq.id) AS clicked,
+        EXISTS (
+          SELECT 1 FROM orders o
+          WHERE o.user_id = COALESCE(sq.user_id, vs.user_id)
+            AND o.payment_status = 'paid'
+            AND o.created_at >= sq.created_at
+            AND o.created_at < sq.created_at + INTERVAL '${ATTRIBUTION_WINDOW_DAYS} days'
+        ) AS converted
+      FROM search_queries sq
+      LEFT JOIN visitor_sessions vs ON vs.session_id = sq.session_id
+      WHERE sq.created_at >= CURRENT_TIMESTAMP - ($1 * INTERVAL '1 day')
+        AND sq.normalized_query IS NOT NULL
+        AND sq.normalized_query <> ''
+        AND ($2::varchar IS NULL OR sq.region = $2)
+    )`;
+  }
+}
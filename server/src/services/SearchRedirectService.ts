@@ -0,0 +1,108 @@
+/**
+ * Search Redirect Service
+ * Admin-managed landing pages for exact storefront queries ("wheel base" → /wheel-bases)
+ */
+
+import { Pool } from 'pg';
+import { SearchRedirect, SearchRedirectInput } from '../types/search';
+import { ConflictError, ErrorCode, NotFoundError, ValidationError } from '../utils/errors';
+import { normalizeSearchPhrase } from './SearchSynonymService';
+
+// Redirects change rarely; other processes pick up edits within this window
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let redirectCache: { map: Map<string, string>; loadedAt: number } | null = null;
+
+export class SearchRedirectService {
+  constructor(private pool: Pool) {}
+
+  async listRedirects(): Promise<SearchRedirect[]> {
+    const result = await this.pool.query('SELECT * FROM search_redirects ORDER BY query');
+    return result.rows;
+  }
+
+  async createRedirect(input: SearchRedirectInput, userId?: number): Promise<SearchRedirect> {
+    const query = this.normalizeQuery(input.query);
+
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO search_redirects (query, target_url, is_active, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [query, input.target_url.trim(), input.is_active !== false, userId || null]
+      );
+      this.clearCache();
+      return result.rows[0];
+    } catch (error: any) {
+      throw this.mapUniqueViolation(error, query);
+    }
+  }
+
+  async updateRedirect(id: number, input: SearchRedirectInput): Promise<SearchRedirect> {
+    const query = this.normalizeQuery(input.query);
+
+    try {
+      const result = await this.pool.query(
+        `UPDATE search_redirects
+         SET query = $2, target_url = $3, is_active = $4, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [id, query, input.target_url.trim(), input.is_active !== false]
+      );
+      if (result.rows.length === 0) {
+        throw new NotFoundError('Search redirect', { id });
+      }
+      this.clearCache();
+      return result.rows[0];
+    } catch (error: any) {
+      throw this.mapUniqueViolation(error, query);
+    }
+  }
+
+  async deleteRedirect(id: number): Promise<void> {
+    const result = await this.pool.query('DELETE FROM search_redirects WHERE id = $1', [id]);
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Search redirect', { id });
+    }
+    this.clearCache();
+  }
+
+  /**
+   * Target URL of the active redirect for a query, matched on normalized words
+   */
+  async findRedirect(query: string): Promise<string | null> {
+    const normalized = normalizeSearchPhrase(query || '');
+    if (!normalized) {
+      return null;
+    }
+
+    if (!redirectCache || Date.now() - redirectCache.loadedAt >= CACHE_TTL_MS) {
+      const result = await this.pool.query('SELECT query, target_url FROM search_redirects WHERE is_active = true');
+      redirectCache = {
+        map: new Map(result.rows.map(row => [row.query, row.target_url])),
+        loadedAt: Date.now()
+      };
+    }
+
+    return redirectCache.map.get(normalized) || null;
+  }
+
+  private clearCache(): void {
+    redirectCache = null;
+  }
+
+  private normalizeQuery(query: string): string {
+    const normalized = normalizeSearchPhrase(query || '');
+    if (!normalized) {
+      throw new ValidationError('Query must contain letters or numbers');
+    }
+    return normalized;
+  }
+
+  private mapUniqueViolation(error: any, query: string): Error {
+    if (error.code === '23505') {
+      return new ConflictError(`A redirect for "${query}" already exists`, ErrorCode.DUPLICATE_ENTRY);
+    }
+    return error;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Search Synonym Service
+ * Admin-managed search synonyms ("rig" also finds "cockpit") and the expansion map
+ * used when planning a product search
+ */
+
+import { Pool } from 'pg';
+import { SearchSynonym, SearchSynonymInput } from '../types/search';
+import { ConflictError, ErrorCode, NotFoundError, ValidationError } from '../utils/errors';
+
+// Synonyms change rarely; other processes pick up edits within this window
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let expansionCache: { map: Map<string, string[]>; loadedAt: number } | null = null;
+
+/**
+ * Lowercase words of a query or synonym, accents and punctuation removed
+ */
+export const tokenizeSearchText = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+/**
+ * Query or phrase as stored in synonyms, redirects and the search log ("HOTAS  Mount!" → "hotas mount")
+ */
+export const normalizeSearchPhrase = (text: string): string => tokenizeSearchText(text).join(' ');
+
+export class SearchSynonymService {
+  constructor(private pool: Pool) {}
+
+  async listSynonyms(): Promise<SearchSynonym[]> {
+    const result = await this.pool.query('SELECT * FROM search_synonyms ORDER BY term');
+    return result.rows;
+  }
+
+  async createSynonym(input: SearchSynonymInput, userId?: number): Promise<SearchSynonym> {
+    const { term, synonyms } = this.normalizeInput(input);
+
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO search_synonyms (term, synonyms, is_active, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [term, synonyms, input.is_active !== false, userId || null]
+      );
+      this.clearCache();
+      return result.rows[0];
+    } catch (error: any) {
+      throw this.mapUniqueViolation(error, term);
+    }
+  }
+
+  async updateSynonym(id: number, input: SearchSynonymInput): Promise<SearchSynonym> {
+    const { term, synonyms } = this.normalizeInput(input);
+
+    try {
+      const result = await this.pool.query(
+        `UPDATE search_synonyms
+         SET term = $2, synonyms = $3, is_active = $4, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [id, term, synonyms, input.is_active !== false]
+      );
+      if (result.rows.length === 0) {
+        throw new NotFoundError('Search synonym', { id });
+      }
+      this.clearCache();
+      return result.rows[0];
+    } catch (error: any) {
+      throw this.mapUniqueViolation(error, term);
+    }
+  }
+
+  async deleteSynonym(id: number): Promise<void> {
+    const result = await this.pool.query('DELETE FROM search_synonyms WHERE id = $1', [id]);
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Search synonym', { id });
+    }
+    this.clearCache();
+  }
+
+  /**
+   * Active synonyms keyed by normalized term
+   */
+  async getExpansions(): Promise<Map<string, string[]>> {
+    if (expansionCache && Date.now() - expansionCache.loadedAt < CACHE_TTL_MS) {
+      return expansionCache.map;
+    }
+
+    const result = await this.pool.query('SELECT term, synonyms FROM search_synonyms WHERE is_active = true');
+    const map = new Map<string, string[]>();
+    for (const row of result.rows) {
+      map.set(row.term, row.synonyms);
+    }
+
+    expansionCache = { map, loadedAt: Date.now() };
+    return map;
+  }
+
+  private clearCache(): void {
+    expansionCache = null;
+  }
+
+  private normalizeInput(input: SearchSynonymInput): { term: string; synonyms: string[] } {
+    const term = normalizeSearchPhrase(input.term || '');
+    if (!term) {
+      throw new ValidationError('Term must contain letters or numbers');
+    }
+
+    const synonyms = Array.from(new Set((input.synonyms || []).map(normalizeSearchPhrase)))
+      .filter(synonym => synonym && synonym !== term);
+    if (synonyms.length === 0) {
+      throw new ValidationError('Add at least one synonym that differs from the term');
+    }
+
+    return { term, synonyms };
+  }
+
+  private mapUniqueViolation(error: any, term: string): Error {
+    if (error.code === '23505') {
+      return new ConflictError(`Synonyms for "${term}" already exist`, ErrorCode.DUPLICATE_ENTRY);
+    }
+    return error;
+  }
+}
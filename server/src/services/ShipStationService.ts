@@ -4,6 +4,10 @@
  */
 
 import { Pool } from 'pg';
+import { PackingService } from './PackingService';
+import { TrackingService } from './TrackingService';
+import { OrderStatusService, SHIPSTATION_VISIBLE_STATUSES, canTransition } from './OrderStatusService';
+import { OrderStatus } from '../types/cart';
 import { 
   buildOrdersXML, 
   parseShipmentUpdateXML, 
@@ -14,9 +18,15 @@ import {
 
 export class ShipStationService {
   private pool: Pool;
+  private packingService: PackingService;
+  private trackingService: TrackingService;
+  private orderStatusService: OrderStatusService;
 
   constructor(pool: Pool) {
     this.pool = pool;
+    this.packingService = new PackingService(pool);
+    this.trackingService = new TrackingService(pool);
+    this.orderStatusService = new OrderStatusService(pool);
   }
 
   /**
@@ -40,7 +50,8 @@ export class ShipStationService {
   }
 
   /**
-   * Fetch paid orders within date range for ShipStation export
+   * Fetch paid orders within date range for ShipStation export; orders on hold, backordered
+   * or awaiting a quote are left out until they move back into fulfilment
    */
   async getOrdersForExport(
     startDate: Date, 
@@ -56,12 +67,13 @@ export class ShipStationService {
         SELECT COUNT(*)::int as total
         FROM orders o
         WHERE o.payment_status = 'paid'
+        AND o.status = ANY($3)
         AND o.region IN ('us', 'eu')
         AND o.created_at >= $1
         AND o.created_at <= $2
       `;
       
-      const countResult = await this.pool.query(countSql, [startDate, endDate]);
+      const countResult = await this.pool.query(countSql, [startDate, endDate, SHIPSTATION_VISIBLE_STATUSES]);
       const totalOrders = countResult.rows[0].total;
       const totalPages = Math.ceil(totalOrders / limit);
 
@@ -91,6 +103,7 @@ export class ShipStationService {
             json_agg(
               json_build_object(
                 'id', oi.id,
+                'product_id', oi.product_id,
                 'product_name', oi.product_name,
                 'product_sku', oi.product_sku,
                 'product_image', oi.product_image,
@@ -105,6 +118,7 @@ export class ShipStationService {
         FROM orders o
         LEFT JOIN order_items oi ON oi.order_id = o.id
         WHERE o.payment_status = 'paid'
+        AND o.status = ANY($5)
         AND o.region IN ('us', 'eu')
         AND o.created_at >= $1
         AND o.created_at <= $2
@@ -117,7 +131,7 @@ export class ShipStationService {
         LIMIT $3 OFFSET $4
       `;
 
-      const ordersResult = await this.pool.query(ordersSql, [startDate, endDate, limit, offset]);
+      const ordersResult = await this.pool.query(ordersSql, [startDate, endDate, limit, offset, SHIPSTATION_VISIBLE_STATUSES]);
       
       const orders: ShipStationOrder[] = ordersResult.rows.map(row => ({
         id: row.id,
@@ -142,6 +156,8 @@ export class ShipStationService {
         items: row.items || []
       }));
 
+      await this.attachParcels(orders);
+
       return { orders, totalPages };
     } catch (error) {
       console.error('Error fetching orders for ShipStation:', error);
@@ -149,6 +165,38 @@ export class ShipStationService {
     }
   }
 
+  /**
+   * Pack each order and set its parcels and per-unit item weights
+   */
+  private async attachParcels(orders: ShipStationOrder[]): Promise<void> {
+    const packed = await this.packingService.packOrders(orders.map(order => order.id));
+
+    for (const order of orders) {
+      const parcels = packed.get(order.id) || [];
+      order.parcels = parcels;
+
+      for (const item of order.items) {
+        let quantity = 0;
+        let weightLbs = 0;
+        for (const parcel of parcels) {
+          for (const content of parcel.contents) {
+            if (content.productId === item.product_id) {
+              quantity += content.quantity;
+              weightLbs += content.weightLbs;
+            }
+          }
+        }
+        // Contents are per product, so items of the same product share the average unit weight
+        const productQuantity = order.items
+          .filter(other => other.product_id === item.product_id)
+          .reduce((sum, other) => sum + other.quantity, 0);
+        item.weight_lbs = quantity > 0 && productQuantity > 0
+          ? Math.round((weightLbs / productQuantity) * 100) / 100
+          : 0;
+      }
+    }
+  }
+
   /**
    * Generate XML response for ShipStation order export
    */
@@ -184,7 +232,6 @@ export class ShipStationService {
         updateSql = `
           UPDATE orders 
           SET 
-            status = 'shipped',
             shipping_status = 'shipped',
             tracking_number = $1,
             carrier = $2,
@@ -197,7 +244,7 @@ export class ShipStationService {
               )
           WHERE order_number = $5
           AND payment_status = 'paid'
-          RETURNING id, order_number
+          RETURNING id, order_number, status
         `;
         params = [tracking_number, carrier, shipped_date, service_code || null, order_number];
       } else {
@@ -205,7 +252,6 @@ export class ShipStationService {
         updateSql = `
           UPDATE orders 
           SET 
-            status = 'shipped',
             shipping_status = 'shipped',
             carrier = $1,
             updated_at = CURRENT_TIMESTAMP,
@@ -217,7 +263,7 @@ export class ShipStationService {
               )
           WHERE order_number = $4
           AND payment_status = 'paid'
-          RETURNING id, order_number
+          RETURNING id, order_number, status
         `;
         params = [carrier, shipped_date, service_code || null, order_number];
       }
@@ -234,17 +280,35 @@ export class ShipStationService {
         return false;
       }
 
-      // Log the shipment update
+      // Move the order to shipped; repeat notifications for an order already past it only log the update
       const orderId = result.rows[0].id;
-      const logSql = `
-        INSERT INTO order_status_history (order_id, status, comment, created_at)
-        VALUES ($1, 'shipped', $2, CURRENT_TIMESTAMP)
-      `;
-
+      const currentStatus = result.rows[0].status;
       const comment = tracking_number 
         ? `Shipment updated via ShipStation. Tracking: ${tracking_number}, Carrier: ${carrier}`
         : `Shipment updated via ShipStation. Carrier: ${carrier} (tracking pending)`;
-      await this.pool.query(logSql, [orderId, comment]);
+
+      if (canTransition(currentStatus, OrderStatus.SHIPPED)) {
+        await this.orderStatusService.transition(orderId, OrderStatus.SHIPPED, {
+          actorType: 'shipstation',
+          reason: comment
+        });
+      } else {
+        await this.pool.query(
+          `INSERT INTO order_status_history (order_id, status, comment, actor_type)
+           VALUES ($1, $2, $3, 'shipstation')`,
+          [orderId, currentStatus, comment]
+        );
+      }
+
+      // Record the shipment so the tracking sync follows it
+      if (tracking_number) {
+        await this.trackingService.recordShipment(orderId, {
+          carrier,
+          trackingNumber: tracking_number,
+          serviceCode: service_code || null,
+          shippedAt: shipped_date || null
+        });
+      }
 
       console.log(`Order ${order_number} updated${tracking_number ? ' with tracking ' + tracking_number : ''}`);
       return true;
@@ -316,6 +380,7 @@ export class ShipStationService {
             json_agg(
               json_build_object(
                 'id', oi.id,
+                'product_id', oi.product_id,
                 'product_name', oi.product_name,
                 'product_sku', oi.product_sku,
                 'quantity', oi.quantity,
@@ -344,7 +409,7 @@ export class ShipStationService {
       }
 
       const row = result.rows[0];
-      return {
+      const order: ShipStationOrder = {
         id: row.id,
         order_number: row.order_number,
         created_at: row.created_at,
@@ -366,6 +431,10 @@ export class ShipStationService {
         notes: row.notes,
         items: row.items || []
       };
+
+      await this.attachParcels([order]);
+
+      return order;
     } catch (error) {
       console.error('Error fetching order by number:', error);
       throw new Error('Failed to fetch order');
@@ -0,0 +1,326 @@
+/**
+ * Shipment Service
+ * Creates and voids FedEx labels for paid orders. Each packed parcel gets its own
+ * shipments row holding its tracking number and label PDF.
+ */
+
+import { Pool } from 'pg';
+import { FedExService } from './FedExService';
+import { PackingService, getConfigurationOptionIds, ORDER_ITEM_OPTIONS_SQL } from './PackingService';
+import {
+  ConflictError,
+  NotFoundError,
+  ServiceUnavailableError,
+  UnprocessableEntityError,
+  ValidationError
+} from '../utils/errors';
+import { Address } from '../types/cart';
+import { FedExServiceType } from '../types/fedex';
+import { CreateShipmentLabelInput, Shipment } from '../types/shipping';
+
+// Orders in these payment states can be shipped
+const SHIPPABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+// Columns returned to the admin; label_data is only read when the label is downloaded
+const SHIPMENT_COLUMNS = `
+  id, order_id, carrier, service_code, tracking_number, master_tracking_number, tracking_url,
+  shipping_cost, status, label_format, label_data IS NOT NULL AS has_label, parcel,
+  created_by, created_at, voided_at, voided_by
+`;
+
+const fedExTrackingUrl = (trackingNumber: string): string =>
+  `https://www.fedex.com/fedextrack/?trknbr=${encodeURIComponent(trackingNumber)}`;
+
+export class ShipmentService {
+  private fedExService: FedExService;
+  private packingService: PackingService;
+
+  constructor(private pool: Pool, fedExService?: FedExService) {
+    this.fedExService = fedExService || new FedExService(pool);
+    this.packingService = new PackingService(pool);
+  }
+
+  async getOrderShipments(orderId: number): Promise<Shipment[]> {
+    const result = await this.pool.query(
+      `SELECT ${SHIPMENT_COLUMNS}
+       FROM shipments
+       WHERE order_id = $1
+       ORDER BY created_at DESC, id`,
+      [orderId]
+    );
+
+    return result.rows.map(row => this.mapShipment(row));
+  }
+
+  /**
+   * Create a FedEx shipment for a paid order, one label per packed parcel
+   */
+  async createFedExLabel(orderId: number, input: CreateShipmentLabelInput = {}): Promise<Shipment[]> {
+    const order = await this.getOrder(orderId);
+
+    if (!SHIPPABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+      throw new ConflictError('Labels can only be created for paid orders', 'ORDER_NOT_PAID', {
+        payment_status: order.payment_status
+      });
+    }
+
+    const active = await this.pool.query(
+      `SELECT master_tracking_number FROM shipments
+       WHERE order_id = $1 AND carrier = 'FedEx' AND status <> 'voided'
+       LIMIT 1`,
+      [orderId]
+    );
+
+    if (active.rows.length > 0) {
+      throw new ConflictError('Order already has a FedEx label; void it before creating a new one', 'LABEL_EXISTS', {
+        master_tracking_number: active.rows[0].master_tracking_number
+      });
+    }
+
+    const address: Address = typeof order.shipping_address === 'string'
+      ? JSON.parse(order.shipping_address)
+      : order.shipping_address;
+    const phone = address.phone || order.customer_phone;
+
+    if (!phone) {
+      throw new ValidationError('A recipient phone number is required for FedEx labels');
+    }
+
+    const itemsResult = await this.pool.query(
+      `SELECT product_id, quantity, unit_price, ${ORDER_ITEM_OPTIONS_SQL} AS selected_options
+       FROM order_items
+       WHERE order_id = $1 AND product_id IS NOT NULL
+       ORDER BY id`,
+      [orderId]
+    );
+
+    if (itemsResult.rows.length === 0) {
+      throw new UnprocessableEntityError('Order has no shippable items');
+    }
+
+    const parcels = await this.packingService.packCart(itemsResult.rows.map(row => ({
+      productId: row.product_id,
+      quantity: row.quantity,
+      variationOptionIds: getConfigurationOptionIds(row.selected_options)
+    })));
+
+    const serviceType: FedExServiceType = input.serviceType ||
+      (address.country === 'US' ? 'FEDEX_GROUND' : 'FEDEX_INTERNATIONAL_PRIORITY');
+
+    const result = await this.fedExService.createShipment({
+      recipient: {
+        contact: {
+          personName: `${address.firstName} ${address.lastName}`.trim(),
+          companyName: address.company || undefined,
+          phoneNumber: phone,
+          emailAddress: address.email || order.customer_email
+        },
+        address: {
+          streetLines: [address.addressLine1, ...(address.addressLine2 ? [address.addressLine2] : [])],
+          city: address.city,
+          stateOrProvinceCode: (address.country === 'US' || address.country === 'CA') ? address.state : undefined,
+          postalCode: address.postalCode,
+          countryCode: address.country,
+          residential: !address.company
+        }
+      },
+      serviceType,
+      parcels,
+      items: itemsResult.rows.map(row => ({
+        productId: row.product_id,
+        quantity: row.quantity,
+        unitPrice: parseFloat(row.unit_price)
+      })),
+      orderValue: parseFloat(order.total_amount),
+      reference: order.order_number,
+      region: order.region === 'eu' ? 'eu' : 'us'
+    });
+
+    if (!result.success || !result.masterTrackingNumber || !result.pieces || result.pieces.length === 0) {
+      const code = result.error?.code || 'NO_SHIPMENT';
+      const message = result.error?.message || 'FedEx did not return a shipment';
+
+      if (code === 'CONFIG_ERROR' || code === 'REQUEST_ERROR') {
+        throw new ServiceUnavailableError(`FedEx label creation unavailable: ${message}`, 'FEDEX_UNAVAILABLE');
+      }
+      throw new UnprocessableEntityError(`FedEx rejected the shipment: ${message}`, { code });
+    }
+
+    const masterTrackingNumber = result.masterTrackingNumber;
+    const pieces = result.pieces;
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const [index, piece] of pieces.entries()) {
+        await client.query(
+          `INSERT INTO shipments (
+            order_id, carrier, service_code, tracking_number, master_tracking_number, tracking_url,
+            shipping_cost, status, label_format, label_data, parcel, created_by, metadata
+          ) VALUES ($1, 'FedEx', $2, $3, $4, $5, $6, 'label_created', $7, $8, $9, $10, $11)`,
+          [
+            orderId,
+            result.serviceType || serviceType,
+            piece.trackingNumber,
+            masterTrackingNumber,
+            fedExTrackingUrl(piece.trackingNumber),
+            index === 0 && result.totalCharge !== undefined ? result.totalCharge : null,
+            piece.labelFormat,
+            piece.labelData ? Buffer.from(piece.labelData, 'base64') : null,
+            piece.parcel ? JSON.stringify(piece.parcel) : null,
+            input.createdBy || null,
+            JSON.stringify({ piece: index + 1, pieceCount: pieces.length })
+          ]
+        );
+      }
+
+      await client.query(
+        `UPDATE orders
+         SET tracking_number = $1, tracking_url = $2, carrier = 'FedEx', updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3`,
+        [masterTrackingNumber, fedExTrackingUrl(masterTrackingNumber), orderId]
+      );
+
+      await client.query(
+        `INSERT INTO order_status_history (order_id, status, comment, actor_type, created_by)
+         VALUES ($1, $2, $3, 'admin', $4)`,
+        [
+          orderId,
+          order.status,
+          `FedEx ${result.serviceType || serviceType} label created (${pieces.length} parcel${pieces.length === 1 ? '' : 's'}). Tracking: ${masterTrackingNumber}`,
+          input.createdBy || null
+        ]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`Labels for FedEx shipment ${masterTrackingNumber} were created but not saved:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.getOrderShipments(orderId);
+  }
+
+  /**
+   * Void a FedEx shipment; every parcel sharing its master tracking number is voided
+   */
+  async voidShipment(orderId: number, shipmentId: number, voidedBy?: number): Promise<Shipment[]> {
+    const shipment = await this.getShipmentRow(orderId, shipmentId);
+
+    if (shipment.status === 'voided') {
+      throw new ConflictError('Shipment label is already voided', 'LABEL_VOIDED');
+    }
+
+    if (shipment.status !== 'label_created') {
+      throw new ConflictError('Only labels that have not been picked up can be voided', 'LABEL_IN_TRANSIT', {
+        status: shipment.status
+      });
+    }
+
+    const masterTrackingNumber: string = shipment.master_tracking_number || shipment.tracking_number;
+    const order = await this.getOrder(orderId);
+
+    if (shipment.carrier === 'FedEx') {
+      const result = await this.fedExService.cancelShipment(masterTrackingNumber, order.region === 'eu' ? 'eu' : 'us');
+
+      if (!result.success) {
+        const message = result.error?.message || 'FedEx did not cancel the shipment';
+        if (result.error?.code === 'CONFIG_ERROR' || result.error?.code === 'REQUEST_ERROR') {
+          throw new ServiceUnavailableError(`FedEx label void unavailable: ${message}`, 'FEDEX_UNAVAILABLE');
+        }
+        throw new UnprocessableEntityError(`FedEx could not void the label: ${message}`, { code: result.error?.code });
+      }
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `UPDATE shipments
+         SET status = 'voided', voided_at = CURRENT_TIMESTAMP, voided_by = $1
+         WHERE order_id = $2 AND COALESCE(master_tracking_number, tracking_number) = $3`,
+        [voidedBy || null, orderId, masterTrackingNumber]
+      );
+
+      await client.query(
+        `UPDATE orders
+         SET tracking_number = NULL, tracking_url = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND tracking_number = $2`,
+        [orderId, masterTrackingNumber]
+      );
+
+      await client.query(
+        `INSERT INTO order_status_history (order_id, status, comment, actor_type, created_by)
+         VALUES ($1, $2, $3, 'admin', $4)`,
+        [orderId, order.status, `${shipment.carrier} label ${masterTrackingNumber} voided`, voidedBy || null]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.getOrderShipments(orderId);
+  }
+
+  /**
+   * Label document of one parcel
+   */
+  async getLabel(orderId: number, shipmentId: number): Promise<{ data: Buffer; format: string; trackingNumber: string }> {
+    const result = await this.pool.query(
+      `SELECT tracking_number, label_format, label_data
+       FROM shipments
+       WHERE id = $1 AND order_id = $2`,
+      [shipmentId, orderId]
+    );
+
+    if (result.rows.length === 0 || !result.rows[0].label_data) {
+      throw new NotFoundError('Shipment label', { orderId, shipmentId });
+    }
+
+    return {
+      data: result.rows[0].label_data,
+      format: result.rows[0].label_format || 'PDF',
+      trackingNumber: result.rows[0].tracking_number
+    };
+  }
+
+  private async getOrder(orderId: number): Promise<any> {
+    const result = await this.pool.query('SELECT * FROM orders WHERE id = $1', [orderId]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Order', { id: orderId });
+    }
+
+    return result.rows[0];
+  }
+
+  private async getShipmentRow(orderId: number, shipmentId: number): Promise<any> {
+    const result = await this.pool.query(
+      `SELECT id, carrier, status, tracking_number, master_tracking_number
+       FROM shipments
+       WHERE id = $1 AND order_id = $2`,
+      [shipmentId, orderId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Shipment', { orderId, shipmentId });
+    }
+
+    return result.rows[0];
+  }
+
+  private mapShipment(row: any): Shipment {
+    return {
+      ...row,
+      shipping_cost: row.shipping_cost !== null ? parseFloat(row.shipping_cost) : null
+    };
+  }
+}
@@ -5,6 +5,8 @@
 
 import { Pool } from 'pg';
 import { NotFoundError, ValidationError } from '../utils/errors';
+import { OrderStatusService, canTransition } from './OrderStatusService';
+import { OrderStatus } from '../types/cart';
 
 export interface ShippingQuote {
   id: number;
@@ -64,7 +66,11 @@ export interface CreateShippingQuoteData {
 }
 
 export class ShippingQuoteService {
-  constructor(private pool: Pool) {}
+  private orderStatusService: OrderStatusService;
+
+  constructor(private pool: Pool) {
+    this.orderStatusService = new OrderStatusService(pool);
+  }
 
   /**
    * Create shipping quote for international order
@@ -112,12 +118,21 @@ export class ShippingQuoteService {
         notes
       ]);
 
-      // Update order with shipping_quote_id if orderId exists
+      // Update order with shipping_quote_id if orderId exists; the order waits for the quote
       if (data.orderId) {
-        await client.query(
-          'UPDATE orders SET shipping_quote_id = $1 WHERE id = $2',
+        const orderResult = await client.query(
+          'UPDATE orders SET shipping_quote_id = $1 WHERE id = $2 RETURNING status',
           [result.rows[0].id, data.orderId]
         );
+
+        if (orderResult.rows.length > 0 && canTransition(orderResult.rows[0].status, OrderStatus.AWAITING_QUOTE)) {
+          await this.orderStatusService.transition(
+            data.orderId,
+            OrderStatus.AWAITING_QUOTE,
+            { actorType: 'system', reason: `Shipping quote #${result.rows[0].id} requested`, notifyCustomer: false },
+            client
+          );
+        }
       }
 
       await client.query('COMMIT');
@@ -173,7 +188,23 @@ export class ShippingQuoteService {
         throw new NotFoundError(`Shipping quote ${quoteId} not found`);
       }
 
-      return this.mapRowToShippingQuote(result.rows[0]);
+      const quote = this.mapRowToShippingQuote(result.rows[0]);
+
+      // A confirmed quote releases its order: paid orders go to processing, unpaid ones back to pending
+      if (quote.status === 'confirmed' && quote.order_id) {
+        const orderResult = await client.query('SELECT status, payment_status FROM orders WHERE id = $1', [quote.order_id]);
+        const order = orderResult.rows[0];
+
+        if (order?.status === OrderStatus.AWAITING_QUOTE) {
+          await this.orderStatusService.transition(
+            quote.order_id,
+            ['paid', 'partially_refunded'].includes(order.payment_status) ? OrderStatus.PROCESSING : OrderStatus.PENDING,
+            { actorType: 'admin', actorId: quotedBy, reason: `Shipping quote #${quote.id} confirmed` }
+          );
+        }
+      }
+
+      return quote;
     } finally {
       client.release();
     }
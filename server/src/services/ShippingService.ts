@@ -1,16 +1,29 @@
 /**
  * Shipping Service (Backend)
- * Handles shipping calculation for all destination types
+ * Handles shipping calculation for all destination types by evaluating the
+ * admin-managed shipping zone tables (see ShippingZoneService)
  */
 
 import { Pool } from 'pg';
 import { FedExService } from './FedExService';
+import { ShippingZoneService } from './ShippingZoneService';
+import { RegionSettingsService } from './RegionSettingsService';
+import { PackingService } from './PackingService';
+import { largestPackageSize } from '../utils/packing';
 import { FedExAddress } from '../types/fedex';
 import { ShippingMethod } from '../types/cart';
-import { isEuropeanCountry } from '../utils/europeanCountries';
+import {
+  PackageSize,
+  Parcel,
+  ShippingZoneMethod,
+  ShippingRateTier,
+  ShippingMethodEvaluation,
+  ShippingRateTestResult
+} from '../types/shipping';
 
 export interface ShippingCalculation {
   method: string;
+  name?: string;
   price: number | null; // null indicates quote required (no price to display)
   estimatedDays: string;
   isAvailable: boolean;
@@ -30,184 +43,110 @@ export interface CartItem {
   productId: number;
   quantity: number;
   unitPrice: number;
+  variationOptionIds?: number[];
 }
 
 export interface CalculateShippingRequest {
   country: string;
   state?: string;
   orderTotal: number;
-  packageSize?: 'S' | 'M' | 'L'; // Optional - will be auto-determined if not provided
+  packageSize?: 'S' | 'M' | 'L'; // Optional - overrides the size of every packed parcel
   cartItems?: CartItem[];
+  region?: 'us' | 'eu'; // Region whose free shipping threshold applies
 }
 
+export interface ShippingAddressInput {
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  country: string;
+}
+
+/**
+ * Parcels and shipping classes of the cart, loaded once per calculation
+ */
+interface CartShippingProfile {
+  parcels: Parcel[];
+  weightKg: number;
+  packageSize: PackageSize;
+  classQuantities: Map<string, number>;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
 export class ShippingService {
   private pool: Pool;
   private fedExService: FedExService;
+  private shippingZoneService: ShippingZoneService;
+  private regionSettingsService: RegionSettingsService;
+  private packingService: PackingService;
 
   constructor(pool: Pool) {
     this.pool = pool;
     this.fedExService = new FedExService(pool);
+    this.shippingZoneService = new ShippingZoneService(pool);
+    this.regionSettingsService = new RegionSettingsService(pool);
+    this.packingService = new PackingService(pool);
   }
 
   /**
-   * Calculate shipping for US domestic (excluding Alaska & Hawaii)
-   */
-  private calculateUSDomestic(orderTotal: number): ShippingCalculation[] {
-    const results: ShippingCalculation[] = [];
-
-    if (orderTotal >= 50) {
-      results.push({
-        method: 'us_free',
-        price: 0,
-        estimatedDays: '5-7 business days',
-        isAvailable: true,
-        carrier: 'USPS'
-      });
-    } else {
-      results.push({
-        method: 'us_standard',
-        price: 9.99,
-        estimatedDays: '5-7 business days',
-        isAvailable: true,
-        carrier: 'USPS'
-      });
-    }
-
-    return results;
-  }
-
-  /**
-   * Calculate shipping for US territories (Alaska & Hawaii)
-   */
-  private calculateUSTerritories(packageSize: 'S' | 'M' | 'L'): ShippingCalculation[] {
-    const territoryPricing = {
-      'S': 30,
-      'M': 50,
-      'L': 150
-    };
-
-    return [{
-      method: `us_territories_${packageSize.toLowerCase()}`,
-      price: territoryPricing[packageSize],
-      estimatedDays: '7-10 business days',
-      isAvailable: true,
-      carrier: 'USPS'
-    }];
-  }
-
-  /**
-   * Calculate shipping for Canada
+   * Pack the cart into parcels and load its shipping class quantities.
+   * A provided package size overrides the size of every parcel.
    */
-  private calculateCanada(packageSize: 'S' | 'M' | 'L'): ShippingCalculation[] {
-    const canadaPricing = {
-      'S': 35,
-      'M': 100,
-      'L': 200
+  private async loadCartProfile(cartItems: CartItem[] | undefined, packageSize?: PackageSize): Promise<CartShippingProfile> {
+    const profile: CartShippingProfile = {
+      parcels: [],
+      weightKg: 0,
+      packageSize: packageSize || 'M',
+      classQuantities: new Map()
     };
 
-    return [{
-      method: `canada_${packageSize.toLowerCase()}`,
-      price: canadaPricing[packageSize],
-      estimatedDays: '7-14 business days',
-      isAvailable: true,
-      carrier: 'USPS'
-    }];
-  }
-
-  /**
-   * Calculate total weight in kg from cart items
-   * Default weight for items without weight is 1 kg
-   */
-  private async calculateTotalWeightInKg(cartItems?: CartItem[]): Promise<number> {
     if (!cartItems || cartItems.length === 0) {
-      return 0;
+      return profile;
     }
 
-    const client = await this.pool.connect();
     try {
-      const productIds = cartItems.map(item => item.productId);
-      
-      const result = await client.query(
-        `SELECT id, package_weight, package_weight_unit
-         FROM products 
-         WHERE id = ANY($1::int[])`,
-        [productIds]
+      const parcels = await this.packingService.packCart(cartItems);
+      profile.parcels = packageSize ? parcels.map(parcel => ({ ...parcel, packageSize })) : parcels;
+      profile.packageSize = packageSize || largestPackageSize(parcels);
+      profile.weightKg = Math.round(parcels.reduce((total, parcel) => total + parcel.weightKg, 0) * 1000) / 1000;
+
+      const result = await this.pool.query(
+        `SELECT id, shipping_class FROM products WHERE id = ANY($1::int[])`,
+        [cartItems.map(item => item.productId)]
       );
-
-      const productsMap = new Map(
-        result.rows.map(row => [row.id, row])
-      );
-
-      let totalWeightKg = 0;
+      const classes = new Map(result.rows.map(row => [row.id, row.shipping_class]));
 
       for (const item of cartItems) {
-        const product = productsMap.get(item.productId);
-        let itemWeightKg = 1; // Default 1 kg
-
-        if (product && product.package_weight) {
-          if (product.package_weight_unit === 'kg') {
-            itemWeightKg = parseFloat(product.package_weight);
-          } else if (product.package_weight_unit === 'lb' || product.package_weight_unit === 'lbs') {
-            itemWeightKg = parseFloat(product.package_weight) * 0.453592;
-          } else {
-             // Assume lbs if no unit or unknown unit, as per standard
-             itemWeightKg = parseFloat(product.package_weight) * 0.453592;
-          }
+        const shippingClass = classes.get(item.productId)?.trim().toLowerCase();
+        if (shippingClass) {
+          profile.classQuantities.set(shippingClass, (profile.classQuantities.get(shippingClass) || 0) + item.quantity);
         }
-
-        totalWeightKg += itemWeightKg * item.quantity;
       }
-
-      return totalWeightKg;
     } catch (error) {
-      console.error('Error calculating weight:', error);
-      // Fallback: assume 1 kg per item
-      return cartItems.reduce((total, item) => total + (1 * item.quantity), 0);
-    } finally {
-      client.release();
-    }
-  }
-
-  /**
-   * Calculate shipping for European countries based on weight
-   */
-  private async calculateEuropeanShipping(cartItems?: CartItem[]): Promise<ShippingCalculation[]> {
-    const totalWeightKg = await this.calculateTotalWeightInKg(cartItems);
-    let price = 0;
-
-    if (totalWeightKg < 5) {
-      price = 15;
-    } else if (totalWeightKg < 15) {
-      price = 40;
-    } else if (totalWeightKg < 30) {
-      price = 50;
-    } else if (totalWeightKg < 60) {
-      price = 70;
-    } else {
-      // >= 60 kg (includes >= 200 kg capped at same price)
-      price = 100;
+      console.error('Error loading cart shipping profile:', error);
+      // Fallback: assume one 1 kg parcel per item
+      profile.weightKg = cartItems.reduce((total, item) => total + (1 * item.quantity), 0);
     }
 
-    return [{
-      method: 'europe_weight_based',
-      price: price,
-      estimatedDays: '',
-      isAvailable: true,
-      carrier: 'SimFab EU'
-    }];
+    return profile;
   }
 
   /**
-   * Calculate shipping for international destinations using FedEx API
+   * Price a carrier-calculated method using the FedEx API.
+   * Any failure falls back to the manual quote option.
    */
-  private async calculateInternational(
+  private async calculateCarrierRates(
+    method: ShippingZoneMethod,
     destinationAddress: FedExAddress,
     packageSize: 'S' | 'M' | 'L',
     orderTotal: number,
-    cartItems?: CartItem[]
+    parcels?: Parcel[]
   ): Promise<ShippingCalculation[]> {
     try {
-      const fedExResult = await this.fedExService.getRates(destinationAddress, packageSize, orderTotal, cartItems);
+      const fedExResult = await this.fedExService.getRates(destinationAddress, packageSize, orderTotal, parcels);
 
       // Check for specific errors that mean we need a quote
       if (!fedExResult.success) {
@@ -279,11 +218,12 @@ export class ShippingService {
         : 60; // 60% discount = charging 40% of list rate
 
       return [{
-        method: 'international_fedex',
+        method: method.code,
+        name: method.name,
         price: rate.appliedRate,
-        estimatedDays: rate.transitTime || '7-14 business days',
+        estimatedDays: rate.transitTime || method.estimated_days || '7-14 business days',
         isAvailable: true,
-        carrier: 'FedEx',
+        carrier: method.carrier || 'FedEx',
         serviceType: rate.serviceType,
         fedexRateData: {
           listRate: rate.listRate,
@@ -308,170 +248,280 @@ export class ShippingService {
   }
 
   /**
-   * Determine package size from cart items based on product dimensions
-   * Returns 'S', 'M', or 'L' based on largest dimension or total volume
+   * Calculate shipping based on destination: the first shipping zone covering
+   * the address supplies the methods, each priced from its rate table
    */
-  async determinePackageSize(cartItems?: CartItem[]): Promise<'S' | 'M' | 'L'> {
-    // Default to Medium if no cart items
-    if (!cartItems || cartItems.length === 0) {
-      return 'M';
-    }
-
-    const client = await this.pool.connect();
-    try {
-      const productIds = cartItems.map(item => item.productId);
-      
-      // Query product package dimensions
-      const result = await client.query(
-        `SELECT id, package_length, package_width, package_height, package_dimension_unit,
-                package_weight, package_weight_unit
-         FROM products 
-         WHERE id = ANY($1::int[])`,
-        [productIds]
-      );
+  async calculateShipping(request: CalculateShippingRequest & {
+    shippingAddress?: ShippingAddressInput;
+  }): Promise<ShippingCalculation[]> {
+    const { evaluations, profile, methods } = await this.evaluateShipping(request);
 
-      const productsMap = new Map(
-        result.rows.map(row => [row.id, row])
-      );
+    if (!methods || methods.length === 0) {
+      return [this.quoteRequired()];
+    }
 
-      let maxLength = 0;
-      let maxWidth = 0;
-      let maxHeight = 0;
-      let totalWeight = 0;
+    const calculations: ShippingCalculation[] = [];
 
-      // Calculate aggregate dimensions and weight from all items
-      for (const item of cartItems) {
-        const product = productsMap.get(item.productId);
-        
-        if (product && product.package_length && product.package_width && product.package_height) {
-          // Convert dimensions to inches
-          let lengthIn = product.package_length;
-          let widthIn = product.package_width;
-          let heightIn = product.package_height;
-          
-          if (product.package_dimension_unit === 'cm') {
-            lengthIn = product.package_length / 2.54;
-            widthIn = product.package_width / 2.54;
-            heightIn = product.package_height / 2.54;
-          }
-
-          // Multiply by quantity for this item
-          for (let i = 0; i < item.quantity; i++) {
-            maxLength = Math.max(maxLength, lengthIn);
-            maxWidth = Math.max(maxWidth, widthIn);
-            maxHeight = Math.max(maxHeight, heightIn);
-          }
-
-          // Calculate weight
-          if (product.package_weight) {
-            let weightLbs = product.package_weight;
-            if (product.package_weight_unit === 'kg') {
-              weightLbs = product.package_weight * 2.20462;
-            }
-            totalWeight += weightLbs * item.quantity;
-          }
-        }
+    for (const method of methods) {
+      const evaluation = evaluations.find(entry => entry.method_id === method.id);
+      if (!evaluation || !evaluation.available) {
+        continue;
       }
 
-      // If no dimensions found, default to Medium
-      if (maxLength === 0 && maxWidth === 0 && maxHeight === 0) {
-        return 'M';
+      if (method.method_type === 'carrier') {
+        calculations.push(...await this.priceCarrierMethod(method, evaluation, profile, request));
+        continue;
       }
 
-      // Determine package size based on largest dimension
-      // Small: max dimension < 12 inches
-      // Medium: max dimension 12-24 inches
-      // Large: max dimension > 24 inches
-      const maxDimension = Math.max(maxLength, maxWidth, maxHeight);
-      
-      if (maxDimension < 12) {
-        return 'S';
-      } else if (maxDimension <= 24) {
-        return 'M';
-      } else {
-        return 'L';
+      if (evaluation.requires_manual_quote) {
+        calculations.push({
+          ...this.quoteRequired(),
+          method: method.code,
+          name: method.name,
+          carrier: method.carrier || undefined
+        });
+        continue;
       }
-    } catch (error) {
-      console.error('Error determining package size:', error);
-      // Default to Medium on error
-      return 'M';
-    } finally {
-      client.release();
+
+      calculations.push({
+        method: method.code,
+        name: evaluation.free_shipping_applied && evaluation.price === 0 ? 'Free Shipping' : method.name,
+        price: evaluation.price,
+        estimatedDays: method.estimated_days || '',
+        isAvailable: true,
+        carrier: method.carrier || undefined
+      });
     }
+
+    // Every method was excluded for this cart
+    return calculations.length > 0 ? calculations : [this.quoteRequired()];
   }
 
   /**
-   * Calculate shipping based on destination
+   * Evaluate every method of the matching zone without calling carriers (admin "test a rate")
    */
-  async calculateShipping(request: CalculateShippingRequest & {
-    shippingAddress?: {
-      addressLine1: string;
-      addressLine2?: string;
-      city: string;
-      state?: string;
-      postalCode: string;
-      country: string;
+  async testRate(request: CalculateShippingRequest & { postalCode?: string }): Promise<ShippingRateTestResult> {
+    const { zone, evaluations, profile } = await this.evaluateShipping({
+      ...request,
+      shippingAddress: request.postalCode
+        ? { addressLine1: '', city: '', state: request.state, postalCode: request.postalCode, country: request.country }
+        : undefined
+    });
+
+    return {
+      zone: zone ? { id: zone.id, name: zone.name } : null,
+      weight_kg: profile.weightKg,
+      package_size: profile.packageSize,
+      parcels: profile.parcels,
+      order_total: request.orderTotal,
+      shipping_classes: Array.from(profile.classQuantities.keys()),
+      methods: evaluations
     };
-  }): Promise<ShippingCalculation[]> {
-    const { country, state, orderTotal, packageSize: providedPackageSize, shippingAddress, cartItems } = request;
-    
-    // Auto-determine package size if not provided
-    let packageSize: 'S' | 'M' | 'L' = providedPackageSize || 'M';
-    if (!providedPackageSize && cartItems && cartItems.length > 0) {
-      packageSize = await this.determinePackageSize(cartItems);
+  }
+
+  /**
+   * Match the zone and price each of its methods from the rate tables
+   */
+  private async evaluateShipping(request: CalculateShippingRequest & { shippingAddress?: ShippingAddressInput }) {
+    const { country, state, orderTotal, packageSize, cartItems } = request;
+
+    const zone = await this.shippingZoneService.findZoneForAddress(
+      country,
+      state || request.shippingAddress?.state,
+      request.shippingAddress?.postalCode
+    );
+    const methods = zone?.methods || [];
+    const profile = await this.loadCartProfile(cartItems, packageSize);
+    const regionThreshold = methods.some(method => method.free_shipping_mode === 'region')
+      ? await this.getRegionFreeShippingThreshold(request.region || 'us')
+      : null;
+
+    const evaluations = methods.map(method => this.evaluateMethod(method, profile, orderTotal, regionThreshold));
+
+    return { zone, methods, profile, evaluations };
+  }
+
+  /**
+   * Price one method from its rate table, class rules and free shipping threshold.
+   * Free shipping zeroes the base rate only; shipping class surcharges still apply.
+   */
+  private evaluateMethod(
+    method: ShippingZoneMethod,
+    profile: CartShippingProfile,
+    orderTotal: number,
+    regionThreshold: number | null
+  ): ShippingMethodEvaluation {
+    const evaluation: ShippingMethodEvaluation = {
+      method_id: method.id,
+      code: method.code,
+      name: method.name,
+      method_type: method.method_type,
+      available: true,
+      base_price: null,
+      surcharge: 0,
+      free_shipping_applied: false,
+      price: null,
+      requires_manual_quote: method.method_type === 'quote'
+    };
+
+    let surcharge = 0;
+    for (const rule of method.class_rules || []) {
+      const quantity = profile.classQuantities.get(rule.shipping_class.toLowerCase());
+      if (!quantity) {
+        continue;
+      }
+      if (rule.action === 'exclude') {
+        return { ...evaluation, available: false, reason: `Not available for shipping class "${rule.shipping_class}"` };
+      }
+      surcharge += (Number(rule.amount) || 0) * (rule.per === 'item' ? quantity : 1);
     }
+    evaluation.surcharge = round2(surcharge);
 
-    // US Domestic (excluding Alaska & Hawaii)
-    if (country === 'US' && state && !['AK', 'HI'].includes(state)) {
-      return this.calculateUSDomestic(orderTotal);
+    if (method.method_type === 'carrier' || method.method_type === 'quote') {
+      // Carrier prices come from the live rate request; quotes have no price
+      return evaluation;
     }
 
-    // US Territories (Alaska & Hawaii)
-    if (country === 'US' && state && ['AK', 'HI'].includes(state)) {
-      return this.calculateUSTerritories(packageSize);
+    const basePrice = this.basePrice(method, profile, orderTotal);
+    if (basePrice === null) {
+      return { ...evaluation, available: false, reason: 'No rate tier matches this order' };
+    }
+
+    const threshold = method.free_shipping_mode === 'region'
+      ? regionThreshold
+      : method.free_shipping_mode === 'amount' ? Number(method.free_shipping_threshold) : null;
+
+    evaluation.free_shipping_applied = threshold !== null && !isNaN(threshold) && orderTotal >= threshold;
+    evaluation.base_price = basePrice;
+    evaluation.price = round2((evaluation.free_shipping_applied ? 0 : basePrice) + evaluation.surcharge);
+
+    return evaluation;
+  }
+
+  private basePrice(method: ShippingZoneMethod, profile: CartShippingProfile, orderTotal: number): number | null {
+    const rates: ShippingRateTier[] = method.rates || [];
+
+    switch (method.method_type) {
+      case 'flat':
+        return Number(method.base_cost) || 0;
+
+      case 'weight_tier':
+        return this.sumParcelCosts(profile, parcel => this.tierCost(rates, parcel.weightKg));
+
+      case 'total_tier':
+        return this.tierCost(rates, orderTotal);
+
+      case 'package_size':
+        return this.sumParcelCosts(profile, parcel => {
+          const tier = rates.find(rate => rate.size === parcel.packageSize);
+          return tier ? Number(tier.cost) : null;
+        });
+
+      default:
+        return null;
     }
+  }
 
-    // Canada
-    if (country === 'CA') {
-      return this.calculateCanada(packageSize);
+  /**
+   * Sum a per-parcel cost over the packed parcels; null when any parcel has no rate.
+   * Without cart items the cart is priced as one parcel of the requested size.
+   */
+  private sumParcelCosts(
+    profile: CartShippingProfile,
+    parcelCost: (parcel: Pick<Parcel, 'weightKg' | 'packageSize'>) => number | null
+  ): number | null {
+    const parcels = profile.parcels.length > 0
+      ? profile.parcels
+      : [{ weightKg: profile.weightKg, packageSize: profile.packageSize }];
+
+    let total = 0;
+    for (const parcel of parcels) {
+      const cost = parcelCost(parcel);
+      if (cost === null) {
+        return null;
+      }
+      total += cost;
     }
 
-    // Europe (Weight based)
-    if (isEuropeanCountry(country)) {
-      return this.calculateEuropeanShipping(cartItems);
+    return round2(total);
+  }
+
+  /**
+   * Cost of the first tier whose [min, max) range holds the value
+   */
+  private tierCost(rates: ShippingRateTier[], value: number): number | null {
+    const tier = rates.find(rate =>
+      (rate.min == null || value >= Number(rate.min)) &&
+      (rate.max == null || value < Number(rate.max))
+    );
+    return tier ? Number(tier.cost) : null;
+  }
+
+  private async priceCarrierMethod(
+    method: ShippingZoneMethod,
+    evaluation: ShippingMethodEvaluation,
+    profile: CartShippingProfile,
+    request: CalculateShippingRequest & { shippingAddress?: ShippingAddressInput }
+  ): Promise<ShippingCalculation[]> {
+    const { shippingAddress } = request;
+
+    // Carrier rates need a full destination address
+    if (!shippingAddress) {
+      return [this.quoteRequired()];
     }
 
-    // International - Use FedEx API
-    if (shippingAddress) {
-      // For international addresses, FedEx may not require state field
-      // Some countries (like Bulgaria) don't have states
-      const destinationAddress: FedExAddress = {
-        streetLines: [
-          shippingAddress.addressLine1,
-          ...(shippingAddress.addressLine2 ? [shippingAddress.addressLine2] : [])
-        ],
-        city: shippingAddress.city,
-        // Only include state if country is US, CA, or other countries that use states
-        // For most international addresses, omit state field
-        stateOrProvinceCode: (shippingAddress.country === 'US' || shippingAddress.country === 'CA') 
-          ? shippingAddress.state || undefined 
-          : undefined,
-        postalCode: shippingAddress.postalCode,
-        countryCode: shippingAddress.country
-      };
-
-      return await this.calculateInternational(destinationAddress, packageSize, orderTotal, request.cartItems);
+    // For international addresses, FedEx may not require state field
+    // Some countries (like Bulgaria) don't have states
+    const destinationAddress: FedExAddress = {
+      streetLines: [
+        shippingAddress.addressLine1,
+        ...(shippingAddress.addressLine2 ? [shippingAddress.addressLine2] : [])
+      ],
+      city: shippingAddress.city,
+      // Only include state if country is US, CA, or other countries that use states
+      // For most international addresses, omit state field
+      stateOrProvinceCode: (shippingAddress.country === 'US' || shippingAddress.country === 'CA') 
+        ? shippingAddress.state || undefined 
+        : undefined,
+      postalCode: shippingAddress.postalCode,
+      countryCode: shippingAddress.country
+    };
+
+    const calculations = await this.calculateCarrierRates(
+      method,
+      destinationAddress,
+      profile.packageSize,
+      request.orderTotal,
+      profile.parcels
+    );
+
+    return calculations.map(calculation =>
+      calculation.price !== null && evaluation.surcharge > 0
+        ? { ...calculation, price: round2(calculation.price + evaluation.surcharge) }
+        : calculation
+    );
+  }
+
+  private async getRegionFreeShippingThreshold(region: 'us' | 'eu'): Promise<number | null> {
+    try {
+      const settings = await this.regionSettingsService.getSettings(region);
+      const threshold = parseFloat(settings.free_shipping_threshold);
+      return isNaN(threshold) ? null : threshold;
+    } catch (error) {
+      console.error('Failed to load free shipping threshold:', error);
+      return null;
     }
+  }
 
-    // Fallback if address not provided
-    return [{
+  private quoteRequired(): ShippingCalculation {
+    return {
       method: 'international_quote',
       price: null, // Use null instead of 0 to indicate no price should be shown
       estimatedDays: 'Contact for quote',
       isAvailable: true,
       carrier: 'FedEx',
       requiresManualQuote: true
-    }];
+    };
   }
 
   /**
@@ -486,7 +536,7 @@ export class ShippingService {
 
     return {
       id: calculation.method,
-      name: this.getShippingMethodName(calculation.method),
+      name: calculation.name || this.getShippingMethodName(calculation.method),
       carrier: calculation.carrier || 'Unknown',
       serviceCode: calculation.serviceType || calculation.method,
       cost: calculation.price ?? 0, // Use 0 if price is null, but we'll check requiresManualQuote in frontend
@@ -501,14 +551,9 @@ export class ShippingService {
    */
   private static getShippingMethodName(method: string): string {
     const names: Record<string, string> = {
-      'us_free': 'Free Shipping',
       'us_standard': 'Standard Shipping',
-      'us_territories_s': 'Alaska/Hawaii - Small Package',
-      'us_territories_m': 'Alaska/Hawaii - Medium Package',
-      'us_territories_l': 'Alaska/Hawaii - Large Package',
-      'canada_s': 'Canada - Small Package',
-      'canada_m': 'Canada - Medium Package',
-      'canada_l': 'Canada - Large Package',
+      'us_territories': 'Alaska/Hawaii Shipping',
+      'canada': 'Canada Shipping',
       'europe_weight_based': 'Standard Shipping',
       'international_fedex': 'International Shipping (FedEx)',
       'international_quote': 'International Shipping - Quote Required'
@@ -0,0 +1,373 @@
+/**
+ * Shipping Zone Service
+ * Admin-managed shipping zones and their methods. Zones are matched in sort_order
+ * (first match wins) by country, state and postal code patterns.
+ */
+
+import { Pool } from 'pg';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
+import { getStateCode } from '../utils/addressRules';
+import {
+  ShippingZone,
+  ShippingZoneMethod,
+  CreateShippingZoneDto,
+  UpdateShippingZoneDto,
+  CreateShippingZoneMethodDto,
+  UpdateShippingZoneMethodDto
+} from '../types/shipping';
+
+const ZONE_FIELDS: Array<keyof CreateShippingZoneDto> = [
+  'name',
+  'countries',
+  'states',
+  'postal_codes',
+  'sort_order',
+  'is_active'
+];
+
+const METHOD_FIELDS: Array<keyof CreateShippingZoneMethodDto> = [
+  'code',
+  'name',
+  'carrier',
+  'estimated_days',
+  'method_type',
+  'base_cost',
+  'rates',
+  'free_shipping_mode',
+  'free_shipping_threshold',
+  'class_rules',
+  'sort_order',
+  'is_active'
+];
+
+const JSON_METHOD_FIELDS = new Set<string>(['rates', 'class_rules']);
+
+const normalizePostalCode = (value?: string | null): string =>
+  (value || '').toUpperCase().replace(/\s/g, '');
+
+/**
+ * Match a postal code against a zone pattern: exact, prefix ("331*") or range ("33000...33999")
+ */
+export const matchesPostalPattern = (postalCode: string, pattern: string): boolean => {
+  const code = normalizePostalCode(postalCode);
+  const normalized = normalizePostalCode(pattern);
+
+  if (!code || !normalized) {
+    return false;
+  }
+
+  if (normalized.includes('...')) {
+    const [low, high] = normalized.split('...');
+    if (/^\d+$/.test(low) && /^\d+$/.test(high) && /^\d+$/.test(code)) {
+      const value = parseInt(code, 10);
+      return value >= parseInt(low, 10) && value <= parseInt(high, 10);
+    }
+    return code >= low && code <= high;
+  }
+
+  if (normalized.endsWith('*')) {
+    return code.startsWith(normalized.slice(0, -1));
+  }
+
+  return code === normalized;
+};
+
+export class ShippingZoneService {
+  constructor(private pool: Pool) {}
+
+  // ============================================================================
+  // MATCHING
+  // ============================================================================
+
+  /**
+   * Find the first active zone covering a destination, with its active methods
+   */
+  async findZoneForAddress(country: string, state?: string, postalCode?: string): Promise<ShippingZone | null> {
+    const countryCode = (country || '').toUpperCase();
+    const stateCode = getStateCode(countryCode, state) || (state ? state.toUpperCase() : null);
+
+    const result = await this.pool.query(
+      `SELECT * FROM shipping_zones
+       WHERE is_active = true
+         AND (cardinality(countries) = 0 OR $1 = ANY(countries))
+       ORDER BY sort_order, id`,
+      [countryCode]
+    );
+
+    const zone = result.rows.find((candidate: ShippingZone) =>
+      (candidate.states.length === 0 || (stateCode !== null && candidate.states.includes(stateCode))) &&
+      (candidate.postal_codes.length === 0 ||
+        candidate.postal_codes.some(pattern => matchesPostalPattern(postalCode || '', pattern)))
+    );
+
+    if (!zone) {
+      return null;
+    }
+
+    const methods = await this.pool.query(
+      `SELECT * FROM shipping_zone_methods
+       WHERE zone_id = $1 AND is_active = true
+       ORDER BY sort_order, id`,
+      [zone.id]
+    );
+
+    return { ...zone, methods: methods.rows };
+  }
+
+  // ============================================================================
+  // ZONE MANAGEMENT
+  // ============================================================================
+
+  /**
+   * List all zones in match order, each with all of its methods
+   */
+  async listZones(): Promise<ShippingZone[]> {
+    const zones = await this.pool.query('SELECT * FROM shipping_zones ORDER BY sort_order, id');
+    const methods = await this.pool.query('SELECT * FROM shipping_zone_methods ORDER BY sort_order, id');
+
+    return zones.rows.map((zone: ShippingZone) => ({
+      ...zone,
+      methods: methods.rows.filter((method: ShippingZoneMethod) => method.zone_id === zone.id)
+    }));
+  }
+
+  async getZone(id: number): Promise<ShippingZone> {
+    const result = await this.pool.query('SELECT * FROM shipping_zones WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Shipping zone', { id });
+    }
+
+    const methods = await this.pool.query(
+      'SELECT * FROM shipping_zone_methods WHERE zone_id = $1 ORDER BY sort_order, id',
+      [id]
+    );
+
+    return { ...result.rows[0], methods: methods.rows };
+  }
+
+  async createZone(data: CreateShippingZoneDto): Promise<ShippingZone> {
+    const zone = this.normalizeZone(data);
+
+    const result = await this.pool.query(
+      `INSERT INTO shipping_zones (name, countries, states, postal_codes, sort_order, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        zone.name,
+        zone.countries || [],
+        zone.states || [],
+        zone.postal_codes || [],
+        zone.sort_order ?? 0,
+        zone.is_active ?? true
+      ]
+    );
+
+    return { ...result.rows[0], methods: [] };
+  }
+
+  async updateZone(id: number, data: UpdateShippingZoneDto): Promise<ShippingZone> {
+    const current = await this.getZone(id);
+    const zone = this.normalizeZone(data, current.countries);
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    for (const field of ZONE_FIELDS) {
+      if (zone[field] !== undefined) {
+        updates.push(`${field} = $${paramIndex++}`);
+        values.push(zone[field]);
+      }
+    }
+
+    if (updates.length === 0) {
+      return current;
+    }
+
+    values.push(id);
+
+    await this.pool.query(
+      `UPDATE shipping_zones SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $${paramIndex}`,
+      values
+    );
+
+    return this.getZone(id);
+  }
+
+  async deleteZone(id: number): Promise<void> {
+    const result = await this.pool.query('DELETE FROM shipping_zones WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Shipping zone', { id });
+    }
+  }
+
+  // ============================================================================
+  // METHOD MANAGEMENT
+  // ============================================================================
+
+  async getMethod(id: number): Promise<ShippingZoneMethod> {
+    const result = await this.pool.query('SELECT * FROM shipping_zone_methods WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Shipping method', { id });
+    }
+
+    return result.rows[0];
+  }
+
+  async createMethod(zoneId: number, data: CreateShippingZoneMethodDto): Promise<ShippingZoneMethod> {
+    await this.getZone(zoneId);
+    this.validateMethod(data);
+
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO shipping_zone_methods (
+          zone_id, code, name, carrier, estimated_days, method_type, base_cost, rates,
+          free_shipping_mode, free_shipping_threshold, class_rules, sort_order, is_active
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        RETURNING *`,
+        [
+          zoneId,
+          data.code,
+          data.name,
+          data.carrier || null,
+          data.estimated_days || null,
+          data.method_type,
+          data.base_cost ?? 0,
+          JSON.stringify(data.rates || []),
+          data.free_shipping_mode || 'none',
+          data.free_shipping_threshold ?? null,
+          JSON.stringify(data.class_rules || []),
+          data.sort_order ?? 0,
+          data.is_active ?? true
+        ]
+      );
+
+      return result.rows[0];
+    } catch (error: any) {
+      throw this.mapUniqueViolation(error, data.code);
+    }
+  }
+
+  async updateMethod(id: number, data: UpdateShippingZoneMethodDto): Promise<ShippingZoneMethod> {
+    const current = await this.getMethod(id);
+    this.validateMethod({ ...current, ...data });
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    for (const field of METHOD_FIELDS) {
+      if (data[field] !== undefined) {
+        updates.push(`${field} = $${paramIndex++}`);
+        values.push(JSON_METHOD_FIELDS.has(field) ? JSON.stringify(data[field]) : data[field]);
+      }
+    }
+
+    if (updates.length === 0) {
+      return current;
+    }
+
+    values.push(id);
+
+    try {
+      const result = await this.pool.query(
+        `UPDATE shipping_zone_methods SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${paramIndex}
+         RETURNING *`,
+        values
+      );
+
+      return result.rows[0];
+    } catch (error: any) {
+      throw this.mapUniqueViolation(error, data.code || current.code);
+    }
+  }
+
+  async deleteMethod(id: number): Promise<void> {
+    const result = await this.pool.query('DELETE FROM shipping_zone_methods WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Shipping method', { id });
+    }
+  }
+
+  /**
+   * Upper-case country codes and resolve state names to codes within the zone's countries
+   */
+  private normalizeZone<T extends UpdateShippingZoneDto>(data: T, currentCountries: string[] = []): T {
+    const zone = { ...data };
+
+    if (zone.countries) {
+      zone.countries = Array.from(new Set(zone.countries.map(code => code.toUpperCase())));
+    }
+
+    if (zone.states) {
+      const countries = zone.countries || currentCountries;
+      if (zone.states.length > 0 && countries.length === 0) {
+        throw new ValidationError('States can only be set on a zone that lists its countries');
+      }
+
+      zone.states = zone.states.map(state => {
+        const code = countries.map(country => getStateCode(country, state)).find(Boolean);
+        if (!code) {
+          throw new ValidationError(`State "${state}" is not valid for ${countries.join(', ')}`, { state });
+        }
+        return code;
+      });
+    }
+
+    if (zone.postal_codes) {
+      zone.postal_codes = zone.postal_codes.map(normalizePostalCode).filter(Boolean);
+    }
+
+    return zone;
+  }
+
+  /**
+   * Check the rate table fits the method type
+   */
+  private validateMethod(method: UpdateShippingZoneMethodDto): void {
+    const rates = method.rates || [];
+
+    switch (method.method_type) {
+      case 'weight_tier':
+      case 'total_tier':
+        if (rates.length === 0) {
+          throw new ValidationError('Tiered shipping methods need at least one rate tier');
+        }
+        for (const tier of rates) {
+          if (tier.min != null && tier.max != null && tier.max <= tier.min) {
+            throw new ValidationError('Each rate tier max must be greater than its min', { tier });
+          }
+        }
+        break;
+
+      case 'package_size':
+        if (rates.length === 0 || rates.some(tier => !tier.size)) {
+          throw new ValidationError('Package size methods need a rate for each package size (S, M, L)');
+        }
+        break;
+
+      case 'carrier':
+        if ((method.carrier || '').toLowerCase() !== 'fedex') {
+          throw new ValidationError('Carrier-calculated methods currently support FedEx only');
+        }
+        break;
+    }
+
+    if (method.free_shipping_mode === 'amount' && method.free_shipping_threshold == null) {
+      throw new ValidationError('Set a free shipping threshold or choose another free shipping mode');
+    }
+  }
+
+  private mapUniqueViolation(error: any, code?: string): Error {
+    if (error.code === '23505') {
+      return new ConflictError(`A shipping method with code "${code}" already exists`, 'DUPLICATE_ENTRY', { code });
+    }
+    return error;
+  }
+}
@@ -0,0 +1,319 @@
+/**
+ * Social Login Service
+ * Sign-in with external OAuth2/OIDC providers: authorization requests with PKCE, code
+ * exchange, and matching the provider account to a user (linked identity, existing
+ * account with the same verified email, or a new account). Providers are switched on
+ * and given client credentials per region in region_settings.
+ */
+
+import { Pool } from 'pg';
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { User } from '../models/user';
+import { RegionSettingsService } from './RegionSettingsService';
+import {
+  OidcHttpClient,
+  OidcProvider,
+  SOCIAL_PROVIDER_IDS,
+  createOidcProvider,
+  getProviderName
+} from './OidcProviders';
+import {
+  LinkedIdentity,
+  OAuthFlowState,
+  OidcClientCredentials,
+  OidcProfile,
+  OidcTokenSet,
+  SocialProviderId,
+  SocialProviderSummary
+} from '../types/socialLogin';
+import {
+  AuthenticationError,
+  ConflictError,
+  ErrorCode,
+  ValidationError
+} from '../utils/errors';
+
+type Region = 'us' | 'eu';
+
+export class SocialLoginService {
+  private providers = new Map<SocialProviderId, OidcProvider>();
+  private regionSettingsService: RegionSettingsService;
+
+  constructor(private pool: Pool, private httpClient: OidcHttpClient = fetch) {
+    for (const id of SOCIAL_PROVIDER_IDS) {
+      this.providers.set(id, createOidcProvider(id, httpClient));
+    }
+    this.regionSettingsService = new RegionSettingsService(pool);
+  }
+
+  isProvider(id: string): id is SocialProviderId {
+    return this.providers.has(id as SocialProviderId);
+  }
+
+  /**
+   * Providers switched on and configured for the region
+   */
+  async getEnabledProviders(region: Region): Promise<SocialProviderSummary[]> {
+    const settings = await this.regionSettingsService.getSettings(region, false, false);
+    return SOCIAL_PROVIDER_IDS
+      .filter(id => settings[`oidc_${id}_enabled`] === true && !!settings[`oidc_${id}_client_id`])
+      .map(id => ({ id, name: getProviderName(id) }));
+  }
+
+  /**
+   * Build the provider redirect; the returned flow state must be kept in the session
+   */
+  async createAuthorizationRequest(
+    providerId: SocialProviderId,
+    region: Region,
+    mode: OAuthFlowState['mode'],
+    returnTo: string
+  ): Promise<{ url: string; flow: OAuthFlowState }> {
+    const provider = this.getProvider(providerId);
+    const credentials = await this.getCredentials(providerId, region);
+    const endpoints = await provider.getEndpoints();
+
+    const flow: OAuthFlowState = {
+      provider: providerId,
+      state: crypto.randomBytes(16).toString('base64url'),
+      nonce: crypto.randomBytes(16).toString('base64url'),
+      codeVerifier: crypto.randomBytes(32).toString('base64url'),
+      mode,
+      returnTo,
+      region,
+      createdAt: Date.now()
+    };
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: credentials.clientId,
+      redirect_uri: credentials.redirectUri,
+      scope: provider.scopes.join(' '),
+      state: flow.state,
+      nonce: flow.nonce,
+      code_challenge: crypto.createHash('sha256').update(flow.codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256'
+    });
+
+    return { url: `${endpoints.authorizationEndpoint}?${params.toString()}`, flow };
+  }
+
+  /**
+   * Exchange the authorization code and read the provider account
+   */
+  async completeAuthorization(flow: OAuthFlowState, code: string): Promise<OidcProfile> {
+    const provider = this.getProvider(flow.provider);
+    const credentials = await this.getCredentials(flow.provider, flow.region);
+    const endpoints = await provider.getEndpoints();
+
+    const response = await this.httpClient(endpoints.tokenEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json'
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: credentials.redirectUri,
+        client_id: credentials.clientId,
+        client_secret: credentials.clientSecret,
+        code_verifier: flow.codeVerifier
+      }).toString()
+    });
+
+    if (!response.ok) {
+      console.error(`${provider.name} token exchange failed:`, response.status, await response.text());
+      throw new AuthenticationError(`Sign-in with ${provider.name} failed`, ErrorCode.SOCIAL_LOGIN_FAILED);
+    }
+
+    const tokens = await response.json() as OidcTokenSet;
+    if (!tokens.access_token) {
+      throw new AuthenticationError(`Sign-in with ${provider.name} failed`, ErrorCode.SOCIAL_LOGIN_FAILED);
+    }
+
+    return provider.getProfile(tokens, endpoints, credentials, flow.nonce);
+  }
+
+  /**
+   * Find or create the user for a provider account. With linkToUserId the account is
+   * linked to that (signed-in) user instead.
+   */
+  async resolveUser(
+    providerId: SocialProviderId,
+    profile: OidcProfile,
+    linkToUserId?: number
+  ): Promise<{ user: User; created: boolean }> {
+    const providerName = getProviderName(providerId);
+
+    const linked = await this.pool.query(
+      `SELECT u.* FROM user_identities ui
+       JOIN users u ON u.id = ui.user_id
+       WHERE ui.provider = $1 AND ui.subject = $2`,
+      [providerId, profile.subject]
+    );
+
+    if (linked.rows.length > 0) {
+      const user: User = linked.rows[0];
+      if (linkToUserId && user.id !== linkToUserId) {
+        throw new ConflictError(`This ${providerName} account is linked to another SimFab account`, ErrorCode.DUPLICATE_ENTRY);
+      }
+      await this.touchIdentity(providerId, profile);
+      return { user, created: false };
+    }
+
+    if (linkToUserId) {
+      const user = await this.getUser(linkToUserId);
+      await this.insertIdentity(user.id!, providerId, profile);
+      return { user, created: false };
+    }
+
+    if (!profile.email || !profile.emailVerified) {
+      throw new ValidationError(`Your ${providerName} account has no verified email address`);
+    }
+
+    const existing = await this.pool.query('SELECT * FROM users WHERE LOWER(email) = LOWER($1)', [profile.email]);
+    if (existing.rows.length > 0) {
+      const user: User = existing.rows[0];
+      // Only link by email when both sides have proven the address
+      if (!user.email_verified) {
+        throw new ConflictError(
+          `An account with this email already exists. Sign in with your password, then connect ${providerName} in your account settings.`,
+          ErrorCode.EMAIL_EXISTS
+        );
+      }
+      await this.insertIdentity(user.id!, providerId, profile);
+      return { user, created: false };
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Unusable until the user sets a password through password reset
+      const password = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+      const result = await client.query(
+        `INSERT INTO users (email, password, first_name, last_name, email_verified, password_set)
+         VALUES ($1, $2, $3, $4, true, false)
+         RETURNING *`,
+        [profile.email, password, profile.firstName || '', profile.lastName || '']
+      );
+      const user: User = result.rows[0];
+
+      await client.query(
+        `INSERT INTO user_identities (user_id, provider, subject, email, last_login_at)
+         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)`,
+        [user.id, providerId, profile.subject, profile.email]
+      );
+
+      await client.query('COMMIT');
+      return { user, created: true };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listIdentities(userId: number): Promise<LinkedIdentity[]> {
+    const result = await this.pool.query(
+      `SELECT provider, email, created_at, last_login_at
+       FROM user_identities
+       WHERE user_id = $1
+       ORDER BY created_at`,
+      [userId]
+    );
+
+    return result.rows
+      .filter(row => this.isProvider(row.provider))
+      .map(row => ({
+        provider: row.provider,
+        name: getProviderName(row.provider),
+        email: row.email,
+        linkedAt: row.created_at,
+        lastLoginAt: row.last_login_at
+      }));
+  }
+
+  /**
+   * Unlink a provider, keeping at least one way to sign in
+   */
+  async unlinkIdentity(userId: number, providerId: SocialProviderId): Promise<void> {
+    const user = await this.getUser(userId);
+    const identities = await this.listIdentities(userId);
+
+    if (!identities.some(identity => identity.provider === providerId)) {
+      throw new ValidationError(`${getProviderName(providerId)} is not connected to your account`);
+    }
+    if (!user.password_set && identities.length <= 1) {
+      throw new ValidationError('Set a password before disconnecting your only sign-in method');
+    }
+
+    await this.pool.query(
+      'DELETE FROM user_identities WHERE user_id = $1 AND provider = $2',
+      [userId, providerId]
+    );
+  }
+
+  private getProvider(providerId: SocialProviderId): OidcProvider {
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      throw new ValidationError('Unknown sign-in provider');
+    }
+    return provider;
+  }
+
+  private async getCredentials(providerId: SocialProviderId, region: Region): Promise<OidcClientCredentials> {
+    const settings = await this.regionSettingsService.getSettings(region, false, false);
+    const clientId = settings[`oidc_${providerId}_client_id`];
+    const clientSecret = settings[`oidc_${providerId}_client_secret`];
+
+    if (settings[`oidc_${providerId}_enabled`] !== true || !clientId || !clientSecret) {
+      throw new ValidationError(`Sign-in with ${getProviderName(providerId)} is not available`);
+    }
+
+    const apiUrl = process.env.API_URL || 'http://localhost:3001';
+    return {
+      clientId,
+      clientSecret,
+      redirectUri: `${apiUrl}/api/auth/oauth/${providerId}/callback`
+    };
+  }
+
+  private async getUser(userId: number): Promise<User> {
+    const result = await this.pool.query('SELECT * FROM users WHERE id = $1', [userId]);
+    if (result.rows.length === 0) {
+      throw new AuthenticationError('Not authenticated');
+    }
+    return result.rows[0];
+  }
+
+  private async insertIdentity(userId: number, providerId: SocialProviderId, profile: OidcProfile): Promise<void> {
+    try {
+      await this.pool.query(
+        `INSERT INTO user_identities (user_id, provider, subject, email, last_login_at)
+         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)`,
+        [userId, providerId, profile.subject, profile.email]
+      );
+    } catch (error: any) {
+      // UNIQUE(user_id, provider): one account per provider
+      if (error.code === '23505') {
+        throw new ConflictError(
+          `A different ${getProviderName(providerId)} account is already connected`,
+          ErrorCode.DUPLICATE_ENTRY
+        );
+      }
+      throw error;
+    }
+  }
+
+  private async touchIdentity(providerId: SocialProviderId, profile: OidcProfile): Promise<void> {
+    await this.pool.query(
+      `UPDATE user_identities SET last_login_at = CURRENT_TIMESTAMP, email = COALESCE($3, email)
+       WHERE provider = $1 AND subject = $2`,
+      [providerId, profile.subject, profile.email]
+    );
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * Stock Alert Service
+ * Raises low-stock and out-of-stock alerts from product and variation option thresholds
+ * and emails admins a daily digest per region. Products whose stock is tracked per
+ * variation option are alerted per option. Each alert carries a reorder suggestion from
+ * the sales velocity of the stock turnover report, the supplier lead time and stock
+ * already on open purchase orders.
+ */
+
+import { Pool } from 'pg';
+import { EmailService } from './EmailService';
+import { InventoryService } from './InventoryService';
+import { EmailTemplateEngine } from '../utils/EmailTemplateEngine';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import {
+  StockAlert,
+  StockAlertFilters,
+  StockAlertLevel,
+  StockAlertWithDetails
+} from '../types/inventory';
+
+// Same fallback the dashboards use when a product has no low stock amount
+const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+// Sales window for velocity, matching the turnover report's default period
+const VELOCITY_WINDOW_DAYS = 90;
+// Used when no purchase order links the item to a supplier with a lead time
+const DEFAULT_LEAD_TIME_DAYS = 14;
+// Days of sales a reorder should cover once it arrives
+const REORDER_COVER_DAYS = 30;
+
+interface StockAlertCandidate {
+  product_id: number;
+  variation_option_id: number | null;
+  region: 'us' | 'eu';
+  current_stock: number;
+  threshold: number;
+  lead_time_days: number | null;
+  incoming_quantity: number;
+}
+
+export class StockAlertService {
+  private emailService: EmailService;
+  private inventoryService: InventoryService;
+  private templateEngine = new EmailTemplateEngine();
+
+  constructor(private pool: Pool, emailService?: EmailService) {
+    if (emailService) {
+      this.emailService = emailService;
+    } else {
+      this.emailService = new EmailService(pool);
+      this.emailService.initialize();
+    }
+
+    this.inventoryService = new InventoryService(pool);
+  }
+
+  /**
+   * Daily job: refresh alerts, then email each region's open alerts
+   */
+  async runDailyCheck(): Promise<{ raised: number; resolved: number; emailed: number }> {
+    const { raised, resolved } = await this.evaluate();
+    const emailed = await this.sendDigests();
+    return { raised, resolved, emailed };
+  }
+
+  /**
+   * Compare current stock against thresholds and bring alerts up to date.
+   * New shortfalls open an alert; expired snoozes reopen; an acknowledged or snoozed
+   * low-stock alert reopens if the item runs out; items back above threshold resolve.
+   */
+  async evaluate(): Promise<{ raised: number; resolved: number }> {
+    const candidates = await this.getCandidates();
+    const velocities = await this.getVelocities();
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const activeResult = await client.query(
+        `SELECT * FROM stock_alerts WHERE status <> 'resolved' FOR UPDATE`
+      );
+      const active = new Map<string, StockAlert>(
+        activeResult.rows.map((alert: StockAlert) => [this.key(alert.product_id, alert.variation_option_id), alert])
+      );
+
+      let raised = 0;
+
+      for (const candidate of candidates) {
+        const key = this.key(candidate.product_id, candidate.variation_option_id);
+        const velocity = velocities.get(key) || 0;
+        const level: StockAlertLevel = candidate.current_stock <= 0 ? 'out_of_stock' : 'low_stock';
+        const suggested = this.suggestReorder(candidate, velocity);
+        const existing = active.get(key);
+
+        if (!existing) {
+          await client.query(
+            `INSERT INTO stock_alerts
+               (product_id, variation_option_id, region, level, current_stock, threshold,
+                daily_velocity, suggested_reorder, incoming_quantity)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+            [
+              candidate.product_id,
+              candidate.variation_option_id,
+              candidate.region,
+              level,
+              candidate.current_stock,
+              candidate.threshold,
+              velocity,
+              suggested,
+              candidate.incoming_quantity
+            ]
+          );
+          raised++;
+          continue;
+        }
+
+        active.delete(key);
+
+        const escalated = existing.level === 'low_stock' && level === 'out_of_stock';
+        const snoozeExpired = existing.status === 'snoozed' &&
+          (!existing.snoozed_until || new Date(existing.snoozed_until) <= new Date());
+        const reopen = snoozeExpired || (escalated && existing.status !== 'open');
+
+        await client.query(
+          `UPDATE stock_alerts
+           SET level = $2, current_stock = $3, threshold = $4, daily_velocity = $5,
+               suggested_reorder = $6, incoming_quantity = $7, region = $8,
+               last_detected_at = CURRENT_TIMESTAMP,
+               status = CASE WHEN $9::boolean THEN 'open' ELSE status END,
+               snoozed_until = CASE WHEN $9::boolean THEN NULL ELSE snoozed_until END
+           WHERE id = $1`,
+          [
+            existing.id,
+            level,
+            candidate.current_stock,
+            candidate.threshold,
+            velocity,
+            suggested,
+            candidate.incoming_quantity,
+            candidate.region,
+            reopen
+          ]
+        );
+      }
+
+      // Whatever is left is back above its threshold (or no longer sold)
+      const resolvedIds = Array.from(active.values()).map((alert) => alert.id);
+      if (resolvedIds.length > 0) {
+        await client.query(
+          `UPDATE stock_alerts
+           SET status = 'resolved', resolved_at = CURRENT_TIMESTAMP, snoozed_until = NULL
+           WHERE id = ANY($1)`,
+          [resolvedIds]
+        );
+      }
+
+      await client.query('COMMIT');
+
+      return { raised, resolved: resolvedIds.length };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Email one digest per region listing its open alerts, out of stock first
+   *
+   * @returns Number of digests sent
+   */
+  async sendDigests(): Promise<number> {
+    const alerts = await this.getAlerts({ status: 'open' });
+    let emailed = 0;
+
+    for (const region of ['us', 'eu'] as const) {
+      const regionAlerts = alerts.filter((alert) => alert.region === region);
+      if (regionAlerts.length === 0) {
+        continue;
+      }
+
+      try {
+        const outOfStock = regionAlerts.filter((alert) => alert.level === 'out_of_stock').length;
+
+        await this.emailService.triggerEvent(
+          'admin.stock_digest',
+          {
+            region: region.toUpperCase(),
+            digest_date: new Date().toLocaleDateString(),
+            alert_count: regionAlerts.length,
+            out_of_stock_count: outOfStock,
+            low_stock_count: regionAlerts.length - outOfStock,
+            alert_rows: regionAlerts.map((alert) => this.renderDigestRow(alert)).join('')
+          },
+          { adminEmail: 'info@simfab.com' },
+          region
+        );
+
+        await this.pool.query(
+          'UPDATE stock_alerts SET last_notified_at = CURRENT_TIMESTAMP WHERE id = ANY($1)',
+          [regionAlerts.map((alert) => alert.id)]
+        );
+        emailed++;
+      } catch (error) {
+        console.error(`Failed to send ${region} stock alert digest:`, error);
+      }
+    }
+
+    return emailed;
+  }
+
+  /**
+   * Alerts with product and option names, out of stock and fastest selling first.
+   * Defaults to every unresolved alert.
+   */
+  async getAlerts(filters: StockAlertFilters = {}): Promise<StockAlertWithDetails[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    const status = filters.status || 'active';
+    if (status === 'active') {
+      conditions.push(`sa.status <> 'resolved'`);
+    } else {
+      values.push(status);
+      conditions.push(`sa.status = $${values.length}`);
+    }
+
+    if (filters.region) {
+      values.push(filters.region);
+      conditions.push(`sa.region = $${values.length}`);
+    }
+
+    if (filters.level) {
+      values.push(filters.level);
+      conditions.push(`sa.level = $${values.length}`);
+    }
+
+    const result = await this.pool.query(
+      `SELECT sa.*, p.name AS product_name, p.sku, vo.option_name,
+              COALESCE(NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), ''), u.email) AS acknowledged_by_name
+       FROM stock_alerts sa
+       JOIN products p ON p.id = sa.product_id
+       LEFT JOIN variation_options vo ON vo.id = sa.variation_option_id
+       LEFT JOIN users u ON u.id = sa.acknowledged_by
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY (sa.level = 'out_of_stock') DESC, sa.daily_velocity DESC, sa.id
+       LIMIT 500`,
+      values
+    );
+
+    return result.rows.map((row) => ({ ...row, daily_velocity: parseFloat(row.daily_velocity) }));
+  }
+
+  /**
+   * Mark an alert as seen; it stays out of digests unless the item runs out of stock
+   */
+  async acknowledge(id: number, userId?: number): Promise<StockAlert> {
+    const result = await this.pool.query(
+      `UPDATE stock_alerts
+       SET status = 'acknowledged', acknowledged_by = $2, acknowledged_at = CURRENT_TIMESTAMP,
+           snoozed_until = NULL
+       WHERE id = $1 AND status <> 'resolved'
+       RETURNING *`,
+      [id, userId || null]
+    );
+
+    if (result.rows.length === 0) {
+      await this.assertUnresolved(id);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Leave an alert out of digests for a number of days
+   */
+  async snooze(id: number, days: number): Promise<StockAlert> {
+    if (!Number.isInteger(days) || days < 1) {
+      throw new ValidationError('Snooze length must be at least one day');
+    }
+
+    const result = await this.pool.query(
+      `UPDATE stock_alerts
+       SET status = 'snoozed', snoozed_until = CURRENT_TIMESTAMP + ($2::int * INTERVAL '1 day')
+       WHERE id = $1 AND status <> 'resolved'
+       RETURNING *`,
+      [id, days]
+    );
+
+    if (result.rows.length === 0) {
+      await this.assertUnresolved(id);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Active products and tracked variation options at or below their threshold, with
+   * stock on open purchase orders and the lead time of the supplier last ordered from
+   */
+  private async getCandidates(): Promise<StockAlertCandidate[]> {
+    const result = await this.pool.query(
+      `WITH levels AS (
+         SELECT p.id AS product_id, NULL::int AS variation_option_id,
+                COALESCE(p.region, 'us') AS region,
+                COALESCE(p.stock, 0) AS current_stock,
+                COALESCE(p.low_stock_amount, $1) AS threshold
+         FROM products p
+         WHERE p.status = 'active'
+           AND NOT EXISTS (
+             SELECT 1 FROM product_variations v WHERE v.product_id = p.id AND v.tracks_stock = true
+           )
+         UNION ALL
+         SELECT p.id, vo.id, COALESCE(p.region, 'us'), vo.stock_quantity,
+                COALESCE(vo.low_stock_threshold, p.low_stock_amount, $1)
+         FROM variation_options vo
+         JOIN product_variations v ON v.id = vo.variation_id AND v.tracks_stock = true
+         JOIN products p ON p.id = v.product_id
+         WHERE p.status = 'active' AND vo.stock_quantity IS NOT NULL
+       )
+       SELECT l.*,
+              COALESCE(incoming.quantity, 0)::int AS incoming_quantity,
+              supplier.lead_time_days
+       FROM levels l
+       LEFT JOIN LATERAL (
+         SELECT SUM(poi.quantity_ordered - poi.quantity_received) AS quantity
+         FROM purchase_order_items poi
+         JOIN purchase_orders po ON po.id = poi.purchase_order_id
+         WHERE po.status IN ('ordered', 'partially_received')
+           AND poi.product_id = l.product_id
+           AND poi.variation_option_id IS NOT DISTINCT FROM l.variation_option_id
+       ) incoming ON true
+       LEFT JOIN LATERAL (
+         SELECT s.lead_time_days
+         FROM purchase_order_items poi
+         JOIN purchase_orders po ON po.id = poi.purchase_order_id
+         JOIN suppliers s ON s.id = po.supplier_id
+         WHERE poi.product_id = l.product_id
+           AND poi.variation_option_id IS NOT DISTINCT FROM l.variation_option_id
+           AND po.status <> 'cancelled'
+         ORDER BY po.created_at DESC
+         LIMIT 1
+       ) supplier ON true
+       WHERE l.current_stock <= l.threshold`,
+      [DEFAULT_LOW_STOCK_THRESHOLD]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Units sold per day keyed by product or option. Products come from the stock
+   * turnover report; options use the same rate over the order lines that selected them.
+   */
+  private async getVelocities(): Promise<Map<string, number>> {
+    const velocities = new Map<string, number>();
+
+    const turnover = await this.inventoryService.getStockTurnover(VELOCITY_WINDOW_DAYS);
+    for (const row of turnover) {
+      velocities.set(this.key(row.id, null), Number(row.daily_velocity) || 0);
+    }
+
+    const options = await this.pool.query(
+      `SELECT oi.product_id, sel.value::int AS variation_option_id,
+              ROUND(
+                (SUM(oi.quantity)
+                  / GREATEST(EXTRACT(EPOCH FROM (CURRENT_DATE - MIN(o.created_at))) / 86400, 30))::numeric,
+                3
+              )::float AS daily_velocity
+       FROM order_items oi
+       JOIN orders o ON o.id = oi.order_id AND o.payment_status = 'paid'
+         AND o.created_at >= CURRENT_DATE - ($1::int * INTERVAL '1 day')
+       CROSS JOIN LATERAL jsonb_each_text(COALESCE(oi.selected_options->'variations', '{}'::jsonb)) sel
+       WHERE sel.value ~ '^[0-9]+$'
+       GROUP BY oi.product_id, sel.value`,
+      [VELOCITY_WINDOW_DAYS]
+    );
+    for (const row of options.rows) {
+      velocities.set(this.key(row.product_id, row.variation_option_id), Number(row.daily_velocity) || 0);
+    }
+
+    return velocities;
+  }
+
+  /**
+   * Enough to cover sales through the supplier lead time and the cover period and
+   * end above the threshold, less what is already on order. Negative stock is owed
+   * to backordered orders, so it adds to the suggestion.
+   */
+  private suggestReorder(candidate: StockAlertCandidate, velocity: number): number {
+    const leadTime = candidate.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS;
+    const demand = Math.ceil(velocity * (leadTime + REORDER_COVER_DAYS));
+    return Math.max(0, demand + candidate.threshold - candidate.current_stock - candidate.incoming_quantity);
+  }
+
+  private renderDigestRow(alert: StockAlertWithDetails): string {
+    const cell = 'padding: 8px; border-bottom: 1px solid #333333;';
+    const name = alert.option_name ? `${alert.product_name} – ${alert.option_name}` : alert.product_name;
+    const status = alert.level === 'out_of_stock'
+      ? '<span style="color: #c5303b; font-weight: 600;">Out of stock</span>'
+      : 'Low stock';
+
+    return `<tr>` +
+      `<td style="${cell}">${this.templateEngine.escapeHtml(name)}<br><span style="color: #888888; font-size: 12px;">${this.templateEngine.escapeHtml(alert.sku || '')}</span></td>` +
+      `<td style="${cell}">${status}</td>` +
+      `<td style="${cell} text-align: right;">${alert.current_stock} / ${alert.threshold ?? '-'}</td>` +
+      `<td style="${cell} text-align: right;">${alert.daily_velocity.toFixed(2)}</td>` +
+      `<td style="${cell} text-align: right;">${alert.incoming_quantity}</td>` +
+      `<td style="${cell} text-align: right;"><strong>${alert.suggested_reorder}</strong></td>` +
+      `</tr>`;
+  }
+
+  private async assertUnresolved(id: number): Promise<void> {
+    const result = await this.pool.query('SELECT status FROM stock_alerts WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Stock alert', { id });
+    }
+    throw new ValidationError('Stock alert is already resolved');
+  }
+
+  private key(productId: number, optionId: number | null): string {
+    return `${productId}:${optionId || 0}`;
+  }
+}
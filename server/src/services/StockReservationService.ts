@@ -1,12 +1,16 @@
 import { Pool } from 'pg';
 import { NotFoundError, ValidationError } from '../utils/errors';
 import { VariationStockService } from './VariationStockService';
+import { InventoryService } from './InventoryService';
+import { WarehouseService } from './WarehouseService';
 import { ProductConfiguration } from '../types/product';
+import { StockDestination } from '../types/warehouse';
 
 export interface StockReservation {
   id: number;
   order_id: number;
   product_id: number;
+  warehouse_id: number | null;
   quantity: number;
   status: 'pending' | 'confirmed' | 'cancelled' | 'expired';
   expires_at: Date;
@@ -15,15 +19,26 @@ export interface StockReservation {
 
 export class StockReservationService {
   private variationStockService: VariationStockService;
+  private inventoryService: InventoryService;
+  private warehouseService: WarehouseService;
 
   constructor(private pool: Pool) {
     this.variationStockService = new VariationStockService(pool);
+    this.inventoryService = new InventoryService(pool);
+    this.warehouseService = new WarehouseService(pool);
   }
 
   /**
-   * Reserve stock for an order
+   * Reserve stock for an order, one reservation per warehouse the stock is held at
+   * @param destination - Where the order ships; picks the warehouses the stock is held at
    */
-  async reserveStock(orderId: number, productId: number, quantity: number, transactionClient?: any): Promise<StockReservation> {
+  async reserveStock(
+    orderId: number,
+    productId: number,
+    quantity: number,
+    transactionClient?: any,
+    destination?: StockDestination
+  ): Promise<StockReservation[]> {
     const client = transactionClient || await this.pool.connect();
     const shouldManageTransaction = !transactionClient;
     
@@ -72,19 +87,25 @@ export class StockReservationService {
         });
       }
 
-      // Create reservation
+      const allocations = await this.warehouseService.allocateStock(client, { productId, quantity, destination });
+
+      // Create reservations
       const reservationSql = `
-        INSERT INTO stock_reservations (order_id, product_id, quantity, status, expires_at)
-        VALUES ($1, $2, $3, 'pending', NOW() + INTERVAL '30 minutes')
+        INSERT INTO stock_reservations (order_id, product_id, warehouse_id, quantity, status, expires_at)
+        VALUES ($1, $2, $3, $4, 'pending', NOW() + INTERVAL '30 minutes')
         RETURNING *
       `;
 
-      const result = await client.query(reservationSql, [orderId, productId, quantity]);
+      const reservations: StockReservation[] = [];
+      for (const allocation of allocations) {
+        const result = await client.query(reservationSql, [orderId, productId, allocation.warehouseId, allocation.quantity]);
+        reservations.push(result.rows[0]);
+      }
       
       if (shouldManageTransaction) {
         await client.query('COMMIT');
       }
-      return result.rows[0];
+      return reservations;
     } catch (error) {
       if (shouldManageTransaction) {
         await client.query('ROLLBACK');
@@ -121,9 +142,11 @@ export class StockReservationService {
 
       for (const reservation of reservations.rows) {
         // Deduct stock
-        await client.query(
-          'UPDATE products SET stock = stock - $1 WHERE id = $2',
-          [reservation.quantity, reservation.product_id]
+        await this.inventoryService.adjustProductStock(
+          reservation.product_id,
+          -reservation.quantity,
+          { reason: 'sale', sourceType: 'order', sourceId: orderId, warehouseId: reservation.warehouse_id },
+          client
         );
 
         // Mark reservation as confirmed
@@ -304,7 +327,8 @@ export class StockReservationService {
     orderId: number, 
     configuration: ProductConfiguration, 
     quantity: number,
-    client?: any
+    client?: any,
+    destination?: StockDestination
   ): Promise<void> {
     // Check if configuration has variation selections
     if (!configuration.variations || Object.keys(configuration.variations).length === 0) {
@@ -317,7 +341,8 @@ export class StockReservationService {
         Number(optionId),
         quantity,
         orderId,
-        client
+        client,
+        destination
       );
     }
   }
@@ -0,0 +1,295 @@
+/**
+ * Stock Transfer Service
+ * Inter-warehouse transfer documents. Shipping a transfer takes stock out of the
+ * source location, receiving puts it into the destination; both are ledger movements.
+ */
+
+import { Pool } from 'pg';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { InventoryService } from './InventoryService';
+import { InventoryMovementContext } from '../types/inventory';
+import { CreateStockTransferDto, StockTransfer, StockTransferStatus } from '../types/warehouse';
+
+export class StockTransferService {
+  private inventoryService: InventoryService;
+
+  constructor(private pool: Pool) {
+    this.inventoryService = new InventoryService(pool);
+  }
+
+  async getTransfers(status?: StockTransferStatus): Promise<StockTransfer[]> {
+    const result = await this.pool.query(
+      `SELECT t.*, wf.name AS from_warehouse_name, wt.name AS to_warehouse_name,
+              (SELECT COALESCE(SUM(quantity), 0)::int FROM stock_transfer_items WHERE transfer_id = t.id) AS total_quantity
+       FROM stock_transfers t
+       JOIN warehouses wf ON wf.id = t.from_warehouse_id
+       JOIN warehouses wt ON wt.id = t.to_warehouse_id
+       ${status ? 'WHERE t.status = $1' : ''}
+       ORDER BY t.created_at DESC
+       LIMIT 200`,
+      status ? [status] : []
+    );
+
+    return result.rows;
+  }
+
+  async getTransferById(id: number, client?: any): Promise<StockTransfer> {
+    const db = client || this.pool;
+
+    const result = await db.query(
+      `SELECT t.*, wf.name AS from_warehouse_name, wt.name AS to_warehouse_name
+       FROM stock_transfers t
+       JOIN warehouses wf ON wf.id = t.from_warehouse_id
+       JOIN warehouses wt ON wt.id = t.to_warehouse_id
+       WHERE t.id = $1`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Stock transfer', { id });
+    }
+
+    const items = await db.query(
+      `SELECT ti.*, p.name AS product_name, p.sku, vo.option_name
+       FROM stock_transfer_items ti
+       JOIN products p ON p.id = ti.product_id
+       LEFT JOIN variation_options vo ON vo.id = ti.variation_option_id
+       WHERE ti.transfer_id = $1
+       ORDER BY ti.id`,
+      [id]
+    );
+
+    return { ...result.rows[0], items: items.rows };
+  }
+
+  /**
+   * Create a draft transfer. Products are duplicated per region, so when the two
+   * locations are in different regions each line is matched to the paired product
+   * (same product_group_id) and option (same variation and option name) at the destination.
+   */
+  async createTransfer(data: CreateStockTransferDto, createdBy?: number): Promise<StockTransfer> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const warehouses = await client.query(
+        'SELECT id, region, is_active FROM warehouses WHERE id = ANY($1)',
+        [[data.fromWarehouseId, data.toWarehouseId]]
+      );
+      const from = warehouses.rows.find((w: any) => w.id === data.fromWarehouseId);
+      const to = warehouses.rows.find((w: any) => w.id === data.toWarehouseId);
+
+      if (!from || !to) {
+        throw new NotFoundError('Warehouse', { fromWarehouseId: data.fromWarehouseId, toWarehouseId: data.toWarehouseId });
+      }
+      if (!from.is_active || !to.is_active) {
+        throw new ValidationError('Transfers need two active warehouses');
+      }
+
+      const transfer = await client.query(
+        `INSERT INTO stock_transfers (from_warehouse_id, to_warehouse_id, notes, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [data.fromWarehouseId, data.toWarehouseId, data.notes || null, createdBy || null]
+      );
+      const transferId = transfer.rows[0].id;
+
+      for (const item of data.items) {
+        const destination = from.region === to.region
+          ? { productId: item.productId, optionId: item.variationOptionId ?? null }
+          : await this.findPairedSku(client, item.productId, item.variationOptionId ?? null, to.region);
+
+        await client.query(
+          `INSERT INTO stock_transfer_items
+           (transfer_id, product_id, variation_option_id, destination_product_id, destination_variation_option_id, quantity)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [transferId, item.productId, item.variationOptionId ?? null, destination.productId, destination.optionId, item.quantity]
+        );
+      }
+
+      await client.query('COMMIT');
+      return this.getTransferById(transferId);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Ship a draft transfer: take the stock out of the source location
+   */
+  async shipTransfer(id: number, actorId?: number): Promise<StockTransfer> {
+    return this.changeStatus(id, 'draft', 'in_transit', async (client, transfer) => {
+      for (const item of transfer.items || []) {
+        const stock = await client.query(
+          `SELECT quantity FROM warehouse_stock
+           WHERE warehouse_id = $1 AND product_id = $2 AND variation_option_id IS NOT DISTINCT FROM $3`,
+          [transfer.from_warehouse_id, item.product_id, item.variation_option_id]
+        );
+        const onHand = stock.rows[0]?.quantity ?? 0;
+
+        if (onHand < item.quantity) {
+          throw new ValidationError(`Only ${onHand} of ${item.sku || item.product_name} at the source warehouse`, {
+            productId: item.product_id,
+            variationOptionId: item.variation_option_id,
+            available: onHand,
+            requested: item.quantity
+          });
+        }
+
+        await this.moveStock(item.product_id, item.variation_option_id, -item.quantity, {
+          ...this.movementContext(transfer, actorId),
+          warehouseId: transfer.from_warehouse_id
+        }, client);
+      }
+
+      await client.query('UPDATE stock_transfers SET shipped_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+    });
+  }
+
+  /**
+   * Receive an in-transit transfer: put the stock into the destination location
+   */
+  async receiveTransfer(id: number, actorId?: number): Promise<StockTransfer> {
+    return this.changeStatus(id, 'in_transit', 'received', async (client, transfer) => {
+      for (const item of transfer.items || []) {
+        await this.moveStock(item.destination_product_id, item.destination_variation_option_id, item.quantity, {
+          ...this.movementContext(transfer, actorId),
+          warehouseId: transfer.to_warehouse_id
+        }, client);
+      }
+
+      await client.query('UPDATE stock_transfers SET received_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+    });
+  }
+
+  /**
+   * Cancel a transfer. Stock already shipped goes back to the source location.
+   */
+  async cancelTransfer(id: number, actorId?: number): Promise<StockTransfer> {
+    const transfer = await this.getTransferById(id);
+
+    return this.changeStatus(id, transfer.status === 'in_transit' ? 'in_transit' : 'draft', 'cancelled', async (client, locked) => {
+      if (locked.status === 'in_transit') {
+        for (const item of locked.items || []) {
+          await this.moveStock(item.product_id, item.variation_option_id, item.quantity, {
+            ...this.movementContext(locked, actorId),
+            note: `Cancelled transfer ${locked.transfer_number}`,
+            warehouseId: locked.from_warehouse_id
+          }, client);
+        }
+      }
+
+      await client.query('UPDATE stock_transfers SET cancelled_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+    });
+  }
+
+  private async changeStatus(
+    id: number,
+    expected: StockTransferStatus,
+    next: StockTransferStatus,
+    work: (client: any, transfer: StockTransfer) => Promise<void>
+  ): Promise<StockTransfer> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const locked = await client.query('SELECT status FROM stock_transfers WHERE id = $1 FOR UPDATE', [id]);
+      if (locked.rows.length === 0) {
+        throw new NotFoundError('Stock transfer', { id });
+      }
+      if (locked.rows[0].status !== expected) {
+        throw new ValidationError(`Transfer is ${locked.rows[0].status}, expected ${expected}`, {
+          status: locked.rows[0].status
+        });
+      }
+
+      const transfer = await this.getTransferById(id, client);
+      await work(client, transfer);
+      await client.query('UPDATE stock_transfers SET status = $1 WHERE id = $2', [next, id]);
+
+      await client.query('COMMIT');
+      return this.getTransferById(id);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private movementContext(transfer: StockTransfer, actorId?: number): InventoryMovementContext {
+    return {
+      reason: 'transfer',
+      note: `Transfer ${transfer.transfer_number}`,
+      actorType: actorId ? 'admin' : 'system',
+      actorId: actorId || null,
+      sourceType: 'stock_transfer',
+      sourceId: transfer.id
+    };
+  }
+
+  private async moveStock(
+    productId: number,
+    optionId: number | null,
+    delta: number,
+    context: InventoryMovementContext,
+    client: any
+  ): Promise<void> {
+    if (optionId) {
+      await this.inventoryService.adjustOptionStock(optionId, delta, context, client);
+    } else {
+      await this.inventoryService.adjustProductStock(productId, delta, context, client);
+    }
+  }
+
+  private async findPairedSku(
+    client: any,
+    productId: number,
+    optionId: number | null,
+    region: string
+  ): Promise<{ productId: number; optionId: number | null }> {
+    const product = await client.query(
+      `SELECT paired.id
+       FROM products p
+       JOIN products paired ON paired.product_group_id = p.product_group_id
+         AND paired.region = $2 AND paired.id <> p.id AND paired.deleted_at IS NULL
+       WHERE p.id = $1 AND p.product_group_id IS NOT NULL`,
+      [productId, region]
+    );
+
+    if (product.rows.length === 0) {
+      throw new ValidationError(`Product ${productId} has no linked ${region.toUpperCase()} product to receive the stock`, {
+        productId
+      });
+    }
+
+    const pairedProductId = product.rows[0].id;
+    if (!optionId) {
+      return { productId: pairedProductId, optionId: null };
+    }
+
+    const option = await client.query(
+      `SELECT paired_vo.id
+       FROM variation_options vo
+       JOIN product_variations v ON v.id = vo.variation_id
+       JOIN product_variations paired_v ON paired_v.product_id = $2 AND paired_v.name = v.name
+       JOIN variation_options paired_vo ON paired_vo.variation_id = paired_v.id AND paired_vo.option_name = vo.option_name
+       WHERE vo.id = $1
+       LIMIT 1`,
+      [optionId, pairedProductId]
+    );
+
+    if (option.rows.length === 0) {
+      throw new ValidationError(`Variation option ${optionId} has no matching option on the linked ${region.toUpperCase()} product`, {
+        variationOptionId: optionId
+      });
+    }
+
+    return { productId: pairedProductId, optionId: option.rows[0].id };
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * Tax Service
+ * Rule-based tax engine shared by cart totals, order creation and PayPal.
+ * Rules are matched per destination (country, state, postal prefix) and product tax class;
+ * EU regions price tax-inclusive, so VAT is extracted from gross prices instead of added.
+ */
+
+import { Pool } from 'pg';
+import { RegionSettingsService } from './RegionSettingsService';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
+import { getStateCode } from '../utils/addressRules';
+import {
+  TaxRule,
+  CreateTaxRuleDto,
+  UpdateTaxRuleDto,
+  TaxRuleFilters,
+  TaxAddress,
+  TaxableLine,
+  TaxCalculation,
+  TaxCalculationInput,
+  TaxLineResult
+} from '../types/tax';
+
+const DEFAULT_TAX_CLASS = 'standard';
+
+const TAX_RULE_FIELDS: Array<keyof CreateTaxRuleDto> = [
+  'name',
+  'country',
+  'state_code',
+  'postal_prefix',
+  'tax_class',
+  'rate',
+  'tax_shipping',
+  'priority',
+  'is_active'
+];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const normalizePostalCode = (value?: string | null): string =>
+  (value || '').toUpperCase().replace(/[\s-]/g, '');
+
+export class TaxService {
+  private regionSettingsService: RegionSettingsService;
+
+  constructor(private pool: Pool) {
+    this.regionSettingsService = new RegionSettingsService(pool);
+  }
+
+  // ============================================================================
+  // CALCULATION
+  // ============================================================================
+
+  /**
+   * Calculate tax for a set of lines shipped to an address.
+   * The order discount is spread over lines in proportion to their price, and
+   * each line is taxed at the most specific rule for its tax class.
+   */
+  async calculateTax(input: TaxCalculationInput): Promise<TaxCalculation> {
+    const pricesIncludeTax = await this.pricesIncludeTax(input.region);
+    const rules = input.address?.country ? await this.getRulesForCountry(input.address.country) : [];
+
+    const stateCode = input.address ? getStateCode(input.address.country, input.address.state) : null;
+    const postalCode = normalizePostalCode(input.address?.postalCode);
+    const discounts = this.allocateDiscount(input.lines, input.discount);
+
+    const lines: TaxLineResult[] = input.lines.map((line, index) => {
+      const taxClass = line.taxClass || DEFAULT_TAX_CLASS;
+      const taxableAmount = Math.max(0, round2(line.lineTotal - discounts[index]));
+      const rule = this.isTaxable(line) ? this.matchRule(rules, taxClass, stateCode, postalCode) : null;
+      const rate = rule ? Number(rule.rate) : 0;
+
+      return {
+        reference: line.reference,
+        tax_class: taxClass,
+        taxable_amount: taxableAmount,
+        tax_rate: rate,
+        tax_amount: this.taxOn(taxableAmount, rate, pricesIncludeTax),
+        tax_rule_id: rule ? rule.id : null,
+        tax_label: rule ? rule.name : null
+      };
+    });
+
+    // Shipping is taxed at the standard rate where the jurisdiction taxes it
+    const shippingRule = this.matchRule(rules, DEFAULT_TAX_CLASS, stateCode, postalCode);
+    const shippingRate = shippingRule && shippingRule.tax_shipping ? Number(shippingRule.rate) : 0;
+    const shippingTax = this.taxOn(Math.max(0, input.shipping), shippingRate, pricesIncludeTax);
+
+    const itemsTax = round2(lines.reduce((sum, line) => sum + line.tax_amount, 0));
+
+    return {
+      lines,
+      items_tax: itemsTax,
+      shipping_tax: shippingTax,
+      shipping_tax_rate: shippingRate,
+      total_tax: round2(itemsTax + shippingTax),
+      prices_include_tax: pricesIncludeTax
+    };
+  }
+
+  /**
+   * Map cart or order items to taxable lines
+   */
+  toTaxableLines(items: Array<{ id: number; total_price: number | string; tax_class?: string | null; tax_status?: string | null }>): TaxableLine[] {
+    return items.map(item => ({
+      reference: item.id,
+      lineTotal: parseFloat(item.total_price.toString()) || 0,
+      taxClass: item.tax_class,
+      taxStatus: item.tax_status
+    }));
+  }
+
+  /**
+   * Whether the region's catalog prices already include tax
+   */
+  async pricesIncludeTax(region: 'us' | 'eu'): Promise<boolean> {
+    const settings = await this.regionSettingsService.getSettings(region);
+    return settings.prices_include_tax === true;
+  }
+
+  private taxOn(amount: number, rate: number, pricesIncludeTax: boolean): number {
+    if (rate <= 0 || amount <= 0) {
+      return 0;
+    }
+
+    return pricesIncludeTax
+      ? round2(amount - amount / (1 + rate))
+      : round2(amount * rate);
+  }
+
+  /**
+   * Products marked tax_status 'none' (or WooCommerce's 'shipping'-only) carry no item tax
+   */
+  private isTaxable(line: TaxableLine): boolean {
+    return !line.taxStatus || line.taxStatus === 'taxable';
+  }
+
+  /**
+   * Split the discount across lines by price, putting rounding remainder on the last line
+   */
+  private allocateDiscount(lines: TaxableLine[], discount: number): number[] {
+    const total = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+
+    if (discount <= 0 || total <= 0) {
+      return lines.map(() => 0);
+    }
+
+    const capped = Math.min(discount, total);
+    let allocated = 0;
+
+    return lines.map((line, index) => {
+      if (index === lines.length - 1) {
+        return round2(capped - allocated);
+      }
+      const share = round2(capped * (line.lineTotal / total));
+      allocated += share;
+      return share;
+    });
+  }
+
+  /**
+   * Pick the most specific rule: longest postal prefix, then state, then priority
+   */
+  private matchRule(rules: TaxRule[], taxClass: string, stateCode: string | null, postalCode: string): TaxRule | null {
+    const candidates = rules.filter(rule =>
+      rule.tax_class === taxClass &&
+      (!rule.state_code || rule.state_code === stateCode) &&
+      (!rule.postal_prefix || postalCode.startsWith(normalizePostalCode(rule.postal_prefix)))
+    );
+
+    candidates.sort((a, b) =>
+      normalizePostalCode(b.postal_prefix).length - normalizePostalCode(a.postal_prefix).length ||
+      Number(!!b.state_code) - Number(!!a.state_code) ||
+      b.priority - a.priority
+    );
+
+    return candidates[0] || null;
+  }
+
+  private async getRulesForCountry(country: string): Promise<TaxRule[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM tax_rules WHERE country = $1 AND is_active = true',
+      [country.toUpperCase()]
+    );
+
+    return result.rows;
+  }
+
+  // ============================================================================
+  // RULE MANAGEMENT
+  // ============================================================================
+
+  /**
+   * List tax rules ordered by jurisdiction
+   */
+  async listRules(filters: TaxRuleFilters = {}): Promise<TaxRule[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.country) {
+      params.push(filters.country.toUpperCase());
+      conditions.push(`country = $${params.length}`);
+    }
+    if (filters.tax_class) {
+      params.push(filters.tax_class);
+      conditions.push(`tax_class = $${params.length}`);
+    }
+    if (filters.is_active !== undefined) {
+      params.push(filters.is_active);
+      conditions.push(`is_active = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await this.pool.query(
+      `SELECT * FROM tax_rules ${where}
+       ORDER BY country, state_code NULLS FIRST, postal_prefix NULLS FIRST, tax_class`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  async getRule(id: number): Promise<TaxRule> {
+    const result = await this.pool.query('SELECT * FROM tax_rules WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Tax rule', { id });
+    }
+
+    return result.rows[0];
+  }
+
+  async createRule(data: CreateTaxRuleDto): Promise<TaxRule> {
+    const rule = this.normalizeRule(data) as CreateTaxRuleDto;
+
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO tax_rules (name, country, state_code, postal_prefix, tax_class, rate, tax_shipping, priority, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          rule.name,
+          rule.country,
+          rule.state_code || null,
+          rule.postal_prefix || null,
+          rule.tax_class || DEFAULT_TAX_CLASS,
+          rule.rate,
+          rule.tax_shipping ?? false,
+          rule.priority ?? 0,
+          rule.is_active ?? true
+        ]
+      );
+
+      return result.rows[0];
+    } catch (error: any) {
+      throw this.mapUniqueViolation(error, rule);
+    }
+  }
+
+  async updateRule(id: number, data: UpdateTaxRuleDto): Promise<TaxRule> {
+    const current = await this.getRule(id);
+    const rule = this.normalizeRule(data, current.country);
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    for (const field of TAX_RULE_FIELDS) {
+      if (rule[field] !== undefined) {
+        updates.push(`${field} = $${paramIndex++}`);
+        values.push(rule[field] === '' ? null : rule[field]);
+      }
+    }
+
+    if (updates.length === 0) {
+      return current;
+    }
+
+    values.push(id);
+
+    try {
+      const result = await this.pool.query(
+        `UPDATE tax_rules SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${paramIndex}
+         RETURNING *`,
+        values
+      );
+
+      return result.rows[0];
+    } catch (error: any) {
+      throw this.mapUniqueViolation(error, { ...current, ...rule });
+    }
+  }
+
+  async deleteRule(id: number): Promise<void> {
+    const result = await this.pool.query('DELETE FROM tax_rules WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Tax rule', { id });
+    }
+  }
+
+  /**
+   * Upper-case codes and check the state code exists for the country
+   */
+  private normalizeRule<T extends UpdateTaxRuleDto>(data: T, currentCountry?: string): T {
+    const rule = { ...data };
+
+    if (rule.country) {
+      rule.country = rule.country.toUpperCase();
+    }
+    if (rule.state_code) {
+      const country = rule.country || currentCountry || '';
+      const code = getStateCode(country, rule.state_code);
+      if (!code) {
+        throw new ValidationError(`State "${rule.state_code}" is not valid for country ${country}`, {
+          country,
+          state_code: rule.state_code
+        });
+      }
+      rule.state_code = code;
+    }
+    if (rule.postal_prefix) {
+      rule.postal_prefix = normalizePostalCode(rule.postal_prefix);
+    }
+
+    return rule;
+  }
+
+  private mapUniqueViolation(error: any, rule: UpdateTaxRuleDto): Error {
+    if (error.code === '23505') {
+      return new ConflictError('A tax rule already exists for this jurisdiction and tax class', 'DUPLICATE_ENTRY', {
+        country: rule.country,
+        state_code: rule.state_code || null,
+        postal_prefix: rule.postal_prefix || null,
+        tax_class: rule.tax_class || DEFAULT_TAX_CLASS
+      });
+    }
+    return error;
+  }
+}
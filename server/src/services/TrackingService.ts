@@ -0,0 +1,412 @@
+/**
+ * Tracking Service
+ * Polls carrier tracking for active shipments, stores their scan events, moves orders
+ * to shipped / out for delivery / delivered, and builds the customer-facing timeline.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { EmailService } from './EmailService';
+import { OrderStatusService } from './OrderStatusService';
+import { FedExService } from './FedExService';
+import { CarrierTracker, FedExCarrierTracker } from './CarrierTracker';
+import { NotFoundError } from '../utils/errors';
+import { OrderStatus } from '../types/cart';
+import {
+  CarrierTrackingUpdate,
+  OrderTrackingTimeline,
+  ShipmentStatus,
+  ShipmentTimeline,
+  TrackingSyncResult
+} from '../types/shipping';
+
+// Shipment statuses the sync keeps polling
+const ACTIVE_SHIPMENT_STATUSES: ShipmentStatus[] = ['label_created', 'picked_up', 'in_transit', 'out_for_delivery', 'failed'];
+
+// Order shipping statuses in lifecycle order; the sync only ever moves an order forward
+const SHIPPING_STATUS_ORDER = ['pending', 'processing', 'shipped', 'in_transit', 'out_for_delivery', 'delivered'];
+
+export interface RecordShipmentInput {
+  carrier: string;
+  trackingNumber: string;
+  serviceCode?: string | null;
+  trackingUrl?: string | null;
+  shippedAt?: string | Date | null;
+}
+
+/**
+ * Carrier name as stored on shipments; ShipStation reports carrier codes such as "fedex"
+ */
+export const normalizeCarrier = (carrier: string): string =>
+  carrier.toLowerCase().startsWith('fedex') ? 'FedEx' : carrier;
+
+export class TrackingService {
+  private emailService: EmailService;
+  private trackers: Map<string, CarrierTracker>;
+  private orderStatusService: OrderStatusService;
+
+  constructor(private pool: Pool, emailService?: EmailService, trackers?: CarrierTracker[]) {
+    if (emailService) {
+      this.emailService = emailService;
+    } else {
+      this.emailService = new EmailService(pool);
+      this.emailService.initialize();
+    }
+
+    this.orderStatusService = new OrderStatusService(pool, this.emailService);
+
+    const carrierTrackers = trackers || [new FedExCarrierTracker(new FedExService(pool))];
+    this.trackers = new Map(carrierTrackers.map(tracker => [tracker.carrier, tracker]));
+  }
+
+  // ============================================================================
+  // SHIPMENTS
+  // ============================================================================
+
+  /**
+   * Record a shipment reported by another system (e.g. ShipStation) so it is tracked too
+   */
+  async recordShipment(orderId: number, input: RecordShipmentInput): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO shipments (order_id, carrier, service_code, tracking_number, tracking_url, status, shipped_at)
+       VALUES ($1, $2, $3, $4, $5, 'label_created', $6)
+       ON CONFLICT (tracking_number) DO NOTHING`,
+      [
+        orderId,
+        normalizeCarrier(input.carrier),
+        input.serviceCode || null,
+        input.trackingNumber,
+        input.trackingUrl || null,
+        input.shippedAt || null
+      ]
+    );
+  }
+
+  // ============================================================================
+  // SYNC
+  // ============================================================================
+
+  /**
+   * Poll carriers for the active shipments tracked longest ago
+   */
+  async syncActiveShipments(limit: number = 200): Promise<TrackingSyncResult> {
+    const result: TrackingSyncResult = { checked: 0, updated: 0, delivered_orders: 0, errors: 0 };
+
+    const shipments = await this.pool.query(
+      `SELECT id, order_id, carrier, tracking_number, status
+       FROM shipments
+       WHERE status = ANY($1::text[]) AND carrier = ANY($2::text[])
+       ORDER BY last_tracked_at NULLS FIRST, id
+       LIMIT $3`,
+      [ACTIVE_SHIPMENT_STATUSES, Array.from(this.trackers.keys()), limit]
+    );
+
+    const byCarrier = new Map<string, any[]>();
+    for (const row of shipments.rows) {
+      byCarrier.set(row.carrier, [...(byCarrier.get(row.carrier) || []), row]);
+    }
+
+    const changedOrders = new Set<number>();
+
+    for (const [carrier, rows] of byCarrier) {
+      const tracker = this.trackers.get(carrier) as CarrierTracker;
+
+      for (let i = 0; i < rows.length; i += tracker.batchSize) {
+        const batch = rows.slice(i, i + tracker.batchSize);
+        result.checked += batch.length;
+
+        let updates: CarrierTrackingUpdate[];
+        try {
+          updates = await tracker.track(batch.map(row => row.tracking_number));
+        } catch (error) {
+          console.error(`❌ ${carrier} tracking failed for ${batch.length} shipments:`, error);
+          result.errors += batch.length;
+          continue;
+        }
+
+        const updatesByNumber = new Map(updates.map(update => [update.trackingNumber, update]));
+
+        for (const shipment of batch) {
+          try {
+            const update = updatesByNumber.get(shipment.tracking_number);
+            const changed = await this.applyUpdate(shipment.id, update);
+            if (changed) {
+              result.updated++;
+              changedOrders.add(shipment.order_id);
+            }
+          } catch (error) {
+            console.error(`❌ Failed to store tracking for shipment ${shipment.id}:`, error);
+            result.errors++;
+          }
+        }
+      }
+    }
+
+    for (const orderId of changedOrders) {
+      try {
+        const shippingStatus = await this.reconcileOrder(orderId);
+        if (shippingStatus === 'delivered') {
+          result.delivered_orders++;
+        }
+      } catch (error) {
+        console.error(`❌ Failed to update order ${orderId} from tracking:`, error);
+        result.errors++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Store a carrier update on a shipment; returns whether its status changed
+   */
+  private async applyUpdate(shipmentId: number, update?: CarrierTrackingUpdate): Promise<boolean> {
+    if (!update) {
+      await this.pool.query('UPDATE shipments SET last_tracked_at = CURRENT_TIMESTAMP WHERE id = $1', [shipmentId]);
+      return false;
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query('SELECT status FROM shipments WHERE id = $1 FOR UPDATE', [shipmentId]);
+      const previousStatus = current.rows[0]?.status;
+
+      for (const event of update.events) {
+        await client.query(
+          `INSERT INTO shipment_tracking_events (shipment_id, status, description, location, timestamp)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (shipment_id, timestamp, status) DO NOTHING`,
+          [shipmentId, event.status, event.description || null, event.location, event.timestamp]
+        );
+      }
+
+      const firstScan = update.events
+        .filter(event => event.status !== 'label_created')
+        .reduce<Date | null>((earliest, event) => !earliest || event.timestamp < earliest ? event.timestamp : earliest, null);
+
+      await client.query(
+        `UPDATE shipments
+         SET status = $1,
+             status_description = $2,
+             estimated_delivery = COALESCE($3, estimated_delivery),
+             actual_delivery = COALESCE($4, actual_delivery),
+             shipped_at = COALESCE(shipped_at, $5),
+             last_tracked_at = CURRENT_TIMESTAMP
+         WHERE id = $6`,
+        [
+          update.status,
+          update.statusDescription ? update.statusDescription.slice(0, 255) : null,
+          update.estimatedDelivery,
+          update.status === 'delivered' ? update.deliveredAt || new Date() : null,
+          firstScan,
+          shipmentId
+        ]
+      );
+
+      await client.query('COMMIT');
+      return previousStatus !== update.status;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Move the order's shipping status forward from its shipments, marking it delivered once
+   * every parcel is delivered, and send the out for delivery / delivered emails
+   */
+  private async reconcileOrder(orderId: number): Promise<string | null> {
+    const client = await this.pool.connect();
+    let order: any;
+    let nextShippingStatus: string | null = null;
+
+    try {
+      await client.query('BEGIN');
+
+      const orderResult = await client.query('SELECT * FROM orders WHERE id = $1 FOR UPDATE', [orderId]);
+      order = orderResult.rows[0];
+      if (!order) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      nextShippingStatus = await this.getShippingStatusFromShipments(client, orderId);
+
+      const currentRank = SHIPPING_STATUS_ORDER.indexOf(order.shipping_status);
+      const nextRank = nextShippingStatus ? SHIPPING_STATUS_ORDER.indexOf(nextShippingStatus) : -1;
+
+      if (!nextShippingStatus || order.shipping_status === 'returned' || nextRank <= currentRank) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query(
+        `UPDATE orders
+         SET shipping_status = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [nextShippingStatus, orderId]
+      );
+
+      // Processing orders become shipped once a parcel moves, and delivered once every parcel arrived
+      const transitions: OrderStatus[] = [];
+      if (order.status === OrderStatus.PROCESSING) {
+        transitions.push(OrderStatus.SHIPPED);
+      }
+      if (nextShippingStatus === 'delivered' && [OrderStatus.PROCESSING, OrderStatus.SHIPPED].includes(order.status)) {
+        transitions.push(OrderStatus.DELIVERED);
+      }
+
+      const reason = `Carrier tracking: ${nextShippingStatus.replace(/_/g, ' ')}`;
+
+      // The tracking emails below stand in for the status emails
+      for (const status of transitions) {
+        await this.orderStatusService.transition(
+          orderId,
+          status,
+          { actorType: 'carrier', reason, notifyCustomer: false },
+          client
+        );
+      }
+
+      if (transitions.length === 0) {
+        await client.query(
+          `INSERT INTO order_status_history (order_id, status, comment, actor_type)
+           VALUES ($1, $2, $3, 'carrier')`,
+          [orderId, order.status, reason]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (nextShippingStatus === 'out_for_delivery' || nextShippingStatus === 'delivered') {
+      await this.sendTrackingEmail(order, nextShippingStatus);
+    }
+
+    return nextShippingStatus;
+  }
+
+  private async getShippingStatusFromShipments(client: PoolClient, orderId: number): Promise<string | null> {
+    const result = await client.query(
+      `SELECT status FROM shipments WHERE order_id = $1 AND status <> 'voided'`,
+      [orderId]
+    );
+    const statuses: ShipmentStatus[] = result.rows.map(row => row.status);
+
+    if (statuses.length === 0) {
+      return null;
+    }
+    if (statuses.every(status => status === 'delivered')) {
+      return 'delivered';
+    }
+    if (statuses.includes('out_for_delivery')) {
+      return 'out_for_delivery';
+    }
+    if (statuses.some(status => ['picked_up', 'in_transit', 'delivered'].includes(status))) {
+      return 'in_transit';
+    }
+    return null;
+  }
+
+  private async sendTrackingEmail(order: any, shippingStatus: 'out_for_delivery' | 'delivered'): Promise<void> {
+    try {
+      const shipment = await this.pool.query(
+        `SELECT carrier, tracking_number, tracking_url, actual_delivery
+         FROM shipments
+         WHERE order_id = $1 AND status <> 'voided'
+         ORDER BY actual_delivery DESC NULLS LAST, id
+         LIMIT 1`,
+        [order.id]
+      );
+      const latest = shipment.rows[0] || {};
+
+      const billingAddress = typeof order.billing_address === 'string'
+        ? JSON.parse(order.billing_address)
+        : order.billing_address;
+      const customerName = billingAddress?.firstName && billingAddress?.lastName
+        ? `${billingAddress.firstName} ${billingAddress.lastName}`
+        : order.customer_email;
+      const orderRegion = (order.region || 'us') as 'us' | 'eu';
+
+      await this.emailService.triggerEvent(
+        shippingStatus === 'delivered' ? 'order.delivered' : 'order.out_for_delivery',
+        {
+          order_number: order.order_number,
+          customer_name: customerName,
+          customer_email: order.customer_email,
+          carrier: latest.carrier || order.carrier || '',
+          tracking_number: order.tracking_number || latest.tracking_number || '',
+          tracking_url: order.tracking_url || latest.tracking_url || '',
+          delivered_at: latest.actual_delivery ? new Date(latest.actual_delivery).toLocaleDateString() : ''
+        },
+        {
+          customerEmail: order.customer_email,
+          customerName,
+          adminEmail: 'info@simfab.com'
+        },
+        orderRegion
+      );
+    } catch (error) {
+      console.error(`Failed to send ${shippingStatus} email for order ${order.order_number}:`, error);
+    }
+  }
+
+  // ============================================================================
+  // TIMELINE
+  // ============================================================================
+
+  /**
+   * Shipments and tracking events of an order, newest event first
+   */
+  async getOrderTimeline(orderNumber: string): Promise<OrderTrackingTimeline> {
+    const orderResult = await this.pool.query(
+      'SELECT id, order_number, status, shipping_status FROM orders WHERE order_number = $1',
+      [orderNumber]
+    );
+
+    if (orderResult.rows.length === 0) {
+      throw new NotFoundError('Order', { orderNumber });
+    }
+
+    const order = orderResult.rows[0];
+
+    const [shipments, events] = await Promise.all([
+      this.pool.query(
+        `SELECT id, carrier, service_code, tracking_number, tracking_url, status,
+                estimated_delivery, actual_delivery, shipped_at
+         FROM shipments
+         WHERE order_id = $1 AND status <> 'voided'
+         ORDER BY created_at, id`,
+        [order.id]
+      ),
+      this.pool.query(
+        `SELECT e.id, e.shipment_id, e.status, e.description, e.location, e.timestamp
+         FROM shipment_tracking_events e
+         JOIN shipments s ON s.id = e.shipment_id
+         WHERE s.order_id = $1 AND s.status <> 'voided'
+         ORDER BY e.timestamp DESC, e.id DESC`,
+        [order.id]
+      )
+    ]);
+
+    const timelines: ShipmentTimeline[] = shipments.rows.map(shipment => ({
+      ...shipment,
+      events: events.rows.filter(event => event.shipment_id === shipment.id)
+    }));
+
+    return {
+      order_number: order.order_number,
+      status: order.status,
+      shipping_status: order.shipping_status,
+      shipments: timelines
+    };
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * Two-Factor Service
+ * TOTP (RFC 6238) authenticator enrolment and verification, one-time recovery codes,
+ * and the per-user 2FA policy derived from the RBAC model
+ */
+
+import { Pool } from 'pg';
+import crypto from 'crypto';
+import { QRCodeService } from './QRCodeService';
+import { ConflictError, ValidationError } from '../utils/errors';
+import { TwoFactorEnrolment, TwoFactorPolicy, TwoFactorStatus } from '../types/twoFactor';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Accept the previous and next step to allow for clock drift
+const DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+// No 0/O or 1/I so codes survive being read aloud or written down
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export class TwoFactorService {
+  private qrCodeService: QRCodeService;
+  private issuer: string;
+  private encryptionKey: Buffer;
+
+  constructor(private pool: Pool) {
+    this.qrCodeService = new QRCodeService();
+    this.issuer = process.env.TWO_FACTOR_ISSUER || 'SimFab';
+    this.encryptionKey = crypto
+      .createHash('sha256')
+      .update(process.env.TWO_FACTOR_SECRET_KEY || process.env.SESSION_SECRET || 'your-secret-key-change-in-production')
+      .digest();
+  }
+
+  /**
+   * Whether the user has 2FA, whether one of their roles requires it, and which of their
+   * authorities require step-up
+   */
+  async getPolicy(userId: number): Promise<TwoFactorPolicy> {
+    const result = await this.pool.query(
+      `SELECT
+         EXISTS (
+           SELECT 1 FROM user_two_factor WHERE user_id = $1 AND enabled_at IS NOT NULL
+         ) AS enabled,
+         EXISTS (
+           SELECT 1 FROM user_roles ur
+           JOIN roles r ON r.id = ur.role_id
+           WHERE ur.user_id = $1 AND r.requires_two_factor
+         ) AS required,
+         COALESCE((
+           SELECT ARRAY_AGG(DISTINCT a.resource || ':' || a.action)
+           FROM authorities a
+           JOIN role_authorities ra ON ra.authority_id = a.id
+           JOIN user_roles ur ON ur.role_id = ra.role_id
+           WHERE ur.user_id = $1 AND a.requires_step_up
+         ), '{}') AS step_up_authorities`,
+      [userId]
+    );
+
+    const row = result.rows[0];
+    return {
+      enabled: row.enabled,
+      required: row.required,
+      stepUpAuthorities: row.step_up_authorities
+    };
+  }
+
+  /**
+   * Policy plus enrolment progress and remaining recovery codes, for the account security page
+   */
+  async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const [policy, details] = await Promise.all([
+      this.getPolicy(userId),
+      this.pool.query(
+        `SELECT
+           EXISTS (
+             SELECT 1 FROM user_two_factor WHERE user_id = $1 AND enabled_at IS NULL
+           ) AS pending,
+           (SELECT COUNT(*)::int FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL) AS remaining`,
+        [userId]
+      )
+    ]);
+
+    return {
+      ...policy,
+      pending: details.rows[0].pending,
+      recoveryCodesRemaining: details.rows[0].remaining
+    };
+  }
+
+  /**
+   * Generate a new secret and its QR code. Replaces any unconfirmed setup; 2FA is not
+   * active until confirmEnrolment accepts a code from the authenticator app.
+   */
+  async startEnrolment(userId: number, email: string): Promise<TwoFactorEnrolment> {
+    const existing = await this.pool.query(
+      'SELECT enabled_at FROM user_two_factor WHERE user_id = $1',
+      [userId]
+    );
+    if (existing.rows[0]?.enabled_at) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = this.base32Encode(crypto.randomBytes(SECRET_BYTES));
+
+    await this.pool.query(
+      `INSERT INTO user_two_factor (user_id, secret_encrypted, enabled_at, last_used_step)
+       VALUES ($1, $2, NULL, NULL)
+       ON CONFLICT (user_id) DO UPDATE SET
+         secret_encrypted = EXCLUDED.secret_encrypted,
+         enabled_at = NULL,
+         last_used_step = NULL,
+         updated_at = CURRENT_TIMESTAMP`,
+      [userId, this.encrypt(secret)]
+    );
+
+    const label = `${encodeURIComponent(this.issuer)}:${encodeURIComponent(email)}`;
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(this.issuer)}` +
+      `&algorithm=SHA1&digits=${CODE_DIGITS}&period=${STEP_SECONDS}`;
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await this.qrCodeService.generateDataUrl(otpauthUrl)
+    };
+  }
+
+  /**
+   * Activate 2FA once the user proves their app produces valid codes.
+   * Returns the initial recovery codes, which are only ever shown this once.
+   */
+  async confirmEnrolment(userId: number, code: string): Promise<string[]> {
+    const result = await this.pool.query(
+      'SELECT secret_encrypted FROM user_two_factor WHERE user_id = $1 AND enabled_at IS NULL',
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      throw new ValidationError('Start two-factor setup before confirming a code');
+    }
+
+    const step = this.matchStep(this.decrypt(result.rows[0].secret_encrypted), code, null);
+    if (step === null) {
+      throw new ValidationError('Invalid authentication code');
+    }
+
+    await this.pool.query(
+      `UPDATE user_two_factor
+       SET enabled_at = CURRENT_TIMESTAMP, last_used_step = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1`,
+      [userId, step]
+    );
+
+    return this.regenerateRecoveryCodes(userId);
+  }
+
+  /**
+   * Check an authenticator code. Each time step is accepted at most once, so a code
+   * seen over someone's shoulder cannot be replayed.
+   */
+  async verifyCode(userId: number, code: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'SELECT secret_encrypted, last_used_step FROM user_two_factor WHERE user_id = $1 AND enabled_at IS NOT NULL',
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    const row = result.rows[0];
+    const lastUsedStep = row.last_used_step === null ? null : Number(row.last_used_step);
+    const step = this.matchStep(this.decrypt(row.secret_encrypted), code, lastUsedStep);
+    if (step === null) {
+      return false;
+    }
+
+    // Conditional update so two concurrent requests cannot both spend the same step
+    const update = await this.pool.query(
+      `UPDATE user_two_factor
+       SET last_used_step = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND (last_used_step IS NULL OR last_used_step < $2)`,
+      [userId, step]
+    );
+    return (update.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Spend a recovery code. Returns false if it does not exist or was already used.
+   */
+  async useRecoveryCode(userId: number, code: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE user_recovery_codes
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE id = (
+         SELECT id FROM user_recovery_codes
+         WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+         LIMIT 1
+       )
+       AND used_at IS NULL
+       RETURNING id`,
+      [userId, this.hashRecoveryCode(code)]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Replace all recovery codes with a fresh set
+   */
+  async regenerateRecoveryCodes(userId: number): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => this.generateRecoveryCode());
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+      for (const code of codes) {
+        await client.query(
+          'INSERT INTO user_recovery_codes (user_id, code_hash) VALUES ($1, $2)',
+          [userId, this.hashRecoveryCode(code)]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return codes;
+  }
+
+  /**
+   * Remove the authenticator and all recovery codes
+   */
+  async disable(userId: number): Promise<void> {
+    await this.pool.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+    await this.pool.query('DELETE FROM user_two_factor WHERE user_id = $1', [userId]);
+  }
+
+  /**
+   * Time step whose code matches, within the allowed drift and after the last used step
+   */
+  private matchStep(secret: string, code: string, lastUsedStep: number | null): number | null {
+    const normalized = String(code || '').replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${CODE_DIGITS}}$`).test(normalized)) {
+      return null;
+    }
+
+    const key = this.base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+    for (let offset = -DRIFT_STEPS; offset <= DRIFT_STEPS; offset++) {
+      const step = currentStep + offset;
+      if (lastUsedStep !== null && step <= lastUsedStep) {
+        continue;
+      }
+      const expected = this.hotp(key, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * HOTP (RFC 4226) code for a counter
+   */
+  private hotp(key: Buffer, counter: number): string {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac('sha1', key).update(message).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+  }
+
+  private generateRecoveryCode(): string {
+    const bytes = crypto.randomBytes(10);
+    const chars = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = String(code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+  }
+
+  private decrypt(payload: string): string {
+    const [iv, tag, ciphertext] = payload.split(':').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private base32Decode(input: string): Buffer {
+    const clean = input.toUpperCase().replace(/=+$/, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of clean) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        continue;
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
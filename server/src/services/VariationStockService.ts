@@ -5,6 +5,10 @@
 
 import { Pool } from 'pg';
 import { NotFoundError, ValidationError } from '../utils/errors';
+import { InventoryService } from './InventoryService';
+import { WarehouseService } from './WarehouseService';
+import { InventoryMovementContext } from '../types/inventory';
+import { StockDestination } from '../types/warehouse';
 import {
   VariationStockReservation,
   StockCheckResult,
@@ -12,7 +16,13 @@ import {
 } from '../types/product';
 
 export class VariationStockService {
-  constructor(private pool: Pool) {}
+  private inventoryService: InventoryService;
+  private warehouseService: WarehouseService;
+
+  constructor(private pool: Pool) {
+    this.inventoryService = new InventoryService(pool);
+    this.warehouseService = new WarehouseService(pool);
+  }
 
   /**
    * Get available stock for a specific variation option
@@ -50,13 +60,15 @@ export class VariationStockService {
    * @param quantity - Quantity to reserve
    * @param orderId - Order ID
    * @param client - Optional database client (if provided, uses existing transaction)
+   * @param destination - Where the order ships; picks the warehouse the stock is held at
    */
   async reserveVariationStock(
     optionId: number, 
     quantity: number, 
     orderId: number,
-    client?: any
-  ): Promise<VariationStockReservation | null> {
+    client?: any,
+    destination?: StockDestination
+  ): Promise<VariationStockReservation[]> {
     const useProvidedClient = !!client;
     const dbClient = client || await this.pool.connect();
     
@@ -79,7 +91,7 @@ export class VariationStockService {
         if (!useProvidedClient) {
             await dbClient.query('COMMIT');
         }
-        return null;
+        return [];
       }
 
       // Check available stock
@@ -110,30 +122,36 @@ export class VariationStockService {
         );
       }
 
-      // Create reservation
+      const allocations = await this.warehouseService.allocateStock(dbClient, {
+        productId: productResult.rows[0].id,
+        variationOptionId: optionId,
+        quantity,
+        destination
+      });
+
+      // Create reservations
       const expiresAt = new Date();
       expiresAt.setMinutes(expiresAt.getMinutes() + 30); // 30 minute expiration
 
-      const result = await dbClient.query(
-        `INSERT INTO variation_stock_reservations 
-         (order_id, variation_option_id, quantity, status, expires_at)
-         VALUES ($1, $2, $3, 'pending', $4)
-         RETURNING *`,
-        [orderId, optionId, quantity, expiresAt]
-      );
+      const reservations: VariationStockReservation[] = [];
+      for (const allocation of allocations) {
+        const result = await dbClient.query(
+          `INSERT INTO variation_stock_reservations 
+           (order_id, variation_option_id, warehouse_id, quantity, status, expires_at)
+           VALUES ($1, $2, $3, $4, 'pending', $5)
+           RETURNING *`,
+          [orderId, optionId, allocation.warehouseId, allocation.quantity, expiresAt]
+        );
+        reservations.push(result.rows[0]);
 
-      // Update reserved quantity
-      await dbClient.query(
-        `UPDATE variation_options 
-         SET reserved_quantity = reserved_quantity + $1
-         WHERE id = $2`,
-        [quantity, optionId]
-      );
+        // Update reserved quantity
+        await this.inventoryService.changeOptionReservation(optionId, allocation.warehouseId, allocation.quantity, dbClient);
+      }
 
       if (!useProvidedClient) {
         await dbClient.query('COMMIT');
       }
-      return result.rows[0];
+      return reservations;
     } catch (error) {
       if (!useProvidedClient) {
         await dbClient.query('ROLLBACK');
@@ -169,7 +187,7 @@ export class VariationStockService {
         : [orderId, 'pending'];
 
       const reservations = await client.query(
-        `SELECT variation_option_id, quantity 
+        `SELECT variation_option_id, warehouse_id, quantity 
          FROM variation_stock_reservations 
          WHERE ${whereClause}`,
         params
@@ -177,11 +195,11 @@ export class VariationStockService {
 
       // Reduce reserved quantities
       for (const reservation of reservations.rows) {
-        await client.query(
-          `UPDATE variation_options 
-           SET reserved_quantity = GREATEST(0, reserved_quantity - $1)
-           WHERE id = $2`,
-          [reservation.quantity, reservation.variation_option_id]
+        await this.inventoryService.changeOptionReservation(
+          reservation.variation_option_id,
+          reservation.warehouse_id,
+          -reservation.quantity,
+          client
         );
       }
 
@@ -218,7 +236,7 @@ export class VariationStockService {
 
       // Get pending reservations
       const reservations = await dbClient.query(
-        `SELECT variation_option_id, quantity 
+        `SELECT variation_option_id, warehouse_id, quantity 
          FROM variation_stock_reservations 
          WHERE order_id = $1 AND status = 'pending'`,
         [orderId]
@@ -227,13 +245,12 @@ export class VariationStockService {
       // Deduct stock and reduce reserved quantity
       // Allow negative stock for backorders
       for (const reservation of reservations.rows) {
-        await dbClient.query(
-          `UPDATE variation_options 
-           SET 
-             stock_quantity = stock_quantity - $1,
-             reserved_quantity = GREATEST(0, reserved_quantity - $1)
-           WHERE id = $2`,
-          [reservation.quantity, reservation.variation_option_id]
+        await this.inventoryService.adjustOptionStock(
+          reservation.variation_option_id,
+          -reservation.quantity,
+          { reason: 'sale', sourceType: 'order', sourceId: orderId, warehouseId: reservation.warehouse_id },
+          dbClient,
+          { reservedDelta: -reservation.quantity, allowNegative: true }
         );
       }
 
@@ -458,31 +475,36 @@ export class VariationStockService {
     const client = await this.pool.connect();
     
     try {
-      // Get expired reservations
+      await client.query('BEGIN');
+
+      // Mark as expired, releasing exactly the reservations this run claimed
       const expired = await client.query(
-        `SELECT variation_option_id, quantity 
-         FROM variation_stock_reservations 
-         WHERE status = 'pending' AND expires_at < NOW()`
+        `UPDATE variation_stock_reservations 
+         SET status = 'expired'
+         WHERE status = 'pending' AND expires_at < NOW()
+         RETURNING order_id, variation_option_id, warehouse_id, quantity`
       );
 
       // Release stock
       for (const reservation of expired.rows) {
-        await client.query(
-          `UPDATE variation_options 
-           SET reserved_quantity = GREATEST(0, reserved_quantity - $1)
-           WHERE id = $2`,
-          [reservation.quantity, reservation.variation_option_id]
+        await this.inventoryService.releaseOptionReservation(
+          reservation.variation_option_id,
+          reservation.quantity,
+          {
+            reason: 'reservation_expiry',
+            sourceType: 'order',
+            sourceId: reservation.order_id,
+            warehouseId: reservation.warehouse_id
+          },
+          client
         );
       }
 
-      // Mark as expired
-      const result = await client.query(
-        `UPDATE variation_stock_reservations 
-         SET status = 'expired'
-         WHERE status = 'pending' AND expires_at < NOW()`
-      );
-
-      return result.rowCount || 0;
+      await client.query('COMMIT');
+      return expired.rowCount || 0;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
@@ -491,34 +513,20 @@ export class VariationStockService {
   /**
    * Adjust stock for a variation option (admin operation)
    */
-  async adjustStock(optionId: number, adjustment: number, reason?: string): Promise<void> {
-    const client = await this.pool.connect();
-    
+  async adjustStock(
+    optionId: number,
+    adjustment: number,
+    context: Partial<InventoryMovementContext> = {}
+  ): Promise<void> {
     try {
-      await client.query('BEGIN');
-
-      const result = await client.query(
-        `UPDATE variation_options 
-         SET stock_quantity = GREATEST(0, COALESCE(stock_quantity, 0) + $1)
-         WHERE id = $2
-         RETURNING *`,
-        [adjustment, optionId]
-      );
-
-      if (result.rows.length === 0) {
-        throw new NotFoundError('Variation Option', { optionId });
-      }
-
-      // TODO: Log stock adjustment in audit log
-
-      await client.query('COMMIT');
+      await this.inventoryService.adjustOptionStock(optionId, adjustment, {
+        ...context,
+        reason: context.reason || 'manual_adjustment'
+      });
     } catch (error) {
-      await client.query('ROLLBACK');
       if (error instanceof NotFoundError) throw error;
       console.error('Error adjusting variation stock:', error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 }
@@ -0,0 +1,318 @@
+/**
+ * Warehouse Service
+ * Fulfilment locations, per-location stock levels and thresholds, and the choice
+ * of which location a reservation holds stock at
+ */
+
+import { Pool } from 'pg';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { InventoryService } from './InventoryService';
+import { InventoryMovementContext } from '../types/inventory';
+import {
+  Warehouse,
+  WarehouseWithTotals,
+  CreateWarehouseDto,
+  UpdateWarehouseDto,
+  WarehouseStockLevel,
+  StockDestination,
+  StockAllocation
+} from '../types/warehouse';
+
+export class WarehouseService {
+  private inventoryService: InventoryService;
+
+  constructor(private pool: Pool) {
+    this.inventoryService = new InventoryService(pool);
+  }
+
+  /**
+   * All warehouses with their stock totals
+   */
+  async getWarehouses(includeInactive: boolean = true): Promise<WarehouseWithTotals[]> {
+    const result = await this.pool.query(
+      `SELECT w.*,
+              COUNT(ws.id)::int AS sku_count,
+              COALESCE(SUM(ws.quantity), 0)::int AS units_on_hand,
+              COALESCE(SUM(ws.reserved_quantity), 0)::int AS units_reserved,
+              COUNT(ws.id) FILTER (
+                WHERE ws.quantity <= COALESCE(ws.low_stock_threshold, vo.low_stock_threshold, p.low_stock_amount, 5)
+              )::int AS low_stock_count
+       FROM warehouses w
+       LEFT JOIN warehouse_stock ws ON ws.warehouse_id = w.id
+       LEFT JOIN products p ON p.id = ws.product_id
+       LEFT JOIN variation_options vo ON vo.id = ws.variation_option_id
+       ${includeInactive ? '' : 'WHERE w.is_active = true'}
+       GROUP BY w.id
+       ORDER BY w.region, w.priority, w.name`
+    );
+
+    return result.rows;
+  }
+
+  async getWarehouseById(id: number): Promise<Warehouse> {
+    const result = await this.pool.query('SELECT * FROM warehouses WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Warehouse', { id });
+    }
+
+    return result.rows[0];
+  }
+
+  async createWarehouse(data: CreateWarehouseDto): Promise<Warehouse> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      if (data.is_default) {
+        await client.query('UPDATE warehouses SET is_default = false WHERE region = $1 AND is_default = true', [data.region]);
+      }
+
+      const result = await client.query(
+        `INSERT INTO warehouses (code, name, region, address, serves_countries, priority, is_default, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          data.code.toUpperCase(),
+          data.name,
+          data.region,
+          data.address ? JSON.stringify(data.address) : null,
+          (data.serves_countries || []).map(code => code.toUpperCase()),
+          data.priority ?? 0,
+          data.is_default ?? false,
+          data.is_active ?? true
+        ]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      if (error.code === '23505') {
+        throw new ConflictError(`Warehouse code ${data.code} already exists`, 'WAREHOUSE_EXISTS');
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateWarehouse(id: number, data: UpdateWarehouseDto): Promise<Warehouse> {
+    const existing = await this.getWarehouseById(id);
+    const region = data.region || existing.region;
+
+    if (existing.is_default && (data.is_default === false || data.is_active === false || region !== existing.region)) {
+      throw new ValidationError('Make another warehouse the region default first', {
+        warehouseId: id
+      });
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      if (data.is_default && !existing.is_default) {
+        await client.query('UPDATE warehouses SET is_default = false WHERE region = $1 AND is_default = true', [region]);
+      }
+
+      const result = await client.query(
+        `UPDATE warehouses
+         SET code = $1, name = $2, region = $3, address = $4, serves_countries = $5,
+             priority = $6, is_default = $7, is_active = $8
+         WHERE id = $9
+         RETURNING *`,
+        [
+          (data.code ?? existing.code).toUpperCase(),
+          data.name ?? existing.name,
+          region,
+          data.address !== undefined ? (data.address ? JSON.stringify(data.address) : null) : existing.address,
+          (data.serves_countries ?? existing.serves_countries).map(code => code.toUpperCase()),
+          data.priority ?? existing.priority,
+          data.is_default ?? existing.is_default,
+          data.is_active ?? existing.is_active,
+          id
+        ]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      if (error.code === '23505') {
+        throw new ConflictError(`Warehouse code ${data.code} already exists`, 'WAREHOUSE_EXISTS');
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Stock of a product and its variation options at every location
+   */
+  async getStockLevels(productId: number): Promise<WarehouseStockLevel[]> {
+    const result = await this.pool.query(
+      `SELECT ws.warehouse_id, w.code AS warehouse_code, w.name AS warehouse_name,
+              ws.product_id, ws.variation_option_id, ws.quantity,
+              CASE WHEN ws.variation_option_id IS NULL THEN COALESCE(pending.quantity, 0)
+                   ELSE ws.reserved_quantity END::int AS reserved_quantity,
+              COALESCE(ws.low_stock_threshold, vo.low_stock_threshold, p.low_stock_amount) AS low_stock_threshold
+       FROM warehouse_stock ws
+       JOIN warehouses w ON w.id = ws.warehouse_id
+       JOIN products p ON p.id = ws.product_id
+       LEFT JOIN variation_options vo ON vo.id = ws.variation_option_id
+       LEFT JOIN (
+         SELECT warehouse_id, SUM(quantity) AS quantity
+         FROM stock_reservations
+         WHERE product_id = $1 AND status = 'pending' AND expires_at > NOW()
+         GROUP BY warehouse_id
+       ) pending ON pending.warehouse_id = ws.warehouse_id
+       WHERE ws.product_id = $1
+       ORDER BY ws.variation_option_id NULLS FIRST, w.priority, w.name`,
+      [productId]
+    );
+
+    return result.rows.map(row => {
+      const available = row.quantity - row.reserved_quantity;
+      return {
+        ...row,
+        available,
+        is_low_stock: row.low_stock_threshold !== null && available <= row.low_stock_threshold
+      };
+    });
+  }
+
+  /**
+   * Set a product's or option's on-hand quantity and/or low-stock threshold at one location.
+   * A threshold of null falls back to the product or option threshold.
+   */
+  async setStockLevel(
+    warehouseId: number,
+    productId: number,
+    variationOptionId: number | null,
+    update: { quantity?: number; lowStockThreshold?: number | null },
+    context: InventoryMovementContext
+  ): Promise<void> {
+    await this.getWarehouseById(warehouseId);
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const locationContext = { ...context, warehouseId };
+
+      if (update.quantity !== undefined) {
+        if (variationOptionId) {
+          await this.inventoryService.setOptionStock(variationOptionId, update.quantity, locationContext, client);
+        } else {
+          await this.inventoryService.setProductStock(productId, update.quantity, locationContext, client);
+        }
+      }
+
+      if (update.lowStockThreshold !== undefined) {
+        const updated = await client.query(
+          `UPDATE warehouse_stock SET low_stock_threshold = $1, updated_at = CURRENT_TIMESTAMP
+           WHERE warehouse_id = $2 AND product_id = $3 AND variation_option_id IS NOT DISTINCT FROM $4`,
+          [update.lowStockThreshold, warehouseId, productId, variationOptionId]
+        );
+
+        if (updated.rowCount === 0) {
+          await client.query(
+            `INSERT INTO warehouse_stock (warehouse_id, product_id, variation_option_id, low_stock_threshold)
+             VALUES ($1, $2, $3, $4)`,
+            [warehouseId, productId, variationOptionId, update.lowStockThreshold]
+          );
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Pick the warehouses a reservation should hold stock at.
+   * Active locations in the destination region (the product's region without a destination)
+   * are ranked by: enough stock to fill the line, serving the destination country, priority,
+   * then being the region default. The best location takes the whole line when it can;
+   * otherwise each location gives what it has in that order, and any shortfall left for
+   * backorders stays with the first. Falls back to the product's default warehouse.
+   * Call inside the reservation transaction: the stock rows stay locked until it ends.
+   */
+  async allocateStock(
+    client: any,
+    params: { productId: number; variationOptionId?: number | null; quantity: number; destination?: StockDestination }
+  ): Promise<StockAllocation[]> {
+    const { productId, quantity, destination } = params;
+    const optionId = params.variationOptionId ?? null;
+
+    // Concurrent checkouts wait here, then see each other's reservations
+    await client.query(
+      `SELECT id FROM warehouse_stock
+       WHERE product_id = $1 AND variation_option_id IS NOT DISTINCT FROM $2
+       ORDER BY id
+       FOR UPDATE`,
+      [productId, optionId]
+    );
+
+    const result = await client.query(
+      `SELECT w.id, GREATEST(stock.available, 0) AS available
+       FROM warehouses w
+       LEFT JOIN warehouse_stock ws
+         ON ws.warehouse_id = w.id AND ws.product_id = $1 AND ws.variation_option_id IS NOT DISTINCT FROM $2
+       CROSS JOIN LATERAL (
+         SELECT COALESCE(ws.quantity, 0) - CASE
+           WHEN $2::int IS NULL THEN (
+             SELECT COALESCE(SUM(sr.quantity), 0)
+             FROM stock_reservations sr
+             WHERE sr.product_id = $1 AND sr.warehouse_id = w.id
+               AND sr.status = 'pending' AND sr.expires_at > NOW()
+           )
+           ELSE COALESCE(ws.reserved_quantity, 0)
+         END AS available
+       ) stock
+       WHERE w.is_active = true
+         AND w.region = COALESCE($3, (SELECT COALESCE(p.region, 'us') FROM products p WHERE p.id = $1))
+       ORDER BY (stock.available >= $4) DESC,
+                (COALESCE($5, '') = ANY(w.serves_countries)) DESC,
+                w.priority ASC,
+                w.is_default DESC,
+                stock.available DESC`,
+      [productId, optionId, destination?.region || null, quantity, destination?.countryCode?.toUpperCase() || null]
+    );
+
+    if (result.rows.length === 0) {
+      return [{ warehouseId: await this.inventoryService.getDefaultWarehouseId(productId, client), quantity }];
+    }
+
+    const allocations: StockAllocation[] = [];
+    let remaining = quantity;
+
+    for (const row of result.rows) {
+      const take = Math.min(remaining, Number(row.available));
+      if (take > 0) {
+        allocations.push({ warehouseId: row.id, quantity: take });
+        remaining -= take;
+      }
+      if (remaining === 0) break;
+    }
+
+    if (remaining > 0) {
+      const first = allocations.find(allocation => allocation.warehouseId === result.rows[0].id);
+      if (first) {
+        first.quantity += remaining;
+      } else {
+        allocations.unshift({ warehouseId: result.rows[0].id, quantity: remaining });
+      }
+    }
+
+    return allocations;
+  }
+}
@@ -3,6 +3,7 @@ import { getPayPalClientForRegion } from '../config/paypal';
 import * as paypal from '@paypal/checkout-server-sdk';
 import { OrderService } from './OrderService';
 import { EmailService } from './EmailService';
+import { RefundService } from './RefundService';
 import { formatCurrency } from '../utils/currency';
 
 export interface PayPalWebhookEvent {
@@ -18,9 +19,11 @@ export interface PayPalWebhookEvent {
 export class WebhookService {
   private orderService: OrderService;
   private emailService: EmailService;
+  private refundService: RefundService;
 
   constructor(private pool: Pool) {
     this.orderService = new OrderService(pool);
+    this.refundService = new RefundService(pool);
     this.emailService = new EmailService(pool);
     this.emailService.initialize();
   }
@@ -148,16 +151,19 @@ export class WebhookService {
         [failureReason, orderId]
       );
 
-      // Update order status and cancel stock reservations
+      // Update order payment status
       await client.query(
         `UPDATE orders 
-         SET payment_status = 'failed', status = 'cancelled'
+         SET payment_status = 'failed'
          WHERE id = $1`,
         [orderId]
       );
 
-      // Cancel stock reservations
-      await this.orderService.cancelOrder(order.order_number);
+      // Cancel the order, which releases its stock reservations; the customer gets the payment failed email below
+      await this.orderService.cancelOrder(order.order_number, undefined, {
+        reason: `Payment denied: ${failureReason}`,
+        notifyCustomer: false
+      });
 
       // Trigger payment failure email event
       try {
@@ -225,50 +231,22 @@ export class WebhookService {
   }
 
   private async handlePaymentRefunded(event: PayPalWebhookEvent) {
-    const client = await this.pool.connect();
-    try {
-      const refund = event.resource;
-      const orderId = refund.custom_id;
-
-      // Create refund record
-      await client.query(
-        `INSERT INTO refunds (payment_id, order_id, refund_transaction_id, amount, status)
-         SELECT p.id, $1, $2, $3, 'completed'
-         FROM payments p WHERE p.order_id = $1`,
-        [orderId, refund.id, refund.amount.value]
-      );
-
-      // Update payment status
-      await client.query(
-        `UPDATE payments 
-         SET status = 'refunded'
-         WHERE order_id = $1`,
-        [orderId]
-      );
-
-      // Restore stock for refunded items
-      await this.restoreStockFromRefund(client, orderId);
-
-      console.log(`Payment refunded for order ${orderId}`);
-    } finally {
-      client.release();
-    }
-  }
-
-  private async restoreStockFromRefund(client: any, orderId: number) {
-    // Get order items for refund
-    const orderItems = await client.query(
-      'SELECT * FROM order_items WHERE order_id = $1',
-      [orderId]
-    );
-
-    for (const item of orderItems.rows) {
-      // Restore stock
-      await client.query(
-        'UPDATE products SET stock = stock + $1 WHERE id = $2',
-        [item.quantity, item.product_id]
-      );
-    }
+    const refund = event.resource;
+
+    // The refund links back to its capture ("up"): .../v2/payments/captures/{capture_id}
+    const captureLink = (refund.links || []).find((link: any) => link.rel === 'up');
+    const captureId = captureLink?.href ? captureLink.href.split('/').pop() : null;
+
+    // Completes refunds we issued, or records ones made directly in PayPal
+    await this.refundService.reconcilePayPalRefund({
+      refundId: refund.id,
+      amount: parseFloat(refund.amount.value),
+      currency: refund.amount.currency_code,
+      captureId,
+      orderId: refund.custom_id ? parseInt(refund.custom_id) : null
+    });
+
+    console.log(`Payment refund ${refund.id} reconciled (capture ${captureId || 'unknown'})`);
   }
 
   private async logWebhookEvent(event: PayPalWebhookEvent) {
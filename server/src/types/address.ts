@@ -0,0 +1,42 @@
+/**
+ * Address Book Types
+ * Type definitions for saved customer addresses
+ */
+
+export type AddressType = 'shipping' | 'billing';
+
+export interface UserAddress {
+  id: number;
+  user_id: number;
+  type: AddressType;
+  first_name: string;
+  last_name: string;
+  company: string | null;
+  address_line_1: string;
+  address_line_2: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  phone: string | null;
+  is_default: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateAddressDto {
+  type: AddressType;
+  first_name: string;
+  last_name: string;
+  company?: string | null;
+  address_line_1: string;
+  address_line_2?: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  phone?: string | null;
+  is_default?: boolean;
+}
+
+export type UpdateAddressDto = Partial<CreateAddressDto>;
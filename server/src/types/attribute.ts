@@ -0,0 +1,70 @@
+/**
+ * Product Attribute Types
+ * Typed attributes defined per category, their values per product and the catalog facets built from them
+ */
+
+/**
+ * select: one option; multiselect: any number of options; number: a single value;
+ * range: a span such as the monitor sizes a stand supports
+ */
+export type AttributeType = 'select' | 'multiselect' | 'number' | 'range';
+
+export interface AttributeOption {
+  value: string;
+  label: string;
+}
+
+export interface ProductAttribute {
+  id: number;
+  code: string;
+  name: string;
+  type: AttributeType;
+  unit: string | null;
+  categories: string[]; // Empty applies to every category
+  options: AttributeOption[];
+  is_filterable: boolean;
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ProductAttributeInput {
+  code: string;
+  name: string;
+  type: AttributeType;
+  unit?: string | null;
+  categories?: string[];
+  options?: AttributeOption[];
+  is_filterable?: boolean;
+  sort_order?: number;
+}
+
+/**
+ * Value of one attribute on a product, as assigned in the admin, the CSV and the API:
+ * options for select/multiselect, min for number, min and max for range
+ */
+export interface ProductAttributeValueInput {
+  code: string;
+  values?: string[];
+  min?: number | null;
+  max?: number | null;
+}
+
+export interface ProductAttributeValue extends ProductAttributeValueInput {
+  attribute_id: number;
+  name: string;
+  type: AttributeType;
+  unit: string | null;
+}
+
+export interface AttributeFacet {
+  code: string;
+  name: string;
+  type: AttributeType;
+  unit: string | null;
+  // Option (or number) counts; empty for range attributes
+  values: Array<{ value: string; label: string; count: number }>;
+  // Lowest and highest value among matching products (number and range)
+  min: number | null;
+  max: number | null;
+}
@@ -0,0 +1,54 @@
+/**
+ * Audit Types
+ * Type definitions for the admin activity audit log
+ */
+
+/**
+ * Field-level diff of an entity: only fields whose value changed are listed.
+ * Creates have every field with a null `before`; deletes a null `after`.
+ */
+export type AuditChanges = Record<string, { before: any; after: any }>;
+
+export interface AdminActivityLog {
+  id: number;
+  admin_id: number | null;
+  admin_email: string | null;
+  action: string;
+  authority: string | null;
+  resource_type: string | null;
+  resource_id: string | null;
+  changes: AuditChanges | null;
+  details: Record<string, any>;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: Date;
+}
+
+export interface AdminActivityLogWithActor extends AdminActivityLog {
+  admin_name: string | null;
+}
+
+export interface RecordAdminActivityDto {
+  adminId: number | null;
+  adminEmail?: string | null;
+  action: string;
+  authority?: string | null;
+  resourceType: string;
+  resourceId?: string | null;
+  changes?: AuditChanges | null;
+  details?: Record<string, any>;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface AdminActivityLogFilters {
+  adminId?: number;
+  resourceType?: string;
+  resourceId?: string;
+  action?: string;
+  search?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
@@ -39,6 +39,8 @@ export interface CartItemWithProduct extends CartItem {
   product_image: string | null;
   product_stock: number;
   product_status: string;
+  tax_class?: string | null;
+  tax_status?: string | null;
 }
 
 export interface CartWithItems extends Cart {
@@ -55,6 +57,7 @@ export interface CartTotals {
   total: number;
   currency: string;
   itemCount: number;
+  pricesIncludeTax: boolean;
 }
 
 export interface AppliedCoupon {
@@ -122,7 +125,11 @@ export interface CouponValidation {
 
 export enum OrderStatus {
   PENDING = 'pending',
+  AWAITING_QUOTE = 'awaiting_quote',
   PROCESSING = 'processing',
+  ON_HOLD = 'on_hold',
+  BACKORDERED = 'backordered',
+  PARTIALLY_SHIPPED = 'partially_shipped',
   SHIPPED = 'shipped',
   DELIVERED = 'delivered',
   CANCELLED = 'cancelled',
@@ -148,6 +155,8 @@ export interface Order {
   // Amounts
   subtotal: number;
   tax_amount: number;
+  shipping_tax_amount?: number;
+  prices_include_tax?: boolean;
   shipping_amount: number;
   discount_amount: number;
   total_amount: number;
@@ -193,6 +202,14 @@ export interface OrderItem {
   unit_price: number;
   total_price: number;
   selected_options: ProductConfiguration;
+  tax_class?: string | null;
+  taxable_amount?: number;
+  tax_rate?: number;
+  tax_amount?: number;
+  tax_rule_id?: number | null;
+  tax_label?: string | null;
+  /** Set when the order is paid: whether the line has its stock or waits on the backorder queue */
+  allocation_status?: 'allocated' | 'backordered' | null;
   created_at: Date;
 }
 
@@ -200,6 +217,35 @@ export interface OrderWithItems extends Order {
   items: OrderItem[];
 }
 
+/**
+ * Who moved an order between statuses
+ */
+export type OrderActorType = 'admin' | 'customer' | 'system' | 'shipstation' | 'carrier';
+
+export interface OrderStatusHistoryEntry {
+  id: number;
+  order_id: number;
+  from_status: OrderStatus | null;
+  status: OrderStatus;
+  comment: string | null;
+  actor_type: OrderActorType;
+  created_by: number | null;
+  created_by_name: string | null;
+  created_at: Date;
+}
+
+export interface OrderTransitionOptions {
+  actorType?: OrderActorType;
+  actorId?: number | null;
+  reason?: string | null;
+  /** Send the customer email tied to the new status (default true) */
+  notifyCustomer?: boolean;
+  /** Inside a caller's transaction: collects the emails and stock releases to run once it commits */
+  afterCommit?: AfterCommitTask[];
+}
+
+export type AfterCommitTask = () => Promise<void>;
+
 export interface Address {
   firstName: string;
   lastName: string;
@@ -0,0 +1,63 @@
+/**
+ * Product Comparison Types
+ * Compare tray and the side-by-side comparison of products
+ */
+
+import { ProductImage } from './product';
+
+export interface CompareTrayProduct {
+  id: number;
+  name: string;
+  slug: string;
+  region: 'us' | 'eu';
+  regular_price: number | null;
+  sale_price: number | null;
+  is_on_sale: boolean;
+  sale_start_date: Date | null;
+  sale_end_date: Date | null;
+  price_min: number | null;
+  price_max: number | null;
+  images: ProductImage[];
+}
+
+export interface CompareList {
+  // In the order they were added
+  product_ids: number[];
+  products: CompareTrayProduct[];
+  max_products: number;
+}
+
+export interface ComparedBundleItem {
+  product_id: number;
+  name: string;
+  slug: string;
+  quantity: number;
+  item_type: 'required' | 'optional';
+}
+
+export interface ComparedProduct extends CompareTrayProduct {
+  sku: string;
+  is_bundle: boolean;
+  in_stock: boolean;
+  // All configurations, including variation price adjustments
+  price_range: { min: number; max: number };
+  rating: { average: number; count: number };
+  bundle_items: ComparedBundleItem[];
+}
+
+export type ComparisonSpecGroup = 'dimensions' | 'attributes';
+
+export interface ComparisonSpecRow {
+  key: string;
+  label: string;
+  group: ComparisonSpecGroup;
+  // One per compared product, in the same order; null when the product has no value
+  values: Array<string | null>;
+  // Whether the products have different values, for "show differences only"
+  differs: boolean;
+}
+
+export interface ProductComparison {
+  products: ComparedProduct[];
+  specs: ComparisonSpecRow[];
+}
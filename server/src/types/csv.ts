@@ -4,6 +4,7 @@
  */
 
 import { Product } from './product';
+import { ProductAttributeValueInput } from './attribute';
 
 // CSV Row Structure
 export interface CSVProductRow {
@@ -71,6 +72,7 @@ export interface CSVProductRow {
   product_faqs?: string; // JSON array string
   assembly_manuals?: string; // JSON array string
   product_additional_info?: string; // JSON array string
+  product_attributes?: string; // JSON array string
 }
 
 // Parsed Product Data
@@ -82,6 +84,7 @@ export interface ParsedProductData {
   faqs?: ProductFAQData[];
   assemblyManuals?: AssemblyManualData[];
   additionalInfo?: ProductAdditionalInfoData[];
+  attributes?: ProductAttributeValueInput[];
 }
 
 // Related Data Structures
@@ -181,5 +184,7 @@ export interface ImportOptions {
   dryRun?: boolean;
   validateOnly?: boolean;
   importAsGroups?: boolean;
+  /** Admin running the import; recorded on the stock movements it writes */
+  importedBy?: number;
 }
 
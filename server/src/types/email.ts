@@ -59,13 +59,32 @@ export interface EmailQueue {
   priority: number;
   attempts: number;
   max_attempts: number;
-  status: 'pending' | 'processing' | 'sent' | 'failed';
+  status: 'pending' | 'processing' | 'sent' | 'failed' | 'dead';
+  region: 'us' | 'eu';
   scheduled_for: Date;
   error_message?: string;
+  locked_at?: Date;
+  last_attempt_at?: Date;
+  email_log_id?: number;
   created_at: Date;
   processed_at?: Date;
 }
 
+export interface EmailQueueRunResult {
+  claimed: number;
+  sent: number;
+  retried: number;
+  dead: number;
+  released: number;
+}
+
+export interface EmailQueueStats {
+  pending: number;
+  processing: number;
+  sent: number;
+  dead: number;
+}
+
 export interface EmailSettings {
   id?: number;
   smtp_host?: string;
@@ -97,5 +116,6 @@ export interface EmailResult {
   messageId?: string;
   error?: string;
   logId?: number;
+  permanent?: boolean; // Retrying will not help (missing or inactive template)
 }
 
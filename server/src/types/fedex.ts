@@ -1,8 +1,10 @@
 /**
  * FedEx API Types
- * Type definitions for FedEx Rates and Transit Times API
+ * Type definitions for FedEx Rates and Transit Times API and Ship API
  */
 
+import { Parcel } from './shipping';
+
 export interface FedExAddress {
   streetLines: string[];
   city: string;
@@ -150,3 +152,104 @@ export interface PackageSizeMapping {
   }; // in inches
 }
 
+
+// ============================================================================
+// SHIP API
+// ============================================================================
+
+/**
+ * Service types offered when creating a label from the admin order view
+ */
+export const FEDEX_SERVICE_TYPES = [
+  'FEDEX_GROUND',
+  'GROUND_HOME_DELIVERY',
+  'FEDEX_EXPRESS_SAVER',
+  'FEDEX_2_DAY',
+  'STANDARD_OVERNIGHT',
+  'PRIORITY_OVERNIGHT',
+  'FEDEX_INTERNATIONAL_PRIORITY',
+  'INTERNATIONAL_ECONOMY'
+] as const;
+
+export type FedExServiceType = typeof FEDEX_SERVICE_TYPES[number];
+
+export interface FedExContact {
+  personName: string;
+  companyName?: string;
+  phoneNumber: string;
+  emailAddress?: string;
+}
+
+export interface FedExShipmentRequest {
+  recipient: {
+    contact: FedExContact;
+    address: FedExAddress & { residential?: boolean };
+  };
+  serviceType: FedExServiceType;
+  parcels: Parcel[];
+  /** Order items for customs commodities on international shipments */
+  items: Array<{ productId: number; quantity: number; unitPrice: number }>;
+  orderValue: number;
+  /** Order number, printed on the label as the customer reference */
+  reference?: string;
+  region?: 'us' | 'eu';
+}
+
+export interface FedExShipmentPiece {
+  trackingNumber: string;
+  /** Base64-encoded label document */
+  labelData: string | null;
+  labelFormat: string;
+  parcel: Parcel | null;
+}
+
+export interface FedExShipmentResult {
+  success: boolean;
+  error?: {
+    code: string;
+    message: string;
+  };
+  masterTrackingNumber?: string;
+  serviceType?: string;
+  totalCharge?: number;
+  pieces?: FedExShipmentPiece[];
+}
+
+export interface FedExCancelResult {
+  success: boolean;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+// ============================================================================
+// TRACK API
+// ============================================================================
+
+export interface FedExScanEvent {
+  /** FedEx derived status code (e.g. PU, IT, OD, DL, DE) */
+  code: string;
+  description: string;
+  timestamp: string;
+  location: string | null;
+}
+
+export interface FedExTrackingInfo {
+  trackingNumber: string;
+  found: boolean;
+  statusCode: string | null;
+  statusDescription: string | null;
+  estimatedDelivery: string | null;
+  actualDelivery: string | null;
+  events: FedExScanEvent[];
+}
+
+export interface FedExTrackResult {
+  success: boolean;
+  error?: {
+    code: string;
+    message: string;
+  };
+  results?: FedExTrackingInfo[];
+}
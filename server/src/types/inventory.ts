@@ -0,0 +1,160 @@
+/**
+ * Inventory Types
+ * Type definitions for the inventory movement ledger
+ */
+
+/**
+ * Why stock moved:
+ * - sale: a paid order's reservation was confirmed
+ * - refund: a fully refunded order put its items back
+ * - manual_adjustment: an admin changed the quantity (product edit, +/- adjustment)
+ * - import: a CSV import set the quantity
+ * - reservation_expiry: an unpaid checkout's reservation lapsed (reserved quantity only)
+ * - cycle_count: an admin recorded a physical count
+ * - transfer: stock left or arrived at a warehouse on a transfer document
+ * - purchase_receipt: stock arrived from a supplier on a purchase order
+ */
+export const INVENTORY_MOVEMENT_REASONS = [
+  'sale',
+  'refund',
+  'manual_adjustment',
+  'import',
+  'reservation_expiry',
+  'cycle_count',
+  'transfer',
+  'purchase_receipt'
+] as const;
+
+export type InventoryMovementReason = typeof INVENTORY_MOVEMENT_REASONS[number];
+
+export type InventoryActorType = 'admin' | 'customer' | 'system';
+
+/**
+ * Why and by whom a stock write is made; recorded on its ledger row
+ */
+export interface InventoryMovementContext {
+  reason: InventoryMovementReason;
+  note?: string | null;
+  /** Location the stock moves at; defaults to the product region's default warehouse */
+  warehouseId?: number | null;
+  actorType?: InventoryActorType;
+  actorId?: number | null;
+  /** Document that caused the movement, e.g. order / refund / csv_import / product_edit */
+  sourceType?: string | null;
+  sourceId?: string | number | null;
+}
+
+export interface InventoryMovement {
+  id: number;
+  product_id: number;
+  variation_option_id: number | null;
+  warehouse_id: number | null;
+  delta: number;
+  /** On-hand quantity at the warehouse after the movement; NULL when the option's stock is not managed */
+  quantity_after: number | null;
+  reserved_delta: number;
+  reason: InventoryMovementReason;
+  note: string | null;
+  actor_type: InventoryActorType;
+  actor_id: number | null;
+  source_type: string | null;
+  source_id: string | null;
+  created_at: Date;
+}
+
+export interface InventoryMovementWithDetails extends InventoryMovement {
+  product_name: string;
+  sku: string;
+  option_name: string | null;
+  variation_name: string | null;
+  warehouse_code: string | null;
+  actor_name: string | null;
+}
+
+export interface InventoryMovementFilters {
+  productId?: number;
+  variationOptionId?: number;
+  warehouseId?: number;
+  reason?: InventoryMovementReason;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Backorder queue entries:
+ * - waiting: the order is still owed some of the units
+ * - allocated: arriving stock has covered every unit
+ * - cancelled: the order was cancelled or refunded before it was filled
+ */
+export type BackorderAllocationStatus = 'waiting' | 'allocated' | 'cancelled';
+
+export interface BackorderAllocation {
+  id: number;
+  order_id: number;
+  order_item_id: number | null;
+  product_id: number;
+  variation_option_id: number | null;
+  warehouse_id: number;
+  quantity: number;
+  quantity_allocated: number;
+  status: BackorderAllocationStatus;
+  queued_at: Date;
+  allocated_at: Date | null;
+  notified_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BackorderAllocationWithDetails extends BackorderAllocation {
+  product_name: string;
+  sku: string;
+  option_name: string | null;
+  warehouse_code: string;
+}
+
+/**
+ * Stock alert lifecycle:
+ * - open: below threshold and included in the daily digest
+ * - acknowledged: seen by staff; reopens only if the item runs out of stock
+ * - snoozed: left out of digests until snoozed_until
+ * - resolved: stock is back above the threshold
+ */
+export type StockAlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+
+export type StockAlertLevel = 'low_stock' | 'out_of_stock';
+
+export interface StockAlert {
+  id: number;
+  product_id: number;
+  variation_option_id: number | null;
+  region: 'us' | 'eu';
+  level: StockAlertLevel;
+  current_stock: number;
+  threshold: number | null;
+  daily_velocity: number;
+  suggested_reorder: number;
+  incoming_quantity: number;
+  status: StockAlertStatus;
+  snoozed_until: Date | null;
+  acknowledged_by: number | null;
+  acknowledged_at: Date | null;
+  first_detected_at: Date;
+  last_detected_at: Date;
+  last_notified_at: Date | null;
+  resolved_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface StockAlertWithDetails extends StockAlert {
+  product_name: string;
+  sku: string;
+  option_name: string | null;
+  acknowledged_by_name: string | null;
+}
+
+export interface StockAlertFilters {
+  status?: StockAlertStatus | 'active';
+  region?: 'us' | 'eu';
+  level?: StockAlertLevel;
+}
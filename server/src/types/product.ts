@@ -3,6 +3,8 @@
  * Complete type definitions for products, variations, add-ons, and configurations
  */
 
+import { AttributeFacet } from './attribute';
+
 // ============================================================================
 // ENUMS
 // ============================================================================
@@ -84,6 +86,7 @@ export interface Product {
   in_stock: string; // Database uses string '1' or '0'
   is_bundle: boolean; // If true, this product contains other products
   backorders_allowed: boolean; // If true, product can be ordered when stock is 0 (stock goes negative)
+  restock_eta?: string | null; // Earliest expected arrival on an open purchase order (YYYY-MM-DD)
   
   // Shipping
   tax_class: string | null;
@@ -218,11 +221,13 @@ export interface ProductFilters {
   search?: string;
   minPrice?: number;
   maxPrice?: number;
+  priceBand?: string; // SEARCH_PRICE_BANDS id, used by search facets
   inStock?: boolean;
   featured?: boolean;
   status?: ProductStatus;
   tags?: string[];
   region?: 'us' | 'eu'; // Filter by region (US or EU)
+  attributes?: Record<string, string[]>; // Attribute code -> accepted values
 }
 
 export interface ProductSortOptions {
@@ -249,6 +254,7 @@ export interface PaginatedProducts {
   filters?: {
     categories: { id: string; name: string; count: number }[];
     priceRange: { min: number; max: number };
+    attributes: AttributeFacet[];
   };
 }
 
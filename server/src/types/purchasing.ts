@@ -0,0 +1,131 @@
+/**
+ * Purchasing Types
+ * Type definitions for suppliers, purchase orders and receiving
+ */
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: Record<string, any> | null;
+  currency: string;
+  lead_time_days: number | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateSupplierDto {
+  name: string;
+  contact_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: Record<string, any> | null;
+  currency?: string;
+  lead_time_days?: number | null;
+  notes?: string | null;
+  is_active?: boolean;
+}
+
+export type UpdateSupplierDto = Partial<CreateSupplierDto>;
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderItem {
+  id: number;
+  purchase_order_id: number;
+  product_id: number;
+  variation_option_id: number | null;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: string;
+  landed_unit_cost: string | null;
+  product_name?: string;
+  sku?: string;
+  option_name?: string | null;
+}
+
+export interface PurchaseOrder {
+  id: number;
+  po_number: string;
+  supplier_id: number;
+  warehouse_id: number;
+  status: PurchaseOrderStatus;
+  currency: string;
+  expected_at: string | null;
+  shipping_cost: string;
+  duty_cost: string;
+  other_cost: string;
+  notes: string | null;
+  created_by: number | null;
+  ordered_at: Date | null;
+  received_at: Date | null;
+  cancelled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  supplier_name?: string;
+  warehouse_name?: string;
+  items?: PurchaseOrderItem[];
+}
+
+export interface PurchaseOrderItemInput {
+  productId: number;
+  variationOptionId?: number | null;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface CreatePurchaseOrderDto {
+  supplierId: number;
+  warehouseId: number;
+  currency?: string;
+  expectedAt?: string | null;
+  shippingCost?: number;
+  dutyCost?: number;
+  otherCost?: number;
+  notes?: string | null;
+  items: PurchaseOrderItemInput[];
+}
+
+/**
+ * Draft orders can change anything; ordered ones only their dates, costs and notes
+ */
+export type UpdatePurchaseOrderDto = Partial<CreatePurchaseOrderDto>;
+
+export interface PurchaseOrderFilters {
+  status?: PurchaseOrderStatus;
+  supplierId?: number;
+  page?: number;
+  limit?: number;
+}
+
+export interface ReceivePurchaseOrderDto {
+  lines: Array<{ itemId: number; quantity: number }>;
+  note?: string | null;
+}
+
+/**
+ * Earliest open purchase order arrival for a product that is out of stock
+ */
+export interface RestockEta {
+  product_id: number;
+  name: string;
+  slug: string;
+  restock_eta: string;
+  quantity_incoming: number;
+}
+
+export interface MarginReportRow {
+  product_id: number;
+  name: string;
+  sku: string;
+  units_sold: number;
+  revenue: number;
+  landed_cost: number | null;
+  cost_of_goods: number | null;
+  gross_margin: number | null;
+  margin_percent: number | null;
+}
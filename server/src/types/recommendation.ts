@@ -0,0 +1,81 @@
+/**
+ * Product Recommendation Types
+ * Computed and curated product relationships and the storefront recommendation blocks
+ */
+
+import { ProductImage } from './product';
+
+export type RelationshipType = 'related' | 'frequently_bought_together' | 'alternative' | 'upgrade' | 'accessory';
+
+/**
+ * computed: rebuilt nightly from orders and views; manual: curated by an admin
+ */
+export type RelationshipSource = 'computed' | 'manual';
+
+export interface ProductRelationship {
+  id: number;
+  product_id: number;
+  related_product_id: number;
+  relationship_type: RelationshipType;
+  score: number;
+  source: RelationshipSource;
+  is_excluded: boolean;
+  sort_order: number;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ProductRelationshipWithProduct extends ProductRelationship {
+  related_product_name: string;
+  related_product_sku: string;
+  related_product_region: 'us' | 'eu';
+  related_product_status: string;
+}
+
+export interface UpsertRelationshipDto {
+  related_product_id: number;
+  relationship_type: RelationshipType;
+  is_excluded?: boolean;
+  sort_order?: number;
+}
+
+/**
+ * Product card data for a recommendation block
+ */
+export interface RecommendedProduct {
+  id: number;
+  name: string;
+  slug: string;
+  sku: string;
+  region: 'us' | 'eu';
+  regular_price: number | null;
+  sale_price: number | null;
+  is_on_sale: boolean;
+  sale_start_date: Date | null;
+  sale_end_date: Date | null;
+  price_min: number | null;
+  price_max: number | null;
+  stock: number;
+  images: ProductImage[];
+}
+
+export interface RecommendationOptions {
+  region?: 'us' | 'eu';
+  // Per block
+  limit?: number;
+  // Products not to recommend, e.g. already in the cart
+  excludeProductIds?: number[];
+}
+
+export interface ProductRecommendations {
+  frequentlyBoughtTogether: RecommendedProduct[];
+  accessories: RecommendedProduct[];
+  alsoViewed: RecommendedProduct[];
+}
+
+export interface RecomputeRecommendationsResult {
+  frequentlyBoughtTogether: number;
+  accessories: number;
+  alsoViewed: number;
+}
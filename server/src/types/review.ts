@@ -0,0 +1,99 @@
+/**
+ * Review Types
+ * Type definitions for product reviews, votes and moderation
+ */
+
+// ============================================================================
+// CORE REVIEW TYPES
+// ============================================================================
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export type ReviewVoteType = 'helpful' | 'not_helpful';
+
+export type ReviewSort = 'helpful' | 'newest' | 'oldest' | 'rating_high' | 'rating_low';
+
+export interface ReviewImage {
+  id: number;
+  review_id: number;
+  image_url: string;
+  sort_order: number;
+  created_at: Date;
+}
+
+export interface ProductReview {
+  id: number;
+  product_id: number;
+  user_id: number;
+  order_id: number | null;
+  rating: number;
+  title: string | null;
+  review_text: string | null;
+  is_verified_purchase: boolean;
+  is_approved: boolean;
+  status: ReviewStatus;
+  helpful_count: number;
+  not_helpful_count: number;
+  moderated_by: number | null;
+  moderated_at: Date | null;
+  moderation_note: string | null;
+  created_at: Date;
+  updated_at: Date;
+  author_name: string;
+  images: ReviewImage[];
+  current_user_vote?: ReviewVoteType | null;
+}
+
+export interface AdminProductReview extends ProductReview {
+  product_name: string;
+  product_slug: string;
+  author_email: string;
+}
+
+// ============================================================================
+// CREATE/UPDATE TYPES (DTOs)
+// ============================================================================
+
+export interface CreateReviewDto {
+  rating: number;
+  title?: string | null;
+  review_text?: string | null;
+}
+
+export interface ReviewQueryOptions {
+  page?: number;
+  limit?: number;
+  sort?: ReviewSort;
+  rating?: number;
+  verifiedOnly?: boolean;
+}
+
+export interface AdminReviewQueryOptions {
+  page?: number;
+  limit?: number;
+  status?: ReviewStatus;
+  productId?: number;
+  search?: string;
+}
+
+// ============================================================================
+// API RESPONSE TYPES
+// ============================================================================
+
+export interface ReviewSummary {
+  average: number;
+  count: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface PaginatedReviews<T = ProductReview> {
+  reviews: T[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrevious: boolean;
+  };
+}
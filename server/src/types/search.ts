@@ -0,0 +1,141 @@
+/**
+ * Product Search Types
+ * Full-text search plans, facets, synonyms, redirects and search analytics
+ */
+
+import { PaginatedProducts } from './product';
+import { AttributeFacet } from './attribute';
+
+/**
+ * One word or synonym phrase from the customer's query, with the alternatives it also matches
+ */
+export interface SearchTermGroup {
+  text: string;
+  alternatives: string[];
+  // The last word while typing matches as a prefix ("cock" → "cockpit")
+  prefix: boolean;
+}
+
+export interface SearchPlan {
+  query: string;
+  groups: SearchTermGroup[];
+}
+
+/**
+ * exact: every term matched the full-text index; fuzzy: any term or a similar product name
+ */
+export type SearchMatchType = 'exact' | 'fuzzy';
+
+export interface PriceBand {
+  id: string;
+  label: string;
+  min: number;
+  max: number | null;
+}
+
+export interface SearchFacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  categories: SearchFacetValue[];
+  priceBands: Array<SearchFacetValue & { min: number; max: number | null }>;
+  stockStatus: SearchFacetValue[];
+  regions: SearchFacetValue[];
+  attributes: AttributeFacet[];
+}
+
+export interface ProductSearchResult extends PaginatedProducts {
+  matchType: SearchMatchType;
+  facets: SearchFacets;
+  // Landing page configured for this exact query, if any
+  redirectUrl: string | null;
+}
+
+export interface SearchSynonym {
+  id: number;
+  term: string;
+  synonyms: string[];
+  is_active: boolean;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SearchSynonymInput {
+  term: string;
+  synonyms: string[];
+  is_active?: boolean;
+}
+
+export interface SearchRedirect {
+  id: number;
+  query: string;
+  target_url: string;
+  is_active: boolean;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SearchRedirectInput {
+  query: string;
+  target_url: string;
+  is_active?: boolean;
+}
+
+export interface RecordSearchDto {
+  query: string;
+  resultsCount: number;
+  matchType: SearchMatchType;
+  sessionId: string;
+  userId?: number | null;
+  region?: 'us' | 'eu';
+}
+
+export interface SearchReportFilters {
+  days?: number;
+  region?: 'us' | 'eu';
+}
+
+/**
+ * Searches grouped by normalized query
+ */
+export interface SearchQueryStats {
+  query: string;
+  searches: number;
+  sessions: number;
+  avg_results: number;
+  zero_result_searches: number;
+  // Share of searches with results where a result was opened (0-100)
+  click_through_rate: number | null;
+  conversions: number;
+  last_searched_at: Date;
+  synonym_id: number | null;
+  redirect_url: string | null;
+}
+
+export interface SearchReport {
+  summary: {
+    searches: number;
+    sessions: number;
+    zero_result_rate: number;
+    click_through_rate: number;
+    conversion_rate: number;
+  };
+  topQueries: SearchQueryStats[];
+  zeroResultQueries: SearchQueryStats[];
+  lowClickThroughQueries: SearchQueryStats[];
+  convertingQueries: SearchQueryStats[];
+}
+
+// Price bands offered as a search facet ([min, max) in the region's currency)
+export const SEARCH_PRICE_BANDS: PriceBand[] = [
+  { id: 'under-100', label: 'Under 100', min: 0, max: 100 },
+  { id: '100-250', label: '100 – 250', min: 100, max: 250 },
+  { id: '250-500', label: '250 – 500', min: 250, max: 500 },
+  { id: '500-1000', label: '500 – 1,000', min: 500, max: 1000 },
+  { id: '1000-plus', label: '1,000 and up', min: 1000, max: null }
+];
@@ -0,0 +1,288 @@
+/**
+ * Shipping Types
+ * Type definitions for admin-managed shipping zones, their methods and rate tables
+ */
+
+import { FedExServiceType } from './fedex';
+
+/**
+ * How a method prices an order:
+ * - flat: base_cost
+ * - weight_tier: per parcel, the first tier whose [min, max) range holds the parcel weight (kg); parcel costs are summed
+ * - total_tier: first tier whose [min, max) range holds the order total
+ * - package_size: per parcel, the cost for its S/M/L package size; parcel costs are summed
+ * - carrier: live carrier rates (FedEx), falling back to a manual quote
+ * - quote: always requires a manual quote
+ */
+export type ShippingMethodType = 'flat' | 'weight_tier' | 'total_tier' | 'package_size' | 'carrier' | 'quote';
+
+/**
+ * none: never free; region: free at region_settings.free_shipping_threshold; amount: free at free_shipping_threshold
+ */
+export type FreeShippingMode = 'none' | 'region' | 'amount';
+
+export type PackageSize = 'S' | 'M' | 'L';
+
+export type DimensionUnit = 'cm' | 'in';
+export type WeightUnit = 'kg' | 'lbs';
+
+export interface ShippingRateTier {
+  min?: number | null;
+  max?: number | null;
+  size?: PackageSize;
+  cost: number;
+}
+
+/**
+ * Per shipping_class adjustment: add a surcharge (per item or once per order) or exclude the method
+ */
+export interface ShippingClassRule {
+  shipping_class: string;
+  action: 'surcharge' | 'exclude';
+  amount?: number;
+  per?: 'item' | 'order';
+}
+
+export interface ShippingZoneMethod {
+  id: number;
+  zone_id: number;
+  code: string;
+  name: string;
+  carrier: string | null;
+  estimated_days: string | null;
+  method_type: ShippingMethodType;
+  base_cost: number;
+  rates: ShippingRateTier[];
+  free_shipping_mode: FreeShippingMode;
+  free_shipping_threshold: number | null;
+  class_rules: ShippingClassRule[];
+  sort_order: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ShippingZone {
+  id: number;
+  name: string;
+  /** ISO country codes; empty matches every country ("rest of world") */
+  countries: string[];
+  /** State codes within the countries; empty matches all */
+  states: string[];
+  /** Postal code patterns: exact ("33101"), prefix ("331*") or range ("33000...33999"); empty matches all */
+  postal_codes: string[];
+  sort_order: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+  methods?: ShippingZoneMethod[];
+}
+
+export interface CreateShippingZoneDto {
+  name: string;
+  countries?: string[];
+  states?: string[];
+  postal_codes?: string[];
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+export type UpdateShippingZoneDto = Partial<CreateShippingZoneDto>;
+
+export interface CreateShippingZoneMethodDto {
+  code: string;
+  name: string;
+  carrier?: string | null;
+  estimated_days?: string | null;
+  method_type: ShippingMethodType;
+  base_cost?: number;
+  rates?: ShippingRateTier[];
+  free_shipping_mode?: FreeShippingMode;
+  free_shipping_threshold?: number | null;
+  class_rules?: ShippingClassRule[];
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+export type UpdateShippingZoneMethodDto = Partial<CreateShippingZoneMethodDto>;
+
+/**
+ * A box a product (or one of its variation options) ships in as-is
+ */
+export interface ProductShippingBox {
+  id: number;
+  product_id: number;
+  variation_option_id: number | null;
+  label: string | null;
+  length: number;
+  width: number;
+  height: number;
+  dimension_unit: DimensionUnit;
+  weight: number;
+  weight_unit: WeightUnit;
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ShippingBoxInput {
+  variation_option_id?: number | null;
+  label?: string | null;
+  length: number;
+  width: number;
+  height: number;
+  dimension_unit?: DimensionUnit;
+  weight: number;
+  weight_unit?: WeightUnit;
+}
+
+export interface ParcelContent {
+  productId: number;
+  name: string;
+  quantity: number;
+  weightLbs: number;
+}
+
+/**
+ * One concrete parcel produced by packing. Dimensions are inches, weights pounds and kilograms.
+ */
+export interface Parcel {
+  /** Standard carton code the contents were packed into; null when shipped in the product's own box */
+  carton: string | null;
+  length: number;
+  width: number;
+  height: number;
+  weightLbs: number;
+  weightKg: number;
+  packageSize: PackageSize;
+  contents: ParcelContent[];
+}
+
+/**
+ * How one method was priced for a destination and cart (admin "test a rate")
+ */
+export interface ShippingMethodEvaluation {
+  method_id: number;
+  code: string;
+  name: string;
+  method_type: ShippingMethodType;
+  available: boolean;
+  reason?: string;
+  base_price: number | null;
+  surcharge: number;
+  free_shipping_applied: boolean;
+  price: number | null;
+  requires_manual_quote: boolean;
+}
+
+export interface ShippingRateTestResult {
+  zone: { id: number; name: string } | null;
+  weight_kg: number;
+  package_size: PackageSize;
+  parcels: Parcel[];
+  order_total: number;
+  shipping_classes: string[];
+  methods: ShippingMethodEvaluation[];
+}
+
+// ============================================================================
+// SHIPMENTS
+// ============================================================================
+
+export type ShipmentStatus =
+  | 'pending'
+  | 'label_created'
+  | 'picked_up'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'failed'
+  | 'returned'
+  | 'voided';
+
+/**
+ * One parcel of a carrier shipment. Multi-parcel shipments share a master tracking number.
+ * The label document itself is only loaded when it is downloaded.
+ */
+export interface Shipment {
+  id: number;
+  order_id: number;
+  carrier: string;
+  service_code: string | null;
+  tracking_number: string;
+  master_tracking_number: string | null;
+  tracking_url: string | null;
+  shipping_cost: number | null;
+  status: ShipmentStatus;
+  label_format: string | null;
+  has_label: boolean;
+  parcel: Parcel | null;
+  created_by: number | null;
+  created_at: Date;
+  voided_at: Date | null;
+  voided_by: number | null;
+}
+
+export interface CreateShipmentLabelInput {
+  serviceType?: FedExServiceType;
+  createdBy?: number;
+}
+
+/**
+ * Carrier tracking scan stored in shipment_tracking_events
+ */
+export interface ShipmentTrackingEvent {
+  id: number;
+  shipment_id: number;
+  status: ShipmentStatus;
+  description: string | null;
+  location: string | null;
+  timestamp: Date;
+}
+
+/**
+ * Tracking state of one shipment as reported by its carrier
+ */
+export interface CarrierTrackingUpdate {
+  trackingNumber: string;
+  status: ShipmentStatus;
+  statusDescription: string | null;
+  estimatedDelivery: Date | null;
+  deliveredAt: Date | null;
+  events: Array<{
+    status: ShipmentStatus;
+    description: string;
+    location: string | null;
+    timestamp: Date;
+  }>;
+}
+
+/**
+ * Customer-facing timeline of one shipment
+ */
+export interface ShipmentTimeline {
+  id: number;
+  carrier: string;
+  service_code: string | null;
+  tracking_number: string;
+  tracking_url: string | null;
+  status: ShipmentStatus;
+  estimated_delivery: Date | null;
+  actual_delivery: Date | null;
+  shipped_at: Date | null;
+  events: ShipmentTrackingEvent[];
+}
+
+export interface OrderTrackingTimeline {
+  order_number: string;
+  status: string;
+  shipping_status: string;
+  shipments: ShipmentTimeline[];
+}
+
+export interface TrackingSyncResult {
+  checked: number;
+  updated: number;
+  delivered_orders: number;
+  errors: number;
+}
@@ -0,0 +1,65 @@
+/**
+ * Social Login Types
+ * External OAuth2/OIDC sign-in providers and the identities linked to users
+ */
+
+export type SocialProviderId = 'google' | 'discord';
+
+export interface OidcEndpoints {
+  issuer?: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint?: string;
+  jwksUri?: string;
+}
+
+export interface OidcClientCredentials {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+export interface OidcTokenSet {
+  access_token: string;
+  id_token?: string;
+  token_type?: string;
+  expires_in?: number;
+}
+
+/**
+ * Provider account normalised across OIDC claims and provider-specific profiles
+ */
+export interface OidcProfile {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+export interface SocialProviderSummary {
+  id: SocialProviderId;
+  name: string;
+}
+
+export interface LinkedIdentity {
+  provider: SocialProviderId;
+  name: string;
+  email: string | null;
+  linkedAt: Date;
+  lastLoginAt: Date | null;
+}
+
+/**
+ * Kept in the session between the redirect to the provider and its callback
+ */
+export interface OAuthFlowState {
+  provider: SocialProviderId;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  mode: 'login' | 'link';
+  returnTo: string;
+  region: 'us' | 'eu';
+  createdAt: number;
+}
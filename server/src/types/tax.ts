@@ -0,0 +1,86 @@
+/**
+ * Tax Types
+ * Type definitions for tax rules and tax calculation results
+ */
+
+export interface TaxRule {
+  id: number;
+  name: string;
+  country: string;
+  state_code: string | null;
+  postal_prefix: string | null;
+  tax_class: string;
+  rate: number;
+  tax_shipping: boolean;
+  priority: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateTaxRuleDto {
+  name: string;
+  country: string;
+  state_code?: string | null;
+  postal_prefix?: string | null;
+  tax_class?: string;
+  rate: number;
+  tax_shipping?: boolean;
+  priority?: number;
+  is_active?: boolean;
+}
+
+export type UpdateTaxRuleDto = Partial<CreateTaxRuleDto>;
+
+export interface TaxRuleFilters {
+  country?: string;
+  tax_class?: string;
+  is_active?: boolean;
+}
+
+/**
+ * Destination used to pick tax rules
+ */
+export interface TaxAddress {
+  country: string;
+  state?: string;
+  postalCode?: string;
+}
+
+/**
+ * One priced line to be taxed. lineTotal is the line price before the order discount.
+ */
+export interface TaxableLine {
+  reference: number;
+  lineTotal: number;
+  taxClass?: string | null;
+  taxStatus?: string | null;
+}
+
+export interface TaxCalculationInput {
+  region: 'us' | 'eu';
+  address?: TaxAddress;
+  lines: TaxableLine[];
+  discount: number;
+  shipping: number;
+}
+
+export interface TaxLineResult {
+  reference: number;
+  tax_class: string;
+  taxable_amount: number;
+  tax_rate: number;
+  tax_amount: number;
+  tax_rule_id: number | null;
+  tax_label: string | null;
+}
+
+export interface TaxCalculation {
+  lines: TaxLineResult[];
+  items_tax: number;
+  shipping_tax: number;
+  shipping_tax_rate: number;
+  total_tax: number;
+  /** Prices are gross: total_tax is contained in the line and shipping amounts, not added on top */
+  prices_include_tax: boolean;
+}
@@ -0,0 +1,36 @@
+/**
+ * Two-Factor Types
+ * Type definitions for TOTP two-factor authentication and step-up re-authentication
+ */
+
+/**
+ * What the RBAC model asks of a user: whether any of their roles requires 2FA,
+ * and which of their authorities need a fresh second factor before writes
+ */
+export interface TwoFactorPolicy {
+  enabled: boolean;
+  required: boolean;
+  stepUpAuthorities: string[];
+}
+
+export interface TwoFactorStatus extends TwoFactorPolicy {
+  /** Setup started but the first code has not been confirmed */
+  pending: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrolment {
+  /** Base32 secret for manual entry in the authenticator app */
+  secret: string;
+  otpauthUrl: string;
+  /** QR code of the otpauth URL as a PNG data URL */
+  qrCode: string;
+}
+
+/**
+ * A second factor presented at login or step-up: an authenticator code or a one-time recovery code
+ */
+export interface TwoFactorChallengeDto {
+  code?: string;
+  recoveryCode?: string;
+}
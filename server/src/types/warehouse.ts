@@ -0,0 +1,118 @@
+/**
+ * Warehouse Types
+ * Type definitions for fulfilment locations, per-location stock and stock transfers
+ */
+
+export type WarehouseRegion = 'us' | 'eu';
+
+export interface Warehouse {
+  id: number;
+  code: string;
+  name: string;
+  region: WarehouseRegion;
+  address: Record<string, any> | null;
+  /** ISO country codes this location prefers to ship to; empty serves the whole region */
+  serves_countries: string[];
+  priority: number;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WarehouseWithTotals extends Warehouse {
+  sku_count: number;
+  units_on_hand: number;
+  units_reserved: number;
+  low_stock_count: number;
+}
+
+export interface CreateWarehouseDto {
+  code: string;
+  name: string;
+  region: WarehouseRegion;
+  address?: Record<string, any> | null;
+  serves_countries?: string[];
+  priority?: number;
+  is_default?: boolean;
+  is_active?: boolean;
+}
+
+export type UpdateWarehouseDto = Partial<CreateWarehouseDto>;
+
+/**
+ * Stock of one product (or variation option) at one location
+ */
+export interface WarehouseStockLevel {
+  warehouse_id: number;
+  warehouse_code: string;
+  warehouse_name: string;
+  product_id: number;
+  variation_option_id: number | null;
+  quantity: number;
+  reserved_quantity: number;
+  available: number;
+  /** Location threshold, falling back to the product or option threshold */
+  low_stock_threshold: number | null;
+  is_low_stock: boolean;
+}
+
+/**
+ * Where an order ships to; reservations pick a warehouse from it
+ */
+export interface StockDestination {
+  region: WarehouseRegion;
+  countryCode?: string | null;
+}
+
+/**
+ * Part of a reservation held at one warehouse
+ */
+export interface StockAllocation {
+  warehouseId: number;
+  quantity: number;
+}
+
+export type StockTransferStatus = 'draft' | 'in_transit' | 'received' | 'cancelled';
+
+export interface StockTransferItem {
+  id: number;
+  transfer_id: number;
+  product_id: number;
+  variation_option_id: number | null;
+  destination_product_id: number;
+  destination_variation_option_id: number | null;
+  quantity: number;
+  product_name?: string;
+  sku?: string;
+  option_name?: string | null;
+}
+
+export interface StockTransfer {
+  id: number;
+  transfer_number: string;
+  from_warehouse_id: number;
+  to_warehouse_id: number;
+  status: StockTransferStatus;
+  notes: string | null;
+  created_by: number | null;
+  shipped_at: Date | null;
+  received_at: Date | null;
+  cancelled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  from_warehouse_name?: string;
+  to_warehouse_name?: string;
+  items?: StockTransferItem[];
+}
+
+export interface CreateStockTransferDto {
+  fromWarehouseId: number;
+  toWarehouseId: number;
+  notes?: string | null;
+  items: Array<{
+    productId: number;
+    variationOptionId?: number | null;
+    quantity: number;
+  }>;
+}
@@ -0,0 +1,51 @@
+/**
+ * Address Rules Utility
+ * Country/state validation shared with the storefront AddressForm, which stores
+ * the ISO 2-letter country code and the full state/province name from country-state-city
+ */
+
+import { Country, State } from 'country-state-city';
+
+/**
+ * Validate a country/state pair the same way the checkout address form builds it
+ * @param countryCode - ISO 2-letter country code (e.g., 'US', 'DE')
+ * @param stateName - Full state/province name (e.g., 'California')
+ * @returns An error message, or null when the pair is valid
+ */
+export function getCountryStateError(countryCode: string, stateName: string): string | null {
+  if (!countryCode || !Country.getCountryByCode(countryCode)) {
+    return 'Country must be a valid ISO 2-letter country code';
+  }
+
+  const states = State.getStatesOfCountry(countryCode);
+
+  // Countries without subdivisions accept any non-empty region
+  if (states.length === 0) {
+    return stateName && stateName.trim() ? null : 'State/province is required';
+  }
+
+  if (!states.some(state => state.name === stateName)) {
+    return `State/province "${stateName}" is not valid for country ${countryCode}`;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a state/province to its ISO subdivision code (e.g., 'Florida' or 'FL' -> 'FL')
+ * @param countryCode - ISO 2-letter country code
+ * @param state - Full state/province name or its code
+ * @returns The subdivision code, or null when it cannot be resolved
+ */
+export function getStateCode(countryCode: string, state?: string): string | null {
+  if (!countryCode || !state) {
+    return null;
+  }
+
+  const needle = state.trim().toLowerCase();
+  const match = State.getStatesOfCountry(countryCode.toUpperCase()).find(
+    s => s.name.toLowerCase() === needle || s.isoCode.toLowerCase() === needle
+  );
+
+  return match ? match.isoCode : null;
+}
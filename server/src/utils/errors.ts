@@ -82,6 +82,11 @@ export enum ErrorCode {
   TOKEN_EXPIRED = 'TOKEN_EXPIRED',
   EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED',
   ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  TWO_FACTOR_REQUIRED = 'TWO_FACTOR_REQUIRED',
+  INVALID_TWO_FACTOR_CODE = 'INVALID_TWO_FACTOR_CODE',
+  TWO_FACTOR_ENROLLMENT_REQUIRED = 'TWO_FACTOR_ENROLLMENT_REQUIRED',
+  STEP_UP_REQUIRED = 'STEP_UP_REQUIRED',
+  SOCIAL_LOGIN_FAILED = 'SOCIAL_LOGIN_FAILED',
   
   // Authorization
   FORBIDDEN = 'FORBIDDEN',
@@ -0,0 +1,180 @@
+/**
+ * Packing Utilities
+ * Turns a cart's units into concrete parcels. Units that come in their own box ship as-is;
+ * the rest are packed first-fit-decreasing (by volume) into the standard cartons.
+ * All dimensions are inches and all weights pounds.
+ */
+
+import { PackageSize, Parcel, ParcelContent } from '../types/shipping';
+
+export const KG_PER_LB = 0.453592;
+const CM_PER_IN = 2.54;
+
+/**
+ * One physical unit to pack: a product's own box, or a loose product going into a carton
+ */
+export interface PackingUnit {
+  productId: number;
+  name: string;
+  length: number;
+  width: number;
+  height: number;
+  weight: number;
+  ownBox: boolean;
+}
+
+export interface ShippingCarton {
+  code: string;
+  length: number;
+  width: number;
+  height: number;
+  maxWeight: number;
+}
+
+/**
+ * Standard cartons, smallest first
+ */
+export const SHIPPING_CARTONS: ShippingCarton[] = [
+  { code: 'S', length: 12, width: 9, height: 6, maxWeight: 20 },
+  { code: 'M', length: 18, width: 12, height: 12, maxWeight: 50 },
+  { code: 'L', length: 30, width: 20, height: 16, maxWeight: 70 }
+];
+
+// Share of a carton's volume that can be filled, leaving room for packing material
+const CARTON_FILL_RATIO = 0.8;
+
+export const toInches = (value: number, unit?: string | null): number =>
+  unit === 'cm' ? value / CM_PER_IN : value;
+
+// Product weights without a unit have always been treated as pounds
+export const toPounds = (value: number, unit?: string | null): number =>
+  unit === 'kg' ? value / KG_PER_LB : value;
+
+/**
+ * S/M/L size of a parcel by its largest dimension: under 12in is S, up to 24in is M, larger is L
+ */
+export const classifyPackageSize = (length: number, width: number, height: number): PackageSize => {
+  const maxDimension = Math.max(length, width, height);
+
+  if (maxDimension < 12) {
+    return 'S';
+  }
+  return maxDimension <= 24 ? 'M' : 'L';
+};
+
+const volume = (box: { length: number; width: number; height: number }): number =>
+  box.length * box.width * box.height;
+
+const sortedDimensions = (box: { length: number; width: number; height: number }): number[] =>
+  [box.length, box.width, box.height].sort((a, b) => b - a);
+
+/**
+ * Whether a unit fits inside a carton in some orientation
+ */
+const fitsInside = (unit: PackingUnit, carton: ShippingCarton): boolean => {
+  const unitDimensions = sortedDimensions(unit);
+  const cartonDimensions = sortedDimensions(carton);
+  return unitDimensions.every((dimension, index) => dimension <= cartonDimensions[index]);
+};
+
+const round = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const buildParcel = (
+  carton: string | null,
+  box: { length: number; width: number; height: number },
+  units: PackingUnit[]
+): Parcel => {
+  const contents = new Map<string, ParcelContent>();
+  let weightLbs = 0;
+
+  for (const unit of units) {
+    const key = `${unit.productId}|${unit.name}`;
+    const content = contents.get(key) || { productId: unit.productId, name: unit.name, quantity: 0, weightLbs: 0 };
+    content.quantity += 1;
+    content.weightLbs = round(content.weightLbs + unit.weight, 2);
+    contents.set(key, content);
+    weightLbs += unit.weight;
+  }
+
+  return {
+    carton,
+    length: round(box.length, 1),
+    width: round(box.width, 1),
+    height: round(box.height, 1),
+    weightLbs: round(weightLbs, 2),
+    weightKg: round(weightLbs * KG_PER_LB, 3),
+    packageSize: classifyPackageSize(box.length, box.width, box.height),
+    contents: Array.from(contents.values())
+  };
+};
+
+/**
+ * Pack units into parcels. Own-box units and units too large or heavy for every carton
+ * become single parcels; the rest go into the first open carton with room, largest first,
+ * opening the smallest carton that fits when none has room.
+ */
+export const packUnits = (units: PackingUnit[], cartons: ShippingCarton[] = SHIPPING_CARTONS): Parcel[] => {
+  const parcels: Parcel[] = [];
+  const bins: Array<{ carton: ShippingCarton; units: PackingUnit[]; volume: number; weight: number }> = [];
+
+  const loose = units
+    .filter(unit => !unit.ownBox)
+    .sort((a, b) => volume(b) - volume(a) || b.weight - a.weight);
+
+  for (const unit of units.filter(candidate => candidate.ownBox)) {
+    parcels.push(buildParcel(null, unit, [unit]));
+  }
+
+  for (const unit of loose) {
+    const unitVolume = volume(unit);
+    let bin = bins.find(candidate =>
+      fitsInside(unit, candidate.carton) &&
+      candidate.volume + unitVolume <= volume(candidate.carton) * CARTON_FILL_RATIO &&
+      candidate.weight + unit.weight <= candidate.carton.maxWeight
+    );
+
+    if (!bin) {
+      const carton = cartons.find(candidate =>
+        fitsInside(unit, candidate) &&
+        unitVolume <= volume(candidate) * CARTON_FILL_RATIO &&
+        unit.weight <= candidate.maxWeight
+      );
+
+      if (!carton) {
+        // Oversize or overweight for every carton: ships in its own packaging
+        parcels.push(buildParcel(null, unit, [unit]));
+        continue;
+      }
+
+      bin = { carton, units: [], volume: 0, weight: 0 };
+      bins.push(bin);
+    }
+
+    bin.units.push(unit);
+    bin.volume += unitVolume;
+    bin.weight += unit.weight;
+  }
+
+  for (const bin of bins) {
+    parcels.push(buildParcel(bin.carton.code, bin.carton, bin.units));
+  }
+
+  return parcels;
+};
+
+/**
+ * Largest S/M/L size among the parcels
+ */
+export const largestPackageSize = (parcels: Parcel[], fallback: PackageSize = 'M'): PackageSize => {
+  if (parcels.length === 0) {
+    return fallback;
+  }
+  const order: PackageSize[] = ['S', 'M', 'L'];
+  return parcels.reduce<PackageSize>(
+    (largest, parcel) => order.indexOf(parcel.packageSize) > order.indexOf(largest) ? parcel.packageSize : largest,
+    'S'
+  );
+};
@@ -3,6 +3,8 @@
  * Creates ShipStation-compliant XML responses for order export
  */
 
+import { Parcel } from '../types/shipping';
+
 export interface ShipStationOrder {
   id: number;
   order_number: string;
@@ -24,10 +26,12 @@ export interface ShipStationOrder {
   shipping_method?: string;
   notes?: string;
   items: ShipStationOrderItem[];
+  parcels?: Parcel[];
 }
 
 export interface ShipStationOrderItem {
   id: number;
+  product_id?: number | null;
   product_name: string;
   product_sku: string;
   product_image?: string;
@@ -35,6 +39,8 @@ export interface ShipStationOrderItem {
   unit_price: number;
   total_price: number;
   configuration?: any;
+  /** Per-unit weight in pounds from packing */
+  weight_lbs?: number;
 }
 
 export interface ShipStationTrackingData {
@@ -150,7 +156,7 @@ function buildItemsXML(items: ShipStationOrderItem[]): string {
       <SKU>${escapeXml(item.product_sku)}</SKU>
       <Name>${escapeXml(item.product_name)}</Name>
       <ImageUrl>${item.product_image ? escapeXml(item.product_image) : ''}</ImageUrl>
-      <Weight>0</Weight>
+      <Weight>${item.weight_lbs || 0}</Weight>
       <WeightUnits>pounds</WeightUnits>
       <Quantity>${item.quantity}</Quantity>
       <UnitPrice>${item.unit_price.toFixed(2)}</UnitPrice>
@@ -161,6 +167,23 @@ function buildItemsXML(items: ShipStationOrderItem[]): string {
   return `<Items>${itemsXML}</Items>`;
 }
 
+/**
+ * Describe the packed parcels for the warehouse, e.g. "2 parcels: 30x20x16in 42.5lb (L carton); ..."
+ */
+function buildParcelNotes(parcels?: Parcel[]): string {
+  if (!parcels || parcels.length === 0) {
+    return '';
+  }
+
+  const descriptions = parcels.map(parcel => {
+    const box = parcel.carton ? `${parcel.carton} carton` : 'own box';
+    const contents = parcel.contents.map(content => `${content.quantity}x ${content.name}`).join(', ');
+    return `${parcel.length}x${parcel.width}x${parcel.height}in ${parcel.weightLbs}lb (${box}): ${contents}`;
+  });
+
+  return `${parcels.length} parcel${parcels.length === 1 ? '' : 's'}: ${descriptions.join('; ')}`;
+}
+
 /**
  * Build individual order XML element
  */
@@ -180,7 +203,7 @@ function buildOrderXML(order: ShipStationOrder): string {
     <TaxAmount>${order.tax_amount.toFixed(2)}</TaxAmount>
     <ShippingAmount>${order.shipping_amount.toFixed(2)}</ShippingAmount>
     <CustomerNotes>${escapeXml(order.notes || '')}</CustomerNotes>
-    <InternalNotes></InternalNotes>
+    <InternalNotes>${escapeXml(buildParcelNotes(order.parcels))}</InternalNotes>
     <Gift>false</Gift>
     <GiftMessage></GiftMessage>
     ${buildCustomerXML(order)}
@@ -0,0 +1,40 @@
+/**
+ * Address Validation Schemas
+ * Joi validation schemas for address book requests.
+ * Country/state combinations are checked against country-state-city in AddressService.
+ */
+
+import Joi from 'joi';
+
+const addressFields = {
+  type: Joi.string().valid('shipping', 'billing'),
+  first_name: Joi.string().trim().min(1).max(100),
+  last_name: Joi.string().trim().min(1).max(100),
+  company: Joi.string().trim().max(255).allow('', null),
+  address_line_1: Joi.string().trim().min(3).max(255),
+  address_line_2: Joi.string().trim().max(255).allow('', null),
+  city: Joi.string().trim().min(2).max(100),
+  state: Joi.string().trim().min(1).max(100),
+  postal_code: Joi.string().trim().min(3).max(20),
+  country: Joi.string().trim().uppercase().length(2),
+  phone: Joi.string().trim().max(20).allow('', null),
+  is_default: Joi.boolean()
+};
+
+export const createAddressSchema = Joi.object({
+  ...addressFields,
+  type: addressFields.type.required(),
+  first_name: addressFields.first_name.required(),
+  last_name: addressFields.last_name.required(),
+  address_line_1: addressFields.address_line_1.required(),
+  city: addressFields.city.required(),
+  state: addressFields.state.required(),
+  postal_code: addressFields.postal_code.required(),
+  country: addressFields.country.required()
+});
+
+export const updateAddressSchema = Joi.object(addressFields).min(1);
+
+export const addressQuerySchema = Joi.object({
+  type: Joi.string().valid('shipping', 'billing').optional()
+});
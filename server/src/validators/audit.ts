@@ -0,0 +1,18 @@
+/**
+ * Audit Validation Schemas
+ * Joi validation schemas for audit log queries
+ */
+
+import Joi from 'joi';
+
+export const auditLogQuerySchema = Joi.object({
+  adminId: Joi.number().integer().positive().optional(),
+  resourceType: Joi.string().trim().max(50).optional(),
+  resourceId: Joi.string().trim().max(100).optional(),
+  action: Joi.string().trim().max(100).optional(),
+  search: Joi.string().trim().max(200).allow('').optional(),
+  from: Joi.string().isoDate().optional(),
+  to: Joi.string().isoDate().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(200).default(50)
+});
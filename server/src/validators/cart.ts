@@ -49,6 +49,15 @@ export const applyCouponSchema = Joi.object({
   couponCode: Joi.string().min(2).max(50).required()
 });
 
+export const taxEstimateSchema = Joi.object({
+  shippingAddress: Joi.object({
+    country: Joi.string().length(2).uppercase().required(),
+    state: Joi.string().max(100).allow('', null).optional(),
+    postalCode: Joi.string().max(20).allow('', null).optional()
+  }).required(),
+  shippingAmount: Joi.number().min(0).default(0)
+});
+
 // ============================================================================
 // ORDER SCHEMAS
 // ============================================================================
@@ -92,6 +101,15 @@ export const cancelOrderSchema = Joi.object({
   comments: Joi.string().max(1000).optional()
 });
 
+export const orderLookupSchema = Joi.object({
+  orderNumber: Joi.string().trim().max(50).required(),
+  email: Joi.string().trim().email().max(255).required()
+});
+
+export const orderLookupVerifySchema = Joi.object({
+  token: Joi.string().max(1000).required()
+});
+
 // ============================================================================
 // VALIDATION HELPERS
 // ============================================================================
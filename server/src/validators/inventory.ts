@@ -0,0 +1,24 @@
+/**
+ * Inventory Validation Schemas
+ * Joi validation schemas for inventory ledger queries and stock alerts
+ */
+
+import Joi from 'joi';
+import { INVENTORY_MOVEMENT_REASONS } from '../types/inventory';
+
+export const inventoryMovementQuerySchema = Joi.object({
+  optionId: Joi.number().integer().positive().optional(),
+  reason: Joi.string().valid(...INVENTORY_MOVEMENT_REASONS).optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(200).default(50)
+});
+
+export const stockAlertQuerySchema = Joi.object({
+  status: Joi.string().valid('active', 'open', 'acknowledged', 'snoozed', 'resolved').default('active'),
+  region: Joi.string().valid('us', 'eu').optional(),
+  level: Joi.string().valid('low_stock', 'out_of_stock').optional()
+});
+
+export const snoozeStockAlertSchema = Joi.object({
+  days: Joi.number().integer().min(1).max(90).required()
+});
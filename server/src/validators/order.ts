@@ -0,0 +1,16 @@
+/**
+ * Order Validation Schemas
+ * Joi validation schemas for admin order updates.
+ * Whether the requested status is reachable is checked in OrderStatusService.
+ */
+
+import Joi from 'joi';
+import { OrderStatus } from '../types/cart';
+
+export const updateOrderStatusSchema = Joi.object({
+  status: Joi.string().valid(...Object.values(OrderStatus)).optional(),
+  reason: Joi.string().trim().max(1000).allow('', null).optional(),
+  trackingNumber: Joi.string().trim().max(100).allow('', null).optional(),
+  carrier: Joi.string().trim().max(100).allow('', null).optional(),
+  notes: Joi.string().max(5000).allow('', null).optional()
+}).or('status', 'trackingNumber', 'carrier', 'notes');
@@ -5,6 +5,7 @@
 
 import Joi from 'joi';
 import { ProductType, ProductStatus, VariationType } from '../types/product';
+import { SEARCH_PRICE_BANDS } from '../types/search';
 
 // ============================================================================
 // VALID CATEGORIES
@@ -26,6 +27,15 @@ const VALID_CATEGORIES = [
   'flight-sim-accessories'
 ];
 
+// Attribute codes are slugs: used in CSV headers' JSON and storefront filter URLs
+const ATTRIBUTE_CODE_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// attr[wheel-base-brand]=fanatec,moza&attr[monitor-size]=32
+const attributeFilterSchema = Joi.object()
+  .pattern(ATTRIBUTE_CODE_PATTERN, Joi.alternatives(Joi.string().max(500), Joi.array().items(Joi.string().max(100)).max(20)))
+  .max(20)
+  .optional();
+
 // ============================================================================
 // PRODUCT SCHEMAS
 // ============================================================================
@@ -243,14 +253,115 @@ export const productQuerySchema = Joi.object({
   status: Joi.string().valid(...Object.values(ProductStatus)).optional(),
   sortBy: Joi.string().valid('name', 'price', 'created_at', 'featured', 'rating').optional(),
   sortOrder: Joi.string().valid('asc', 'desc').optional(),
-  tags: Joi.string().optional() // Comma-separated string
+  tags: Joi.string().optional(), // Comma-separated string
+  attr: attributeFilterSchema
 });
 
 export const searchQuerySchema = Joi.object({
   q: Joi.string().optional().allow(''), // Allow empty/single char - controller handles validation
   page: Joi.number().integer().min(1).optional(),
   limit: Joi.number().integer().min(1).max(50).optional(),
-  category: Joi.string().optional()
+  category: Joi.string().optional(),
+  priceBand: Joi.string().valid(...SEARCH_PRICE_BANDS.map(band => band.id)).optional(),
+  minPrice: Joi.number().min(0).optional(),
+  maxPrice: Joi.number().min(0).optional(),
+  inStock: Joi.string().valid('true', 'false').optional(),
+  attr: attributeFilterSchema,
+  session_id: Joi.string().max(255).optional() // Analytics session; when present the search is logged
+});
+
+export const searchSuggestionsQuerySchema = Joi.object({
+  q: Joi.string().max(200).allow('').default(''),
+  limit: Joi.number().integer().min(1).max(10).optional(),
+  session_id: Joi.string().max(255).optional()
+});
+
+export const searchClickSchema = Joi.object({
+  product_id: Joi.number().integer().positive().required(),
+  session_id: Joi.string().max(255).required(),
+  position: Joi.number().integer().min(1).optional()
+});
+
+export const searchSynonymSchema = Joi.object({
+  term: Joi.string().trim().min(1).max(100).required(),
+  synonyms: Joi.array().items(Joi.string().trim().min(1).max(100)).min(1).max(20).required(),
+  is_active: Joi.boolean().optional()
+});
+
+export const searchRedirectSchema = Joi.object({
+  query: Joi.string().trim().min(1).max(200).required(),
+  // Site path or absolute http(s) URL
+  target_url: Joi.string().trim().max(500).pattern(/^(\/(?!\/)|https?:\/\/)/).required()
+    .messages({ 'string.pattern.base': 'Target must be a site path (/page) or an http(s) URL' }),
+  is_active: Joi.boolean().optional()
+});
+
+export const searchReportQuerySchema = Joi.object({
+  days: Joi.number().integer().valid(7, 30, 90, 365).default(30),
+  region: Joi.string().valid('us', 'eu').optional()
+});
+
+// ============================================================================
+// RECOMMENDATION SCHEMAS
+// ============================================================================
+
+export const recommendationQuerySchema = Joi.object({
+  // Comma-separated product IDs: the product page or the cart contents
+  product_ids: Joi.string().pattern(/^\d+(,\d+){0,49}$/).required()
+    .messages({ 'string.pattern.base': 'product_ids must be a comma-separated list of up to 50 product IDs' }),
+  limit: Joi.number().integer().min(1).max(12).default(4)
+});
+
+export const productRelationshipSchema = Joi.object({
+  related_product_id: Joi.number().integer().positive().required(),
+  // The types shown on the storefront
+  relationship_type: Joi.string().valid('frequently_bought_together', 'accessory', 'related').required(),
+  is_excluded: Joi.boolean().default(false),
+  sort_order: Joi.number().integer().min(0).default(0)
+});
+
+// ============================================================================
+// COMPARE SCHEMAS
+// ============================================================================
+
+export const compareItemSchema = Joi.object({
+  productId: Joi.number().integer().positive().required()
+});
+
+export const compareQuerySchema = Joi.object({
+  // Comma-separated product IDs, as in shared compare links
+  product_ids: Joi.string().pattern(/^\d+(,\d+){0,3}$/).required()
+    .messages({ 'string.pattern.base': 'product_ids must be a comma-separated list of up to 4 product IDs' })
+});
+
+// ============================================================================
+// PRODUCT ATTRIBUTE SCHEMAS
+// ============================================================================
+
+export const productAttributeSchema = Joi.object({
+  code: Joi.string().trim().lowercase().max(100).pattern(ATTRIBUTE_CODE_PATTERN).required()
+    .messages({ 'string.pattern.base': 'Code may only contain lowercase letters, numbers and dashes' }),
+  name: Joi.string().trim().min(1).max(255).required(),
+  type: Joi.string().valid('select', 'multiselect', 'number', 'range').required(),
+  unit: Joi.string().trim().max(20).allow('', null).optional(),
+  // Empty applies to every category
+  categories: Joi.array().items(Joi.string().valid(...VALID_CATEGORIES)).default([]),
+  options: Joi.array().items(Joi.object({
+    value: Joi.string().trim().max(100).pattern(/^[^,]+$/).required()
+      .messages({ 'string.pattern.base': 'Option values cannot contain commas' }),
+    label: Joi.string().trim().min(1).max(255).required()
+  })).max(200).default([]),
+  is_filterable: Joi.boolean().default(true),
+  sort_order: Joi.number().integer().min(0).default(0)
+});
+
+export const productAttributeValuesSchema = Joi.object({
+  attributes: Joi.array().items(Joi.object({
+    code: Joi.string().max(100).required(),
+    values: Joi.array().items(Joi.string().max(100)).optional(),
+    min: Joi.number().allow(null).optional(),
+    max: Joi.number().allow(null).optional()
+  })).max(100).required()
 });
 
 // ============================================================================
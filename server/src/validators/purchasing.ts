@@ -0,0 +1,74 @@
+/**
+ * Purchasing Validation Schemas
+ * Joi validation schemas for suppliers, purchase orders and receiving
+ */
+
+import Joi from 'joi';
+
+const supplierFields = {
+  name: Joi.string().trim().min(1).max(200),
+  contact_name: Joi.string().trim().max(200).allow('', null),
+  email: Joi.string().trim().email().max(255).allow('', null),
+  phone: Joi.string().trim().max(50).allow('', null),
+  address: Joi.object().allow(null),
+  currency: Joi.string().trim().uppercase().length(3),
+  lead_time_days: Joi.number().integer().min(0).max(365).allow(null),
+  notes: Joi.string().max(2000).allow('', null),
+  is_active: Joi.boolean()
+};
+
+export const createSupplierSchema = Joi.object({
+  ...supplierFields,
+  name: supplierFields.name.required()
+});
+
+export const updateSupplierSchema = Joi.object(supplierFields).min(1);
+
+const purchaseOrderItemSchema = Joi.object({
+  productId: Joi.number().integer().positive().required(),
+  variationOptionId: Joi.number().integer().positive().allow(null).optional(),
+  quantity: Joi.number().integer().min(1).required(),
+  unitCost: Joi.number().min(0).precision(2).required()
+});
+
+const purchaseOrderFields = {
+  supplierId: Joi.number().integer().positive(),
+  warehouseId: Joi.number().integer().positive(),
+  currency: Joi.string().trim().uppercase().length(3),
+  expectedAt: Joi.string().isoDate().allow('', null),
+  shippingCost: Joi.number().min(0).precision(2),
+  dutyCost: Joi.number().min(0).precision(2),
+  otherCost: Joi.number().min(0).precision(2),
+  notes: Joi.string().max(2000).allow('', null),
+  items: Joi.array().items(purchaseOrderItemSchema).min(1)
+};
+
+export const createPurchaseOrderSchema = Joi.object({
+  ...purchaseOrderFields,
+  supplierId: purchaseOrderFields.supplierId.required(),
+  warehouseId: purchaseOrderFields.warehouseId.required(),
+  items: purchaseOrderFields.items.required()
+});
+
+export const updatePurchaseOrderSchema = Joi.object(purchaseOrderFields).min(1);
+
+export const purchaseOrderQuerySchema = Joi.object({
+  status: Joi.string().valid('draft', 'ordered', 'partially_received', 'received', 'cancelled').optional(),
+  supplierId: Joi.number().integer().positive().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+export const receivePurchaseOrderSchema = Joi.object({
+  lines: Joi.array().items(
+    Joi.object({
+      itemId: Joi.number().integer().positive().required(),
+      quantity: Joi.number().integer().min(0).required()
+    })
+  ).min(1).required(),
+  note: Joi.string().max(1000).allow('', null).optional()
+});
+
+export const marginReportQuerySchema = Joi.object({
+  period: Joi.string().valid('7d', '30d', '90d', '365d').default('30d')
+});
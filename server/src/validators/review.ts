@@ -0,0 +1,44 @@
+/**
+ * Review Validation Schemas
+ * Joi validation schemas for product review requests
+ */
+
+import Joi from 'joi';
+
+// ============================================================================
+// PUBLIC REVIEW SCHEMAS
+// ============================================================================
+
+export const reviewQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(50).optional(),
+  sort: Joi.string().valid('helpful', 'newest', 'oldest', 'rating_high', 'rating_low').optional(),
+  rating: Joi.number().integer().min(1).max(5).optional(),
+  verified: Joi.boolean().optional()
+});
+
+export const createReviewSchema = Joi.object({
+  rating: Joi.number().integer().min(1).max(5).required(),
+  title: Joi.string().max(255).allow('', null).optional(),
+  review_text: Joi.string().min(10).max(5000).required()
+});
+
+export const reviewVoteSchema = Joi.object({
+  vote_type: Joi.string().valid('helpful', 'not_helpful').required()
+});
+
+// ============================================================================
+// MODERATION SCHEMAS
+// ============================================================================
+
+export const adminReviewQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  status: Joi.string().valid('pending', 'approved', 'rejected').optional(),
+  productId: Joi.number().integer().positive().optional(),
+  search: Joi.string().max(255).allow('').optional()
+});
+
+export const moderateReviewSchema = Joi.object({
+  note: Joi.string().max(1000).allow('', null).optional()
+});
@@ -0,0 +1,101 @@
+/**
+ * Shipping Validation Schemas
+ * Joi validation schemas for admin shipping zone, method, rate test, product box list and label requests.
+ * Rate tables are checked against the method type in ShippingZoneService.
+ */
+
+import Joi from 'joi';
+import { FEDEX_SERVICE_TYPES } from '../types/fedex';
+
+const countryCode = Joi.string().trim().uppercase().length(2);
+
+const shippingZoneFields = {
+  name: Joi.string().trim().min(1).max(100),
+  countries: Joi.array().items(countryCode).max(300),
+  states: Joi.array().items(Joi.string().trim().min(1).max(100)).max(100),
+  postal_codes: Joi.array().items(Joi.string().trim().min(1).max(50)).max(500),
+  sort_order: Joi.number().integer().min(0).max(10000),
+  is_active: Joi.boolean()
+};
+
+export const createShippingZoneSchema = Joi.object({
+  ...shippingZoneFields,
+  name: shippingZoneFields.name.required()
+});
+
+export const updateShippingZoneSchema = Joi.object(shippingZoneFields).min(1);
+
+const rateTierSchema = Joi.object({
+  min: Joi.number().min(0).allow(null),
+  max: Joi.number().min(0).allow(null),
+  size: Joi.string().valid('S', 'M', 'L'),
+  cost: Joi.number().min(0).precision(2).required()
+});
+
+const classRuleSchema = Joi.object({
+  shipping_class: Joi.string().trim().lowercase().min(1).max(100).required(),
+  action: Joi.string().valid('surcharge', 'exclude').required(),
+  amount: Joi.number().min(0).precision(2).when('action', { is: 'surcharge', then: Joi.required() }),
+  per: Joi.string().valid('item', 'order').default('order')
+});
+
+const shippingMethodFields = {
+  code: Joi.string().trim().lowercase().pattern(/^[a-z0-9_]+$/).min(1).max(50)
+    .messages({ 'string.pattern.base': 'Code may only contain letters, numbers and underscores' }),
+  name: Joi.string().trim().min(1).max(100),
+  carrier: Joi.string().trim().max(50).allow('', null),
+  estimated_days: Joi.string().trim().max(100).allow('', null),
+  method_type: Joi.string().valid('flat', 'weight_tier', 'total_tier', 'package_size', 'carrier', 'quote'),
+  base_cost: Joi.number().min(0).precision(2),
+  rates: Joi.array().items(rateTierSchema).max(50),
+  free_shipping_mode: Joi.string().valid('none', 'region', 'amount'),
+  free_shipping_threshold: Joi.number().min(0).precision(2).allow(null),
+  class_rules: Joi.array().items(classRuleSchema).max(50),
+  sort_order: Joi.number().integer().min(0).max(10000),
+  is_active: Joi.boolean()
+};
+
+export const createShippingMethodSchema = Joi.object({
+  ...shippingMethodFields,
+  code: shippingMethodFields.code.required(),
+  name: shippingMethodFields.name.required(),
+  method_type: shippingMethodFields.method_type.required()
+});
+
+export const updateShippingMethodSchema = Joi.object(shippingMethodFields).min(1);
+
+export const testShippingRateSchema = Joi.object({
+  country: countryCode.required(),
+  state: Joi.string().trim().max(100).allow('', null),
+  postalCode: Joi.string().trim().max(20).allow('', null),
+  orderTotal: Joi.number().min(0).default(0),
+  region: Joi.string().valid('us', 'eu').default('us'),
+  packageSize: Joi.string().valid('S', 'M', 'L').optional(),
+  cartItems: Joi.array().items(
+    Joi.object({
+      productId: Joi.number().integer().positive().required(),
+      quantity: Joi.number().integer().min(1).required(),
+      unitPrice: Joi.number().min(0).default(0),
+      variationOptionIds: Joi.array().items(Joi.number().integer().positive()).max(50).optional()
+    })
+  ).max(100).optional()
+});
+
+const shippingBoxSchema = Joi.object({
+  variation_option_id: Joi.number().integer().positive().allow(null),
+  label: Joi.string().trim().max(100).allow('', null),
+  length: Joi.number().positive().required(),
+  width: Joi.number().positive().required(),
+  height: Joi.number().positive().required(),
+  dimension_unit: Joi.string().valid('cm', 'in').default('in'),
+  weight: Joi.number().positive().required(),
+  weight_unit: Joi.string().valid('kg', 'lbs').default('lbs')
+});
+
+export const replaceShippingBoxesSchema = Joi.object({
+  boxes: Joi.array().items(shippingBoxSchema).max(50).required()
+});
+
+export const createShipmentLabelSchema = Joi.object({
+  serviceType: Joi.string().valid(...FEDEX_SERVICE_TYPES).optional()
+});
@@ -0,0 +1,34 @@
+/**
+ * Tax Validation Schemas
+ * Joi validation schemas for admin tax rule requests.
+ * State codes are resolved against country-state-city in TaxService.
+ */
+
+import Joi from 'joi';
+
+const taxRuleFields = {
+  name: Joi.string().trim().min(1).max(100),
+  country: Joi.string().trim().uppercase().length(2),
+  state_code: Joi.string().trim().max(100).allow('', null),
+  postal_prefix: Joi.string().trim().max(20).allow('', null),
+  tax_class: Joi.string().trim().lowercase().min(1).max(50),
+  rate: Joi.number().min(0).less(1).precision(5),
+  tax_shipping: Joi.boolean(),
+  priority: Joi.number().integer().min(0).max(1000),
+  is_active: Joi.boolean()
+};
+
+export const createTaxRuleSchema = Joi.object({
+  ...taxRuleFields,
+  name: taxRuleFields.name.required(),
+  country: taxRuleFields.country.required(),
+  rate: taxRuleFields.rate.required()
+});
+
+export const updateTaxRuleSchema = Joi.object(taxRuleFields).min(1);
+
+export const taxRuleQuerySchema = Joi.object({
+  country: Joi.string().trim().uppercase().length(2).optional(),
+  tax_class: Joi.string().trim().lowercase().max(50).optional(),
+  is_active: Joi.boolean().optional()
+});
@@ -0,0 +1,58 @@
+/**
+ * Warehouse Validation Schemas
+ * Joi validation schemas for warehouses, per-location stock levels and stock transfers
+ */
+
+import Joi from 'joi';
+
+const warehouseFields = {
+  code: Joi.string().trim().uppercase().pattern(/^[A-Z0-9-]+$/).min(2).max(20),
+  name: Joi.string().trim().min(1).max(100),
+  region: Joi.string().valid('us', 'eu'),
+  address: Joi.object().allow(null),
+  serves_countries: Joi.array().items(Joi.string().trim().uppercase().length(2)),
+  priority: Joi.number().integer().min(0).max(1000),
+  is_default: Joi.boolean(),
+  is_active: Joi.boolean()
+};
+
+export const createWarehouseSchema = Joi.object({
+  ...warehouseFields,
+  code: warehouseFields.code.required(),
+  name: warehouseFields.name.required(),
+  region: warehouseFields.region.required()
+});
+
+export const updateWarehouseSchema = Joi.object(warehouseFields).min(1);
+
+export const warehouseStockQuerySchema = Joi.object({
+  productId: Joi.number().integer().positive().required()
+});
+
+export const updateStockLevelSchema = Joi.object({
+  warehouseId: Joi.number().integer().positive().required(),
+  productId: Joi.number().integer().positive().required(),
+  variationOptionId: Joi.number().integer().positive().allow(null).optional(),
+  quantity: Joi.number().integer().min(0).optional(),
+  low_stock_threshold: Joi.number().integer().min(0).allow(null).optional(),
+  reason: Joi.string().valid('manual_adjustment', 'cycle_count').optional(),
+  note: Joi.string().max(1000).allow('', null).optional()
+}).or('quantity', 'low_stock_threshold');
+
+export const createStockTransferSchema = Joi.object({
+  fromWarehouseId: Joi.number().integer().positive().required(),
+  toWarehouseId: Joi.number().integer().positive().invalid(Joi.ref('fromWarehouseId')).required()
+    .messages({ 'any.invalid': 'Source and destination warehouses must differ' }),
+  notes: Joi.string().max(1000).allow('', null).optional(),
+  items: Joi.array().items(
+    Joi.object({
+      productId: Joi.number().integer().positive().required(),
+      variationOptionId: Joi.number().integer().positive().allow(null).optional(),
+      quantity: Joi.number().integer().min(1).required()
+    })
+  ).min(1).required()
+});
+
+export const stockTransferQuerySchema = Joi.object({
+  status: Joi.string().valid('draft', 'in_transit', 'received', 'cancelled').optional()
+});
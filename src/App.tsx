@@ -9,10 +9,13 @@ import { RegionSettingsProvider } from "@/contexts/RegionSettingsContext";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { CartProvider } from "@/contexts/CartContext";
 import { WishlistProvider } from "@/contexts/WishlistContext";
+import { CompareProvider } from "@/contexts/CompareContext";
 import { CheckoutProvider } from "@/contexts/CheckoutContext";
 import PayPalProvider from "@/components/PayPalProvider";
 import CookieNotice from "./components/CookieNotice";
+import CompareTray from "./components/CompareTray";
 import { AnalyticsTracker } from "./components/AnalyticsTracker";
+import StepUpDialog from "@/components/auth/StepUpDialog";
 
 // Lazy load routes to reduce initial bundle size and prevent stack overflow on iOS
 const Index = lazy(() => import("./pages/Index"));
@@ -40,10 +43,13 @@ const PrivacyPolicy = lazy(() => import("./pages/PrivacyPolicy"));
 const CookiePolicy = lazy(() => import("./pages/CookiePolicy"));
 const FAQ = lazy(() => import("./pages/FAQ"));
 const Unsubscribe = lazy(() => import("./pages/Unsubscribe"));
+const VerifyEmail = lazy(() => import("./pages/VerifyEmail"));
+const OrderLookup = lazy(() => import("./pages/OrderLookup"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 const Profile = lazy(() => import("./pages/Profile"));
 const Admin = lazy(() => import("./pages/Admin"));
 const Wishlist = lazy(() => import("./pages/Wishlist"));
+const Compare = lazy(() => import("./pages/Compare"));
 const RacingFlightSeats = lazy(() => import("./pages/RacingFlightSeats"));
 const Accessories = lazy(() => import("./pages/Accessories"));
 const FlightSimAddOnModules = lazy(() => import("./pages/FlightSimAddOnModules"));
@@ -70,59 +76,66 @@ const App = () => {
         <AuthProvider>
           <CartProvider>
             <WishlistProvider>
-              <CheckoutProvider>
-                <PayPalProvider>
-                  <TooltipProvider>
-                    <Toaster />
-                    <Sonner />
-                    <BrowserRouter>
-                      <AnalyticsTracker />
-                      <Suspense fallback={<LoadingFallback />}>
-                        <Routes>
-                          <Route path="/" element={<Index />} />
-                          <Route path="/shop" element={<Shop />} />
-                          <Route path="/product/:id" element={<ProductDetail />} />
-                          <Route path="/share/:code" element={<ProductDetail />} />
-                          <Route path="/admin" element={<Admin />} />
-                          <Route path="/flight-sim" element={<FlightSim />} />
-                          <Route path="/flight-sim-add-on-modules" element={<FlightSimAddOnModules />} />
-                          <Route path="/flight-sim-accessories" element={<FlightSimAccessories />} />
-                          <Route path="/sim-racing" element={<SimRacing />} />
-                          <Route path="/login" element={<Login />} />
-                          <Route path="/register" element={<Register />} />
-                          <Route path="/profile" element={<Profile />} />
-                          <Route path="/wishlist" element={<Wishlist />} />
-                          <Route path="/cart" element={<Cart />} />
-                          <Route path="/checkout" element={<Checkout />} />
-                          <Route path="/order-confirmation/:orderNumber" element={<OrderConfirmation />} />
-                          <Route path="/orders/:orderNumber" element={<OrderConfirmation />} />
-                          <Route path="/monitor-stands" element={<MonitorStands />} />
-                          <Route path="/racing-flight-seats" element={<RacingFlightSeats />} />
-                          <Route path="/accessories" element={<Accessories />} />
-                          <Route path="/b-stock" element={<BStock />} />
-                          <Route path="/services" element={<Services />} />
-                          <Route path="/assembly-manuals" element={<AssemblyManuals />} />
-                          <Route path="/manuals/:id" element={<ManualView />} />
-                          <Route path="/compatible-brands" element={<CompatibleBrands />} />
-                          <Route path="/gallery" element={<Gallery />} />
-                          <Route path="/blog" element={<Blog />} />
-                          <Route path="/terms-conditions" element={<TermsConditions />} />
-                          <Route path="/backorders" element={<Backorders />} />
-                          <Route path="/international-shipping" element={<InternationalShipping />} />
-                          <Route path="/intellectual-properties" element={<IntellectualProperties />} />
-                          <Route path="/privacy-policy" element={<PrivacyPolicy />} />
-                          <Route path="/cookie-policy" element={<CookiePolicy />} />
-                          <Route path="/faq" element={<FAQ />} />
-                          <Route path="/unsubscribe" element={<Unsubscribe />} />
-                          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                          <Route path="*" element={<NotFound />} />
-                        </Routes>
-                      </Suspense>
-                      <CookieNotice />
-                    </BrowserRouter>
-                  </TooltipProvider>
-                </PayPalProvider>
-              </CheckoutProvider>
+              <CompareProvider>
+                <CheckoutProvider>
+                  <PayPalProvider>
+                    <TooltipProvider>
+                      <Toaster />
+                      <Sonner />
+                      <BrowserRouter>
+                        <AnalyticsTracker />
+                        <StepUpDialog />
+                        <Suspense fallback={<LoadingFallback />}>
+                          <Routes>
+                            <Route path="/" element={<Index />} />
+                            <Route path="/shop" element={<Shop />} />
+                            <Route path="/product/:id" element={<ProductDetail />} />
+                            <Route path="/share/:code" element={<ProductDetail />} />
+                            <Route path="/admin" element={<Admin />} />
+                            <Route path="/flight-sim" element={<FlightSim />} />
+                            <Route path="/flight-sim-add-on-modules" element={<FlightSimAddOnModules />} />
+                            <Route path="/flight-sim-accessories" element={<FlightSimAccessories />} />
+                            <Route path="/sim-racing" element={<SimRacing />} />
+                            <Route path="/login" element={<Login />} />
+                            <Route path="/register" element={<Register />} />
+                            <Route path="/profile" element={<Profile />} />
+                            <Route path="/wishlist" element={<Wishlist />} />
+                            <Route path="/compare" element={<Compare />} />
+                            <Route path="/cart" element={<Cart />} />
+                            <Route path="/checkout" element={<Checkout />} />
+                            <Route path="/order-confirmation/:orderNumber" element={<OrderConfirmation />} />
+                            <Route path="/orders/:orderNumber" element={<OrderConfirmation />} />
+                            <Route path="/order-lookup" element={<OrderLookup />} />
+                            <Route path="/monitor-stands" element={<MonitorStands />} />
+                            <Route path="/racing-flight-seats" element={<RacingFlightSeats />} />
+                            <Route path="/accessories" element={<Accessories />} />
+                            <Route path="/b-stock" element={<BStock />} />
+                            <Route path="/services" element={<Services />} />
+                            <Route path="/assembly-manuals" element={<AssemblyManuals />} />
+                            <Route path="/manuals/:id" element={<ManualView />} />
+                            <Route path="/compatible-brands" element={<CompatibleBrands />} />
+                            <Route path="/gallery" element={<Gallery />} />
+                            <Route path="/blog" element={<Blog />} />
+                            <Route path="/terms-conditions" element={<TermsConditions />} />
+                            <Route path="/backorders" element={<Backorders />} />
+                            <Route path="/international-shipping" element={<InternationalShipping />} />
+                            <Route path="/intellectual-properties" element={<IntellectualProperties />} />
+                            <Route path="/privacy-policy" element={<PrivacyPolicy />} />
+                            <Route path="/cookie-policy" element={<CookiePolicy />} />
+                            <Route path="/faq" element={<FAQ />} />
+                            <Route path="/unsubscribe" element={<Unsubscribe />} />
+                            <Route path="/verify-email" element={<VerifyEmail />} />
+                            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                            <Route path="*" element={<NotFound />} />
+                          </Routes>
+                        </Suspense>
+                        <CompareTray />
+                        <CookieNotice />
+                      </BrowserRouter>
+                    </TooltipProvider>
+                  </PayPalProvider>
+                </CheckoutProvider>
+              </CompareProvider>
             </WishlistProvider>
           </CartProvider>
         </AuthProvider>
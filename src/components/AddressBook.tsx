@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { MapPin, Plus, Edit, Trash2, Star, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { Address, useCheckout, savedAddressToCheckoutAddress } from '@/contexts/CheckoutContext';
+import { AddressForm } from '@/components/checkout/AddressForm';
+import { addressAPI, SavedAddress, SavedAddressType } from '@/services/api';
+
+const emptyAddress = (email: string): Address => ({
+  firstName: '',
+  lastName: '',
+  company: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: '',
+  phone: '',
+  email
+});
+
+const AddressBook = () => {
+  const { user } = useAuth();
+  const { savedAddresses, refreshSavedAddresses } = useCheckout();
+  const { toast } = useToast();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SavedAddress | null>(null);
+  const [formAddress, setFormAddress] = useState<Address>(emptyAddress(user?.email || ''));
+  const [formType, setFormType] = useState<SavedAddressType>('shipping');
+  const [formDefault, setFormDefault] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormAddress(emptyAddress(user?.email || ''));
+    setFormType('shipping');
+    setFormDefault(false);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (address: SavedAddress) => {
+    setEditing(address);
+    setFormAddress(savedAddressToCheckoutAddress(address, user?.email || ''));
+    setFormType(address.type);
+    setFormDefault(address.is_default);
+    setDialogOpen(true);
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const handleSave = async () => {
+    const payload = {
+      type: formType,
+      first_name: formAddress.firstName,
+      last_name: formAddress.lastName,
+      company: formAddress.company || null,
+      address_line_1: formAddress.addressLine1,
+      address_line_2: formAddress.addressLine2 || null,
+      city: formAddress.city,
+      state: formAddress.state,
+      postal_code: formAddress.postalCode,
+      country: formAddress.country,
+      phone: formAddress.phone || null,
+      is_default: formDefault
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await addressAPI.updateAddress(editing.id, payload);
+        toast({ title: 'Address updated' });
+      } else {
+        await addressAPI.createAddress(payload);
+        toast({ title: 'Address saved' });
+      }
+      await refreshSavedAddresses();
+      setDialogOpen(false);
+    } catch (error) {
+      showError(error, 'Failed to save address');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (address: SavedAddress) => {
+    setBusyId(address.id);
+    try {
+      await addressAPI.setDefaultAddress(address.id);
+      await refreshSavedAddresses();
+    } catch (error) {
+      showError(error, 'Failed to update default address');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (address: SavedAddress) => {
+    if (!confirm('Delete this address?')) return;
+    setBusyId(address.id);
+    try {
+      await addressAPI.deleteAddress(address.id);
+      await refreshSavedAddresses();
+      toast({ title: 'Address deleted' });
+    } catch (error) {
+      showError(error, 'Failed to delete address');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Saved Addresses</CardTitle>
+          <CardDescription>Manage your shipping and billing addresses</CardDescription>
+        </div>
+        {savedAddresses.length > 0 && (
+          <Button variant="outline" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Address
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {savedAddresses.length === 0 ? (
+          <div className="text-center py-12">
+            <MapPin className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No saved addresses</h3>
+            <p className="text-muted-foreground mb-4">
+              Add an address to make checkout faster
+            </p>
+            <Button variant="outline" onClick={openCreate}>Add Address</Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {savedAddresses.map((address) => (
+              <div key={address.id} className="border rounded-lg p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline" className="capitalize">{address.type}</Badge>
+                  {address.is_default && <Badge>Default</Badge>}
+                </div>
+                <div className="text-sm">
+                  <p className="font-medium">{address.first_name} {address.last_name}</p>
+                  {address.company && <p className="text-muted-foreground">{address.company}</p>}
+                  <p className="text-muted-foreground">{address.address_line_1}</p>
+                  {address.address_line_2 && <p className="text-muted-foreground">{address.address_line_2}</p>}
+                  <p className="text-muted-foreground">
+                    {address.city}, {address.state} {address.postal_code}
+                  </p>
+                  <p className="text-muted-foreground">{address.country}</p>
+                  {address.phone && <p className="text-muted-foreground">{address.phone}</p>}
+                </div>
+                <div className="flex gap-2 pt-2">
+                  <Button size="sm" variant="outline" onClick={() => openEdit(address)} disabled={busyId === address.id}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  {!address.is_default && (
+                    <Button size="sm" variant="outline" onClick={() => handleSetDefault(address)} disabled={busyId === address.id}>
+                      <Star className="h-4 w-4 mr-1" />
+                      Set Default
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(address)} disabled={busyId === address.id}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Address' : 'Add Address'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Address Type</Label>
+              <Select value={formType} onValueChange={(value) => setFormType(value as SavedAddressType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="shipping">Shipping</SelectItem>
+                  <SelectItem value="billing">Billing</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end gap-2 pb-2">
+              <Checkbox
+                id="address-default"
+                checked={formDefault}
+                onCheckedChange={(checked) => setFormDefault(checked === true)}
+              />
+              <Label htmlFor="address-default">Use as default {formType} address</Label>
+            </div>
+          </div>
+
+          {/* Remount on open so the form reloads country/state lists for the edited address */}
+          <AddressForm
+            key={editing?.id ?? 'new'}
+            title="Address"
+            address={formAddress}
+            onAddressChange={(field, value) => setFormAddress(prev => ({ ...prev, [field]: value }))}
+            onAddressBatchChange={(updates) => setFormAddress(prev => ({ ...prev, ...updates }))}
+          />
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? 'Save Changes' : 'Save Address'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default AddressBook;
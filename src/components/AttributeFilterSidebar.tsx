@@ -0,0 +1,140 @@
+/**
+ * Attribute Filter Sidebar
+ * Attribute facets (compatibility, material, colour, monitor size) with product counts.
+ * Selections are controlled by the page, which keeps them in the URL.
+ */
+
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { AttributeFacet, AttributeFilters } from '@/services/api';
+import { hasAttributeFilters } from '@/utils/attributeFilters';
+
+interface AttributeFilterSidebarProps {
+  facets: AttributeFacet[];
+  selected: AttributeFilters;
+  onChange: (code: string, values: string[]) => void;
+  onClear: () => void;
+}
+
+interface RangeFilterProps {
+  facet: AttributeFacet;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Range attributes (e.g. supported monitor size) are filtered by the value the customer needs
+const RangeFilter = ({ facet, value, onChange }: RangeFilterProps) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const apply = () => {
+    const trimmed = draft.trim();
+    if (trimmed !== value && (trimmed === '' || !isNaN(Number(trimmed)))) {
+      onChange(trimmed);
+    }
+  };
+
+  const hint = facet.min !== null && facet.max !== null
+    ? `${facet.min}–${facet.max}${facet.unit ? ` ${facet.unit}` : ''}`
+    : facet.unit || '';
+
+  return (
+    <Input
+      type="number"
+      step="any"
+      placeholder={hint}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={apply}
+      onKeyDown={(e) => e.key === 'Enter' && apply()}
+      className="h-9 bg-card border-border"
+    />
+  );
+};
+
+const AttributeFilterSidebar = ({ facets, selected, onChange, onClear }: AttributeFilterSidebarProps) => {
+  const toggleValue = (code: string, value: string, checked: boolean) => {
+    const current = selected[code] || [];
+    onChange(code, checked ? [...current, value] : current.filter((v) => v !== value));
+  };
+
+  // Keep a selected option visible even when the other filters leave it without matches
+  const withSelected = (facet: AttributeFacet) => {
+    const values = facet.values.filter((option) => option.count > 0);
+    (selected[facet.code] || []).forEach((value) => {
+      if (!values.some((option) => option.value === value)) {
+        const known = facet.values.find((option) => option.value === value);
+        values.push({ value, label: known?.label || value, count: 0 });
+      }
+    });
+    return values;
+  };
+
+  const visibleFacets = facets.filter((facet) =>
+    facet.type === 'range' ? facet.min !== null || selected[facet.code] : withSelected(facet).length > 0
+  );
+
+  if (visibleFacets.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-foreground uppercase tracking-wide">Filters</h2>
+        {hasAttributeFilters(selected) && (
+          <Button variant="ghost" size="sm" onClick={onClear} className="h-auto px-2 py-1 text-xs">
+            <X className="h-3 w-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {visibleFacets.map((facet) => (
+        <div key={facet.code} className="space-y-3">
+          <h3 className="text-sm font-medium text-foreground">
+            {facet.name}
+            {facet.unit && facet.type !== 'range' && (
+              <span className="text-muted-foreground font-normal"> ({facet.unit})</span>
+            )}
+          </h3>
+
+          {facet.type === 'range' ? (
+            <RangeFilter
+              facet={facet}
+              value={(selected[facet.code] || [])[0] || ''}
+              onChange={(value) => onChange(facet.code, value ? [value] : [])}
+            />
+          ) : (
+            <div className="space-y-2">
+              {withSelected(facet).map((option) => {
+                const id = `filter-${facet.code}-${option.value}`;
+                return (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={id}
+                      checked={(selected[facet.code] || []).includes(option.value)}
+                      onCheckedChange={(checked) => toggleValue(facet.code, option.value, checked === true)}
+                    />
+                    <Label htmlFor={id} className="text-sm font-normal text-muted-foreground cursor-pointer">
+                      {option.label} ({option.count})
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AttributeFilterSidebar;
@@ -7,6 +7,7 @@
 import { X, Plus, Minus, ShoppingCart } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useCart } from '@/contexts/CartContext';
+import ProductRecommendations from '@/components/ProductRecommendations';
 import { useNavigate } from 'react-router-dom';
 
 interface CartSidebarProps {
@@ -22,6 +23,9 @@ const CartSidebar = ({ isOpen, onClose }: CartSidebarProps) => {
   const items = cart?.items || [];
   const totals = cart?.totals || { subtotal: 0, total: 0, currency: 'USD', itemCount: 0 };
   const currency = totals.currency === 'EUR' ? '€' : '$';
+  const productIds = Array.from(
+    new Set(items.map((item: any) => item.product_id).filter((id: number | undefined): id is number => !!id))
+  );
 
   const handleViewCart = () => {
     onClose();
@@ -188,6 +192,9 @@ const CartSidebar = ({ isOpen, onClose }: CartSidebarProps) => {
                     </div>
                   ))}
                 </div>
+
+                {/* Recommendations for the cart contents */}
+                <ProductRecommendations productIds={productIds} variant="compact" onNavigate={onClose} />
               </div>
 
               {/* Footer with Totals and Actions */}
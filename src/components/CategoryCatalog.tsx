@@ -0,0 +1,198 @@
+/**
+ * CategoryCatalog Component
+ * Products of one category with the attribute filter sidebar, for the category landing pages.
+ * Filters are kept in the URL (attr[code]=...) like on the shop page.
+ */
+
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import AttributeFilterSidebar from '@/components/AttributeFilterSidebar';
+import { CompareButton } from '@/components/CompareButton';
+import { useRegion } from '@/contexts/RegionContext';
+import { formatPrice } from '@/utils/currency';
+import { readAttributeFilters, writeAttributeFilters, hasAttributeFilters } from '@/utils/attributeFilters';
+import { productsAPI, AttributeFacet } from '@/services/api';
+
+interface CategoryCatalogProps {
+  category: string;
+  title: string;
+  fallbackImage?: string;
+}
+
+const PAGE_SIZE = 12;
+
+const isSaleActive = (product: any) => {
+  if (!product.is_on_sale || product.sale_price === null || product.sale_price === undefined) return false;
+
+  const now = new Date();
+  if (product.sale_start_date && now < new Date(product.sale_start_date)) return false;
+  if (product.sale_end_date && now > new Date(product.sale_end_date)) return false;
+
+  return true;
+};
+
+const getImageUrl = (product: any, fallbackImage: string) => {
+  const image = product.images?.find((img: any) => img.is_primary) || product.images?.[0];
+  return image?.image_url || fallbackImage;
+};
+
+const CategoryCatalog = ({ category, title, fallbackImage = '/placeholder.svg' }: CategoryCatalogProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { region } = useRegion();
+  const [products, setProducts] = useState<any[]>([]);
+  const [facets, setFacets] = useState<AttributeFacet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  const attributeFilters = readAttributeFilters(searchParams);
+  const attributeKey = JSON.stringify(attributeFilters);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+
+    productsAPI.getAll({ category, page, limit: PAGE_SIZE, attributes: attributeFilters })
+      .then((response) => {
+        if (cancelled) return;
+        setProducts(response.data.products || []);
+        setTotalPages(response.data.pagination?.totalPages || 1);
+        setFacets(response.data.attributes || []);
+      })
+      .catch((err) => {
+        console.error('Error loading category products:', err);
+        if (!cancelled) {
+          setProducts([]);
+          setError(true);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [category, attributeKey, page, region]);
+
+  const handleAttributeChange = (code: string, values: string[]) => {
+    setPage(1);
+    setSearchParams(writeAttributeFilters(searchParams, { ...attributeFilters, [code]: values }), { replace: true });
+  };
+
+  const clearAttributeFilters = () => {
+    setPage(1);
+    setSearchParams(writeAttributeFilters(searchParams, {}), { replace: true });
+  };
+
+  const renderPrice = (product: any) => {
+    if (isSaleActive(product)) {
+      return (
+        <div className="flex items-center gap-2">
+          <span className="font-bold text-destructive">{formatPrice(product.sale_price, product.region)}</span>
+          {product.regular_price !== null && (
+            <span className="text-sm line-through text-muted-foreground">
+              {formatPrice(product.regular_price, product.region)}
+            </span>
+          )}
+        </div>
+      );
+    }
+
+    const price = product.regular_price ?? product.price_min;
+    return <span className="font-bold text-foreground">{price !== null && price !== undefined ? formatPrice(price, product.region) : ''}</span>;
+  };
+
+  return (
+    <section className="py-12 sm:py-16 lg:py-20 bg-background">
+      <div className="container mx-auto px-4">
+        <h2 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-center mb-8 sm:mb-12 text-foreground">
+          {title}
+        </h2>
+
+        <div className="flex flex-col lg:flex-row gap-8">
+          {(facets.length > 0 || hasAttributeFilters(attributeFilters)) && (
+            <aside className="lg:w-64 shrink-0">
+              <AttributeFilterSidebar
+                facets={facets}
+                selected={attributeFilters}
+                onChange={handleAttributeChange}
+                onClear={clearAttributeFilters}
+              />
+            </aside>
+          )}
+
+          <div className="flex-1 min-w-0">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <p>Unable to load products. Please try again later.</p>
+              </div>
+            ) : products.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <p>No products match the selected filters.</p>
+                {hasAttributeFilters(attributeFilters) && (
+                  <Button variant="outline" onClick={clearAttributeFilters} className="mt-4">
+                    Clear Filters
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+                  {products.map((product) => (
+                    <Link key={product.id} to={`/product/${product.slug}`} className="group">
+                      <Card className="h-full overflow-hidden bg-card border-border transition-shadow group-hover:shadow-lg">
+                        <CardContent className="p-0 relative">
+                          <div className="absolute top-2 right-2 z-10">
+                            <CompareButton productId={product.id} variant="icon" size="sm" className="bg-background/80" />
+                          </div>
+                          <img
+                            src={getImageUrl(product, fallbackImage)}
+                            alt={product.name}
+                            className="w-full aspect-square object-cover bg-muted"
+                            onError={(e) => {
+                              (e.target as HTMLImageElement).src = fallbackImage;
+                            }}
+                          />
+                          <div className="p-4 space-y-2">
+                            <h3 className="font-medium text-foreground line-clamp-2">{product.name}</h3>
+                            {renderPrice(product)}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    </Link>
+                  ))}
+                </div>
+
+                {totalPages > 1 && (
+                  <div className="flex justify-center items-center gap-2 mt-8">
+                    <Button variant="outline" onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1}>
+                      Previous
+                    </Button>
+                    <span className="px-4 py-2 text-sm text-muted-foreground">
+                      Page {page} of {totalPages}
+                    </span>
+                    <Button variant="outline" onClick={() => setPage(p => Math.min(totalPages, p + 1))} disabled={page === totalPages}>
+                      Next
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default CategoryCatalog;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { GitCompareArrows } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCompare } from '@/contexts/CompareContext';
+import { cn } from '@/lib/utils';
+
+interface CompareButtonProps {
+  productId: number;
+  variant?: 'default' | 'outline' | 'ghost' | 'icon';
+  size?: 'sm' | 'md' | 'lg';
+  showLabel?: boolean;
+  className?: string;
+}
+
+export const CompareButton: React.FC<CompareButtonProps> = ({
+  productId,
+  variant = 'ghost',
+  size = 'md',
+  showLabel = false,
+  className,
+}) => {
+  const { isInCompare, addToCompare, removeFromCompare, compareIds, maxProducts } = useCompare();
+  const [isToggling, setIsToggling] = useState(false);
+
+  const compared = isInCompare(productId);
+  // A full tray only accepts removals
+  const full = !compared && compareIds.length >= maxProducts;
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (isToggling || full) return;
+
+    try {
+      setIsToggling(true);
+      if (compared) {
+        await removeFromCompare(productId);
+      } else {
+        await addToCompare(productId);
+      }
+    } catch (error) {
+      console.error('Compare toggle error:', error);
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  const label = compared ? 'Remove from compare' : full ? `Compare list full (${maxProducts})` : 'Add to compare';
+
+  const sizeClasses = {
+    sm: 'h-4 w-4',
+    md: 'h-6 w-6',
+    lg: 'h-8 w-8',
+  };
+
+  if (variant === 'icon') {
+    return (
+      <button
+        onClick={handleClick}
+        disabled={isToggling || full}
+        title={label}
+        className={cn(
+          'relative rounded-full p-2 transition-colors',
+          compared
+            ? 'text-destructive hover:text-destructive/80'
+            : 'text-muted-foreground hover:text-foreground',
+          (isToggling || full) && 'opacity-50 cursor-not-allowed',
+          className
+        )}
+        aria-label={label}
+        aria-pressed={compared}
+      >
+        <GitCompareArrows className={sizeClasses[size]} />
+      </button>
+    );
+  }
+
+  return (
+    <Button
+      variant={variant}
+      size={size === 'md' ? 'default' : size}
+      onClick={handleClick}
+      disabled={isToggling || full}
+      title={label}
+      className={cn(compared && 'text-destructive hover:text-destructive/80', className)}
+    >
+      <GitCompareArrows className="mr-2 h-4 w-4" />
+      {showLabel && (compared ? 'Remove from Compare' : 'Compare')}
+    </Button>
+  );
+};
@@ -0,0 +1,80 @@
+/**
+ * CompareTray Component
+ * Bar at the bottom of the storefront with the products picked for comparison
+ */
+
+import { Link, useLocation } from 'react-router-dom';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCompare } from '@/contexts/CompareContext';
+
+// Pages where the bar would cover the page's own actions
+const HIDDEN_ON = ['/compare', '/cart', '/checkout', '/admin'];
+
+export const getCompareUrl = (productIds: number[]) => `/compare?products=${productIds.join(',')}`;
+
+const CompareTray = () => {
+  const { products, compareIds, maxProducts, removeFromCompare, clearCompare } = useCompare();
+  const location = useLocation();
+
+  if (products.length === 0 || HIDDEN_ON.some((path) => location.pathname.startsWith(path))) {
+    return null;
+  }
+
+  const emptySlots = Math.max(0, maxProducts - products.length);
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 border-t border-border bg-background/95 backdrop-blur">
+      <div className="container mx-auto px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0 overflow-x-auto">
+          {products.map((product) => (
+            <div key={product.id} className="relative flex items-center gap-2 rounded-md border border-border bg-card p-1 pr-6 min-w-0 max-w-[12rem]">
+              <img
+                src={product.images?.[0]?.image_url || '/placeholder.svg'}
+                alt={product.name}
+                className="h-10 w-10 flex-shrink-0 rounded object-cover bg-muted"
+                onError={(e) => {
+                  (e.target as HTMLImageElement).src = '/placeholder.svg';
+                }}
+              />
+              <span className="text-xs text-foreground line-clamp-2">{product.name}</span>
+              <button
+                type="button"
+                onClick={() => removeFromCompare(product.id).catch(() => {})}
+                className="absolute top-1 right-1 text-muted-foreground hover:text-foreground"
+                aria-label={`Remove ${product.name} from compare`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {Array.from({ length: emptySlots }).map((_, index) => (
+            <div
+              key={`empty-${index}`}
+              className="hidden md:flex h-12 w-24 flex-shrink-0 items-center justify-center rounded-md border border-dashed border-border text-xs text-muted-foreground"
+            >
+              Add product
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={clearCompare}>
+            Clear
+          </Button>
+          {products.length < 2 ? (
+            <Button size="sm" disabled>
+              Compare ({products.length})
+            </Button>
+          ) : (
+            <Link to={getCompareUrl(compareIds)}>
+              <Button size="sm">Compare ({products.length})</Button>
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareTray;
@@ -0,0 +1,160 @@
+/**
+ * Order Tracking Timeline
+ * Shipments of an order with their carrier scan history, newest scan first.
+ * Renders nothing until the order has a shipment.
+ */
+
+import { ReactNode, useEffect, useState } from 'react';
+import { Truck, CheckCircle, MapPin, Loader2 } from 'lucide-react';
+import { orderAPI, OrderTrackingTimeline as Timeline, ShipmentStatus } from '@/services/api';
+
+interface OrderTrackingTimelineProps {
+  orderNumber: string;
+  /** Shown above the shipments, only once there is something to show */
+  heading?: ReactNode;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<ShipmentStatus, string> = {
+  pending: 'Pending',
+  label_created: 'Label created',
+  picked_up: 'Picked up',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  failed: 'Delivery exception',
+  returned: 'Returned to sender',
+  voided: 'Cancelled'
+};
+
+const STATUS_COLORS: Partial<Record<ShipmentStatus, string>> = {
+  in_transit: 'bg-blue-100 text-blue-800',
+  picked_up: 'bg-blue-100 text-blue-800',
+  out_for_delivery: 'bg-purple-100 text-purple-800',
+  delivered: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  returned: 'bg-red-100 text-red-800'
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric'
+  });
+
+export default function OrderTrackingTimeline({ orderNumber, heading, className = '' }: OrderTrackingTimelineProps) {
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTracking = async () => {
+      setLoading(true);
+      try {
+        const response = await orderAPI.getTracking(orderNumber);
+        setTimeline(response.data);
+      } catch (error) {
+        console.error('Error fetching order tracking:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTracking();
+  }, [orderNumber]);
+
+  if (loading) {
+    return heading ? null : (
+      <div className={`flex items-center justify-center p-4 ${className}`}>
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!timeline || timeline.shipments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {heading}
+      {timeline.shipments.map((shipment, index) => (
+        <div key={shipment.id} className="space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <div>
+              <p className="font-medium text-gray-900">
+                {timeline.shipments.length > 1 ? `Package ${index + 1} · ` : ''}{shipment.carrier}
+              </p>
+              <p className="text-sm text-gray-600">
+                Tracking:{' '}
+                {shipment.tracking_url ? (
+                  <a
+                    href={shipment.tracking_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-blue-600 hover:underline"
+                  >
+                    {shipment.tracking_number}
+                  </a>
+                ) : (
+                  <span className="font-mono">{shipment.tracking_number}</span>
+                )}
+              </p>
+            </div>
+            <span className={`inline-flex self-start px-2 py-1 text-xs font-semibold rounded-full ${
+              STATUS_COLORS[shipment.status] || 'bg-gray-100 text-gray-800'
+            }`}>
+              {STATUS_LABELS[shipment.status]}
+            </span>
+          </div>
+
+          {shipment.status === 'delivered' && shipment.actual_delivery ? (
+            <p className="text-sm text-green-700 flex items-center">
+              <CheckCircle className="mr-1" size={16} />
+              Delivered {formatDate(shipment.actual_delivery)}
+            </p>
+          ) : shipment.estimated_delivery ? (
+            <p className="text-sm text-gray-700 flex items-center">
+              <Truck className="mr-1" size={16} />
+              Estimated delivery {formatDate(shipment.estimated_delivery)}
+            </p>
+          ) : null}
+
+          {shipment.events.length > 0 ? (
+            <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+              {shipment.events.map((event, eventIndex) => (
+                <li key={event.id} className="ml-4">
+                  <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                    eventIndex === 0 ? 'bg-blue-600' : 'bg-gray-300'
+                  }`} />
+                  <p className="text-sm font-medium text-gray-900">
+                    {event.description || STATUS_LABELS[event.status]}
+                  </p>
+                  <p className="text-xs text-gray-500 flex items-center gap-1">
+                    {formatDateTime(event.timestamp)}
+                    {event.location && (
+                      <>
+                        <MapPin size={12} />
+                        {event.location}
+                      </>
+                    )}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-gray-500">Tracking updates will appear once the carrier scans the package.</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
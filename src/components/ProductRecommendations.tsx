@@ -0,0 +1,168 @@
+/**
+ * ProductRecommendations Component
+ * "Frequently bought together", "Compatible accessories" and "Customers also viewed"
+ * for a product page, or in compact form for the products in the cart
+ */
+
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { useRegion } from '@/contexts/RegionContext';
+import { formatPrice } from '@/utils/currency';
+import { cn } from '@/lib/utils';
+import { productsAPI, ProductRecommendations as Recommendations, RecommendedProduct } from '@/services/api';
+
+interface ProductRecommendationsProps {
+  productIds: number[];
+  // compact: small rows for the cart sidebar
+  variant?: 'page' | 'compact';
+  limit?: number;
+  onNavigate?: () => void;
+}
+
+const BLOCKS: Array<{ key: keyof Recommendations; title: string }> = [
+  { key: 'frequentlyBoughtTogether', title: 'Frequently Bought Together' },
+  { key: 'accessories', title: 'Compatible Accessories' },
+  { key: 'alsoViewed', title: 'Customers Also Viewed' }
+];
+
+const isSaleActive = (product: RecommendedProduct) => {
+  if (!product.is_on_sale || product.sale_price === null) return false;
+
+  const now = new Date();
+  if (product.sale_start_date && now < new Date(product.sale_start_date)) return false;
+  if (product.sale_end_date && now > new Date(product.sale_end_date)) return false;
+
+  return true;
+};
+
+const getImageUrl = (product: RecommendedProduct) => {
+  return product.images?.[0]?.image_url || '/placeholder.svg';
+};
+
+const ProductPrice = ({ product, className }: { product: RecommendedProduct; className?: string }) => {
+  if (isSaleActive(product)) {
+    return (
+      <div className={cn('flex items-center gap-2', className)}>
+        <span className="font-semibold text-destructive">{formatPrice(product.sale_price, product.region)}</span>
+        {product.regular_price !== null && (
+          <span className="text-xs line-through text-muted-foreground">
+            {formatPrice(product.regular_price, product.region)}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  const price = product.regular_price ?? product.price_min;
+  return (
+    <div className={className}>
+      <span className="font-semibold">{price !== null ? formatPrice(price, product.region) : ''}</span>
+    </div>
+  );
+};
+
+const ProductRecommendations = ({ productIds, variant = 'page', limit, onNavigate }: ProductRecommendationsProps) => {
+  const { region } = useRegion();
+  const [recommendations, setRecommendations] = useState<Recommendations | null>(null);
+
+  const idsKey = productIds.join(',');
+
+  useEffect(() => {
+    if (!idsKey) {
+      setRecommendations(null);
+      return;
+    }
+
+    let cancelled = false;
+    productsAPI.getRecommendations(productIds, limit ?? (variant === 'compact' ? 2 : 4))
+      .then((response) => {
+        if (!cancelled) setRecommendations(response.data);
+      })
+      .catch((error) => {
+        console.error('Error loading recommendations:', error);
+        if (!cancelled) setRecommendations(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey, region, limit, variant]);
+
+  const blocks = BLOCKS
+    .map((block) => ({ ...block, products: recommendations?.[block.key] || [] }))
+    .filter((block) => block.products.length > 0);
+
+  if (blocks.length === 0) {
+    return null;
+  }
+
+  if (variant === 'compact') {
+    return (
+      <div className="space-y-4 border-t border-border pt-4 mt-4">
+        {blocks.map((block) => (
+          <div key={block.key}>
+            <h3 className="text-sm font-semibold text-foreground mb-2">{block.title}</h3>
+            <div className="space-y-2">
+              {block.products.map((product) => (
+                <Link
+                  key={product.id}
+                  to={`/product/${product.slug}`}
+                  onClick={onNavigate}
+                  className="flex items-center gap-3 rounded p-1 hover:bg-muted/50"
+                >
+                  <img
+                    src={getImageUrl(product)}
+                    alt={product.name}
+                    className="h-12 w-12 flex-shrink-0 rounded object-cover bg-muted"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).src = '/placeholder.svg';
+                    }}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-foreground line-clamp-1">{product.name}</p>
+                    <ProductPrice product={product} className="text-sm" />
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-12">
+      {blocks.map((block) => (
+        <section key={block.key} className="space-y-6">
+          <h2 className="text-2xl md:text-3xl font-bold text-primary">{block.title}</h2>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
+            {block.products.map((product) => (
+              <Link key={product.id} to={`/product/${product.slug}`} className="group">
+                <Card className="h-full overflow-hidden transition-shadow group-hover:shadow-lg">
+                  <CardContent className="p-0">
+                    <img
+                      src={getImageUrl(product)}
+                      alt={product.name}
+                      className="w-full aspect-square object-cover bg-muted"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).src = '/placeholder.svg';
+                      }}
+                    />
+                    <div className="p-4 space-y-2">
+                      <h3 className="font-medium line-clamp-2 group-hover:text-primary">{product.name}</h3>
+                      <ProductPrice product={product} />
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default ProductRecommendations;
@@ -0,0 +1,397 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Star, ThumbsUp, ThumbsDown, BadgeCheck, Loader2, ImagePlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  reviewsAPI,
+  ProductReview,
+  ReviewSummary,
+  ReviewSort,
+  ReviewVoteType,
+  ReviewPagination
+} from '@/services/api';
+
+const MAX_REVIEW_IMAGES = 5;
+
+interface ProductReviewsProps {
+  productId: number;
+  onReviewsLoaded?: (reviews: ProductReview[], summary: ReviewSummary) => void;
+}
+
+const StarRating = ({
+  value,
+  size = 'h-4 w-4',
+  onChange
+}: {
+  value: number;
+  size?: string;
+  onChange?: (value: number) => void;
+}) => (
+  <div className="flex items-center gap-0.5">
+    {[1, 2, 3, 4, 5].map((star) => (
+      <button
+        key={star}
+        type="button"
+        disabled={!onChange}
+        onClick={() => onChange?.(star)}
+        className={cn(!onChange && 'cursor-default')}
+        aria-label={`${star} star${star > 1 ? 's' : ''}`}
+      >
+        <Star
+          className={cn(
+            size,
+            star <= Math.round(value) ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+          )}
+        />
+      </button>
+    ))}
+  </div>
+);
+
+const ProductReviews = ({ productId, onReviewsLoaded }: ProductReviewsProps) => {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [pagination, setPagination] = useState<ReviewPagination | null>(null);
+  const [sort, setSort] = useState<ReviewSort>('helpful');
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  // Review form state
+  const [showForm, setShowForm] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [title, setTitle] = useState('');
+  const [reviewText, setReviewText] = useState('');
+  const [images, setImages] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await reviewsAPI.getProductReviews(productId, { page, limit: 10, sort });
+      setReviews(prev => page === 1 ? response.data.reviews : [...prev, ...response.data.reviews]);
+      setSummary(response.data.summary);
+      setPagination(response.data.pagination);
+      if (page === 1) {
+        onReviewsLoaded?.(response.data.reviews, response.data.summary);
+      }
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, page, sort, onReviewsLoaded]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const handleSortChange = (value: string) => {
+    setSort(value as ReviewSort);
+    setPage(1);
+  };
+
+  const handleVote = async (review: ProductReview, voteType: ReviewVoteType) => {
+    if (!isAuthenticated) {
+      toast({
+        title: 'Login required',
+        description: 'Please log in to vote on reviews',
+      });
+      return;
+    }
+
+    try {
+      const response = review.current_user_vote === voteType
+        ? await reviewsAPI.removeVote(productId, review.id)
+        : await reviewsAPI.voteReview(productId, review.id, voteType);
+
+      setReviews(prev => prev.map(r => r.id === review.id ? { ...r, ...response.data } : r));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to record vote',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    setImages(prev => [...prev, ...files].slice(0, MAX_REVIEW_IMAGES));
+    e.target.value = '';
+  };
+
+  const resetForm = () => {
+    setRating(0);
+    setTitle('');
+    setReviewText('');
+    setImages([]);
+    setShowForm(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (rating === 0) {
+      toast({ title: 'Rating required', description: 'Please select a star rating', variant: 'destructive' });
+      return;
+    }
+
+    if (reviewText.trim().length < 10) {
+      toast({ title: 'Review too short', description: 'Please write at least 10 characters', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await reviewsAPI.createReview(productId, {
+        rating,
+        title: title.trim() || undefined,
+        review_text: reviewText.trim(),
+      });
+
+      if (images.length > 0) {
+        try {
+          await reviewsAPI.uploadReviewImages(productId, response.data.id, images);
+        } catch (uploadError) {
+          console.error('Error uploading review images:', uploadError);
+          toast({
+            title: 'Images not uploaded',
+            description: uploadError instanceof Error ? uploadError.message : 'Failed to upload images',
+            variant: 'destructive',
+          });
+        }
+      }
+
+      toast({
+        title: 'Thank you for your review!',
+        description: 'Your review will appear once it has been approved.',
+      });
+      resetForm();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit review',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="mt-16" id="reviews">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold">Customer Reviews</h2>
+        {isAuthenticated ? (
+          <Button variant="outline" onClick={() => setShowForm(!showForm)}>
+            {showForm ? 'Cancel' : 'Write a review'}
+          </Button>
+        ) : (
+          <Button variant="outline" asChild>
+            <Link to="/login">Log in to write a review</Link>
+          </Button>
+        )}
+      </div>
+
+      {/* Summary */}
+      {summary && summary.count > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8 p-6 border rounded-lg">
+          <div className="flex flex-col items-center justify-center">
+            <span className="text-4xl font-bold">{summary.average.toFixed(1)}</span>
+            <StarRating value={summary.average} size="h-5 w-5" />
+            <span className="text-sm text-muted-foreground mt-1">
+              Based on {summary.count} review{summary.count !== 1 ? 's' : ''}
+            </span>
+          </div>
+          <div className="md:col-span-2 space-y-2">
+            {([5, 4, 3, 2, 1] as const).map((star) => (
+              <div key={star} className="flex items-center gap-3 text-sm">
+                <span className="w-12">{star} star</span>
+                <Progress value={summary.count > 0 ? (summary.distribution[star] / summary.count) * 100 : 0} className="flex-1" />
+                <span className="w-8 text-right text-muted-foreground">{summary.distribution[star]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Review form */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4 mb-8 p-6 border rounded-lg">
+          <div className="space-y-2">
+            <Label>Your rating *</Label>
+            <StarRating value={rating} size="h-6 w-6" onChange={setRating} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-title">Title</Label>
+            <Input
+              id="review-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={255}
+              placeholder="Summarize your experience"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-text">Review *</Label>
+            <Textarea
+              id="review-text"
+              value={reviewText}
+              onChange={(e) => setReviewText(e.target.value)}
+              rows={5}
+              maxLength={5000}
+              placeholder="What did you like or dislike? How was the assembly?"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Photos (up to {MAX_REVIEW_IMAGES})</Label>
+            <div className="flex flex-wrap gap-2">
+              {images.map((file, index) => (
+                <div key={index} className="relative h-20 w-20 rounded border overflow-hidden">
+                  <img src={URL.createObjectURL(file)} alt={file.name} className="h-full w-full object-cover" />
+                  <button
+                    type="button"
+                    className="absolute top-0 right-0 bg-background/80 rounded-bl p-0.5"
+                    onClick={() => setImages(prev => prev.filter((_, i) => i !== index))}
+                    aria-label="Remove image"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {images.length < MAX_REVIEW_IMAGES && (
+                <label className="h-20 w-20 rounded border border-dashed flex items-center justify-center cursor-pointer hover:bg-muted">
+                  <ImagePlus className="h-6 w-6 text-muted-foreground" />
+                  <input
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp"
+                    multiple
+                    className="hidden"
+                    onChange={handleImageSelect}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+          <Button type="submit" disabled={submitting}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit review
+          </Button>
+        </form>
+      )}
+
+      {/* Sort */}
+      {reviews.length > 0 && (
+        <div className="flex justify-end mb-4">
+          <Select value={sort} onValueChange={handleSortChange}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="helpful">Most helpful</SelectItem>
+              <SelectItem value="newest">Newest</SelectItem>
+              <SelectItem value="oldest">Oldest</SelectItem>
+              <SelectItem value="rating_high">Highest rating</SelectItem>
+              <SelectItem value="rating_low">Lowest rating</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Review list */}
+      {loading && reviews.length === 0 ? (
+        <div className="space-y-4">
+          {[1, 2].map((i) => (
+            <div key={i} className="border rounded-lg p-4 animate-pulse">
+              <div className="h-4 bg-muted rounded w-1/4 mb-2"></div>
+              <div className="h-3 bg-muted rounded w-3/4"></div>
+            </div>
+          ))}
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="text-muted-foreground">No reviews yet. Be the first to review this product.</p>
+      ) : (
+        <div className="space-y-6">
+          {reviews.map((review) => (
+            <div key={review.id} className="border-b pb-6">
+              <div className="flex items-center gap-3 mb-2">
+                <StarRating value={review.rating} />
+                {review.title && <span className="font-semibold">{review.title}</span>}
+              </div>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground mb-3">
+                <span>{review.author_name}</span>
+                <span>·</span>
+                <span>{new Date(review.created_at).toLocaleDateString()}</span>
+                {review.is_verified_purchase && (
+                  <Badge variant="secondary" className="gap-1">
+                    <BadgeCheck className="h-3 w-3" />
+                    Verified purchase
+                  </Badge>
+                )}
+              </div>
+              {review.review_text && (
+                <p className="text-muted-foreground whitespace-pre-line mb-3">{review.review_text}</p>
+              )}
+              {review.images.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {review.images.map((image) => (
+                    <a key={image.id} href={image.image_url} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={image.image_url}
+                        alt="Customer photo"
+                        className="h-20 w-20 rounded border object-cover"
+                        loading="lazy"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Was this helpful?</span>
+                <Button
+                  variant={review.current_user_vote === 'helpful' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => handleVote(review, 'helpful')}
+                >
+                  <ThumbsUp className="h-4 w-4 mr-1" />
+                  {review.helpful_count}
+                </Button>
+                <Button
+                  variant={review.current_user_vote === 'not_helpful' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => handleVote(review, 'not_helpful')}
+                >
+                  <ThumbsDown className="h-4 w-4 mr-1" />
+                  {review.not_helpful_count}
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {pagination?.hasNext && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => setPage(page + 1)} disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load more reviews
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ProductReviews;
@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { Loader2, Search as SearchIcon } from 'lucide-react';
+import { ArrowRight, Folder, Loader2, Search as SearchIcon } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
 import {
@@ -11,11 +11,12 @@ import {
   CommandList,
   CommandSeparator,
 } from '@/components/ui/command';
-import { Product, productsAPI } from '@/services/api';
+import { Product, productsAPI, SearchFacetValue, SearchMatchType } from '@/services/api';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { useRegion } from '@/contexts/RegionContext';
 import { trackSearch } from '@/utils/facebookPixel';
+import { getSessionId } from '@/utils/analytics';
 
 interface ProductSearchDialogProps {
   open: boolean;
@@ -28,6 +29,10 @@ const SEARCH_DEBOUNCE_MS = 300;
 const ProductSearchDialog = ({ open, onOpenChange }: ProductSearchDialogProps) => {
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<SearchFacetValue[]>([]);
+  const [matchType, setMatchType] = useState<SearchMatchType>('exact');
+  const [searchId, setSearchId] = useState<number | null>(null);
+  const [redirectUrl, setRedirectUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -42,6 +47,10 @@ const ProductSearchDialog = ({ open, onOpenChange }: ProductSearchDialogProps) =
     if (!open) {
       setQuery('');
       setResults([]);
+      setCategories([]);
+      setMatchType('exact');
+      setSearchId(null);
+      setRedirectUrl(null);
       setLoading(false);
       setHasSearched(false);
       setError(null);
@@ -57,6 +66,8 @@ const ProductSearchDialog = ({ open, onOpenChange }: ProductSearchDialogProps) =
     if (query.trim().length < MIN_QUERY_LENGTH) {
       window.clearTimeout(debounceRef.current);
       setResults([]);
+      setCategories([]);
+      setRedirectUrl(null);
       setLoading(false);
       setHasSearched(false);
       setError(null);
@@ -71,7 +82,7 @@ const ProductSearchDialog = ({ open, onOpenChange }: ProductSearchDialogProps) =
 
     debounceRef.current = window.setTimeout(async () => {
       try {
-        const response = await productsAPI.search(query.trim(), { limit: 8 });
+        const response = await productsAPI.getSearchSuggestions(query.trim(), 8, getSessionId());
 
         if (latestRequestRef.current !== requestId) {
           return;
@@ -79,6 +90,10 @@ const ProductSearchDialog = ({ open, onOpenChange }: ProductSearchDialogProps) =
 
         const products = response.data.products || [];
         setResults(products);
+        setCategories(response.data.categories || []);
+        setMatchType(response.data.matchType);
+        setSearchId(response.data.searchId);
+        setRedirectUrl(response.data.redirectUrl);
         setHasSearched(true);
 
         // Track Facebook Pixel Search event
@@ -98,6 +113,7 @@ const ProductSearchDialog = ({ open, onOpenChange }: ProductSearchDialogProps) =
         const message = err instanceof Error ? err.message : 'Failed to search products';
         setError(message);
         setResults([]);
+        setCategories([]);
         toast({
           title: 'Search failed',
           description: message,
@@ -116,12 +132,33 @@ const ProductSearchDialog = ({ open, onOpenChange }: ProductSearchDialogProps) =
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [query, open, region]);
 
-  const handleSelectProduct = (product: Product) => {
+  const handleSelectProduct = (product: Product, position: number) => {
+    if (searchId) {
+      productsAPI.trackSearchClick(searchId, product.id, getSessionId(), position).catch(() => {});
+    }
     onOpenChange(false);
     navigate(`/product/${product.slug}`);
   };
 
+  const handleSelectCategory = (category: SearchFacetValue) => {
+    onOpenChange(false);
+    navigate(`/shop?category=${encodeURIComponent(category.value)}`);
+  };
+
+  const handleOpenRedirect = (url: string) => {
+    onOpenChange(false);
+    if (url.startsWith('/')) {
+      navigate(url);
+    } else {
+      window.location.assign(url);
+    }
+  };
+
   const handleViewAll = () => {
+    if (redirectUrl) {
+      handleOpenRedirect(redirectUrl);
+      return;
+    }
     onOpenChange(false);
     navigate(`/shop?search=${encodeURIComponent(query.trim())}`);
   };
@@ -137,7 +174,8 @@ const ProductSearchDialog = ({ open, onOpenChange }: ProductSearchDialogProps) =
   );
 
   return (
-    <CommandDialog open={open} onOpenChange={onOpenChange}>
+    // Results come ranked from the server (synonyms, fuzzy matches), so skip cmdk's own filtering
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
       <CommandInput
         value={query}
         onValueChange={setQuery}
@@ -162,13 +200,43 @@ const ProductSearchDialog = ({ open, onOpenChange }: ProductSearchDialogProps) =
           </CommandGroup>
         )}
 
+        {!loading && !error && redirectUrl && (
+          <CommandGroup heading="Suggested page">
+            <CommandItem
+              value="search-redirect"
+              onSelect={() => handleOpenRedirect(redirectUrl)}
+              className="flex items-center gap-3"
+            >
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <span className="flex-1 truncate text-sm">Go to {redirectUrl}</span>
+            </CommandItem>
+          </CommandGroup>
+        )}
+
+        {!loading && !error && categories.length > 0 && (
+          <CommandGroup heading="Categories">
+            {categories.map((category) => (
+              <CommandItem
+                key={category.value}
+                value={`category-${category.value}`}
+                onSelect={() => handleSelectCategory(category)}
+                className="flex items-center gap-3"
+              >
+                <Folder className="h-4 w-4 text-muted-foreground" />
+                <span className="flex-1 truncate text-sm">{category.label}</span>
+                <span className="text-xs text-muted-foreground">{category.count}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
         {!loading && !error && formattedResults.length > 0 && (
-          <CommandGroup heading="Products">
-            {formattedResults.map(({ product, price, image }) => (
+          <CommandGroup heading={matchType === 'fuzzy' ? 'Showing close matches' : 'Products'}>
+            {formattedResults.map(({ product, price, image }, index) => (
               <CommandItem
                 key={product.id}
                 value={`${product.name} ${product.sku || ''}`}
-                onSelect={() => handleSelectProduct(product)}
+                onSelect={() => handleSelectProduct(product, index + 1)}
                 className="flex items-center gap-3"
               >
                 <div className="h-10 w-10 flex-shrink-0 overflow-hidden rounded-md bg-muted">
@@ -1,12 +1,13 @@
-import { ProductWithDetails } from '@/services/api';
+import { ProductWithDetails, ProductReview } from '@/services/api';
 import { getCanonicalUrl, getAbsoluteImageUrl } from '@/utils/seo';
 
 interface ProductSchemaProps {
   product: ProductWithDetails;
   region?: 'us' | 'eu';
+  reviews?: ProductReview[];
 }
 
-export const ProductSchema = ({ product, region = 'us' }: ProductSchemaProps) => {
+export const ProductSchema = ({ product, region = 'us', reviews = [] }: ProductSchemaProps) => {
   const baseUrl = getCanonicalUrl(`/product/${product.slug}`);
   const currency = region === 'us' ? 'USD' : 'EUR';
   
@@ -41,6 +42,33 @@ export const ProductSchema = ({ product, region = 'us' }: ProductSchemaProps) =>
     }
   }
   
+  // Ratings only include approved reviews (aggregated server-side)
+  const ratingCount = product.rating?.count ?? 0;
+  const aggregateRating = ratingCount > 0 ? {
+    '@type': 'AggregateRating',
+    ratingValue: Number(product.rating!.average).toFixed(1),
+    reviewCount: ratingCount,
+    bestRating: '5',
+    worstRating: '1'
+  } : undefined;
+
+  const reviewSchema = reviews.length > 0 ? reviews.map(review => ({
+    '@type': 'Review',
+    author: {
+      '@type': 'Person',
+      name: review.author_name
+    },
+    datePublished: review.created_at?.split('T')[0],
+    name: review.title || undefined,
+    reviewBody: review.review_text || undefined,
+    reviewRating: {
+      '@type': 'Rating',
+      ratingValue: review.rating.toString(),
+      bestRating: '5',
+      worstRating: '1'
+    }
+  })) : undefined;
+  
   const schema = {
     '@context': 'https://schema.org/',
     '@type': 'Product',
@@ -64,7 +92,9 @@ export const ProductSchema = ({ product, region = 'us' }: ProductSchemaProps) =>
         '@type': 'Organization',
         name: 'SimFab'
       }
-    }
+    },
+    aggregateRating,
+    review: reviewSchema
   };
   
   return (
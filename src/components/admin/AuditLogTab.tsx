@@ -0,0 +1,261 @@
+/**
+ * Audit Log Tab Component
+ * Searchable trail of admin changes: who changed what, under which authority,
+ * with the before/after values of each changed field. Exports to CSV.
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, ScrollText, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { auditAPI, AuditLogEntry, AuditLogFilters } from '@/services/api';
+
+const PAGE_SIZE = 50;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function AuditLogTab() {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [resourceTypes, setResourceTypes] = useState<string[]>([]);
+  const [admins, setAdmins] = useState<Array<{ id: number; email: string; name: string | null }>>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchFilterOptions();
+  }, []);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [filters, page]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchFilterOptions = async () => {
+    try {
+      const response = await auditAPI.getFilterOptions();
+      setResourceTypes(response.data.resourceTypes);
+      setAdmins(response.data.admins);
+    } catch (error) {
+      console.error('Error fetching audit filters:', error);
+    }
+  };
+
+  const fetchLogs = async () => {
+    setLoading(true);
+    try {
+      const response = await auditAPI.getLogs({ ...filters, page, limit: PAGE_SIZE });
+      setLogs(response.data.logs);
+      setTotalPages(Math.max(response.data.pagination.totalPages, 1));
+      setTotal(response.data.pagination.total);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      showError(error, 'Failed to fetch audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (changes: Partial<AuditLogFilters>) => {
+    setPage(1);
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await auditAPI.exportCSV(filters);
+    } catch (error) {
+      showError(error, 'Failed to export audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            Audit Log
+          </CardTitle>
+          <CardDescription>
+            Every admin change to products, variations, bundles, coupons, roles, settings, orders, email
+            templates, site notices and page products. {total} entries match.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={exporting}>
+          {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Export CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <div className="space-y-1">
+            <Label>User</Label>
+            <Select
+              value={filters.adminId ? String(filters.adminId) : 'all'}
+              onValueChange={(value) => updateFilter({ adminId: value === 'all' ? undefined : parseInt(value, 10) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All users</SelectItem>
+                {admins.map(admin => (
+                  <SelectItem key={admin.id} value={String(admin.id)}>{admin.name || admin.email}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Entity</Label>
+            <Select
+              value={filters.resourceType || 'all'}
+              onValueChange={(value) => updateFilter({ resourceType: value === 'all' ? undefined : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All entities</SelectItem>
+                {resourceTypes.map(type => (
+                  <SelectItem key={type} value={type}>{type.replace(/_/g, ' ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>From</Label>
+            <Input
+              type="date"
+              value={filters.from || ''}
+              onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>To</Label>
+            <Input
+              type="date"
+              value={filters.to || ''}
+              onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Search</Label>
+            <Input
+              placeholder="Action, ID, email or value"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') updateFilter({ search: search.trim() || undefined });
+              }}
+              onBlur={() => {
+                if ((search.trim() || undefined) !== filters.search) updateFilter({ search: search.trim() || undefined });
+              }}
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : logs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No audit entries</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {logs.map(entry => {
+              const changedFields = entry.changes ? Object.keys(entry.changes) : [];
+              const expandable = changedFields.length > 0 || !!entry.details?.request;
+              const expanded = expandedId === entry.id;
+
+              return (
+                <div key={entry.id} className="px-4 py-3">
+                  <button
+                    type="button"
+                    className="w-full flex items-start gap-2 text-left"
+                    onClick={() => expandable && setExpandedId(expanded ? null : entry.id)}
+                  >
+                    {expandable ? (
+                      expanded ? <ChevronDown className="h-4 w-4 mt-0.5 shrink-0" /> : <ChevronRight className="h-4 w-4 mt-0.5 shrink-0" />
+                    ) : (
+                      <span className="w-4 shrink-0" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-sm font-medium">{entry.action}</span>
+                        {entry.resource_id && (
+                          <Badge variant="outline">{entry.resource_type} {entry.resource_id}</Badge>
+                        )}
+                        {entry.authority && <Badge variant="secondary">{entry.authority}</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {new Date(entry.created_at).toLocaleString()} · {entry.admin_name || entry.admin_email || 'Deleted user'}
+                        {entry.ip_address && ` · ${entry.ip_address}`}
+                        {changedFields.length > 0 && ` · ${changedFields.length} field${changedFields.length === 1 ? '' : 's'} changed`}
+                      </div>
+                    </div>
+                  </button>
+                  {expanded && (
+                    <div className="mt-3 ml-6 space-y-1 text-xs">
+                      {changedFields.map(field => (
+                        <div key={field} className="grid grid-cols-[10rem_1fr] gap-2">
+                          <span className="font-mono text-muted-foreground">{field}</span>
+                          <span className="break-all">
+                            <span className="line-through text-muted-foreground">{formatValue(entry.changes![field].before)}</span>
+                            {' → '}
+                            <span>{formatValue(entry.changes![field].after)}</span>
+                          </span>
+                        </div>
+                      ))}
+                      {entry.details?.request !== undefined && (
+                        <pre className="bg-muted rounded p-2 overflow-x-auto">{JSON.stringify(entry.details.request, null, 2)}</pre>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1 || loading} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= totalPages || loading} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * Email Queue Panel Component
+ * Shows email queue health and dead-lettered emails with a requeue action
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Inbox, RotateCcw, RefreshCw } from 'lucide-react';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+interface QueuedEmail {
+  id: number;
+  template_type: string;
+  recipient_email: string;
+  recipient_name?: string;
+  region: 'us' | 'eu';
+  priority: number;
+  attempts: number;
+  max_attempts: number;
+  status: 'pending' | 'processing' | 'sent' | 'failed' | 'dead';
+  error_message?: string;
+  created_at: string;
+  processed_at?: string;
+}
+
+interface QueueStats {
+  pending: number;
+  processing: number;
+  sent: number;
+  dead: number;
+}
+
+export default function EmailQueuePanel() {
+  const [items, setItems] = useState<QueuedEmail[]>([]);
+  const [stats, setStats] = useState<QueueStats>({ pending: 0, processing: 0, sent: 0, dead: 0 });
+  const [loading, setLoading] = useState(false);
+  const [requeueingId, setRequeueingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const fetchQueue = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`${API_URL}/api/admin/email-queue?status=dead`, {
+        credentials: 'include'
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setItems(data.items);
+        setStats(data.stats);
+      }
+    } catch (error) {
+      console.error('Error fetching email queue:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch email queue',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequeue = async (item: QueuedEmail) => {
+    setRequeueingId(item.id);
+    try {
+      const res = await fetch(`${API_URL}/api/admin/email-queue/${item.id}/requeue`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (res.ok) {
+        toast({
+          title: 'Email requeued',
+          description: `${item.template_type} to ${item.recipient_email} will be retried shortly`
+        });
+        await fetchQueue();
+      } else {
+        const error = await res.json();
+        toast({
+          title: 'Error',
+          description: error.error || 'Failed to requeue email',
+          variant: 'destructive'
+        });
+      }
+    } catch (error) {
+      console.error('Error requeueing email:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to requeue email',
+        variant: 'destructive'
+      });
+    } finally {
+      setRequeueingId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-[#1a1a1a] border-[#2b2b2b]">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Inbox className="h-5 w-5" />
+              Email Queue
+            </CardTitle>
+            <CardDescription className="text-[#999999]">
+              {stats.pending} pending · {stats.processing} sending · {stats.sent} sent · {stats.dead} failed permanently
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={fetchQueue}
+            disabled={loading}
+            className="border-[#2b2b2b] text-white hover:bg-[#2b2b2b]"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && items.length === 0 ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-white" />
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-[#999999] text-center py-6">No failed emails. Everything queued has been delivered or is still retrying.</p>
+        ) : (
+          <div className="space-y-2">
+            {items.map((item) => (
+              <div
+                key={item.id}
+                className="p-4 border border-[#2b2b2b] rounded-lg flex flex-col md:flex-row md:items-center md:justify-between gap-3"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm text-white">{item.template_type}</span>
+                    <Badge variant="outline" className="border-[#2b2b2b] text-[#cccccc] uppercase">{item.region}</Badge>
+                    <span className="text-xs text-[#999999]">
+                      {item.attempts}/{item.max_attempts} attempts
+                    </span>
+                  </div>
+                  <div className="text-xs text-[#999999] mt-1">
+                    {item.recipient_name ? `${item.recipient_name} <${item.recipient_email}>` : item.recipient_email}
+                    {item.processed_at && ` · failed ${new Date(item.processed_at).toLocaleString()}`}
+                  </div>
+                  {item.error_message && (
+                    <div className="text-xs text-[#c5303b] mt-1 break-words">{item.error_message}</div>
+                  )}
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => handleRequeue(item)}
+                  disabled={requeueingId === item.id}
+                  className="bg-[#c5303b] hover:bg-[#d42a37] text-white"
+                >
+                  {requeueingId === item.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                  )}
+                  Requeue
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,6 +15,7 @@ import { useToast } from '@/hooks/use-toast';
 import { Loader2, Mail, Send, Save, FileText, Eye, Plus, X } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import EmailQueuePanel from './EmailQueuePanel';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -39,13 +40,23 @@ const TRIGGER_EVENTS = [
   { value: 'order.cancelled', label: 'Order Cancelled' },
   { value: 'order.payment_failed', label: 'Payment Failed' },
   { value: 'order.on_hold', label: 'Order On Hold' },
+  { value: 'order.backordered', label: 'Order Backordered' },
+  { value: 'order.backorder_ready', label: 'Backorder Ready to Ship' },
   { value: 'order.processing', label: 'Order Processing' },
   { value: 'order.completed', label: 'Order Completed' },
+  { value: 'order.out_for_delivery', label: 'Order Out for Delivery (Tracking)' },
+  { value: 'order.delivered', label: 'Order Delivered (Tracking)' },
+  { value: 'order.lookup_link', label: 'Guest Order Link' },
   { value: 'order.refunded', label: 'Order Refunded' },
   { value: 'order.details_requested', label: 'Order Details Requested' },
   { value: 'admin.note_added', label: 'Admin Note Added' },
+  { value: 'admin.stock_digest', label: 'Daily Stock Alert Digest' },
   { value: 'auth.password_reset', label: 'Password Reset Requested' },
   { value: 'auth.account_created', label: 'New Account Created' },
+  { value: 'auth.email_verification', label: 'Verify Email Address' },
+  { value: 'auth.email_change', label: 'Verify New Email Address' },
+  { value: 'auth.email_changed', label: 'Email Address Changed' },
+  { value: 'auth.password_changed', label: 'Password Changed' },
   { value: 'cart.reminder_1day', label: 'Cart Reminder (1 Day)' },
   { value: 'cart.reminder_7days', label: 'Cart Reminder (7 Days)' },
   { value: 'manual', label: 'Manual (No Auto Trigger)' },
@@ -751,6 +762,7 @@ export default function EmailTemplatesTab() {
                         .replace(/\{\{order_date\}\}/g, new Date().toLocaleDateString())
                         .replace(/\{\{subtotal\}\}/g, '$179.99')
                         .replace(/\{\{tax_amount\}\}/g, '$14.40')
+                        .replace(/\{\{tax_label\}\}/g, 'Tax')
                         .replace(/\{\{shipping_amount\}\}/g, '$5.60')
                         .replace(/\{\{discount_amount\}\}/g, '$0.00')
                         .replace(/\{\{tracking_number\}\}/g, '<code style="background: #f3f4f6; padding: 2px 6px; border-radius: 3px;">1Z999AA10123456784</code>')
@@ -766,6 +778,7 @@ export default function EmailTemplatesTab() {
                         .replace(/\{\{item_count\}\}/g, '3')
                         .replace(/\{\{cart_url\}\}/g, 'https://simfab.com/cart?region=us')
                         .replace(/\{\{cart_id\}\}/g, '12345')
+                        .replace(/\{\{recommended_products\}\}/g, '<div class="order-info"><h3 style="color: #c5303b; margin: 0 0 12px 0;">You Might Also Like</h3><p style="color: #cccccc; font-size: 14px; margin: 8px 0;">Sample Accessory <span class="highlight">$49.99</span></p></div>')
                     }} 
                       />
                     </div>
@@ -792,6 +805,11 @@ export default function EmailTemplatesTab() {
         </div>
       )}
 
+      {/* Email Queue / Dead-letter */}
+      <div className="lg:col-span-2">
+        <EmailQueuePanel />
+      </div>
+
       {/* Create Template Dialog */}
       <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
         <DialogContent className="bg-[#1a1a1a] border-[#2b2b2b] text-white max-w-2xl max-h-[90vh] overflow-y-auto">
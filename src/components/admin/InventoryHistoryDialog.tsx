@@ -0,0 +1,210 @@
+/**
+ * Inventory History Dialog
+ * Stock movement ledger for one SKU: a product's own stock, or a single variation option.
+ */
+
+import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  inventoryAPI,
+  InventoryMovement,
+  InventoryMovementReason,
+  INVENTORY_MOVEMENT_REASONS,
+  getInventoryMovementReasonLabel
+} from '@/services/api';
+
+interface InventoryHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  productId: number;
+  /** Show a single variation option's history instead of the product's */
+  optionId?: number;
+  title: string;
+}
+
+const PAGE_SIZE = 25;
+
+const ACTOR_LABELS: Record<InventoryMovement['actor_type'], string> = {
+  admin: 'Staff',
+  customer: 'Customer',
+  system: 'System'
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+const formatSource = (movement: InventoryMovement) => {
+  if (!movement.source_type) return '—';
+  if (movement.source_type === 'order') return `Order ID ${movement.source_id}`;
+  if (movement.source_type === 'csv_import') return 'CSV import';
+  if (movement.source_type === 'stock_transfer') return `Transfer ID ${movement.source_id}`;
+  if (movement.source_type === 'purchase_order') return `PO ID ${movement.source_id}`;
+  return 'Admin edit';
+};
+
+export default function InventoryHistoryDialog({ open, onClose, productId, optionId, title }: InventoryHistoryDialogProps) {
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [reason, setReason] = useState<InventoryMovementReason | 'all'>('all');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPage(1);
+      setReason('all');
+    }
+  }, [open, productId, optionId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchMovements = async () => {
+      setLoading(true);
+      try {
+        const response = await inventoryAPI.getMovements(productId, {
+          optionId,
+          reason: reason === 'all' ? undefined : reason,
+          page,
+          limit: PAGE_SIZE
+        });
+        setMovements(response.data.movements);
+        setTotalPages(Math.max(1, response.data.pagination.totalPages));
+      } catch (error) {
+        console.error('Error fetching inventory movements:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMovements();
+  }, [open, productId, optionId, reason, page]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Stock history: {title}</DialogTitle>
+          <DialogDescription>Every change to this SKU's stock, newest first.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Select
+            value={reason}
+            onValueChange={(value) => {
+              setReason(value as InventoryMovementReason | 'all');
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All reasons</SelectItem>
+              {INVENTORY_MOVEMENT_REASONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading && movements.length === 0 ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No stock movements recorded.</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  {!optionId && <TableHead>Option</TableHead>}
+                  <TableHead>Location</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Stock after</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map(movement => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="whitespace-nowrap text-sm">{formatDateTime(movement.created_at)}</TableCell>
+                    {!optionId && (
+                      <TableCell className="text-sm">
+                        {movement.option_name ? `${movement.variation_name}: ${movement.option_name}` : '—'}
+                      </TableCell>
+                    )}
+                    <TableCell className="text-sm">{movement.warehouse_code || '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{getInventoryMovementReasonLabel(movement.reason)}</Badge>
+                      {movement.note && (
+                        <div className="text-xs text-muted-foreground mt-1">{movement.note}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${
+                      movement.delta > 0 ? 'text-green-600' : movement.delta < 0 ? 'text-red-600' : ''
+                    }`}>
+                      {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                      {movement.reserved_delta !== 0 && (
+                        <div className="text-xs text-muted-foreground font-normal">
+                          reserved {movement.reserved_delta > 0 ? `+${movement.reserved_delta}` : movement.reserved_delta}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{movement.quantity_after ?? 'Unmanaged'}</TableCell>
+                    <TableCell className="text-sm">{formatSource(movement)}</TableCell>
+                    <TableCell className="text-sm">
+                      {movement.actor_name || ACTOR_LABELS[movement.actor_type]}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" disabled={page <= 1 || loading} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <Button size="sm" variant="outline" disabled={page >= totalPages || loading} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,6 +4,9 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { MapPin, ShoppingBag, CreditCard, User, Phone, Mail } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import OrderShipmentsCard from '@/components/admin/OrderShipmentsCard';
+import OrderStatusHistoryCard from '@/components/admin/OrderStatusHistoryCard';
+import { getOrderStatusLabel } from '@/services/api';
 
 interface OrderItem {
   id: number;
@@ -14,6 +17,17 @@ interface OrderItem {
   unit_price: number;
   total_price: number;
   configuration?: any;
+  allocation_status?: 'allocated' | 'backordered' | null;
+}
+
+interface OrderBackorder {
+  id: number;
+  order_item_id: number | null;
+  quantity: number;
+  quantity_allocated: number;
+  status: 'waiting' | 'allocated' | 'cancelled';
+  option_name: string | null;
+  warehouse_code: string;
 }
 
 interface Order {
@@ -24,6 +38,7 @@ interface Order {
   shipping_status: string;
   subtotal: string;
   tax_amount: string;
+  prices_include_tax?: boolean;
   shipping_amount: string;
   discount_amount: string;
   total_amount: string;
@@ -41,23 +56,30 @@ interface Order {
   created_at: string;
   updated_at: string;
   items?: OrderItem[];
+  backorders?: OrderBackorder[];
 }
 
 interface OrderDetailsModalProps {
   order: Order | null;
   open: boolean;
   onClose: () => void;
+  onOrderChange?: () => void;
 }
 
-export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, open, onClose }) => {
+export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, open, onClose, onOrderChange }) => {
   if (!order) return null;
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case 'pending':
+      case 'awaiting_quote':
         return 'bg-yellow-100 text-yellow-800';
       case 'processing':
         return 'bg-blue-100 text-blue-800';
+      case 'on_hold':
+      case 'backordered':
+        return 'bg-orange-100 text-orange-800';
+      case 'partially_shipped':
       case 'shipped':
         return 'bg-purple-100 text-purple-800';
       case 'delivered':
@@ -115,7 +137,7 @@ export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, ope
               <ShoppingBag className="h-5 w-5" />
               <span>Order #{order.order_number}</span>
             </div>
-            <Badge className={getStatusColor(order.status)}>{order.status}</Badge>
+            <Badge className={getStatusColor(order.status)}>{getOrderStatusLabel(order.status)}</Badge>
           </DialogTitle>
         </DialogHeader>
 
@@ -129,7 +151,7 @@ export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, ope
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <Badge className={getStatusColor(order.status)}>{order.status}</Badge>
+                <Badge className={getStatusColor(order.status)}>{getOrderStatusLabel(order.status)}</Badge>
               </CardContent>
             </Card>
             <Card>
@@ -210,21 +232,40 @@ export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, ope
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {order.items.map((item) => (
-                    <div key={item.id} className="flex items-start justify-between py-3 border-b last:border-0">
-                      <div className="flex-1">
-                        <p className="font-medium">{item.product_name}</p>
-                        <p className="text-sm text-muted-foreground">SKU: {item.product_sku}</p>
-                        <p className="text-sm text-muted-foreground">Quantity: {item.quantity}</p>
+                  {order.items.map((item) => {
+                    const waiting = (order.backorders || []).filter(
+                      backorder => backorder.order_item_id === item.id && backorder.status === 'waiting'
+                    );
+                    return (
+                      <div key={item.id} className="flex items-start justify-between py-3 border-b last:border-0">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium">{item.product_name}</p>
+                            {item.allocation_status === 'backordered' && (
+                              <Badge className="bg-orange-100 text-orange-800">Backordered</Badge>
+                            )}
+                            {item.allocation_status === 'allocated' && (
+                              <Badge variant="outline">Allocated</Badge>
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground">SKU: {item.product_sku}</p>
+                          <p className="text-sm text-muted-foreground">Quantity: {item.quantity}</p>
+                          {waiting.map(backorder => (
+                            <p key={backorder.id} className="text-xs text-orange-700">
+                              Waiting on {backorder.quantity - backorder.quantity_allocated} of {backorder.quantity}
+                              {backorder.option_name && ` ${backorder.option_name}`} at {backorder.warehouse_code}
+                            </p>
+                          ))}
+                        </div>
+                        <div className="text-right">
+                          <p className="font-semibold">${parseFloat(item.total_price.toString()).toFixed(2)}</p>
+                          <p className="text-sm text-muted-foreground">
+                            ${parseFloat(item.unit_price.toString()).toFixed(2)} each
+                          </p>
+                        </div>
                       </div>
-                      <div className="text-right">
-                        <p className="font-semibold">${parseFloat(item.total_price.toString()).toFixed(2)}</p>
-                        <p className="text-sm text-muted-foreground">
-                          ${parseFloat(item.unit_price.toString()).toFixed(2)} each
-                        </p>
-                      </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </CardContent>
             </Card>
@@ -242,7 +283,7 @@ export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, ope
               </div>
               {parseFloat(order.tax_amount) > 0 && (
                 <div className="flex justify-between text-sm">
-                  <span>Tax:</span>
+                  <span>{order.prices_include_tax ? 'VAT (included):' : 'Tax:'}</span>
                   <span>${parseFloat(order.tax_amount).toFixed(2)}</span>
                 </div>
               )}
@@ -327,6 +368,17 @@ export const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, ope
             </Card>
           )}
 
+          {/* Shipments */}
+          <OrderShipmentsCard
+            orderId={order.id}
+            paymentStatus={order.payment_status}
+            country={order.shipping_address?.country}
+            onChange={onOrderChange}
+          />
+
+          {/* Status History */}
+          <OrderStatusHistoryCard orderId={order.id} updatedAt={order.updated_at} />
+
           {/* Notes */}
           {order.notes && (
             <Card>
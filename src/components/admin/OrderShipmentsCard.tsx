@@ -0,0 +1,191 @@
+/**
+ * Order Shipments Card
+ * FedEx labels of an order in the admin order view: create a label for a paid order,
+ * open each parcel's label PDF and void the shipment.
+ */
+
+import { useState, useEffect } from 'react';
+import { Truck, FileText, Ban, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import PermittedFor from '@/components/auth/PermittedFor';
+import { useToast } from '@/hooks/use-toast';
+import { shipmentsAPI, Shipment, FedExServiceType, FEDEX_SERVICE_TYPES } from '@/services/api';
+
+interface OrderShipmentsCardProps {
+  orderId: number;
+  paymentStatus: string;
+  country?: string;
+  onChange?: () => void;
+}
+
+const SHIPPABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+export default function OrderShipmentsCard({ orderId, paymentStatus, country, onChange }: OrderShipmentsCardProps) {
+  const { toast } = useToast();
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [voidingId, setVoidingId] = useState<number | null>(null);
+  const [serviceType, setServiceType] = useState<FedExServiceType>(
+    country && country !== 'US' ? 'FEDEX_INTERNATIONAL_PRIORITY' : 'FEDEX_GROUND'
+  );
+
+  useEffect(() => {
+    fetchShipments();
+  }, [orderId]);
+
+  const fetchShipments = async () => {
+    setLoading(true);
+    try {
+      const response = await shipmentsAPI.getOrderShipments(orderId);
+      setShipments(response.data);
+    } catch (error) {
+      console.error('Error fetching shipments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateLabel = async () => {
+    setCreating(true);
+    try {
+      const response = await shipmentsAPI.createLabel(orderId, serviceType);
+      setShipments(response.data);
+      toast({ title: 'Shipping label created' });
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create shipping label',
+        variant: 'destructive'
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleVoid = async (shipment: Shipment) => {
+    const trackingNumber = shipment.master_tracking_number || shipment.tracking_number;
+    if (!confirm(`Void FedEx shipment ${trackingNumber}? All of its labels will be cancelled.`)) {
+      return;
+    }
+
+    setVoidingId(shipment.id);
+    try {
+      const response = await shipmentsAPI.voidLabel(orderId, shipment.id);
+      setShipments(response.data);
+      toast({ title: 'Shipping label voided' });
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to void shipping label',
+        variant: 'destructive'
+      });
+    } finally {
+      setVoidingId(null);
+    }
+  };
+
+  const handleOpenLabel = async (shipment: Shipment) => {
+    try {
+      await shipmentsAPI.openLabel(orderId, shipment.id);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to open label',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const hasActiveLabel = shipments.some(shipment => shipment.carrier === 'FedEx' && shipment.status !== 'voided');
+  const canCreateLabel = SHIPPABLE_PAYMENT_STATUSES.includes(paymentStatus) && !hasActiveLabel;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="h-5 w-5" />
+          Shipments
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : shipments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No labels have been created for this order.</p>
+        ) : (
+          <div className="space-y-2">
+            {shipments.map(shipment => (
+              <div key={shipment.id} className="flex items-center justify-between gap-3 border rounded-md p-2">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono">{shipment.tracking_number}</span>
+                    <Badge variant={shipment.status === 'voided' ? 'secondary' : 'outline'}>{shipment.status}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {shipment.carrier} {shipment.service_code}
+                    {shipment.parcel && (
+                      <> · {shipment.parcel.length}×{shipment.parcel.width}×{shipment.parcel.height} in, {shipment.parcel.weightLbs} lbs</>
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {shipment.has_label && shipment.status !== 'voided' && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => handleOpenLabel(shipment)}>
+                      <FileText className="h-4 w-4 mr-1" />
+                      Label
+                    </Button>
+                  )}
+                  {shipment.status === 'label_created' && (
+                    <PermittedFor authority="orders:manage">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleVoid(shipment)}
+                        disabled={voidingId !== null}
+                      >
+                        {voidingId === shipment.id
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <Ban className="h-4 w-4 mr-1" />}
+                        Void
+                      </Button>
+                    </PermittedFor>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canCreateLabel && (
+          <PermittedFor authority="orders:manage">
+            <div className="flex items-center gap-2">
+              <Select value={serviceType} onValueChange={(value: FedExServiceType) => setServiceType(value)}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FEDEX_SERVICE_TYPES.map(service => (
+                    <SelectItem key={service.value} value={service.value}>{service.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" size="sm" onClick={handleCreateLabel} disabled={creating}>
+                {creating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Truck className="h-4 w-4 mr-1" />}
+                Create label
+              </Button>
+            </div>
+          </PermittedFor>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
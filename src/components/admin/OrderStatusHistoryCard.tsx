@@ -0,0 +1,95 @@
+/**
+ * Order Status History Card
+ * Timeline of an order's status transitions and notes in the admin order view,
+ * with who made each change and why.
+ */
+
+import { useState, useEffect } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { orderStatusAPI, OrderStatusHistoryEntry, OrderActorType, getOrderStatusLabel } from '@/services/api';
+
+interface OrderStatusHistoryCardProps {
+  orderId: number;
+  /** Changes whenever the order is updated, so the timeline reloads */
+  updatedAt?: string;
+}
+
+const ACTOR_LABELS: Record<OrderActorType, string> = {
+  admin: 'Staff',
+  customer: 'Customer',
+  system: 'System',
+  shipstation: 'ShipStation',
+  carrier: 'Carrier tracking'
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+export default function OrderStatusHistoryCard({ orderId, updatedAt }: OrderStatusHistoryCardProps) {
+  const [history, setHistory] = useState<OrderStatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        const response = await orderStatusAPI.getHistory(orderId);
+        setHistory(response.data);
+      } catch (error) {
+        console.error('Error fetching order status history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [orderId, updatedAt]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Status History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading && history.length === 0 ? (
+          <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {[...history].reverse().map((entry, index) => (
+              <li key={entry.id} className="ml-4">
+                <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                  index === 0 ? 'bg-primary' : 'bg-muted-foreground/40'
+                }`} />
+                <p className="text-sm font-medium">
+                  {entry.from_status
+                    ? `${getOrderStatusLabel(entry.from_status)} → ${getOrderStatusLabel(entry.status)}`
+                    : 'Note'}
+                </p>
+                {entry.comment && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{entry.comment}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {formatDateTime(entry.created_at)} · {entry.created_by_name || ACTOR_LABELS[entry.actor_type] || entry.actor_type}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+/**
+ * Product Attributes Editor
+ * Attribute values of a product (compatibility, material, colour, monitor size) used by the
+ * shop filters. Saving also updates the product's other-region listing.
+ */
+
+import { useState, useEffect } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import PermittedFor from '@/components/auth/PermittedFor';
+import { useToast } from '@/hooks/use-toast';
+import {
+  adminProductAttributesAPI,
+  ProductAttributeDefinition,
+  ProductAttributeValueInput
+} from '@/services/api';
+
+interface ProductAttributesEditorProps {
+  productId: number;
+  // Product categories; attributes of other categories are hidden unless the product has a value
+  categories: string[];
+}
+
+// Radix Select cannot have an empty item value
+const NO_VALUE = '__none__';
+
+type DraftValue = { values: string[]; min: string; max: string };
+
+export default function ProductAttributesEditor({ productId, categories }: ProductAttributesEditorProps) {
+  const { toast } = useToast();
+  const [definitions, setDefinitions] = useState<ProductAttributeDefinition[]>([]);
+  const [draft, setDraft] = useState<Record<string, DraftValue>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (productId) {
+      fetchAttributes();
+    }
+  }, [productId]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchAttributes = async () => {
+    setLoading(true);
+    try {
+      const [definitionsResponse, valuesResponse] = await Promise.all([
+        adminProductAttributesAPI.list(),
+        adminProductAttributesAPI.getProductAttributes(productId)
+      ]);
+      setDefinitions(definitionsResponse.data);
+      setDraft(Object.fromEntries(valuesResponse.data.map((value) => [
+        value.code,
+        {
+          values: value.values || [],
+          min: value.min !== null && value.min !== undefined ? String(value.min) : '',
+          max: value.max !== null && value.max !== undefined ? String(value.max) : ''
+        }
+      ])));
+    } catch (error) {
+      console.error('Error fetching product attributes:', error);
+      showError(error, 'Failed to fetch product attributes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getDraft = (code: string): DraftValue => draft[code] || { values: [], min: '', max: '' };
+
+  const updateDraft = (code: string, changes: Partial<DraftValue>) => {
+    setDraft({ ...draft, [code]: { ...getDraft(code), ...changes } });
+  };
+
+  const handleSave = async () => {
+    const attributes: ProductAttributeValueInput[] = definitions
+      .map((definition) => {
+        const value = getDraft(definition.code);
+        if (definition.type === 'select' || definition.type === 'multiselect') {
+          return { code: definition.code, values: value.values };
+        }
+        const min = value.min.trim() === '' ? null : Number(value.min);
+        const max = value.max.trim() === '' ? null : Number(value.max);
+        return definition.type === 'range'
+          ? { code: definition.code, min, max }
+          : { code: definition.code, min };
+      })
+      .filter((attribute) => (attribute.values ? attribute.values.length > 0 : attribute.min !== null));
+
+    setSaving(true);
+    try {
+      await adminProductAttributesAPI.saveProductAttributes(productId, attributes);
+      toast({ title: 'Attributes saved' });
+      await fetchAttributes();
+    } catch (error) {
+      showError(error, 'Failed to save attributes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const visibleDefinitions = definitions.filter((definition) =>
+    definition.categories.length === 0 ||
+    definition.categories.some((category) => categories.includes(category)) ||
+    draft[definition.code]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (visibleDefinitions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-4">
+        No attributes apply to this product's categories. Define them in the Attributes section of the admin.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {visibleDefinitions.map((definition) => {
+          const value = getDraft(definition.code);
+          const unit = definition.unit ? ` (${definition.unit})` : '';
+
+          return (
+            <div key={definition.id} className="space-y-2">
+              <Label>{definition.name}{unit}</Label>
+
+              {definition.type === 'select' && (
+                <Select
+                  value={value.values[0] || NO_VALUE}
+                  onValueChange={(selected) => updateDraft(definition.code, {
+                    values: selected === NO_VALUE ? [] : [selected]
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_VALUE}>Not set</SelectItem>
+                    {definition.options.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {definition.type === 'multiselect' && (
+                <div className="grid grid-cols-2 gap-2 border rounded-md p-3">
+                  {definition.options.map((option) => (
+                    <div key={option.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`attribute-${definition.code}-${option.value}`}
+                        checked={value.values.includes(option.value)}
+                        onCheckedChange={(checked) => updateDraft(definition.code, {
+                          values: checked
+                            ? [...value.values, option.value]
+                            : value.values.filter((v) => v !== option.value)
+                        })}
+                      />
+                      <Label
+                        htmlFor={`attribute-${definition.code}-${option.value}`}
+                        className="text-sm font-normal cursor-pointer"
+                      >
+                        {option.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {definition.type === 'number' && (
+                <Input
+                  type="number"
+                  step="any"
+                  value={value.min}
+                  onChange={(e) => updateDraft(definition.code, { min: e.target.value })}
+                />
+              )}
+
+              {definition.type === 'range' && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    step="any"
+                    placeholder="Min"
+                    value={value.min}
+                    onChange={(e) => updateDraft(definition.code, { min: e.target.value })}
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="number"
+                    step="any"
+                    placeholder="Max"
+                    value={value.max}
+                    onChange={(e) => updateDraft(definition.code, { max: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <PermittedFor authority="products:edit">
+        <div className="flex justify-end">
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Attributes
+          </Button>
+        </div>
+      </PermittedFor>
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+/**
+ * Product Attributes Tab Component
+ * Typed attributes per category (wheel base brand, seat type, material, monitor size),
+ * shown as filters in the shop sidebar and assigned to products in the product editor
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import PermittedFor from '@/components/auth/PermittedFor';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Pencil, Plus, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import {
+  adminProductAttributesAPI,
+  AttributeOption,
+  AttributeType,
+  ProductAttributeDefinition
+} from '@/services/api';
+
+const CATEGORY_OPTIONS = [
+  { value: 'flight-sim', label: 'Flight Sim' },
+  { value: 'sim-racing', label: 'Sim Racing' },
+  { value: 'cockpits', label: 'Cockpits' },
+  { value: 'accessories', label: 'Accessories' },
+  { value: 'monitor-stands', label: 'Monitor Stands' },
+  { value: 'conversion-kits', label: 'Conversion Kits' },
+  { value: 'services', label: 'Services' },
+  { value: 'individual-parts', label: 'Individual Parts' },
+  { value: 'racing-flight-seats', label: 'Racing & Flight Seats' },
+  { value: 'refurbished', label: 'B-stock' },
+  { value: 'bundles', label: 'Bundles' },
+  { value: 'flight-sim-add-on-modules', label: 'Flight Sim Add-On Modules' },
+  { value: 'flight-sim-accessories', label: 'Flight Sim Accessories' }
+];
+
+const TYPE_LABELS: Record<AttributeType, string> = {
+  select: 'Single choice',
+  multiselect: 'Multiple choice',
+  number: 'Number',
+  range: 'Range'
+};
+
+const toSlug = (value: string) =>
+  value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+interface AttributeForm {
+  code: string;
+  name: string;
+  type: AttributeType;
+  unit: string;
+  categories: string[];
+  options: AttributeOption[];
+  is_filterable: boolean;
+  sort_order: number;
+}
+
+const emptyForm: AttributeForm = {
+  code: '',
+  name: '',
+  type: 'select',
+  unit: '',
+  categories: [],
+  options: [],
+  is_filterable: true,
+  sort_order: 0
+};
+
+export default function ProductAttributesTab() {
+  const [attributes, setAttributes] = useState<ProductAttributeDefinition[]>([]);
+  const [form, setForm] = useState<AttributeForm>(emptyForm);
+  const [newOption, setNewOption] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchAttributes();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchAttributes = async () => {
+    setLoading(true);
+    try {
+      const response = await adminProductAttributesAPI.list();
+      setAttributes(response.data);
+    } catch (error) {
+      console.error('Error fetching product attributes:', error);
+      showError(error, 'Failed to fetch product attributes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setNewOption('');
+    setEditingId(null);
+  };
+
+  const hasOptions = form.type === 'select' || form.type === 'multiselect';
+
+  const handleAddOption = () => {
+    const label = newOption.trim();
+    const value = toSlug(label);
+    if (!value || form.options.some((option) => option.value === value)) return;
+
+    setForm({ ...form, options: [...form.options, { value, label }] });
+    setNewOption('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data = {
+        code: form.code.trim() || toSlug(form.name),
+        name: form.name.trim(),
+        type: form.type,
+        unit: form.unit.trim() || null,
+        categories: form.categories,
+        options: hasOptions ? form.options : [],
+        is_filterable: form.is_filterable,
+        sort_order: form.sort_order
+      };
+      if (editingId) {
+        await adminProductAttributesAPI.update(editingId, data);
+        toast({ title: 'Attribute updated' });
+      } else {
+        await adminProductAttributesAPI.create(data);
+        toast({ title: 'Attribute created' });
+      }
+      resetForm();
+      await fetchAttributes();
+    } catch (error) {
+      showError(error, 'Failed to save attribute');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (attribute: ProductAttributeDefinition) => {
+    setEditingId(attribute.id);
+    setNewOption('');
+    setForm({
+      code: attribute.code,
+      name: attribute.name,
+      type: attribute.type,
+      unit: attribute.unit || '',
+      categories: attribute.categories,
+      options: attribute.options,
+      is_filterable: attribute.is_filterable,
+      sort_order: attribute.sort_order
+    });
+  };
+
+  const handleDelete = async (attribute: ProductAttributeDefinition) => {
+    if (!confirm(`Delete "${attribute.name}" and its values on every product?`)) return;
+
+    setBusyId(attribute.id);
+    try {
+      await adminProductAttributesAPI.delete(attribute.id);
+      toast({ title: 'Attribute deleted' });
+      if (editingId === attribute.id) resetForm();
+      await fetchAttributes();
+    } catch (error) {
+      showError(error, 'Failed to delete attribute');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const categoryLabel = (value: string) =>
+    CATEGORY_OPTIONS.find((category) => category.value === value)?.label || value;
+
+  return (
+    <div className="space-y-6">
+      <PermittedFor authority="products:edit">
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Attribute' : 'Add Attribute'}</CardTitle>
+            <CardDescription>
+              Filterable attributes appear in the shop sidebar for their categories. Removing an option
+              also removes it from the products that had it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-4">
+                <div className="space-y-2">
+                  <Label htmlFor="attribute-name">Name</Label>
+                  <Input
+                    id="attribute-name"
+                    placeholder="Wheel Base Brand"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="attribute-code">Code</Label>
+                  <Input
+                    id="attribute-code"
+                    placeholder={toSlug(form.name) || 'wheel-base-brand'}
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as AttributeType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(TYPE_LABELS) as AttributeType[]).map((type) => (
+                        <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="attribute-unit">Unit</Label>
+                  <Input
+                    id="attribute-unit"
+                    placeholder={hasOptions ? '' : 'in'}
+                    value={form.unit}
+                    disabled={hasOptions}
+                    onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {hasOptions && (
+                <div className="space-y-2">
+                  <Label htmlFor="attribute-option">Options</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {form.options.map((option) => (
+                      <Badge key={option.value} variant="secondary" className="gap-1">
+                        {option.label}
+                        <button
+                          type="button"
+                          aria-label={`Remove ${option.label}`}
+                          onClick={() => setForm({
+                            ...form,
+                            options: form.options.filter((o) => o.value !== option.value)
+                          })}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-2 max-w-md">
+                    <Input
+                      id="attribute-option"
+                      placeholder="Fanatec"
+                      value={newOption}
+                      onChange={(e) => setNewOption(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          handleAddOption();
+                        }
+                      }}
+                    />
+                    <Button type="button" variant="outline" onClick={handleAddOption}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Categories (none selected applies to all)</Label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 border rounded-md p-4">
+                  {CATEGORY_OPTIONS.map((category) => (
+                    <div key={category.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`attribute-category-${category.value}`}
+                        checked={form.categories.includes(category.value)}
+                        onCheckedChange={(checked) => setForm({
+                          ...form,
+                          categories: checked
+                            ? [...form.categories, category.value]
+                            : form.categories.filter((c) => c !== category.value)
+                        })}
+                      />
+                      <Label htmlFor={`attribute-category-${category.value}`} className="text-sm font-normal cursor-pointer">
+                        {category.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-end gap-6">
+                <div className="space-y-2">
+                  <Label htmlFor="attribute-sort">Sort Order</Label>
+                  <Input
+                    id="attribute-sort"
+                    type="number"
+                    min={0}
+                    className="w-24"
+                    value={form.sort_order}
+                    onChange={(e) => setForm({ ...form, sort_order: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Switch
+                    id="attribute-filterable"
+                    checked={form.is_filterable}
+                    onCheckedChange={(checked) => setForm({ ...form, is_filterable: checked })}
+                  />
+                  <Label htmlFor="attribute-filterable" className="cursor-pointer">Show as shop filter</Label>
+                </div>
+                <div className="flex gap-2 ml-auto">
+                  {editingId && (
+                    <Button type="button" variant="outline" onClick={resetForm}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button type="submit" disabled={saving}>
+                    {saving ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      !editingId && <Plus className="mr-2 h-4 w-4" />
+                    )}
+                    {editingId ? 'Save' : 'Add'}
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </PermittedFor>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Product Attributes
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : attributes.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No attributes yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Attribute</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Options</TableHead>
+                  <TableHead>Categories</TableHead>
+                  <TableHead>Filter</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attributes.map((attribute) => (
+                  <TableRow key={attribute.id}>
+                    <TableCell>
+                      <div className="font-medium">{attribute.name}</div>
+                      <div className="text-xs text-muted-foreground">{attribute.code}</div>
+                    </TableCell>
+                    <TableCell>
+                      {TYPE_LABELS[attribute.type]}
+                      {attribute.unit && ` (${attribute.unit})`}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {attribute.options.map((option) => (
+                          <Badge key={option.value} variant="secondary">{option.label}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {attribute.categories.length === 0
+                        ? 'All'
+                        : attribute.categories.map(categoryLabel).join(', ')}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={attribute.is_filterable ? 'default' : 'outline'}>
+                        {attribute.is_filterable ? 'Yes' : 'No'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <PermittedFor authority="products:edit">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(attribute)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={busyId === attribute.id}
+                            onClick={() => handleDelete(attribute)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </PermittedFor>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
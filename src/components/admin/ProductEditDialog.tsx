@@ -10,7 +10,8 @@ import {
   StarOff,
   CalendarIcon,
   Clock,
-  AlertTriangle
+  AlertTriangle,
+  History
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -31,6 +32,10 @@ import VariationManagementDialog from './VariationManagementDialog';
 import FAQsList from './FAQsList';
 import DescriptionComponentsList from './DescriptionComponentsList';
 import VariationStockManager from './VariationStockManager';
+import ShippingBoxesManager from './ShippingBoxesManager';
+import RecommendationsManager from './RecommendationsManager';
+import ProductAttributesEditor from './ProductAttributesEditor';
+import InventoryHistoryDialog from './InventoryHistoryDialog';
 import BundleComposer from './BundleComposer';
 import PermittedFor from '@/components/auth/PermittedFor';
 import { format } from 'date-fns';
@@ -69,6 +74,7 @@ const ProductEditDialog = ({
 }: ProductEditDialogProps) => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
+  const [stockHistoryOpen, setStockHistoryOpen] = useState(false);
   const [faqs, setFaqs] = useState<ProductFAQ[]>([]);
   const [faqsLoading, setFaqsLoading] = useState(false);
   const [saleStartDate, setSaleStartDate] = useState<Date | undefined>(undefined);
@@ -1041,7 +1047,20 @@ const ProductEditDialog = ({
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div>
-                      <Label htmlFor="stock_quantity">Stock Quantity</Label>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="stock_quantity">Stock Quantity</Label>
+                        {product && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setStockHistoryOpen(true)}
+                          >
+                            <History className="h-4 w-4 mr-1" />
+                            History
+                          </Button>
+                        )}
+                      </div>
                       <Input
                         id="stock_quantity"
                         type="number"
@@ -1270,6 +1289,11 @@ const ProductEditDialog = ({
                     </SelectContent>
                   </Select>
                 </div>
+
+                {/* Shipping Boxes - saved separately, needs an existing product */}
+                {product?.id && (
+                  <ShippingBoxesManager productId={product.id} variations={localVariations} />
+                )}
               </CardContent>
             </Card>
             )}
@@ -1406,11 +1430,13 @@ const ProductEditDialog = ({
           {/* Additional Content in Tabs - Group mode or standalone */}
           {product && (isGroupMode || isStandalone) && (
             <Tabs defaultValue="variations" className="mt-6">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-6">
                 <TabsTrigger value="variations">Variations & Stock</TabsTrigger>
                 <TabsTrigger value="bundle">Bundle Items</TabsTrigger>
                 <TabsTrigger value="descriptions">Description Components</TabsTrigger>
                 <TabsTrigger value="faqs">FAQs</TabsTrigger>
+                <TabsTrigger value="attributes">Attributes</TabsTrigger>
+                <TabsTrigger value="recommendations">Recommendations</TabsTrigger>
               </TabsList>
 
               {/* Variations & Stock Tab */}
@@ -1485,6 +1511,16 @@ const ProductEditDialog = ({
                   onFAQReorder={handleReorderFAQs}
                 />
               </TabsContent>
+
+              {/* Attributes Tab */}
+              <TabsContent value="attributes" className="mt-4">
+                <ProductAttributesEditor productId={product.id} categories={productForm.categories} />
+              </TabsContent>
+
+              {/* Recommendations Tab */}
+              <TabsContent value="recommendations" className="mt-4">
+                <RecommendationsManager productId={product.id} />
+              </TabsContent>
             </Tabs>
           )}
         </div>
@@ -1511,6 +1547,15 @@ const ProductEditDialog = ({
         </DialogFooter>
       </DialogContent>
       </Dialog>
+
+      {product && (
+        <InventoryHistoryDialog
+          open={stockHistoryOpen}
+          onClose={() => setStockHistoryOpen(false)}
+          productId={product.id}
+          title={product.sku ? `${product.name} (${product.sku})` : product.name}
+        />
+      )}
       
       {/* Variation Management Dialog */}
       {product && (
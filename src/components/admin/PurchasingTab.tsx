@@ -0,0 +1,827 @@
+/**
+ * Purchasing Tab Component
+ * Admin management of suppliers, purchase orders and receiving, with a
+ * landed-cost margin report
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import PermittedFor from '@/components/auth/PermittedFor';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Edit, Truck, ClipboardList, PackageCheck, TrendingUp, X } from 'lucide-react';
+import {
+  purchasingAPI,
+  warehouseAPI,
+  Supplier,
+  SupplierInput,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  CreatePurchaseOrderInput,
+  MarginReportRow,
+  Warehouse
+} from '@/services/api';
+
+type MarginPeriod = '7d' | '30d' | '90d' | '365d';
+
+const emptySupplier: SupplierInput = {
+  name: '',
+  contact_name: '',
+  email: '',
+  phone: '',
+  currency: 'USD',
+  lead_time_days: null,
+  notes: '',
+  is_active: true
+};
+
+const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+const PO_STATUS_VARIANTS: Record<PurchaseOrderStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  draft: 'outline',
+  ordered: 'default',
+  partially_received: 'default',
+  received: 'secondary',
+  cancelled: 'destructive'
+};
+
+interface OrderLineForm {
+  productId: string;
+  variationOptionId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+const emptyLine: OrderLineForm = { productId: '', variationOptionId: '', quantity: '1', unitCost: '' };
+
+const emptyOrderForm = {
+  supplierId: '',
+  warehouseId: '',
+  expectedAt: '',
+  shippingCost: '',
+  dutyCost: '',
+  otherCost: '',
+  notes: ''
+};
+
+const formatMoney = (value: number | string | null | undefined) =>
+  value === null || value === undefined ? '—' : `$${Number(value).toFixed(2)}`;
+
+export default function PurchasingTab() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'all'>('all');
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [supplierDialogOpen, setSupplierDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [supplierForm, setSupplierForm] = useState<SupplierInput>(emptySupplier);
+
+  const [orderDialogOpen, setOrderDialogOpen] = useState(false);
+  const [orderForm, setOrderForm] = useState(emptyOrderForm);
+  const [orderLines, setOrderLines] = useState<OrderLineForm[]>([emptyLine]);
+
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [receiveQuantities, setReceiveQuantities] = useState<Record<number, string>>({});
+  const [receiveNote, setReceiveNote] = useState('');
+
+  const [marginPeriod, setMarginPeriod] = useState<MarginPeriod>('30d');
+  const [margins, setMargins] = useState<MarginReportRow[]>([]);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchMargins();
+  }, [marginPeriod]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [supplierResponse, orderResponse, warehouseResponse] = await Promise.all([
+        purchasingAPI.getSuppliers(),
+        purchasingAPI.getPurchaseOrders({ status: statusFilter === 'all' ? undefined : statusFilter, limit: 50 }),
+        warehouseAPI.getWarehouses()
+      ]);
+      setSuppliers(supplierResponse.data);
+      setOrders(orderResponse.data.purchaseOrders);
+      setWarehouses(warehouseResponse.data);
+    } catch (error) {
+      console.error('Error fetching purchasing data:', error);
+      showError(error, 'Failed to fetch purchasing data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchMargins = async () => {
+    try {
+      const response = await purchasingAPI.getMarginReport(marginPeriod);
+      setMargins(response.data.products);
+    } catch (error) {
+      console.error('Error fetching margin report:', error);
+      showError(error, 'Failed to fetch margin report');
+    }
+  };
+
+  // ==========================================================================
+  // Suppliers
+  // ==========================================================================
+
+  const openCreateSupplier = () => {
+    setEditingSupplier(null);
+    setSupplierForm(emptySupplier);
+    setSupplierDialogOpen(true);
+  };
+
+  const openEditSupplier = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setSupplierForm({
+      name: supplier.name,
+      contact_name: supplier.contact_name || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      currency: supplier.currency,
+      lead_time_days: supplier.lead_time_days,
+      notes: supplier.notes || '',
+      is_active: supplier.is_active
+    });
+    setSupplierDialogOpen(true);
+  };
+
+  const handleSaveSupplier = async () => {
+    setSaving(true);
+    try {
+      if (editingSupplier) {
+        await purchasingAPI.updateSupplier(editingSupplier.id, supplierForm);
+        toast({ title: 'Supplier updated' });
+      } else {
+        await purchasingAPI.createSupplier(supplierForm);
+        toast({ title: 'Supplier created' });
+      }
+      setSupplierDialogOpen(false);
+      await fetchData();
+    } catch (error) {
+      showError(error, 'Failed to save supplier');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // ==========================================================================
+  // Purchase orders
+  // ==========================================================================
+
+  const openCreateOrder = () => {
+    setOrderForm(emptyOrderForm);
+    setOrderLines([emptyLine]);
+    setOrderDialogOpen(true);
+  };
+
+  const updateLine = (index: number, changes: Partial<OrderLineForm>) => {
+    setOrderLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const handleCreateOrder = async () => {
+    const supplier = suppliers.find(s => s.id.toString() === orderForm.supplierId);
+    const payload: CreatePurchaseOrderInput = {
+      supplierId: Number(orderForm.supplierId),
+      warehouseId: Number(orderForm.warehouseId),
+      currency: supplier?.currency,
+      expectedAt: orderForm.expectedAt || null,
+      shippingCost: Number(orderForm.shippingCost) || 0,
+      dutyCost: Number(orderForm.dutyCost) || 0,
+      otherCost: Number(orderForm.otherCost) || 0,
+      notes: orderForm.notes || null,
+      items: orderLines
+        .filter(line => line.productId !== '')
+        .map(line => ({
+          productId: Number(line.productId),
+          variationOptionId: line.variationOptionId ? Number(line.variationOptionId) : null,
+          quantity: Number(line.quantity),
+          unitCost: Number(line.unitCost) || 0
+        }))
+    };
+
+    setSaving(true);
+    try {
+      const response = await purchasingAPI.createPurchaseOrder(payload);
+      toast({ title: `Purchase order ${response.data.po_number} created` });
+      setOrderDialogOpen(false);
+      await fetchData();
+    } catch (error) {
+      showError(error, 'Failed to create purchase order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOrderAction = async (order: PurchaseOrder, action: 'place' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel purchase order ${order.po_number}?`)) return;
+    setBusyId(`order-${order.id}`);
+    try {
+      await purchasingAPI.updatePurchaseOrderStatus(order.id, action);
+      toast({ title: `Purchase order ${order.po_number} ${action === 'place' ? 'placed' : 'cancelled'}` });
+      await fetchData();
+    } catch (error) {
+      showError(error, 'Failed to update purchase order');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openReceive = async (order: PurchaseOrder) => {
+    setBusyId(`order-${order.id}`);
+    try {
+      const response = await purchasingAPI.getPurchaseOrder(order.id);
+      const quantities: Record<number, string> = {};
+      (response.data.items || []).forEach(item => {
+        quantities[item.id] = String(item.quantity_ordered - item.quantity_received);
+      });
+      setReceiveQuantities(quantities);
+      setReceiveNote('');
+      setReceivingOrder(response.data);
+    } catch (error) {
+      showError(error, 'Failed to load purchase order');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReceive = async () => {
+    if (!receivingOrder) return;
+    const lines = (receivingOrder.items || [])
+      .map(item => ({ itemId: item.id, quantity: parseInt(receiveQuantities[item.id] || '0', 10) || 0 }))
+      .filter(line => line.quantity > 0);
+
+    setSaving(true);
+    try {
+      const response = await purchasingAPI.receivePurchaseOrder(receivingOrder.id, {
+        lines,
+        note: receiveNote || undefined
+      });
+      toast({ title: `${response.data.po_number} ${PO_STATUS_LABELS[response.data.status].toLowerCase()}` });
+      setReceivingOrder(null);
+      await Promise.all([fetchData(), fetchMargins()]);
+    } catch (error) {
+      showError(error, 'Failed to receive stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activeSuppliers = suppliers.filter(supplier => supplier.is_active);
+  const activeWarehouses = warehouses.filter(warehouse => warehouse.is_active);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-5 w-5" />
+              Suppliers
+            </CardTitle>
+            <CardDescription>Vendors that purchase orders are placed with</CardDescription>
+          </div>
+          <PermittedFor authority="purchasing:manage">
+            <Button onClick={openCreateSupplier}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Supplier
+            </Button>
+          </PermittedFor>
+        </CardHeader>
+        <CardContent>
+          {loading && suppliers.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : suppliers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No suppliers yet</p>
+          ) : (
+            <div className="space-y-3">
+              {suppliers.map(supplier => (
+                <div key={supplier.id} className="p-4 border rounded-lg flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{supplier.name}</span>
+                      <Badge variant="secondary">{supplier.currency}</Badge>
+                      {!supplier.is_active && <Badge variant="destructive">Inactive</Badge>}
+                    </div>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      {[supplier.contact_name, supplier.email, supplier.phone].filter(Boolean).join(' · ') || 'No contact details'}
+                      {supplier.lead_time_days !== null && ` · ${supplier.lead_time_days} day lead time`}
+                      {` · ${supplier.open_orders} open orders`}
+                    </div>
+                  </div>
+                  <PermittedFor authority="purchasing:manage">
+                    <Button size="sm" variant="outline" onClick={() => openEditSupplier(supplier)}>
+                      <Edit className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                  </PermittedFor>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              Purchase Orders
+            </CardTitle>
+            <CardDescription>
+              Receiving adds stock to the order's warehouse and records the landed unit cost. Expected dates
+              on open orders are shown to customers on backordered products.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as PurchaseOrderStatus | 'all')}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(PO_STATUS_LABELS) as PurchaseOrderStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{PO_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <PermittedFor authority="purchasing:manage">
+              <Button onClick={openCreateOrder} disabled={activeSuppliers.length === 0 || activeWarehouses.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Order
+              </Button>
+            </PermittedFor>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {orders.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No purchase orders</p>
+          ) : (
+            <div className="divide-y border rounded-lg">
+              {orders.map(order => (
+                <div key={order.id} className="px-4 py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">{order.po_number}</span>
+                      <Badge variant={PO_STATUS_VARIANTS[order.status]}>{PO_STATUS_LABELS[order.status]}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {order.supplier_name} → {order.warehouse_name}
+                      {order.quantity_ordered !== undefined && ` · ${order.quantity_received}/${order.quantity_ordered} received`}
+                      {order.items_total !== undefined && ` · ${order.currency} ${Number(order.items_total).toFixed(2)}`}
+                      {order.expected_at && ` · expected ${new Date(order.expected_at).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  <PermittedFor authority="purchasing:manage">
+                    <div className="flex items-center gap-2">
+                      {order.status === 'draft' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === `order-${order.id}`}
+                          onClick={() => handleOrderAction(order, 'place')}
+                        >
+                          Place
+                        </Button>
+                      )}
+                      {(order.status === 'ordered' || order.status === 'partially_received') && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === `order-${order.id}`}
+                          onClick={() => openReceive(order)}
+                        >
+                          <PackageCheck className="h-4 w-4 mr-1" />
+                          Receive
+                        </Button>
+                      )}
+                      {order.status !== 'received' && order.status !== 'cancelled' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busyId === `order-${order.id}`}
+                          onClick={() => handleOrderAction(order, 'cancel')}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </PermittedFor>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Margins
+            </CardTitle>
+            <CardDescription>Paid order revenue against each product's average landed cost</CardDescription>
+          </div>
+          <Select value={marginPeriod} onValueChange={(value) => setMarginPeriod(value as MarginPeriod)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7d">7 days</SelectItem>
+              <SelectItem value="30d">30 days</SelectItem>
+              <SelectItem value="90d">90 days</SelectItem>
+              <SelectItem value="365d">12 months</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {margins.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No sales in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Landed cost</TableHead>
+                  <TableHead className="text-right">Gross margin</TableHead>
+                  <TableHead className="text-right">Margin %</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {margins.map(row => (
+                  <TableRow key={row.product_id}>
+                    <TableCell>
+                      <div className="font-medium">{row.name}</div>
+                      <div className="text-xs text-muted-foreground">{row.sku}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{row.units_sold}</TableCell>
+                    <TableCell className="text-right">{formatMoney(row.revenue)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(row.landed_cost)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(row.gross_margin)}</TableCell>
+                    <TableCell className="text-right">
+                      {row.margin_percent === null ? '—' : `${Number(row.margin_percent).toFixed(1)}%`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={supplierDialogOpen} onOpenChange={setSupplierDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="supplier_name">Name</Label>
+              <Input
+                id="supplier_name"
+                value={supplierForm.name || ''}
+                onChange={(e) => setSupplierForm({ ...supplierForm, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="supplier_contact">Contact</Label>
+                <Input
+                  id="supplier_contact"
+                  value={supplierForm.contact_name || ''}
+                  onChange={(e) => setSupplierForm({ ...supplierForm, contact_name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="supplier_email">Email</Label>
+                <Input
+                  id="supplier_email"
+                  type="email"
+                  value={supplierForm.email || ''}
+                  onChange={(e) => setSupplierForm({ ...supplierForm, email: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="supplier_phone">Phone</Label>
+                <Input
+                  id="supplier_phone"
+                  value={supplierForm.phone || ''}
+                  onChange={(e) => setSupplierForm({ ...supplierForm, phone: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="supplier_currency">Currency</Label>
+                <Input
+                  id="supplier_currency"
+                  maxLength={3}
+                  value={supplierForm.currency || ''}
+                  onChange={(e) => setSupplierForm({ ...supplierForm, currency: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="supplier_lead_time">Lead time (days)</Label>
+                <Input
+                  id="supplier_lead_time"
+                  type="number"
+                  min="0"
+                  value={supplierForm.lead_time_days ?? ''}
+                  onChange={(e) => setSupplierForm({
+                    ...supplierForm,
+                    lead_time_days: e.target.value === '' ? null : parseInt(e.target.value) || 0
+                  })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="supplier_notes">Notes</Label>
+              <Textarea
+                id="supplier_notes"
+                value={supplierForm.notes || ''}
+                onChange={(e) => setSupplierForm({ ...supplierForm, notes: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="supplier_active">Active</Label>
+              <Switch
+                id="supplier_active"
+                checked={!!supplierForm.is_active}
+                onCheckedChange={(checked) => setSupplierForm({ ...supplierForm, is_active: checked })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSupplierDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveSupplier} disabled={saving || !supplierForm.name}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={orderDialogOpen} onOpenChange={setOrderDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Supplier</Label>
+                <Select
+                  value={orderForm.supplierId}
+                  onValueChange={(value) => setOrderForm({ ...orderForm, supplierId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeSuppliers.map(supplier => (
+                      <SelectItem key={supplier.id} value={supplier.id.toString()}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Receive into</Label>
+                <Select
+                  value={orderForm.warehouseId}
+                  onValueChange={(value) => setOrderForm({ ...orderForm, warehouseId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeWarehouses.map(warehouse => (
+                      <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                        {warehouse.name} ({warehouse.code})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="po_expected">Expected</Label>
+                <Input
+                  id="po_expected"
+                  type="date"
+                  value={orderForm.expectedAt}
+                  onChange={(e) => setOrderForm({ ...orderForm, expectedAt: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Lines</Label>
+              {orderLines.map((line, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    placeholder="Product ID"
+                    value={line.productId}
+                    onChange={(e) => updateLine(index, { productId: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Option ID (optional)"
+                    value={line.variationOptionId}
+                    onChange={(e) => updateLine(index, { variationOptionId: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    placeholder="Qty"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-28"
+                    placeholder="Unit cost"
+                    value={line.unitCost}
+                    onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={orderLines.length === 1}
+                    onClick={() => setOrderLines(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button size="sm" variant="outline" onClick={() => setOrderLines(prev => [...prev, emptyLine])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Line
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="po_shipping">Freight</Label>
+                <Input
+                  id="po_shipping"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={orderForm.shippingCost}
+                  onChange={(e) => setOrderForm({ ...orderForm, shippingCost: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="po_duty">Duty</Label>
+                <Input
+                  id="po_duty"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={orderForm.dutyCost}
+                  onChange={(e) => setOrderForm({ ...orderForm, dutyCost: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="po_other">Other costs</Label>
+                <Input
+                  id="po_other"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={orderForm.otherCost}
+                  onChange={(e) => setOrderForm({ ...orderForm, otherCost: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Freight, duty and other costs are spread across lines by value to give each unit's landed cost.
+            </p>
+
+            <div>
+              <Label htmlFor="po_notes">Notes</Label>
+              <Textarea
+                id="po_notes"
+                value={orderForm.notes}
+                onChange={(e) => setOrderForm({ ...orderForm, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOrderDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={handleCreateOrder}
+              disabled={saving || !orderForm.supplierId || !orderForm.warehouseId}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Draft
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!receivingOrder} onOpenChange={(open) => !open && setReceivingOrder(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Receive {receivingOrder?.po_number}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="w-28">Receive now</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(receivingOrder?.items || []).map(item => {
+                  const outstanding = item.quantity_ordered - item.quantity_received;
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.product_name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {item.sku}{item.option_name && ` · ${item.option_name}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{item.quantity_ordered}</TableCell>
+                      <TableCell className="text-right">{item.quantity_received}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={outstanding}
+                          disabled={outstanding === 0}
+                          value={receiveQuantities[item.id] ?? '0'}
+                          onChange={(e) => setReceiveQuantities({ ...receiveQuantities, [item.id]: e.target.value })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <div>
+              <Label htmlFor="receive_note">Note</Label>
+              <Input
+                id="receive_note"
+                value={receiveNote}
+                onChange={(e) => setReceiveNote(e.target.value)}
+                placeholder="Delivery reference, damaged units..."
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceivingOrder(null)}>Cancel</Button>
+            <Button onClick={handleReceive} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Receive Stock
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
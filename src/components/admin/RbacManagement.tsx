@@ -22,6 +22,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import PermittedFor from '@/components/auth/PermittedFor';
@@ -176,6 +177,38 @@ const RbacManagement: React.FC = () => {
     }
   };
 
+  const toggleRoleTwoFactor = async (role: Role, required: boolean) => {
+    try {
+      await rbacAPI.setRoleRequiresTwoFactor(role.id, required);
+      toast({
+        title: 'Success',
+        description: required
+          ? `Members of ${role.name} must use two-factor authentication`
+          : `Two-factor authentication is optional for ${role.name}`
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update role',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const toggleAuthorityStepUp = async (authority: Authority, required: boolean) => {
+    try {
+      await rbacAPI.setAuthorityRequiresStepUp(authority.id, required);
+      toast({ title: 'Success', description: 'Authority updated successfully' });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update authority',
+        variant: 'destructive'
+      });
+    }
+  };
 
   if (!isAuthenticated) {
     return (
@@ -299,6 +332,14 @@ const RbacManagement: React.FC = () => {
                           <h4 className="font-semibold">{role.name}</h4>
                           {role.description && <p className="text-sm text-muted-foreground">{role.description}</p>}
                         </div>
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor={`role-2fa-${role.id}`} className="text-sm">Require 2FA</Label>
+                          <Switch
+                            id={`role-2fa-${role.id}`}
+                            checked={!!role.requires_two_factor}
+                            onCheckedChange={(checked) => toggleRoleTwoFactor(role, checked)}
+                          />
+                        </div>
                       </div>
                       <div className="space-y-2">
                         <Label className="text-sm font-medium">Authorities:</Label>
@@ -395,6 +436,16 @@ const RbacManagement: React.FC = () => {
                           <Badge variant="outline">{authority.resource}:{authority.action}</Badge>
                           {authority.description && <p className="text-sm text-muted-foreground">{authority.description}</p>}
                         </div>
+                        <PermittedFor authority="rbac:manage">
+                          <div className="flex items-center gap-2" title="Changes under this authority need a recent re-authentication">
+                            <Label htmlFor={`authority-step-up-${authority.id}`} className="text-sm">Step-up</Label>
+                            <Switch
+                              id={`authority-step-up-${authority.id}`}
+                              checked={!!authority.requires_step_up}
+                              onCheckedChange={(checked) => toggleAuthorityStepUp(authority, checked)}
+                            />
+                          </div>
+                        </PermittedFor>
                       </div>
                     </div>
                   ))}
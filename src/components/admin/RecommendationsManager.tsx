@@ -0,0 +1,281 @@
+/**
+ * Recommendations Manager
+ * Computed and curated recommendations of a product. Pinned products show first in their
+ * block; excluded products never show, even when the nightly rebuild computes them again.
+ */
+
+import { useState, useEffect } from 'react';
+import { Ban, Loader2, Pin, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import PermittedFor from '@/components/auth/PermittedFor';
+import ProductSelector from './ProductSelector';
+import { useToast } from '@/hooks/use-toast';
+import { adminRecommendationsAPI, ProductRelationship, RecommendationType } from '@/services/api';
+
+interface RecommendationsManagerProps {
+  productId: number;
+}
+
+const TYPE_LABELS: Record<RecommendationType, string> = {
+  frequently_bought_together: 'Frequently Bought Together',
+  accessory: 'Compatible Accessories',
+  related: 'Customers Also Viewed'
+};
+
+export default function RecommendationsManager({ productId }: RecommendationsManagerProps) {
+  const { toast } = useToast();
+  const [relationships, setRelationships] = useState<ProductRelationship[]>([]);
+  const [addType, setAddType] = useState<RecommendationType>('frequently_bought_together');
+  const [selectorOpen, setSelectorOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [recomputing, setRecomputing] = useState(false);
+
+  useEffect(() => {
+    if (productId) {
+      fetchRelationships();
+    }
+  }, [productId]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchRelationships = async () => {
+    setLoading(true);
+    try {
+      const response = await adminRecommendationsAPI.getRecommendations(productId);
+      setRelationships(response.data);
+    } catch (error) {
+      console.error('Error fetching recommendations:', error);
+      showError(error, 'Failed to fetch recommendations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async (relatedProductId: number) => {
+    setSelectorOpen(false);
+    const pinned = relationships.filter(
+      (relationship) => relationship.relationship_type === addType && relationship.source === 'manual'
+    );
+    try {
+      await adminRecommendationsAPI.saveRecommendation(productId, {
+        related_product_id: relatedProductId,
+        relationship_type: addType,
+        sort_order: pinned.length
+      });
+      toast({ title: 'Recommendation added' });
+      await fetchRelationships();
+    } catch (error) {
+      showError(error, 'Failed to add recommendation');
+    }
+  };
+
+  const handleSave = async (relationship: ProductRelationship, isExcluded: boolean) => {
+    setBusyId(relationship.id);
+    try {
+      await adminRecommendationsAPI.saveRecommendation(productId, {
+        related_product_id: relationship.related_product_id,
+        relationship_type: relationship.relationship_type as RecommendationType,
+        is_excluded: isExcluded,
+        sort_order: relationship.sort_order
+      });
+      toast({ title: isExcluded ? 'Recommendation excluded' : 'Recommendation pinned' });
+      await fetchRelationships();
+    } catch (error) {
+      showError(error, 'Failed to update recommendation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (relationship: ProductRelationship) => {
+    setBusyId(relationship.id);
+    try {
+      await adminRecommendationsAPI.deleteRecommendation(productId, relationship.id);
+      toast({ title: 'Recommendation removed' });
+      await fetchRelationships();
+    } catch (error) {
+      showError(error, 'Failed to remove recommendation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRecompute = async () => {
+    setRecomputing(true);
+    try {
+      const response = await adminRecommendationsAPI.recompute();
+      const { frequentlyBoughtTogether, accessories, alsoViewed } = response.data;
+      toast({
+        title: 'Recommendations rebuilt',
+        description: `${frequentlyBoughtTogether} bought together, ${accessories} accessories, ${alsoViewed} also viewed pairs`
+      });
+      await fetchRelationships();
+    } catch (error) {
+      showError(error, 'Failed to rebuild recommendations');
+    } finally {
+      setRecomputing(false);
+    }
+  };
+
+  const types = Object.keys(TYPE_LABELS) as RecommendationType[];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <p className="text-sm text-muted-foreground max-w-xl">
+          Computed nightly from paid orders and product views. Only active, in-stock products of the
+          shopper's region are shown, and recommendations carry over to the product's other region.
+        </p>
+        <PermittedFor authority="products:edit">
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label>Block</Label>
+              <Select value={addType} onValueChange={(value) => setAddType(value as RecommendationType)}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {types.map((type) => (
+                    <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="button" onClick={() => setSelectorOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Product
+            </Button>
+            <Button type="button" variant="outline" onClick={handleRecompute} disabled={recomputing}>
+              {recomputing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              Rebuild Now
+            </Button>
+          </div>
+        </PermittedFor>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        types.map((type) => {
+          const rows = relationships.filter((relationship) => relationship.relationship_type === type);
+
+          return (
+            <div key={type} className="space-y-2">
+              <h3 className="text-lg font-semibold">{TYPE_LABELS[type]}</h3>
+              {rows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No recommendations yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead className="text-right">Score</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((relationship) => (
+                      <TableRow key={relationship.id} className={relationship.is_excluded ? 'opacity-60' : undefined}>
+                        <TableCell>
+                          <div className="font-medium">{relationship.related_product_name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {relationship.related_product_sku} · {relationship.related_product_region.toUpperCase()}
+                            {relationship.related_product_status !== 'active' && ` · ${relationship.related_product_status}`}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {relationship.is_excluded ? (
+                            <Badge variant="destructive">Excluded</Badge>
+                          ) : relationship.source === 'manual' ? (
+                            <Badge>Pinned</Badge>
+                          ) : (
+                            <Badge variant="outline">Computed</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {relationship.source === 'computed' ? Number(relationship.score).toFixed(1) : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <PermittedFor authority="products:edit">
+                            <div className="flex justify-end gap-2">
+                              {relationship.source === 'computed' && (
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Pin"
+                                  disabled={busyId === relationship.id}
+                                  onClick={() => handleSave(relationship, false)}
+                                >
+                                  <Pin className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {!relationship.is_excluded && (
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Exclude"
+                                  disabled={busyId === relationship.id}
+                                  onClick={() => handleSave(relationship, true)}
+                                >
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {relationship.source === 'manual' && (
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  title={relationship.is_excluded ? 'Remove exclusion' : 'Remove'}
+                                  disabled={busyId === relationship.id}
+                                  onClick={() => handleDelete(relationship)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </PermittedFor>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          );
+        })
+      )}
+
+      <ProductSelector
+        open={selectorOpen}
+        onClose={() => setSelectorOpen(false)}
+        onSelect={handleAdd}
+        excludeProductIds={[
+          productId,
+          ...relationships
+            .filter((relationship) => relationship.relationship_type === addType)
+            .map((relationship) => relationship.related_product_id)
+        ]}
+      />
+    </div>
+  );
+}
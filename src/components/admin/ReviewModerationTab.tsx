@@ -0,0 +1,296 @@
+/**
+ * Review Moderation Tab Component
+ * Admin queue for approving, rejecting and deleting customer product reviews
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Loader2,
+  Star,
+  Check,
+  X,
+  Trash2,
+  Search,
+  BadgeCheck,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink
+} from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { reviewsAPI, AdminProductReview, ReviewStatus } from '@/services/api';
+
+export default function ReviewModerationTab() {
+  const [reviews, setReviews] = useState<AdminProductReview[]>([]);
+  const [counts, setCounts] = useState<Record<ReviewStatus, number>>({ pending: 0, approved: 0, rejected: 0 });
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [search, setSearch] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [reviewToDelete, setReviewToDelete] = useState<AdminProductReview | null>(null);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReviews();
+  }, [status, search, page]);
+
+  const fetchReviews = async () => {
+    setLoading(true);
+    try {
+      const response = await reviewsAPI.getModerationQueue({ status, search: search || undefined, page, limit: 20 });
+      setReviews(response.data.reviews);
+      setCounts(response.data.counts);
+      setTotalPages(response.data.pagination.totalPages || 1);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch reviews',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleModerate = async (review: AdminProductReview, action: 'approve' | 'reject') => {
+    setProcessingId(review.id);
+    try {
+      const note = notes[review.id];
+      if (action === 'approve') {
+        await reviewsAPI.approveReview(review.id, note);
+      } else {
+        await reviewsAPI.rejectReview(review.id, note);
+      }
+      toast({
+        title: action === 'approve' ? 'Review approved' : 'Review rejected',
+        description: `Review for ${review.product_name} was ${action === 'approve' ? 'approved' : 'rejected'}`
+      });
+      await fetchReviews();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update review',
+        variant: 'destructive'
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!reviewToDelete) return;
+    setProcessingId(reviewToDelete.id);
+    try {
+      await reviewsAPI.deleteReview(reviewToDelete.id);
+      toast({ title: 'Review deleted' });
+      setReviewToDelete(null);
+      await fetchReviews();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete review',
+        variant: 'destructive'
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Product Reviews</CardTitle>
+        <CardDescription>
+          Approve or reject customer reviews. Only approved reviews are shown on the storefront and counted in ratings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
+          <Tabs value={status} onValueChange={(value) => { setStatus(value as ReviewStatus); setPage(1); }}>
+            <TabsList>
+              <TabsTrigger value="pending">Pending ({counts.pending})</TabsTrigger>
+              <TabsTrigger value="approved">Approved ({counts.approved})</TabsTrigger>
+              <TabsTrigger value="rejected">Rejected ({counts.rejected})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              placeholder="Search product, email or text..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="w-64"
+            />
+            <Button type="submit" variant="outline" size="icon">
+              <Search className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">No {status} reviews</p>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review) => (
+              <div key={review.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <a
+                        href={`/product/${review.product_slug}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-semibold hover:underline flex items-center gap-1"
+                      >
+                        {review.product_name}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                      {review.is_verified_purchase && (
+                        <Badge variant="secondary" className="gap-1">
+                          <BadgeCheck className="h-3 w-3" />
+                          Verified purchase
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {review.author_name} ({review.author_email}) · {new Date(review.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-0.5">
+                    {[1, 2, 3, 4, 5].map((star) => (
+                      <Star
+                        key={star}
+                        className={`h-4 w-4 ${star <= review.rating ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                {review.title && <p className="font-medium">{review.title}</p>}
+                {review.review_text && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{review.review_text}</p>
+                )}
+
+                {review.images.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {review.images.map((image) => (
+                      <a key={image.id} href={image.image_url} target="_blank" rel="noopener noreferrer">
+                        <img src={image.image_url} alt="Review" className="h-16 w-16 rounded border object-cover" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {review.moderation_note && status !== 'pending' && (
+                  <p className="text-sm">
+                    <span className="font-medium">Moderator note:</span> {review.moderation_note}
+                  </p>
+                )}
+
+                <div className="flex flex-col md:flex-row gap-2 md:items-center">
+                  <Textarea
+                    placeholder="Moderator note (optional)"
+                    value={notes[review.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [review.id]: e.target.value })}
+                    rows={1}
+                    className="flex-1 min-h-[40px]"
+                  />
+                  <div className="flex gap-2">
+                    {status !== 'approved' && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleModerate(review, 'approve')}
+                        disabled={processingId === review.id}
+                      >
+                        {processingId === review.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                        Approve
+                      </Button>
+                    )}
+                    {status !== 'rejected' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleModerate(review, 'reject')}
+                        disabled={processingId === review.id}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setReviewToDelete(review)}
+                      disabled={processingId === review.id}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!reviewToDelete} onOpenChange={(open) => !open && setReviewToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete review?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the review, its images and votes. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
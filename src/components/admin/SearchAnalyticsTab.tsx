@@ -0,0 +1,302 @@
+/**
+ * Search Analytics Tab Component
+ * What customers search for: top, zero-result, low click-through and converting
+ * queries, with shortcuts to turn a query into a synonym or a landing page redirect
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import PermittedFor from '@/components/auth/PermittedFor';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowRight, Loader2, Replace, Search } from 'lucide-react';
+import { searchAdminAPI, SearchQueryStats, SearchReport } from '@/services/api';
+
+type ReportRegion = 'us' | 'eu' | 'all';
+type QueryAction = { type: 'synonym' | 'redirect'; query: string };
+type QueryColumn = 'zero' | 'ctr' | 'conversions';
+
+export default function SearchAnalyticsTab() {
+  const [report, setReport] = useState<SearchReport | null>(null);
+  const [days, setDays] = useState('30');
+  const [regionFilter, setRegionFilter] = useState<ReportRegion>('all');
+  const [loading, setLoading] = useState(false);
+  const [action, setAction] = useState<QueryAction | null>(null);
+  const [actionValue, setActionValue] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReport();
+  }, [days, regionFilter]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const response = await searchAdminAPI.getReport({
+        days: parseInt(days),
+        region: regionFilter === 'all' ? undefined : regionFilter
+      });
+      setReport(response.data);
+    } catch (error) {
+      console.error('Error fetching search report:', error);
+      showError(error, 'Failed to fetch search report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openAction = (type: QueryAction['type'], query: string) => {
+    setAction({ type, query });
+    setActionValue(type === 'redirect' ? '/' : '');
+  };
+
+  const handleSaveAction = async () => {
+    if (!action) return;
+
+    setSaving(true);
+    try {
+      if (action.type === 'synonym') {
+        await searchAdminAPI.createSynonym({
+          term: action.query,
+          synonyms: actionValue.split(',').map((value) => value.trim()).filter(Boolean)
+        });
+        toast({ title: 'Synonym created', description: `"${action.query}" now also matches ${actionValue}` });
+      } else {
+        await searchAdminAPI.createRedirect({ query: action.query, target_url: actionValue.trim() });
+        toast({ title: 'Redirect created', description: `"${action.query}" now goes to ${actionValue.trim()}` });
+      }
+      setAction(null);
+      await fetchReport();
+    } catch (error) {
+      showError(error, 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderQueryTable = (rows: SearchQueryStats[], column: QueryColumn, emptyText: string) => {
+    if (rows.length === 0) {
+      return <p className="text-center text-muted-foreground py-6">{emptyText}</p>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Query</TableHead>
+            <TableHead className="text-right">Searches</TableHead>
+            <TableHead className="text-right">Avg results</TableHead>
+            <TableHead className="text-right">
+              {column === 'zero' ? 'No results' : column === 'ctr' ? 'Click-through' : 'Conversions'}
+            </TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.query}>
+              <TableCell>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{row.query}</span>
+                  {row.synonym_id && <Badge variant="secondary">Synonym</Badge>}
+                  {row.redirect_url && <Badge variant="outline">→ {row.redirect_url}</Badge>}
+                </div>
+              </TableCell>
+              <TableCell className="text-right">{row.searches}</TableCell>
+              <TableCell className="text-right">{row.avg_results}</TableCell>
+              <TableCell className="text-right">
+                {column === 'zero'
+                  ? row.zero_result_searches
+                  : column === 'ctr'
+                    ? row.click_through_rate !== null ? `${row.click_through_rate}%` : '—'
+                    : row.conversions}
+              </TableCell>
+              <TableCell className="text-right">
+                <PermittedFor authority="products:edit">
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={!!row.synonym_id}
+                      onClick={() => openAction('synonym', row.query)}
+                      title="Add synonyms for this query"
+                    >
+                      <Replace className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={!!row.redirect_url}
+                      onClick={() => openAction('redirect', row.query)}
+                      title="Redirect this query to a page"
+                    >
+                      <ArrowRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </PermittedFor>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const summaryStats = report
+    ? [
+        { label: 'Searches', value: report.summary.searches.toLocaleString() },
+        { label: 'Sessions', value: report.summary.sessions.toLocaleString() },
+        { label: 'No results', value: `${report.summary.zero_result_rate}%` },
+        { label: 'Click-through', value: `${report.summary.click_through_rate}%` },
+        { label: 'Led to an order', value: `${report.summary.conversion_rate}%` }
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Search className="h-6 w-6" />
+            Search Analytics
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Storefront searches, result clicks, and orders placed within 7 days of a search
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={regionFilter} onValueChange={(value) => setRegionFilter(value as ReportRegion)}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="us">US</SelectItem>
+              <SelectItem value="eu">EU</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="365">Last year</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading && !report ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : report && (
+        <>
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+            {summaryStats.map((stat) => (
+              <Card key={stat.label}>
+                <CardContent className="p-4">
+                  <p className="text-sm text-muted-foreground">{stat.label}</p>
+                  <p className="text-2xl font-bold">{stat.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Queries</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {renderQueryTable(report.topQueries, 'ctr', 'No searches in this period')}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Zero-Result Queries</CardTitle>
+                <CardDescription>Candidates for a synonym or a redirect</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderQueryTable(report.zeroResultQueries, 'zero', 'Every search found something')}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Low Click-Through</CardTitle>
+                <CardDescription>Results were shown but rarely opened (at least 5 searches)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderQueryTable(report.lowClickThroughQueries, 'ctr', 'Not enough searches yet')}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Converting Queries</CardTitle>
+                <CardDescription>Searches followed by a paid order from the same customer</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderQueryTable(report.convertingQueries, 'conversions', 'No attributed orders yet')}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action?.type === 'synonym' ? 'Add Synonyms' : 'Redirect Query'}</DialogTitle>
+            <DialogDescription>
+              {action?.type === 'synonym'
+                ? `Searches for "${action?.query}" will also find products matching these words.`
+                : `Searches for "${action?.query}" will open this page instead of the results.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="search-action-value">
+              {action?.type === 'synonym' ? 'Synonyms (comma separated)' : 'Target (site path or URL)'}
+            </Label>
+            <Input
+              id="search-action-value"
+              value={actionValue}
+              placeholder={action?.type === 'synonym' ? 'cockpit, sim rig' : '/sim-racing'}
+              onChange={(e) => setActionValue(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveAction} disabled={saving || !actionValue.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
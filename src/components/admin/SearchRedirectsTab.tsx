@@ -0,0 +1,251 @@
+/**
+ * Search Redirects Tab Component
+ * Storefront searches for an exact query open a landing page instead of the
+ * results (e.g. "wheel base" → /sim-racing/wheel-bases)
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import PermittedFor from '@/components/auth/PermittedFor';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowRight, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { searchAdminAPI, SearchRedirect } from '@/services/api';
+
+const emptyForm = { query: '', target_url: '', is_active: true };
+
+export default function SearchRedirectsTab() {
+  const [redirects, setRedirects] = useState<SearchRedirect[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRedirects();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchRedirects = async () => {
+    setLoading(true);
+    try {
+      const response = await searchAdminAPI.getRedirects();
+      setRedirects(response.data);
+    } catch (error) {
+      console.error('Error fetching search redirects:', error);
+      showError(error, 'Failed to fetch search redirects');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data = {
+        query: form.query.trim(),
+        target_url: form.target_url.trim(),
+        is_active: form.is_active
+      };
+      if (editingId) {
+        await searchAdminAPI.updateRedirect(editingId, data);
+        toast({ title: 'Redirect updated' });
+      } else {
+        await searchAdminAPI.createRedirect(data);
+        toast({ title: 'Redirect created' });
+      }
+      resetForm();
+      await fetchRedirects();
+    } catch (error) {
+      showError(error, 'Failed to save redirect');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (redirect: SearchRedirect) => {
+    setEditingId(redirect.id);
+    setForm({ query: redirect.query, target_url: redirect.target_url, is_active: redirect.is_active });
+  };
+
+  const handleToggle = async (redirect: SearchRedirect, isActive: boolean) => {
+    setBusyId(redirect.id);
+    try {
+      await searchAdminAPI.updateRedirect(redirect.id, {
+        query: redirect.query,
+        target_url: redirect.target_url,
+        is_active: isActive
+      });
+      await fetchRedirects();
+    } catch (error) {
+      showError(error, 'Failed to update redirect');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (redirect: SearchRedirect) => {
+    if (!confirm(`Delete the redirect for "${redirect.query}"?`)) return;
+
+    setBusyId(redirect.id);
+    try {
+      await searchAdminAPI.deleteRedirect(redirect.id);
+      toast({ title: 'Redirect deleted' });
+      if (editingId === redirect.id) resetForm();
+      await fetchRedirects();
+    } catch (error) {
+      showError(error, 'Failed to delete redirect');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <PermittedFor authority="products:edit">
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Redirect' : 'Add Redirect'}</CardTitle>
+            <CardDescription>
+              Matches the whole query, ignoring case and punctuation. Use a site path (/page) or a full URL.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-[1fr_2fr_auto_auto] md:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="redirect-query">Query</Label>
+                <Input
+                  id="redirect-query"
+                  placeholder="wheel base"
+                  value={form.query}
+                  onChange={(e) => setForm({ ...form, query: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="redirect-target">Target</Label>
+                <Input
+                  id="redirect-target"
+                  placeholder="/sim-racing"
+                  value={form.target_url}
+                  onChange={(e) => setForm({ ...form, target_url: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="flex items-center space-x-2 pb-2">
+                <Switch
+                  id="redirect-active"
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                />
+                <Label htmlFor="redirect-active" className="cursor-pointer">Active</Label>
+              </div>
+              <div className="flex gap-2">
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" disabled={saving}>
+                  {saving ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    !editingId && <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  {editingId ? 'Save' : 'Add'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </PermittedFor>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowRight className="h-5 w-5" />
+            Search Redirects
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : redirects.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No redirects yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Query</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {redirects.map((redirect) => (
+                  <TableRow key={redirect.id}>
+                    <TableCell className="font-medium">{redirect.query}</TableCell>
+                    <TableCell className="font-mono text-sm">{redirect.target_url}</TableCell>
+                    <TableCell>
+                      <PermittedFor
+                        authority="products:edit"
+                        fallback={<Badge variant={redirect.is_active ? 'default' : 'outline'}>{redirect.is_active ? 'Yes' : 'No'}</Badge>}
+                      >
+                        <Switch
+                          checked={redirect.is_active}
+                          disabled={busyId === redirect.id}
+                          onCheckedChange={(checked) => handleToggle(redirect, checked)}
+                        />
+                      </PermittedFor>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <PermittedFor authority="products:edit">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(redirect)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={busyId === redirect.id}
+                            onClick={() => handleDelete(redirect)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </PermittedFor>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+/**
+ * Search Synonyms Tab Component
+ * Storefront search synonyms: a query containing the term also finds products
+ * matching any of its synonyms (e.g. "rig" → "cockpit")
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import PermittedFor from '@/components/auth/PermittedFor';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { searchAdminAPI, SearchSynonym } from '@/services/api';
+
+const emptyForm = { term: '', synonyms: '', is_active: true };
+
+export default function SearchSynonymsTab() {
+  const [synonyms, setSynonyms] = useState<SearchSynonym[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSynonyms();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchSynonyms = async () => {
+    setLoading(true);
+    try {
+      const response = await searchAdminAPI.getSynonyms();
+      setSynonyms(response.data);
+    } catch (error) {
+      console.error('Error fetching search synonyms:', error);
+      showError(error, 'Failed to fetch search synonyms');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data = {
+        term: form.term.trim(),
+        synonyms: form.synonyms.split(',').map((value) => value.trim()).filter(Boolean),
+        is_active: form.is_active
+      };
+      if (editingId) {
+        await searchAdminAPI.updateSynonym(editingId, data);
+        toast({ title: 'Synonym updated' });
+      } else {
+        await searchAdminAPI.createSynonym(data);
+        toast({ title: 'Synonym created' });
+      }
+      resetForm();
+      await fetchSynonyms();
+    } catch (error) {
+      showError(error, 'Failed to save synonym');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (synonym: SearchSynonym) => {
+    setEditingId(synonym.id);
+    setForm({ term: synonym.term, synonyms: synonym.synonyms.join(', '), is_active: synonym.is_active });
+  };
+
+  const handleToggle = async (synonym: SearchSynonym, isActive: boolean) => {
+    setBusyId(synonym.id);
+    try {
+      await searchAdminAPI.updateSynonym(synonym.id, {
+        term: synonym.term,
+        synonyms: synonym.synonyms,
+        is_active: isActive
+      });
+      await fetchSynonyms();
+    } catch (error) {
+      showError(error, 'Failed to update synonym');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (synonym: SearchSynonym) => {
+    if (!confirm(`Delete synonyms for "${synonym.term}"?`)) return;
+
+    setBusyId(synonym.id);
+    try {
+      await searchAdminAPI.deleteSynonym(synonym.id);
+      toast({ title: 'Synonym deleted' });
+      if (editingId === synonym.id) resetForm();
+      await fetchSynonyms();
+    } catch (error) {
+      showError(error, 'Failed to delete synonym');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <PermittedFor authority="products:edit">
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Synonym' : 'Add Synonym'}</CardTitle>
+            <CardDescription>
+              Customers searching for the term also see products matching any synonym. Add the reverse
+              entry too if it should work both ways.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-[1fr_2fr_auto_auto] md:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="synonym-term">Term</Label>
+                <Input
+                  id="synonym-term"
+                  placeholder="rig"
+                  value={form.term}
+                  onChange={(e) => setForm({ ...form, term: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="synonym-values">Synonyms (comma separated)</Label>
+                <Input
+                  id="synonym-values"
+                  placeholder="cockpit, sim racing cockpit"
+                  value={form.synonyms}
+                  onChange={(e) => setForm({ ...form, synonyms: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="flex items-center space-x-2 pb-2">
+                <Switch
+                  id="synonym-active"
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                />
+                <Label htmlFor="synonym-active" className="cursor-pointer">Active</Label>
+              </div>
+              <div className="flex gap-2">
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" disabled={saving}>
+                  {saving ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    !editingId && <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  {editingId ? 'Save' : 'Add'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </PermittedFor>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            Search Synonyms
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : synonyms.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No synonyms yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Term</TableHead>
+                  <TableHead>Also matches</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {synonyms.map((synonym) => (
+                  <TableRow key={synonym.id}>
+                    <TableCell className="font-medium">{synonym.term}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {synonym.synonyms.map((value) => (
+                          <Badge key={value} variant="secondary">{value}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <PermittedFor
+                        authority="products:edit"
+                        fallback={<Badge variant={synonym.is_active ? 'default' : 'outline'}>{synonym.is_active ? 'Yes' : 'No'}</Badge>}
+                      >
+                        <Switch
+                          checked={synonym.is_active}
+                          disabled={busyId === synonym.id}
+                          onCheckedChange={(checked) => handleToggle(synonym, checked)}
+                        />
+                      </PermittedFor>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <PermittedFor authority="products:edit">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(synonym)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={busyId === synonym.id}
+                            onClick={() => handleDelete(synonym)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </PermittedFor>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
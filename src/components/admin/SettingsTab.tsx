@@ -12,7 +12,7 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import { regionSettingsAPI } from '@/services/api';
+import { authAPI, regionSettingsAPI } from '@/services/api';
 
 interface WarehouseAddress {
   streetLines: string[];
@@ -22,6 +22,12 @@ interface WarehouseAddress {
   countryCode: string;
 }
 
+// Sign-in providers configured per region (keys oidc_<id>_enabled / _client_id / _client_secret)
+const SOCIAL_PROVIDERS = [
+  { id: 'google', name: 'Google' },
+  { id: 'discord', name: 'Discord' },
+] as const;
+
 interface SettingsForm {
   admin_email: string;
   phone_number: string;
@@ -29,7 +35,6 @@ interface SettingsForm {
   company_name: string;
   address: string;
   currency: string;
-  tax_rate: string;
   free_shipping_threshold: string;
   site_name: string;
   fedex_warehouse_address?: WarehouseAddress;
@@ -45,6 +50,12 @@ interface SettingsForm {
   smtp_test_mode?: boolean;
   smtp_test_email?: string;
   region_restrictions_enabled?: boolean;
+  oidc_google_enabled?: boolean;
+  oidc_google_client_id?: string;
+  oidc_google_client_secret?: string;
+  oidc_discord_enabled?: boolean;
+  oidc_discord_client_id?: string;
+  oidc_discord_client_secret?: string;
 }
 
 export default function SettingsTab() {
@@ -56,7 +67,6 @@ export default function SettingsTab() {
     company_name: '',
     address: '',
     currency: 'USD',
-    tax_rate: '0.08',
     free_shipping_threshold: '500',
     site_name: 'SimFab',
     fedex_warehouse_address: {
@@ -85,7 +95,6 @@ export default function SettingsTab() {
     company_name: '',
     address: '',
     currency: 'EUR',
-    tax_rate: '0.19',
     free_shipping_threshold: '500',
     site_name: 'SimFab',
     fedex_warehouse_address: {
@@ -131,7 +140,6 @@ export default function SettingsTab() {
           company_name: settings.company_name || '',
           address: settings.address || '',
           currency: settings.currency || (region === 'eu' ? 'EUR' : 'USD'),
-          tax_rate: settings.tax_rate?.toString() || (region === 'eu' ? '0.19' : '0.08'),
           free_shipping_threshold: settings.free_shipping_threshold?.toString() || '500',
           site_name: settings.site_name || 'SimFab',
           fedex_warehouse_address: settings.fedex_warehouse_address || {
@@ -153,6 +161,12 @@ export default function SettingsTab() {
           smtp_test_mode: settings.smtp_test_mode === true,
           smtp_test_email: settings.smtp_test_email || '',
           region_restrictions_enabled: settings.region_restrictions_enabled === true,
+          oidc_google_enabled: settings.oidc_google_enabled === true,
+          oidc_google_client_id: settings.oidc_google_client_id || '',
+          oidc_google_client_secret: settings.oidc_google_client_secret || '',
+          oidc_discord_enabled: settings.oidc_discord_enabled === true,
+          oidc_discord_client_id: settings.oidc_discord_client_id || '',
+          oidc_discord_client_secret: settings.oidc_discord_client_secret || '',
         };
 
         if (region === 'us') {
@@ -185,12 +199,12 @@ export default function SettingsTab() {
         // Also include boolean false values
         if (value !== undefined && value !== null && (typeof value === 'boolean' || value !== '')) {
           // Convert numeric strings to numbers where appropriate
-          if (key === 'tax_rate' || key === 'free_shipping_threshold') {
+          if (key === 'free_shipping_threshold') {
             settingsToUpdate[key] = parseFloat(value) || 0;
           } else if (key === 'fedex_warehouse_address') {
             // Keep warehouse address as object for JSON type
             settingsToUpdate[key] = value;
-          } else if (key === 'paypal_client_secret' || key === 'paypal_client_id' || key === 'smtp_password' || key === 'smtp_user') {
+          } else if (key === 'paypal_client_secret' || key === 'paypal_client_id' || key === 'smtp_password' || key === 'smtp_user' || /^oidc_.+_client_(id|secret)$/.test(key)) {
             // Only update sensitive credentials if they're not masked values (don't end with xxxxx)
             // If they end with xxxxx, it means they're the masked version from the server
             // and we should skip updating them unless the user entered a new value
@@ -562,6 +576,57 @@ export default function SettingsTab() {
                   </div>
                 </div>
 
+                <div>
+                  <h3 className="text-lg font-semibold mb-4">Social Login</h3>
+                  <CardDescription className="mb-4">
+                    Let customers in the US region sign in with an existing account. Register the redirect URI shown below with each provider. Credentials are masked for security.
+                  </CardDescription>
+                  <div className="grid gap-6">
+                    {SOCIAL_PROVIDERS.map((provider) => {
+                      const clientIdKey = `oidc_${provider.id}_client_id` as const;
+                      const clientSecretKey = `oidc_${provider.id}_client_secret` as const;
+                      const enabledKey = `oidc_${provider.id}_enabled` as const;
+                      return (
+                        <div key={provider.id} className="grid gap-4">
+                          <div className="flex items-center space-x-2">
+                            <Switch
+                              id="us_{enabledKey}"
+                              checked={usSettings[enabledKey] === true}
+                              onCheckedChange={(checked) => setUsSettings({ ...usSettings, [enabledKey]: checked })}
+                            />
+                            <Label htmlFor="us_{enabledKey}" className="cursor-pointer">
+                              Sign in with {provider.name}
+                            </Label>
+                          </div>
+                          <div>
+                            <Label htmlFor="us_{clientIdKey}">{provider.name} Client ID</Label>
+                            <Input
+                              id="us_{clientIdKey}"
+                              type="text"
+                              value={usSettings[clientIdKey] || ''}
+                              onChange={(e) => setUsSettings({ ...usSettings, [clientIdKey]: e.target.value })}
+                              placeholder={usSettings[clientIdKey]?.endsWith('xxxxx') ? 'Enter new client ID to update' : `Enter ${provider.name} Client ID`}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="us_{clientSecretKey}">{provider.name} Client Secret</Label>
+                            <Input
+                              id="us_{clientSecretKey}"
+                              type="text"
+                              value={usSettings[clientSecretKey] || ''}
+                              onChange={(e) => setUsSettings({ ...usSettings, [clientSecretKey]: e.target.value })}
+                              placeholder={usSettings[clientSecretKey]?.endsWith('xxxxx') ? 'Enter new secret to update' : `Enter ${provider.name} Client Secret`}
+                            />
+                            <p className="text-sm text-muted-foreground mt-1">
+                              Redirect URI: {authAPI.getOAuthStartUrl(provider.id)}/callback
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
                 <div className="flex justify-end pt-4">
                   <Button onClick={() => handleSave('us')} disabled={saving}>
                     {saving ? (
@@ -920,6 +985,57 @@ export default function SettingsTab() {
                   </div>
                 </div>
 
+                <div>
+                  <h3 className="text-lg font-semibold mb-4">Social Login</h3>
+                  <CardDescription className="mb-4">
+                    Let customers in the EU region sign in with an existing account. Register the redirect URI shown below with each provider. Credentials are masked for security.
+                  </CardDescription>
+                  <div className="grid gap-6">
+                    {SOCIAL_PROVIDERS.map((provider) => {
+                      const clientIdKey = `oidc_${provider.id}_client_id` as const;
+                      const clientSecretKey = `oidc_${provider.id}_client_secret` as const;
+                      const enabledKey = `oidc_${provider.id}_enabled` as const;
+                      return (
+                        <div key={provider.id} className="grid gap-4">
+                          <div className="flex items-center space-x-2">
+                            <Switch
+                              id="eu_{enabledKey}"
+                              checked={euSettings[enabledKey] === true}
+                              onCheckedChange={(checked) => setEuSettings({ ...euSettings, [enabledKey]: checked })}
+                            />
+                            <Label htmlFor="eu_{enabledKey}" className="cursor-pointer">
+                              Sign in with {provider.name}
+                            </Label>
+                          </div>
+                          <div>
+                            <Label htmlFor="eu_{clientIdKey}">{provider.name} Client ID</Label>
+                            <Input
+                              id="eu_{clientIdKey}"
+                              type="text"
+                              value={euSettings[clientIdKey] || ''}
+                              onChange={(e) => setEuSettings({ ...euSettings, [clientIdKey]: e.target.value })}
+                              placeholder={euSettings[clientIdKey]?.endsWith('xxxxx') ? 'Enter new client ID to update' : `Enter ${provider.name} Client ID`}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="eu_{clientSecretKey}">{provider.name} Client Secret</Label>
+                            <Input
+                              id="eu_{clientSecretKey}"
+                              type="text"
+                              value={euSettings[clientSecretKey] || ''}
+                              onChange={(e) => setEuSettings({ ...euSettings, [clientSecretKey]: e.target.value })}
+                              placeholder={euSettings[clientSecretKey]?.endsWith('xxxxx') ? 'Enter new secret to update' : `Enter ${provider.name} Client Secret`}
+                            />
+                            <p className="text-sm text-muted-foreground mt-1">
+                              Redirect URI: {authAPI.getOAuthStartUrl(provider.id)}/callback
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
                 <div className="flex justify-end pt-4">
                   <Button onClick={() => handleSave('eu')} disabled={saving}>
                     {saving ? (
@@ -0,0 +1,247 @@
+/**
+ * Shipping Boxes Manager
+ * Box list for products that ship in one or more boxes of their own. Boxes set on a
+ * variation option replace the product's boxes when that option is selected.
+ */
+
+import { useState, useEffect } from 'react';
+import { Plus, Save, Trash2, Loader2, Package } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { adminVariationsAPI, ProductShippingBoxInput, VariationWithOptions } from '@/services/api';
+
+interface ShippingBoxesManagerProps {
+  productId: number;
+  variations: VariationWithOptions[];
+}
+
+interface BoxRow {
+  variation_option_id: string;
+  label: string;
+  length: string;
+  width: string;
+  height: string;
+  dimension_unit: 'cm' | 'in';
+  weight: string;
+  weight_unit: 'kg' | 'lbs';
+}
+
+const emptyRow: BoxRow = {
+  variation_option_id: 'product',
+  label: '',
+  length: '',
+  width: '',
+  height: '',
+  dimension_unit: 'in',
+  weight: '',
+  weight_unit: 'lbs'
+};
+
+export default function ShippingBoxesManager({ productId, variations }: ShippingBoxesManagerProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<BoxRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (productId) {
+      fetchBoxes();
+    }
+  }, [productId]);
+
+  const fetchBoxes = async () => {
+    setLoading(true);
+    try {
+      const response = await adminVariationsAPI.getShippingBoxes(productId);
+      setRows(response.data.map(box => ({
+        variation_option_id: box.variation_option_id ? box.variation_option_id.toString() : 'product',
+        label: box.label || '',
+        length: box.length.toString(),
+        width: box.width.toString(),
+        height: box.height.toString(),
+        dimension_unit: box.dimension_unit,
+        weight: box.weight.toString(),
+        weight_unit: box.weight_unit
+      })));
+    } catch (error) {
+      console.error('Error fetching shipping boxes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<BoxRow>) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleSave = async () => {
+    const boxes: ProductShippingBoxInput[] = rows.map(row => ({
+      variation_option_id: row.variation_option_id === 'product' ? null : parseInt(row.variation_option_id, 10),
+      label: row.label || null,
+      length: parseFloat(row.length),
+      width: parseFloat(row.width),
+      height: parseFloat(row.height),
+      dimension_unit: row.dimension_unit,
+      weight: parseFloat(row.weight),
+      weight_unit: row.weight_unit
+    }));
+
+    if (boxes.some(box => !(box.length > 0 && box.width > 0 && box.height > 0 && box.weight > 0))) {
+      toast({
+        title: 'Error',
+        description: 'Every box needs a length, width, height and weight',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await adminVariationsAPI.updateShippingBoxes(productId, boxes);
+      toast({ title: 'Shipping boxes saved' });
+      await fetchBoxes();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save shipping boxes',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const options = variations.flatMap(variation =>
+    (variation.options || []).map(option => ({
+      id: option.id,
+      label: `${variation.name}: ${option.option_name}`
+    }))
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Package className="h-4 w-4" />
+        <Label>Shipping Boxes</Label>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        For products that ship in their own boxes (e.g. a cockpit in three cartons). Leave empty to pack
+        the product into shared cartons using the package dimensions above.
+      </p>
+
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end border rounded-md p-2">
+          <div className="col-span-2 md:col-span-3">
+            <Label className="text-xs text-muted-foreground">Applies to</Label>
+            <Select
+              value={row.variation_option_id}
+              onValueChange={(value) => updateRow(index, { variation_option_id: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="product">Product</SelectItem>
+                {options.map(option => (
+                  <SelectItem key={option.id} value={option.id.toString()}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 md:col-span-2">
+            <Label className="text-xs text-muted-foreground">Label</Label>
+            <Input
+              value={row.label}
+              onChange={(e) => updateRow(index, { label: e.target.value })}
+              placeholder="Base frame"
+            />
+          </div>
+          {(['length', 'width', 'height'] as const).map(field => (
+            <div key={field} className="md:col-span-1">
+              <Label className="text-xs text-muted-foreground capitalize">{field}</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={row[field]}
+                onChange={(e) => updateRow(index, { [field]: e.target.value })}
+              />
+            </div>
+          ))}
+          <div className="md:col-span-1">
+            <Label className="text-xs text-muted-foreground">Unit</Label>
+            <Select
+              value={row.dimension_unit}
+              onValueChange={(value: 'cm' | 'in') => updateRow(index, { dimension_unit: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="in">in</SelectItem>
+                <SelectItem value="cm">cm</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-1">
+            <Label className="text-xs text-muted-foreground">Weight</Label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={row.weight}
+              onChange={(e) => updateRow(index, { weight: e.target.value })}
+            />
+          </div>
+          <div className="md:col-span-1">
+            <Label className="text-xs text-muted-foreground">Unit</Label>
+            <Select
+              value={row.weight_unit}
+              onValueChange={(value: 'kg' | 'lbs') => updateRow(index, { weight_unit: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lbs">lbs</SelectItem>
+                <SelectItem value="kg">kg</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-1 flex justify-end">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setRows(rows.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => setRows([...rows, emptyRow])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Box
+        </Button>
+        <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+          Save Boxes
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,1017 @@
+/**
+ * Shipping Zones Tab Component
+ * Admin management of shipping zones (countries, states, postal codes), their methods
+ * and rate tables, plus a tool to test which rates a destination and cart get
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Edit, Trash2, Truck, Calculator, X } from 'lucide-react';
+import {
+  shippingZonesAPI,
+  ShippingZone,
+  ShippingZoneInput,
+  ShippingZoneMethod,
+  ShippingZoneMethodInput,
+  ShippingMethodType,
+  ShippingRateTier,
+  ShippingClassRule,
+  ShippingRateTestResult
+} from '@/services/api';
+
+const METHOD_TYPE_LABELS: Record<ShippingMethodType, string> = {
+  flat: 'Flat rate',
+  weight_tier: 'Weight tiers (kg per parcel)',
+  total_tier: 'Order total tiers',
+  package_size: 'Package size (S/M/L per parcel)',
+  carrier: 'Carrier calculated (FedEx)',
+  quote: 'Manual quote'
+};
+
+const PACKAGE_SIZES = ['S', 'M', 'L'] as const;
+
+const emptyZone: ShippingZoneInput = {
+  name: '',
+  countries: [],
+  states: [],
+  postal_codes: [],
+  sort_order: 0,
+  is_active: true
+};
+
+const emptyMethod: ShippingZoneMethodInput = {
+  code: '',
+  name: '',
+  carrier: '',
+  estimated_days: '',
+  method_type: 'flat',
+  base_cost: 0,
+  rates: [],
+  free_shipping_mode: 'none',
+  free_shipping_threshold: null,
+  class_rules: [],
+  sort_order: 0,
+  is_active: true
+};
+
+const splitList = (value: string) =>
+  value.split(/[,\n]/).map(entry => entry.trim()).filter(Boolean);
+
+const formatMoney = (value: number | string | null | undefined) =>
+  value === null || value === undefined ? '—' : Number(value).toFixed(2);
+
+const describeRates = (method: ShippingZoneMethod) => {
+  switch (method.method_type) {
+    case 'flat':
+      return formatMoney(method.base_cost);
+    case 'package_size':
+      return method.rates.map(rate => `${rate.size}: ${formatMoney(rate.cost)}`).join(' · ');
+    case 'weight_tier':
+    case 'total_tier': {
+      const unit = method.method_type === 'weight_tier' ? 'kg' : '';
+      return method.rates
+        .map(rate => `${rate.min ?? 0}${unit}–${rate.max ?? '∞'}${rate.max != null ? unit : ''}: ${formatMoney(rate.cost)}`)
+        .join(' · ');
+    }
+    case 'carrier':
+      return 'Live FedEx rates, quote on failure';
+    default:
+      return 'Contact for quote';
+  }
+};
+
+export default function ShippingZonesTab() {
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [zoneDialogOpen, setZoneDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<ShippingZone | null>(null);
+  const [zoneForm, setZoneForm] = useState<ShippingZoneInput>(emptyZone);
+  const [zoneLists, setZoneLists] = useState({ countries: '', states: '', postal_codes: '' });
+
+  const [methodDialogOpen, setMethodDialogOpen] = useState(false);
+  const [methodZoneId, setMethodZoneId] = useState<number | null>(null);
+  const [editingMethod, setEditingMethod] = useState<ShippingZoneMethod | null>(null);
+  const [methodForm, setMethodForm] = useState<ShippingZoneMethodInput>(emptyMethod);
+
+  const [saving, setSaving] = useState(false);
+
+  const [testForm, setTestForm] = useState({
+    country: 'US',
+    state: '',
+    postalCode: '',
+    orderTotal: '100',
+    region: 'us' as 'us' | 'eu',
+    packageSize: 'auto',
+    cartItems: ''
+  });
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ShippingRateTestResult | null>(null);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchZones();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchZones = async () => {
+    setLoading(true);
+    try {
+      const response = await shippingZonesAPI.getZones();
+      setZones(response.data);
+    } catch (error) {
+      console.error('Error fetching shipping zones:', error);
+      showError(error, 'Failed to fetch shipping zones');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ==========================================================================
+  // Zones
+  // ==========================================================================
+
+  const openCreateZone = () => {
+    setEditingZone(null);
+    setZoneForm({ ...emptyZone, sort_order: zones.length > 0 ? Math.max(...zones.map(z => z.sort_order)) + 10 : 10 });
+    setZoneLists({ countries: '', states: '', postal_codes: '' });
+    setZoneDialogOpen(true);
+  };
+
+  const openEditZone = (zone: ShippingZone) => {
+    setEditingZone(zone);
+    setZoneForm({ name: zone.name, sort_order: zone.sort_order, is_active: zone.is_active });
+    setZoneLists({
+      countries: zone.countries.join(', '),
+      states: zone.states.join(', '),
+      postal_codes: zone.postal_codes.join('\n')
+    });
+    setZoneDialogOpen(true);
+  };
+
+  const handleSaveZone = async () => {
+    const payload: ShippingZoneInput = {
+      ...zoneForm,
+      countries: splitList(zoneLists.countries).map(code => code.toUpperCase()),
+      states: splitList(zoneLists.states),
+      postal_codes: splitList(zoneLists.postal_codes)
+    };
+
+    setSaving(true);
+    try {
+      if (editingZone) {
+        await shippingZonesAPI.updateZone(editingZone.id, payload);
+        toast({ title: 'Shipping zone updated' });
+      } else {
+        await shippingZonesAPI.createZone(payload);
+        toast({ title: 'Shipping zone created' });
+      }
+      setZoneDialogOpen(false);
+      await fetchZones();
+    } catch (error) {
+      showError(error, 'Failed to save shipping zone');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleZone = async (zone: ShippingZone) => {
+    setBusyId(`zone-${zone.id}`);
+    try {
+      await shippingZonesAPI.updateZone(zone.id, { is_active: !zone.is_active });
+      await fetchZones();
+    } catch (error) {
+      showError(error, 'Failed to update shipping zone');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteZone = async (zone: ShippingZone) => {
+    if (!confirm(`Delete shipping zone "${zone.name}" and its ${zone.methods.length} method(s)?`)) return;
+    setBusyId(`zone-${zone.id}`);
+    try {
+      await shippingZonesAPI.deleteZone(zone.id);
+      toast({ title: 'Shipping zone deleted' });
+      await fetchZones();
+    } catch (error) {
+      showError(error, 'Failed to delete shipping zone');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // ==========================================================================
+  // Methods
+  // ==========================================================================
+
+  const openCreateMethod = (zone: ShippingZone) => {
+    setEditingMethod(null);
+    setMethodZoneId(zone.id);
+    setMethodForm(emptyMethod);
+    setMethodDialogOpen(true);
+  };
+
+  const openEditMethod = (method: ShippingZoneMethod) => {
+    setEditingMethod(method);
+    setMethodZoneId(method.zone_id);
+    setMethodForm({
+      code: method.code,
+      name: method.name,
+      carrier: method.carrier || '',
+      estimated_days: method.estimated_days || '',
+      method_type: method.method_type,
+      base_cost: Number(method.base_cost),
+      rates: method.rates,
+      free_shipping_mode: method.free_shipping_mode,
+      free_shipping_threshold: method.free_shipping_threshold !== null ? Number(method.free_shipping_threshold) : null,
+      class_rules: method.class_rules,
+      sort_order: method.sort_order,
+      is_active: method.is_active
+    });
+    setMethodDialogOpen(true);
+  };
+
+  const setMethodType = (methodType: ShippingMethodType) => {
+    setMethodForm(prev => ({
+      ...prev,
+      method_type: methodType,
+      carrier: methodType === 'carrier' ? 'FedEx' : prev.carrier,
+      rates: methodType === 'package_size'
+        ? PACKAGE_SIZES.map(size => prev.rates?.find(rate => rate.size === size) || { size, cost: 0 })
+        : methodType === 'weight_tier' || methodType === 'total_tier'
+          ? (prev.rates || []).filter(rate => !rate.size)
+          : []
+    }));
+  };
+
+  const updateTier = (index: number, changes: Partial<ShippingRateTier>) => {
+    setMethodForm(prev => ({
+      ...prev,
+      rates: (prev.rates || []).map((rate, i) => i === index ? { ...rate, ...changes } : rate)
+    }));
+  };
+
+  const updateClassRule = (index: number, changes: Partial<ShippingClassRule>) => {
+    setMethodForm(prev => ({
+      ...prev,
+      class_rules: (prev.class_rules || []).map((rule, i) => i === index ? { ...rule, ...changes } : rule)
+    }));
+  };
+
+  const parseOptionalNumber = (value: string) => value === '' ? null : parseFloat(value);
+
+  const handleSaveMethod = async () => {
+    const payload: ShippingZoneMethodInput = {
+      ...methodForm,
+      class_rules: (methodForm.class_rules || []).filter(rule => rule.shipping_class.trim() !== '')
+    };
+
+    setSaving(true);
+    try {
+      if (editingMethod) {
+        await shippingZonesAPI.updateMethod(editingMethod.id, payload);
+        toast({ title: 'Shipping method updated' });
+      } else if (methodZoneId) {
+        await shippingZonesAPI.createMethod(methodZoneId, payload);
+        toast({ title: 'Shipping method created' });
+      }
+      setMethodDialogOpen(false);
+      await fetchZones();
+    } catch (error) {
+      showError(error, 'Failed to save shipping method');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleMethod = async (method: ShippingZoneMethod) => {
+    setBusyId(`method-${method.id}`);
+    try {
+      await shippingZonesAPI.updateMethod(method.id, { is_active: !method.is_active });
+      await fetchZones();
+    } catch (error) {
+      showError(error, 'Failed to update shipping method');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteMethod = async (method: ShippingZoneMethod) => {
+    if (!confirm(`Delete shipping method "${method.name}"?`)) return;
+    setBusyId(`method-${method.id}`);
+    try {
+      await shippingZonesAPI.deleteMethod(method.id);
+      toast({ title: 'Shipping method deleted' });
+      await fetchZones();
+    } catch (error) {
+      showError(error, 'Failed to delete shipping method');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // ==========================================================================
+  // Rate test
+  // ==========================================================================
+
+  const handleTestRate = async () => {
+    // "12:2, 40" -> product 12 x2, product 40 x1
+    const cartItems = splitList(testForm.cartItems)
+      .map(entry => {
+        const [productId, quantity] = entry.split(/[:x×]/).map(part => parseInt(part.trim(), 10));
+        return { productId, quantity: quantity || 1 };
+      })
+      .filter(item => item.productId > 0);
+
+    setTesting(true);
+    try {
+      const response = await shippingZonesAPI.testRate({
+        country: testForm.country.toUpperCase(),
+        state: testForm.state || undefined,
+        postalCode: testForm.postalCode || undefined,
+        orderTotal: parseFloat(testForm.orderTotal) || 0,
+        region: testForm.region,
+        packageSize: testForm.packageSize === 'auto' ? undefined : testForm.packageSize as 'S' | 'M' | 'L',
+        cartItems: cartItems.length > 0 ? cartItems : undefined
+      });
+      setTestResult(response.data);
+    } catch (error) {
+      showError(error, 'Failed to test shipping rate');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const zoneCoverage = (zone: ShippingZone) => {
+    if (zone.countries.length === 0) return 'All other countries';
+    const countries = zone.countries.length > 8
+      ? `${zone.countries.slice(0, 8).join(', ')} +${zone.countries.length - 8}`
+      : zone.countries.join(', ');
+    return [
+      countries,
+      zone.states.length > 0 ? `states ${zone.states.join(', ')}` : null,
+      zone.postal_codes.length > 0 ? `postcodes ${zone.postal_codes.join(', ')}` : null
+    ].filter(Boolean).join(' · ');
+  };
+
+  const isTiered = methodForm.method_type === 'weight_tier' || methodForm.method_type === 'total_tier';
+  const hasRatePrice = !['carrier', 'quote'].includes(methodForm.method_type);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-5 w-5" />
+              Shipping Zones
+            </CardTitle>
+            <CardDescription>
+              Zones are checked in order and the first active zone covering the address supplies its methods
+            </CardDescription>
+          </div>
+          <Button onClick={openCreateZone}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Zone
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading && zones.length === 0 ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : zones.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No shipping zones. Every destination will require a manual quote.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {zones.map(zone => (
+                <div key={zone.id} className="border rounded-lg">
+                  <div className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3 border-b">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{zone.name}</span>
+                        <Badge variant="outline">#{zone.sort_order}</Badge>
+                        {!zone.is_active && <Badge variant="destructive">Inactive</Badge>}
+                      </div>
+                      <div className="text-sm text-muted-foreground mt-1 break-words">{zoneCoverage(zone)}</div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={zone.is_active}
+                        disabled={busyId === `zone-${zone.id}`}
+                        onCheckedChange={() => handleToggleZone(zone)}
+                      />
+                      <Button size="sm" variant="outline" onClick={() => openCreateMethod(zone)}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Method
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openEditZone(zone)}>
+                        <Edit className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDeleteZone(zone)}
+                        disabled={busyId === `zone-${zone.id}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {zone.methods.length === 0 ? (
+                    <p className="text-sm text-muted-foreground p-4">No methods in this zone</p>
+                  ) : (
+                    <div className="divide-y">
+                      {zone.methods.map(method => (
+                        <div
+                          key={method.id}
+                          className="px-4 py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3"
+                        >
+                          <div className="min-w-0 flex-1">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <span className="text-sm font-medium">{method.name}</span>
+                              <Badge variant="secondary">{method.code}</Badge>
+                              <Badge variant="outline">{METHOD_TYPE_LABELS[method.method_type]}</Badge>
+                              {!method.is_active && <Badge variant="destructive">Inactive</Badge>}
+                            </div>
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {describeRates(method)}
+                              {method.free_shipping_mode === 'region' && ' · free over region threshold'}
+                              {method.free_shipping_mode === 'amount' && ` · free over ${formatMoney(method.free_shipping_threshold)}`}
+                              {method.class_rules.length > 0 && ` · ${method.class_rules.length} class rule(s)`}
+                              {method.carrier && ` · ${method.carrier}`}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              checked={method.is_active}
+                              disabled={busyId === `method-${method.id}`}
+                              onCheckedChange={() => handleToggleMethod(method)}
+                            />
+                            <Button size="sm" variant="outline" onClick={() => openEditMethod(method)}>
+                              <Edit className="h-4 w-4 mr-1" />
+                              Edit
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDeleteMethod(method)}
+                              disabled={busyId === `method-${method.id}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            Test a Rate
+          </CardTitle>
+          <CardDescription>
+            See which zone matches and how each method prices a destination and cart. FedEx is not called.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="test_country">Country code</Label>
+              <Input
+                id="test_country"
+                value={testForm.country}
+                maxLength={2}
+                onChange={(e) => setTestForm({ ...testForm, country: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="test_state">State</Label>
+              <Input
+                id="test_state"
+                value={testForm.state}
+                onChange={(e) => setTestForm({ ...testForm, state: e.target.value })}
+                placeholder="FL"
+              />
+            </div>
+            <div>
+              <Label htmlFor="test_postal">Postal code</Label>
+              <Input
+                id="test_postal"
+                value={testForm.postalCode}
+                onChange={(e) => setTestForm({ ...testForm, postalCode: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="test_total">Order total</Label>
+              <Input
+                id="test_total"
+                type="number"
+                min="0"
+                step="0.01"
+                value={testForm.orderTotal}
+                onChange={(e) => setTestForm({ ...testForm, orderTotal: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Region</Label>
+              <Select
+                value={testForm.region}
+                onValueChange={(value) => setTestForm({ ...testForm, region: value as 'us' | 'eu' })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="us">US</SelectItem>
+                  <SelectItem value="eu">EU</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Package size</Label>
+              <Select
+                value={testForm.packageSize}
+                onValueChange={(value) => setTestForm({ ...testForm, packageSize: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">From cart</SelectItem>
+                  {PACKAGE_SIZES.map(size => (
+                    <SelectItem key={size} value={size}>{size}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="test_items">Cart items (product ID:quantity)</Label>
+              <Input
+                id="test_items"
+                value={testForm.cartItems}
+                onChange={(e) => setTestForm({ ...testForm, cartItems: e.target.value })}
+                placeholder="12:1, 40:2"
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleTestRate} disabled={testing || testForm.country.length !== 2}>
+            {testing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Test Rate
+          </Button>
+
+          {testResult && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <div className="text-sm">
+                <span className="font-medium">Zone:</span>{' '}
+                {testResult.zone ? testResult.zone.name : 'No zone matches (manual quote)'}
+                <span className="text-muted-foreground">
+                  {' · '}{testResult.weight_kg} kg · package {testResult.package_size}
+                  {testResult.shipping_classes.length > 0 && ` · classes ${testResult.shipping_classes.join(', ')}`}
+                </span>
+              </div>
+              {testResult.parcels.length > 0 && (
+                <div className="text-xs text-muted-foreground space-y-1">
+                  {testResult.parcels.map((parcel, index) => (
+                    <div key={index}>
+                      Parcel {index + 1}: {parcel.length}×{parcel.width}×{parcel.height} in · {parcel.weightKg} kg ·{' '}
+                      {parcel.carton ? `${parcel.carton} carton` : 'own box'} ({parcel.packageSize}) —{' '}
+                      {parcel.contents.map(content => `${content.quantity}× ${content.name}`).join(', ')}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {testResult.methods.map(method => (
+                <div key={method.method_id} className="flex items-center justify-between text-sm border-t pt-2">
+                  <div>
+                    <span className="font-medium">{method.name}</span>{' '}
+                    <span className="text-muted-foreground">({method.code})</span>
+                    {method.reason && <div className="text-xs text-destructive">{method.reason}</div>}
+                    {method.free_shipping_applied && <div className="text-xs text-green-600">Free shipping threshold reached</div>}
+                  </div>
+                  <div className="text-right">
+                    {!method.available ? (
+                      <Badge variant="destructive">Unavailable</Badge>
+                    ) : method.requires_manual_quote ? (
+                      <Badge variant="outline">Quote</Badge>
+                    ) : method.method_type === 'carrier' ? (
+                      <span className="text-muted-foreground">
+                        FedEx rate{method.surcharge > 0 && ` + ${formatMoney(method.surcharge)}`}
+                      </span>
+                    ) : (
+                      <div>
+                        <span className="font-medium">{formatMoney(method.price)}</span>
+                        {method.surcharge > 0 && (
+                          <div className="text-xs text-muted-foreground">incl. {formatMoney(method.surcharge)} class surcharge</div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={zoneDialogOpen} onOpenChange={setZoneDialogOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editingZone ? 'Edit Shipping Zone' : 'Add Shipping Zone'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="zone_name">Name</Label>
+              <Input
+                id="zone_name"
+                value={zoneForm.name}
+                onChange={(e) => setZoneForm({ ...zoneForm, name: e.target.value })}
+                placeholder="Alaska & Hawaii"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="zone_countries">Countries (comma separated, empty for all others)</Label>
+              <Input
+                id="zone_countries"
+                value={zoneLists.countries}
+                onChange={(e) => setZoneLists({ ...zoneLists, countries: e.target.value })}
+                placeholder="US, CA"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="zone_states">States (optional)</Label>
+              <Input
+                id="zone_states"
+                value={zoneLists.states}
+                onChange={(e) => setZoneLists({ ...zoneLists, states: e.target.value })}
+                placeholder="AK, HI"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="zone_postal">Postal codes (optional, one per line)</Label>
+              <Textarea
+                id="zone_postal"
+                rows={3}
+                value={zoneLists.postal_codes}
+                onChange={(e) => setZoneLists({ ...zoneLists, postal_codes: e.target.value })}
+                placeholder={'33101\n331*\n90000...96199'}
+              />
+            </div>
+            <div>
+              <Label htmlFor="zone_order">Match order</Label>
+              <Input
+                id="zone_order"
+                type="number"
+                min="0"
+                value={zoneForm.sort_order ?? 0}
+                onChange={(e) => setZoneForm({ ...zoneForm, sort_order: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="zone_active"
+                checked={zoneForm.is_active !== false}
+                onCheckedChange={(checked) => setZoneForm({ ...zoneForm, is_active: checked })}
+              />
+              <Label htmlFor="zone_active" className="cursor-pointer">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setZoneDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveZone} disabled={saving || !zoneForm.name}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingZone ? 'Save Changes' : 'Create Zone'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={methodDialogOpen} onOpenChange={setMethodDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingMethod ? 'Edit Shipping Method' : 'Add Shipping Method'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="method_name">Name</Label>
+              <Input
+                id="method_name"
+                value={methodForm.name}
+                onChange={(e) => setMethodForm({ ...methodForm, name: e.target.value })}
+                placeholder="Standard Shipping"
+              />
+            </div>
+            <div>
+              <Label htmlFor="method_code">Code</Label>
+              <Input
+                id="method_code"
+                value={methodForm.code}
+                onChange={(e) => setMethodForm({ ...methodForm, code: e.target.value.toLowerCase() })}
+                placeholder="us_standard"
+              />
+            </div>
+            <div>
+              <Label>Pricing</Label>
+              <Select value={methodForm.method_type} onValueChange={(value) => setMethodType(value as ShippingMethodType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(METHOD_TYPE_LABELS) as ShippingMethodType[]).map(type => (
+                    <SelectItem key={type} value={type}>{METHOD_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="method_carrier">Carrier</Label>
+              <Input
+                id="method_carrier"
+                value={methodForm.carrier || ''}
+                disabled={methodForm.method_type === 'carrier'}
+                onChange={(e) => setMethodForm({ ...methodForm, carrier: e.target.value })}
+                placeholder="USPS"
+              />
+            </div>
+            <div>
+              <Label htmlFor="method_days">Estimated delivery</Label>
+              <Input
+                id="method_days"
+                value={methodForm.estimated_days || ''}
+                onChange={(e) => setMethodForm({ ...methodForm, estimated_days: e.target.value })}
+                placeholder="5-7 business days"
+              />
+            </div>
+            <div>
+              <Label htmlFor="method_order">Display order</Label>
+              <Input
+                id="method_order"
+                type="number"
+                min="0"
+                value={methodForm.sort_order ?? 0}
+                onChange={(e) => setMethodForm({ ...methodForm, sort_order: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+
+            {methodForm.method_type === 'flat' && (
+              <div>
+                <Label htmlFor="method_cost">Cost</Label>
+                <Input
+                  id="method_cost"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={methodForm.base_cost ?? 0}
+                  onChange={(e) => setMethodForm({ ...methodForm, base_cost: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            )}
+
+            {methodForm.method_type === 'package_size' && (
+              <div className="md:col-span-2 grid grid-cols-3 gap-4">
+                {(methodForm.rates || []).map((rate, index) => (
+                  <div key={rate.size}>
+                    <Label>Size {rate.size}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={rate.cost}
+                      onChange={(e) => updateTier(index, { cost: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isTiered && (
+              <div className="md:col-span-2 space-y-2">
+                <Label>
+                  {methodForm.method_type === 'weight_tier'
+                    ? 'Weight tiers (kg per parcel, max exclusive)'
+                    : 'Order total tiers (max exclusive)'}
+                </Label>
+                {(methodForm.rates || []).map((rate, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Min"
+                      value={rate.min ?? ''}
+                      onChange={(e) => updateTier(index, { min: parseOptionalNumber(e.target.value) })}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Max (empty = no limit)"
+                      value={rate.max ?? ''}
+                      onChange={(e) => updateTier(index, { max: parseOptionalNumber(e.target.value) })}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Cost"
+                      value={rate.cost}
+                      onChange={(e) => updateTier(index, { cost: parseFloat(e.target.value) || 0 })}
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setMethodForm({
+                        ...methodForm,
+                        rates: (methodForm.rates || []).filter((_, i) => i !== index)
+                      })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    const last = methodForm.rates?.[methodForm.rates.length - 1];
+                    setMethodForm({
+                      ...methodForm,
+                      rates: [...(methodForm.rates || []), { min: last?.max ?? 0, max: null, cost: 0 }]
+                    });
+                  }}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Tier
+                </Button>
+              </div>
+            )}
+
+            {hasRatePrice && (
+              <>
+                <div>
+                  <Label>Free shipping</Label>
+                  <Select
+                    value={methodForm.free_shipping_mode || 'none'}
+                    onValueChange={(value) => setMethodForm({
+                      ...methodForm,
+                      free_shipping_mode: value as ShippingZoneMethodInput['free_shipping_mode']
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Never</SelectItem>
+                      <SelectItem value="region">Over the region's free shipping threshold</SelectItem>
+                      <SelectItem value="amount">Over a set amount</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {methodForm.free_shipping_mode === 'amount' && (
+                  <div>
+                    <Label htmlFor="method_free_threshold">Free over</Label>
+                    <Input
+                      id="method_free_threshold"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={methodForm.free_shipping_threshold ?? ''}
+                      onChange={(e) => setMethodForm({
+                        ...methodForm,
+                        free_shipping_threshold: parseOptionalNumber(e.target.value)
+                      })}
+                    />
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="md:col-span-2 space-y-2">
+              <Label>Shipping class rules</Label>
+              {(methodForm.class_rules || []).map((rule, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    placeholder="Shipping class"
+                    value={rule.shipping_class}
+                    onChange={(e) => updateClassRule(index, { shipping_class: e.target.value })}
+                  />
+                  <Select
+                    value={rule.action}
+                    onValueChange={(value) => updateClassRule(index, { action: value as ShippingClassRule['action'] })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="surcharge">Surcharge</SelectItem>
+                      <SelectItem value="exclude">Not available</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {rule.action === 'surcharge' && (
+                    <>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-28"
+                        value={rule.amount ?? 0}
+                        onChange={(e) => updateClassRule(index, { amount: parseFloat(e.target.value) || 0 })}
+                      />
+                      <Select
+                        value={rule.per || 'order'}
+                        onValueChange={(value) => updateClassRule(index, { per: value as ShippingClassRule['per'] })}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="order">per order</SelectItem>
+                          <SelectItem value="item">per item</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setMethodForm({
+                      ...methodForm,
+                      class_rules: (methodForm.class_rules || []).filter((_, i) => i !== index)
+                    })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setMethodForm({
+                  ...methodForm,
+                  class_rules: [...(methodForm.class_rules || []), { shipping_class: '', action: 'surcharge', amount: 0, per: 'order' }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Class Rule
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="method_active"
+                checked={methodForm.is_active !== false}
+                onCheckedChange={(checked) => setMethodForm({ ...methodForm, is_active: checked })}
+              />
+              <Label htmlFor="method_active" className="cursor-pointer">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMethodDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveMethod} disabled={saving || !methodForm.name || !methodForm.code}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingMethod ? 'Save Changes' : 'Create Method'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
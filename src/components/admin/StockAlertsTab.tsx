@@ -0,0 +1,254 @@
+/**
+ * Stock Alerts Tab Component
+ * Low-stock and out-of-stock alerts with reorder suggestions. Open alerts go
+ * out in the daily admin digest; acknowledging or snoozing leaves them out.
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import PermittedFor from '@/components/auth/PermittedFor';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, BellRing, Check, RefreshCw } from 'lucide-react';
+import { stockAlertAPI, StockAlert, StockAlertStatus } from '@/services/api';
+
+type StatusFilter = StockAlertStatus | 'active';
+
+const STATUS_LABELS: Record<StockAlertStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  snoozed: 'Snoozed',
+  resolved: 'Resolved'
+};
+
+const SNOOZE_DAYS = [1, 3, 7, 14, 30];
+
+export default function StockAlertsTab() {
+  const [alerts, setAlerts] = useState<StockAlert[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [regionFilter, setRegionFilter] = useState<'us' | 'eu' | 'all'>('all');
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [statusFilter, regionFilter]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchAlerts = async () => {
+    setLoading(true);
+    try {
+      const response = await stockAlertAPI.getAlerts({
+        status: statusFilter,
+        region: regionFilter === 'all' ? undefined : regionFilter
+      });
+      setAlerts(response.data);
+    } catch (error) {
+      console.error('Error fetching stock alerts:', error);
+      showError(error, 'Failed to fetch stock alerts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const response = await stockAlertAPI.refreshAlerts();
+      toast({
+        title: 'Stock alerts refreshed',
+        description: `${response.data.raised} new, ${response.data.resolved} resolved`
+      });
+      await fetchAlerts();
+    } catch (error) {
+      showError(error, 'Failed to refresh stock alerts');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleAcknowledge = async (alert: StockAlert) => {
+    setBusyId(alert.id);
+    try {
+      await stockAlertAPI.acknowledgeAlert(alert.id);
+      toast({ title: 'Alert acknowledged' });
+      await fetchAlerts();
+    } catch (error) {
+      showError(error, 'Failed to acknowledge alert');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSnooze = async (alert: StockAlert, days: number) => {
+    setBusyId(alert.id);
+    try {
+      await stockAlertAPI.snoozeAlert(alert.id, days);
+      toast({ title: `Alert snoozed for ${days} day${days === 1 ? '' : 's'}` });
+      await fetchAlerts();
+    } catch (error) {
+      showError(error, 'Failed to snooze alert');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describeStatus = (alert: StockAlert) => {
+    if (alert.status === 'snoozed' && alert.snoozed_until) {
+      return `Snoozed until ${new Date(alert.snoozed_until).toLocaleDateString()}`;
+    }
+    if (alert.status === 'acknowledged' && alert.acknowledged_by_name) {
+      return `Acknowledged by ${alert.acknowledged_by_name}`;
+    }
+    if (alert.status === 'resolved' && alert.resolved_at) {
+      return `Resolved ${new Date(alert.resolved_at).toLocaleDateString()}`;
+    }
+    return STATUS_LABELS[alert.status];
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Stock Alerts
+          </CardTitle>
+          <CardDescription>
+            Products and options at or below their low stock threshold. Reorder suggestions cover the supplier
+            lead time plus 30 days of sales at the last 90 days' rate, less stock already on order.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={regionFilter} onValueChange={(value) => setRegionFilter(value as 'us' | 'eu' | 'all')}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All regions</SelectItem>
+              <SelectItem value="us">US</SelectItem>
+              <SelectItem value="eu">EU</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Unresolved</SelectItem>
+              {(Object.keys(STATUS_LABELS) as StockAlertStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <PermittedFor authority="inventory:manage">
+            <Button variant="outline" onClick={handleRefresh} disabled={refreshing}>
+              {refreshing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Check Now
+            </Button>
+          </PermittedFor>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No stock alerts</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Level</TableHead>
+                <TableHead className="text-right">Stock</TableHead>
+                <TableHead className="text-right">Sold / day</TableHead>
+                <TableHead className="text-right">Incoming</TableHead>
+                <TableHead className="text-right">Reorder</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {alerts.map(alert => (
+                <TableRow key={alert.id}>
+                  <TableCell>
+                    <div className="font-medium">
+                      {alert.product_name}
+                      {alert.option_name && <span className="text-muted-foreground"> – {alert.option_name}</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {alert.sku} · {alert.region.toUpperCase()}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {alert.level === 'out_of_stock'
+                      ? <Badge variant="destructive">Out of stock</Badge>
+                      : <Badge variant="secondary">Low stock</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {alert.current_stock}
+                    {alert.threshold !== null && <span className="text-muted-foreground"> / {alert.threshold}</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{Number(alert.daily_velocity).toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{alert.incoming_quantity}</TableCell>
+                  <TableCell className="text-right font-medium">{alert.suggested_reorder}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{describeStatus(alert)}</TableCell>
+                  <TableCell>
+                    {alert.status !== 'resolved' && (
+                      <PermittedFor authority="inventory:manage">
+                        <div className="flex items-center justify-end gap-2">
+                          {alert.status !== 'acknowledged' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busyId === alert.id}
+                              onClick={() => handleAcknowledge(alert)}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Acknowledge
+                            </Button>
+                          )}
+                          <Select
+                            value=""
+                            onValueChange={(value) => handleSnooze(alert, parseInt(value, 10))}
+                            disabled={busyId === alert.id}
+                          >
+                            <SelectTrigger className="w-28 h-9">
+                              <SelectValue placeholder="Snooze" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {SNOOZE_DAYS.map(days => (
+                                <SelectItem key={days} value={String(days)}>
+                                  {days} day{days === 1 ? '' : 's'}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </PermittedFor>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,387 @@
+/**
+ * Tax Rules Tab Component
+ * Admin management of tax rates by country/state/postal prefix and tax class,
+ * plus the per-region tax-inclusive pricing switch
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Edit, Trash2, Search, Percent } from 'lucide-react';
+import { taxAPI, regionSettingsAPI, TaxRule, TaxRuleInput } from '@/services/api';
+
+const emptyRule: TaxRuleInput = {
+  name: '',
+  country: '',
+  state_code: '',
+  postal_prefix: '',
+  tax_class: 'standard',
+  rate: 0,
+  tax_shipping: false,
+  priority: 0,
+  is_active: true
+};
+
+const formatRate = (rate: number | string) => `${(Number(rate) * 100).toFixed(Number(rate) * 100 % 1 === 0 ? 0 : 2)}%`;
+
+export default function TaxRulesTab() {
+  const [rules, setRules] = useState<TaxRule[]>([]);
+  const [countryFilter, setCountryFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TaxRule | null>(null);
+  const [form, setForm] = useState<TaxRuleInput>(emptyRule);
+  const [ratePercent, setRatePercent] = useState('0');
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [pricesIncludeTax, setPricesIncludeTax] = useState<Record<'us' | 'eu', boolean>>({ us: false, eu: true });
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRules();
+  }, [countryFilter]);
+
+  useEffect(() => {
+    fetchPricingSettings();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchRules = async () => {
+    setLoading(true);
+    try {
+      const response = await taxAPI.getRules({ country: countryFilter.length === 2 ? countryFilter : undefined });
+      setRules(response.data);
+    } catch (error) {
+      console.error('Error fetching tax rules:', error);
+      showError(error, 'Failed to fetch tax rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPricingSettings = async () => {
+    try {
+      const [us, eu] = await Promise.all([
+        regionSettingsAPI.getPublicSettings('us'),
+        regionSettingsAPI.getPublicSettings('eu')
+      ]);
+      setPricesIncludeTax({
+        us: us.data.settings.prices_include_tax === true,
+        eu: eu.data.settings.prices_include_tax === true
+      });
+    } catch (error) {
+      console.error('Error fetching tax pricing settings:', error);
+    }
+  };
+
+  const handlePricingChange = async (region: 'us' | 'eu', checked: boolean) => {
+    try {
+      await regionSettingsAPI.updateSetting(region, 'prices_include_tax', checked);
+      setPricesIncludeTax(prev => ({ ...prev, [region]: checked }));
+      toast({
+        title: 'Pricing updated',
+        description: `${region.toUpperCase()} prices ${checked ? 'include' : 'exclude'} tax`
+      });
+    } catch (error) {
+      showError(error, 'Failed to update pricing setting');
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyRule);
+    setRatePercent('0');
+    setDialogOpen(true);
+  };
+
+  const openEdit = (rule: TaxRule) => {
+    setEditing(rule);
+    setForm({
+      name: rule.name,
+      country: rule.country,
+      state_code: rule.state_code || '',
+      postal_prefix: rule.postal_prefix || '',
+      tax_class: rule.tax_class,
+      rate: Number(rule.rate),
+      tax_shipping: rule.tax_shipping,
+      priority: rule.priority,
+      is_active: rule.is_active
+    });
+    setRatePercent((Number(rule.rate) * 100).toString());
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const payload: TaxRuleInput = {
+      ...form,
+      rate: Math.round((parseFloat(ratePercent) || 0) * 1000) / 100000
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await taxAPI.updateRule(editing.id, payload);
+        toast({ title: 'Tax rule updated' });
+      } else {
+        await taxAPI.createRule(payload);
+        toast({ title: 'Tax rule created' });
+      }
+      setDialogOpen(false);
+      await fetchRules();
+    } catch (error) {
+      showError(error, 'Failed to save tax rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: TaxRule) => {
+    setBusyId(rule.id);
+    try {
+      await taxAPI.updateRule(rule.id, { is_active: !rule.is_active });
+      await fetchRules();
+    } catch (error) {
+      showError(error, 'Failed to update tax rule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (rule: TaxRule) => {
+    if (!confirm(`Delete tax rule "${rule.name}"?`)) return;
+    setBusyId(rule.id);
+    try {
+      await taxAPI.deleteRule(rule.id);
+      toast({ title: 'Tax rule deleted' });
+      await fetchRules();
+    } catch (error) {
+      showError(error, 'Failed to delete tax rule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const jurisdiction = (rule: TaxRule) =>
+    [rule.country, rule.state_code, rule.postal_prefix ? `${rule.postal_prefix}*` : null].filter(Boolean).join(' / ');
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            Tax-Inclusive Pricing
+          </CardTitle>
+          <CardDescription>
+            When enabled, catalog prices are gross and tax is shown as included instead of added at checkout
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col md:flex-row gap-6">
+          {(['us', 'eu'] as const).map(region => (
+            <div key={region} className="flex items-center gap-2">
+              <Switch
+                id={`prices_include_tax_${region}`}
+                checked={pricesIncludeTax[region]}
+                onCheckedChange={(checked) => handlePricingChange(region, checked)}
+              />
+              <Label htmlFor={`prices_include_tax_${region}`} className="cursor-pointer">
+                {region.toUpperCase()} prices include tax
+              </Label>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Tax Rules</CardTitle>
+            <CardDescription>
+              The most specific active rule wins: postal prefix, then state, then country
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <div className="relative mb-4 max-w-xs">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Filter by country code (e.g. DE)"
+              value={countryFilter}
+              maxLength={2}
+              onChange={(e) => setCountryFilter(e.target.value.toUpperCase())}
+              className="pl-9"
+            />
+          </div>
+
+          {loading && rules.length === 0 ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No tax rules found</p>
+          ) : (
+            <div className="space-y-2">
+              {rules.map(rule => (
+                <div
+                  key={rule.id}
+                  className="p-4 border rounded-lg flex flex-col md:flex-row md:items-center md:justify-between gap-3"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{rule.name}</span>
+                      <Badge variant="outline">{jurisdiction(rule)}</Badge>
+                      <Badge variant="secondary">{rule.tax_class}</Badge>
+                      {!rule.is_active && <Badge variant="destructive">Inactive</Badge>}
+                    </div>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      {formatRate(rule.rate)}
+                      {rule.tax_shipping ? ' · shipping taxed' : ' · shipping exempt'}
+                      {rule.priority > 0 && ` · priority ${rule.priority}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.is_active}
+                      disabled={busyId === rule.id}
+                      onCheckedChange={() => handleToggleActive(rule)}
+                    />
+                    <Button size="sm" variant="outline" onClick={() => openEdit(rule)} disabled={busyId === rule.id}>
+                      <Edit className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)} disabled={busyId === rule.id}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Tax Rule' : 'Add Tax Rule'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="tax_name">Name</Label>
+              <Input
+                id="tax_name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Florida Sales Tax"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax_country">Country code</Label>
+              <Input
+                id="tax_country"
+                value={form.country}
+                maxLength={2}
+                onChange={(e) => setForm({ ...form, country: e.target.value.toUpperCase() })}
+                placeholder="US"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax_state">State (optional)</Label>
+              <Input
+                id="tax_state"
+                value={form.state_code || ''}
+                onChange={(e) => setForm({ ...form, state_code: e.target.value })}
+                placeholder="FL or Florida"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax_postal">Postal code prefix (optional)</Label>
+              <Input
+                id="tax_postal"
+                value={form.postal_prefix || ''}
+                onChange={(e) => setForm({ ...form, postal_prefix: e.target.value })}
+                placeholder="331"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax_class">Tax class</Label>
+              <Input
+                id="tax_class"
+                value={form.tax_class || ''}
+                onChange={(e) => setForm({ ...form, tax_class: e.target.value })}
+                placeholder="standard"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax_rate">Rate (%)</Label>
+              <Input
+                id="tax_rate"
+                type="number"
+                step="0.01"
+                min="0"
+                max="99.99"
+                value={ratePercent}
+                onChange={(e) => setRatePercent(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax_priority">Priority</Label>
+              <Input
+                id="tax_priority"
+                type="number"
+                min="0"
+                value={form.priority ?? 0}
+                onChange={(e) => setForm({ ...form, priority: parseInt(e.target.value, 10) || 0 })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="tax_shipping"
+                checked={form.tax_shipping === true}
+                onCheckedChange={(checked) => setForm({ ...form, tax_shipping: checked })}
+              />
+              <Label htmlFor="tax_shipping" className="cursor-pointer">Tax shipping</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="tax_active"
+                checked={form.is_active !== false}
+                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+              />
+              <Label htmlFor="tax_active" className="cursor-pointer">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form.name || form.country.length !== 2}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? 'Save Changes' : 'Create Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
 import { useState, useEffect } from 'react';
-import { Plus, Minus, Save, AlertCircle, Package, Loader2 } from 'lucide-react';
+import { Plus, Minus, Save, AlertCircle, Package, Loader2, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { warehouseAPI, Warehouse, WarehouseStockLevel } from '@/services/api';
+import InventoryHistoryDialog from './InventoryHistoryDialog';
 
 interface VariationOption {
   id: number;
@@ -37,20 +47,42 @@ export default function VariationStockManager({ productId, onStockChange }: Vari
   const [variations, setVariations] = useState<Variation[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  // Variations whose next save records a physical count rather than a correction
+  const [countedVariations, setCountedVariations] = useState<Set<number>>(new Set());
+  const [historyOption, setHistoryOption] = useState<{ id: number; title: string } | null>(null);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [stockLevels, setStockLevels] = useState<WarehouseStockLevel[]>([]);
+  // 'all' edits the totals (changes land at the region's default warehouse)
+  const [selectedWarehouse, setSelectedWarehouse] = useState<string>('all');
+  const warehouseId = selectedWarehouse === 'all' ? null : Number(selectedWarehouse);
+
+  useEffect(() => {
+    warehouseAPI.getWarehouses()
+      .then(response => setWarehouses(response.data.filter(warehouse => warehouse.is_active)))
+      .catch(error => console.error('Failed to fetch warehouses:', error));
+  }, []);
 
   useEffect(() => {
     if (productId) {
       fetchVariationStock();
     }
-  }, [productId]);
+  }, [productId, selectedWarehouse]);
+
+  const getOptionLevels = (optionId: number) =>
+    stockLevels.filter(level => level.variation_option_id === optionId);
 
   const fetchVariationStock = async () => {
     setLoading(true);
     try {
-      const response = await fetch(`${API_URL}/api/admin/products/${productId}/variation-stock-summary`, {
-        credentials: 'include',
-      });
+      const [response, levelsResponse] = await Promise.all([
+        fetch(`${API_URL}/api/admin/products/${productId}/variation-stock-summary`, {
+          credentials: 'include',
+        }),
+        warehouseAPI.getStockLevels(productId),
+      ]);
       const data = await response.json();
+      const levels = levelsResponse.data;
+      setStockLevels(levels);
 
       if (data.success) {
         // Group options by variation
@@ -72,14 +104,27 @@ export default function VariationStockManager({ productId, onStockChange }: Vari
           
           // Add option only if option_id exists (not NULL)
           if (item.option_id) {
-            acc[item.variation_id].options.push({
+            const option = {
               id: item.option_id,
               option_name: item.option_name,
               stock_quantity: item.stock_quantity !== null && item.stock_quantity !== undefined ? Number(item.stock_quantity) : null,
               low_stock_threshold: item.low_stock_threshold !== null && item.low_stock_threshold !== undefined ? Number(item.low_stock_threshold) : null,
               reserved_quantity: item.reserved_quantity || 0,
               available: item.available !== null && item.available !== undefined ? item.available : 0,
-            });
+            };
+
+            // Show the selected location's figures instead of the totals
+            const level = warehouseId
+              ? levels.find(l => l.variation_option_id === item.option_id && l.warehouse_id === warehouseId)
+              : undefined;
+            if (warehouseId && option.stock_quantity !== null) {
+              option.stock_quantity = level?.quantity ?? 0;
+              option.low_stock_threshold = level?.low_stock_threshold ?? option.low_stock_threshold;
+              option.reserved_quantity = level?.reserved_quantity ?? 0;
+              option.available = level?.available ?? 0;
+            }
+
+            acc[item.variation_id].options.push(option);
           }
           return acc;
         }, {});
@@ -126,7 +171,8 @@ export default function VariationStockManager({ productId, onStockChange }: Vari
         body: JSON.stringify({
           optionId,
           adjustment,
-          reason: `Manual adjustment by admin`,
+          reason: 'manual_adjustment',
+          warehouseId,
         }),
       });
 
@@ -157,6 +203,8 @@ export default function VariationStockManager({ productId, onStockChange }: Vari
       }
 
       const requestBody = {
+        reason: countedVariations.has(variationId) ? 'cycle_count' : 'manual_adjustment',
+        warehouseId,
         options: variation.options.map(o => {
           const stockQty = o.stock_quantity === '' || o.stock_quantity === null || o.stock_quantity === undefined 
             ? null 
@@ -186,6 +234,11 @@ export default function VariationStockManager({ productId, onStockChange }: Vari
           title: 'Success',
           description: 'Stock updated successfully',
         });
+        setCountedVariations(prev => {
+          const next = new Set(prev);
+          next.delete(variationId);
+          return next;
+        });
         fetchVariationStock();
         onStockChange?.();
       } else {
@@ -251,6 +304,25 @@ export default function VariationStockManager({ productId, onStockChange }: Vari
 
   return (
     <div className="space-y-4">
+      {warehouses.length > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Label className="text-sm">Location</Label>
+          <Select value={selectedWarehouse} onValueChange={setSelectedWarehouse}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All locations (default warehouse)</SelectItem>
+              {warehouses.map(warehouse => (
+                <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                  {warehouse.name} ({warehouse.code})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {variations.map(variation => (
         <Card key={variation.id}>
           <CardHeader>
@@ -260,6 +332,24 @@ export default function VariationStockManager({ productId, onStockChange }: Vari
                 {variation.tracks_stock && (
                   <Badge variant="outline">Stock Tracked</Badge>
                 )}
+                <div className="flex items-center gap-2 text-sm font-normal">
+                  <Checkbox
+                    id={`counted-${variation.id}`}
+                    checked={countedVariations.has(variation.id)}
+                    onCheckedChange={(checked) => {
+                      setCountedVariations(prev => {
+                        const next = new Set(prev);
+                        if (checked) {
+                          next.add(variation.id);
+                        } else {
+                          next.delete(variation.id);
+                        }
+                        return next;
+                      });
+                    }}
+                  />
+                  <Label htmlFor={`counted-${variation.id}`}>Physical count</Label>
+                </div>
                 <Button
                   type="button"
                   size="sm"
@@ -303,6 +393,20 @@ export default function VariationStockManager({ productId, onStockChange }: Vari
                         <div className="text-sm text-muted-foreground">
                           Available: {option.available} | Reserved: {option.reserved_quantity}
                         </div>
+                        {getOptionLevels(option.id).length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {getOptionLevels(option.id).map(level => (
+                              <Badge
+                                key={level.warehouse_id}
+                                variant="outline"
+                                className={level.is_low_stock ? 'border-yellow-400 text-yellow-800' : ''}
+                                title={`${level.warehouse_name}: ${level.available} available, ${level.reserved_quantity} reserved`}
+                              >
+                                {level.warehouse_code}: {level.quantity}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
                       </div>
 
                       <div className="flex items-center gap-2">
@@ -357,6 +461,19 @@ export default function VariationStockManager({ productId, onStockChange }: Vari
                           </Button>
                         </div>
 
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          title="Stock history"
+                          onClick={() => setHistoryOption({
+                            id: option.id,
+                            title: `${variation.name}: ${option.option_name}`
+                          })}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+
                         <div>{getStatusBadge(status)}</div>
                       </div>
                     </div>
@@ -377,6 +494,14 @@ export default function VariationStockManager({ productId, onStockChange }: Vari
           </CardContent>
         </Card>
       ))}
+
+      <InventoryHistoryDialog
+        open={historyOption !== null}
+        onClose={() => setHistoryOption(null)}
+        productId={productId}
+        optionId={historyOption?.id}
+        title={historyOption?.title || ''}
+      />
     </div>
   );
 }
@@ -0,0 +1,543 @@
+/**
+ * Warehouses Tab Component
+ * Admin management of fulfilment locations and the transfer documents that move
+ * stock between them
+ */
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Edit, Warehouse as WarehouseIcon, ArrowRightLeft, X } from 'lucide-react';
+import {
+  warehouseAPI,
+  Warehouse,
+  WarehouseInput,
+  WarehouseRegion,
+  StockTransfer,
+  StockTransferStatus,
+  CreateStockTransferInput
+} from '@/services/api';
+
+const emptyWarehouse: WarehouseInput = {
+  code: '',
+  name: '',
+  region: 'us',
+  serves_countries: [],
+  priority: 0,
+  is_default: false,
+  is_active: true
+};
+
+const TRANSFER_STATUS_LABELS: Record<StockTransferStatus, string> = {
+  draft: 'Draft',
+  in_transit: 'In transit',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+const TRANSFER_STATUS_VARIANTS: Record<StockTransferStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  draft: 'outline',
+  in_transit: 'default',
+  received: 'secondary',
+  cancelled: 'destructive'
+};
+
+interface TransferLineForm {
+  productId: string;
+  variationOptionId: string;
+  quantity: string;
+}
+
+const emptyLine: TransferLineForm = { productId: '', variationOptionId: '', quantity: '1' };
+
+export default function WarehousesTab() {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [warehouseDialogOpen, setWarehouseDialogOpen] = useState(false);
+  const [editingWarehouse, setEditingWarehouse] = useState<Warehouse | null>(null);
+  const [warehouseForm, setWarehouseForm] = useState<WarehouseInput>(emptyWarehouse);
+  const [servesCountries, setServesCountries] = useState('');
+
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const [transferForm, setTransferForm] = useState({ fromWarehouseId: '', toWarehouseId: '', notes: '' });
+  const [transferLines, setTransferLines] = useState<TransferLineForm[]>([emptyLine]);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [warehouseResponse, transferResponse] = await Promise.all([
+        warehouseAPI.getWarehouses(),
+        warehouseAPI.getTransfers()
+      ]);
+      setWarehouses(warehouseResponse.data);
+      setTransfers(transferResponse.data);
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+      showError(error, 'Failed to fetch warehouses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ==========================================================================
+  // Warehouses
+  // ==========================================================================
+
+  const openCreateWarehouse = () => {
+    setEditingWarehouse(null);
+    setWarehouseForm(emptyWarehouse);
+    setServesCountries('');
+    setWarehouseDialogOpen(true);
+  };
+
+  const openEditWarehouse = (warehouse: Warehouse) => {
+    setEditingWarehouse(warehouse);
+    setWarehouseForm({
+      code: warehouse.code,
+      name: warehouse.name,
+      region: warehouse.region,
+      priority: warehouse.priority,
+      is_default: warehouse.is_default,
+      is_active: warehouse.is_active
+    });
+    setServesCountries(warehouse.serves_countries.join(', '));
+    setWarehouseDialogOpen(true);
+  };
+
+  const handleSaveWarehouse = async () => {
+    const payload: WarehouseInput = {
+      ...warehouseForm,
+      serves_countries: servesCountries.split(/[,\s]+/).map(code => code.trim().toUpperCase()).filter(Boolean)
+    };
+
+    setSaving(true);
+    try {
+      if (editingWarehouse) {
+        await warehouseAPI.updateWarehouse(editingWarehouse.id, payload);
+        toast({ title: 'Warehouse updated' });
+      } else {
+        await warehouseAPI.createWarehouse(payload);
+        toast({ title: 'Warehouse created' });
+      }
+      setWarehouseDialogOpen(false);
+      await fetchData();
+    } catch (error) {
+      showError(error, 'Failed to save warehouse');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // ==========================================================================
+  // Transfers
+  // ==========================================================================
+
+  const openCreateTransfer = () => {
+    setTransferForm({ fromWarehouseId: '', toWarehouseId: '', notes: '' });
+    setTransferLines([emptyLine]);
+    setTransferDialogOpen(true);
+  };
+
+  const updateLine = (index: number, changes: Partial<TransferLineForm>) => {
+    setTransferLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const handleCreateTransfer = async () => {
+    const payload: CreateStockTransferInput = {
+      fromWarehouseId: Number(transferForm.fromWarehouseId),
+      toWarehouseId: Number(transferForm.toWarehouseId),
+      notes: transferForm.notes || undefined,
+      items: transferLines
+        .filter(line => line.productId !== '')
+        .map(line => ({
+          productId: Number(line.productId),
+          variationOptionId: line.variationOptionId ? Number(line.variationOptionId) : null,
+          quantity: Number(line.quantity)
+        }))
+    };
+
+    setSaving(true);
+    try {
+      const response = await warehouseAPI.createTransfer(payload);
+      toast({ title: `Transfer ${response.data.transfer_number} created` });
+      setTransferDialogOpen(false);
+      await fetchData();
+    } catch (error) {
+      showError(error, 'Failed to create transfer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTransferAction = async (transfer: StockTransfer, action: 'ship' | 'receive' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel transfer ${transfer.transfer_number}?`)) return;
+    setBusyId(`transfer-${transfer.id}`);
+    try {
+      await warehouseAPI.updateTransferStatus(transfer.id, action);
+      toast({ title: `Transfer ${transfer.transfer_number} ${action === 'ship' ? 'shipped' : action === 'receive' ? 'received' : 'cancelled'}` });
+      await fetchData();
+    } catch (error) {
+      showError(error, 'Failed to update transfer');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const activeWarehouses = warehouses.filter(warehouse => warehouse.is_active);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <WarehouseIcon className="h-5 w-5" />
+              Warehouses
+            </CardTitle>
+            <CardDescription>
+              Orders reserve stock at the first location in their region that can fill them, preferring
+              locations that serve the destination country, then lower priority numbers.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreateWarehouse}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Warehouse
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading && warehouses.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {warehouses.map(warehouse => (
+                <div key={warehouse.id} className="p-4 border rounded-lg flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{warehouse.name}</span>
+                      <Badge variant="secondary">{warehouse.code}</Badge>
+                      <Badge variant="outline">{warehouse.region.toUpperCase()}</Badge>
+                      {warehouse.is_default && <Badge>Region default</Badge>}
+                      {!warehouse.is_active && <Badge variant="destructive">Inactive</Badge>}
+                    </div>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      {warehouse.units_on_hand} on hand · {warehouse.units_reserved} reserved · {warehouse.sku_count} SKUs
+                      {warehouse.low_stock_count > 0 && ` · ${warehouse.low_stock_count} low stock`}
+                      {warehouse.serves_countries.length > 0 && ` · serves ${warehouse.serves_countries.join(', ')}`}
+                      {` · priority ${warehouse.priority}`}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => openEditWarehouse(warehouse)}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowRightLeft className="h-5 w-5" />
+              Stock Transfers
+            </CardTitle>
+            <CardDescription>
+              Shipping a transfer takes stock out of the source; receiving puts it into the destination.
+              Between regions, stock moves to the linked product in the other region.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreateTransfer} disabled={activeWarehouses.length < 2}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Transfer
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {transfers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No stock transfers yet</p>
+          ) : (
+            <div className="divide-y border rounded-lg">
+              {transfers.map(transfer => (
+                <div key={transfer.id} className="px-4 py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">{transfer.transfer_number}</span>
+                      <Badge variant={TRANSFER_STATUS_VARIANTS[transfer.status]}>
+                        {TRANSFER_STATUS_LABELS[transfer.status]}
+                      </Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {transfer.from_warehouse_name} → {transfer.to_warehouse_name}
+                      {transfer.total_quantity !== undefined && ` · ${transfer.total_quantity} units`}
+                      {` · ${new Date(transfer.created_at).toLocaleDateString()}`}
+                      {transfer.notes && ` · ${transfer.notes}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {transfer.status === 'draft' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === `transfer-${transfer.id}`}
+                        onClick={() => handleTransferAction(transfer, 'ship')}
+                      >
+                        Ship
+                      </Button>
+                    )}
+                    {transfer.status === 'in_transit' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === `transfer-${transfer.id}`}
+                        onClick={() => handleTransferAction(transfer, 'receive')}
+                      >
+                        Receive
+                      </Button>
+                    )}
+                    {(transfer.status === 'draft' || transfer.status === 'in_transit') && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={busyId === `transfer-${transfer.id}`}
+                        onClick={() => handleTransferAction(transfer, 'cancel')}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={warehouseDialogOpen} onOpenChange={setWarehouseDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingWarehouse ? 'Edit Warehouse' : 'Add Warehouse'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="warehouse_code">Code</Label>
+                <Input
+                  id="warehouse_code"
+                  value={warehouseForm.code || ''}
+                  onChange={(e) => setWarehouseForm({ ...warehouseForm, code: e.target.value.toUpperCase() })}
+                  placeholder="EU-NL"
+                />
+              </div>
+              <div>
+                <Label htmlFor="warehouse_region">Region</Label>
+                <Select
+                  value={warehouseForm.region}
+                  onValueChange={(value) => setWarehouseForm({ ...warehouseForm, region: value as WarehouseRegion })}
+                >
+                  <SelectTrigger id="warehouse_region">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="us">US</SelectItem>
+                    <SelectItem value="eu">EU</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="warehouse_name">Name</Label>
+              <Input
+                id="warehouse_name"
+                value={warehouseForm.name || ''}
+                onChange={(e) => setWarehouseForm({ ...warehouseForm, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="warehouse_countries">Preferred countries</Label>
+                <Input
+                  id="warehouse_countries"
+                  value={servesCountries}
+                  onChange={(e) => setServesCountries(e.target.value)}
+                  placeholder="NL, BE, DE"
+                />
+              </div>
+              <div>
+                <Label htmlFor="warehouse_priority">Priority</Label>
+                <Input
+                  id="warehouse_priority"
+                  type="number"
+                  min="0"
+                  value={warehouseForm.priority ?? 0}
+                  onChange={(e) => setWarehouseForm({ ...warehouseForm, priority: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="warehouse_default">Region default</Label>
+              <Switch
+                id="warehouse_default"
+                checked={!!warehouseForm.is_default}
+                onCheckedChange={(checked) => setWarehouseForm({ ...warehouseForm, is_default: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="warehouse_active">Active</Label>
+              <Switch
+                id="warehouse_active"
+                checked={!!warehouseForm.is_active}
+                onCheckedChange={(checked) => setWarehouseForm({ ...warehouseForm, is_active: checked })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWarehouseDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveWarehouse} disabled={saving || !warehouseForm.code || !warehouseForm.name}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={transferDialogOpen} onOpenChange={setTransferDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Stock Transfer</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>From</Label>
+                <Select
+                  value={transferForm.fromWarehouseId}
+                  onValueChange={(value) => setTransferForm({ ...transferForm, fromWarehouseId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Source warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeWarehouses.map(warehouse => (
+                      <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                        {warehouse.name} ({warehouse.code})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>To</Label>
+                <Select
+                  value={transferForm.toWarehouseId}
+                  onValueChange={(value) => setTransferForm({ ...transferForm, toWarehouseId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Destination warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeWarehouses
+                      .filter(warehouse => warehouse.id.toString() !== transferForm.fromWarehouseId)
+                      .map(warehouse => (
+                        <SelectItem key={warehouse.id} value={warehouse.id.toString()}>
+                          {warehouse.name} ({warehouse.code})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Lines</Label>
+              {transferLines.map((line, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    placeholder="Product ID"
+                    value={line.productId}
+                    onChange={(e) => updateLine(index, { productId: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Option ID (optional)"
+                    value={line.variationOptionId}
+                    onChange={(e) => updateLine(index, { variationOptionId: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-24"
+                    placeholder="Qty"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={transferLines.length === 1}
+                    onClick={() => setTransferLines(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button size="sm" variant="outline" onClick={() => setTransferLines(prev => [...prev, emptyLine])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Line
+              </Button>
+            </div>
+
+            <div>
+              <Label htmlFor="transfer_notes">Notes</Label>
+              <Textarea
+                id="transfer_notes"
+                value={transferForm.notes}
+                onChange={(e) => setTransferForm({ ...transferForm, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTransferDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={handleCreateTransfer}
+              disabled={saving || !transferForm.fromWarehouseId || !transferForm.toWarehouseId}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Draft
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import { ExportButton } from '../export/ExportButton';
 import { useRealTimeAnalytics } from '../hooks/useRealTimeAnalytics';
 import { useInventoryOverview, useInventoryStockMovements } from '../hooks/useAnalyticsData';
 import { LoadingSkeleton } from '../components/LoadingSkeleton';
+import { InventoryMovement, getInventoryMovementReasonLabel } from '@/services/api';
 
 interface InventoryData {
   period: string;
@@ -49,6 +50,39 @@ interface InventoryData {
     optimal_stock_level: number;
     estimated_monthly_sales: number;
   };
+  by_location?: LocationStock[];
+}
+
+interface LocationStock {
+  warehouse_id: number;
+  code: string;
+  name: string;
+  region: 'us' | 'eu';
+  sku_count: number;
+  units_on_hand: number;
+  units_reserved: number;
+  low_stock_count: number;
+}
+
+interface SkuMovementSummary {
+  product_id: number;
+  variation_option_id: number | null;
+  product_name: string;
+  sku: string;
+  option_name: string | null;
+  units_in: number;
+  units_out: number;
+  units_sold: number;
+  net_change: number;
+  current_stock: number | null;
+  turnover_rate: number;
+  stock_status: 'healthy' | 'low_stock' | 'out_of_stock' | 'unmanaged';
+}
+
+interface StockMovementsData {
+  period: string;
+  movements: SkuMovementSummary[];
+  recent: InventoryMovement[];
 }
 
 interface InventoryAnalyticsProps {
@@ -97,6 +131,11 @@ export const InventoryAnalytics = ({ className, initialData }: InventoryAnalytic
     recommendations: { needs_restock: 0, needs_attention: 0, optimal_stock_level: 0, estimated_monthly_sales: 0 }
   };
 
+  const stockMovements = stockMovementsData.data as StockMovementsData | null;
+  const skuMovements = stockMovements?.movements || [];
+  const recentMovements = stockMovements?.recent || [];
+  const locations = data.by_location || [];
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -351,6 +390,41 @@ export const InventoryAnalytics = ({ className, initialData }: InventoryAnalytic
               </div>
             </CardContent>
           </Card>
+
+          {locations.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Stock by Location</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {locations.map((location) => (
+                    <div key={location.warehouse_id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <div className="font-medium">{location.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {location.code} · {location.region.toUpperCase()} · {location.sku_count} SKUs
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-6 text-sm">
+                        <div className="text-right">
+                          <div className="font-semibold">{location.units_on_hand}</div>
+                          <div className="text-xs text-muted-foreground">On hand</div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-semibold">{location.units_reserved}</div>
+                          <div className="text-xs text-muted-foreground">Reserved</div>
+                        </div>
+                        <Badge variant={location.low_stock_count > 0 ? 'destructive' : 'secondary'}>
+                          {location.low_stock_count} low stock
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         {/* Stock Health Tab */}
@@ -437,46 +511,85 @@ export const InventoryAnalytics = ({ className, initialData }: InventoryAnalytic
               <CardTitle>Top Stock Movements</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {/* Mock movement data - in real app this would come from API */}
-                {[
-                  { name: 'Racing Wheel Pro', sku: 'RWP-001', current: 45, sold: 23, status: 'healthy', turnover: 0.51 },
-                  { name: 'Flight Sim Cockpit', sku: 'FSC-002', current: 8, sold: 15, status: 'low_stock', turnover: 1.88 },
-                  { name: 'Gaming Monitor 4K', sku: 'GM4K-003', current: 0, sold: 12, status: 'out_of_stock', turnover: 0 },
-                  { name: 'VR Headset Elite', sku: 'VRE-004', current: 67, sold: 8, status: 'healthy', turnover: 0.12 },
-                  { name: 'Mechanical Keyboard', sku: 'MK-005', current: 12, sold: 18, status: 'low_stock', turnover: 1.5 }
-                ].map((item, index) => (
-                  <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
-                    <div className="flex-1">
-                      <div className="font-medium text-sm">{item.name}</div>
-                      <div className="text-xs text-muted-foreground">SKU: {item.sku}</div>
-                    </div>
-                    <div className="flex items-center gap-4 text-sm">
-                      <div className="text-center">
-                        <div className="font-medium">{item.current}</div>
-                        <div className="text-xs text-muted-foreground">Stock</div>
+              {skuMovements.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  No stock movements recorded in this period
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {skuMovements.map((item) => (
+                    <div key={`${item.product_id}-${item.variation_option_id ?? 'product'}`} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex-1">
+                        <div className="font-medium text-sm">
+                          {item.product_name}{item.option_name ? ` – ${item.option_name}` : ''}
+                        </div>
+                        <div className="text-xs text-muted-foreground">SKU: {item.sku}</div>
                       </div>
-                      <div className="text-center">
-                        <div className="font-medium text-green-600">{item.sold}</div>
-                        <div className="text-xs text-muted-foreground">Sold</div>
+                      <div className="flex items-center gap-4 text-sm">
+                        <div className="text-center">
+                          <div className="font-medium">{item.current_stock ?? '∞'}</div>
+                          <div className="text-xs text-muted-foreground">Stock</div>
+                        </div>
+                        <div className="text-center">
+                          <div className="font-medium text-green-600">{item.units_sold}</div>
+                          <div className="text-xs text-muted-foreground">Sold</div>
+                        </div>
+                        <div className="text-center">
+                          <div className={`font-medium ${item.net_change < 0 ? 'text-red-600' : ''}`}>
+                            {item.net_change > 0 ? `+${item.net_change}` : item.net_change}
+                          </div>
+                          <div className="text-xs text-muted-foreground">Net</div>
+                        </div>
+                        <div className="text-center">
+                          <div className="font-medium">{item.turnover_rate.toFixed(2)}</div>
+                          <div className="text-xs text-muted-foreground">Turnover</div>
+                        </div>
+                        <Badge variant={
+                          item.stock_status === 'healthy' || item.stock_status === 'unmanaged' ? 'default' :
+                          item.stock_status === 'low_stock' ? 'secondary' :
+                          'destructive'
+                        }>
+                          {item.stock_status === 'healthy' ? 'Good' :
+                           item.stock_status === 'unmanaged' ? 'Untracked' :
+                           item.stock_status === 'low_stock' ? 'Low' :
+                           'Out'}
+                        </Badge>
                       </div>
-                      <div className="text-center">
-                        <div className="font-medium">{item.turnover.toFixed(2)}</div>
-                        <div className="text-xs text-muted-foreground">Turnover</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Ledger Entries</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {recentMovements.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No stock movements recorded yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {recentMovements.map((movement) => (
+                    <div key={movement.id} className="flex items-center justify-between text-sm border-b pb-2 last:border-0">
+                      <div className="flex-1">
+                        <div className="font-medium">
+                          {movement.product_name}{movement.option_name ? ` – ${movement.option_name}` : ''}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {getInventoryMovementReasonLabel(movement.reason)}
+                          {movement.warehouse_code ? ` · ${movement.warehouse_code}` : ''} · {new Date(movement.created_at).toLocaleString()}
+                          {movement.actor_name ? ` · ${movement.actor_name}` : ''}
+                        </div>
+                      </div>
+                      <div className={`font-medium ${movement.delta > 0 ? 'text-green-600' : movement.delta < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                        {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
                       </div>
-                      <Badge variant={
-                        item.status === 'healthy' ? 'default' :
-                        item.status === 'low_stock' ? 'secondary' :
-                        'destructive'
-                      }>
-                        {item.status === 'healthy' ? 'Good' :
-                         item.status === 'low_stock' ? 'Low' :
-                         'Out'}
-                      </Badge>
                     </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -0,0 +1,315 @@
+/**
+ * Account Security Settings
+ * Email verification and email change, password change, and signing out of
+ * other sessions, for the account settings page
+ */
+
+import { useEffect, useState } from 'react';
+import { KeyRound, Mail, MonitorSmartphone, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { authAPI } from '@/services/api';
+
+const emptyPasswordForm = { currentPassword: '', newPassword: '', confirmPassword: '', logoutOtherSessions: true };
+
+export default function AccountSecuritySettings() {
+  const [passwordForm, setPasswordForm] = useState(emptyPasswordForm);
+  const [emailForm, setEmailForm] = useState({ email: '', password: '' });
+  const [showEmailForm, setShowEmailForm] = useState(false);
+  const [otherSessions, setOtherSessions] = useState<number | null>(null);
+  const [busy, setBusy] = useState<'password' | 'email' | 'resend' | 'sessions' | null>(null);
+
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchSessions = async () => {
+    try {
+      const response = await authAPI.getSessions();
+      setOtherSessions(response.data.otherSessions);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    }
+  };
+
+  const handleResend = async () => {
+    setBusy('resend');
+    try {
+      await authAPI.resendVerificationEmail();
+      toast({
+        title: 'Verification email sent',
+        description: `Check ${user?.pendingEmail || user?.email} for the link.`
+      });
+    } catch (error) {
+      showError(error, 'Failed to send verification email');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy('email');
+    try {
+      const response = await authAPI.changeEmail({ email: emailForm.email.trim(), password: emailForm.password });
+      toast({ title: 'Verify your new email', description: response.message });
+      setEmailForm({ email: '', password: '' });
+      setShowEmailForm(false);
+      await refreshUser();
+    } catch (error) {
+      showError(error, 'Failed to change email');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCancelEmailChange = async () => {
+    setBusy('email');
+    try {
+      await authAPI.cancelEmailChange();
+      toast({ title: 'Email change cancelled' });
+      await refreshUser();
+    } catch (error) {
+      showError(error, 'Failed to cancel email change');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      showError(null, 'New passwords do not match');
+      return;
+    }
+
+    setBusy('password');
+    try {
+      const response = await authAPI.changePassword({
+        currentPassword: passwordForm.currentPassword,
+        newPassword: passwordForm.newPassword,
+        logoutOtherSessions: passwordForm.logoutOtherSessions
+      });
+      toast({
+        title: 'Password changed',
+        description: response.data.sessionsEnded > 0
+          ? `Signed out of ${response.data.sessionsEnded} other session${response.data.sessionsEnded === 1 ? '' : 's'}.`
+          : undefined
+      });
+      setPasswordForm(emptyPasswordForm);
+      await fetchSessions();
+    } catch (error) {
+      showError(error, 'Failed to change password');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleLogoutOthers = async () => {
+    setBusy('sessions');
+    try {
+      const response = await authAPI.logoutOtherSessions();
+      toast({ title: response.message });
+      await fetchSessions();
+    } catch (error) {
+      showError(error, 'Failed to sign out other sessions');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Email Address
+            <Badge variant={user.emailVerified ? 'secondary' : 'outline'}>
+              {user.emailVerified ? 'Verified' : 'Not verified'}
+            </Badge>
+          </CardTitle>
+          <CardDescription>{user.email}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!user.emailVerified && !user.pendingEmail && (
+            <Alert>
+              <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                <span>Verify your email to receive wishlist alerts and newsletters.</span>
+                <Button size="sm" variant="outline" onClick={handleResend} disabled={busy === 'resend'}>
+                  {busy === 'resend' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Resend verification email
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {user.pendingEmail && (
+            <Alert>
+              <AlertDescription className="space-y-2">
+                <p>
+                  Waiting for you to verify <span className="font-medium">{user.pendingEmail}</span>. Your
+                  current address stays active until then.
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={handleResend} disabled={busy === 'resend'}>
+                    {busy === 'resend' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Resend link
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={handleCancelEmailChange} disabled={busy === 'email'}>
+                    Cancel change
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {showEmailForm ? (
+            <form onSubmit={handleChangeEmail} className="space-y-3 border rounded-lg p-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="change-email-address">New email address</Label>
+                  <Input
+                    id="change-email-address"
+                    type="email"
+                    autoComplete="email"
+                    value={emailForm.email}
+                    onChange={(e) => setEmailForm({ ...emailForm, email: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="change-email-password">Current password</Label>
+                  <Input
+                    id="change-email-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={emailForm.password}
+                    onChange={(e) => setEmailForm({ ...emailForm, password: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={busy === 'email' || !emailForm.email.trim() || !emailForm.password}>
+                  {busy === 'email' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Send verification link
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => setShowEmailForm(false)}>Cancel</Button>
+              </div>
+            </form>
+          ) : (
+            <Button variant="outline" onClick={() => setShowEmailForm(true)}>Change email</Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Change Password
+          </CardTitle>
+          <CardDescription>We'll email you when your password changes.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="current-password">Current password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                value={passwordForm.currentPassword}
+                onChange={(e) => setPasswordForm({ ...passwordForm, currentPassword: e.target.value })}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={6}
+                  value={passwordForm.newPassword}
+                  onChange={(e) => setPasswordForm({ ...passwordForm, newPassword: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  minLength={6}
+                  value={passwordForm.confirmPassword}
+                  onChange={(e) => setPasswordForm({ ...passwordForm, confirmPassword: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="logout-other-sessions"
+                checked={passwordForm.logoutOtherSessions}
+                onCheckedChange={(checked) => setPasswordForm({ ...passwordForm, logoutOtherSessions: checked === true })}
+              />
+              <Label htmlFor="logout-other-sessions" className="font-normal">
+                Sign out of all other browsers and devices
+              </Label>
+            </div>
+            <Button type="submit" disabled={busy === 'password'}>
+              {busy === 'password' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Update password
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5" />
+            Sessions
+          </CardTitle>
+          <CardDescription>
+            {otherSessions === null
+              ? 'Browsers and devices signed in to your account.'
+              : otherSessions === 0
+                ? 'You are only signed in on this browser.'
+                : `You are signed in on ${otherSessions} other browser${otherSessions === 1 ? '' : 's'} or device${otherSessions === 1 ? '' : 's'}.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" onClick={handleLogoutOthers} disabled={busy === 'sessions' || otherSessions === 0}>
+            {busy === 'sessions' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Log out other sessions
+          </Button>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,151 @@
+/**
+ * Linked Accounts Settings
+ * Connect and disconnect social sign-in providers for the account settings page
+ */
+
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Link2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { authAPI, LinkedIdentity, SocialProvider } from '@/services/api';
+
+export default function LinkedAccountsSettings() {
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [providers, setProviders] = useState<SocialProvider[]>([]);
+  const [passwordSet, setPasswordSet] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [unlinking, setUnlinking] = useState<string | null>(null);
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchLinkedAccounts();
+  }, []);
+
+  // Result of returning from a provider after "Connect"
+  useEffect(() => {
+    const linked = searchParams.get('linked');
+    const oauthError = searchParams.get('oauthError');
+    if (!linked && !oauthError) return;
+
+    if (oauthError) {
+      toast({ title: 'Could not connect account', description: oauthError, variant: 'destructive' });
+    } else {
+      toast({ title: 'Account connected' });
+    }
+
+    const next = new URLSearchParams(searchParams);
+    next.delete('linked');
+    next.delete('oauthError');
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams, toast]);
+
+  const fetchLinkedAccounts = async () => {
+    try {
+      const response = await authAPI.getLinkedAccounts();
+      setIdentities(response.data.identities);
+      setProviders(response.data.providers);
+      setPasswordSet(response.data.passwordSet);
+    } catch (error) {
+      console.error('Error fetching linked accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnlink = async (provider: string) => {
+    setUnlinking(provider);
+    try {
+      await authAPI.unlinkAccount(provider);
+      toast({ title: 'Account disconnected' });
+      await fetchLinkedAccounts();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to disconnect account',
+        variant: 'destructive'
+      });
+    } finally {
+      setUnlinking(null);
+    }
+  };
+
+  // Providers that can still be connected, plus linked ones even if since disabled
+  const rows = [
+    ...identities.map((identity) => ({ id: identity.provider, name: identity.name, identity })),
+    ...providers
+      .filter((provider) => !identities.some((identity) => identity.provider === provider.id))
+      .map((provider) => ({ id: provider.id, name: provider.name, identity: null as LinkedIdentity | null }))
+  ];
+
+  if (!loading && rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Linked Accounts
+        </CardTitle>
+        <CardDescription>Sign in with an account you already have elsewhere</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            {!passwordSet && (
+              <Alert>
+                <AlertDescription>
+                  Your account has no password yet. Use "Forgot your password?" on the sign-in page to set
+                  one before disconnecting your last linked account.
+                </AlertDescription>
+              </Alert>
+            )}
+            {rows.map((row) => (
+              <div key={row.id} className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2 font-medium">
+                    {row.name}
+                    {row.identity && <Badge variant="secondary">Connected</Badge>}
+                  </div>
+                  {row.identity?.email && (
+                    <p className="text-sm text-muted-foreground">{row.identity.email}</p>
+                  )}
+                </div>
+                {row.identity ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={unlinking === row.id}
+                    onClick={() => handleUnlink(row.id)}
+                  >
+                    {unlinking === row.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Disconnect
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      window.location.href = authAPI.getOAuthStartUrl(row.id, { mode: 'link' });
+                    }}
+                  >
+                    Connect
+                  </Button>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Social Login Buttons
+ * "Continue with" buttons for the sign-in providers enabled in this region;
+ * renders nothing when none are configured
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { authAPI, SocialProvider } from '@/services/api';
+
+interface SocialLoginButtonsProps {
+  returnTo?: string;
+}
+
+export default function SocialLoginButtons({ returnTo }: SocialLoginButtonsProps) {
+  const [providers, setProviders] = useState<SocialProvider[]>([]);
+
+  useEffect(() => {
+    authAPI.getOAuthProviders()
+      .then((response) => setProviders(response.data.providers))
+      .catch((error) => console.error('Error fetching sign-in providers:', error));
+  }, []);
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="h-px flex-1 bg-border" />
+        <span className="text-xs uppercase text-muted-foreground">or</span>
+        <div className="h-px flex-1 bg-border" />
+      </div>
+      {providers.map((provider) => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => {
+            window.location.href = authAPI.getOAuthStartUrl(provider.id, { returnTo });
+          }}
+        >
+          Continue with {provider.name}
+        </Button>
+      ))}
+    </div>
+  );
+}
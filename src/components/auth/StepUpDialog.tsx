@@ -0,0 +1,166 @@
+/**
+ * Step-Up Dialog
+ * Prompts staff to re-authenticate when the API refuses a sensitive change
+ * (refunds, roles, settings) with STEP_UP_REQUIRED, and points users whose role
+ * requires two-factor authentication to the setup page.
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ShieldCheck, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { authAPI, TWO_FACTOR_EVENT } from '@/services/api';
+
+type Prompt = 'STEP_UP_REQUIRED' | 'TWO_FACTOR_ENROLLMENT_REQUIRED';
+
+export default function StepUpDialog() {
+  const [prompt, setPrompt] = useState<Prompt | null>(null);
+  const [value, setValue] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const handler = (event: Event) => {
+      const code = (event as CustomEvent<{ code: Prompt }>).detail?.code;
+      setValue('');
+      setError('');
+      setUseRecoveryCode(false);
+      setPrompt(code || null);
+    };
+
+    window.addEventListener(TWO_FACTOR_EVENT, handler);
+    return () => window.removeEventListener(TWO_FACTOR_EVENT, handler);
+  }, []);
+
+  const usesPassword = !user?.twoFactorEnabled;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const input = value.trim();
+      await authAPI.stepUp(
+        usesPassword ? { password: value } : useRecoveryCode ? { recoveryCode: input } : { code: input }
+      );
+      setPrompt(null);
+      toast({
+        title: 'Identity confirmed',
+        description: 'Please repeat the action you were taking.'
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      setValue('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (prompt === 'TWO_FACTOR_ENROLLMENT_REQUIRED') {
+    return (
+      <Dialog open onOpenChange={(open) => !open && setPrompt(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Two-factor authentication required
+            </DialogTitle>
+            <DialogDescription>
+              Your role requires two-factor authentication. Set up an authenticator app to continue
+              using admin features.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPrompt(null)}>Later</Button>
+            <Button
+              onClick={() => {
+                setPrompt(null);
+                navigate('/profile?tab=settings');
+              }}
+            >
+              Set up now
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog open={prompt === 'STEP_UP_REQUIRED'} onOpenChange={(open) => !open && setPrompt(null)}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Confirm it's you
+            </DialogTitle>
+            <DialogDescription>
+              {usesPassword
+                ? 'This change needs a recent sign-in. Enter your password to continue.'
+                : useRecoveryCode
+                  ? 'This change needs a recent sign-in. Enter one of your recovery codes.'
+                  : 'This change needs a recent sign-in. Enter the code from your authenticator app.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="step-up-value">
+              {usesPassword ? 'Password' : useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+            </Label>
+            <Input
+              id="step-up-value"
+              type={usesPassword ? 'password' : 'text'}
+              inputMode={usesPassword || useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete={usesPassword ? 'current-password' : 'one-time-code'}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              autoFocus
+              required
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            {!usesPassword && (
+              <button
+                type="button"
+                className="text-sm text-primary hover:underline"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setValue('');
+                  setError('');
+                }}
+              >
+                {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+              </button>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPrompt(null)}>Cancel</Button>
+            <Button type="submit" disabled={submitting || !value}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
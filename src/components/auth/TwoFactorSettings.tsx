@@ -0,0 +1,299 @@
+/**
+ * Two-Factor Settings
+ * Authenticator app enrolment (QR code + confirmation code), recovery codes and
+ * disabling 2FA, for the account settings page
+ */
+
+import { useEffect, useState } from 'react';
+import { ShieldCheck, Loader2, Copy, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { authAPI, TwoFactorEnrolment, TwoFactorStatus } from '@/services/api';
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrolment, setEnrolment] = useState<TwoFactorEnrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirmCode, setConfirmCode] = useState('');
+  const [regenerateCode, setRegenerateCode] = useState('');
+  const [disableForm, setDisableForm] = useState({ password: '', code: '' });
+  const [showDisable, setShowDisable] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const { refreshUser } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchStatus = async () => {
+    setLoading(true);
+    try {
+      const response = await authAPI.getTwoFactorStatus();
+      setStatus(response.data);
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSetup = async () => {
+    setBusy(true);
+    try {
+      const response = await authAPI.setupTwoFactor();
+      setEnrolment(response.data);
+      setConfirmCode('');
+    } catch (error) {
+      showError(error, 'Failed to start two-factor setup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = async () => {
+    setBusy(true);
+    try {
+      const response = await authAPI.enableTwoFactor(confirmCode.trim());
+      setRecoveryCodes(response.data.recoveryCodes);
+      setEnrolment(null);
+      toast({ title: 'Two-factor authentication enabled' });
+      await Promise.all([fetchStatus(), refreshUser()]);
+    } catch (error) {
+      showError(error, 'Failed to enable two-factor authentication');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setBusy(true);
+    try {
+      const response = await authAPI.regenerateRecoveryCodes(regenerateCode.trim());
+      setRecoveryCodes(response.data.recoveryCodes);
+      setRegenerateCode('');
+      toast({ title: 'New recovery codes generated' });
+      await fetchStatus();
+    } catch (error) {
+      showError(error, 'Failed to regenerate recovery codes');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+    try {
+      await authAPI.disableTwoFactor({ password: disableForm.password, code: disableForm.code.trim() });
+      setDisableForm({ password: '', code: '' });
+      setShowDisable(false);
+      setRecoveryCodes(null);
+      toast({ title: 'Two-factor authentication disabled' });
+      await Promise.all([fetchStatus(), refreshUser()]);
+    } catch (error) {
+      showError(error, 'Failed to disable two-factor authentication');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({ title: 'Recovery codes copied' });
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`SimFab recovery codes\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'simfab-recovery-codes.txt';
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Protect your account with a code from an authenticator app each time you sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !status ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {status?.required && !status.enabled && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  Your role requires two-factor authentication. Admin features stay locked until you set it up.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {recoveryCodes && (
+              <div className="space-y-3 border rounded-lg p-4">
+                <div>
+                  <p className="font-medium">Save your recovery codes</p>
+                  <p className="text-sm text-muted-foreground">
+                    Each code signs you in once if you lose your authenticator. They will not be shown again.
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map(code => <span key={code}>{code}</span>)}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={copyRecoveryCodes}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={downloadRecoveryCodes}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download
+                  </Button>
+                  <Button size="sm" onClick={() => setRecoveryCodes(null)}>I've saved them</Button>
+                </div>
+              </div>
+            )}
+
+            {!status?.enabled && !enrolment && (
+              <Button onClick={handleSetup} disabled={busy}>
+                {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Set up authenticator app
+              </Button>
+            )}
+
+            {enrolment && (
+              <div className="space-y-4 border rounded-lg p-4">
+                <p className="text-sm">
+                  Scan this QR code with Google Authenticator, 1Password, Authy or a similar app, then enter the
+                  6-digit code it shows.
+                </p>
+                <img src={enrolment.qrCode} alt="Authenticator QR code" className="w-48 h-48" />
+                <div className="text-sm">
+                  <span className="text-muted-foreground">Can't scan? Enter this key: </span>
+                  <span className="font-mono break-all">{enrolment.secret}</span>
+                </div>
+                <div className="flex gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="two-factor-confirm">Code</Label>
+                    <Input
+                      id="two-factor-confirm"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      placeholder="123456"
+                      className="w-32"
+                      value={confirmCode}
+                      onChange={(e) => setConfirmCode(e.target.value)}
+                    />
+                  </div>
+                  <Button onClick={handleEnable} disabled={busy || !confirmCode.trim()}>
+                    {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Enable
+                  </Button>
+                  <Button variant="ghost" onClick={() => setEnrolment(null)}>Cancel</Button>
+                </div>
+              </div>
+            )}
+
+            {status?.enabled && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+                </p>
+                <div className="flex gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="two-factor-regenerate">Authenticator code</Label>
+                    <Input
+                      id="two-factor-regenerate"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      placeholder="123456"
+                      className="w-32"
+                      value={regenerateCode}
+                      onChange={(e) => setRegenerateCode(e.target.value)}
+                    />
+                  </div>
+                  <Button variant="outline" onClick={handleRegenerate} disabled={busy || !regenerateCode.trim()}>
+                    New recovery codes
+                  </Button>
+                </div>
+
+                {!status.required && (
+                  showDisable ? (
+                    <div className="space-y-3 border rounded-lg p-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <Label htmlFor="two-factor-disable-password">Password</Label>
+                          <Input
+                            id="two-factor-disable-password"
+                            type="password"
+                            autoComplete="current-password"
+                            value={disableForm.password}
+                            onChange={(e) => setDisableForm({ ...disableForm, password: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="two-factor-disable-code">Authenticator code</Label>
+                          <Input
+                            id="two-factor-disable-code"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            value={disableForm.code}
+                            onChange={(e) => setDisableForm({ ...disableForm, code: e.target.value })}
+                          />
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="destructive"
+                          onClick={handleDisable}
+                          disabled={busy || !disableForm.password || !disableForm.code.trim()}
+                        >
+                          Turn off two-factor authentication
+                        </Button>
+                        <Button variant="ghost" onClick={() => setShowDisable(false)}>Cancel</Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <Button variant="ghost" className="text-destructive" onClick={() => setShowDisable(true)}>
+                      Turn off
+                    </Button>
+                  )
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { BookUser, Check } from 'lucide-react';
+import { Address, isAddressSaved } from '@/contexts/CheckoutContext';
+import { SavedAddress } from '@/services/api';
+
+interface SavedAddressSelectorProps {
+  addresses: SavedAddress[];
+  currentAddress: Address;
+  onSelect: (address: SavedAddress) => void;
+}
+
+export const SavedAddressSelector: React.FC<SavedAddressSelectorProps> = ({
+  addresses,
+  currentAddress,
+  onSelect
+}) => {
+  if (addresses.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookUser className="h-5 w-5" />
+          Saved Addresses
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {addresses.map((address) => {
+            const selected = isAddressSaved(currentAddress, [address]);
+            return (
+              <button
+                key={address.id}
+                type="button"
+                onClick={() => onSelect(address)}
+                className={`text-left border rounded-md p-3 text-sm transition-colors hover:bg-accent ${selected ? 'border-primary' : 'border-border'}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium">{address.first_name} {address.last_name}</span>
+                  <div className="flex items-center gap-1">
+                    {address.is_default && <Badge variant="secondary">Default {address.type}</Badge>}
+                    {selected && <Check className="h-4 w-4 text-primary" />}
+                  </div>
+                </div>
+                <p className="text-muted-foreground">
+                  {address.address_line_1}{address.address_line_2 ? `, ${address.address_line_2}` : ''}
+                </p>
+                <p className="text-muted-foreground">
+                  {address.city}, {address.state} {address.postal_code}, {address.country}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
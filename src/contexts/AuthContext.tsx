@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { authAPI, User } from '@/services/api';
+import { authAPI, User, TwoFactorChallenge } from '@/services/api';
 import { useToast } from '@/hooks/use-toast';
 import { linkSessionToUser } from '@/utils/analytics';
 import { initFacebookPixel } from '@/utils/facebookPixel';
@@ -12,7 +12,8 @@ interface AuthContextType {
   hasAuthority: (authority: string) => boolean;
   hasAnyAuthority: (...authorities: string[]) => boolean;
   hasAllAuthorities: (...authorities: string[]) => boolean;
-  login: (email: string, password: string, rememberMe?: boolean) => Promise<void>;
+  login: (email: string, password: string, rememberMe?: boolean) => Promise<{ twoFactorRequired: boolean }>;
+  verifyTwoFactor: (challenge: TwoFactorChallenge) => Promise<void>;
   register: (data: any) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
@@ -94,43 +95,54 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, [checkAuth]);
 
+  // Shared by both login steps once the session is established
+  const handleLoggedIn = useCallback(async (loggedInUser: User) => {
+    setUser(loggedInUser);
+
+    // Link analytics session to user
+    try {
+      await linkSessionToUser();
+    } catch (analyticsError) {
+      console.warn('Failed to link analytics session:', analyticsError);
+    }
+
+    // Set GTM user_id for tracking
+    if (loggedInUser.id) {
+      setUserId(loggedInUser.id);
+    }
+
+    // Reinitialize Facebook Pixel with user data for advanced matching
+    try {
+      await initFacebookPixel({
+        email: loggedInUser.email,
+        phone: loggedInUser.phone,
+        firstName: loggedInUser.firstName,
+        lastName: loggedInUser.lastName,
+        externalId: loggedInUser.id?.toString(),
+      });
+    } catch (pixelError) {
+      console.warn('Failed to initialize Facebook Pixel with user data:', pixelError);
+    }
+
+    toast({
+      title: 'Welcome back!',
+      description: `Logged in as ${loggedInUser.email}`,
+    });
+  }, [toast]);
+
   const login = useCallback(async (email: string, password: string, rememberMe = false) => {
     try {
       console.log('Attempting login...');
       const response = await authAPI.login({ email, password, rememberMe });
-      console.log('Login successful:', response.data.user);
-      const loggedInUser = response.data.user;
-      setUser(loggedInUser);
-      
-      // Link analytics session to user
-      try {
-        await linkSessionToUser();
-      } catch (analyticsError) {
-        console.warn('Failed to link analytics session:', analyticsError);
-      }
-      
-      // Set GTM user_id for tracking
-      if (loggedInUser.id) {
-        setUserId(loggedInUser.id);
-      }
 
-      // Reinitialize Facebook Pixel with user data for advanced matching
-      try {
-        await initFacebookPixel({
-          email: loggedInUser.email,
-          phone: loggedInUser.phone,
-          firstName: loggedInUser.firstName,
-          lastName: loggedInUser.lastName,
-          externalId: loggedInUser.id?.toString(),
-        });
-      } catch (pixelError) {
-        console.warn('Failed to initialize Facebook Pixel with user data:', pixelError);
+      // Password accepted; the caller asks for the authenticator code next
+      if (response.data.twoFactorRequired || !response.data.user) {
+        return { twoFactorRequired: true };
       }
-      
-      toast({
-        title: 'Welcome back!',
-        description: `Logged in as ${loggedInUser.email}`,
-      });
+
+      console.log('Login successful:', response.data.user);
+      await handleLoggedIn(response.data.user);
+      return { twoFactorRequired: false };
     } catch (error) {
       console.log('Login failed:', error);
       const message = error instanceof Error ? error.message : 'Login failed';
@@ -141,7 +153,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       });
       throw error;
     }
-  }, [toast]);
+  }, [toast, handleLoggedIn]);
+
+  const verifyTwoFactor = useCallback(async (challenge: TwoFactorChallenge) => {
+    const response = await authAPI.verifyLoginTwoFactor(challenge);
+    if (!response.data.user) {
+      throw new Error('Login failed');
+    }
+    await handleLoggedIn(response.data.user);
+  }, [handleLoggedIn]);
 
   const register = useCallback(async (data: any) => {
     try {
@@ -235,11 +255,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       hasAnyAuthority,
       hasAllAuthorities,
       login,
+      verifyTwoFactor,
       register,
       logout,
       refreshUser,
     };
-  }, [user, loading, hasAuthority, hasAnyAuthority, hasAllAuthorities, login, register, logout, refreshUser]);
+  }, [user, loading, hasAuthority, hasAnyAuthority, hasAllAuthorities, login, verifyTwoFactor, register, logout, refreshUser]);
 
   return (
     <AuthContext.Provider value={contextValue}>
@@ -36,6 +36,7 @@ interface CartTotals {
   total: number;
   currency: string;
   itemCount: number;
+  pricesIncludeTax?: boolean;
 }
 
 interface Cart {
@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { addressAPI, SavedAddress, SavedAddressType } from '@/services/api';
 
 export interface Address {
   firstName: string;
@@ -32,6 +34,14 @@ interface CheckoutContextType {
   clearStorage: () => void;
   saveToStorage: () => void;
   loadFromStorage: () => void;
+  // Address book
+  savedAddresses: SavedAddress[];
+  refreshSavedAddresses: () => Promise<void>;
+  applySavedAddress: (address: SavedAddress) => void;
+  saveAddressToBook: (address: Address, type?: SavedAddressType) => Promise<SavedAddress>;
+  // Address used by the last placed order, offered for saving on the confirmation page
+  unsavedOrderAddress: Address | null;
+  setUnsavedOrderAddress: (address: Address | null) => void;
 }
 
 const defaultCheckoutState: CheckoutState = {
@@ -69,6 +79,39 @@ const defaultCheckoutState: CheckoutState = {
   orderCartSignature: null
 };
 
+const isAddressEmpty = (address: Address) => !address.addressLine1 && !address.postalCode;
+
+/**
+ * Convert a saved address book entry to the checkout address shape
+ */
+export const savedAddressToCheckoutAddress = (saved: SavedAddress, email: string): Address => ({
+  firstName: saved.first_name,
+  lastName: saved.last_name,
+  company: saved.company || '',
+  addressLine1: saved.address_line_1,
+  addressLine2: saved.address_line_2 || '',
+  city: saved.city,
+  state: saved.state,
+  postalCode: saved.postal_code,
+  country: saved.country,
+  phone: saved.phone || '',
+  email
+});
+
+/**
+ * Check whether a checkout address is already in the address book
+ */
+export const isAddressSaved = (address: Address, savedAddresses: SavedAddress[]) => {
+  const normalize = (value?: string | null) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+  return savedAddresses.some(saved =>
+    normalize(saved.address_line_1) === normalize(address.addressLine1) &&
+    normalize(saved.address_line_2) === normalize(address.addressLine2) &&
+    normalize(saved.city) === normalize(address.city) &&
+    normalize(saved.postal_code).replace(/ /g, '') === normalize(address.postalCode).replace(/ /g, '') &&
+    saved.country === address.country
+  );
+};
+
 export const CheckoutContext = createContext<CheckoutContextType | undefined>(undefined);
 
 export const useCheckout = () => {
@@ -85,6 +128,9 @@ interface CheckoutProviderProps {
 
 export const CheckoutProvider: React.FC<CheckoutProviderProps> = ({ children }) => {
   const [checkoutState, setCheckoutState] = useState<CheckoutState>(defaultCheckoutState);
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  const [unsavedOrderAddress, setUnsavedOrderAddress] = useState<Address | null>(null);
+  const { user } = useAuth();
   
   // Use ref to track latest state to prevent infinite loops in useEffect
   const checkoutStateRef = useRef<CheckoutState>(checkoutState);
@@ -185,6 +231,82 @@ export const CheckoutProvider: React.FC<CheckoutProviderProps> = ({ children })
     localStorage.removeItem('checkout-state');
   }, []);
 
+  const refreshSavedAddresses = useCallback(async () => {
+    if (!user) {
+      setSavedAddresses([]);
+      return;
+    }
+    try {
+      const response = await addressAPI.getAddresses();
+      setSavedAddresses(response.data);
+    } catch (error) {
+      console.error('Failed to load saved addresses:', error);
+    }
+  }, [user]);
+
+  // Load the address book when a user logs in, clear it on logout
+  useEffect(() => {
+    refreshSavedAddresses();
+  }, [refreshSavedAddresses]);
+
+  // Preselect default addresses when checkout has no address entered yet
+  const hasPreselectedAddress = useRef(false);
+  useEffect(() => {
+    if (hasPreselectedAddress.current || savedAddresses.length === 0 || !user) {
+      return;
+    }
+    hasPreselectedAddress.current = true;
+
+    const current = checkoutStateRef.current;
+    const email = current.shippingAddress.email || user.email;
+    const defaultShipping = savedAddresses.find(a => a.type === 'shipping' && a.is_default);
+    const defaultBilling = savedAddresses.find(a => a.type === 'billing' && a.is_default);
+
+    if (defaultShipping && isAddressEmpty(current.shippingAddress)) {
+      updateCheckoutState({ shippingAddress: savedAddressToCheckoutAddress(defaultShipping, email) });
+    }
+    if (defaultBilling && !current.isBillingSameAsShipping && isAddressEmpty(current.billingAddress)) {
+      updateCheckoutState({ billingAddress: savedAddressToCheckoutAddress(defaultBilling, email) });
+    }
+  }, [savedAddresses, user, updateCheckoutState]);
+
+  useEffect(() => {
+    if (!user) {
+      hasPreselectedAddress.current = false;
+    }
+  }, [user]);
+
+  const applySavedAddress = useCallback((address: SavedAddress) => {
+    const current = checkoutStateRef.current;
+    const email = (address.type === 'billing' ? current.billingAddress.email : current.shippingAddress.email) || user?.email || '';
+    const mapped = savedAddressToCheckoutAddress(address, email);
+
+    if (address.type === 'billing') {
+      updateCheckoutState({ billingAddress: mapped, isBillingSameAsShipping: false });
+    } else {
+      // Shipping rates depend on the address, so force a new selection
+      updateCheckoutState({ shippingAddress: mapped, selectedShipping: '' });
+    }
+  }, [user, updateCheckoutState]);
+
+  const saveAddressToBook = useCallback(async (address: Address, type: SavedAddressType = 'shipping') => {
+    const response = await addressAPI.createAddress({
+      type,
+      first_name: address.firstName,
+      last_name: address.lastName,
+      company: address.company || null,
+      address_line_1: address.addressLine1,
+      address_line_2: address.addressLine2 || null,
+      city: address.city,
+      state: address.state,
+      postal_code: address.postalCode,
+      country: address.country,
+      phone: address.phone || null
+    });
+    await refreshSavedAddresses();
+    return response.data;
+  }, [refreshSavedAddresses]);
+
   // Memoize context value to prevent unnecessary re-renders
   const value = useMemo<CheckoutContextType>(() => {
     return {
@@ -193,9 +315,27 @@ export const CheckoutProvider: React.FC<CheckoutProviderProps> = ({ children })
       resetCheckoutState,
       clearStorage,
       saveToStorage,
-      loadFromStorage
+      loadFromStorage,
+      savedAddresses,
+      refreshSavedAddresses,
+      applySavedAddress,
+      saveAddressToBook,
+      unsavedOrderAddress,
+      setUnsavedOrderAddress
     };
-  }, [checkoutState, updateCheckoutState, resetCheckoutState, clearStorage, saveToStorage, loadFromStorage]);
+  }, [
+    checkoutState,
+    updateCheckoutState,
+    resetCheckoutState,
+    clearStorage,
+    saveToStorage,
+    loadFromStorage,
+    savedAddresses,
+    refreshSavedAddresses,
+    applySavedAddress,
+    saveAddressToBook,
+    unsavedOrderAddress
+  ]);
 
   return (
     <CheckoutContext.Provider value={value}>
@@ -0,0 +1,158 @@
+/**
+ * Compare Context
+ * Compare tray state (up to 4 products), kept per session and on the account when logged in
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { compareAPI, CompareList, CompareTrayProduct } from '@/services/api';
+import { useToast } from '@/hooks/use-toast';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CompareContextType {
+  products: CompareTrayProduct[];
+  compareIds: number[];
+  maxProducts: number;
+  loading: boolean;
+  addToCompare: (productId: number) => Promise<void>;
+  removeFromCompare: (productId: number) => Promise<void>;
+  clearCompare: () => Promise<void>;
+  isInCompare: (productId: number) => boolean;
+  refreshCompare: () => Promise<void>;
+}
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+const DEFAULT_MAX_PRODUCTS = 4;
+
+const CompareContext = createContext<CompareContextType | undefined>(undefined);
+
+export const useCompare = () => {
+  const context = useContext(CompareContext);
+  if (!context) {
+    throw new Error('useCompare must be used within CompareProvider');
+  }
+  return context;
+};
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export const CompareProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [list, setList] = useState<CompareList | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  /**
+   * Fetch compare tray from API
+   */
+  const fetchCompare = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await compareAPI.getList();
+      setList(response.data);
+    } catch (error) {
+      console.error('Failed to fetch compare list:', error);
+      setList(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Add product to compare tray
+   */
+  const addToCompare = useCallback(async (productId: number): Promise<void> => {
+    try {
+      const response = await compareAPI.addProduct(productId);
+      setList(response.data);
+      toast({
+        title: 'Added to compare',
+        description: `${response.data.product_ids.length} of ${response.data.max_products} products selected`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add to compare',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  }, [toast]);
+
+  /**
+   * Remove product from compare tray
+   */
+  const removeFromCompare = useCallback(async (productId: number): Promise<void> => {
+    try {
+      const response = await compareAPI.removeProduct(productId);
+      setList(response.data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove from compare',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  }, [toast]);
+
+  /**
+   * Empty compare tray
+   */
+  const clearCompare = useCallback(async (): Promise<void> => {
+    try {
+      await compareAPI.clear();
+      setList((current) => current ? { ...current, product_ids: [], products: [] } : current);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to clear compare list',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  const compareIds = useMemo(() => list?.product_ids || [], [list]);
+
+  const isInCompare = useCallback((productId: number): boolean => {
+    return compareIds.includes(productId);
+  }, [compareIds]);
+
+  // Refetch on login/logout: the server moves a guest tray to the account
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      fetchCompare();
+    }, 0);
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [fetchCompare, isAuthenticated]);
+
+  const contextValue = useMemo(() => {
+    return {
+      products: list?.products || [],
+      compareIds,
+      maxProducts: list?.max_products || DEFAULT_MAX_PRODUCTS,
+      loading,
+      addToCompare,
+      removeFromCompare,
+      clearCompare,
+      isInCompare,
+      refreshCompare: fetchCompare,
+    };
+  }, [list, compareIds, loading, addToCompare, removeFromCompare, clearCompare, isInCompare, fetchCompare]);
+
+  return (
+    <CompareContext.Provider value={contextValue}>
+      {children}
+    </CompareContext.Provider>
+  );
+};
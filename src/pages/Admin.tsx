@@ -42,7 +42,13 @@ import {
   Truck,
   RotateCcw,
   Megaphone,
-  Download
+  Download,
+  Percent,
+  Warehouse,
+  ClipboardList,
+  BellRing,
+  ScrollText,
+  SlidersHorizontal
 } from 'lucide-react';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
@@ -86,7 +92,18 @@ import ShippingQuotes from '@/components/admin/ShippingQuotes';
 import { AnalyticsDashboard } from '@/components/admin/analytics/AnalyticsDashboard';
 import AssemblyManualsManagement from '@/components/admin/AssemblyManualsManagement';
 import SettingsTab from '@/components/admin/SettingsTab';
-import { adminVariationsAPI, VariationWithOptions, CreateVariationDto, UpdateVariationDto, siteNoticeAPI, SiteNotice, marketingCampaignAPI, MarketingCampaign, CampaignStats } from '@/services/api';
+import ReviewModerationTab from '@/components/admin/ReviewModerationTab';
+import TaxRulesTab from '@/components/admin/TaxRulesTab';
+import ShippingZonesTab from '@/components/admin/ShippingZonesTab';
+import WarehousesTab from '@/components/admin/WarehousesTab';
+import PurchasingTab from '@/components/admin/PurchasingTab';
+import StockAlertsTab from '@/components/admin/StockAlertsTab';
+import SearchSynonymsTab from '@/components/admin/SearchSynonymsTab';
+import SearchAnalyticsTab from '@/components/admin/SearchAnalyticsTab';
+import SearchRedirectsTab from '@/components/admin/SearchRedirectsTab';
+import ProductAttributesTab from '@/components/admin/ProductAttributesTab';
+import AuditLogTab from '@/components/admin/AuditLogTab';
+import { adminVariationsAPI, VariationWithOptions, CreateVariationDto, UpdateVariationDto, siteNoticeAPI, SiteNotice, marketingCampaignAPI, MarketingCampaign, CampaignStats, orderStatusAPI, OrderStatus, ORDER_STATUS_TRANSITIONS, getOrderStatusLabel } from '@/services/api';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -222,6 +239,7 @@ const Admin = () => {
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [orderRegionFilter, setOrderRegionFilter] = useState<string>('all'); // 'all', 'us', 'eu' - for orders
   const [orderCouponFilter, setOrderCouponFilter] = useState<string>('all'); // 'all' or coupon ID
+  const [orderBackorderFilter, setOrderBackorderFilter] = useState<string>('all'); // 'all' or 'blocked'
   const [coupons, setCoupons] = useState<any[]>([]); // For coupon filter dropdown
 
   // Product form state
@@ -351,7 +369,7 @@ const Admin = () => {
       fetchEligibleCount();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeTab, orderRegionFilter, orderCouponFilter, categoryFilter]);
+  }, [activeTab, orderRegionFilter, orderCouponFilter, orderBackorderFilter, categoryFilter]);
 
   const fetchDashboardStats = async () => {
     try {
@@ -443,6 +461,9 @@ const Admin = () => {
       if (orderCouponFilter && orderCouponFilter !== 'all') {
         params.append('coupon_id', orderCouponFilter);
       }
+      if (orderBackorderFilter === 'blocked') {
+        params.append('backorder', 'blocked');
+      }
       const response = await fetch(`${API_URL}/api/admin/orders?${params.toString()}`, {
         credentials: 'include'
       });
@@ -1282,25 +1303,24 @@ const Admin = () => {
     setEditingVariation(null);
   };
 
-  const handleUpdateOrderStatus = async (orderId: number, status: string) => {
-    try {
-      const response = await fetch(`${API_URL}/api/admin/orders/${orderId}/status`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ status })
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        toast({ title: 'Order status updated' });
-        fetchOrders();
+  const handleUpdateOrderStatus = async (orderId: number, status: OrderStatus) => {
+    let reason: string | undefined;
+    if (status === 'cancelled') {
+      const input = prompt('Reason for cancelling this order (sent to the customer):');
+      if (input === null) {
+        return;
       }
+      reason = input.trim() || undefined;
+    }
+
+    try {
+      await orderStatusAPI.updateStatus(orderId, status, reason);
+      toast({ title: 'Order status updated' });
+      fetchOrders();
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to update order status',
+        description: error instanceof Error ? error.message : 'Failed to update order status',
         variant: 'destructive'
       });
     }
@@ -1624,6 +1644,150 @@ const Admin = () => {
                   </Card>
                 </PermittedFor>
 
+                {/* Reviews Card - Moderation */}
+                <PermittedFor authority="reviews:moderate">
+                  <Card
+                    className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
+                    onClick={() => setActiveTab('reviews')}
+                  >
+                    <CardContent className="p-6 flex flex-col items-center justify-center min-h-[200px]">
+                      <Star className="h-12 w-12 text-primary mb-4" />
+                      <CardTitle className="text-xl font-bold mb-2">Reviews</CardTitle>
+                      <p className="text-sm text-muted-foreground text-center">
+                        Moderate customer product reviews
+                      </p>
+                    </CardContent>
+                  </Card>
+                </PermittedFor>
+
+                {/* Taxes Card - Configuration */}
+                <PermittedFor authority="tax:manage">
+                  <Card
+                    className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
+                    onClick={() => setActiveTab('taxes')}
+                  >
+                    <CardContent className="p-6 flex flex-col items-center justify-center min-h-[200px]">
+                      <Percent className="h-12 w-12 text-primary mb-4" />
+                      <CardTitle className="text-xl font-bold mb-2">Taxes</CardTitle>
+                      <p className="text-sm text-muted-foreground text-center">
+                        Manage tax rates, EU VAT and tax-inclusive pricing
+                      </p>
+                    </CardContent>
+                  </Card>
+                </PermittedFor>
+
+                {/* Shipping Card - Configuration */}
+                <PermittedFor authority="shipping:manage">
+                  <Card
+                    className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
+                    onClick={() => setActiveTab('shipping-zones')}
+                  >
+                    <CardContent className="p-6 flex flex-col items-center justify-center min-h-[200px]">
+                      <Truck className="h-12 w-12 text-primary mb-4" />
+                      <CardTitle className="text-xl font-bold mb-2">Shipping</CardTitle>
+                      <p className="text-sm text-muted-foreground text-center">
+                        Manage shipping zones, methods and rate tables
+                      </p>
+                    </CardContent>
+                  </Card>
+                </PermittedFor>
+
+                {/* Warehouses Card - Inventory Locations */}
+                <PermittedFor authority="inventory:manage">
+                  <Card
+                    className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
+                    onClick={() => setActiveTab('warehouses')}
+                  >
+                    <CardContent className="p-6 flex flex-col items-center justify-center min-h-[200px]">
+                      <Warehouse className="h-12 w-12 text-primary mb-4" />
+                      <CardTitle className="text-xl font-bold mb-2">Warehouses</CardTitle>
+                      <p className="text-sm text-muted-foreground text-center">
+                        Manage fulfilment locations and stock transfers
+                      </p>
+                    </CardContent>
+                  </Card>
+                </PermittedFor>
+
+                {/* Purchasing Card - Suppliers & Purchase Orders */}
+                <PermittedFor authority="purchasing:view">
+                  <Card
+                    className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
+                    onClick={() => setActiveTab('purchasing')}
+                  >
+                    <CardContent className="p-6 flex flex-col items-center justify-center min-h-[200px]">
+                      <ClipboardList className="h-12 w-12 text-primary mb-4" />
+                      <CardTitle className="text-xl font-bold mb-2">Purchasing</CardTitle>
+                      <p className="text-sm text-muted-foreground text-center">
+                        Suppliers, purchase orders, receiving and margins
+                      </p>
+                    </CardContent>
+                  </Card>
+                </PermittedFor>
+
+                {/* Stock Alerts Card - Low & Out of Stock */}
+                <PermittedFor authority="products:view">
+                  <Card
+                    className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
+                    onClick={() => setActiveTab('stock-alerts')}
+                  >
+                    <CardContent className="p-6 flex flex-col items-center justify-center min-h-[200px]">
+                      <BellRing className="h-12 w-12 text-primary mb-4" />
+                      <CardTitle className="text-xl font-bold mb-2">Stock Alerts</CardTitle>
+                      <p className="text-sm text-muted-foreground text-center">
+                        Low and out-of-stock items with reorder suggestions
+                      </p>
+                    </CardContent>
+                  </Card>
+                </PermittedFor>
+
+                {/* Attributes Card - Catalog Filters */}
+                <PermittedFor authority="products:view">
+                  <Card
+                    className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
+                    onClick={() => setActiveTab('attributes')}
+                  >
+                    <CardContent className="p-6 flex flex-col items-center justify-center min-h-[200px]">
+                      <SlidersHorizontal className="h-12 w-12 text-primary mb-4" />
+                      <CardTitle className="text-xl font-bold mb-2">Attributes</CardTitle>
+                      <p className="text-sm text-muted-foreground text-center">
+                        Compatibility, material and size attributes used as shop filters
+                      </p>
+                    </CardContent>
+                  </Card>
+                </PermittedFor>
+
+                {/* Search Card - Search Analytics, Synonyms & Redirects */}
+                <PermittedFor authority="products:view">
+                  <Card
+                    className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
+                    onClick={() => setActiveTab('search')}
+                  >
+                    <CardContent className="p-6 flex flex-col items-center justify-center min-h-[200px]">
+                      <Search className="h-12 w-12 text-primary mb-4" />
+                      <CardTitle className="text-xl font-bold mb-2">Search</CardTitle>
+                      <p className="text-sm text-muted-foreground text-center">
+                        What customers search for, synonyms and redirects
+                      </p>
+                    </CardContent>
+                  </Card>
+                </PermittedFor>
+
+                {/* Audit Card - Admin Activity Log */}
+                <PermittedFor authority="audit:view">
+                  <Card
+                    className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
+                    onClick={() => setActiveTab('audit')}
+                  >
+                    <CardContent className="p-6 flex flex-col items-center justify-center min-h-[200px]">
+                      <ScrollText className="h-12 w-12 text-primary mb-4" />
+                      <CardTitle className="text-xl font-bold mb-2">Audit</CardTitle>
+                      <p className="text-sm text-muted-foreground text-center">
+                        Who changed what in the admin, with before and after values
+                      </p>
+                    </CardContent>
+                  </Card>
+                </PermittedFor>
+
                 {/* Analytics Card - Insights */}
                 <Card
                   className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:scale-105"
@@ -1892,6 +2056,15 @@ const Admin = () => {
                       )}
                     </SelectContent>
                   </Select>
+                  <Select value={orderBackorderFilter} onValueChange={setOrderBackorderFilter}>
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue placeholder="Filter by backorder" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Fulfilment</SelectItem>
+                      <SelectItem value="blocked">Blocked on Backorder</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
                 {loading ? (
                   <div className="flex justify-center py-12">
@@ -1955,6 +2128,11 @@ const Admin = () => {
                             </td>
                             <td className="py-3 px-2">
                               <Badge variant="outline">{order.item_count || 0}</Badge>
+                              {order.backordered_units > 0 && (
+                                <Badge variant="secondary" className="ml-1 text-xs">
+                                  {order.backordered_units} backordered
+                                </Badge>
+                              )}
                             </td>
                             <td className="py-3 px-2">
                               <span className="font-semibold">
@@ -1980,21 +2158,20 @@ const Admin = () => {
                             <td className="py-3 px-2" onClick={(e) => e.stopPropagation()}>
                               <PermittedFor 
                                 authority="orders:manage" 
-                                fallback={<Badge variant="outline">{order.status}</Badge>}
+                                fallback={<Badge variant="outline">{getOrderStatusLabel(order.status)}</Badge>}
                               >
                                 <Select
                                   value={order.status}
-                                  onValueChange={(value) => handleUpdateOrderStatus(order.id, value)}
+                                  onValueChange={(value: OrderStatus) => handleUpdateOrderStatus(order.id, value)}
                                 >
-                                  <SelectTrigger className="w-[140px]">
+                                  <SelectTrigger className="w-[160px]">
                                     <SelectValue />
                                   </SelectTrigger>
                                   <SelectContent>
-                                    <SelectItem value="pending">Pending</SelectItem>
-                                    <SelectItem value="processing">Processing</SelectItem>
-                                    <SelectItem value="shipped">Shipped</SelectItem>
-                                    <SelectItem value="delivered">Delivered</SelectItem>
-                                    <SelectItem value="cancelled">Cancelled</SelectItem>
+                                    <SelectItem value={order.status}>{getOrderStatusLabel(order.status)}</SelectItem>
+                                    {(ORDER_STATUS_TRANSITIONS[order.status as OrderStatus] || []).map(status => (
+                                      <SelectItem key={status} value={status}>{getOrderStatusLabel(status)}</SelectItem>
+                                    ))}
                                   </SelectContent>
                                 </Select>
                               </PermittedFor>
@@ -2851,6 +3028,84 @@ const Admin = () => {
             </PermittedFor>
           </TabsContent>
 
+          {/* Reviews Tab */}
+          <TabsContent value="reviews" className="space-y-6">
+            <PermittedFor authority="reviews:moderate">
+              <ReviewModerationTab />
+            </PermittedFor>
+          </TabsContent>
+
+          {/* Taxes Tab */}
+          <TabsContent value="taxes" className="space-y-6 pb-24">
+            <PermittedFor authority="tax:manage">
+              <TaxRulesTab />
+            </PermittedFor>
+          </TabsContent>
+
+          {/* Shipping Zones Tab */}
+          <TabsContent value="shipping-zones" className="space-y-6 pb-24">
+            <PermittedFor authority="shipping:manage">
+              <ShippingZonesTab />
+            </PermittedFor>
+          </TabsContent>
+
+          {/* Warehouses Tab */}
+          <TabsContent value="warehouses" className="space-y-6 pb-24">
+            <PermittedFor authority="inventory:manage">
+              <WarehousesTab />
+            </PermittedFor>
+          </TabsContent>
+
+          {/* Purchasing Tab */}
+          <TabsContent value="purchasing" className="space-y-6 pb-24">
+            <PermittedFor authority="purchasing:view">
+              <PurchasingTab />
+            </PermittedFor>
+          </TabsContent>
+
+          {/* Stock Alerts Tab */}
+          <TabsContent value="stock-alerts" className="space-y-6 pb-24">
+            <PermittedFor authority="products:view">
+              <StockAlertsTab />
+            </PermittedFor>
+          </TabsContent>
+
+          {/* Attributes Tab */}
+          <TabsContent value="attributes" className="space-y-6 pb-24">
+            <PermittedFor authority="products:view">
+              <ProductAttributesTab />
+            </PermittedFor>
+          </TabsContent>
+
+          {/* Search Tab */}
+          <TabsContent value="search" className="space-y-6 pb-24">
+            <PermittedFor authority="products:view">
+              <Tabs defaultValue="analytics" className="space-y-6">
+                <TabsList>
+                  <TabsTrigger value="analytics">Analytics</TabsTrigger>
+                  <TabsTrigger value="synonyms">Synonyms</TabsTrigger>
+                  <TabsTrigger value="redirects">Redirects</TabsTrigger>
+                </TabsList>
+                <TabsContent value="analytics">
+                  <SearchAnalyticsTab />
+                </TabsContent>
+                <TabsContent value="synonyms">
+                  <SearchSynonymsTab />
+                </TabsContent>
+                <TabsContent value="redirects">
+                  <SearchRedirectsTab />
+                </TabsContent>
+              </Tabs>
+            </PermittedFor>
+          </TabsContent>
+
+          {/* Audit Tab */}
+          <TabsContent value="audit" className="space-y-6 pb-24">
+            <PermittedFor authority="audit:view">
+              <AuditLogTab />
+            </PermittedFor>
+          </TabsContent>
+
           {/* Error Logs Tab */}
           <TabsContent value="error-logs" className="space-y-6">
             <ErrorLogsTab />
@@ -3141,6 +3396,7 @@ const Admin = () => {
         order={selectedOrder}
         open={orderDetailsModalOpen}
         onClose={handleCloseOrderDetails}
+        onOrderChange={() => selectedOrder && handleViewOrderDetails(selectedOrder.id)}
       />
 
       {/* Coupon Form Dialog */}
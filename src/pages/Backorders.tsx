@@ -1,6 +1,17 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import Header from '@/components/Header';
+import { productsAPI, RestockEta } from '@/services/api';
 
 const Backorders = () => {
+  const [restockEtas, setRestockEtas] = useState<RestockEta[]>([]);
+
+  useEffect(() => {
+    productsAPI.getRestockEtas()
+      .then(response => setRestockEtas(response.data))
+      .catch(error => console.error('Error fetching restock dates:', error));
+  }, []);
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -113,6 +124,20 @@ const Backorders = () => {
                 <p className="text-base sm:text-lg text-foreground leading-relaxed">
                   We do our best to provide accurate restock dates, but please note that these are estimates and subject to change.
                 </p>
+                {restockEtas.length > 0 && (
+                  <ul className="mt-4 space-y-2">
+                    {restockEtas.map(eta => (
+                      <li key={eta.product_id} className="flex items-center justify-between gap-4 text-base">
+                        <Link to={`/product/${eta.slug}`} className="text-primary hover:underline">
+                          {eta.name}
+                        </Link>
+                        <span className="text-foreground/80">
+                          Expected {new Date(eta.restock_eta).toLocaleDateString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
               <div>
                 <h3 className="text-xl sm:text-2xl font-semibold text-foreground mb-3 sm:mb-4">
@@ -24,7 +24,7 @@ const Cart = () => {
 
   // Get cart data safely
   const items = cart?.items || [];
-  const totals = cart?.totals || { subtotal: 0, discount: 0, shipping: 0, tax: 0, total: 0, currency: 'USD', itemCount: 0 };
+  const totals = cart?.totals || { subtotal: 0, discount: 0, shipping: 0, tax: 0, total: 0, currency: 'USD', itemCount: 0, pricesIncludeTax: false };
   const currency = totals.currency === 'EUR' ? '€' : '$';
 
   // Track view_cart event when cart loads
@@ -344,7 +344,7 @@ const Cart = () => {
 
                   {totals.tax > 0 && (
                     <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Tax:</span>
+                      <span className="text-muted-foreground">{totals.pricesIncludeTax ? 'Includes VAT:' : 'Tax:'}</span>
                       <span className="font-medium">{currency}{totals.tax.toFixed(2)}</span>
                     </div>
                   )}
@@ -371,7 +371,7 @@ const Cart = () => {
                 {/* Shipping Info */}
                 <div className="mt-6 p-4 bg-muted rounded-lg">
                   <p className="text-xs text-muted-foreground text-center">
-                    Shipping & taxes calculated at checkout
+                    {totals.pricesIncludeTax ? 'Prices include VAT. Shipping calculated at checkout' : 'Shipping & taxes calculated at checkout'}
                   </p>
                 </div>
 
@@ -26,12 +26,13 @@ import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { useCheckout } from '@/contexts/CheckoutContext';
+import { useCheckout, isAddressSaved } from '@/contexts/CheckoutContext';
 import { useRegion } from '@/contexts/RegionContext';
 import { orderAPI, shippingAPI, ShippingMethod, cartAPI } from '@/services/api';
 import { useToast } from '@/hooks/use-toast';
 import PayPalProvider from '@/components/PayPalProvider';
 import { AddressForm } from '@/components/checkout/AddressForm';
+import { SavedAddressSelector } from '@/components/checkout/SavedAddressSelector';
 import PaymentStep from '@/components/checkout/PaymentStep';
 import { isEuropeanCountry } from '@/utils/europeanCountries';
 import { trackInitiateCheckout, trackAddPaymentInfo } from '@/utils/facebookPixel';
@@ -42,7 +43,14 @@ const Checkout = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const { cart, loading: cartLoading, applyCoupon, refreshCart, clearCart } = useCart();
   const { user } = useAuth();
-  const { checkoutState, updateCheckoutState, clearStorage } = useCheckout();
+  const {
+    checkoutState,
+    updateCheckoutState,
+    clearStorage,
+    savedAddresses,
+    applySavedAddress,
+    setUnsavedOrderAddress
+  } = useCheckout();
   const { region } = useRegion();
   const { toast } = useToast();
 
@@ -52,6 +60,8 @@ const Checkout = () => {
   const [applyingCoupon, setApplyingCoupon] = useState(false);
   const [shippingOptions, setShippingOptions] = useState<ShippingMethod[]>([]);
   const [loadingShipping, setLoadingShipping] = useState(false);
+  const [taxEstimate, setTaxEstimate] = useState<{ tax: number; pricesIncludeTax: boolean } | null>(null);
+  const [loadingTax, setLoadingTax] = useState(false);
   const [quoteRequested, setQuoteRequested] = useState(false);
   const [requestingQuote, setRequestingQuote] = useState(false);
 
@@ -132,7 +142,7 @@ const Checkout = () => {
 
   // Get cart data early so it's available for useEffects
   const items = cart?.items || [];
-  const totals = cart?.totals || { subtotal: 0, discount: 0, shipping: 0, tax: 0, total: 0, currency: 'USD', itemCount: 0 };
+  const totals = cart?.totals || { subtotal: 0, discount: 0, shipping: 0, tax: 0, total: 0, currency: 'USD', itemCount: 0, pricesIncludeTax: false };
   
   // Get currency symbol from cart totals
   const currency = totals.currency === 'EUR' ? '€' : '$';
@@ -311,7 +321,12 @@ const Checkout = () => {
         const cartItems = items.map(item => ({
           productId: item.product_id,
           quantity: item.quantity,
-          unitPrice: parseFloat(item.unit_price.toString())
+          unitPrice: parseFloat(item.unit_price.toString()),
+          // Selected options decide which boxes a product ships in
+          variationOptionIds: Object.values({
+            ...(item.configuration?.variations || {}),
+            ...(item.configuration?.dropdownSelections || {})
+          }).map(Number).filter(id => Number.isInteger(id) && id > 0)
         }));
 
         const response = await shippingAPI.calculateShipping({
@@ -359,7 +374,7 @@ const Checkout = () => {
           // auto-select the FedEx option instead
           if (selectedShipping === 'international_quote') {
             const fedExOption = response.data.shippingMethods.find(
-              opt => opt.id === 'international_fedex' && !opt.requiresManualQuote
+              opt => opt.carrier === 'FedEx' && !opt.requiresManualQuote
             );
             if (fedExOption) {
               console.log('FedEx rates available, auto-selecting FedEx option instead of quote');
@@ -658,7 +673,7 @@ const Checkout = () => {
         paymentMethodId: 'pending',
         orderNotes: orderNotes || '',
         shippingAmount: shippingAmount,
-        taxAmount: floridaTax,
+        taxAmount: taxAmount,
         shippingMethodData: selectedShippingMethod ? {
           fedexRateData: selectedShippingMethod.fedexRateData
         } : undefined
@@ -726,6 +741,11 @@ const Checkout = () => {
     
     // Capture order number before resetting state
     const orderNumber = createdOrder?.order_number;
+
+    // Offer to save a new shipping address on the confirmation page
+    if (user && !isAddressSaved(shippingAddress, savedAddresses)) {
+      setUnsavedOrderAddress({ ...shippingAddress });
+    }
     
     // Refresh cart to clear it from the UI
     await refreshCart();
@@ -854,18 +874,61 @@ const Checkout = () => {
     ? (shippingOptions.find(opt => opt.id === selectedShipping)?.cost || 0)
     : 0;
   
-  // Calculate Florida tax (6%) - only for US orders shipping to Florida
-  // Tax is calculated on the final price: subtotal - discount + shipping
+  // Tax comes from the server tax engine (destination, tax class, shipping taxability)
   // Only calculate if we have a complete shipping address AND we're on step 3+
-  const hasCompleteAddress = shippingAddress.country && shippingAddress.state;
-  // Handle both "Florida" (full name) and "FL" (abbreviation)
-  const isFloridaState = shippingAddress.state === 'FL' || shippingAddress.state === 'Florida';
-  const isFloridaOrder = hasCompleteAddress && shippingAddress.country === 'US' && isFloridaState;
-  const priceBeforeTax = totals.subtotal - totals.discount + shippingCost;
-  // Only calculate tax on step 3+ (shipping step and beyond)
-  const floridaTax = (step >= 3 && isFloridaOrder) 
-    ? Math.round(priceBeforeTax * 0.06 * 100) / 100 
-    : 0;
+  const hasCompleteAddress = Boolean(shippingAddress.country && shippingAddress.state);
+
+  useEffect(() => {
+    if (step < 3 || !hasCompleteAddress || loadingShipping) {
+      setTaxEstimate(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingTax(true);
+
+    cartAPI.estimateTax({
+      shippingAddress: {
+        country: shippingAddress.country,
+        state: shippingAddress.state,
+        postalCode: shippingAddress.postalCode
+      },
+      shippingAmount: shippingCost
+    })
+      .then((response) => {
+        if (!cancelled) {
+          setTaxEstimate({
+            tax: response.data.totals.tax,
+            pricesIncludeTax: response.data.totals.pricesIncludeTax
+          });
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to estimate tax:', error);
+        if (!cancelled) setTaxEstimate(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingTax(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    step,
+    hasCompleteAddress,
+    shippingAddress.country,
+    shippingAddress.state,
+    shippingAddress.postalCode,
+    shippingCost,
+    loadingShipping,
+    totals.subtotal,
+    totals.discount
+  ]);
+
+  const taxAmount = taxEstimate?.tax || 0;
+  // Tax-inclusive (EU VAT) prices already contain the tax, so it is shown but not added
+  const pricesIncludeTax = taxEstimate?.pricesIncludeTax ?? totals.pricesIncludeTax ?? false;
   
   // Calculate order total
   // CRITICAL: If we have a created order AND the cart signature matches, use its total_amount
@@ -893,9 +956,9 @@ const Checkout = () => {
   } else {
     // Calculate order total for display before order is created
     // On step 2 (address step): subtotal - discount only (no shipping, no tax)
-    // On step 3+: subtotal - discount + shipping + tax
+    // On step 3+: subtotal - discount + shipping + tax (unless prices include tax)
     orderTotal = step >= 3
-      ? Number((totals.subtotal - totals.discount + shippingCost + floridaTax) || 0)
+      ? Number((totals.subtotal - totals.discount + shippingCost + (pricesIncludeTax ? 0 : taxAmount)) || 0)
       : Number((totals.subtotal - totals.discount) || 0);
     
     // Ensure we have a valid number
@@ -1033,6 +1096,17 @@ const Checkout = () => {
               {/* Step 2: Shipping Address */}
               {step === 2 && (
                 <div className="space-y-6">
+                  <SavedAddressSelector
+                    addresses={savedAddresses.filter(address => address.type === 'shipping')}
+                    currentAddress={shippingAddress}
+                    onSelect={(address) => {
+                      applySavedAddress(address);
+                      if (quoteRequested) {
+                        setQuoteRequested(false);
+                      }
+                    }}
+                  />
+
                   <AddressForm
                     title="Shipping Address"
                     address={shippingAddress as any}
@@ -1513,17 +1587,17 @@ const Checkout = () => {
                             )}
                           </span>
                         </div>
-                        {(loadingShipping && isFloridaOrder) || floridaTax > 0 ? (
+                        {loadingTax || taxAmount > 0 ? (
                           <div className="flex justify-between text-sm">
-                            <span className="text-muted-foreground">Tax (FL 6%):</span>
+                            <span className="text-muted-foreground">{pricesIncludeTax ? 'Includes VAT:' : 'Tax:'}</span>
                             <span className="font-medium">
-                              {loadingShipping ? (
+                              {loadingShipping || loadingTax ? (
                                 <span className="flex items-center gap-1 text-muted-foreground">
                                   <Loader2 className="h-3 w-3 animate-spin" />
                                   Calculating...
                                 </span>
                               ) : (
-                                `${currency}${floridaTax.toFixed(2)}`
+                                `${currency}${taxAmount.toFixed(2)}`
                               )}
                             </span>
                           </div>
@@ -1535,7 +1609,7 @@ const Checkout = () => {
                       <div className="flex justify-between items-center">
                         <span className="font-bold">Total:</span>
                         <span className="text-xl font-bold text-primary">
-                          {loadingShipping && step >= 3 ? (
+                          {(loadingShipping || loadingTax) && step >= 3 ? (
                             <span className="flex items-center gap-2">
                               <Loader2 className="h-4 w-4 animate-spin" />
                               <span className="text-muted-foreground">Calculating...</span>
@@ -1550,6 +1624,7 @@ const Checkout = () => {
 
                   <div className="mt-4 pt-4 border-t border-border text-sm text-muted-foreground">
                     {totals.itemCount} item{totals.itemCount !== 1 ? 's' : ''} in your order
+                    {pricesIncludeTax && ' · Prices include VAT'}
                   </div>
                 </CardContent>
               </Card>
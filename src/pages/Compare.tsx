@@ -0,0 +1,323 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Loader2, Link2, Star, X } from 'lucide-react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useCompare } from '@/contexts/CompareContext';
+import { useToast } from '@/hooks/use-toast';
+import { useSEO } from '@/hooks/useSEO';
+import { getCanonicalUrl } from '@/utils/seo';
+import { formatPrice } from '@/utils/currency';
+import { compareAPI, ComparedProduct, ComparisonSpecRow, ProductComparison } from '@/services/api';
+import { getCompareUrl } from '@/components/CompareTray';
+
+const MAX_PRODUCTS = 4;
+
+// Shared links carry the products: /compare?products=12,34,56
+const parseProductIds = (value: string | null): number[] => {
+  if (!value) return [];
+  const ids = value.split(',').map((id) => parseInt(id, 10)).filter((id) => !isNaN(id) && id > 0);
+  return Array.from(new Set(ids)).slice(0, MAX_PRODUCTS);
+};
+
+const isSaleActive = (product: ComparedProduct) => {
+  if (!product.is_on_sale || product.sale_price === null) return false;
+
+  const now = new Date();
+  if (product.sale_start_date && now < new Date(product.sale_start_date)) return false;
+  if (product.sale_end_date && now > new Date(product.sale_end_date)) return false;
+
+  return true;
+};
+
+const SPEC_GROUPS: Array<{ group: ComparisonSpecRow['group']; title: string }> = [
+  { group: 'dimensions', title: 'Dimensions & Weight' },
+  { group: 'attributes', title: 'Specifications' }
+];
+
+const Compare = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { compareIds, loading: trayLoading, isInCompare, removeFromCompare } = useCompare();
+  const { toast } = useToast();
+  const [comparison, setComparison] = useState<ProductComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const productIds = parseProductIds(searchParams.get('products'));
+  const productKey = productIds.join(',');
+
+  const seoElement = useSEO({
+    title: 'Compare Products | SimFab',
+    description: 'Compare SimFab cockpits, monitor stands and accessories side by side: dimensions, specifications, bundle contents, prices and ratings.',
+    canonical: getCanonicalUrl('/compare'),
+    noindex: true
+  });
+
+  // Without products in the link, compare what is in the tray (and make the link shareable)
+  useEffect(() => {
+    if (productIds.length === 0 && !trayLoading && compareIds.length > 0) {
+      setSearchParams({ products: compareIds.join(',') }, { replace: true });
+    }
+  }, [productKey, trayLoading, compareIds]);
+
+  useEffect(() => {
+    if (productIds.length === 0) {
+      setComparison(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    compareAPI.compareProducts(productIds)
+      .then((response) => {
+        if (!cancelled) setComparison(response.data);
+      })
+      .catch((error) => {
+        console.error('Error loading comparison:', error);
+        if (!cancelled) {
+          setComparison(null);
+          toast({
+            title: 'Error',
+            description: error instanceof Error ? error.message : 'Failed to load comparison',
+            variant: 'destructive',
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productKey]);
+
+  const handleRemove = (productId: number) => {
+    const remaining = productIds.filter((id) => id !== productId);
+    setSearchParams(remaining.length > 0 ? { products: remaining.join(',') } : {});
+    if (isInCompare(productId)) {
+      removeFromCompare(productId).catch(() => {});
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${getCompareUrl(productIds)}`);
+      toast({
+        title: 'Copied!',
+        description: 'Comparison link copied to clipboard',
+      });
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to copy link',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderPrice = (product: ComparedProduct) => {
+    const { min, max } = product.price_range;
+    const range = min !== max
+      ? `${formatPrice(min, product.region)} – ${formatPrice(max, product.region)}`
+      : null;
+
+    return (
+      <div className="space-y-1">
+        {isSaleActive(product) ? (
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-destructive">{formatPrice(product.sale_price, product.region)}</span>
+            {product.regular_price !== null && (
+              <span className="text-sm line-through text-muted-foreground">
+                {formatPrice(product.regular_price, product.region)}
+              </span>
+            )}
+          </div>
+        ) : (
+          <span className="font-bold text-foreground">
+            {formatPrice(product.regular_price ?? product.price_min, product.region)}
+          </span>
+        )}
+        {range && <p className="text-xs text-muted-foreground">Configurations: {range}</p>}
+      </div>
+    );
+  };
+
+  const renderRating = (product: ComparedProduct) => {
+    if (product.rating.count === 0) {
+      return <span className="text-sm text-muted-foreground">No reviews yet</span>;
+    }
+    return (
+      <div className="flex items-center gap-1 text-sm">
+        <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+        <span className="font-medium text-foreground">{product.rating.average.toFixed(1)}</span>
+        <span className="text-muted-foreground">({product.rating.count})</span>
+      </div>
+    );
+  };
+
+  const renderBundle = (product: ComparedProduct) => {
+    if (product.bundle_items.length === 0) {
+      return <span className="text-sm text-muted-foreground">—</span>;
+    }
+    return (
+      <ul className="space-y-1 text-sm">
+        {product.bundle_items.map((item) => (
+          <li key={`${item.product_id}-${item.item_type}`} className="text-foreground">
+            {item.quantity > 1 && `${item.quantity} × `}
+            <Link to={`/product/${item.slug}`} className="hover:text-destructive">{item.name}</Link>
+            {item.item_type === 'optional' && <span className="text-muted-foreground"> (optional)</span>}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const products = comparison?.products || [];
+  const specs = (comparison?.specs || []).filter((spec) => !differencesOnly || spec.differs);
+  const hasBundles = products.some((product) => product.bundle_items.length > 0);
+  const columnWidth = products.length > 0 ? `${Math.floor(80 / products.length)}%` : undefined;
+
+  const renderRow = (label: string, render: (product: ComparedProduct) => ReactNode) => (
+    <tr className="border-b border-border align-top">
+      <th scope="row" className="py-3 pr-4 text-left text-sm font-medium text-muted-foreground w-1/5">{label}</th>
+      {products.map((product) => (
+        <td key={product.id} className="py-3 px-3" style={{ width: columnWidth }}>
+          {render(product)}
+        </td>
+      ))}
+    </tr>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {seoElement}
+      <Header />
+
+      <main className="container mx-auto px-4 pt-32 pb-20">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center mb-8 gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-destructive mb-2">Compare Products</h1>
+            <div className="w-39 h-1 bg-destructive"></div>
+          </div>
+
+          {products.length > 0 && (
+            <div className="flex items-center gap-4">
+              <div className="flex items-center space-x-2">
+                <Switch id="differences-only" checked={differencesOnly} onCheckedChange={setDifferencesOnly} />
+                <Label htmlFor="differences-only" className="text-sm cursor-pointer">Differences only</Label>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                <Link2 className="mr-2 h-4 w-4" />
+                Copy Link
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {loading || (trayLoading && productIds.length === 0) ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-12 w-12 animate-spin text-destructive" />
+          </div>
+        ) : products.length === 0 ? (
+          <div className="text-center py-20">
+            <p className="text-muted-foreground text-lg mb-4">
+              No products to compare. Use the compare button on products to add up to {MAX_PRODUCTS}.
+            </p>
+            <Link to="/shop">
+              <Button variant="outline">Browse Products</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[640px] border-collapse">
+              <thead>
+                <tr className="border-b border-border align-top">
+                  <th className="w-1/5" />
+                  {products.map((product) => (
+                    <th key={product.id} className="pb-4 px-3 text-left font-normal" style={{ width: columnWidth }}>
+                      <div className="relative">
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(product.id)}
+                          className="absolute top-1 right-1 z-10 rounded-full bg-background/80 p-1 text-muted-foreground hover:text-foreground"
+                          aria-label={`Remove ${product.name} from comparison`}
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                        <Link to={`/product/${product.slug}`} className="group block">
+                          <img
+                            src={product.images?.[0]?.image_url || '/placeholder.svg'}
+                            alt={product.name}
+                            className="w-full aspect-square object-cover rounded-md bg-muted mb-3"
+                            onError={(e) => {
+                              (e.target as HTMLImageElement).src = '/placeholder.svg';
+                            }}
+                          />
+                          <span className="text-sm font-semibold text-foreground group-hover:text-destructive line-clamp-2">
+                            {product.name}
+                          </span>
+                        </Link>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {renderRow('Price', renderPrice)}
+                {renderRow('Rating', renderRating)}
+                {renderRow('Availability', (product) => (
+                  <span className={`text-sm ${product.in_stock ? 'text-foreground' : 'text-destructive'}`}>
+                    {product.in_stock ? 'In stock' : 'Out of stock'}
+                  </span>
+                ))}
+                {hasBundles && renderRow('In the box', renderBundle)}
+
+                {SPEC_GROUPS.map(({ group, title }) => {
+                  const rows = specs.filter((spec) => spec.group === group);
+                  if (rows.length === 0) return null;
+                  return [
+                    <tr key={group}>
+                      <th colSpan={products.length + 1} className="pt-8 pb-2 text-left text-base font-semibold text-foreground">
+                        {title}
+                      </th>
+                    </tr>,
+                    ...rows.map((spec) => (
+                      <tr key={spec.key} className="border-b border-border align-top">
+                        <th scope="row" className="py-3 pr-4 text-left text-sm font-medium text-muted-foreground">{spec.label}</th>
+                        {spec.values.map((value, index) => (
+                          <td key={products[index]?.id ?? index} className="py-3 px-3 text-sm text-foreground">
+                            {value ?? <span className="text-muted-foreground">—</span>}
+                          </td>
+                        ))}
+                      </tr>
+                    ))
+                  ];
+                })}
+
+                {renderRow('', (product) => (
+                  <Link to={`/product/${product.slug}`}>
+                    <Button
+                      variant="outline"
+                      className="w-full border-border text-foreground hover:bg-destructive hover:text-destructive-foreground hover:border-destructive"
+                    >
+                      VIEW PRODUCT
+                    </Button>
+                  </Link>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Compare;
@@ -5,6 +5,7 @@ import { Link } from 'react-router-dom';
 import { useEffect, useState } from 'react';
 import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
 import { usePageProducts } from '@/hooks/usePageProducts';
+import CategoryCatalog from '@/components/CategoryCatalog';
 import flightSimImage from '@/assets/flight-sim-cockpit.jpg';
 import heroCockpitImage from '@/assets/hero-cockpit.jpg';
 import trainerStationImage from '@/assets/trainer-station.jpg';
@@ -457,6 +458,9 @@ const FlightSim = () => {
           </div>
         </section>
 
+        {/* Category Catalog with attribute filters */}
+        <CategoryCatalog category="flight-sim" title="SHOP FLIGHT SIM" fallbackImage={flightSimImage} />
+
         {/* Trainer Station Section */}
         <section className="py-12 sm:py-16 lg:py-20 bg-black">
           <div className="container mx-auto px-4">
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,17 +9,24 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { useAuth } from "@/contexts/AuthContext";
+import SocialLoginButtons from "@/components/auth/SocialLoginButtons";
 
 const Login = () => {
   const navigate = useNavigate();
-  const { login, isAuthenticated, loading: authLoading, user } = useAuth();
+  // Social sign-in returns here with an error or, for 2FA accounts, for the code step
+  const [searchParams] = useSearchParams();
+  const { login, verifyTwoFactor, isAuthenticated, loading: authLoading, user } = useAuth();
   const [formData, setFormData] = useState({
     email: "",
     password: "",
     rememberMe: false
   });
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState("");
+  const [error, setError] = useState(searchParams.get("oauthError") || "");
+  // Second step for accounts with two-factor authentication
+  const [twoFactorStep, setTwoFactorStep] = useState(searchParams.get("twoFactor") === "1");
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   // Redirect if already logged in
   useEffect(() => {
@@ -34,7 +41,11 @@ const Login = () => {
     setError("");
 
     try {
-      await login(formData.email, formData.password, formData.rememberMe);
+      const { twoFactorRequired } = await login(formData.email, formData.password, formData.rememberMe);
+      if (twoFactorRequired) {
+        setTwoFactorStep(true);
+        return;
+      }
       // Redirect to home page on successful login
       navigate('/');
     } catch (err) {
@@ -44,6 +55,29 @@ const Login = () => {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+
+    try {
+      const value = twoFactorCode.trim();
+      await verifyTwoFactor(useRecoveryCode ? { recoveryCode: value } : { code: value });
+      navigate('/');
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Invalid authentication code";
+      setError(message);
+      setTwoFactorCode("");
+      // The server drops the pending login after too many attempts
+      if (message.includes('log in again')) {
+        setTwoFactorStep(false);
+        setFormData(prev => ({ ...prev, password: "" }));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
       ...prev,
@@ -59,12 +93,75 @@ const Login = () => {
         <div className="flex items-center justify-center min-h-[calc(100vh-200px)]">
           <Card className="w-full max-w-md">
             <CardHeader className="space-y-1">
-              <CardTitle className="text-2xl text-center">Sign In</CardTitle>
+              <CardTitle className="text-2xl text-center">
+                {twoFactorStep ? "Two-Factor Authentication" : "Sign In"}
+              </CardTitle>
               <CardDescription className="text-center">
-                Enter your email and password to access your account
+                {twoFactorStep
+                  ? useRecoveryCode
+                    ? "Enter one of your recovery codes"
+                    : "Enter the 6-digit code from your authenticator app"
+                  : "Enter your email and password to access your account"}
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {twoFactorStep ? (
+              <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorCode">{useRecoveryCode ? "Recovery code" : "Authentication code"}</Label>
+                  <Input
+                    id="twoFactorCode"
+                    name="twoFactorCode"
+                    inputMode={useRecoveryCode ? "text" : "numeric"}
+                    autoComplete="one-time-code"
+                    placeholder={useRecoveryCode ? "XXXXX-XXXXX" : "123456"}
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    autoFocus
+                    required
+                  />
+                </div>
+
+                <Button 
+                  type="submit" 
+                  className="w-full" 
+                  disabled={loading}
+                >
+                  {loading ? "Verifying..." : "Verify"}
+                </Button>
+
+                <div className="flex justify-between text-sm">
+                  <button
+                    type="button"
+                    className="text-primary hover:underline"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setTwoFactorCode("");
+                      setError("");
+                    }}
+                  >
+                    {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:underline"
+                    onClick={() => {
+                      setTwoFactorStep(false);
+                      setTwoFactorCode("");
+                      setError("");
+                    }}
+                  >
+                    Back
+                  </button>
+                </div>
+              </form>
+              ) : (
               <form onSubmit={handleSubmit} className="space-y-4">
                 {error && (
                   <Alert variant="destructive">
@@ -121,6 +218,8 @@ const Login = () => {
                 >
                   {loading ? "Signing In..." : "Sign In"}
                 </Button>
+
+                <SocialLoginButtons />
                 
                 <div className="text-center text-sm">
                   <Link 
@@ -140,7 +239,18 @@ const Login = () => {
                     Sign up
                   </Link>
                 </div>
+
+                <div className="text-center text-sm text-muted-foreground">
+                  Checked out as a guest?{" "}
+                  <Link 
+                    to="/order-lookup" 
+                    className="text-primary hover:underline"
+                  >
+                    Find your order
+                  </Link>
+                </div>
               </form>
+              )}
             </CardContent>
           </Card>
         </div>
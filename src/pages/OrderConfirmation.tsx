@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { CheckCircle, Package, CreditCard, Truck, Calendar } from 'lucide-react';
+import { CheckCircle, Package, CreditCard, Truck, Calendar, MapPin } from 'lucide-react';
 import { orderAPI } from '../services/api';
 import { trackPurchase } from '../utils/facebookPixel';
 import { trackPurchase as trackGTMPurchase } from '../utils/googleTagManager';
 import { useAuth } from '../contexts/AuthContext';
+import { useCheckout } from '../contexts/CheckoutContext';
+import OrderTrackingTimeline from '../components/OrderTrackingTimeline';
 
 interface OrderItem {
   id: number;
@@ -25,6 +27,7 @@ interface Order {
   total_amount: number;
   subtotal: number;
   tax_amount: number;
+  prices_include_tax?: boolean;
   shipping_amount: number;
   discount_amount: number;
   currency: string;
@@ -42,6 +45,25 @@ export default function OrderConfirmation() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const hasTrackedPurchase = useRef(false);
+  const { unsavedOrderAddress, setUnsavedOrderAddress, saveAddressToBook } = useCheckout();
+  const [savingAddress, setSavingAddress] = useState(false);
+  const [addressSaved, setAddressSaved] = useState(false);
+  const [saveAddressError, setSaveAddressError] = useState<string | null>(null);
+
+  const handleSaveAddress = async () => {
+    if (!unsavedOrderAddress) return;
+    setSavingAddress(true);
+    setSaveAddressError(null);
+    try {
+      await saveAddressToBook(unsavedOrderAddress, 'shipping');
+      setAddressSaved(true);
+      setUnsavedOrderAddress(null);
+    } catch (err) {
+      setSaveAddressError(err instanceof Error ? err.message : 'Failed to save address');
+    } finally {
+      setSavingAddress(false);
+    }
+  };
 
   useEffect(() => {
     if (orderNumber) {
@@ -207,8 +229,14 @@ export default function OrderConfirmation() {
           )}
           <div className="space-y-2">
             <button
-              onClick={() => navigate('/')}
+              onClick={() => navigate(`/order-lookup${orderNumber ? `?orderNumber=${encodeURIComponent(orderNumber)}` : ''}`)}
               className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors block w-full"
+            >
+              Find a Guest Order
+            </button>
+            <button
+              onClick={() => navigate('/')}
+              className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700 transition-colors block w-full"
             >
               Return to Home
             </button>
@@ -239,6 +267,43 @@ export default function OrderConfirmation() {
           <p className="text-gray-600">Thank you for your purchase. Your order has been successfully placed.</p>
         </div>
 
+        {/* Save Address Prompt */}
+        {user && (unsavedOrderAddress || addressSaved) && (
+          <div className="bg-white rounded-lg shadow-sm p-4 mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="flex items-start">
+              <MapPin className="mr-2 mt-0.5 text-gray-500" size={20} />
+              {addressSaved ? (
+                <p className="text-gray-700">Address saved to your address book.</p>
+              ) : (
+                <div>
+                  <p className="font-medium text-gray-900">Save this address for next time?</p>
+                  <p className="text-sm text-gray-600">
+                    {unsavedOrderAddress?.addressLine1}, {unsavedOrderAddress?.city}, {unsavedOrderAddress?.state} {unsavedOrderAddress?.postalCode}
+                  </p>
+                  {saveAddressError && <p className="text-sm text-red-600 mt-1">{saveAddressError}</p>}
+                </div>
+              )}
+            </div>
+            {!addressSaved && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setUnsavedOrderAddress(null)}
+                  className="px-4 py-2 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+                >
+                  No thanks
+                </button>
+                <button
+                  onClick={handleSaveAddress}
+                  disabled={savingAddress}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {savingAddress ? 'Saving...' : 'Save Address'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Order Summary */}
           <div className="lg:col-span-2">
@@ -276,7 +341,7 @@ export default function OrderConfirmation() {
                   </div>
                   {parseFloat(order.tax_amount) > 0 && (
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Tax:</span>
+                      <span className="text-gray-600">{order.prices_include_tax ? 'Includes VAT:' : 'Tax:'}</span>
                       <span className="text-gray-900">{currency}{Number(order.tax_amount).toFixed(2)}</span>
                     </div>
                   )}
@@ -343,6 +408,18 @@ export default function OrderConfirmation() {
                 </div>
               </div>
             </div>
+
+            {/* Shipment Tracking */}
+            <OrderTrackingTimeline
+              orderNumber={order.order_number}
+              className="bg-white rounded-lg shadow-sm p-6 mt-6"
+              heading={
+                <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+                  <Truck className="mr-2" size={20} />
+                  Shipment Tracking
+                </h2>
+              }
+            />
           </div>
 
           {/* Order Details Sidebar */}
@@ -0,0 +1,156 @@
+/**
+ * Order Lookup Page
+ * Guests request a link to their order with its number and email, and land here
+ * from that link to open the order
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams, useNavigate, Link } from 'react-router-dom';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { orderAPI } from '@/services/api';
+import { Loader2, MailCheck, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+const OrderLookup = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get('token');
+  const [form, setForm] = useState({ orderNumber: searchParams.get('orderNumber') || '', email: '' });
+  const [status, setStatus] = useState<'form' | 'sent' | 'verifying' | 'error'>(token ? 'verifying' : 'form');
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    orderAPI.verifyOrderLookup(token)
+      .then((response) => {
+        navigate(`/orders/${response.data.orderNumber}`, { replace: true });
+      })
+      .catch((error) => {
+        console.error('Order lookup link error:', error);
+        setStatus('error');
+        setMessage(error instanceof Error ? error.message : 'This order link is invalid or has expired');
+      });
+  }, [token, navigate]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setMessage('');
+
+    try {
+      const response = await orderAPI.requestOrderLookup({
+        orderNumber: form.orderNumber.trim(),
+        email: form.email.trim()
+      });
+      setStatus('sent');
+      setMessage(response.message);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to look up order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12 sm:py-16 lg:py-20 max-w-xl">
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="text-2xl sm:text-3xl text-center">Find Your Order</CardTitle>
+            {status === 'form' && (
+              <CardDescription className="text-center">
+                Checked out as a guest? Enter your order number and the email you used, and we'll send you a
+                link to view it.
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {status === 'verifying' && (
+              <div className="flex flex-col items-center justify-center py-12">
+                <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
+                <p className="text-muted-foreground">Opening your order...</p>
+              </div>
+            )}
+
+            {status === 'form' && (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="lookup-order-number">Order number</Label>
+                  <Input
+                    id="lookup-order-number"
+                    value={form.orderNumber}
+                    onChange={(e) => setForm({ ...form, orderNumber: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="lookup-email">Email address</Label>
+                  <Input
+                    id="lookup-email"
+                    type="email"
+                    autoComplete="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    required
+                  />
+                </div>
+                {message && <p className="text-sm text-destructive">{message}</p>}
+                <Button type="submit" className="w-full" disabled={submitting}>
+                  {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Email me a link
+                </Button>
+                <p className="text-sm text-muted-foreground text-center">
+                  Have an account? <Link to="/login" className="text-primary hover:underline">Sign in</Link> to
+                  see all your orders.
+                </p>
+              </form>
+            )}
+
+            {status === 'sent' && (
+              <div className="flex flex-col items-center justify-center py-12">
+                <MailCheck className="h-12 w-12 text-green-500 mb-4" />
+                <h2 className="text-xl font-semibold mb-2">Check Your Email</h2>
+                <p className="text-muted-foreground text-center mb-6">{message}</p>
+                <Button onClick={() => navigate('/')} variant="outline">
+                  Return to Home
+                </Button>
+              </div>
+            )}
+
+            {status === 'error' && (
+              <div className="flex flex-col items-center justify-center py-12">
+                <XCircle className="h-12 w-12 text-red-500 mb-4" />
+                <h2 className="text-xl font-semibold mb-2">Link Not Valid</h2>
+                <p className="text-muted-foreground text-center mb-6">{message}</p>
+                <Button
+                  onClick={() => {
+                    setMessage('');
+                    setStatus('form');
+                    navigate('/order-lookup', { replace: true });
+                  }}
+                  variant="outline"
+                >
+                  Request a new link
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default OrderLookup;
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { useParams, Link } from "react-router-dom";
 import { Heart, ShoppingCart, Truck, Shield, Clock, Headphones, Loader2, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -7,13 +7,16 @@ import { Checkbox } from "@/components/ui/checkbox";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { WishlistButton } from "@/components/WishlistButton";
+import { CompareButton } from "@/components/CompareButton";
 import { ShareProductButton } from "@/components/ShareProductButton";
 import ProductImageGallery from "@/components/ProductImageGallery";
 import ProductVariations from "@/components/ProductVariations";
 import ProductAdditionalInfo from "@/components/ProductAdditionalInfo";
 import ProductFAQs from "@/components/ProductFAQs";
 import ProductDescriptionBuilder from "@/components/ProductDescriptionBuilder";
-import { productsAPI, ProductWithDetails, ProductConfiguration, sharedConfigsAPI } from "@/services/api";
+import ProductReviews from "@/components/ProductReviews";
+import ProductRecommendations from "@/components/ProductRecommendations";
+import { productsAPI, ProductWithDetails, ProductConfiguration, sharedConfigsAPI, ProductReview } from "@/services/api";
 import { useToast } from "@/hooks/use-toast";
 import { useCart } from "@/contexts/CartContext";
 import { useRegion } from "@/contexts/RegionContext";
@@ -38,6 +41,12 @@ const ProductDetail = () => {
   const [calculating, setCalculating] = useState(false);
   const [addingToCart, setAddingToCart] = useState(false);
   
+  // Top reviews for structured data (loaded by ProductReviews)
+  const [schemaReviews, setSchemaReviews] = useState<ProductReview[]>([]);
+  const handleReviewsLoaded = useCallback((reviews: ProductReview[]) => {
+    setSchemaReviews(reviews.slice(0, 5));
+  }, []);
+  
   // Configuration state
   const [selectedModelVariation, setSelectedModelVariation] = useState<number | undefined>(undefined);
   const [selectedDropdownVariations, setSelectedDropdownVariations] = useState<Record<number, number>>({});
@@ -1220,7 +1229,7 @@ const ProductDetail = () => {
   return (
     <div className="min-h-screen bg-background text-foreground">
       {seoElement}
-      <ProductSchema product={product} region={(product as any)?.region || region} />
+      <ProductSchema product={product} region={(product as any)?.region || region} reviews={schemaReviews} />
       <BreadcrumbSchema items={breadcrumbItems} />
       <Header />
       
@@ -1703,6 +1712,11 @@ const ProductDetail = () => {
                 return (
                   <div className="text-yellow-400 font-medium">
                     Available on backorder
+                    {product.restock_eta && (
+                      <span className="text-muted-foreground font-normal">
+                        {' '}— expected {new Date(product.restock_eta).toLocaleDateString()}
+                      </span>
+                    )}
                   </div>
                 );
               } else {
@@ -1825,6 +1839,13 @@ const ProductDetail = () => {
                 showLabel={true}
                 className="w-full"
               />
+
+              <CompareButton
+                productId={product.id}
+                variant="ghost"
+                showLabel={true}
+                className="w-full"
+              />
             </div>
 
             {/* Shipping Info */}
@@ -1857,6 +1878,12 @@ const ProductDetail = () => {
 
         {/* FAQs Section */}
         <ProductFAQs productId={product.id} />
+
+        {/* Recommendations */}
+        <ProductRecommendations productIds={[product.id]} />
+
+        {/* Reviews Section */}
+        <ProductReviews productId={product.id} onReviewsLoaded={handleReviewsLoaded} />
       </main>
 
       <Footer />
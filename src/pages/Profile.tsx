@@ -10,13 +10,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Package, User, MapPin, CreditCard, LogOut, ShoppingBag, Heart } from "lucide-react";
+import { Package, User, MapPin, CreditCard, LogOut, ShoppingBag, Heart, Truck } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { useAuth } from "@/contexts/AuthContext";
 import { useWishlist } from "@/contexts/WishlistContext";
 import { useCart } from "@/contexts/CartContext";
 import { orderAPI } from "@/services/api";
+import AddressBook from "@/components/AddressBook";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
+import AccountSecuritySettings from "@/components/auth/AccountSecuritySettings";
+import LinkedAccountsSettings from "@/components/auth/LinkedAccountsSettings";
+import OrderTrackingTimeline from "@/components/OrderTrackingTimeline";
 import { Link } from "react-router-dom";
 
 const Profile = () => {
@@ -27,6 +32,7 @@ const Profile = () => {
   const { addToCart } = useCart();
   const [orders, setOrders] = useState<any[]>([]);
   const [loadingOrders, setLoadingOrders] = useState(false);
+  const [trackedOrderNumber, setTrackedOrderNumber] = useState<string | null>(null);
   
   // Get default tab from URL params
   const defaultTab = searchParams.get('tab') || 'profile';
@@ -285,6 +291,19 @@ const Profile = () => {
                               </p>
                             </div>
                             <div className="flex items-center gap-4">
+                              {(order.tracking_number || order.status === 'shipped' || order.status === 'delivered') && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setTrackedOrderNumber(trackedOrderNumber === order.order_number ? null : order.order_number);
+                                  }}
+                                >
+                                  <Truck className="h-4 w-4 mr-1" />
+                                  {trackedOrderNumber === order.order_number ? 'Hide tracking' : 'Track'}
+                                </Button>
+                              )}
                               <Badge variant={
                                 order.status === 'delivered' ? 'default' :
                                 order.status === 'shipped' ? 'secondary' :
@@ -298,6 +317,11 @@ const Profile = () => {
                               </p>
                             </div>
                           </div>
+                          {trackedOrderNumber === order.order_number && (
+                            <div className="mt-4 pt-4 border-t border-border" onClick={(e) => e.stopPropagation()}>
+                              <OrderTrackingTimeline orderNumber={order.order_number} />
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -308,22 +332,7 @@ const Profile = () => {
 
             {/* Addresses Tab */}
             <TabsContent value="addresses" className="space-y-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Saved Addresses</CardTitle>
-                  <CardDescription>Manage your shipping and billing addresses</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-center py-12">
-                    <MapPin className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
-                    <h3 className="text-lg font-semibold mb-2">No saved addresses</h3>
-                    <p className="text-muted-foreground mb-4">
-                      Add an address to make checkout faster
-                    </p>
-                    <Button variant="outline">Add Address</Button>
-                  </div>
-                </CardContent>
-              </Card>
+              <AddressBook />
             </TabsContent>
 
             {/* Settings Tab */}
@@ -338,10 +347,6 @@ const Profile = () => {
                     <User className="h-4 w-4 mr-2" />
                     Edit Profile
                   </Button>
-                  <Button variant="outline" className="w-full justify-start">
-                    <CreditCard className="h-4 w-4 mr-2" />
-                    Change Password
-                  </Button>
                   <Button variant="outline" className="w-full justify-start">
                     <MapPin className="h-4 w-4 mr-2" />
                     Manage Addresses
@@ -358,6 +363,13 @@ const Profile = () => {
                   </div>
                 </CardContent>
               </Card>
+
+              <AccountSecuritySettings />
+
+              <LinkedAccountsSettings />
+
+              {/* Two-factor authentication is offered to staff accounts */}
+              {(user.authorities?.length > 0 || user.twoFactorEnabled) && <TwoFactorSettings />}
             </TabsContent>
           </Tabs>
         </div>
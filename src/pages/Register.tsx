@@ -9,6 +9,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { useAuth } from "@/contexts/AuthContext";
+import SocialLoginButtons from "@/components/auth/SocialLoginButtons";
 
 const Register = () => {
   const navigate = useNavigate();
@@ -198,6 +199,8 @@ const Register = () => {
                 >
                   {loading ? "Creating Account..." : "Create Account"}
                 </Button>
+
+                <SocialLoginButtons />
                 
                 <div className="text-center text-sm text-muted-foreground">
                   Already have an account?{" "}
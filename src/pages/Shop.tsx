@@ -1,16 +1,20 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Search, Loader2, AlertCircle } from 'lucide-react';
-import { Link, useSearchParams } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
-import { productsAPI, Product } from '@/services/api';
+import { productsAPI, Product, SearchFacets, SearchMatchType, AttributeFacet } from '@/services/api';
 import { useToast } from '@/hooks/use-toast';
 import { WishlistButton } from '@/components/WishlistButton';
+import { CompareButton } from '@/components/CompareButton';
+import AttributeFilterSidebar from '@/components/AttributeFilterSidebar';
 import { useRegion } from '@/contexts/RegionContext';
 import { trackSearch, trackViewCategory } from '@/utils/facebookPixel';
+import { getSessionId } from '@/utils/analytics';
+import { readAttributeFilters, writeAttributeFilters, hasAttributeFilters } from '@/utils/attributeFilters';
 
 const Shop = () => {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -18,6 +22,17 @@ const Shop = () => {
   const [categories, setCategories] = useState<Array<{ id: string; name: string; count: number }>>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState('');
+  // Submitted query; while set, products come from full-text search with facets
+  const [activeSearch, setActiveSearch] = useState('');
+  const [priceBand, setPriceBand] = useState('');
+  const [stockStatus, setStockStatus] = useState('');
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [attributeFacets, setAttributeFacets] = useState<AttributeFacet[]>([]);
+  const [matchType, setMatchType] = useState<SearchMatchType>('exact');
+  const [searchId, setSearchId] = useState<number | null>(null);
+  // Only a newly submitted query is logged (and may redirect), not paging or facet changes
+  const logNextSearchRef = useRef(false);
+  const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
@@ -26,18 +41,29 @@ const Shop = () => {
   const { toast } = useToast();
   const { region } = useRegion();
 
-  // Read category from URL params on mount
+  // Attribute filters live only in the URL so filtered listings can be shared
+  const attributeFilters = readAttributeFilters(searchParams);
+  const attributeKey = JSON.stringify(attributeFilters);
+
+  // Read category and search query from URL params on mount
   useEffect(() => {
     const categoryParam = searchParams.get('category');
     if (categoryParam) {
       setSelectedCategory(categoryParam);
     }
+    const searchParam = searchParams.get('search');
+    // Filter changes also update the URL; only a different query is a new search
+    if (searchParam && searchParam !== activeSearch) {
+      logNextSearchRef.current = true;
+      setSearchQuery(searchParam);
+      setActiveSearch(searchParam);
+    }
   }, [searchParams]);
 
   // Fetch products
   useEffect(() => {
     fetchProducts();
-  }, [selectedCategory, page, region]); // Refetch when region changes
+  }, [selectedCategory, activeSearch, priceBand, stockStatus, attributeKey, page, region]); // Refetch when region changes
 
   // Fetch categories on mount and when region changes
   useEffect(() => {
@@ -63,24 +89,59 @@ const Shop = () => {
       setLoading(true);
       setError(null);
 
+      if (activeSearch) {
+        const isNewSearch = logNextSearchRef.current;
+        logNextSearchRef.current = false;
+
+        const response = await productsAPI.search(activeSearch, {
+          category: selectedCategory || undefined,
+          priceBand: priceBand || undefined,
+          inStock: stockStatus ? stockStatus === 'in_stock' : undefined,
+          attributes: attributeFilters,
+          page,
+          limit: 20,
+          sessionId: isNewSearch ? getSessionId() : undefined,
+        });
+
+        const { redirectUrl } = response.data;
+        if (isNewSearch && redirectUrl) {
+          if (redirectUrl.startsWith('/')) {
+            navigate(redirectUrl, { replace: true });
+          } else {
+            window.location.assign(redirectUrl);
+          }
+          return;
+        }
+        if (isNewSearch) {
+          setSearchId(response.data.searchId);
+        }
+
+        setProducts(response.data.products || []);
+        setTotalPages(response.data.pagination?.totalPages || 1);
+        setTotalProducts(response.data.pagination?.total || 0);
+        setFacets(response.data.facets);
+        setAttributeFacets(response.data.facets.attributes || []);
+        setMatchType(response.data.matchType);
+        return;
+      }
+
       const params: any = {
         page,
         limit: 20,
+        attributes: attributeFilters,
       };
 
       if (selectedCategory) {
         params.category = selectedCategory;
       }
 
-      if (searchQuery) {
-        params.search = searchQuery;
-      }
-
       const response = await productsAPI.getAll(params);
       
       setProducts(response.data.products || []);
       setTotalPages(response.data.pagination?.totalPages || 1);
       setTotalProducts(response.data.pagination?.total || 0);
+      setFacets(null);
+      setAttributeFacets(response.data.attributes || []);
     } catch (err) {
       console.error('Error fetching products:', err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to load products';
@@ -107,9 +168,25 @@ const Shop = () => {
     }
   };
 
+  const updateUrlParams = (categoryId: string, query: string) => {
+    const params: Record<string, string> = {};
+    if (categoryId) params.category = categoryId;
+    if (query) params.search = query;
+    setSearchParams(params);
+  };
+
   const handleSearch = () => {
+    const query = searchQuery.trim();
     setPage(1); // Reset to first page
-    fetchProducts();
+    setPriceBand('');
+    setStockStatus('');
+    logNextSearchRef.current = true;
+    if (query === activeSearch) {
+      fetchProducts();
+    } else {
+      setActiveSearch(query);
+      updateUrlParams(selectedCategory, query);
+    }
     
     // Track Facebook Pixel Search event
     if (searchQuery.trim().length > 0) {
@@ -125,11 +202,7 @@ const Shop = () => {
     setPage(1); // Reset to first page
     
     // Update URL params
-    if (categoryId) {
-      setSearchParams({ category: categoryId });
-    } else {
-      setSearchParams({});
-    }
+    updateUrlParams(categoryId, activeSearch);
     
     // Track Facebook Pixel ViewCategory event
     if (categoryId) {
@@ -142,6 +215,42 @@ const Shop = () => {
     }
   };
 
+  const handleAttributeChange = (code: string, values: string[]) => {
+    setPage(1);
+    setSearchParams(writeAttributeFilters(searchParams, { ...attributeFilters, [code]: values }));
+  };
+
+  const clearAttributeFilters = () => {
+    setPage(1);
+    setSearchParams(writeAttributeFilters(searchParams, {}));
+  };
+
+  const clearFilters = () => {
+    setSelectedCategory('');
+    setSearchQuery('');
+    setActiveSearch('');
+    setPriceBand('');
+    setStockStatus('');
+    setPage(1);
+    setSearchParams({});
+  };
+
+  const handleProductClick = (product: Product, index: number) => {
+    if (activeSearch && searchId) {
+      productsAPI.trackSearchClick(searchId, product.id, getSessionId(), (page - 1) * 20 + index + 1).catch(() => {});
+    }
+  };
+
+  // While searching, category tabs show counts among the matches
+  const categoryOptions = facets
+    ? facets.categories.map((category) => ({ id: category.value, name: category.label, count: category.count }))
+    : categories;
+
+  const showSidebar = attributeFacets.length > 0 || hasAttributeFilters(attributeFilters);
+
+  // Matches only available in the other store
+  const otherRegionFacet = facets?.regions.find((facet) => facet.value !== region && facet.count > 0);
+
   // Check if sale is currently active
   const isSaleActive = (product: any) => {
     if (!product.is_on_sale) return false;
@@ -297,12 +406,12 @@ const Shop = () => {
                   : 'text-muted-foreground hover:text-foreground'
               }`}
             >
-              All {categories.length > 0 && `(${categories.reduce((sum, cat) => sum + cat.count, 0)})`}
+              All {categoryOptions.length > 0 && `(${categoryOptions.reduce((sum, cat) => sum + cat.count, 0)})`}
               {selectedCategory === '' && (
                 <div className="absolute bottom-0 left-0 w-full h-0.5 bg-destructive"></div>
               )}
             </button>
-            {categories.map((category) => (
+            {categoryOptions.map((category) => (
               <button
                 type="button"
                 key={category.id}
@@ -322,186 +431,247 @@ const Shop = () => {
           </nav>
         </div>
 
-        {/* Loading State */}
-        {loading && (
-          <div className="flex flex-col items-center justify-center py-20">
-            <Loader2 className="h-12 w-12 animate-spin text-destructive mb-4" />
-            <p className="text-muted-foreground">Loading products...</p>
+        {/* Search Facets */}
+        {facets && (
+          <div className="mb-8 space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {matchType === 'fuzzy'
+                ? `No exact matches for “${activeSearch}”. Showing close matches.`
+                : `${totalProducts} results for “${activeSearch}”`}
+              {otherRegionFacet && ` · ${otherRegionFacet.count} more in the ${otherRegionFacet.label}`}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {facets.priceBands.map((band) => (
+                <Button
+                  key={band.value}
+                  variant={priceBand === band.value ? 'destructive' : 'outline'}
+                  size="sm"
+                  onClick={() => {
+                    setPriceBand(priceBand === band.value ? '' : band.value);
+                    setPage(1);
+                  }}
+                >
+                  {band.label} ({band.count})
+                </Button>
+              ))}
+              {facets.stockStatus.map((status) => (
+                <Button
+                  key={status.value}
+                  variant={stockStatus === status.value ? 'destructive' : 'outline'}
+                  size="sm"
+                  onClick={() => {
+                    setStockStatus(stockStatus === status.value ? '' : status.value);
+                    setPage(1);
+                  }}
+                >
+                  {status.label} ({status.count})
+                </Button>
+              ))}
+            </div>
           </div>
         )}
 
-        {/* Error State */}
-        {error && !loading && (
-          <div className="flex flex-col items-center justify-center py-20">
-            <AlertCircle className="h-12 w-12 text-destructive mb-4" />
-            <p className="text-destructive text-lg font-medium mb-2">Error loading products</p>
-            <p className="text-muted-foreground mb-4">{error}</p>
-            <Button onClick={fetchProducts} variant="outline">
-              Try Again
-            </Button>
-          </div>
-        )}
+        <div className={showSidebar ? 'flex flex-col lg:flex-row gap-8' : ''}>
+          {/* Attribute Filters */}
+          {showSidebar && (
+            <aside className="lg:w-64 shrink-0">
+              <AttributeFilterSidebar
+                facets={attributeFacets}
+                selected={attributeFilters}
+                onChange={handleAttributeChange}
+                onClear={clearAttributeFilters}
+              />
+            </aside>
+          )}
 
-        {/* Products Grid */}
-        {!loading && !error && products.length > 0 && (
-          <>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-              {products.map((product) => (
-                <Card key={product.id} className="bg-card border-border hover:border-destructive/50 transition-colors group flex flex-col relative cursor-pointer">
-                  <CardContent className="p-0 relative flex flex-col flex-1">
-                    {/* Wishlist Button - Top Right - Above clickable area */}
-                    <div className="absolute top-2 right-2 z-30" onClick={(e) => e.stopPropagation()}>
-                      <WishlistButton productId={product.id} variant="icon" size="sm" />
-                    </div>
-                    
-                    {/* Clickable Link covering card content */}
-                    <Link 
-                      to={`/product/${product.slug}`}
-                      className="absolute inset-0 z-10"
-                      aria-label={`View ${product.name}`}
-                      onClick={(e) => {
-                        // Allow clicks on buttons to work independently
-                        const target = e.target as HTMLElement;
-                        if (target.closest('button') || target.closest('[role="button"]')) {
-                          e.preventDefault();
-                          e.stopPropagation();
-                        }
-                      }}
-                    />
-                    
-                    {/* Product Image */}
-                    <div className="aspect-square bg-muted rounded-t-lg overflow-hidden relative">
-                      {isSaleActive(product) && product.sale_label && (
-                        <div className="absolute top-2 left-2 bg-red-500 text-white px-2 py-1 rounded-md text-xs font-bold z-20">
-                          {product.sale_label}
+          <div className="flex-1 min-w-0">
+            {/* Loading State */}
+            {loading && (
+              <div className="flex flex-col items-center justify-center py-20">
+                <Loader2 className="h-12 w-12 animate-spin text-destructive mb-4" />
+                <p className="text-muted-foreground">Loading products...</p>
+              </div>
+            )}
+
+            {/* Error State */}
+            {error && !loading && (
+              <div className="flex flex-col items-center justify-center py-20">
+                <AlertCircle className="h-12 w-12 text-destructive mb-4" />
+                <p className="text-destructive text-lg font-medium mb-2">Error loading products</p>
+                <p className="text-muted-foreground mb-4">{error}</p>
+                <Button onClick={fetchProducts} variant="outline">
+                  Try Again
+                </Button>
+              </div>
+            )}
+
+            {/* Products Grid */}
+            {!loading && !error && products.length > 0 && (
+              <>
+                <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 ${showSidebar ? '' : 'xl:grid-cols-4'} gap-6`}>
+                  {products.map((product, index) => (
+                    <Card key={product.id} className="bg-card border-border hover:border-destructive/50 transition-colors group flex flex-col relative cursor-pointer">
+                      <CardContent className="p-0 relative flex flex-col flex-1">
+                        {/* Wishlist and Compare Buttons - Top Right - Above clickable area */}
+                        <div className="absolute top-2 right-2 z-30 flex flex-col" onClick={(e) => e.stopPropagation()}>
+                          <WishlistButton productId={product.id} variant="icon" size="sm" />
+                          <CompareButton productId={product.id} variant="icon" size="sm" />
                         </div>
-                      )}
-                      {getProductImage(product) ? (
-                        <img
-                          src={getProductImage(product)}
-                          alt={product.name}
-                          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                    
+                        {/* Clickable Link covering card content */}
+                        <Link 
+                          to={`/product/${product.slug}`}
+                          className="absolute inset-0 z-10"
+                          aria-label={`View ${product.name}`}
+                          onClick={(e) => {
+                            // Allow clicks on buttons to work independently
+                            const target = e.target as HTMLElement;
+                            if (target.closest('button') || target.closest('[role="button"]')) {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              return;
+                            }
+                            handleProductClick(product, index);
+                          }}
                         />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center">
-                          <p className="text-muted-foreground text-sm">No image available</p>
+                    
+                        {/* Product Image */}
+                        <div className="aspect-square bg-muted rounded-t-lg overflow-hidden relative">
+                          {isSaleActive(product) && product.sale_label && (
+                            <div className="absolute top-2 left-2 bg-red-500 text-white px-2 py-1 rounded-md text-xs font-bold z-20">
+                              {product.sale_label}
+                            </div>
+                          )}
+                          {getProductImage(product) ? (
+                            <img
+                              src={getProductImage(product)}
+                              alt={product.name}
+                              className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                            />
+                          ) : (
+                            <div className="w-full h-full flex items-center justify-center">
+                              <p className="text-muted-foreground text-sm">No image available</p>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
                     
-                    {/* Product Info */}
-                    <div className="p-4 flex flex-col flex-1 gap-2 relative">
-                      <h3 className="text-sm font-medium text-foreground line-clamp-2">
-                        {product.name}
-                      </h3>
+                        {/* Product Info */}
+                        <div className="p-4 flex flex-col flex-1 gap-2 relative">
+                          <h3 className="text-sm font-medium text-foreground line-clamp-2">
+                            {product.name}
+                          </h3>
                       
-                      {/* Price */}
-                      <div>
-                        {(() => {
-                          const priceData = getProductPrice(product);
-                          if (typeof priceData === 'string') {
-                            return <span className="text-lg font-bold text-foreground">{priceData}</span>;
-                          }
-                          const currency = region === 'eu' ? '€' : '$';
-                          return (
-                            <div className="space-y-1">
-                              <div className="flex items-center gap-2">
-                                <span className="text-lg font-bold text-destructive">
-                                  {currency}{priceData.price.toFixed(2)}
-                                </span>
-                                {priceData.original && (
-                                  <span className="text-sm line-through text-muted-foreground">
-                                    {currency}{priceData.original.toFixed(2)}
-                                  </span>
-                                )}
-                              </div>
-                              {priceData.onSale && priceData.original && (
-                                <span className="text-xs text-green-600 font-medium">
-                                  Save {currency}{(priceData.original - priceData.price).toFixed(2)}
-                                </span>
-                              )}
-                            </div>
-                          );
-                        })()}
-                      </div>
+                          {/* Price */}
+                          <div>
+                            {(() => {
+                              const priceData = getProductPrice(product);
+                              if (typeof priceData === 'string') {
+                                return <span className="text-lg font-bold text-foreground">{priceData}</span>;
+                              }
+                              const currency = region === 'eu' ? '€' : '$';
+                              return (
+                                <div className="space-y-1">
+                                  <div className="flex items-center gap-2">
+                                    <span className="text-lg font-bold text-destructive">
+                                      {currency}{priceData.price.toFixed(2)}
+                                    </span>
+                                    {priceData.original && (
+                                      <span className="text-sm line-through text-muted-foreground">
+                                        {currency}{priceData.original.toFixed(2)}
+                                      </span>
+                                    )}
+                                  </div>
+                                  {priceData.onSale && priceData.original && (
+                                    <span className="text-xs text-green-600 font-medium">
+                                      Save {currency}{(priceData.original - priceData.price).toFixed(2)}
+                                    </span>
+                                  )}
+                                </div>
+                              );
+                            })()}
+                          </div>
                       
-                      {/* Stock Status */}
-                      {(() => {
-                        const stock = product.stock || product.stock_quantity || 0;
-                        const backordersAllowed = product.backorders_allowed;
-                        const isInStock = isProductInStock(product);
-                        const isBackorder = stock === 0 && backordersAllowed;
+                          {/* Stock Status */}
+                          {(() => {
+                            const stock = product.stock || product.stock_quantity || 0;
+                            const backordersAllowed = product.backorders_allowed;
+                            const isInStock = isProductInStock(product);
+                            const isBackorder = stock === 0 && backordersAllowed;
                         
-                        if (!isInStock && !isBackorder) {
-                          return <p className="text-sm text-destructive">Out of Stock</p>;
-                        } else if (isBackorder) {
-                          return <p className="text-sm text-yellow-600 font-medium">Available on backorder</p>;
-                        }
-                        return null;
-                      })()}
+                            if (!isInStock && !isBackorder) {
+                              return <p className="text-sm text-destructive">Out of Stock</p>;
+                            } else if (isBackorder) {
+                              return <p className="text-sm text-yellow-600 font-medium">Available on backorder</p>;
+                            }
+                            return null;
+                          })()}
                       
-                      {/* Buy Now Button - Pushed to bottom with minimal gap */}
-                      <div className="mt-auto pt-2 relative z-30" onClick={(e) => e.stopPropagation()}>
-                        <Link to={`/product/${product.slug}`} onClick={(e) => e.stopPropagation()}>
-                          <Button 
-                            variant="outline" 
-                            className="w-full border-border text-foreground hover:bg-destructive hover:text-destructive-foreground hover:border-destructive"
-                            disabled={!isProductInStock(product)}
-                          >
-                            {!isProductInStock(product) ? 'OUT OF STOCK' : 'BUY NOW'}
-                          </Button>
-                        </Link>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+                          {/* Buy Now Button - Pushed to bottom with minimal gap */}
+                          <div className="mt-auto pt-2 relative z-30" onClick={(e) => e.stopPropagation()}>
+                            <Link
+                              to={`/product/${product.slug}`}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleProductClick(product, index);
+                              }}
+                            >
+                              <Button 
+                                variant="outline" 
+                                className="w-full border-border text-foreground hover:bg-destructive hover:text-destructive-foreground hover:border-destructive"
+                                disabled={!isProductInStock(product)}
+                              >
+                                {!isProductInStock(product) ? 'OUT OF STOCK' : 'BUY NOW'}
+                              </Button>
+                            </Link>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
 
-            {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="flex justify-center items-center gap-2 mt-12">
-                <Button
-                  variant="outline"
-                  onClick={() => setPage(p => Math.max(1, p - 1))}
-                  disabled={page === 1 || loading}
-                >
-                  Previous
-                </Button>
-                <span className="px-4 py-2 text-sm text-muted-foreground">
-                  Page {page} of {totalPages}
-                </span>
-                <Button
-                  variant="outline"
-                  onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-                  disabled={page === totalPages || loading}
-                >
-                  Next
-                </Button>
-              </div>
+                {/* Pagination */}
+                {totalPages > 1 && (
+                  <div className="flex justify-center items-center gap-2 mt-12">
+                    <Button
+                      variant="outline"
+                      onClick={() => setPage(p => Math.max(1, p - 1))}
+                      disabled={page === 1 || loading}
+                    >
+                      Previous
+                    </Button>
+                    <span className="px-4 py-2 text-sm text-muted-foreground">
+                      Page {page} of {totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                      disabled={page === totalPages || loading}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                )}
+              </>
             )}
-          </>
-        )}
 
-        {/* No Results */}
-        {!loading && !error && products.length === 0 && (
-          <div className="text-center py-20">
-            <p className="text-muted-foreground text-lg">No products found matching your criteria.</p>
-            {(selectedCategory || searchQuery) && (
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setSelectedCategory('');
-                  setSearchQuery('');
-                  setPage(1);
-                }}
-                className="mt-4"
-              >
-                Clear Filters
-              </Button>
+            {/* No Results */}
+            {!loading && !error && products.length === 0 && (
+              <div className="text-center py-20">
+                <p className="text-muted-foreground text-lg">No products found matching your criteria.</p>
+                {(selectedCategory || activeSearch || hasAttributeFilters(attributeFilters)) && (
+                  <Button
+                    variant="outline"
+                    onClick={clearFilters}
+                    className="mt-4"
+                  >
+                    Clear Filters
+                  </Button>
+                )}
+              </div>
             )}
           </div>
-        )}
+        </div>
       </main>
 
       <Footer />
@@ -5,6 +5,7 @@ import { Link } from 'react-router-dom';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import { usePageProducts } from '@/hooks/usePageProducts';
+import CategoryCatalog from '@/components/CategoryCatalog';
 import { Loader2 } from 'lucide-react';
 import simRacingHero from '@/assets/sim-racing-hero.png';
 import racingImage from '@/assets/sim-racing-cockpit.jpg';
@@ -297,6 +298,9 @@ const SimRacing = () => {
         </div>
       </section>
 
+      {/* Category Catalog with attribute filters */}
+      <CategoryCatalog category="sim-racing" title="SHOP SIM RACING" fallbackImage={racingImage} />
+
       {/* Concept Section */}
       <section className="py-12 sm:py-16 lg:py-20 bg-background">
         <div className="container mx-auto px-4">
@@ -0,0 +1,110 @@
+/**
+ * Verify Email Page
+ * Landing page for email verification links (new accounts and email changes)
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { authAPI } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+const VerifyEmail = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { isAuthenticated, refreshUser } = useAuth();
+  const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
+  const [message, setMessage] = useState<string>('');
+  // Tokens are single use; guard against the effect running twice
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    const token = searchParams.get('token');
+
+    if (!token) {
+      setStatus('error');
+      setMessage('Invalid verification link. No token provided.');
+      return;
+    }
+
+    if (submitted.current) return;
+    submitted.current = true;
+
+    authAPI.verifyEmail(token)
+      .then((response) => {
+        setStatus('success');
+        const claimed = response.data.claimedOrders?.length || 0;
+        setMessage(
+          (response.data.emailChanged
+            ? `Your email address is now ${response.data.email}.`
+            : 'Thanks for confirming your email address.') +
+          (claimed > 0 ? ` ${claimed} earlier order${claimed === 1 ? ' has' : 's have'} been added to your account.` : '')
+        );
+        if (isAuthenticated) {
+          refreshUser();
+        }
+      })
+      .catch((error) => {
+        console.error('Verify email error:', error);
+        setStatus('error');
+        setMessage(error instanceof Error ? error.message : 'Failed to verify your email address.');
+      });
+  }, [searchParams, isAuthenticated, refreshUser]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12 sm:py-16 lg:py-20 max-w-2xl">
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="text-2xl sm:text-3xl text-center">
+              Verify Email Address
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {status === 'loading' && (
+              <div className="flex flex-col items-center justify-center py-12">
+                <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
+                <p className="text-muted-foreground">Verifying your email address...</p>
+              </div>
+            )}
+
+            {status === 'success' && (
+              <div className="flex flex-col items-center justify-center py-12">
+                <CheckCircle className="h-12 w-12 text-green-500 mb-4" />
+                <h2 className="text-xl font-semibold mb-2">Email Verified</h2>
+                <p className="text-muted-foreground text-center mb-6">{message}</p>
+                <Button onClick={() => navigate(isAuthenticated ? '/profile' : '/login')} variant="default">
+                  {isAuthenticated ? 'Go to My Account' : 'Sign In'}
+                </Button>
+              </div>
+            )}
+
+            {status === 'error' && (
+              <div className="flex flex-col items-center justify-center py-12">
+                <XCircle className="h-12 w-12 text-red-500 mb-4" />
+                <h2 className="text-xl font-semibold mb-2">Verification Failed</h2>
+                <p className="text-muted-foreground text-center mb-6">{message}</p>
+                <p className="text-sm text-muted-foreground text-center">
+                  Links expire after 24 hours. You can request a new one from your account settings.
+                </p>
+                <Button onClick={() => navigate('/profile?tab=settings')} variant="outline" className="mt-4">
+                  Account Settings
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default VerifyEmail;
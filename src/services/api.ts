@@ -5,6 +5,9 @@
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
+// Dispatched on window when the API asks for 2FA enrolment or step-up re-authentication
+export const TWO_FACTOR_EVENT = 'auth:two-factor';
+
 // Global region getter - will be set by RegionContext
 // Using a ref-based getter to avoid stale closure issues
 let getCurrentRegion: (() => 'us' | 'eu') | null = null;
@@ -94,8 +97,18 @@ export async function apiRequest<T>(
         throw error;
       }
       
+      // Staff must enrol in 2FA, or re-authenticate before a sensitive change;
+      // StepUpDialog listens for this event and prompts for the code
+      if (data.error?.code === 'STEP_UP_REQUIRED' || data.error?.code === 'TWO_FACTOR_ENROLLMENT_REQUIRED') {
+        window.dispatchEvent(new CustomEvent(TWO_FACTOR_EVENT, { detail: { code: data.error.code } }));
+        const error = new Error(data.error.message);
+        (error as any).code = data.error.code;
+        throw error;
+      }
+
       if (response.status === 401) {
-        const error = new Error('Authentication required. Please log in.');
+        // Auth endpoints explain what failed (wrong password, invalid 2FA code)
+        const error = new Error(typeof data.error === 'string' ? data.error : 'Authentication required. Please log in.');
         (error as any).code = 'UNAUTHORIZED';
         throw error;
       }
@@ -168,10 +181,62 @@ export interface User {
   roles: Array<{ id: number; name: string }>;
   authorities: string[];
   emailVerified: boolean;
+  // Awaiting verification before it replaces email
+  pendingEmail?: string | null;
+  twoFactorEnabled?: boolean;
+  twoFactorEnrollmentRequired?: boolean;
   createdAt: string;
   lastLogin?: string;
 }
 
+/**
+ * Authenticator code or one-time recovery code
+ */
+export interface TwoFactorChallenge {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  pending: boolean;
+  recoveryCodesRemaining: number;
+  stepUpAuthorities: string[];
+}
+
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export interface SocialProvider {
+  id: string;
+  name: string;
+}
+
+export interface LinkedIdentity {
+  provider: string;
+  name: string;
+  email: string | null;
+  linkedAt: string;
+  lastLoginAt: string | null;
+}
+
+interface LoginResponse {
+  success: boolean;
+  message: string;
+  data: {
+    // Absent when twoFactorRequired: finish with verifyLoginTwoFactor
+    user?: User;
+    session?: {
+      expiresAt: string;
+    };
+    twoFactorRequired?: boolean;
+  };
+}
+
 export const authAPI = {
   /**
    * Register a new user
@@ -183,6 +248,8 @@ export const authAPI = {
       data: {
         user: User;
         verificationEmailSent: boolean;
+        // Guest orders attached to the new account
+        claimedOrders: string[];
       };
     }>('/api/auth/register', {
       method: 'POST',
@@ -194,21 +261,231 @@ export const authAPI = {
    * Login user
    */
   async login(data: LoginData) {
+    return apiRequest<LoginResponse>('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Second step of a login for accounts with two-factor authentication
+   */
+  async verifyLoginTwoFactor(data: TwoFactorChallenge) {
+    return apiRequest<LoginResponse>('/api/auth/login/2fa', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Re-authenticate before sensitive changes: 2FA code, or password without 2FA
+   */
+  async stepUp(data: TwoFactorChallenge & { password?: string }) {
     return apiRequest<{
       success: boolean;
       message: string;
-      data: {
-        user: User;
-        session: {
-          expiresAt: string;
-        };
-      };
-    }>('/api/auth/login', {
+      data: { expiresAt: string };
+    }>('/api/auth/step-up', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Two-factor status for the current user
+   */
+  async getTwoFactorStatus() {
+    return apiRequest<{
+      success: boolean;
+      data: TwoFactorStatus;
+    }>('/api/auth/2fa');
+  },
+
+  /**
+   * Start authenticator enrolment (secret and QR code)
+   */
+  async setupTwoFactor() {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+      data: TwoFactorEnrolment;
+    }>('/api/auth/2fa/setup', {
+      method: 'POST',
+    });
+  },
+
+  /**
+   * Confirm enrolment with a code from the app; returns recovery codes
+   */
+  async enableTwoFactor(code: string) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+      data: { recoveryCodes: string[] };
+    }>('/api/auth/2fa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  },
+
+  /**
+   * Replace recovery codes
+   */
+  async regenerateRecoveryCodes(code: string) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+      data: { recoveryCodes: string[] };
+    }>('/api/auth/2fa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  },
+
+  /**
+   * Turn off two-factor authentication
+   */
+  async disableTwoFactor(data: TwoFactorChallenge & { password: string }) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+    }>('/api/auth/2fa/disable', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Confirm an email address with the token from a verification link
+   */
+  async verifyEmail(token: string) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+      data: { userId: number; email: string; emailChanged: boolean; claimedOrders: string[] };
+    }>('/api/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  },
+
+  /**
+   * Send the verification email again
+   */
+  async resendVerificationEmail() {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+    }>('/api/auth/verify-email/resend', {
+      method: 'POST',
+    });
+  },
+
+  /**
+   * Change email address; takes effect once the new address is verified
+   */
+  async changeEmail(data: { email: string; password: string }) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+    }>('/api/auth/change-email', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Cancel a pending email change
+   */
+  async cancelEmailChange() {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+    }>('/api/auth/change-email', {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Change password while signed in
+   */
+  async changePassword(data: { currentPassword: string; newPassword: string; logoutOtherSessions?: boolean }) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+      data: { sessionsEnded: number };
+    }>('/api/auth/change-password', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   },
 
+  /**
+   * Number of other signed-in sessions
+   */
+  async getSessions() {
+    return apiRequest<{
+      success: boolean;
+      data: { otherSessions: number };
+    }>('/api/auth/sessions');
+  },
+
+  /**
+   * Sign out of every other browser and device
+   */
+  async logoutOtherSessions() {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+      data: { sessionsEnded: number };
+    }>('/api/auth/sessions/logout-others', {
+      method: 'POST',
+    });
+  },
+
+  /**
+   * Social sign-in providers enabled for this region
+   */
+  async getOAuthProviders() {
+    return apiRequest<{
+      success: boolean;
+      data: { providers: SocialProvider[] };
+    }>('/api/auth/oauth/providers');
+  },
+
+  /**
+   * Browser URL that starts sign-in (or account linking) with a provider
+   */
+  getOAuthStartUrl(provider: string, options: { mode?: 'login' | 'link'; returnTo?: string } = {}) {
+    const params = new URLSearchParams();
+    if (options.mode === 'link') params.set('mode', 'link');
+    if (options.returnTo) params.set('returnTo', options.returnTo);
+    const query = params.toString();
+    return `${API_BASE_URL}/api/auth/oauth/${provider}${query ? `?${query}` : ''}`;
+  },
+
+  /**
+   * Provider accounts connected to the current user
+   */
+  async getLinkedAccounts() {
+    return apiRequest<{
+      success: boolean;
+      data: { identities: LinkedIdentity[]; providers: SocialProvider[]; passwordSet: boolean };
+    }>('/api/auth/oauth/identities');
+  },
+
+  /**
+   * Disconnect a provider account
+   */
+  async unlinkAccount(provider: string) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+    }>(`/api/auth/oauth/identities/${provider}`, {
+      method: 'DELETE',
+    });
+  },
+
   /**
    * Logout user
    */
@@ -292,6 +569,112 @@ export const authAPI = {
   },
 };
 
+// ==========================================
+// ADDRESS BOOK API
+// ==========================================
+
+export type SavedAddressType = 'shipping' | 'billing';
+
+export interface SavedAddress {
+  id: number;
+  user_id: number;
+  type: SavedAddressType;
+  first_name: string;
+  last_name: string;
+  company: string | null;
+  address_line_1: string;
+  address_line_2: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  phone: string | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedAddressInput {
+  type: SavedAddressType;
+  first_name: string;
+  last_name: string;
+  company?: string | null;
+  address_line_1: string;
+  address_line_2?: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  phone?: string | null;
+  is_default?: boolean;
+}
+
+export const addressAPI = {
+  /**
+   * List the current user's saved addresses
+   */
+  async getAddresses(type?: SavedAddressType) {
+    const query = type ? `?type=${type}` : '';
+    return apiRequest<{
+      success: boolean;
+      data: SavedAddress[];
+    }>(`/api/auth/addresses${query}`);
+  },
+
+  /**
+   * Save a new address
+   */
+  async createAddress(data: SavedAddressInput) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+      data: SavedAddress;
+    }>('/api/auth/addresses', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Update a saved address
+   */
+  async updateAddress(id: number, data: Partial<SavedAddressInput>) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+      data: SavedAddress;
+    }>(`/api/auth/addresses/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Make an address the default for its type
+   */
+  async setDefaultAddress(id: number) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+      data: SavedAddress;
+    }>(`/api/auth/addresses/${id}/default`, {
+      method: 'POST',
+    });
+  },
+
+  /**
+   * Delete a saved address
+   */
+  async deleteAddress(id: number) {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+    }>(`/api/auth/addresses/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
 // ==========================================
 // PRODUCTS API
 // ==========================================
@@ -348,6 +731,7 @@ export interface Product {
     manageStock: boolean;
   };
   backorders_allowed?: boolean;
+  restock_eta?: string | null;
   categories?: string[];
   tags?: string[];
   rating?: {
@@ -490,39 +874,129 @@ export interface ProductQueryParams {
   featured?: boolean;
   sortBy?: 'name' | 'price' | 'created_at' | 'featured' | 'rating';
   sortOrder?: 'asc' | 'desc';
+  // Attribute code -> accepted values
+  attributes?: AttributeFilters;
 }
 
 // CSV Import/Export Types
-export interface ImportResult {
-  success: boolean;
-  total: number;
-  created: number;
-  updated: number;
-  skipped: number;
-  errors: Array<{
-    row: number;
-    sku?: string;
-    field?: string;
-    message: string;
-    severity: 'critical' | 'warning';
-  }>;
-  warnings: Array<{
-    row: number;
-    sku?: string;
-    message: string;
-  }>;
-}
+/**
+ * exact: every word matched; fuzzy: close matches shown because nothing matched exactly
+ */
+export type SearchMatchType = 'exact' | 'fuzzy';
+
+export interface SearchFacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * select: one option; multiselect: any number of options; number: a single value;
+ * range: a span such as the monitor sizes a stand supports
+ */
+export type AttributeType = 'select' | 'multiselect' | 'number' | 'range';
+
+export type AttributeFilters = Record<string, string[]>;
+
+export interface AttributeFacet {
+  code: string;
+  name: string;
+  type: AttributeType;
+  unit: string | null;
+  // Option (or number) counts; empty for range attributes
+  values: SearchFacetValue[];
+  // Lowest and highest value among matching products (number and range)
+  min: number | null;
+  max: number | null;
+}
+
+export interface SearchFacets {
+  categories: SearchFacetValue[];
+  priceBands: Array<SearchFacetValue & { min: number; max: number | null }>;
+  stockStatus: SearchFacetValue[];
+  regions: SearchFacetValue[];
+  attributes: AttributeFacet[];
+}
+
+export interface ProductSearchParams {
+  category?: string;
+  priceBand?: string;
+  inStock?: boolean;
+  attributes?: AttributeFilters;
+  page?: number;
+  limit?: number;
+  // Analytics session; when sent the search is logged for the search report
+  sessionId?: string;
+}
+
+/**
+ * Product card data for a recommendation block
+ */
+export interface RecommendedProduct {
+  id: number;
+  name: string;
+  slug: string;
+  sku: string;
+  region: 'us' | 'eu';
+  regular_price: number | string | null;
+  sale_price: number | string | null;
+  is_on_sale: boolean;
+  sale_start_date: string | null;
+  sale_end_date: string | null;
+  price_min: number | string | null;
+  price_max: number | string | null;
+  stock: number;
+  images: ProductImage[];
+}
+
+export interface ProductRecommendations {
+  frequentlyBoughtTogether: RecommendedProduct[];
+  accessories: RecommendedProduct[];
+  alsoViewed: RecommendedProduct[];
+}
+
+export interface ImportResult {
+  success: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: Array<{
+    row: number;
+    sku?: string;
+    field?: string;
+    message: string;
+    severity: 'critical' | 'warning';
+  }>;
+  warnings: Array<{
+    row: number;
+    sku?: string;
+    message: string;
+  }>;
+}
+
+/**
+ * Attribute filters as the API reads them: attr[seat-type]=bucket,reclining
+ */
+const appendAttributeFilters = (searchParams: URLSearchParams, attributes?: AttributeFilters) => {
+  Object.entries(attributes || {}).forEach(([code, values]) => {
+    if (values.length > 0) searchParams.append(`attr[${code}]`, values.join(','));
+  });
+};
 
 export const productsAPI = {
   /**
    * Get all products with filtering and pagination
    */
   async getAll(params?: ProductQueryParams) {
-    const queryString = params ? '?' + new URLSearchParams(
-      Object.entries(params)
+    const { attributes, ...rest } = params || {};
+    const searchParams = new URLSearchParams(
+      Object.entries(rest)
         .filter(([_, v]) => v !== undefined && v !== null)
         .map(([k, v]) => [k, String(v)])
-    ).toString() : '';
+    );
+    appendAttributeFilters(searchParams, attributes);
+    const queryString = searchParams.toString() ? `?${searchParams}` : '';
 
     return apiRequest<{
       success: boolean;
@@ -536,10 +1010,10 @@ export const productsAPI = {
           hasNext: boolean;
           hasPrevious: boolean;
         };
-        filters?: {
-          categories: Array<{ id: string; name: string; count: number }>;
-          priceRange: { min: number; max: number };
-        };
+        // Catalog filters, sent with category listings and unsearched listings
+        categories?: Array<{ id: string; name: string; count: number }>;
+        priceRange?: { min: number; max: number };
+        attributes?: AttributeFacet[];
       };
     }>(`/api/products${queryString}`);
   },
@@ -564,14 +1038,40 @@ export const productsAPI = {
     }>(`/api/products/slug/${slug}`);
   },
 
+  /**
+   * Expected restock dates for out-of-stock products on backorder
+   */
+  async getRestockEtas() {
+    return apiRequest<{
+      success: boolean;
+      data: RestockEta[];
+    }>('/api/products/restock-etas');
+  },
+
+  /**
+   * Frequently bought together, compatible accessories and customers also viewed
+   * for a product page or the products in a cart
+   */
+  async getRecommendations(productIds: number[], limit: number = 4) {
+    const searchParams = new URLSearchParams({ product_ids: productIds.join(','), limit: String(limit) });
+    return apiRequest<{
+      success: boolean;
+      data: ProductRecommendations;
+    }>(`/api/products/recommendations?${searchParams}`);
+  },
+
   /**
    * Search products
    */
-  async search(query: string, params?: { category?: string; page?: number; limit?: number }) {
+  async search(query: string, params?: ProductSearchParams) {
     const searchParams = new URLSearchParams({ q: query });
     if (params?.category) searchParams.append('category', params.category);
+    if (params?.priceBand) searchParams.append('priceBand', params.priceBand);
+    if (params?.inStock !== undefined) searchParams.append('inStock', String(params.inStock));
+    appendAttributeFilters(searchParams, params?.attributes);
     if (params?.page) searchParams.append('page', String(params.page));
     if (params?.limit) searchParams.append('limit', String(params.limit));
+    if (params?.sessionId) searchParams.append('session_id', params.sessionId);
 
     return apiRequest<{
       success: boolean;
@@ -583,10 +1083,42 @@ export const productsAPI = {
           total: number;
           totalPages: number;
         };
+        facets: SearchFacets;
+        matchType: SearchMatchType;
+        redirectUrl: string | null;
+        searchId: number | null;
       };
     }>(`/api/products/search?${searchParams}`);
   },
 
+  /**
+   * Search-as-you-type product and category suggestions
+   */
+  async getSearchSuggestions(query: string, limit: number = 6, sessionId?: string) {
+    const searchParams = new URLSearchParams({ q: query, limit: String(limit) });
+    if (sessionId) searchParams.append('session_id', sessionId);
+    return apiRequest<{
+      success: boolean;
+      data: {
+        products: Product[];
+        categories: SearchFacetValue[];
+        matchType: SearchMatchType;
+        redirectUrl: string | null;
+        searchId: number | null;
+      };
+    }>(`/api/products/search/suggestions?${searchParams}`);
+  },
+
+  /**
+   * Record that a result of a logged search was opened
+   */
+  async trackSearchClick(searchId: number, productId: number, sessionId: string, position?: number) {
+    return apiRequest<{ success: boolean; data: { recorded: boolean } }>(`/api/products/search/${searchId}/click`, {
+      method: 'POST',
+      body: JSON.stringify({ product_id: productId, session_id: sessionId, position }),
+    });
+  },
+
   /**
    * Calculate price for configured product
    */
@@ -827,6 +1359,17 @@ export const healthAPI = {
 // CART API
 // ==========================================
 
+export interface CartTotals {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  currency: string;
+  itemCount: number;
+  pricesIncludeTax: boolean;
+}
+
 export const cartAPI = {
   /**
    * Get current cart
@@ -932,6 +1475,22 @@ export const cartAPI = {
     });
   },
 
+  /**
+   * Calculate tax and totals for a shipping destination
+   */
+  estimateTax: (data: {
+    shippingAddress: { country: string; state?: string; postalCode?: string };
+    shippingAmount: number;
+  }) => {
+    return apiRequest<{
+      success: boolean;
+      data: { totals: CartTotals };
+    }>('/api/cart/tax-estimate', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
   /**
    * Validate cart for checkout
    */
@@ -950,6 +1509,35 @@ export const cartAPI = {
 // ORDER API
 // ==========================================
 
+export interface ShipmentTrackingEvent {
+  id: number;
+  shipment_id: number;
+  status: ShipmentStatus;
+  description: string | null;
+  location: string | null;
+  timestamp: string;
+}
+
+export interface ShipmentTimeline {
+  id: number;
+  carrier: string;
+  service_code: string | null;
+  tracking_number: string;
+  tracking_url: string | null;
+  status: ShipmentStatus;
+  estimated_delivery: string | null;
+  actual_delivery: string | null;
+  shipped_at: string | null;
+  events: ShipmentTrackingEvent[];
+}
+
+export interface OrderTrackingTimeline {
+  order_number: string;
+  status: string;
+  shipping_status: string;
+  shipments: ShipmentTimeline[];
+}
+
 export const orderAPI = {
   /**
    * Create new order from cart
@@ -1013,6 +1601,42 @@ export const orderAPI = {
     }>(`/api/orders/${orderNumber}`);
   },
 
+  /**
+   * Get shipments and carrier tracking events of an order
+   */
+  getTracking: (orderNumber: string) => {
+    return apiRequest<{
+      success: boolean;
+      data: OrderTrackingTimeline;
+    }>(`/api/orders/${orderNumber}/tracking`);
+  },
+
+  /**
+   * Email a link to a guest order (same response whether or not it matches)
+   */
+  requestOrderLookup: (data: { orderNumber: string; email: string }) => {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+    }>('/api/orders/lookup', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Open a guest order from its emailed link
+   */
+  verifyOrderLookup: (token: string) => {
+    return apiRequest<{
+      success: boolean;
+      data: { orderNumber: string };
+    }>('/api/orders/lookup/verify', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  },
+
   /**
    * Cancel order
    */
@@ -1110,153 +1734,392 @@ export const paymentAPI = {
 };
 
 // ==========================================
-// ADMIN VARIATION API
+// ADMIN RECOMMENDATIONS API
 // ==========================================
 
-export const adminVariationsAPI = {
-  /**
-   * Get all variations for a product
-   */
-  getVariations: (productId: number) => {
-    return apiRequest<{
-      success: boolean;
-      data: VariationWithOptions[];
-    }>(`/api/admin/products/${productId}/variations`);
-  },
+export type RecommendationType = 'frequently_bought_together' | 'accessory' | 'related';
+
+export interface ProductRelationship {
+  id: number;
+  product_id: number;
+  related_product_id: number;
+  relationship_type: RecommendationType | 'alternative' | 'upgrade';
+  score: number | string;
+  source: 'computed' | 'manual';
+  is_excluded: boolean;
+  sort_order: number;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+  related_product_name: string;
+  related_product_sku: string;
+  related_product_region: 'us' | 'eu';
+  related_product_status: string;
+}
+
+export interface ProductRelationshipInput {
+  related_product_id: number;
+  relationship_type: RecommendationType;
+  is_excluded?: boolean;
+  sort_order?: number;
+}
 
+export const adminRecommendationsAPI = {
   /**
-   * Create a new variation
+   * Computed and curated recommendations of a product
    */
-  createVariation: (productId: number, data: CreateVariationDto) => {
-    console.log('API: Creating variation for product', productId, 'with data:', data);
+  getRecommendations: (productId: number) => {
     return apiRequest<{
       success: boolean;
-      data: VariationWithOptions;
-    }>(`/api/admin/products/${productId}/variations`, {
-      method: 'POST',
-      body: JSON.stringify(data),
-    });
+      data: ProductRelationship[];
+    }>(`/api/admin/products/${productId}/recommendations`);
   },
 
   /**
-   * Update a variation
+   * Pin a product into a recommendation block, or exclude it
    */
-  updateVariation: (productId: number, variationId: number, data: UpdateVariationDto) => {
-    console.log('API: Updating variation', variationId, 'for product', productId, 'with data:', data);
+  saveRecommendation: (productId: number, data: ProductRelationshipInput) => {
     return apiRequest<{
       success: boolean;
-      data: VariationWithOptions;
-    }>(`/api/admin/products/${productId}/variations/${variationId}`, {
-      method: 'PUT',
+      data: ProductRelationship;
+    }>(`/api/admin/products/${productId}/recommendations`, {
+      method: 'POST',
       body: JSON.stringify(data),
     });
   },
 
   /**
-   * Delete a variation
+   * Remove a recommendation; computed ones return on the next rebuild
    */
-  deleteVariation: (productId: number, variationId: number) => {
+  deleteRecommendation: (productId: number, relationshipId: number) => {
     return apiRequest<{
       success: boolean;
       data: null;
-    }>(`/api/admin/products/${productId}/variations/${variationId}`, {
+    }>(`/api/admin/products/${productId}/recommendations/${relationshipId}`, {
       method: 'DELETE',
     });
   },
 
   /**
-   * Reorder variations
+   * Rebuild computed recommendations now
    */
-  reorderVariations: (productId: number, variationIds: number[]) => {
+  recompute: () => {
     return apiRequest<{
       success: boolean;
-      data: null;
-    }>(`/api/admin/products/${productId}/variations/reorder`, {
-      method: 'PUT',
-      body: JSON.stringify({ variationIds }),
+      data: { frequentlyBoughtTogether: number; accessories: number; alsoViewed: number };
+    }>('/api/admin/products/recommendations/recompute', {
+      method: 'POST',
     });
   },
 };
 
 // ==========================================
-// HELPER FUNCTIONS
+// ADMIN PRODUCT ATTRIBUTES API
 // ==========================================
 
-/**
- * Check if backend is available
- */
-export async function checkBackendConnection(): Promise<boolean> {
-  try {
-    await healthAPI.check();
-    return true;
-  } catch (error) {
-    console.error('Backend connection failed:', error);
-    return false;
-  }
+export interface AttributeOption {
+  value: string;
+  label: string;
 }
 
-/**
- * Format API error message
- */
-export function formatErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
-  }
-  if (typeof error === 'string') {
-    return error;
-  }
-  return 'An unexpected error occurred';
+export interface ProductAttributeDefinition {
+  id: number;
+  code: string;
+  name: string;
+  type: AttributeType;
+  unit: string | null;
+  categories: string[]; // Empty applies to every category
+  options: AttributeOption[];
+  is_filterable: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
 }
 
-/**
- * Get error details for enhanced error handling
- */
-export function getErrorDetails(error: unknown): {
-  message: string;
-  code?: string;
-  retryAfter?: number;
-  details?: any;
-} {
-  if (error instanceof Error) {
-    return {
-      message: error.message,
-      code: (error as any).code,
-      retryAfter: (error as any).retryAfter,
-      details: (error as any).details
-    };
-  }
-  return {
-    message: typeof error === 'string' ? error : 'An unexpected error occurred'
-  };
+export interface ProductAttributeDefinitionInput {
+  code: string;
+  name: string;
+  type: AttributeType;
+  unit?: string | null;
+  categories?: string[];
+  options?: AttributeOption[];
+  is_filterable?: boolean;
+  sort_order?: number;
 }
 
 /**
- * Check if error is retryable
+ * Options for select/multiselect, min for number, min and max for range
  */
-export function isRetryableError(error: unknown): boolean {
-  if (error instanceof Error) {
-    const code = (error as any).code;
-    return code === 'TIMEOUT' || code === 'SERVER_ERROR' || code === 'RATE_LIMIT_EXCEEDED';
-  }
-  return false;
+export interface ProductAttributeValueInput {
+  code: string;
+  values?: string[];
+  min?: number | null;
+  max?: number | null;
 }
 
-/**
- * Get retry delay in milliseconds
- */
-export function getRetryDelay(error: unknown): number {
-  if (error instanceof Error) {
-    const retryAfter = (error as any).retryAfter;
-    if (retryAfter) {
-      return retryAfter * 1000; // Convert seconds to milliseconds
-    }
-  }
-  return 5000; // Default 5 second delay
+export interface ProductAttributeValue extends ProductAttributeValueInput {
+  attribute_id: number;
+  name: string;
+  type: AttributeType;
+  unit: string | null;
 }
 
-// ============================================================================
-// FAQ API
-// ============================================================================
+export const adminProductAttributesAPI = {
+  /**
+   * Attribute definitions, optionally those that apply to a category
+   */
+  list: (category?: string) => {
+    const query = category ? `?${new URLSearchParams({ category })}` : '';
+    return apiRequest<{
+      success: boolean;
+      data: ProductAttributeDefinition[];
+    }>(`/api/admin/product-attributes${query}`);
+  },
+
+  create: (data: ProductAttributeDefinitionInput) => {
+    return apiRequest<{
+      success: boolean;
+      data: ProductAttributeDefinition;
+    }>('/api/admin/product-attributes', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Update a definition; values of removed options are deleted from products
+   */
+  update: (id: number, data: ProductAttributeDefinitionInput) => {
+    return apiRequest<{
+      success: boolean;
+      data: ProductAttributeDefinition;
+    }>(`/api/admin/product-attributes/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  delete: (id: number) => {
+    return apiRequest<{
+      success: boolean;
+      data: null;
+    }>(`/api/admin/product-attributes/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Attribute values of a product
+   */
+  getProductAttributes: (productId: number) => {
+    return apiRequest<{
+      success: boolean;
+      data: ProductAttributeValue[];
+    }>(`/api/admin/products/${productId}/attributes`);
+  },
+
+  /**
+   * Replace the attribute values of a product and its other-region listing
+   */
+  saveProductAttributes: (productId: number, attributes: ProductAttributeValueInput[]) => {
+    return apiRequest<{
+      success: boolean;
+      data: ProductAttributeValue[];
+    }>(`/api/admin/products/${productId}/attributes`, {
+      method: 'PUT',
+      body: JSON.stringify({ attributes }),
+    });
+  },
+};
+
+// ==========================================
+// ADMIN VARIATION API
+// ==========================================
+
+export interface ProductShippingBoxInput {
+  variation_option_id?: number | null;
+  label?: string | null;
+  length: number;
+  width: number;
+  height: number;
+  dimension_unit: 'cm' | 'in';
+  weight: number;
+  weight_unit: 'kg' | 'lbs';
+}
+
+export interface ProductShippingBox extends ProductShippingBoxInput {
+  id: number;
+  product_id: number;
+  sort_order: number;
+}
+
+export const adminVariationsAPI = {
+  /**
+   * Get all variations for a product
+   */
+  getVariations: (productId: number) => {
+    return apiRequest<{
+      success: boolean;
+      data: VariationWithOptions[];
+    }>(`/api/admin/products/${productId}/variations`);
+  },
+
+  /**
+   * Create a new variation
+   */
+  createVariation: (productId: number, data: CreateVariationDto) => {
+    console.log('API: Creating variation for product', productId, 'with data:', data);
+    return apiRequest<{
+      success: boolean;
+      data: VariationWithOptions;
+    }>(`/api/admin/products/${productId}/variations`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Update a variation
+   */
+  updateVariation: (productId: number, variationId: number, data: UpdateVariationDto) => {
+    console.log('API: Updating variation', variationId, 'for product', productId, 'with data:', data);
+    return apiRequest<{
+      success: boolean;
+      data: VariationWithOptions;
+    }>(`/api/admin/products/${productId}/variations/${variationId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Delete a variation
+   */
+  deleteVariation: (productId: number, variationId: number) => {
+    return apiRequest<{
+      success: boolean;
+      data: null;
+    }>(`/api/admin/products/${productId}/variations/${variationId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Get the boxes a product (or its variation options) ships in
+   */
+  getShippingBoxes: (productId: number) => {
+    return apiRequest<{
+      success: boolean;
+      data: ProductShippingBox[];
+    }>(`/api/admin/products/${productId}/shipping-boxes`);
+  },
+
+  /**
+   * Replace a product's shipping box list
+   */
+  updateShippingBoxes: (productId: number, boxes: ProductShippingBoxInput[]) => {
+    return apiRequest<{
+      success: boolean;
+      data: ProductShippingBox[];
+    }>(`/api/admin/products/${productId}/shipping-boxes`, {
+      method: 'PUT',
+      body: JSON.stringify({ boxes }),
+    });
+  },
+
+  /**
+   * Reorder variations
+   */
+  reorderVariations: (productId: number, variationIds: number[]) => {
+    return apiRequest<{
+      success: boolean;
+      data: null;
+    }>(`/api/admin/products/${productId}/variations/reorder`, {
+      method: 'PUT',
+      body: JSON.stringify({ variationIds }),
+    });
+  },
+};
+
+// ==========================================
+// HELPER FUNCTIONS
+// ==========================================
+
+/**
+ * Check if backend is available
+ */
+export async function checkBackendConnection(): Promise<boolean> {
+  try {
+    await healthAPI.check();
+    return true;
+  } catch (error) {
+    console.error('Backend connection failed:', error);
+    return false;
+  }
+}
+
+/**
+ * Format API error message
+ */
+export function formatErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'string') {
+    return error;
+  }
+  return 'An unexpected error occurred';
+}
+
+/**
+ * Get error details for enhanced error handling
+ */
+export function getErrorDetails(error: unknown): {
+  message: string;
+  code?: string;
+  retryAfter?: number;
+  details?: any;
+} {
+  if (error instanceof Error) {
+    return {
+      message: error.message,
+      code: (error as any).code,
+      retryAfter: (error as any).retryAfter,
+      details: (error as any).details
+    };
+  }
+  return {
+    message: typeof error === 'string' ? error : 'An unexpected error occurred'
+  };
+}
+
+/**
+ * Check if error is retryable
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof Error) {
+    const code = (error as any).code;
+    return code === 'TIMEOUT' || code === 'SERVER_ERROR' || code === 'RATE_LIMIT_EXCEEDED';
+  }
+  return false;
+}
+
+/**
+ * Get retry delay in milliseconds
+ */
+export function getRetryDelay(error: unknown): number {
+  if (error instanceof Error) {
+    const retryAfter = (error as any).retryAfter;
+    if (retryAfter) {
+      return retryAfter * 1000; // Convert seconds to milliseconds
+    }
+  }
+  return 5000; // Default 5 second delay
+}
+
+// ============================================================================
+// FAQ API
+// ============================================================================
 
 export interface ProductFAQ {
   id: number;
@@ -1488,6 +2351,7 @@ export interface Role {
   id: number;
   name: string;
   description?: string;
+  requires_two_factor?: boolean;
   created_at: string;
   updated_at: string;
   authorities?: Authority[];
@@ -1498,6 +2362,7 @@ export interface Authority {
   resource: string;
   action: string;
   description?: string;
+  requires_step_up?: boolean;
   created_at: string;
 }
 
@@ -1530,6 +2395,17 @@ export const rbacAPI = {
     });
   },
 
+  async setRoleRequiresTwoFactor(roleId: number, requiresTwoFactor: boolean) {
+    return apiRequest<{
+      success: boolean;
+      data: Role;
+      message: string;
+    }>(`/api/admin/rbac/roles/${roleId}/two-factor`, {
+      method: 'PUT',
+      body: JSON.stringify({ requiresTwoFactor }),
+    });
+  },
+
   // Authorities
   async getAuthorities() {
     return apiRequest<{
@@ -1549,6 +2425,17 @@ export const rbacAPI = {
     });
   },
 
+  async setAuthorityRequiresStepUp(authorityId: number, requiresStepUp: boolean) {
+    return apiRequest<{
+      success: boolean;
+      data: Authority;
+      message: string;
+    }>(`/api/admin/rbac/authorities/${authorityId}/step-up`, {
+      method: 'PUT',
+      body: JSON.stringify({ requiresStepUp }),
+    });
+  },
+
   // Users with roles
   async getUsersWithRoles() {
     return apiRequest<{
@@ -1786,35 +2673,152 @@ export default {
 };
 
 // ==========================================
-// WISHLIST API
+// COMPARE API
 // ==========================================
 
-export interface WishlistItem {
+export interface CompareTrayProduct {
   id: number;
-  product_id: number;
-  notify_on_sale: boolean;
-  notify_on_stock: boolean;
-  created_at: string;
-  product: any; // Product type from your types
+  name: string;
+  slug: string;
+  region: 'us' | 'eu';
+  regular_price: number | string | null;
+  sale_price: number | string | null;
+  is_on_sale: boolean;
+  sale_start_date: string | null;
+  sale_end_date: string | null;
+  price_min: number | string | null;
+  price_max: number | string | null;
+  images: ProductImage[];
 }
 
-// ==========================================
-// SHIPPING API
-// ==========================================
+export interface CompareList {
+  // In the order they were added
+  product_ids: number[];
+  products: CompareTrayProduct[];
+  max_products: number;
+}
 
-export interface ShippingMethod {
-  id: string;
-  name: string;
-  carrier: string;
-  serviceCode: string;
-  cost: number;
-  estimatedDays: {
-    min: number;
-    max: number;
-  };
-  description: string;
-  requiresManualQuote?: boolean;
-  fedexRateData?: {
+export interface ComparedProduct extends CompareTrayProduct {
+  sku: string;
+  is_bundle: boolean;
+  in_stock: boolean;
+  // All configurations, including variation price adjustments
+  price_range: { min: number; max: number };
+  rating: { average: number; count: number };
+  bundle_items: Array<{
+    product_id: number;
+    name: string;
+    slug: string;
+    quantity: number;
+    item_type: 'required' | 'optional';
+  }>;
+}
+
+export interface ComparisonSpecRow {
+  key: string;
+  label: string;
+  group: 'dimensions' | 'attributes';
+  // One per compared product, in the same order
+  values: Array<string | null>;
+  differs: boolean;
+}
+
+export interface ProductComparison {
+  products: ComparedProduct[];
+  specs: ComparisonSpecRow[];
+}
+
+export const compareAPI = {
+  /**
+   * Get the compare tray (session-based, kept on the account when logged in)
+   */
+  getList: () => {
+    return apiRequest<{
+      success: boolean;
+      data: CompareList;
+    }>('/api/compare');
+  },
+
+  /**
+   * Add product to the compare tray
+   */
+  addProduct: (productId: number) => {
+    return apiRequest<{
+      success: boolean;
+      data: CompareList;
+      message: string;
+    }>('/api/compare', {
+      method: 'POST',
+      body: JSON.stringify({ productId }),
+    });
+  },
+
+  /**
+   * Remove product from the compare tray
+   */
+  removeProduct: (productId: number) => {
+    return apiRequest<{
+      success: boolean;
+      data: CompareList;
+      message: string;
+    }>(`/api/compare/${productId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Empty the compare tray
+   */
+  clear: () => {
+    return apiRequest<{
+      success: boolean;
+      message: string;
+    }>('/api/compare', {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Compare products side by side (works for shared links, independent of the tray)
+   */
+  compareProducts: (productIds: number[]) => {
+    return apiRequest<{
+      success: boolean;
+      data: ProductComparison;
+    }>(`/api/compare/products?product_ids=${productIds.join(',')}`);
+  },
+};
+
+// ==========================================
+// WISHLIST API
+// ==========================================
+
+export interface WishlistItem {
+  id: number;
+  product_id: number;
+  notify_on_sale: boolean;
+  notify_on_stock: boolean;
+  created_at: string;
+  product: any; // Product type from your types
+}
+
+// ==========================================
+// SHIPPING API
+// ==========================================
+
+export interface ShippingMethod {
+  id: string;
+  name: string;
+  carrier: string;
+  serviceCode: string;
+  cost: number;
+  estimatedDays: {
+    min: number;
+    max: number;
+  };
+  description: string;
+  requiresManualQuote?: boolean;
+  fedexRateData?: {
     listRate: number;
     negotiatedRate?: number;
     hasNegotiatedRate: boolean;
@@ -1841,6 +2845,7 @@ export const shippingAPI = {
       productId: number;
       quantity: number;
       unitPrice: number;
+      variationOptionIds?: number[];
     }>;
   }) => {
     return apiRequest<{
@@ -2352,3 +3357,1388 @@ export const sharedConfigsAPI = {
   },
 };
 
+
+// ============================================================================
+// PRODUCT REVIEWS API
+// ============================================================================
+
+export type ReviewSort = 'helpful' | 'newest' | 'oldest' | 'rating_high' | 'rating_low';
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+export type ReviewVoteType = 'helpful' | 'not_helpful';
+
+export interface ProductReviewImage {
+  id: number;
+  review_id: number;
+  image_url: string;
+  sort_order: number;
+}
+
+export interface ProductReview {
+  id: number;
+  product_id: number;
+  user_id: number;
+  rating: number;
+  title: string | null;
+  review_text: string | null;
+  is_verified_purchase: boolean;
+  status: ReviewStatus;
+  helpful_count: number;
+  not_helpful_count: number;
+  moderation_note: string | null;
+  created_at: string;
+  author_name: string;
+  images: ProductReviewImage[];
+  current_user_vote?: ReviewVoteType | null;
+}
+
+export interface AdminProductReview extends ProductReview {
+  product_name: string;
+  product_slug: string;
+  author_email: string;
+}
+
+export interface ReviewSummary {
+  average: number;
+  count: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface ReviewPagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+}
+
+export const reviewsAPI = {
+  /**
+   * Get approved reviews for a product with rating summary
+   */
+  async getProductReviews(
+    productId: number,
+    params?: { page?: number; limit?: number; sort?: ReviewSort; rating?: number; verified?: boolean }
+  ) {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append('page', params.page.toString());
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+    if (params?.sort) queryParams.append('sort', params.sort);
+    if (params?.rating) queryParams.append('rating', params.rating.toString());
+    if (params?.verified) queryParams.append('verified', 'true');
+
+    return apiRequest<{
+      success: boolean;
+      data: {
+        reviews: ProductReview[];
+        pagination: ReviewPagination;
+        summary: ReviewSummary;
+      };
+    }>(`/api/products/${productId}/reviews?${queryParams.toString()}`);
+  },
+
+  /**
+   * Submit a review (held for moderation)
+   */
+  async createReview(productId: number, data: { rating: number; title?: string; review_text: string }) {
+    return apiRequest<{
+      success: boolean;
+      data: ProductReview;
+      message: string;
+    }>(`/api/products/${productId}/reviews`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Upload images for the current user's review
+   */
+  async uploadReviewImages(productId: number, reviewId: number, files: File[]) {
+    const formData = new FormData();
+    files.forEach(file => formData.append('images', file));
+
+    const response = await fetch(`${API_BASE_URL}/api/products/${productId}/reviews/${reviewId}/images`, {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Image upload failed');
+    }
+
+    return response.json() as Promise<{
+      success: boolean;
+      data: ProductReview;
+      message: string;
+    }>;
+  },
+
+  /**
+   * Vote a review helpful / not helpful
+   */
+  async voteReview(productId: number, reviewId: number, voteType: ReviewVoteType) {
+    return apiRequest<{
+      success: boolean;
+      data: { helpful_count: number; not_helpful_count: number; current_user_vote: ReviewVoteType };
+    }>(`/api/products/${productId}/reviews/${reviewId}/vote`, {
+      method: 'POST',
+      body: JSON.stringify({ vote_type: voteType }),
+    });
+  },
+
+  /**
+   * Remove the current user's vote
+   */
+  async removeVote(productId: number, reviewId: number) {
+    return apiRequest<{
+      success: boolean;
+      data: { helpful_count: number; not_helpful_count: number; current_user_vote: null };
+    }>(`/api/products/${productId}/reviews/${reviewId}/vote`, {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * List reviews for moderation (admin)
+   */
+  async getModerationQueue(params?: { page?: number; limit?: number; status?: ReviewStatus; search?: string }) {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append('page', params.page.toString());
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+    if (params?.status) queryParams.append('status', params.status);
+    if (params?.search) queryParams.append('search', params.search);
+
+    return apiRequest<{
+      success: boolean;
+      data: {
+        reviews: AdminProductReview[];
+        pagination: ReviewPagination;
+        counts: Record<ReviewStatus, number>;
+      };
+    }>(`/api/admin/reviews?${queryParams.toString()}`);
+  },
+
+  /**
+   * Approve review (admin)
+   */
+  async approveReview(reviewId: number, note?: string) {
+    return apiRequest<{
+      success: boolean;
+      data: ProductReview;
+      message: string;
+    }>(`/api/admin/reviews/${reviewId}/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    });
+  },
+
+  /**
+   * Reject review (admin)
+   */
+  async rejectReview(reviewId: number, note?: string) {
+    return apiRequest<{
+      success: boolean;
+      data: ProductReview;
+      message: string;
+    }>(`/api/admin/reviews/${reviewId}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    });
+  },
+
+  /**
+   * Delete review (admin)
+   */
+  async deleteReview(reviewId: number) {
+    return apiRequest<{
+      success: boolean;
+      data: null;
+      message: string;
+    }>(`/api/admin/reviews/${reviewId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// ============================================================================
+// TAX RULES API
+// ============================================================================
+
+export interface TaxRule {
+  id: number;
+  name: string;
+  country: string;
+  state_code: string | null;
+  postal_prefix: string | null;
+  tax_class: string;
+  rate: number | string;
+  tax_shipping: boolean;
+  priority: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaxRuleInput {
+  name: string;
+  country: string;
+  state_code?: string | null;
+  postal_prefix?: string | null;
+  tax_class?: string;
+  rate: number;
+  tax_shipping?: boolean;
+  priority?: number;
+  is_active?: boolean;
+}
+
+export const taxAPI = {
+  /**
+   * List tax rules (admin)
+   */
+  async getRules(params?: { country?: string; tax_class?: string }) {
+    const queryParams = new URLSearchParams();
+    if (params?.country) queryParams.append('country', params.country);
+    if (params?.tax_class) queryParams.append('tax_class', params.tax_class);
+
+    return apiRequest<{
+      success: boolean;
+      data: TaxRule[];
+    }>(`/api/admin/tax-rules?${queryParams.toString()}`);
+  },
+
+  /**
+   * Create tax rule (admin)
+   */
+  async createRule(data: TaxRuleInput) {
+    return apiRequest<{
+      success: boolean;
+      data: TaxRule;
+      message: string;
+    }>('/api/admin/tax-rules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Update tax rule (admin)
+   */
+  async updateRule(ruleId: number, data: Partial<TaxRuleInput>) {
+    return apiRequest<{
+      success: boolean;
+      data: TaxRule;
+      message: string;
+    }>(`/api/admin/tax-rules/${ruleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Delete tax rule (admin)
+   */
+  async deleteRule(ruleId: number) {
+    return apiRequest<{
+      success: boolean;
+      data: null;
+      message: string;
+    }>(`/api/admin/tax-rules/${ruleId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// ============================================================================
+// SHIPPING ZONES API
+// ============================================================================
+
+export type ShippingMethodType = 'flat' | 'weight_tier' | 'total_tier' | 'package_size' | 'carrier' | 'quote';
+export type FreeShippingMode = 'none' | 'region' | 'amount';
+
+export interface ShippingRateTier {
+  min?: number | null;
+  max?: number | null;
+  size?: 'S' | 'M' | 'L';
+  cost: number;
+}
+
+export interface ShippingClassRule {
+  shipping_class: string;
+  action: 'surcharge' | 'exclude';
+  amount?: number;
+  per?: 'item' | 'order';
+}
+
+export interface ShippingZoneMethod {
+  id: number;
+  zone_id: number;
+  code: string;
+  name: string;
+  carrier: string | null;
+  estimated_days: string | null;
+  method_type: ShippingMethodType;
+  base_cost: number | string;
+  rates: ShippingRateTier[];
+  free_shipping_mode: FreeShippingMode;
+  free_shipping_threshold: number | string | null;
+  class_rules: ShippingClassRule[];
+  sort_order: number;
+  is_active: boolean;
+}
+
+export interface ShippingZone {
+  id: number;
+  name: string;
+  countries: string[];
+  states: string[];
+  postal_codes: string[];
+  sort_order: number;
+  is_active: boolean;
+  methods: ShippingZoneMethod[];
+}
+
+export interface ShippingZoneInput {
+  name: string;
+  countries?: string[];
+  states?: string[];
+  postal_codes?: string[];
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+export interface ShippingZoneMethodInput {
+  code: string;
+  name: string;
+  carrier?: string | null;
+  estimated_days?: string | null;
+  method_type: ShippingMethodType;
+  base_cost?: number;
+  rates?: ShippingRateTier[];
+  free_shipping_mode?: FreeShippingMode;
+  free_shipping_threshold?: number | null;
+  class_rules?: ShippingClassRule[];
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+export interface ShippingRateTestInput {
+  country: string;
+  state?: string;
+  postalCode?: string;
+  orderTotal: number;
+  region: 'us' | 'eu';
+  packageSize?: 'S' | 'M' | 'L';
+  cartItems?: Array<{ productId: number; quantity: number; variationOptionIds?: number[] }>;
+}
+
+export interface ShippingParcel {
+  carton: string | null;
+  length: number;
+  width: number;
+  height: number;
+  weightLbs: number;
+  weightKg: number;
+  packageSize: 'S' | 'M' | 'L';
+  contents: Array<{ productId: number; name: string; quantity: number; weightLbs: number }>;
+}
+
+export interface ShippingRateTestResult {
+  zone: { id: number; name: string } | null;
+  weight_kg: number;
+  package_size: 'S' | 'M' | 'L';
+  parcels: ShippingParcel[];
+  order_total: number;
+  shipping_classes: string[];
+  methods: Array<{
+    method_id: number;
+    code: string;
+    name: string;
+    method_type: ShippingMethodType;
+    available: boolean;
+    reason?: string;
+    base_price: number | null;
+    surcharge: number;
+    free_shipping_applied: boolean;
+    price: number | null;
+    requires_manual_quote: boolean;
+  }>;
+}
+
+export const shippingZonesAPI = {
+  /**
+   * List shipping zones with their methods (admin)
+   */
+  async getZones() {
+    return apiRequest<{
+      success: boolean;
+      data: ShippingZone[];
+    }>('/api/admin/shipping-zones');
+  },
+
+  /**
+   * Create shipping zone (admin)
+   */
+  async createZone(data: ShippingZoneInput) {
+    return apiRequest<{
+      success: boolean;
+      data: ShippingZone;
+      message: string;
+    }>('/api/admin/shipping-zones', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Update shipping zone (admin)
+   */
+  async updateZone(zoneId: number, data: Partial<ShippingZoneInput>) {
+    return apiRequest<{
+      success: boolean;
+      data: ShippingZone;
+      message: string;
+    }>(`/api/admin/shipping-zones/${zoneId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Delete shipping zone and its methods (admin)
+   */
+  async deleteZone(zoneId: number) {
+    return apiRequest<{
+      success: boolean;
+      data: null;
+      message: string;
+    }>(`/api/admin/shipping-zones/${zoneId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Add shipping method to a zone (admin)
+   */
+  async createMethod(zoneId: number, data: ShippingZoneMethodInput) {
+    return apiRequest<{
+      success: boolean;
+      data: ShippingZoneMethod;
+      message: string;
+    }>(`/api/admin/shipping-zones/${zoneId}/methods`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Update shipping method (admin)
+   */
+  async updateMethod(methodId: number, data: Partial<ShippingZoneMethodInput>) {
+    return apiRequest<{
+      success: boolean;
+      data: ShippingZoneMethod;
+      message: string;
+    }>(`/api/admin/shipping-zones/methods/${methodId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Delete shipping method (admin)
+   */
+  async deleteMethod(methodId: number) {
+    return apiRequest<{
+      success: boolean;
+      data: null;
+      message: string;
+    }>(`/api/admin/shipping-zones/methods/${methodId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Show which zone and rates apply to a destination and cart (admin)
+   */
+  async testRate(data: ShippingRateTestInput) {
+    return apiRequest<{
+      success: boolean;
+      data: ShippingRateTestResult;
+    }>('/api/admin/shipping-zones/test-rate', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+};
+
+// ============================================================================
+// SHIPMENTS API
+// ============================================================================
+
+export const FEDEX_SERVICE_TYPES = [
+  { value: 'FEDEX_GROUND', label: 'FedEx Ground' },
+  { value: 'GROUND_HOME_DELIVERY', label: 'FedEx Home Delivery' },
+  { value: 'FEDEX_EXPRESS_SAVER', label: 'FedEx Express Saver' },
+  { value: 'FEDEX_2_DAY', label: 'FedEx 2Day' },
+  { value: 'STANDARD_OVERNIGHT', label: 'FedEx Standard Overnight' },
+  { value: 'PRIORITY_OVERNIGHT', label: 'FedEx Priority Overnight' },
+  { value: 'FEDEX_INTERNATIONAL_PRIORITY', label: 'FedEx International Priority' },
+  { value: 'INTERNATIONAL_ECONOMY', label: 'FedEx International Economy' },
+] as const;
+
+export type FedExServiceType = typeof FEDEX_SERVICE_TYPES[number]['value'];
+
+export type ShipmentStatus =
+  | 'pending'
+  | 'label_created'
+  | 'picked_up'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'failed'
+  | 'returned'
+  | 'voided';
+
+export interface Shipment {
+  id: number;
+  order_id: number;
+  carrier: string;
+  service_code: string | null;
+  tracking_number: string;
+  master_tracking_number: string | null;
+  tracking_url: string | null;
+  shipping_cost: number | null;
+  status: ShipmentStatus;
+  label_format: string | null;
+  has_label: boolean;
+  parcel: ShippingParcel | null;
+  created_by: number | null;
+  created_at: string;
+  voided_at: string | null;
+  voided_by: number | null;
+}
+
+export const shipmentsAPI = {
+  /**
+   * List an order's shipments, one per parcel (admin)
+   */
+  async getOrderShipments(orderId: number) {
+    return apiRequest<{
+      success: boolean;
+      data: Shipment[];
+    }>(`/api/admin/orders/${orderId}/shipments`);
+  },
+
+  /**
+   * Create FedEx labels for a paid order (admin)
+   */
+  async createLabel(orderId: number, serviceType?: FedExServiceType) {
+    return apiRequest<{
+      success: boolean;
+      data: Shipment[];
+      message: string;
+    }>(`/api/admin/orders/${orderId}/shipments`, {
+      method: 'POST',
+      body: JSON.stringify(serviceType ? { serviceType } : {}),
+    });
+  },
+
+  /**
+   * Void a shipment's labels (admin)
+   */
+  async voidLabel(orderId: number, shipmentId: number) {
+    return apiRequest<{
+      success: boolean;
+      data: Shipment[];
+      message: string;
+    }>(`/api/admin/orders/${orderId}/shipments/${shipmentId}/void`, {
+      method: 'POST',
+    });
+  },
+
+  /**
+   * Open a parcel's label PDF in a new tab (admin)
+   */
+  async openLabel(orderId: number, shipmentId: number) {
+    const response = await fetch(`${API_BASE_URL}/api/admin/orders/${orderId}/shipments/${shipmentId}/label`, {
+      method: 'GET',
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Label download failed');
+    }
+
+    const blob = await response.blob();
+    const labelUrl = window.URL.createObjectURL(blob);
+    window.open(labelUrl, '_blank');
+    setTimeout(() => window.URL.revokeObjectURL(labelUrl), 60000);
+
+    return { success: true };
+  },
+};
+
+// ============================================================================
+// ORDER STATUS API
+// ============================================================================
+
+export const ORDER_STATUSES = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'awaiting_quote', label: 'Awaiting quote' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'on_hold', label: 'On hold' },
+  { value: 'backordered', label: 'Backordered' },
+  { value: 'partially_shipped', label: 'Partially shipped' },
+  { value: 'shipped', label: 'Shipped' },
+  { value: 'delivered', label: 'Delivered' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'refunded', label: 'Refunded' },
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number]['value'];
+
+export type OrderActorType = 'admin' | 'customer' | 'system' | 'shipstation' | 'carrier';
+
+/**
+ * Statuses an order may move to from each status; the server enforces the same table
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['awaiting_quote', 'processing', 'on_hold', 'cancelled'],
+  awaiting_quote: ['pending', 'processing', 'cancelled', 'refunded'],
+  processing: ['on_hold', 'backordered', 'partially_shipped', 'shipped', 'cancelled', 'refunded'],
+  on_hold: ['processing', 'backordered', 'cancelled', 'refunded'],
+  backordered: ['processing', 'on_hold', 'partially_shipped', 'cancelled', 'refunded'],
+  partially_shipped: ['shipped', 'on_hold', 'refunded'],
+  shipped: ['delivered', 'refunded'],
+  delivered: ['refunded'],
+  cancelled: ['refunded'],
+  refunded: [],
+};
+
+export const getOrderStatusLabel = (status: string): string =>
+  ORDER_STATUSES.find(option => option.value === status)?.label || status;
+
+export interface OrderStatusHistoryEntry {
+  id: number;
+  order_id: number;
+  from_status: OrderStatus | null;
+  status: OrderStatus;
+  comment: string | null;
+  actor_type: OrderActorType;
+  created_by: number | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export const orderStatusAPI = {
+  /**
+   * Move an order to another status (admin)
+   */
+  async updateStatus(orderId: number, status: OrderStatus, reason?: string) {
+    return apiRequest<{
+      success: boolean;
+      data: { order: any; allowed_transitions: OrderStatus[]; message: string };
+    }>(`/api/admin/orders/${orderId}/status`, {
+      method: 'PUT',
+      body: JSON.stringify(reason ? { status, reason } : { status }),
+    });
+  },
+
+  /**
+   * Status transitions and notes of an order, oldest first (admin)
+   */
+  async getHistory(orderId: number) {
+    return apiRequest<{
+      success: boolean;
+      data: OrderStatusHistoryEntry[];
+    }>(`/api/admin/orders/${orderId}/history`);
+  },
+};
+
+// ============================================================================
+// INVENTORY LEDGER API
+// ============================================================================
+
+export const INVENTORY_MOVEMENT_REASONS = [
+  { value: 'sale', label: 'Sale' },
+  { value: 'refund', label: 'Refund' },
+  { value: 'manual_adjustment', label: 'Manual adjustment' },
+  { value: 'import', label: 'Import' },
+  { value: 'reservation_expiry', label: 'Reservation expired' },
+  { value: 'cycle_count', label: 'Cycle count' },
+  { value: 'transfer', label: 'Warehouse transfer' },
+  { value: 'purchase_receipt', label: 'Purchase receipt' },
+] as const;
+
+export type InventoryMovementReason = typeof INVENTORY_MOVEMENT_REASONS[number]['value'];
+
+export const getInventoryMovementReasonLabel = (reason: string): string =>
+  INVENTORY_MOVEMENT_REASONS.find(option => option.value === reason)?.label || reason;
+
+export interface InventoryMovement {
+  id: number;
+  product_id: number;
+  variation_option_id: number | null;
+  warehouse_id: number | null;
+  warehouse_code: string | null;
+  delta: number;
+  quantity_after: number | null;
+  reserved_delta: number;
+  reason: InventoryMovementReason;
+  note: string | null;
+  actor_type: 'admin' | 'customer' | 'system';
+  actor_id: number | null;
+  actor_name: string | null;
+  source_type: string | null;
+  source_id: string | null;
+  product_name: string;
+  sku: string;
+  option_name: string | null;
+  variation_name: string | null;
+  created_at: string;
+}
+
+export const inventoryAPI = {
+  /**
+   * Stock movement history of a product, or of one of its variation options (admin)
+   */
+  async getMovements(
+    productId: number,
+    filters?: { optionId?: number; reason?: InventoryMovementReason; page?: number; limit?: number }
+  ) {
+    const params = new URLSearchParams();
+    if (filters?.optionId) params.append('optionId', filters.optionId.toString());
+    if (filters?.reason) params.append('reason', filters.reason);
+    if (filters?.page) params.append('page', filters.page.toString());
+    if (filters?.limit) params.append('limit', filters.limit.toString());
+
+    return apiRequest<{
+      success: boolean;
+      data: {
+        movements: InventoryMovement[];
+        pagination: {
+          page: number;
+          limit: number;
+          total: number;
+          totalPages: number;
+          hasNext: boolean;
+          hasPrevious: boolean;
+        };
+      };
+    }>(`/api/admin/products/${productId}/inventory-movements?${params.toString()}`);
+  },
+};
+
+// ============================================================================
+// WAREHOUSES API
+// ============================================================================
+
+export type WarehouseRegion = 'us' | 'eu';
+
+export interface Warehouse {
+  id: number;
+  code: string;
+  name: string;
+  region: WarehouseRegion;
+  address: Record<string, any> | null;
+  serves_countries: string[];
+  priority: number;
+  is_default: boolean;
+  is_active: boolean;
+  sku_count: number;
+  units_on_hand: number;
+  units_reserved: number;
+  low_stock_count: number;
+}
+
+export interface WarehouseInput {
+  code?: string;
+  name?: string;
+  region?: WarehouseRegion;
+  serves_countries?: string[];
+  priority?: number;
+  is_default?: boolean;
+  is_active?: boolean;
+}
+
+export interface WarehouseStockLevel {
+  warehouse_id: number;
+  warehouse_code: string;
+  warehouse_name: string;
+  product_id: number;
+  variation_option_id: number | null;
+  quantity: number;
+  reserved_quantity: number;
+  available: number;
+  low_stock_threshold: number | null;
+  is_low_stock: boolean;
+}
+
+export type StockTransferStatus = 'draft' | 'in_transit' | 'received' | 'cancelled';
+
+export interface StockTransfer {
+  id: number;
+  transfer_number: string;
+  from_warehouse_id: number;
+  to_warehouse_id: number;
+  from_warehouse_name: string;
+  to_warehouse_name: string;
+  status: StockTransferStatus;
+  notes: string | null;
+  total_quantity?: number;
+  shipped_at: string | null;
+  received_at: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+  items?: Array<{
+    id: number;
+    product_id: number;
+    variation_option_id: number | null;
+    quantity: number;
+    product_name: string;
+    sku: string;
+    option_name: string | null;
+  }>;
+}
+
+export interface CreateStockTransferInput {
+  fromWarehouseId: number;
+  toWarehouseId: number;
+  notes?: string;
+  items: Array<{ productId: number; variationOptionId?: number | null; quantity: number }>;
+}
+
+export const warehouseAPI = {
+  async getWarehouses() {
+    return apiRequest<{ success: boolean; data: Warehouse[] }>('/api/admin/warehouses');
+  },
+
+  async createWarehouse(data: WarehouseInput) {
+    return apiRequest<{ success: boolean; data: Warehouse }>('/api/admin/warehouses', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updateWarehouse(id: number, data: WarehouseInput) {
+    return apiRequest<{ success: boolean; data: Warehouse }>(`/api/admin/warehouses/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Stock of a product and its variation options at every location (admin)
+   */
+  async getStockLevels(productId: number) {
+    return apiRequest<{ success: boolean; data: WarehouseStockLevel[] }>(
+      `/api/admin/warehouses/stock?productId=${productId}`
+    );
+  },
+
+  async updateStockLevel(data: {
+    warehouseId: number;
+    productId: number;
+    variationOptionId?: number | null;
+    quantity?: number;
+    low_stock_threshold?: number | null;
+    reason?: 'manual_adjustment' | 'cycle_count';
+    note?: string;
+  }) {
+    return apiRequest<{ success: boolean; data: WarehouseStockLevel[] }>('/api/admin/warehouses/stock-levels', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async getTransfers(status?: StockTransferStatus) {
+    const params = new URLSearchParams();
+    if (status) params.append('status', status);
+
+    return apiRequest<{ success: boolean; data: StockTransfer[] }>(`/api/admin/warehouses/transfers?${params.toString()}`);
+  },
+
+  async createTransfer(data: CreateStockTransferInput) {
+    return apiRequest<{ success: boolean; data: StockTransfer }>('/api/admin/warehouses/transfers', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updateTransferStatus(id: number, action: 'ship' | 'receive' | 'cancel') {
+    return apiRequest<{ success: boolean; data: StockTransfer }>(`/api/admin/warehouses/transfers/${id}/${action}`, {
+      method: 'POST',
+    });
+  },
+};
+
+// ============================================================================
+// PURCHASING API
+// ============================================================================
+
+export interface RestockEta {
+  product_id: number;
+  name: string;
+  slug: string;
+  restock_eta: string;
+  quantity_incoming: number;
+}
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: Record<string, any> | null;
+  currency: string;
+  lead_time_days: number | null;
+  notes: string | null;
+  is_active: boolean;
+  open_orders: number;
+}
+
+export interface SupplierInput {
+  name?: string;
+  contact_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  currency?: string;
+  lead_time_days?: number | null;
+  notes?: string | null;
+  is_active?: boolean;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderItem {
+  id: number;
+  product_id: number;
+  variation_option_id: number | null;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: string;
+  landed_unit_cost: string | null;
+  product_name: string;
+  sku: string;
+  option_name: string | null;
+}
+
+export interface PurchaseOrder {
+  id: number;
+  po_number: string;
+  supplier_id: number;
+  warehouse_id: number;
+  supplier_name: string;
+  warehouse_name: string;
+  status: PurchaseOrderStatus;
+  currency: string;
+  expected_at: string | null;
+  shipping_cost: string;
+  duty_cost: string;
+  other_cost: string;
+  notes: string | null;
+  quantity_ordered?: number;
+  quantity_received?: number;
+  items_total?: number;
+  ordered_at: string | null;
+  received_at: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+  items?: PurchaseOrderItem[];
+}
+
+export interface CreatePurchaseOrderInput {
+  supplierId: number;
+  warehouseId: number;
+  currency?: string;
+  expectedAt?: string | null;
+  shippingCost?: number;
+  dutyCost?: number;
+  otherCost?: number;
+  notes?: string | null;
+  items: Array<{ productId: number; variationOptionId?: number | null; quantity: number; unitCost: number }>;
+}
+
+export interface MarginReportRow {
+  product_id: number;
+  name: string;
+  sku: string;
+  units_sold: number;
+  revenue: number;
+  landed_cost: number | null;
+  cost_of_goods: number | null;
+  gross_margin: number | null;
+  margin_percent: number | null;
+}
+
+export const purchasingAPI = {
+  async getSuppliers() {
+    return apiRequest<{ success: boolean; data: Supplier[] }>('/api/admin/purchasing/suppliers');
+  },
+
+  async createSupplier(data: SupplierInput) {
+    return apiRequest<{ success: boolean; data: Supplier }>('/api/admin/purchasing/suppliers', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updateSupplier(id: number, data: SupplierInput) {
+    return apiRequest<{ success: boolean; data: Supplier }>(`/api/admin/purchasing/suppliers/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async getPurchaseOrders(params?: { status?: PurchaseOrderStatus; supplierId?: number; page?: number; limit?: number }) {
+    const searchParams = new URLSearchParams();
+    if (params?.status) searchParams.append('status', params.status);
+    if (params?.supplierId) searchParams.append('supplierId', String(params.supplierId));
+    if (params?.page) searchParams.append('page', String(params.page));
+    if (params?.limit) searchParams.append('limit', String(params.limit));
+
+    return apiRequest<{
+      success: boolean;
+      data: {
+        purchaseOrders: PurchaseOrder[];
+        pagination: {
+          page: number;
+          limit: number;
+          total: number;
+          totalPages: number;
+          hasNext: boolean;
+          hasPrevious: boolean;
+        };
+      };
+    }>(`/api/admin/purchasing/orders?${searchParams.toString()}`);
+  },
+
+  async getPurchaseOrder(id: number) {
+    return apiRequest<{ success: boolean; data: PurchaseOrder }>(`/api/admin/purchasing/orders/${id}`);
+  },
+
+  async createPurchaseOrder(data: CreatePurchaseOrderInput) {
+    return apiRequest<{ success: boolean; data: PurchaseOrder }>('/api/admin/purchasing/orders', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updatePurchaseOrder(id: number, data: Partial<CreatePurchaseOrderInput>) {
+    return apiRequest<{ success: boolean; data: PurchaseOrder }>(`/api/admin/purchasing/orders/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updatePurchaseOrderStatus(id: number, action: 'place' | 'cancel') {
+    return apiRequest<{ success: boolean; data: PurchaseOrder }>(`/api/admin/purchasing/orders/${id}/${action}`, {
+      method: 'POST',
+    });
+  },
+
+  /**
+   * Receive stock against a purchase order; lines left at zero stay outstanding
+   */
+  async receivePurchaseOrder(id: number, data: { lines: Array<{ itemId: number; quantity: number }>; note?: string }) {
+    return apiRequest<{ success: boolean; data: PurchaseOrder }>(`/api/admin/purchasing/orders/${id}/receive`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async getMarginReport(period: '7d' | '30d' | '90d' | '365d' = '30d') {
+    return apiRequest<{ success: boolean; data: { period: string; products: MarginReportRow[] } }>(
+      `/api/admin/purchasing/reports/margins?period=${period}`
+    );
+  },
+};
+
+// ============================================================================
+// STOCK ALERTS API
+// ============================================================================
+
+export type StockAlertStatus = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+export type StockAlertLevel = 'low_stock' | 'out_of_stock';
+
+export interface StockAlert {
+  id: number;
+  product_id: number;
+  variation_option_id: number | null;
+  region: 'us' | 'eu';
+  level: StockAlertLevel;
+  current_stock: number;
+  threshold: number | null;
+  daily_velocity: number;
+  suggested_reorder: number;
+  incoming_quantity: number;
+  status: StockAlertStatus;
+  snoozed_until: string | null;
+  acknowledged_at: string | null;
+  acknowledged_by_name: string | null;
+  first_detected_at: string;
+  last_detected_at: string;
+  last_notified_at: string | null;
+  resolved_at: string | null;
+  product_name: string;
+  sku: string;
+  option_name: string | null;
+}
+
+export const stockAlertAPI = {
+  async getAlerts(params?: { status?: StockAlertStatus | 'active'; region?: 'us' | 'eu'; level?: StockAlertLevel }) {
+    const searchParams = new URLSearchParams();
+    if (params?.status) searchParams.append('status', params.status);
+    if (params?.region) searchParams.append('region', params.region);
+    if (params?.level) searchParams.append('level', params.level);
+    const query = searchParams.toString();
+    return apiRequest<{ success: boolean; data: StockAlert[] }>(`/api/admin/stock-alerts${query ? `?${query}` : ''}`);
+  },
+
+  /**
+   * Re-check stock against thresholds now; the digest email still goes out on schedule
+   */
+  async refreshAlerts() {
+    return apiRequest<{ success: boolean; data: { raised: number; resolved: number } }>('/api/admin/stock-alerts/refresh', {
+      method: 'POST',
+    });
+  },
+
+  async acknowledgeAlert(id: number) {
+    return apiRequest<{ success: boolean; data: StockAlert }>(`/api/admin/stock-alerts/${id}/acknowledge`, {
+      method: 'POST',
+    });
+  },
+
+  async snoozeAlert(id: number, days: number) {
+    return apiRequest<{ success: boolean; data: StockAlert }>(`/api/admin/stock-alerts/${id}/snooze`, {
+      method: 'POST',
+      body: JSON.stringify({ days }),
+    });
+  },
+};
+
+// ============================================================================
+// AUDIT LOG API
+// ============================================================================
+
+export interface AuditLogEntry {
+  id: number;
+  admin_id: number | null;
+  admin_email: string | null;
+  admin_name: string | null;
+  action: string;
+  authority: string | null;
+  resource_type: string | null;
+  resource_id: string | null;
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  details: { method?: string; path?: string; request?: unknown };
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  adminId?: number;
+  resourceType?: string;
+  resourceId?: string;
+  action?: string;
+  search?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+const buildAuditQuery = (filters: AuditLogFilters = {}) => {
+  const searchParams = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      searchParams.append(key, String(value));
+    }
+  });
+  return searchParams.toString();
+};
+
+export const auditAPI = {
+  async getLogs(filters: AuditLogFilters = {}) {
+    const query = buildAuditQuery(filters);
+    return apiRequest<{
+      success: boolean;
+      data: {
+        logs: AuditLogEntry[];
+        pagination: {
+          page: number;
+          limit: number;
+          total: number;
+          totalPages: number;
+          hasNext: boolean;
+          hasPrevious: boolean;
+        };
+      };
+    }>(`/api/admin/audit-log${query ? `?${query}` : ''}`);
+  },
+
+  async getFilterOptions() {
+    return apiRequest<{
+      success: boolean;
+      data: { resourceTypes: string[]; admins: Array<{ id: number; email: string; name: string | null }> };
+    }>('/api/admin/audit-log/filters');
+  },
+
+  /**
+   * Download entries matching the filters as CSV
+   */
+  async exportCSV(filters: AuditLogFilters = {}) {
+    const query = buildAuditQuery({ ...filters, page: undefined, limit: undefined });
+    const response = await fetch(`${API_BASE_URL}/api/admin/audit-log/export${query ? `?${query}` : ''}`, {
+      method: 'GET',
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Export failed');
+    }
+
+    const blob = await response.blob();
+    const downloadUrl = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(downloadUrl);
+
+    return { success: true };
+  },
+};
+
+// ============================================================================
+// SEARCH ADMIN API
+// ============================================================================
+
+export interface SearchSynonym {
+  id: number;
+  term: string;
+  synonyms: string[];
+  is_active: boolean;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SearchSynonymInput {
+  term: string;
+  synonyms: string[];
+  is_active?: boolean;
+}
+
+export interface SearchRedirect {
+  id: number;
+  query: string;
+  target_url: string;
+  is_active: boolean;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SearchRedirectInput {
+  query: string;
+  target_url: string;
+  is_active?: boolean;
+}
+
+export interface SearchQueryStats {
+  query: string;
+  searches: number;
+  sessions: number;
+  avg_results: number;
+  zero_result_searches: number;
+  click_through_rate: number | null;
+  conversions: number;
+  last_searched_at: string;
+  synonym_id: number | null;
+  redirect_url: string | null;
+}
+
+export interface SearchReport {
+  summary: {
+    searches: number;
+    sessions: number;
+    zero_result_rate: number;
+    click_through_rate: number;
+    conversion_rate: number;
+  };
+  topQueries: SearchQueryStats[];
+  zeroResultQueries: SearchQueryStats[];
+  lowClickThroughQueries: SearchQueryStats[];
+  convertingQueries: SearchQueryStats[];
+}
+
+export const searchAdminAPI = {
+  async getReport(params: { days?: number; region?: 'us' | 'eu' } = {}) {
+    const searchParams = new URLSearchParams();
+    if (params.days) searchParams.append('days', String(params.days));
+    if (params.region) searchParams.append('region', params.region);
+    const query = searchParams.toString();
+    return apiRequest<{ success: boolean; data: SearchReport }>(
+      `/api/admin/search/report${query ? `?${query}` : ''}`
+    );
+  },
+
+  async getSynonyms() {
+    return apiRequest<{ success: boolean; data: SearchSynonym[] }>('/api/admin/search/synonyms');
+  },
+
+  async createSynonym(data: SearchSynonymInput) {
+    return apiRequest<{ success: boolean; data: SearchSynonym }>('/api/admin/search/synonyms', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updateSynonym(id: number, data: SearchSynonymInput) {
+    return apiRequest<{ success: boolean; data: SearchSynonym }>(`/api/admin/search/synonyms/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async deleteSynonym(id: number) {
+    return apiRequest<{ success: boolean }>(`/api/admin/search/synonyms/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  async getRedirects() {
+    return apiRequest<{ success: boolean; data: SearchRedirect[] }>('/api/admin/search/redirects');
+  },
+
+  async createRedirect(data: SearchRedirectInput) {
+    return apiRequest<{ success: boolean; data: SearchRedirect }>('/api/admin/search/redirects', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async updateRedirect(id: number, data: SearchRedirectInput) {
+    return apiRequest<{ success: boolean; data: SearchRedirect }>(`/api/admin/search/redirects/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  async deleteRedirect(id: number) {
+    return apiRequest<{ success: boolean }>(`/api/admin/search/redirects/${id}`, {
+      method: 'DELETE',
+    });
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * Attribute filter URL helpers
+ * Shop pages keep attribute filters in the URL with the same keys the products API reads
+ * (attr[seat-type]=bucket,reclining) so filtered listings can be shared and bookmarked.
+ */
+
+import type { AttributeFilters } from '@/services/api';
+
+const ATTRIBUTE_PARAM = /^attr\[([a-z0-9-]+)\]$/;
+
+/**
+ * Read attribute filters from URL search params
+ */
+export function readAttributeFilters(searchParams: URLSearchParams): AttributeFilters {
+  const filters: AttributeFilters = {};
+  searchParams.forEach((value, key) => {
+    const match = key.match(ATTRIBUTE_PARAM);
+    if (!match) return;
+    const values = value.split(',').map((v) => v.trim()).filter(Boolean);
+    if (values.length > 0) filters[match[1]] = values;
+  });
+  return filters;
+}
+
+/**
+ * Replace the attribute filters in URL search params, keeping every other param
+ */
+export function writeAttributeFilters(searchParams: URLSearchParams, filters: AttributeFilters): URLSearchParams {
+  const params = new URLSearchParams(searchParams);
+  Array.from(params.keys())
+    .filter((key) => ATTRIBUTE_PARAM.test(key))
+    .forEach((key) => params.delete(key));
+  Object.entries(filters).forEach(([code, values]) => {
+    if (values.length > 0) params.set(`attr[${code}]`, values.join(','));
+  });
+  return params;
+}
+
+/**
+ * Whether any attribute filter is selected
+ */
+export function hasAttributeFilters(filters: AttributeFilters): boolean {
+  return Object.values(filters).some((values) => values.length > 0);
+}